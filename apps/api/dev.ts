@@ -2,8 +2,11 @@
  * @file Local development server emulating Cloudflare Workers runtime.
  *
  * Requires wrangler.jsonc with HYPERDRIVE_CACHED and HYPERDRIVE_DIRECT bindings.
+ * Unlike the Worker, it also serves live game events over WebSocket at /api/live.
  */
 
+import { createLiveServer } from "@repo/ws-protocol/server";
+import type { Server } from "bun";
 import { Hono } from "hono";
 import { logger } from "hono/logger";
 import { requestId } from "hono/request-id";
@@ -15,6 +18,8 @@ import { createAuth } from "./lib/auth.js";
 import type { AppContext } from "./lib/context.js";
 import { createDb, createDbFromUrl } from "./lib/db.js";
 import type { Env } from "./lib/env.js";
+import { resolveFacilityKiosk } from "./lib/facility-kiosk.js";
+import { canFollowLiveTopic } from "./lib/live.js";
 import { errorHandler, notFoundHandler } from "./lib/middleware.js";
 
 const { values: args } = parseArgs({
@@ -47,19 +52,8 @@ const cf = await getPlatformProxy<CloudflareEnv>({
   persist: true,
 });
 
-// Inject context with two database connections:
-// - db: Hyperdrive caching for read-heavy queries (or DATABASE_URL in dev)
-// - dbDirect: No cache for writes and transactions
-app.use(async (c, next) => {
-  const databaseUrl = process.env.DATABASE_URL;
-  const db = databaseUrl
-    ? createDbFromUrl(databaseUrl)
-    : createDb(cf.env.HYPERDRIVE_CACHED);
-  const dbDirect = databaseUrl
-    ? createDbFromUrl(databaseUrl)
-    : createDb(cf.env.HYPERDRIVE_DIRECT);
-
-  // Merge secrets from process.env (local dev) with Cloudflare bindings
+// Merge secrets from process.env (local dev) with Cloudflare bindings
+function createEnv(forwardedOrigin: string | undefined) {
   const secretKeys = [
     "BETTER_AUTH_SECRET",
     "GOOGLE_CLIENT_ID",
@@ -69,25 +63,72 @@ app.use(async (c, next) => {
     "RESEND_EMAIL_FROM",
   ] as const;
 
-  const env = {
+  return {
     ...cf.env,
     ...Object.fromEntries(
       secretKeys.map((key) => [key, (process.env[key] || cf.env[key]) ?? ""]),
     ),
     APP_NAME: process.env.APP_NAME || cf.env.APP_NAME || "Example",
     APP_ORIGIN:
-      c.req.header("x-forwarded-origin") ||
+      forwardedOrigin ||
       process.env.APP_ORIGIN ||
-      c.env.APP_ORIGIN ||
+      cf.env.APP_ORIGIN ||
       "http://localhost:5173",
   };
+}
+
+// Two database connections, created once for the server:
+// - db: Hyperdrive caching for read-heavy queries (or DATABASE_URL in dev)
+// - dbDirect: No cache for writes and transactions
+const databaseUrl = process.env.DATABASE_URL;
+const db = databaseUrl
+  ? createDbFromUrl(databaseUrl)
+  : createDb(cf.env.HYPERDRIVE_CACHED);
+const dbDirect = databaseUrl
+  ? createDbFromUrl(databaseUrl)
+  : createDb(cf.env.HYPERDRIVE_DIRECT);
+
+// Live game events over WebSocket at /api/live. Connections authenticate with the session
+// cookie, or a kiosk display with its token (?kiosk=), and may only follow what they can see.
+const live = createLiveServer({
+  async authenticate(req) {
+    const env = createEnv(req.headers.get("x-forwarded-origin") ?? undefined);
+    const kioskToken = new URL(req.url).searchParams.get("kiosk");
+    if (kioskToken) {
+      const kiosk = await resolveFacilityKiosk(
+        db,
+        kioskToken,
+        env.BETTER_AUTH_SECRET,
+      );
+      return kiosk ? { kioskFacilityId: kiosk.facilityId } : undefined;
+    }
+    const session = await createAuth(db, env).api.getSession({
+      headers: req.headers,
+    });
+    return session ? { userId: session.user.id } : undefined;
+  },
+  authorizeTopic: (data, topic) => canFollowLiveTopic(db, data, topic),
+});
+
+// Inject context: database connections, auth and the live publisher
+app.use(async (c, next) => {
+  const env = createEnv(c.req.header("x-forwarded-origin"));
 
   c.set("db", db);
   c.set("dbDirect", dbDirect);
   c.set("auth", createAuth(db, env));
+  c.set("live", live);
   await next();
 });
 
 app.route("/", api);
 
-export default app;
+export default {
+  fetch(req: Request, server: Server<unknown>) {
+    if (new URL(req.url).pathname === "/api/live") {
+      return live.fetch(req, server);
+    }
+    return app.fetch(req, server);
+  },
+  websocket: live.websocket,
+};
@@ -15,6 +15,7 @@ export { default as app, appRouter } from "./lib/app.js";
 // Type exports
 export type { AppRouter } from "./lib/app.js";
 export type { AppContext } from "./lib/context.js";
+export type { ScheduleConflict, ScheduleEvent } from "./lib/conflicts.js";
 // Re-export context type to fix TypeScript portability issues
 export type * from "./lib/context.js";
 
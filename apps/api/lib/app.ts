@@ -4,9 +4,26 @@
  * Combines authentication, tRPC, and health check endpoints into a single HTTP router.
  */
 
+import { calendarFeed, facilityKiosk, member } from "@repo/db";
 import { fetchRequestHandler } from "@trpc/server/adapters/fetch";
-import { Hono } from "hono";
+import { and, eq, isNull } from "drizzle-orm";
+import { Hono, type Context } from "hono";
+import {
+  canAccessCalendarFeed,
+  loadCalendarFeed,
+  verifyCalendarFeedToken,
+} from "./calendar-feed.js";
 import type { AppContext } from "./context.js";
+import {
+  loadFacilityKioskBoard,
+  resolveFacilityKiosk,
+} from "./facility-kiosk.js";
+import {
+  buildGameSheetsPdf,
+  loadFacilityGameSheets,
+  loadGameSheet,
+} from "./game-sheet.js";
+import { buildIcsCalendar } from "./ics.js";
 import { router } from "./trpc.js";
 import { organizationRouter } from "../routers/organization.js";
 import { userRouter } from "../routers/user.js";
@@ -30,6 +47,10 @@ app.get("/api", (c) => {
     endpoints: {
       trpc: "/api/trpc",
       auth: "/api/auth",
+      calendar: "/api/calendar/:token.ics",
+      kiosk: "/api/kiosk/:token",
+      gameSheet: "/api/game-sheets/games/:gameId",
+      facilityGameSheets: "/api/game-sheets/facilities/:facilityId",
       health: "/health",
     },
     documentation: {
@@ -53,6 +74,166 @@ app.on(["GET", "POST"], "/api/auth/*", (c) => {
   return auth.handler(c.req.raw);
 });
 
+// iCalendar feeds. No session: calendar apps fetch the signed URL directly.
+// Unknown, tampered and revoked tokens all return 404.
+app.get("/api/calendar/:file", async (c) => {
+  const db = c.get("db");
+  const dbDirect = c.get("dbDirect");
+  if (!db || !dbDirect) {
+    return c.json({ error: "Database not available" }, 503);
+  }
+  const file = c.req.param("file");
+  const feedId = file.endsWith(".ics")
+    ? await verifyCalendarFeedToken(file.slice(0, -4), c.env.BETTER_AUTH_SECRET)
+    : null;
+  const feed = feedId
+    ? await db.query.calendarFeed.findFirst({
+        where: and(eq(calendarFeed.id, feedId), isNull(calendarFeed.revokedAt)),
+      })
+    : undefined;
+  // Feeds stop working once their creator loses access, e.g. leaves the team or organization.
+  const allowed = feed
+    ? await canAccessCalendarFeed(db, feed.createdByUserId, feed)
+    : false;
+  const calendar =
+    feed && allowed
+      ? await loadCalendarFeed(db, feed, {
+          uidDomain: new URL(c.env.APP_ORIGIN).hostname,
+        })
+      : null;
+  if (!feed || !calendar) {
+    return c.json({ error: "Not Found", path: c.req.path }, 404);
+  }
+  await dbDirect
+    .update(calendarFeed)
+    .set({ lastAccessedAt: new Date() })
+    .where(eq(calendarFeed.id, feed.id));
+  const ics = buildIcsCalendar({
+    prodId: `-//${c.env.APP_NAME}//Schedule//EN`,
+    name: calendar.name,
+    timeZone: calendar.timeZone,
+    events: calendar.events,
+  });
+  return c.body(ics, 200, {
+    "Content-Type": "text/calendar; charset=utf-8",
+    "Cache-Control": "private, max-age=300",
+  });
+});
+
+// Kiosk boards. No session: the signed token is read-only access to one facility's games today.
+// Unknown, tampered and revoked tokens all return 404.
+app.get("/api/kiosk/:token", async (c) => {
+  const db = c.get("db");
+  const dbDirect = c.get("dbDirect");
+  if (!db || !dbDirect) {
+    return c.json({ error: "Database not available" }, 503);
+  }
+  const kiosk = await resolveFacilityKiosk(
+    db,
+    c.req.param("token"),
+    c.env.BETTER_AUTH_SECRET,
+  );
+  const board = kiosk ? await loadFacilityKioskBoard(db, kiosk) : null;
+  if (!kiosk || !board) {
+    return c.json({ error: "Not Found", path: c.req.path }, 404);
+  }
+  await dbDirect
+    .update(facilityKiosk)
+    .set({ lastAccessedAt: new Date() })
+    .where(eq(facilityKiosk.id, kiosk.id));
+  return c.json({ kiosk: { id: kiosk.id, name: kiosk.name }, ...board }, 200, {
+    "Cache-Control": "no-store",
+  });
+});
+
+// Printable game sheets (PDF). Session required, like tRPC: the caller must be a member of
+// ?organizationId. Served as plain GETs so the browser can open and print them directly.
+async function isOrganizationMember(
+  c: Context<AppContext>,
+  organizationId: string,
+): Promise<boolean> {
+  const db = c.get("db");
+  const auth = c.get("auth");
+  if (!db || !auth || !organizationId) return false;
+  const sessionData = await auth.api.getSession({ headers: c.req.raw.headers });
+  if (!sessionData) return false;
+  const membership = await db.query.member.findFirst({
+    where: and(
+      eq(member.userId, sessionData.user.id),
+      eq(member.organizationId, organizationId),
+    ),
+  });
+  return Boolean(membership);
+}
+
+function pdfResponse(
+  c: Context<AppContext>,
+  pdf: Uint8Array<ArrayBuffer>,
+  filename: string,
+) {
+  return c.body(pdf, 200, {
+    "Content-Type": "application/pdf",
+    "Content-Disposition": `inline; filename="${filename}"`,
+    "Cache-Control": "private, no-store",
+  });
+}
+
+app.get("/api/game-sheets/games/:gameId", async (c) => {
+  const db = c.get("db");
+  if (!db) {
+    return c.json({ error: "Database not available" }, 503);
+  }
+  const organizationId = c.req.query("organizationId") ?? "";
+  if (!(await isOrganizationMember(c, organizationId))) {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+  const sheet = await loadGameSheet(db, organizationId, c.req.param("gameId"));
+  if (!sheet) {
+    return c.json({ error: "Not Found", path: c.req.path }, 404);
+  }
+  return pdfResponse(
+    c,
+    buildGameSheetsPdf([sheet], `Game sheet – ${sheet.competition}`),
+    `game-sheet-${sheet.gameId}.pdf`,
+  );
+});
+
+// All games starting at a facility on ?date (facility-local YYYY-MM-DD), one page each.
+app.get("/api/game-sheets/facilities/:facilityId", async (c) => {
+  const db = c.get("db");
+  if (!db) {
+    return c.json({ error: "Database not available" }, 503);
+  }
+  const organizationId = c.req.query("organizationId") ?? "";
+  if (!(await isOrganizationMember(c, organizationId))) {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+  const date = c.req.query("date") ?? "";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return c.json({ error: "date must be YYYY-MM-DD" }, 400);
+  }
+  const result = await loadFacilityGameSheets(
+    db,
+    organizationId,
+    c.req.param("facilityId"),
+    date,
+  );
+  if (!result) {
+    return c.json({ error: "Not Found", path: c.req.path }, 404);
+  }
+  if (result.sheets.length === 0) {
+    return c.json({ error: "No games at this facility on that date" }, 404);
+  }
+  return pdfResponse(
+    c,
+    buildGameSheetsPdf(
+      result.sheets,
+      `Game sheets – ${result.facilityName}, ${date}`,
+    ),
+    `game-sheets-${date}.pdf`,
+  );
+});
+
 // tRPC API routes
 app.use("/api/trpc/*", (c) => {
   return fetchRequestHandler({
@@ -88,6 +269,7 @@ app.use("/api/trpc/*", (c) => {
         env: c.env,
         db,
         dbDirect,
+        live: c.get("live"),
         session: sessionData?.session ?? null,
         user: sessionData?.user ?? null,
         cache: new Map(),
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import {
+  getCalendarFeedUrl,
+  signCalendarFeedToken,
+  verifyCalendarFeedToken,
+} from "./calendar-feed";
+
+const secret = "s".repeat(32);
+
+describe("calendar feed tokens", () => {
+  it("round-trips the feed id", async () => {
+    const token = await signCalendarFeedToken("feed-1", secret);
+    expect(token.startsWith("feed-1.")).toBe(true);
+    expect(token).toMatch(/^[\w-]+\.[\w-]+$/);
+    await expect(verifyCalendarFeedToken(token, secret)).resolves.toBe(
+      "feed-1",
+    );
+  });
+
+  it("rejects tampered ids, other secrets and malformed tokens", async () => {
+    const token = await signCalendarFeedToken("feed-1", secret);
+    const signature = token.slice("feed-1.".length);
+    await expect(
+      verifyCalendarFeedToken(`feed-2.${signature}`, secret),
+    ).resolves.toBeNull();
+    await expect(
+      verifyCalendarFeedToken(token, "t".repeat(32)),
+    ).resolves.toBeNull();
+    for (const bad of ["", "feed-1", ".abc", "feed-1.", "feed-1.***"]) {
+      await expect(verifyCalendarFeedToken(bad, secret)).resolves.toBeNull();
+    }
+  });
+
+  it("rejects signatures of an impossible base64 length", async () => {
+    for (const bad of ["feed-1.A", "feed-1.AAAAA", "feed-1.x"]) {
+      await expect(verifyCalendarFeedToken(bad, secret)).resolves.toBeNull();
+    }
+  });
+
+  it("builds the public .ics URL under /api", () => {
+    expect(getCalendarFeedUrl("https://example.com", "feed-1.abc")).toBe(
+      "https://example.com/api/calendar/feed-1.abc.ics",
+    );
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * @file Signed iCalendar feed URLs and the events behind them.
+ *
+ * A feed URL carries `<feedId>.<signature>`, where the signature is an HMAC of the feed id
+ * keyed with BETTER_AUTH_SECRET. The signature keeps URLs unguessable; the calendar_feed row
+ * makes them revocable. Feeds include soft-deleted and cancelled games as STATUS:CANCELLED
+ * so subscribed calendars drop them. Facility bookings are deleted outright, so a removed
+ * booking simply leaves the feed; calendars that keep events missing from a refresh may
+ * still show it.
+ */
+
+import {
+  facility,
+  facilityBooking,
+  facilitySurface,
+  game,
+  league,
+  leagueTeam,
+  member,
+  organization,
+  organizationPlayer,
+  team,
+  teamMember,
+  user,
+  type CalendarFeed,
+  type DatabaseSchema,
+} from "@repo/db";
+import { and, eq, gt, inArray, or, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import type { IcsEvent } from "./ics.js";
+import { signToken, verifyToken } from "./signed-token.js";
+
+/** Past games older than this are left out of feeds. */
+const FEED_HISTORY_DAYS = 90;
+
+/** Token for a feed URL: `<feedId>.<signature>`. */
+export function signCalendarFeedToken(
+  feedId: string,
+  secret: string,
+): Promise<string> {
+  return signToken("calendar-feed", feedId, secret);
+}
+
+/** Feed id from a token, or null when the token is malformed or the signature does not match. */
+export function verifyCalendarFeedToken(
+  token: string,
+  secret: string,
+): Promise<string | null> {
+  return verifyToken("calendar-feed", token, secret);
+}
+
+/** Public URL of a feed. The API is served under the app origin at /api. */
+export function getCalendarFeedUrl(appOrigin: string, token: string): string {
+  return `${appOrigin}/api/calendar/${token}.ics`;
+}
+
+/**
+ * Whether a user may subscribe to a feed. Organization staff may subscribe to any feed; team
+ * members to their team's; players of the organization to their own schedule. League and
+ * facility feeds are for staff only.
+ */
+export async function canAccessCalendarFeed(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  userId: string,
+  feed: Pick<CalendarFeed, "organizationId" | "scope" | "targetId">,
+): Promise<boolean> {
+  const membership = await db.query.member.findFirst({
+    where: and(
+      eq(member.userId, userId),
+      eq(member.organizationId, feed.organizationId),
+    ),
+  });
+  if (membership) return true;
+  switch (feed.scope) {
+    case "team": {
+      const [row] = await db
+        .select({ id: teamMember.id })
+        .from(teamMember)
+        .innerJoin(team, eq(team.id, teamMember.teamId))
+        .where(
+          and(
+            eq(teamMember.teamId, feed.targetId),
+            eq(teamMember.userId, userId),
+            eq(team.organizationId, feed.organizationId),
+          ),
+        );
+      return Boolean(row);
+    }
+    case "user": {
+      if (feed.targetId !== userId) return false;
+      const player = await db.query.organizationPlayer.findFirst({
+        where: and(
+          eq(organizationPlayer.userId, userId),
+          eq(organizationPlayer.organizationId, feed.organizationId),
+        ),
+      });
+      if (player) return true;
+      const [row] = await db
+        .select({ id: teamMember.id })
+        .from(teamMember)
+        .innerJoin(team, eq(team.id, teamMember.teamId))
+        .where(
+          and(
+            eq(teamMember.userId, userId),
+            eq(team.organizationId, feed.organizationId),
+          ),
+        )
+        .limit(1);
+      return Boolean(row);
+    }
+    default:
+      return false;
+  }
+}
+
+const homeLeagueTeam = alias(leagueTeam, "home_league_team");
+const awayLeagueTeam = alias(leagueTeam, "away_league_team");
+const homeTeam = alias(team, "home_team");
+const awayTeam = alias(team, "away_team");
+
+/**
+ * Calendar name, display time zone and events for a feed, or null when its target no longer
+ * exists. Facility feeds use the facility's zone; the others use the organization's.
+ */
+export async function loadCalendarFeed(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  feed: Pick<CalendarFeed, "organizationId" | "scope" | "targetId">,
+  options: { uidDomain: string; now?: Date },
+): Promise<{ name: string; timeZone: string; events: IcsEvent[] } | null> {
+  const now = options.now ?? new Date();
+  const since = new Date(
+    now.getTime() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000,
+  );
+
+  const [org] = await db
+    .select({ timeZone: organization.timeZone })
+    .from(organization)
+    .where(eq(organization.id, feed.organizationId));
+  if (!org) return null;
+  let timeZone = org.timeZone;
+  let name: string;
+  let gameFilter: SQL | undefined;
+  switch (feed.scope) {
+    case "team": {
+      const [row] = await db
+        .select({ name: team.name })
+        .from(team)
+        .where(
+          and(
+            eq(team.id, feed.targetId),
+            eq(team.organizationId, feed.organizationId),
+          ),
+        );
+      if (!row) return null;
+      name = row.name;
+      gameFilter = or(
+        eq(homeTeam.id, feed.targetId),
+        eq(awayTeam.id, feed.targetId),
+      );
+      break;
+    }
+    case "league": {
+      const [row] = await db
+        .select({ name: league.name })
+        .from(league)
+        .where(
+          and(
+            eq(league.id, feed.targetId),
+            eq(league.organizationId, feed.organizationId),
+          ),
+        );
+      if (!row) return null;
+      name = row.name;
+      gameFilter = eq(game.leagueId, feed.targetId);
+      break;
+    }
+    case "facility": {
+      const [row] = await db
+        .select({ name: facility.name, timeZone: facility.timeZone })
+        .from(facility)
+        .where(
+          and(
+            eq(facility.id, feed.targetId),
+            eq(facility.organizationId, feed.organizationId),
+          ),
+        );
+      if (!row) return null;
+      name = row.name;
+      timeZone = row.timeZone;
+      gameFilter = eq(facility.id, feed.targetId);
+      break;
+    }
+    case "user": {
+      const [row] = await db
+        .select({ name: user.name })
+        .from(user)
+        .where(eq(user.id, feed.targetId));
+      if (!row) return null;
+      name = `${row.name}'s schedule`;
+      const teamIds = (
+        await db
+          .select({ teamId: teamMember.teamId })
+          .from(teamMember)
+          .where(eq(teamMember.userId, feed.targetId))
+      ).map((t) => t.teamId);
+      if (teamIds.length === 0) return { name, timeZone, events: [] };
+      gameFilter = or(
+        inArray(homeTeam.id, teamIds),
+        inArray(awayTeam.id, teamIds),
+      );
+      break;
+    }
+  }
+
+  const games = await db
+    .select({
+      id: game.id,
+      startsAt: game.startsAt,
+      endsAt: game.endsAt,
+      status: game.status,
+      notes: game.notes,
+      deletedAt: game.deletedAt,
+      updatedAt: game.updatedAt,
+      leagueName: league.name,
+      homeTeamName: homeTeam.name,
+      awayTeamName: awayTeam.name,
+      surfaceName: facilitySurface.name,
+      facilityName: facility.name,
+      facilityAddress: facility.address,
+    })
+    .from(game)
+    .innerJoin(league, eq(league.id, game.leagueId))
+    .innerJoin(homeLeagueTeam, eq(homeLeagueTeam.id, game.homeLeagueTeamId))
+    .innerJoin(homeTeam, eq(homeTeam.id, homeLeagueTeam.teamId))
+    .innerJoin(awayLeagueTeam, eq(awayLeagueTeam.id, game.awayLeagueTeamId))
+    .innerJoin(awayTeam, eq(awayTeam.id, awayLeagueTeam.teamId))
+    .leftJoin(facilitySurface, eq(facilitySurface.id, game.facilitySurfaceId))
+    .leftJoin(facility, eq(facility.id, facilitySurface.facilityId))
+    .where(
+      and(
+        eq(league.organizationId, feed.organizationId),
+        gt(game.endsAt, since),
+        gameFilter,
+      ),
+    );
+
+  const events: IcsEvent[] = games.map((g) => {
+    const cancelled =
+      g.deletedAt != null ||
+      g.status === "cancelled" ||
+      g.status === "postponed" ||
+      g.status === "forfeit";
+    const title = `${g.homeTeamName} vs ${g.awayTeamName}`;
+    return {
+      uid: `game-${g.id}@${options.uidDomain}`,
+      summary:
+        g.status === "postponed"
+          ? `Postponed: ${title}`
+          : g.status === "forfeit"
+            ? `Forfeit: ${title}`
+            : g.status === "abandoned"
+              ? `Abandoned: ${title}`
+              : title,
+      startsAt: g.startsAt,
+      endsAt: g.endsAt,
+      status: cancelled ? "CANCELLED" : "CONFIRMED",
+      // updatedAt changes on every edit (including soft delete), so it doubles as the sequence.
+      sequence: Math.floor(g.updatedAt.getTime() / 1000),
+      lastModified: g.updatedAt,
+      location: [g.facilityName, g.surfaceName, g.facilityAddress]
+        .filter(Boolean)
+        .join(", "),
+      description: [g.leagueName, g.notes].filter(Boolean).join("\n"),
+    };
+  });
+
+  if (feed.scope === "facility") {
+    const bookings = await db
+      .select({
+        id: facilityBooking.id,
+        title: facilityBooking.title,
+        startsAt: facilityBooking.startsAt,
+        endsAt: facilityBooking.endsAt,
+        notes: facilityBooking.notes,
+        updatedAt: facilityBooking.updatedAt,
+        surfaceName: facilitySurface.name,
+      })
+      .from(facilityBooking)
+      .innerJoin(
+        facilitySurface,
+        eq(facilitySurface.id, facilityBooking.facilitySurfaceId),
+      )
+      .where(
+        and(
+          eq(facilitySurface.facilityId, feed.targetId),
+          gt(facilityBooking.endsAt, since),
+        ),
+      );
+    events.push(
+      ...bookings.map((b) => ({
+        uid: `booking-${b.id}@${options.uidDomain}`,
+        summary: b.title,
+        startsAt: b.startsAt,
+        endsAt: b.endsAt,
+        status: "CONFIRMED" as const,
+        sequence: Math.floor(b.updatedAt.getTime() / 1000),
+        lastModified: b.updatedAt,
+        location: [name, b.surfaceName].join(", "),
+        description: b.notes,
+      })),
+    );
+  }
+
+  events.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  return { name, timeZone, events };
+}
@@ -0,0 +1,226 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeScheduleConflicts,
+  getOperatingHoursConflicts,
+  getOverlapConflicts,
+  ScheduleConflictError,
+  type ScheduleEvent,
+} from "./conflicts";
+
+const saturdayHours = {
+  operatingSchedule: { saturday: { startTime: "08:00", endTime: "20:00" } },
+  timeZone: "America/Chicago",
+};
+
+function slot(startsAt: string, endsAt: string, facilitySurfaceId = "s1") {
+  return {
+    facilitySurfaceId,
+    startsAt: new Date(startsAt),
+    endsAt: new Date(endsAt),
+  };
+}
+
+describe("getOperatingHoursConflicts", () => {
+  it("ignores facilities without an operating schedule", () => {
+    expect(
+      getOperatingHoursConflicts(
+        slot("2026-03-09T03:00:00Z", "2026-03-09T04:00:00Z"),
+        { operatingSchedule: null, timeZone: "UTC" },
+      ),
+    ).toEqual([]);
+  });
+
+  it("accepts slots inside the facility's local hours", () => {
+    // 2026-03-07 09:00–10:00 in Chicago (UTC-6)
+    expect(
+      getOperatingHoursConflicts(
+        slot("2026-03-07T15:00:00Z", "2026-03-07T16:00:00Z"),
+        saturdayHours,
+      ),
+    ).toEqual([]);
+  });
+
+  it("reports closed days using the facility's time zone", () => {
+    // 02:00 UTC Sunday is still Saturday evening in Chicago, so this is open…
+    expect(
+      getOperatingHoursConflicts(
+        slot("2026-03-08T01:00:00Z", "2026-03-08T02:00:00Z"),
+        saturdayHours,
+      ),
+    ).toEqual([]);
+    // …but Sunday afternoon in Chicago is closed.
+    expect(
+      getOperatingHoursConflicts(
+        slot("2026-03-08T20:00:00Z", "2026-03-08T21:00:00Z"),
+        saturdayHours,
+      ),
+    ).toMatchObject([
+      { type: "closed_day", date: "2026-03-08", day: "sunday" },
+    ]);
+  });
+
+  it("reports slots that start early or end late", () => {
+    expect(
+      getOperatingHoursConflicts(
+        slot("2026-03-07T13:30:00Z", "2026-03-07T14:30:00Z"),
+        saturdayHours,
+      ),
+    ).toMatchObject([
+      {
+        type: "outside_hours",
+        startTime: "07:30",
+        endTime: "08:30",
+        openTime: "08:00",
+        closeTime: "20:00",
+      },
+    ]);
+    expect(
+      getOperatingHoursConflicts(
+        slot("2026-03-08T01:30:00Z", "2026-03-08T02:30:00Z"),
+        saturdayHours,
+      ),
+    ).toMatchObject([{ type: "outside_hours", endTime: "20:30" }]);
+  });
+
+  it("treats slots running past midnight as outside hours", () => {
+    const lateHours = {
+      operatingSchedule: { saturday: { startTime: "18:00", endTime: "23:59" } },
+      timeZone: "UTC",
+    };
+    expect(
+      getOperatingHoursConflicts(
+        slot("2026-03-07T23:00:00Z", "2026-03-08T00:30:00Z"),
+        lateHours,
+      ),
+    ).toMatchObject([{ type: "outside_hours" }]);
+  });
+
+  it("applies dated exceptions before the weekly schedule", () => {
+    const withExceptions = {
+      ...saturdayHours,
+      scheduleExceptions: [
+        {
+          startDate: "2026-03-07",
+          endDate: "2026-03-07",
+          hours: null,
+          label: "Tournament setup",
+        },
+        {
+          startDate: "2026-03-08",
+          endDate: "2026-03-08",
+          hours: { startTime: "12:00", endTime: "16:00" },
+        },
+      ],
+    };
+    // Saturday 09:00 Chicago is normally open, but blacked out.
+    expect(
+      getOperatingHoursConflicts(
+        slot("2026-03-07T15:00:00Z", "2026-03-07T16:00:00Z"),
+        withExceptions,
+      ),
+    ).toMatchObject([
+      { type: "closed_date", date: "2026-03-07", label: "Tournament setup" },
+    ]);
+    // Sunday is normally closed, but opens at noon (CDT, UTC-5) on this date.
+    expect(
+      getOperatingHoursConflicts(
+        slot("2026-03-08T18:00:00Z", "2026-03-08T19:00:00Z"),
+        withExceptions,
+      ),
+    ).toEqual([]);
+    expect(
+      getOperatingHoursConflicts(
+        slot("2026-03-08T16:00:00Z", "2026-03-08T17:00:00Z"),
+        withExceptions,
+      ),
+    ).toMatchObject([{ type: "outside_hours", openTime: "12:00" }]);
+  });
+
+  it("reports blackout dates even when weekly hours are not tracked", () => {
+    expect(
+      getOperatingHoursConflicts(
+        slot("2026-07-04T15:00:00Z", "2026-07-04T16:00:00Z"),
+        {
+          operatingSchedule: null,
+          scheduleExceptions: [
+            { startDate: "2026-07-04", endDate: "2026-07-04", hours: null },
+          ],
+          timeZone: "UTC",
+        },
+      ),
+    ).toMatchObject([{ type: "closed_date", label: null }]);
+  });
+});
+
+describe("getOverlapConflicts", () => {
+  const events: ScheduleEvent[] = [
+    {
+      kind: "game",
+      id: "g1",
+      title: "Hawks vs Owls",
+      facilitySurfaceId: "s1",
+      startsAt: "2026-03-07T15:00:00.000Z",
+      endsAt: "2026-03-07T16:00:00.000Z",
+    },
+    {
+      kind: "booking",
+      id: "b1",
+      title: "Field maintenance",
+      facilitySurfaceId: "s2",
+      startsAt: "2026-03-07T15:00:00.000Z",
+      endsAt: "2026-03-07T18:00:00.000Z",
+    },
+  ];
+
+  it("reports events overlapping on the same surface", () => {
+    const conflicts = getOverlapConflicts(
+      slot("2026-03-07T15:30:00Z", "2026-03-07T16:30:00Z"),
+      events,
+    );
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      type: "overlap",
+      event: { id: "g1" },
+    });
+  });
+
+  it("allows back-to-back events", () => {
+    expect(
+      getOverlapConflicts(
+        slot("2026-03-07T16:00:00Z", "2026-03-07T17:00:00Z"),
+        events,
+      ),
+    ).toEqual([]);
+  });
+
+  it("ignores events on other surfaces", () => {
+    expect(
+      getOverlapConflicts(
+        slot("2026-03-07T15:00:00Z", "2026-03-07T16:00:00Z", "s3"),
+        events,
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("ScheduleConflictError", () => {
+  it("carries the conflicts and summarizes the first one", () => {
+    const conflicts = getOverlapConflicts(
+      slot("2026-03-07T15:00:00Z", "2026-03-07T16:00:00Z", "s2"),
+      [
+        {
+          kind: "booking",
+          id: "b1",
+          title: "Field maintenance",
+          facilitySurfaceId: "s2",
+          startsAt: "2026-03-07T14:00:00.000Z",
+          endsAt: "2026-03-07T18:00:00.000Z",
+        },
+      ],
+    );
+    const error = new ScheduleConflictError(conflicts);
+    expect(error.conflicts).toBe(conflicts);
+    expect(error.message).toBe("Surface is already booked: Field maintenance");
+    expect(describeScheduleConflicts([])).toBe("No conflicts");
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * @file Facility surface conflict detection: double-booking and operating-hours checks.
+ *
+ * Every mutation that places an event (game, booking) on a surface runs its proposed slots through
+ * `findScheduleConflicts` and throws `ScheduleConflictError` (as the TRPCError cause) when any are found.
+ * The tRPC error formatter exposes the structured conflicts to the client.
+ */
+
+import {
+  facility,
+  facilityBooking,
+  facilitySurface,
+  game,
+  leagueTeam,
+  team,
+  type DatabaseSchema,
+  type FacilityDayKey,
+  type FacilityOperatingSchedule,
+  type ScheduleException,
+} from "@repo/db";
+import { and, eq, gt, inArray, isNull, lt, notInArray } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { getDayKey, getHoursForDate } from "./operating-schedule.js";
+import { getZonedParts } from "./time.js";
+
+export type ScheduleEventKind = "game" | "booking";
+
+/** An event already occupying a surface. Instants are ISO strings so conflicts serialize as-is. */
+export type ScheduleEvent = {
+  kind: ScheduleEventKind;
+  id: string;
+  title: string;
+  facilitySurfaceId: string;
+  startsAt: string;
+  endsAt: string;
+};
+
+/** A proposed placement of an event on a surface. */
+export type ScheduleSlot = {
+  facilitySurfaceId: string;
+  startsAt: Date;
+  endsAt: Date;
+};
+
+export type ScheduleConflict =
+  | {
+      type: "overlap";
+      facilitySurfaceId: string;
+      startsAt: string;
+      endsAt: string;
+      event: ScheduleEvent;
+    }
+  | {
+      type: "closed_day";
+      facilitySurfaceId: string;
+      startsAt: string;
+      endsAt: string;
+      date: string;
+      day: FacilityDayKey;
+    }
+  | {
+      /** Closed by a dated schedule exception (holiday, blackout range). */
+      type: "closed_date";
+      facilitySurfaceId: string;
+      startsAt: string;
+      endsAt: string;
+      date: string;
+      label: string | null;
+    }
+  | {
+      type: "outside_hours";
+      facilitySurfaceId: string;
+      startsAt: string;
+      endsAt: string;
+      date: string;
+      /** Wall-clock start/end of the slot in the facility's time zone (HH:mm). */
+      startTime: string;
+      endTime: string;
+      openTime: string;
+      closeTime: string;
+    };
+
+/** Thrown (as a TRPCError cause) when a slot conflicts with existing events or facility hours. */
+export class ScheduleConflictError extends Error {
+  readonly conflicts: ScheduleConflict[];
+
+  constructor(conflicts: ScheduleConflict[]) {
+    super(describeScheduleConflicts(conflicts));
+    this.name = "ScheduleConflictError";
+    this.conflicts = conflicts;
+  }
+}
+
+/** Short human-readable summary, used as the error message. */
+export function describeScheduleConflicts(
+  conflicts: ScheduleConflict[],
+): string {
+  const [first] = conflicts;
+  if (!first) return "No conflicts";
+  const more =
+    conflicts.length > 1 ? ` (and ${conflicts.length - 1} more conflicts)` : "";
+  switch (first.type) {
+    case "overlap":
+      return `Surface is already booked: ${first.event.title}${more}`;
+    case "closed_day":
+      return `Facility is closed on ${first.day}s${more}`;
+    case "closed_date":
+      return `Facility is closed on ${first.date}${first.label ? ` (${first.label})` : ""}${more}`;
+    case "outside_hours":
+      return `Outside facility hours (${first.openTime}–${first.closeTime})${more}`;
+  }
+}
+
+/**
+ * Closed-day / closed-date / outside-hours conflicts for a slot. Hours are wall-clock times in the
+ * facility's time zone. Dated exceptions override the weekly schedule; with neither, hours are
+ * not tracked and nothing is reported.
+ */
+export function getOperatingHoursConflicts(
+  slot: ScheduleSlot,
+  facilityHours: {
+    operatingSchedule: FacilityOperatingSchedule | null;
+    scheduleExceptions?: ScheduleException[] | null;
+    timeZone: string;
+  },
+): ScheduleConflict[] {
+  const start = getZonedParts(slot.startsAt, facilityHours.timeZone);
+  const end = getZonedParts(slot.endsAt, facilityHours.timeZone);
+  const base = {
+    facilitySurfaceId: slot.facilitySurfaceId,
+    startsAt: slot.startsAt.toISOString(),
+    endsAt: slot.endsAt.toISOString(),
+  };
+  const resolved = getHoursForDate(
+    facilityHours.operatingSchedule,
+    facilityHours.scheduleExceptions,
+    start.date,
+  );
+  if (!resolved) return [];
+  const { hours, exception } = resolved;
+  if (!hours) {
+    return exception
+      ? [
+          {
+            type: "closed_date",
+            ...base,
+            date: start.date,
+            label: exception.label ?? null,
+          },
+        ]
+      : [
+          {
+            type: "closed_day",
+            ...base,
+            date: start.date,
+            day: getDayKey(start.date),
+          },
+        ];
+  }
+  // Slots running past midnight are outside hours unless they end exactly at 00:00.
+  const endsNextDay = end.date !== start.date && end.time !== "00:00";
+  const endTime =
+    end.date !== start.date && end.time === "00:00" ? "24:00" : end.time;
+  if (start.time < hours.startTime || endsNextDay || endTime > hours.endTime) {
+    return [
+      {
+        type: "outside_hours",
+        ...base,
+        date: start.date,
+        startTime: start.time,
+        endTime: end.time,
+        openTime: hours.startTime,
+        closeTime: hours.endTime,
+      },
+    ];
+  }
+  return [];
+}
+
+/** Overlap conflicts between a slot and events on the same surface (half-open intervals). */
+export function getOverlapConflicts(
+  slot: ScheduleSlot,
+  events: ScheduleEvent[],
+): ScheduleConflict[] {
+  const start = slot.startsAt.getTime();
+  const end = slot.endsAt.getTime();
+  return events
+    .filter(
+      (e) =>
+        e.facilitySurfaceId === slot.facilitySurfaceId &&
+        new Date(e.startsAt).getTime() < end &&
+        start < new Date(e.endsAt).getTime(),
+    )
+    .map((event) => ({
+      type: "overlap" as const,
+      facilitySurfaceId: slot.facilitySurfaceId,
+      startsAt: slot.startsAt.toISOString(),
+      endsAt: slot.endsAt.toISOString(),
+      event,
+    }));
+}
+
+/** Game statuses that no longer occupy their surface. */
+const INACTIVE_GAME_STATUSES = ["postponed", "cancelled", "forfeit"] as const;
+
+const homeLeagueTeam = alias(leagueTeam, "home_league_team");
+const awayLeagueTeam = alias(leagueTeam, "away_league_team");
+const homeTeam = alias(team, "home_team");
+const awayTeam = alias(team, "away_team");
+
+export type ScheduleConflictIgnore = {
+  gameIds?: string[];
+  bookingIds?: string[];
+};
+
+/** Games and bookings on the given surfaces that overlap [from, to). */
+export async function loadSurfaceEvents(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  surfaceIds: string[],
+  from: Date,
+  to: Date,
+  ignore: ScheduleConflictIgnore = {},
+): Promise<ScheduleEvent[]> {
+  if (surfaceIds.length === 0) return [];
+  const games = await db
+    .select({
+      id: game.id,
+      facilitySurfaceId: game.facilitySurfaceId,
+      startsAt: game.startsAt,
+      endsAt: game.endsAt,
+      homeTeamName: homeTeam.name,
+      awayTeamName: awayTeam.name,
+    })
+    .from(game)
+    .innerJoin(homeLeagueTeam, eq(homeLeagueTeam.id, game.homeLeagueTeamId))
+    .innerJoin(homeTeam, eq(homeTeam.id, homeLeagueTeam.teamId))
+    .innerJoin(awayLeagueTeam, eq(awayLeagueTeam.id, game.awayLeagueTeamId))
+    .innerJoin(awayTeam, eq(awayTeam.id, awayLeagueTeam.teamId))
+    .where(
+      and(
+        inArray(game.facilitySurfaceId, surfaceIds),
+        lt(game.startsAt, to),
+        gt(game.endsAt, from),
+        notInArray(game.status, [...INACTIVE_GAME_STATUSES]),
+        isNull(game.deletedAt),
+        ...(ignore.gameIds?.length
+          ? [notInArray(game.id, ignore.gameIds)]
+          : []),
+      ),
+    );
+  const bookings = await db
+    .select({
+      id: facilityBooking.id,
+      facilitySurfaceId: facilityBooking.facilitySurfaceId,
+      title: facilityBooking.title,
+      startsAt: facilityBooking.startsAt,
+      endsAt: facilityBooking.endsAt,
+    })
+    .from(facilityBooking)
+    .where(
+      and(
+        inArray(facilityBooking.facilitySurfaceId, surfaceIds),
+        lt(facilityBooking.startsAt, to),
+        gt(facilityBooking.endsAt, from),
+        ...(ignore.bookingIds?.length
+          ? [notInArray(facilityBooking.id, ignore.bookingIds)]
+          : []),
+      ),
+    );
+  return [
+    ...games.map((g) => ({
+      kind: "game" as const,
+      id: g.id,
+      title: `${g.homeTeamName} vs ${g.awayTeamName}`,
+      facilitySurfaceId: g.facilitySurfaceId ?? "",
+      startsAt: g.startsAt.toISOString(),
+      endsAt: g.endsAt.toISOString(),
+    })),
+    ...bookings.map((b) => ({
+      kind: "booking" as const,
+      id: b.id,
+      title: b.title,
+      facilitySurfaceId: b.facilitySurfaceId,
+      startsAt: b.startsAt.toISOString(),
+      endsAt: b.endsAt.toISOString(),
+    })),
+  ].sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+}
+
+/**
+ * All conflicts for the proposed slots: overlaps with existing events (minus `ignore`),
+ * overlaps between the slots themselves, and facility operating-hours violations.
+ */
+export async function findScheduleConflicts(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  slots: ScheduleSlot[],
+  ignore: ScheduleConflictIgnore = {},
+): Promise<ScheduleConflict[]> {
+  if (slots.length === 0) return [];
+  const surfaceIds = [...new Set(slots.map((s) => s.facilitySurfaceId))];
+  const from = new Date(Math.min(...slots.map((s) => s.startsAt.getTime())));
+  const to = new Date(Math.max(...slots.map((s) => s.endsAt.getTime())));
+  const [events, facilities] = await Promise.all([
+    loadSurfaceEvents(db, surfaceIds, from, to, ignore),
+    db
+      .select({
+        surfaceId: facilitySurface.id,
+        operatingSchedule: facility.operatingSchedule,
+        scheduleExceptions: facility.scheduleExceptions,
+        timeZone: facility.timeZone,
+      })
+      .from(facilitySurface)
+      .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+      .where(inArray(facilitySurface.id, surfaceIds)),
+  ]);
+  const hoursBySurface = new Map(facilities.map((f) => [f.surfaceId, f]));
+  // Earlier slots in the same batch count as occupied for later ones.
+  const proposed: ScheduleEvent[] = [];
+  const conflicts: ScheduleConflict[] = [];
+  slots.forEach((slot, index) => {
+    const hours = hoursBySurface.get(slot.facilitySurfaceId);
+    if (hours) conflicts.push(...getOperatingHoursConflicts(slot, hours));
+    conflicts.push(...getOverlapConflicts(slot, [...events, ...proposed]));
+    proposed.push({
+      kind: "game",
+      id: `proposed-${index + 1}`,
+      title: `Proposed event ${index + 1}`,
+      facilitySurfaceId: slot.facilitySurfaceId,
+      startsAt: slot.startsAt.toISOString(),
+      endsAt: slot.endsAt.toISOString(),
+    });
+  });
+  return conflicts;
+}
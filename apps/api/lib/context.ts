@@ -1,4 +1,5 @@
 import type { DatabaseSchema } from "@repo/db";
+import type { LivePublisher } from "@repo/ws-protocol/server";
 import type { CreateHTTPContextOptions } from "@trpc/server/adapters/standalone";
 import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
 import type { Resend } from "resend";
@@ -57,6 +58,9 @@ export type TRPCContext = {
 
   /** Environment variables and secrets */
   env: Env;
+
+  /** Live game event publisher (only on the Bun server; undefined on Workers) */
+  live?: LivePublisher;
 };
 
 /**
@@ -78,6 +82,7 @@ export type AppContext = {
     dbDirect: PostgresJsDatabase<DatabaseSchema>;
     auth: Auth;
     resend?: Resend;
+    live?: LivePublisher;
     session: AuthSession | null;
     user: AuthUser | null;
   };
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { countServedGames, getTriggeredSuspensions } from "./discipline";
+
+const twoYellows = {
+  id: "two-yellows",
+  incidentType: "yellow_card" as const,
+  threshold: 2,
+  suspensionGames: 1,
+};
+const red = {
+  id: "red",
+  incidentType: "red_card" as const,
+  threshold: 1,
+  suspensionGames: 3,
+};
+
+describe("getTriggeredSuspensions", () => {
+  it("fires on every threshold-th incident of the rule's type", () => {
+    const incidents = ["y1", "y2", "y3", "y4"].map((id) => ({
+      id,
+      type: "yellow_card" as const,
+    }));
+    expect(getTriggeredSuspensions([twoYellows, red], incidents)).toEqual([
+      { ruleId: "two-yellows", incidentId: "y2", games: 1 },
+      { ruleId: "two-yellows", incidentId: "y4", games: 1 },
+    ]);
+  });
+
+  it("counts each incident type separately", () => {
+    expect(
+      getTriggeredSuspensions(
+        [twoYellows, red],
+        [
+          { id: "y1", type: "yellow_card" },
+          { id: "r1", type: "red_card" },
+          { id: "e1", type: "ejection" },
+        ],
+      ),
+    ).toEqual([{ ruleId: "red", incidentId: "r1", games: 3 }]);
+  });
+});
+
+describe("countServedGames", () => {
+  it("counts decided games after the incident's game", () => {
+    const incidentGame = new Date("2026-04-04T18:00:00Z");
+    expect(
+      countServedGames(incidentGame, [
+        { startsAt: incidentGame, status: "final" },
+        { startsAt: new Date("2026-04-11T18:00:00Z"), status: "final" },
+        { startsAt: new Date("2026-04-18T18:00:00Z"), status: "postponed" },
+        { startsAt: new Date("2026-04-25T18:00:00Z"), status: "forfeit" },
+        { startsAt: new Date("2026-05-02T18:00:00Z"), status: "scheduled" },
+      ]),
+    ).toBe(2);
+  });
+});
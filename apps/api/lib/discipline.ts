@@ -0,0 +1,327 @@
+/**
+ * @file Discipline: turning cards and ejections into suspensions, and serving them.
+ *
+ * Incidents accumulate per season. Rules fire on every `threshold`-th incident of their type, so
+ * with "two yellows = one game" the second, fourth… yellow each bring a one-game suspension.
+ * A suspension is served once the player's team has played that many decided games after the
+ * game of the incident. Suspensions are recomputed from a player's incidents under the current
+ * rules whenever the incidents change; served suspensions are kept as history.
+ */
+
+import {
+  disciplineRule,
+  game,
+  gameDisciplineIncident,
+  organizationPlayer,
+  playerSuspension,
+  type DatabaseSchema,
+  type DisciplineIncidentType,
+  type DisciplineRule,
+  type Game,
+  type GameStatus,
+} from "@repo/db";
+import { and, asc, eq, inArray, isNull, notInArray, or } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+
+type Transaction = Parameters<
+  Parameters<PostgresJsDatabase<DatabaseSchema>["transaction"]>[0]
+>[0];
+
+/** Games that count toward serving a suspension: the team's game was decided without the player. */
+export const SUSPENSION_SERVED_STATUSES: readonly GameStatus[] = [
+  "final",
+  "forfeit",
+  "abandoned",
+];
+
+export const DISCIPLINE_INCIDENT_LABELS: Record<
+  DisciplineIncidentType,
+  string
+> = {
+  yellow_card: "Yellow card",
+  red_card: "Red card",
+  ejection: "Ejection",
+};
+
+export type TriggeredSuspension = {
+  ruleId: string;
+  incidentId: string;
+  games: number;
+};
+
+/** Suspensions a player's incidents in one season trigger. `incidents` must be in play order. */
+export function getTriggeredSuspensions(
+  rules: Pick<
+    DisciplineRule,
+    "id" | "incidentType" | "threshold" | "suspensionGames"
+  >[],
+  incidents: { id: string; type: DisciplineIncidentType }[],
+): TriggeredSuspension[] {
+  const counts = new Map<DisciplineIncidentType, number>();
+  const triggered: TriggeredSuspension[] = [];
+  for (const incident of incidents) {
+    const count = (counts.get(incident.type) ?? 0) + 1;
+    counts.set(incident.type, count);
+    for (const rule of rules) {
+      if (rule.incidentType === incident.type && count % rule.threshold === 0) {
+        triggered.push({
+          ruleId: rule.id,
+          incidentId: incident.id,
+          games: rule.suspensionGames,
+        });
+      }
+    }
+  }
+  return triggered;
+}
+
+/** Games of a team that count toward a suspension for an incident in the game starting at `after`. */
+export function countServedGames(
+  after: Date,
+  teamGames: { startsAt: Date; status: GameStatus }[],
+): number {
+  return teamGames.filter(
+    (g) =>
+      g.startsAt.getTime() > after.getTime() &&
+      SUSPENSION_SERVED_STATUSES.includes(g.status),
+  ).length;
+}
+
+function suspensionKey(s: { ruleId: string | null; incidentId: string }) {
+  return `${s.ruleId}:${s.incidentId}`;
+}
+
+/**
+ * Bring the players' suspensions in a season in line with their incidents and the rules, mark
+ * the ones their teams have served, and set organization_player status: "suspended" while any
+ * suspension is unserved, back to "active" when the last one is served or removed. Banned
+ * players keep their status.
+ */
+export async function syncPlayerSuspensions(
+  tx: Transaction,
+  organizationId: string,
+  seasonId: string,
+  userIds: string[],
+): Promise<void> {
+  if (userIds.length === 0) return;
+  const rules = await tx
+    .select()
+    .from(disciplineRule)
+    .where(eq(disciplineRule.organizationId, organizationId));
+  const incidents = await tx
+    .select({
+      id: gameDisciplineIncident.id,
+      userId: gameDisciplineIncident.userId,
+      leagueTeamId: gameDisciplineIncident.leagueTeamId,
+      type: gameDisciplineIncident.type,
+      startsAt: game.startsAt,
+    })
+    .from(gameDisciplineIncident)
+    .innerJoin(game, eq(game.id, gameDisciplineIncident.gameId))
+    .where(
+      and(
+        eq(game.seasonId, seasonId),
+        isNull(game.deletedAt),
+        inArray(gameDisciplineIncident.userId, userIds),
+      ),
+    )
+    .orderBy(asc(game.startsAt), asc(gameDisciplineIncident.createdAt));
+  const stored = await tx
+    .select({
+      id: playerSuspension.id,
+      userId: playerSuspension.userId,
+      ruleId: playerSuspension.ruleId,
+      incidentId: playerSuspension.incidentId,
+      servedAt: playerSuspension.servedAt,
+    })
+    .from(playerSuspension)
+    .innerJoin(
+      gameDisciplineIncident,
+      eq(gameDisciplineIncident.id, playerSuspension.incidentId),
+    )
+    .innerJoin(game, eq(game.id, gameDisciplineIncident.gameId))
+    .where(
+      and(
+        eq(playerSuspension.organizationId, organizationId),
+        eq(game.seasonId, seasonId),
+        inArray(playerSuspension.userId, userIds),
+      ),
+    );
+
+  const incidentById = new Map(incidents.map((i) => [i.id, i]));
+  const storedKeys = new Set(stored.map(suspensionKey));
+  const desired = userIds.flatMap((userId) =>
+    getTriggeredSuspensions(
+      rules,
+      incidents.filter((i) => i.userId === userId),
+    ),
+  );
+  const desiredKeys = new Set(desired.map(suspensionKey));
+  const missing = desired.filter((s) => !storedKeys.has(suspensionKey(s)));
+  const removed = stored.filter(
+    (s) => !s.servedAt && !desiredKeys.has(suspensionKey(s)),
+  );
+
+  if (missing.length > 0) {
+    await tx
+      .insert(playerSuspension)
+      .values(
+        missing.map((s) => {
+          const incident = incidentById.get(s.incidentId)!;
+          return {
+            organizationId,
+            userId: incident.userId,
+            leagueTeamId: incident.leagueTeamId,
+            ruleId: s.ruleId,
+            incidentId: s.incidentId,
+            games: s.games,
+          };
+        }),
+      )
+      .onConflictDoNothing();
+  }
+  if (removed.length > 0) {
+    await tx.delete(playerSuspension).where(
+      inArray(
+        playerSuspension.id,
+        removed.map((s) => s.id),
+      ),
+    );
+  }
+
+  // Serve what the teams have played since.
+  const unserved = await tx
+    .select({
+      id: playerSuspension.id,
+      userId: playerSuspension.userId,
+      leagueTeamId: playerSuspension.leagueTeamId,
+      games: playerSuspension.games,
+      startsAt: game.startsAt,
+    })
+    .from(playerSuspension)
+    .innerJoin(
+      gameDisciplineIncident,
+      eq(gameDisciplineIncident.id, playerSuspension.incidentId),
+    )
+    .innerJoin(game, eq(game.id, gameDisciplineIncident.gameId))
+    .where(
+      and(
+        eq(playerSuspension.organizationId, organizationId),
+        eq(game.seasonId, seasonId),
+        inArray(playerSuspension.userId, userIds),
+        isNull(playerSuspension.servedAt),
+      ),
+    );
+  const teamIds = [...new Set(unserved.map((s) => s.leagueTeamId))];
+  const teamGames =
+    teamIds.length === 0
+      ? []
+      : await tx
+          .select({
+            startsAt: game.startsAt,
+            status: game.status,
+            homeLeagueTeamId: game.homeLeagueTeamId,
+            awayLeagueTeamId: game.awayLeagueTeamId,
+          })
+          .from(game)
+          .where(
+            and(
+              isNull(game.deletedAt),
+              or(
+                inArray(game.homeLeagueTeamId, teamIds),
+                inArray(game.awayLeagueTeamId, teamIds),
+              ),
+            ),
+          );
+  const served = unserved.filter(
+    (s) =>
+      countServedGames(
+        s.startsAt,
+        teamGames.filter(
+          (g) =>
+            g.homeLeagueTeamId === s.leagueTeamId ||
+            g.awayLeagueTeamId === s.leagueTeamId,
+        ),
+      ) >= s.games,
+  );
+  if (served.length > 0) {
+    await tx
+      .update(playerSuspension)
+      .set({ servedAt: new Date() })
+      .where(
+        inArray(
+          playerSuspension.id,
+          served.map((s) => s.id),
+        ),
+      );
+  }
+
+  // Status follows the outstanding suspensions.
+  const servedIds = new Set(served.map((s) => s.id));
+  const stillSuspended = new Set(
+    unserved.filter((s) => !servedIds.has(s.id)).map((s) => s.userId),
+  );
+  const released = new Set(
+    [...served, ...removed]
+      .map((s) => s.userId)
+      .filter((userId) => !stillSuspended.has(userId)),
+  );
+  if (stillSuspended.size > 0) {
+    await tx
+      .update(organizationPlayer)
+      .set({ status: "suspended", updatedAt: new Date() })
+      .where(
+        and(
+          eq(organizationPlayer.organizationId, organizationId),
+          inArray(organizationPlayer.userId, [...stillSuspended]),
+          notInArray(organizationPlayer.status, ["suspended", "banned"]),
+        ),
+      );
+  }
+  if (released.size > 0) {
+    await tx
+      .update(organizationPlayer)
+      .set({ status: "active", updatedAt: new Date() })
+      .where(
+        and(
+          eq(organizationPlayer.organizationId, organizationId),
+          inArray(organizationPlayer.userId, [...released]),
+          eq(organizationPlayer.status, "suspended"),
+        ),
+      );
+  }
+}
+
+/**
+ * After a game is decided, serve the suspensions of players on its two teams.
+ * Games that are not decided are ignored.
+ */
+export async function serveGameSuspensions(
+  tx: Transaction,
+  organizationId: string,
+  decided: Pick<
+    Game,
+    "seasonId" | "status" | "homeLeagueTeamId" | "awayLeagueTeamId"
+  >,
+): Promise<void> {
+  if (!SUSPENSION_SERVED_STATUSES.includes(decided.status)) return;
+  const pending = await tx
+    .selectDistinct({ userId: playerSuspension.userId })
+    .from(playerSuspension)
+    .where(
+      and(
+        eq(playerSuspension.organizationId, organizationId),
+        inArray(playerSuspension.leagueTeamId, [
+          decided.homeLeagueTeamId,
+          decided.awayLeagueTeamId,
+        ]),
+        isNull(playerSuspension.servedAt),
+      ),
+    );
+  await syncPlayerSuspensions(
+    tx,
+    organizationId,
+    decided.seasonId,
+    pending.map((p) => p.userId),
+  );
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { computeDivisionStandings, getDivisionMoves } from "./divisions";
+
+const config = {
+  pointsForWin: 3,
+  pointsForTie: 1,
+  pointsForLoss: 0,
+  tiebreakers: [],
+  coinFlipSeed: "league",
+};
+
+function win(home: string, away: string, day: number) {
+  return {
+    homeLeagueTeamId: home,
+    awayLeagueTeamId: away,
+    status: "final" as const,
+    homeScore: 2,
+    awayScore: 0,
+    forfeitedByLeagueTeamId: null,
+    startsAt: new Date(Date.UTC(2026, 2, day)),
+  };
+}
+
+describe("computeDivisionStandings", () => {
+  it("ranks each division on games between its own teams", () => {
+    const standings = computeDivisionStandings(
+      [{ id: "top" }, { id: "bottom" }],
+      [
+        { leagueTeamId: "a", name: "A", divisionId: "top" },
+        { leagueTeamId: "b", name: "B", divisionId: "top" },
+        { leagueTeamId: "c", name: "C", divisionId: "bottom" },
+        { leagueTeamId: "d", name: "D", divisionId: null },
+      ],
+      [win("b", "a", 1), win("a", "c", 2), win("a", "d", 3)],
+      config,
+    );
+    expect(standings.map((d) => d.divisionId)).toEqual(["top", "bottom"]);
+    expect(standings[0].rows.map((r) => [r.leagueTeamId, r.played])).toEqual([
+      ["b", 1],
+      ["a", 1],
+    ]);
+    expect(standings[1].rows.map((r) => [r.leagueTeamId, r.played])).toEqual([
+      ["c", 0],
+    ]);
+  });
+});
+
+describe("getDivisionMoves", () => {
+  const tiers = [
+    { id: "premier", promotionCount: 2, relegationCount: 1 },
+    { id: "championship", promotionCount: 1, relegationCount: 1 },
+    { id: "league-one", promotionCount: 1, relegationCount: 2 },
+  ];
+
+  it("promotes the top and relegates the bottom of each division", () => {
+    const moves = getDivisionMoves(
+      tiers,
+      new Map([
+        ["premier", ["p1", "p2", "p3"]],
+        ["championship", ["c1", "c2", "c3"]],
+        ["league-one", ["l1", "l2", "l3"]],
+      ]),
+    );
+    expect(Object.fromEntries(moves)).toEqual({
+      p1: { divisionId: "premier", movement: null },
+      p2: { divisionId: "premier", movement: null },
+      p3: { divisionId: "championship", movement: "relegated" },
+      c1: { divisionId: "premier", movement: "promoted" },
+      c2: { divisionId: "championship", movement: null },
+      c3: { divisionId: "league-one", movement: "relegated" },
+      l1: { divisionId: "championship", movement: "promoted" },
+      l2: { divisionId: "league-one", movement: null },
+      l3: { divisionId: "league-one", movement: null },
+    });
+  });
+
+  it("prefers promotion when a division is too small for both", () => {
+    const moves = getDivisionMoves(tiers, new Map([["championship", ["c1"]]]));
+    expect(moves.get("c1")).toEqual({
+      divisionId: "premier",
+      movement: "promoted",
+    });
+  });
+});
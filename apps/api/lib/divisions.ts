@@ -0,0 +1,84 @@
+/**
+ * @file Divisions: standings within each division of a season, and the promotions and
+ * relegations they lead to when the next season starts.
+ *
+ * Pure functions, no database access: the organization router loads the season's divisions,
+ * teams and decided games and passes them in.
+ */
+
+import {
+  computeStandings,
+  type StandingsConfig,
+  type StandingsGame,
+  type StandingsRow,
+  type StandingsTeam,
+} from "./standings.js";
+
+/** A division with its rollover rules. Lists of tiers are ordered top tier first. */
+export type DivisionTier = {
+  id: string;
+  promotionCount: number;
+  relegationCount: number;
+};
+
+export type DivisionMovement = "promoted" | "relegated";
+
+export type DivisionMove = {
+  /** Division the team plays in next season. */
+  divisionId: string;
+  movement: DivisionMovement | null;
+};
+
+/** Standings of each division, counting only games between two of its teams. Same order as `divisions`. */
+export function computeDivisionStandings(
+  divisions: { id: string }[],
+  teams: (StandingsTeam & { divisionId: string | null })[],
+  games: StandingsGame[],
+  config: StandingsConfig,
+): { divisionId: string; rows: StandingsRow[] }[] {
+  return divisions.map((d) => {
+    const members = teams.filter((t) => t.divisionId === d.id);
+    const ids = new Set(members.map((t) => t.leagueTeamId));
+    return {
+      divisionId: d.id,
+      rows: computeStandings(
+        members,
+        games.filter(
+          (g) => ids.has(g.homeLeagueTeamId) && ids.has(g.awayLeagueTeamId),
+        ),
+        config,
+      ),
+    };
+  });
+}
+
+/**
+ * Next season's division for every ranked team, keyed by league_team id. `ranked` holds each
+ * division's league_team ids, best first. The top promotionCount move up a tier and the bottom
+ * relegationCount move down; the top tier promotes nobody and the bottom tier relegates nobody.
+ * In a division too small for both, promotion wins.
+ */
+export function getDivisionMoves(
+  tiers: DivisionTier[],
+  ranked: Map<string, string[]>,
+): Map<string, DivisionMove> {
+  const moves = new Map<string, DivisionMove>();
+  tiers.forEach((tier, i) => {
+    const ids = ranked.get(tier.id) ?? [];
+    const promoted = i > 0 ? Math.min(tier.promotionCount, ids.length) : 0;
+    const relegated =
+      i < tiers.length - 1
+        ? Math.min(tier.relegationCount, ids.length - promoted)
+        : 0;
+    ids.forEach((id, position) => {
+      if (position < promoted) {
+        moves.set(id, { divisionId: tiers[i - 1].id, movement: "promoted" });
+      } else if (position >= ids.length - relegated) {
+        moves.set(id, { divisionId: tiers[i + 1].id, movement: "relegated" });
+      } else {
+        moves.set(id, { divisionId: tier.id, movement: null });
+      }
+    });
+  });
+  return moves;
+}
@@ -225,3 +225,114 @@ export async function sendOrganizationInvitation(
     text,
   });
 }
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Notify a team member that a game was postponed, rescheduled, cancelled or forfeited.
+ * Times are preformatted by the caller in the venue's time zone.
+ */
+export async function sendGameChangeNotification(
+  env: Pick<Env, "RESEND_API_KEY" | "RESEND_EMAIL_FROM" | "APP_NAME" | "APP_ORIGIN">,
+  options: {
+    to: string;
+    action: "postponed" | "rescheduled" | "cancelled" | "forfeited";
+    organizationName: string;
+    leagueName: string;
+    homeTeamName: string;
+    awayTeamName: string;
+    /** Current slot, e.g. "Sat, Mar 7, 2026, 9:00 AM CST". */
+    when: string;
+    /** Slot before a reschedule. */
+    previousWhen?: string | null;
+    venue?: string | null;
+    reason?: string | null;
+    /** Team that forfeited. */
+    forfeitedBy?: string | null;
+  },
+) {
+  const matchup = `${options.homeTeamName} vs ${options.awayTeamName}`;
+  const headline = {
+    postponed: `${matchup} (${options.when}) has been postponed.`,
+    rescheduled: `${matchup} has been rescheduled to ${options.when}.`,
+    cancelled: `${matchup} (${options.when}) has been cancelled.`,
+    forfeited: `${matchup} (${options.when}) was forfeited${options.forfeitedBy ? ` by ${options.forfeitedBy}` : ""}.`,
+  }[options.action];
+  const subjectVerb = {
+    postponed: "Postponed",
+    rescheduled: "Rescheduled",
+    cancelled: "Cancelled",
+    forfeited: "Forfeit",
+  }[options.action];
+  const details = [
+    `League: ${options.leagueName} (${options.organizationName})`,
+    ...(options.previousWhen ? [`Previously: ${options.previousWhen}`] : []),
+    ...(options.venue ? [`Venue: ${options.venue}`] : []),
+    ...(options.reason ? [`Reason: ${options.reason}`] : []),
+  ];
+  const scheduleLink = `${env.APP_ORIGIN}/calendar`;
+  const html = `
+    <p>${escapeHtml(headline)}</p>
+    <p>${details.map(escapeHtml).join("<br />")}</p>
+    <p><a href="${scheduleLink}">View the schedule on ${escapeHtml(env.APP_NAME)}</a></p>
+  `.trim();
+  const text = [
+    headline,
+    details.join("\n"),
+    `View the schedule: ${scheduleLink}`,
+  ].join("\n\n");
+
+  return sendEmail(env, {
+    to: options.to,
+    subject: `${subjectVerb}: ${matchup}`,
+    html,
+    text,
+  });
+}
+
+/**
+ * Tell a team member that the team is entered in a new season. Sent when a season is rolled
+ * over or a league is copied with returning teams.
+ */
+export async function sendSeasonInvitation(
+  env: Pick<Env, "RESEND_API_KEY" | "RESEND_EMAIL_FROM" | "APP_NAME" | "APP_ORIGIN">,
+  options: {
+    to: string;
+    organizationName: string;
+    leagueName: string;
+    seasonName: string;
+    teamName: string;
+    /** First day of the season (YYYY-MM-DD), if set. */
+    startDate?: string | null;
+  },
+) {
+  const headline = `${options.teamName} is playing in ${options.leagueName}, ${options.seasonName}.`;
+  const details = [
+    `Organization: ${options.organizationName}`,
+    ...(options.startDate ? [`Season starts: ${options.startDate}`] : []),
+  ];
+  const scheduleLink = `${env.APP_ORIGIN}/calendar`;
+  const html = `
+    <p>${escapeHtml(headline)}</p>
+    <p>${details.map(escapeHtml).join("<br />")}</p>
+    <p><a href="${scheduleLink}">View the schedule on ${escapeHtml(env.APP_NAME)}</a></p>
+  `.trim();
+  const text = [
+    headline,
+    details.join("\n"),
+    `View the schedule: ${scheduleLink}`,
+  ].join("\n\n");
+
+  return sendEmail(env, {
+    to: options.to,
+    subject: `${options.teamName}: ${options.seasonName} of ${options.leagueName}`,
+    html,
+    text,
+  });
+}
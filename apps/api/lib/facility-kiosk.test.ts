@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { signCalendarFeedToken } from "./calendar-feed";
+import {
+  getFacilityKioskUrl,
+  getKioskDay,
+  signFacilityKioskToken,
+  verifyFacilityKioskToken,
+} from "./facility-kiosk";
+
+const secret = "s".repeat(32);
+
+describe("facility kiosk tokens", () => {
+  it("round-trips the kiosk id", async () => {
+    const token = await signFacilityKioskToken("kiosk-1", secret);
+    await expect(verifyFacilityKioskToken(token, secret)).resolves.toBe(
+      "kiosk-1",
+    );
+  });
+
+  it("does not accept calendar feed tokens for the same id", async () => {
+    const token = await signCalendarFeedToken("kiosk-1", secret);
+    await expect(verifyFacilityKioskToken(token, secret)).resolves.toBeNull();
+  });
+
+  it("rejects truncated and malformed signatures", async () => {
+    const token = await signFacilityKioskToken("kiosk-1", secret);
+    for (const bad of [token.slice(0, -1), "kiosk-1.A", "kiosk-1.AAAAA"]) {
+      await expect(verifyFacilityKioskToken(bad, secret)).resolves.toBeNull();
+    }
+  });
+
+  it("builds the kiosk page URL", () => {
+    expect(getFacilityKioskUrl("https://example.com", "kiosk-1.abc")).toBe(
+      "https://example.com/kiosk/kiosk-1.abc",
+    );
+  });
+});
+
+describe("getKioskDay", () => {
+  it("uses the facility's local date", () => {
+    // 02:30 UTC on Mar 8 is still the evening of Mar 7 in Chicago.
+    const day = getKioskDay(
+      new Date("2026-03-08T02:30:00Z"),
+      "America/Chicago",
+    );
+    expect(day.date).toBe("2026-03-07");
+    expect(day.from.toISOString()).toBe("2026-03-07T06:00:00.000Z");
+    expect(day.to.toISOString()).toBe("2026-03-08T06:00:00.000Z");
+  });
+
+  it("spans 23 hours on the day clocks spring forward", () => {
+    const day = getKioskDay(
+      new Date("2026-03-08T18:00:00Z"),
+      "America/Chicago",
+    );
+    expect(day.to.getTime() - day.from.getTime()).toBe(23 * 60 * 60 * 1000);
+  });
+});
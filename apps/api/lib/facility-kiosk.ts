@@ -0,0 +1,227 @@
+/**
+ * @file Facility kiosk displays: signed read-only URLs and the board behind them.
+ *
+ * A kiosk URL carries a token signed like calendar feed tokens (see signed-token.ts); the
+ * facility_kiosk row makes it revocable. The board lists the day's league and tournament games
+ * on the facility's surfaces, in the facility's time zone.
+ */
+
+import {
+  facility,
+  facilityKiosk,
+  facilitySurface,
+  game,
+  league,
+  leagueTeam,
+  member,
+  team,
+  tournament,
+  tournamentGame,
+  tournamentTeam,
+  type DatabaseSchema,
+  type FacilityKiosk,
+  type GamePeriodScore,
+} from "@repo/db";
+import { and, asc, eq, gt, isNull, lt, notInArray } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { signToken, verifyToken } from "./signed-token.js";
+import { addDays, getZonedParts, zonedTimeToInstant } from "./time.js";
+
+/** Token for a kiosk URL: `<kioskId>.<signature>`. */
+export function signFacilityKioskToken(
+  kioskId: string,
+  secret: string,
+): Promise<string> {
+  return signToken("facility-kiosk", kioskId, secret);
+}
+
+/** Kiosk id from a token, or null when the token is malformed or the signature does not match. */
+export function verifyFacilityKioskToken(
+  token: string,
+  secret: string,
+): Promise<string | null> {
+  return verifyToken("facility-kiosk", token, secret);
+}
+
+/** Public URL of a kiosk display: an app page, not an API route. */
+export function getFacilityKioskUrl(appOrigin: string, token: string): string {
+  return `${appOrigin}/kiosk/${token}`;
+}
+
+/**
+ * The kiosk behind a token, or null when the token is invalid, the kiosk was revoked or its
+ * creator has left the organization.
+ */
+export async function resolveFacilityKiosk(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  token: string,
+  secret: string,
+): Promise<FacilityKiosk | null> {
+  const kioskId = await verifyFacilityKioskToken(token, secret);
+  const kiosk = kioskId
+    ? await db.query.facilityKiosk.findFirst({
+        where: and(
+          eq(facilityKiosk.id, kioskId),
+          isNull(facilityKiosk.revokedAt),
+        ),
+      })
+    : undefined;
+  const membership = kiosk
+    ? await db.query.member.findFirst({
+        where: and(
+          eq(member.userId, kiosk.createdByUserId),
+          eq(member.organizationId, kiosk.organizationId),
+        ),
+      })
+    : undefined;
+  return kiosk && membership ? kiosk : null;
+}
+
+/** The facility-local date of `now` and the instants its day starts and ends. */
+export function getKioskDay(
+  now: Date,
+  timeZone: string,
+): { date: string; from: Date; to: Date } {
+  const { date } = getZonedParts(now, timeZone);
+  return {
+    date,
+    from: zonedTimeToInstant(date, "00:00", timeZone),
+    to: zonedTimeToInstant(addDays(date, 1), "00:00", timeZone),
+  };
+}
+
+export type KioskGame = {
+  id: string;
+  kind: "league" | "tournament";
+  /** League or tournament name. */
+  competition: string;
+  surfaceId: string;
+  startsAt: Date;
+  endsAt: Date;
+  status: string;
+  /** Null for a knockout side that is not decided yet. */
+  homeTeamName: string | null;
+  awayTeamName: string | null;
+  homeScore: number | null;
+  awayScore: number | null;
+  periodScores: GamePeriodScore[] | null;
+};
+
+const homeLeagueTeam = alias(leagueTeam, "home_league_team");
+const awayLeagueTeam = alias(leagueTeam, "away_league_team");
+const homeTeam = alias(team, "home_team");
+const awayTeam = alias(team, "away_team");
+const homeTournamentTeam = alias(tournamentTeam, "home_tournament_team");
+const awayTournamentTeam = alias(tournamentTeam, "away_tournament_team");
+
+/**
+ * Facility, surfaces and the day's games for a kiosk, or null when the facility is gone.
+ * Cancelled and postponed games are left out; they are not being played.
+ */
+export async function loadFacilityKioskBoard(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  kiosk: Pick<FacilityKiosk, "organizationId" | "facilityId">,
+  now = new Date(),
+) {
+  const [venue] = await db
+    .select({
+      id: facility.id,
+      name: facility.name,
+      timeZone: facility.timeZone,
+    })
+    .from(facility)
+    .where(
+      and(
+        eq(facility.id, kiosk.facilityId),
+        eq(facility.organizationId, kiosk.organizationId),
+      ),
+    );
+  if (!venue) return null;
+  const day = getKioskDay(now, venue.timeZone);
+
+  const surfaces = await db
+    .select({ id: facilitySurface.id, name: facilitySurface.name })
+    .from(facilitySurface)
+    .where(eq(facilitySurface.facilityId, venue.id))
+    .orderBy(asc(facilitySurface.sortOrder), asc(facilitySurface.name));
+
+  const leagueGames = await db
+    .select({
+      id: game.id,
+      competition: league.name,
+      surfaceId: facilitySurface.id,
+      startsAt: game.startsAt,
+      endsAt: game.endsAt,
+      status: game.status,
+      homeTeamName: homeTeam.name,
+      awayTeamName: awayTeam.name,
+      homeScore: game.homeScore,
+      awayScore: game.awayScore,
+      periodScores: game.periodScores,
+    })
+    .from(game)
+    .innerJoin(league, eq(league.id, game.leagueId))
+    .innerJoin(homeLeagueTeam, eq(homeLeagueTeam.id, game.homeLeagueTeamId))
+    .innerJoin(homeTeam, eq(homeTeam.id, homeLeagueTeam.teamId))
+    .innerJoin(awayLeagueTeam, eq(awayLeagueTeam.id, game.awayLeagueTeamId))
+    .innerJoin(awayTeam, eq(awayTeam.id, awayLeagueTeam.teamId))
+    .innerJoin(facilitySurface, eq(facilitySurface.id, game.facilitySurfaceId))
+    .where(
+      and(
+        eq(facilitySurface.facilityId, venue.id),
+        isNull(game.deletedAt),
+        notInArray(game.status, ["cancelled", "postponed"]),
+        lt(game.startsAt, day.to),
+        gt(game.endsAt, day.from),
+      ),
+    );
+
+  const tournamentGames = await db
+    .select({
+      id: tournamentGame.id,
+      competition: tournament.name,
+      surfaceId: facilitySurface.id,
+      startsAt: tournamentGame.startsAt,
+      endsAt: tournamentGame.endsAt,
+      status: tournamentGame.status,
+      homeTeamName: homeTeam.name,
+      awayTeamName: awayTeam.name,
+      homeScore: tournamentGame.homeScore,
+      awayScore: tournamentGame.awayScore,
+    })
+    .from(tournamentGame)
+    .innerJoin(tournament, eq(tournament.id, tournamentGame.tournamentId))
+    .innerJoin(
+      facilitySurface,
+      eq(facilitySurface.id, tournamentGame.facilitySurfaceId),
+    )
+    .leftJoin(
+      homeTournamentTeam,
+      eq(homeTournamentTeam.id, tournamentGame.homeTournamentTeamId),
+    )
+    .leftJoin(homeTeam, eq(homeTeam.id, homeTournamentTeam.teamId))
+    .leftJoin(
+      awayTournamentTeam,
+      eq(awayTournamentTeam.id, tournamentGame.awayTournamentTeamId),
+    )
+    .leftJoin(awayTeam, eq(awayTeam.id, awayTournamentTeam.teamId))
+    .where(
+      and(
+        eq(facilitySurface.facilityId, venue.id),
+        lt(tournamentGame.startsAt, day.to),
+        gt(tournamentGame.endsAt, day.from),
+      ),
+    );
+
+  const games: KioskGame[] = [
+    ...leagueGames.map((g) => ({ ...g, kind: "league" as const })),
+    ...tournamentGames.map((g) => ({
+      ...g,
+      kind: "tournament" as const,
+      periodScores: null,
+    })),
+  ].sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+
+  return { facility: venue, date: day.date, surfaces, games };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import {
+  canChangeGameStatus,
+  canRescheduleGame,
+  describeRejectedTransition,
+} from "./game-changes";
+
+describe("canChangeGameStatus", () => {
+  it("allows postponing, cancelling and forfeiting games that have not finished", () => {
+    expect(canChangeGameStatus("scheduled", "postponed")).toBe(true);
+    expect(canChangeGameStatus("in_progress", "cancelled")).toBe(true);
+    expect(canChangeGameStatus("postponed", "forfeit")).toBe(true);
+  });
+
+  it("treats final, cancelled and forfeited games as closed", () => {
+    expect(canChangeGameStatus("final", "postponed")).toBe(false);
+    expect(canChangeGameStatus("cancelled", "scheduled")).toBe(false);
+    expect(canChangeGameStatus("forfeit", "final")).toBe(false);
+    expect(canChangeGameStatus("final", "final")).toBe(true);
+  });
+
+  it("lets a game be abandoned once, then closes it", () => {
+    expect(canChangeGameStatus("in_progress", "abandoned")).toBe(true);
+    expect(canChangeGameStatus("abandoned", "final")).toBe(false);
+    expect(canChangeGameStatus("postponed", "abandoned")).toBe(false);
+  });
+
+  it("does not let a postponed game be played without rescheduling", () => {
+    expect(canChangeGameStatus("postponed", "in_progress")).toBe(false);
+    expect(canChangeGameStatus("postponed", "final")).toBe(false);
+  });
+});
+
+describe("canRescheduleGame", () => {
+  it("only moves upcoming or postponed games", () => {
+    expect(canRescheduleGame("scheduled")).toBe(true);
+    expect(canRescheduleGame("postponed")).toBe(true);
+    expect(canRescheduleGame("in_progress")).toBe(false);
+    expect(canRescheduleGame("cancelled")).toBe(false);
+  });
+});
+
+describe("describeRejectedTransition", () => {
+  it("names both statuses", () => {
+    expect(describeRejectedTransition("final", "postponed")).toBe(
+      "Cannot change a game from final to postponed",
+    );
+    expect(describeRejectedTransition("in_progress", "scheduled")).toBe(
+      "Cannot change a game from in progress to scheduled",
+    );
+  });
+});
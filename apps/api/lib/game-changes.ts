@@ -0,0 +1,178 @@
+/**
+ * @file Game status transitions and change notifications.
+ *
+ * Postponing, rescheduling, cancelling and forfeiting are explicit transitions rather than
+ * free-form edits: each one is checked against GAME_STATUS_TRANSITIONS, appended to the
+ * game_change audit trail by the router, and emailed to the members of both teams.
+ */
+
+import {
+  facility,
+  facilitySurface,
+  game,
+  league,
+  leagueTeam,
+  organization,
+  team,
+  teamMember,
+  user,
+  type DatabaseSchema,
+  type GameStatus,
+} from "@repo/db";
+import { eq, inArray } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { sendGameChangeNotification } from "./email.js";
+import type { Env } from "./env.js";
+import { formatZonedDateTime } from "./time.js";
+
+/**
+ * Status changes allowed from each status. A postponed game returns to "scheduled" only by
+ * being rescheduled to a new slot; final, cancelled, forfeited and abandoned games are closed.
+ */
+export const GAME_STATUS_TRANSITIONS: Record<
+  GameStatus,
+  readonly GameStatus[]
+> = {
+  scheduled: [
+    "in_progress",
+    "final",
+    "postponed",
+    "cancelled",
+    "forfeit",
+    "abandoned",
+  ],
+  in_progress: [
+    "scheduled",
+    "final",
+    "postponed",
+    "cancelled",
+    "forfeit",
+    "abandoned",
+  ],
+  postponed: ["scheduled", "cancelled", "forfeit"],
+  final: [],
+  cancelled: [],
+  forfeit: [],
+  abandoned: [],
+};
+
+/** Statuses that need a reason and notify the teams, so they can only be set through their own procedures. */
+export const NOTIFYING_GAME_STATUSES: readonly GameStatus[] = [
+  "postponed",
+  "cancelled",
+  "forfeit",
+];
+
+/** True when a game may move from `from` to `to`. Keeping the same status is always allowed. */
+export function canChangeGameStatus(from: GameStatus, to: GameStatus): boolean {
+  return from === to || GAME_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/** Games that can be moved to a new slot: upcoming or postponed ones. */
+export function canRescheduleGame(status: GameStatus): boolean {
+  return status === "scheduled" || status === "postponed";
+}
+
+/** "Cannot change a game from final to postponed" style message for a rejected transition. */
+export function describeRejectedTransition(
+  from: GameStatus,
+  to: GameStatus,
+): string {
+  const label = (status: GameStatus) => status.replace("_", " ");
+  return `Cannot change a game from ${label(from)} to ${label(to)}`;
+}
+
+export type GameChangeNotice = {
+  gameId: string;
+  action: "postponed" | "rescheduled" | "cancelled" | "forfeited";
+  reason?: string | null;
+  /** Start of the slot before a reschedule. */
+  previousStartsAt?: Date | null;
+  /** league_team id of the side that forfeited. */
+  forfeitedByLeagueTeamId?: string | null;
+};
+
+/**
+ * Email the members of both teams about a game change, one message per address so recipients
+ * never see each other's. Times are shown in the venue's time zone (the organization's without a
+ * venue). Returns the number of recipients.
+ */
+export async function notifyGameChange(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  env: Pick<
+    Env,
+    "RESEND_API_KEY" | "RESEND_EMAIL_FROM" | "APP_NAME" | "APP_ORIGIN"
+  >,
+  notice: GameChangeNotice,
+): Promise<number> {
+  const [row] = await db
+    .select({
+      startsAt: game.startsAt,
+      homeLeagueTeamId: game.homeLeagueTeamId,
+      awayLeagueTeamId: game.awayLeagueTeamId,
+      leagueName: league.name,
+      organizationName: organization.name,
+      organizationTimeZone: organization.timeZone,
+      surfaceName: facilitySurface.name,
+      facilityName: facility.name,
+      timeZone: facility.timeZone,
+    })
+    .from(game)
+    .innerJoin(league, eq(league.id, game.leagueId))
+    .innerJoin(organization, eq(organization.id, league.organizationId))
+    .leftJoin(facilitySurface, eq(facilitySurface.id, game.facilitySurfaceId))
+    .leftJoin(facility, eq(facility.id, facilitySurface.facilityId))
+    .where(eq(game.id, notice.gameId));
+  if (!row) return 0;
+
+  const sides = await db
+    .select({ leagueTeamId: leagueTeam.id, teamId: team.id, name: team.name })
+    .from(leagueTeam)
+    .innerJoin(team, eq(team.id, leagueTeam.teamId))
+    .where(
+      inArray(leagueTeam.id, [row.homeLeagueTeamId, row.awayLeagueTeamId]),
+    );
+  const home = sides.find((s) => s.leagueTeamId === row.homeLeagueTeamId);
+  const away = sides.find((s) => s.leagueTeamId === row.awayLeagueTeamId);
+  if (!home || !away) return 0;
+
+  const members = await db
+    .select({ teamId: teamMember.teamId, email: user.email })
+    .from(teamMember)
+    .innerJoin(user, eq(user.id, teamMember.userId))
+    .where(inArray(teamMember.teamId, [home.teamId, away.teamId]));
+
+  const timeZone = row.timeZone ?? row.organizationTimeZone;
+  const forfeitedBy = sides.find(
+    (s) => s.leagueTeamId === notice.forfeitedByLeagueTeamId,
+  );
+  let notified = 0;
+  for (const side of [home, away]) {
+    const to = [
+      ...new Set(
+        members.filter((m) => m.teamId === side.teamId).map((m) => m.email),
+      ),
+    ];
+    for (const email of to) {
+      await sendGameChangeNotification(env, {
+        to: email,
+        action: notice.action,
+        organizationName: row.organizationName,
+        leagueName: row.leagueName,
+        homeTeamName: home.name,
+        awayTeamName: away.name,
+        when: formatZonedDateTime(row.startsAt, timeZone),
+        previousWhen: notice.previousStartsAt
+          ? formatZonedDateTime(notice.previousStartsAt, timeZone)
+          : null,
+        venue: row.facilityName
+          ? `${row.facilityName} · ${row.surfaceName}`
+          : null,
+        reason: notice.reason ?? null,
+        forfeitedBy: forfeitedBy?.name ?? null,
+      });
+    }
+    notified += to.length;
+  }
+  return notified;
+}
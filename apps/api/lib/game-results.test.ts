@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import {
+  canRecordGameResult,
+  getScoreReportBlocker,
+  getScoreResponseBlocker,
+  validateGameScore,
+} from "./game-results";
+
+describe("canRecordGameResult", () => {
+  it("accepts games that are upcoming or being played", () => {
+    expect(canRecordGameResult("scheduled")).toBe(true);
+    expect(canRecordGameResult("in_progress")).toBe(true);
+  });
+
+  it("rejects finished, postponed and called-off games", () => {
+    expect(canRecordGameResult("final")).toBe(false);
+    expect(canRecordGameResult("abandoned")).toBe(false);
+    expect(canRecordGameResult("postponed")).toBe(false);
+    expect(canRecordGameResult("cancelled")).toBe(false);
+    expect(canRecordGameResult("forfeit")).toBe(false);
+  });
+});
+
+describe("validateGameScore", () => {
+  it("accepts totals without a period breakdown", () => {
+    expect(validateGameScore({ homeScore: 3, awayScore: 1 })).toBeNull();
+    expect(
+      validateGameScore({ homeScore: 0, awayScore: 0, periodScores: [] }),
+    ).toBeNull();
+  });
+
+  it("accepts period scores that add up to the totals", () => {
+    expect(
+      validateGameScore({
+        homeScore: 3,
+        awayScore: 1,
+        periodScores: [
+          { home: 1, away: 1 },
+          { home: 2, away: 0 },
+        ],
+      }),
+    ).toBeNull();
+  });
+
+  it("rejects period scores that do not add up", () => {
+    expect(
+      validateGameScore({
+        homeScore: 3,
+        awayScore: 1,
+        periodScores: [
+          { home: 1, away: 0 },
+          { home: 1, away: 1 },
+        ],
+      }),
+    ).toBe("Period scores add up to 2–1, not 3–1");
+  });
+});
+
+describe("getScoreReportBlocker", () => {
+  const now = new Date("2026-05-02T20:00:00Z");
+  const played = {
+    status: "scheduled" as const,
+    startsAt: new Date("2026-05-02T18:00:00Z"),
+    playoff: false,
+    scoreConfirmation: null,
+    scoreReportedByLeagueTeamId: null,
+    scoreReportedByUserId: null,
+  };
+
+  it("lets either side report a game that has started", () => {
+    expect(getScoreReportBlocker(played, "home", now)).toBeNull();
+    expect(
+      getScoreReportBlocker({ ...played, status: "in_progress" }, "away", now),
+    ).toBeNull();
+  });
+
+  it("rejects games that have not started, are settled or are playoffs", () => {
+    expect(
+      getScoreReportBlocker(
+        { ...played, startsAt: new Date("2026-05-03T18:00:00Z") },
+        "home",
+        now,
+      ),
+    ).toMatch(/once the game has started/);
+    expect(
+      getScoreReportBlocker({ ...played, status: "final" }, "home", now),
+    ).toMatch(/already has a result/);
+    expect(
+      getScoreReportBlocker(
+        { ...played, status: "final", scoreConfirmation: "confirmed" },
+        "home",
+        now,
+      ),
+    ).toMatch(/already has a result/);
+    expect(
+      getScoreReportBlocker({ ...played, playoff: true }, "home", now),
+    ).toMatch(/league staff/);
+  });
+
+  it("lets only the reporting side replace a pending report", () => {
+    const pending = {
+      ...played,
+      status: "final" as const,
+      scoreConfirmation: "pending" as const,
+      scoreReportedByLeagueTeamId: "home",
+      scoreReportedByUserId: "home-admin",
+    };
+    expect(getScoreReportBlocker(pending, "home", now)).toBeNull();
+    expect(getScoreReportBlocker(pending, "away", now)).toMatch(
+      /Confirm or dispute/,
+    );
+  });
+
+  it("leaves disputed scores to league staff", () => {
+    const disputed = {
+      ...played,
+      status: "final" as const,
+      scoreConfirmation: "disputed" as const,
+      scoreReportedByLeagueTeamId: "home",
+      scoreReportedByUserId: "home-admin",
+    };
+    expect(getScoreReportBlocker(disputed, "home", now)).toMatch(
+      /League staff/,
+    );
+    expect(getScoreReportBlocker(disputed, "away", now)).toMatch(
+      /League staff/,
+    );
+  });
+});
+
+describe("getScoreResponseBlocker", () => {
+  const pending = {
+    status: "final" as const,
+    startsAt: new Date("2026-05-02T18:00:00Z"),
+    playoff: false,
+    scoreConfirmation: "pending" as const,
+    scoreReportedByLeagueTeamId: "home",
+    scoreReportedByUserId: "home-admin",
+  };
+
+  it("lets the other side answer a pending report", () => {
+    expect(getScoreResponseBlocker(pending, ["away"], "away-admin")).toBeNull();
+  });
+
+  it("rejects the reporting side and reports that are not pending", () => {
+    expect(getScoreResponseBlocker(pending, ["home"], "home-coach")).toMatch(
+      /other team/,
+    );
+    expect(
+      getScoreResponseBlocker(
+        { ...pending, scoreConfirmation: "disputed" },
+        ["away"],
+        "away-admin",
+      ),
+    ).toMatch(/no reported score/);
+    expect(
+      getScoreResponseBlocker(
+        { ...pending, scoreConfirmation: null },
+        ["away"],
+        "away-admin",
+      ),
+    ).toMatch(/no reported score/);
+  });
+
+  it("does not let an admin of both teams confirm their own report", () => {
+    expect(
+      getScoreResponseBlocker(pending, ["home", "away"], "both-admin"),
+    ).toMatch(/other team/);
+    expect(getScoreResponseBlocker(pending, ["away"], "home-admin")).toMatch(
+      /other team/,
+    );
+  });
+});
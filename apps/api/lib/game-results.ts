@@ -0,0 +1,115 @@
+/**
+ * @file Game score validation.
+ *
+ * Results are recorded with recordGameResult (live score, final or abandoned) and fixed
+ * afterwards with correctGameResult, which needs a reason and leaves an audit row.
+ * Team admins can also report a final score themselves; it counts once the other side's
+ * admin confirms it, and disputed reports are settled by league staff.
+ */
+
+import type {
+  GamePeriodScore,
+  GameScoreConfirmation,
+  GameStatus,
+} from "@repo/db";
+
+/** Statuses a recorded result can leave a game in. */
+export const RESULT_GAME_STATUSES = [
+  "in_progress",
+  "final",
+  "abandoned",
+] as const;
+
+/** Statuses that close a game with a result. Only correctGameResult changes them afterwards. */
+export const FINISHED_GAME_STATUSES: readonly GameStatus[] = [
+  "final",
+  "abandoned",
+];
+
+/** Games whose score can still be entered: not started yet, or being played. */
+export function canRecordGameResult(status: GameStatus): boolean {
+  return status === "scheduled" || status === "in_progress";
+}
+
+/**
+ * Why a score is invalid, or null when it is fine. Period scores are optional; when given
+ * they must add up to the totals. An abandoned game may stop before every period is played.
+ */
+export function validateGameScore(score: {
+  homeScore: number;
+  awayScore: number;
+  periodScores?: GamePeriodScore[] | null;
+}): string | null {
+  if (!score.periodScores?.length) return null;
+  const home = score.periodScores.reduce((sum, p) => sum + p.home, 0);
+  const away = score.periodScores.reduce((sum, p) => sum + p.away, 0);
+  if (home !== score.homeScore || away !== score.awayScore) {
+    return `Period scores add up to ${home}–${away}, not ${score.homeScore}–${score.awayScore}`;
+  }
+  return null;
+}
+
+/** The parts of a game that decide whether a team admin may report or answer a score. */
+export type ScoreReportGame = {
+  status: GameStatus;
+  startsAt: Date;
+  playoff: boolean;
+  scoreConfirmation: GameScoreConfirmation | null;
+  scoreReportedByLeagueTeamId: string | null;
+  scoreReportedByUserId: string | null;
+};
+
+/**
+ * Why the admin of side `leagueTeamId` cannot report a final score now, or null when they can.
+ * A side may replace its own pending report. Disputed scores are settled by league staff only.
+ */
+export function getScoreReportBlocker(
+  reported: ScoreReportGame,
+  leagueTeamId: string,
+  now: Date,
+): string | null {
+  if (reported.playoff) {
+    return "Playoff results are entered by league staff";
+  }
+  if (reported.scoreConfirmation === "disputed") {
+    return "This score is disputed. League staff will settle it";
+  }
+  if (reported.scoreConfirmation === "pending") {
+    return reported.scoreReportedByLeagueTeamId === leagueTeamId
+      ? null
+      : "The other team already reported a score. Confirm or dispute it instead";
+  }
+  if (FINISHED_GAME_STATUSES.includes(reported.status)) {
+    return "This game already has a result";
+  }
+  if (!canRecordGameResult(reported.status)) {
+    return "Only scheduled or in-progress games can be reported";
+  }
+  if (reported.startsAt > now) {
+    return "Scores can only be reported once the game has started";
+  }
+  return null;
+}
+
+/**
+ * Why user `userId`, admin of the sides `leagueTeamIds`, cannot confirm or dispute the reported
+ * score, or null. Only the other side answers: not the user who reported it, and not an admin of
+ * the reporting side, even one who also runs the other team.
+ */
+export function getScoreResponseBlocker(
+  reported: ScoreReportGame,
+  leagueTeamIds: string[],
+  userId: string,
+): string | null {
+  if (reported.scoreConfirmation !== "pending") {
+    return "There is no reported score waiting for confirmation";
+  }
+  if (
+    reported.scoreReportedByUserId === userId ||
+    (reported.scoreReportedByLeagueTeamId != null &&
+      leagueTeamIds.includes(reported.scoreReportedByLeagueTeamId))
+  ) {
+    return "The other team's admin has to confirm this score";
+  }
+  return null;
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildGameSheetsPdf,
+  compareGameSheetPlayers,
+  type GameSheet,
+  type GameSheetPlayer,
+} from "./game-sheet";
+
+const decoder = new TextDecoder();
+
+function player(name: string, jerseyNumber: string | null): GameSheetPlayer {
+  return { name, jerseyNumber, status: "active" };
+}
+
+function sheet(overrides: Partial<GameSheet> = {}): GameSheet {
+  return {
+    gameId: "g1",
+    kind: "league",
+    competition: "Spring League",
+    sport: "soccer",
+    periodCount: null,
+    startsAt: new Date("2026-03-07T15:00:00.000Z"),
+    timeZone: "America/Chicago",
+    facilityName: "North Park",
+    surfaceName: "Field 1",
+    home: {
+      name: "Hawks",
+      players: [
+        player("Ada", "7"),
+        { name: "Bo", jerseyNumber: "9", status: "suspended" },
+      ],
+    },
+    away: { name: "Owls", players: [player("Cy", null)] },
+    ...overrides,
+  };
+}
+
+describe("compareGameSheetPlayers", () => {
+  it("orders by jersey number numerically, unnumbered players last by name", () => {
+    const players = [
+      player("Zed", null),
+      player("Amy", "10"),
+      player("Ben", "2"),
+      player("Ann", null),
+      player("Cat", "02"),
+    ];
+    expect(players.sort(compareGameSheetPlayers).map((p) => p.name)).toEqual([
+      "Cat",
+      "Ben",
+      "Amy",
+      "Ann",
+      "Zed",
+    ]);
+  });
+});
+
+describe("buildGameSheetsPdf", () => {
+  it("renders one page per game with both rosters and player status", () => {
+    const text = decoder.decode(
+      buildGameSheetsPdf(
+        [sheet(), sheet({ gameId: "g2", home: { name: null, players: [] } })],
+        "Game sheets",
+      ),
+    );
+    expect(text).toContain("/Count 2");
+    expect(text).toContain("(Home: Hawks) Tj");
+    expect(text).toContain("(Away: Owls) Tj");
+    expect(text).toContain("(Ada) Tj");
+    expect(text).toContain("(SUSPENDED) Tj");
+    expect(text).toContain("(Home: TBD) Tj");
+  });
+
+  it("adds one period column per period of the sport", () => {
+    const text = decoder.decode(
+      buildGameSheetsPdf([sheet({ sport: "baseball" })], "Game sheet"),
+    );
+    expect(text).toContain("(P9) Tj");
+    expect(text).not.toContain("(P10) Tj");
+  });
+
+  it("uses the league's period count over the sport's", () => {
+    const text = decoder.decode(
+      buildGameSheetsPdf([sheet({ periodCount: 3 })], "Game sheet"),
+    );
+    expect(text).toContain("(P3) Tj");
+    expect(text).not.toContain("(P4) Tj");
+  });
+
+  it("cuts off rosters too long for the page", () => {
+    const players = Array.from({ length: 60 }, (_, i) =>
+      player(`Player ${i + 1}`, String(i + 1)),
+    );
+    const text = decoder.decode(
+      buildGameSheetsPdf(
+        [sheet({ home: { name: "Hawks", players } })],
+        "Game sheet",
+      ),
+    );
+    expect(text).toMatch(/\(\+\d+ more players\) Tj/);
+    expect(text).not.toContain("(Player 60) Tj");
+  });
+});
@@ -0,0 +1,621 @@
+/**
+ * @file Printable game sheets: one Letter page per game for the referee.
+ *
+ * A sheet lists both teams' rosters with jersey numbers and org-level player status (the season
+ * roster for league games, team_member for tournament games), and leaves blanks for period scores, cards and signatures. Sheets are rendered as PDF
+ * on the server, one game at a time or as a batch of a facility's games on a day.
+ */
+
+import {
+  facility,
+  facilitySurface,
+  game,
+  league,
+  leagueTeam,
+  leagueTeamPlayer,
+  organization,
+  organizationPlayer,
+  team,
+  teamMember,
+  tournament,
+  tournamentGame,
+  tournamentTeam,
+  user,
+  type DatabaseSchema,
+  type LeagueSport,
+  type OrganizationPlayer,
+} from "@repo/db";
+import {
+  and,
+  eq,
+  gte,
+  inArray,
+  isNull,
+  lt,
+  notInArray,
+  type SQL,
+} from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { SPORT_PERIOD_DEFAULTS } from "./league-rules.js";
+import {
+  buildPdf,
+  createPdfPage,
+  drawPdfLine,
+  drawPdfRect,
+  drawPdfText,
+  fitPdfText,
+  LETTER,
+  type PdfPage,
+} from "./pdf.js";
+import { addDays, formatZonedDateTime, zonedTimeToInstant } from "./time.js";
+
+export type GameSheetPlayer = {
+  name: string;
+  jerseyNumber: string | null;
+  /** Null when the player is not on the organization roster. */
+  status: OrganizationPlayer["status"] | null;
+};
+
+export type GameSheetTeam = {
+  /** Null for a knockout side that is not decided yet. */
+  name: string | null;
+  players: GameSheetPlayer[];
+};
+
+export type GameSheet = {
+  gameId: string;
+  kind: "league" | "tournament";
+  /** League or tournament name. */
+  competition: string;
+  /** Null for tournament games, which have no sport. */
+  sport: LeagueSport | null;
+  /** The league's periods per game. Null = the sport's usual count. */
+  periodCount: number | null;
+  startsAt: Date;
+  timeZone: string;
+  facilityName: string | null;
+  surfaceName: string | null;
+  home: GameSheetTeam;
+  away: GameSheetTeam;
+};
+
+/** Empty roster lines left under each team for players added at the field. */
+const EXTRA_ROSTER_LINES = 2;
+
+/** Rows in the cards and discipline table. */
+const CARD_LINES = 6;
+
+/** Smallest roster row height that stays legible; longer rosters are cut off. */
+const MIN_ROSTER_ROW_HEIGHT = 10;
+
+/** Order players by jersey number (numerically, unnumbered last), then by name. */
+export function compareGameSheetPlayers(
+  a: GameSheetPlayer,
+  b: GameSheetPlayer,
+): number {
+  const numberA =
+    a.jerseyNumber === null ? NaN : Number.parseInt(a.jerseyNumber, 10);
+  const numberB =
+    b.jerseyNumber === null ? NaN : Number.parseInt(b.jerseyNumber, 10);
+  if (Number.isNaN(numberA) !== Number.isNaN(numberB))
+    return Number.isNaN(numberA) ? 1 : -1;
+  if (!Number.isNaN(numberA) && numberA !== numberB) return numberA - numberB;
+  return (
+    (a.jerseyNumber ?? "").localeCompare(b.jerseyNumber ?? "") ||
+    a.name.localeCompare(b.name)
+  );
+}
+
+type SheetGameRow = Omit<GameSheet, "timeZone" | "home" | "away"> & {
+  timeZone: string | null;
+  /** Sides of a league game, whose season rosters are printed. Null for tournament games. */
+  homeLeagueTeamId: string | null;
+  awayLeagueTeamId: string | null;
+  homeTeamId: string | null;
+  homeTeamName: string | null;
+  awayTeamId: string | null;
+  awayTeamName: string | null;
+};
+
+const homeLeagueTeam = alias(leagueTeam, "home_league_team");
+const awayLeagueTeam = alias(leagueTeam, "away_league_team");
+const homeTournamentTeam = alias(tournamentTeam, "home_tournament_team");
+const awayTournamentTeam = alias(tournamentTeam, "away_tournament_team");
+const homeTeam = alias(team, "home_team");
+const awayTeam = alias(team, "away_team");
+
+async function selectLeagueSheetGames(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  where: SQL | undefined,
+): Promise<SheetGameRow[]> {
+  const rows = await db
+    .select({
+      gameId: game.id,
+      competition: league.name,
+      sport: league.sport,
+      periodCount: league.periodCount,
+      startsAt: game.startsAt,
+      timeZone: facility.timeZone,
+      facilityName: facility.name,
+      surfaceName: facilitySurface.name,
+      homeLeagueTeamId: game.homeLeagueTeamId,
+      awayLeagueTeamId: game.awayLeagueTeamId,
+      homeTeamId: homeTeam.id,
+      homeTeamName: homeTeam.name,
+      awayTeamId: awayTeam.id,
+      awayTeamName: awayTeam.name,
+    })
+    .from(game)
+    .innerJoin(league, eq(league.id, game.leagueId))
+    .innerJoin(homeLeagueTeam, eq(homeLeagueTeam.id, game.homeLeagueTeamId))
+    .innerJoin(homeTeam, eq(homeTeam.id, homeLeagueTeam.teamId))
+    .innerJoin(awayLeagueTeam, eq(awayLeagueTeam.id, game.awayLeagueTeamId))
+    .innerJoin(awayTeam, eq(awayTeam.id, awayLeagueTeam.teamId))
+    .leftJoin(facilitySurface, eq(facilitySurface.id, game.facilitySurfaceId))
+    .leftJoin(facility, eq(facility.id, facilitySurface.facilityId))
+    .where(and(isNull(game.deletedAt), where));
+  return rows.map((row) => ({ ...row, kind: "league" as const }));
+}
+
+async function selectTournamentSheetGames(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  where: SQL | undefined,
+): Promise<SheetGameRow[]> {
+  const rows = await db
+    .select({
+      gameId: tournamentGame.id,
+      competition: tournament.name,
+      startsAt: tournamentGame.startsAt,
+      timeZone: facility.timeZone,
+      facilityName: facility.name,
+      surfaceName: facilitySurface.name,
+      homeTeamId: homeTeam.id,
+      homeTeamName: homeTeam.name,
+      awayTeamId: awayTeam.id,
+      awayTeamName: awayTeam.name,
+    })
+    .from(tournamentGame)
+    .innerJoin(tournament, eq(tournament.id, tournamentGame.tournamentId))
+    .leftJoin(
+      homeTournamentTeam,
+      eq(homeTournamentTeam.id, tournamentGame.homeTournamentTeamId),
+    )
+    .leftJoin(homeTeam, eq(homeTeam.id, homeTournamentTeam.teamId))
+    .leftJoin(
+      awayTournamentTeam,
+      eq(awayTournamentTeam.id, tournamentGame.awayTournamentTeamId),
+    )
+    .leftJoin(awayTeam, eq(awayTeam.id, awayTournamentTeam.teamId))
+    .leftJoin(
+      facilitySurface,
+      eq(facilitySurface.id, tournamentGame.facilitySurfaceId),
+    )
+    .leftJoin(facility, eq(facility.id, facilitySurface.facilityId))
+    .where(where);
+  return rows.map((row) => ({
+    ...row,
+    kind: "tournament" as const,
+    sport: null,
+    periodCount: null,
+    homeLeagueTeamId: null,
+    awayLeagueTeamId: null,
+  }));
+}
+
+/** Attach rosters to game rows. Games without a venue use the organization's time zone. */
+async function toGameSheets(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  organizationId: string,
+  rows: SheetGameRow[],
+): Promise<GameSheet[]> {
+  const leagueTeamIds = [
+    ...new Set(
+      rows.flatMap((row) => [row.homeLeagueTeamId, row.awayLeagueTeamId]),
+    ),
+  ].filter((id): id is string => id !== null);
+  const teamIds = [
+    ...new Set(
+      rows
+        .filter((row) => row.kind === "tournament")
+        .flatMap((row) => [row.homeTeamId, row.awayTeamId]),
+    ),
+  ].filter((id): id is string => id !== null);
+  const seasonPlayers =
+    leagueTeamIds.length === 0
+      ? []
+      : await db
+          .select({
+            leagueTeamId: leagueTeamPlayer.leagueTeamId,
+            name: user.name,
+            jerseyNumber: leagueTeamPlayer.jerseyNumber,
+            status: organizationPlayer.status,
+          })
+          .from(leagueTeamPlayer)
+          .innerJoin(user, eq(user.id, leagueTeamPlayer.userId))
+          .leftJoin(
+            organizationPlayer,
+            and(
+              eq(organizationPlayer.userId, leagueTeamPlayer.userId),
+              eq(organizationPlayer.organizationId, organizationId),
+            ),
+          )
+          .where(inArray(leagueTeamPlayer.leagueTeamId, leagueTeamIds));
+  const members =
+    teamIds.length === 0
+      ? []
+      : await db
+          .select({
+            teamId: teamMember.teamId,
+            name: user.name,
+            jerseyNumber: teamMember.jerseyNumber,
+            status: organizationPlayer.status,
+          })
+          .from(teamMember)
+          .innerJoin(user, eq(user.id, teamMember.userId))
+          .leftJoin(
+            organizationPlayer,
+            and(
+              eq(organizationPlayer.userId, teamMember.userId),
+              eq(organizationPlayer.organizationId, organizationId),
+            ),
+          )
+          .where(inArray(teamMember.teamId, teamIds));
+  // Keyed by league_team id for league games, team id for tournament games.
+  const rosters = new Map<string, GameSheetPlayer[]>();
+  for (const { leagueTeamId, ...player } of seasonPlayers) {
+    rosters.set(leagueTeamId, [...(rosters.get(leagueTeamId) ?? []), player]);
+  }
+  for (const { teamId, ...player } of members) {
+    rosters.set(teamId, [...(rosters.get(teamId) ?? []), player]);
+  }
+  const [org] = await db
+    .select({ timeZone: organization.timeZone })
+    .from(organization)
+    .where(eq(organization.id, organizationId));
+  const roster = (id: string | null) =>
+    [...((id && rosters.get(id)) || [])].sort(compareGameSheetPlayers);
+
+  return rows.map(
+    ({
+      homeLeagueTeamId,
+      homeTeamId,
+      homeTeamName,
+      awayLeagueTeamId,
+      awayTeamId,
+      awayTeamName,
+      ...row
+    }) => ({
+      ...row,
+      timeZone: row.timeZone ?? org?.timeZone ?? "UTC",
+      home: {
+        name: homeTeamName,
+        players: roster(homeLeagueTeamId ?? homeTeamId),
+      },
+      away: {
+        name: awayTeamName,
+        players: roster(awayLeagueTeamId ?? awayTeamId),
+      },
+    }),
+  );
+}
+
+/** Sheet for one league or tournament game of the organization, or null when there is none. */
+export async function loadGameSheet(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  organizationId: string,
+  gameId: string,
+): Promise<GameSheet | null> {
+  const rows = [
+    ...(await selectLeagueSheetGames(
+      db,
+      and(eq(game.id, gameId), eq(league.organizationId, organizationId)),
+    )),
+    ...(await selectTournamentSheetGames(
+      db,
+      and(
+        eq(tournamentGame.id, gameId),
+        eq(tournament.organizationId, organizationId),
+      ),
+    )),
+  ];
+  const [sheet] = await toGameSheets(db, organizationId, rows);
+  return sheet ?? null;
+}
+
+/**
+ * Facility name and sheets for the games starting at it on `date` (facility-local YYYY-MM-DD),
+ * by start time then surface, or null when the facility is not the organization's.
+ * Cancelled and postponed games are left out.
+ */
+export async function loadFacilityGameSheets(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  organizationId: string,
+  facilityId: string,
+  date: string,
+): Promise<{ facilityName: string; sheets: GameSheet[] } | null> {
+  const [venue] = await db
+    .select({ name: facility.name, timeZone: facility.timeZone })
+    .from(facility)
+    .where(
+      and(
+        eq(facility.id, facilityId),
+        eq(facility.organizationId, organizationId),
+      ),
+    );
+  if (!venue) return null;
+  const from = zonedTimeToInstant(date, "00:00", venue.timeZone);
+  const to = zonedTimeToInstant(addDays(date, 1), "00:00", venue.timeZone);
+
+  const rows = [
+    ...(await selectLeagueSheetGames(
+      db,
+      and(
+        eq(facility.id, facilityId),
+        notInArray(game.status, ["cancelled", "postponed"]),
+        lt(game.startsAt, to),
+        gte(game.startsAt, from),
+      ),
+    )),
+    ...(await selectTournamentSheetGames(
+      db,
+      and(
+        eq(facility.id, facilityId),
+        lt(tournamentGame.startsAt, to),
+        gte(tournamentGame.startsAt, from),
+      ),
+    )),
+  ].sort(
+    (a, b) =>
+      a.startsAt.getTime() - b.startsAt.getTime() ||
+      (a.surfaceName ?? "").localeCompare(b.surfaceName ?? ""),
+  );
+  return {
+    facilityName: venue.name,
+    sheets: await toGameSheets(db, organizationId, rows),
+  };
+}
+
+// ——— Rendering ———
+
+const MARGIN = 36;
+const CONTENT_WIDTH = LETTER.width - MARGIN * 2;
+
+type Column = {
+  label: string;
+  width: number;
+  align?: "left" | "center" | "right";
+};
+
+/** A header row plus `rows` rows of cells; returns the y below the table. */
+function drawTable(
+  page: PdfPage,
+  x: number,
+  y: number,
+  columns: Column[],
+  rows: (string | { text: string; bold: boolean })[][],
+  rowHeight: number,
+): number {
+  const width = columns.reduce((sum, column) => sum + column.width, 0);
+  const size = Math.min(9, rowHeight - 5);
+  drawPdfRect(page, x, y, width, rowHeight, { fill: 0.9 });
+  const lines = rows.length + 1;
+  for (let i = 0; i <= lines; i++) {
+    drawPdfLine(page, x, y + i * rowHeight, x + width, y + i * rowHeight);
+  }
+  let left = x;
+  for (const [index, column] of columns.entries()) {
+    drawPdfLine(page, left, y, left, y + lines * rowHeight);
+    const cells = [column.label, ...rows.map((row) => row[index] ?? "")];
+    cells.forEach((cell, row) => {
+      const text = typeof cell === "string" ? cell : cell.text;
+      const font =
+        row === 0 || (typeof cell !== "string" && cell.bold)
+          ? "bold"
+          : "regular";
+      const anchor =
+        column.align === "center"
+          ? left + column.width / 2
+          : column.align === "right"
+            ? left + column.width - 3
+            : left + 3;
+      drawPdfText(
+        page,
+        fitPdfText(text, column.width - 6, size, font),
+        anchor,
+        y + row * rowHeight + rowHeight / 2 + size * 0.35,
+        { size, font, align: column.align },
+      );
+    });
+    left += column.width;
+  }
+  drawPdfLine(page, left, y, left, y + lines * rowHeight);
+  return y + lines * rowHeight;
+}
+
+function describeStatus(
+  status: GameSheetPlayer["status"],
+): string | { text: string; bold: boolean } {
+  if (status === null) return "Not on roster";
+  const label = status.charAt(0).toUpperCase() + status.slice(1);
+  // Referees must not let banned or suspended players take the field.
+  return status === "banned" || status === "suspended"
+    ? { text: label.toUpperCase(), bold: true }
+    : label;
+}
+
+/** Exactly `lines` table rows: the players, blank lines, or a "+N more" line when they overflow. */
+function getRosterRows(players: GameSheetPlayer[], lines: number) {
+  const shown = players.length > lines ? players.slice(0, lines - 1) : players;
+  return [
+    ...shown.map((player) => [
+      player.jerseyNumber ?? "",
+      player.name,
+      describeStatus(player.status),
+    ]),
+    ...(shown.length < players.length
+      ? [["", `+${players.length - shown.length} more players`]]
+      : []),
+    ...Array.from({ length: lines - players.length }, () => []),
+  ];
+}
+
+function drawGameSheet(sheet: GameSheet): PdfPage {
+  const page = createPdfPage(LETTER);
+  const right = LETTER.width - MARGIN;
+  const homeName = sheet.home.name ?? "TBD";
+  const awayName = sheet.away.name ?? "TBD";
+
+  drawPdfText(page, "GAME SHEET", right, MARGIN + 12, {
+    size: 10,
+    font: "bold",
+    align: "right",
+  });
+  drawPdfText(
+    page,
+    fitPdfText(sheet.competition, CONTENT_WIDTH - 90, 16, "bold"),
+    MARGIN,
+    MARGIN + 14,
+    {
+      size: 16,
+      font: "bold",
+    },
+  );
+  drawPdfText(
+    page,
+    fitPdfText(`${homeName} vs ${awayName}`, CONTENT_WIDTH, 13, "bold"),
+    MARGIN,
+    MARGIN + 34,
+    { size: 13, font: "bold" },
+  );
+  const venue =
+    [sheet.facilityName, sheet.surfaceName].filter(Boolean).join(" – ") ||
+    "Venue TBD";
+  drawPdfText(
+    page,
+    fitPdfText(
+      `${formatZonedDateTime(sheet.startsAt, sheet.timeZone)} · ${venue}`,
+      CONTENT_WIDTH,
+      10,
+    ),
+    MARGIN,
+    MARGIN + 50,
+    { size: 10 },
+  );
+
+  // Score box: one blank per period plus the final score. Tournament games use the periods of "other".
+  const periods =
+    sheet.periodCount ??
+    SPORT_PERIOD_DEFAULTS[sheet.sport ?? "other"].periodCount;
+  const teamWidth = 200;
+  const periodWidth = Math.min(40, (CONTENT_WIDTH - teamWidth - 60) / periods);
+  let y = drawTable(
+    page,
+    MARGIN,
+    MARGIN + 64,
+    [
+      { label: "Team", width: teamWidth },
+      ...Array.from({ length: periods }, (_, i) => ({
+        label: `P${i + 1}`,
+        width: periodWidth,
+        align: "center" as const,
+      })),
+      { label: "Final", width: 60, align: "center" },
+    ],
+    [[homeName], [awayName]],
+    20,
+  );
+
+  // Rosters side by side, sized to fit the longer one above the fixed blocks at the bottom.
+  const rosterTop = y + 26;
+  const cardsTop =
+    LETTER.height - MARGIN - 60 - 40 - (CARD_LINES + 1) * 16 - 20;
+  const rosterHeight = cardsTop - rosterTop - 14;
+  const rosterLines = Math.min(
+    Math.max(sheet.home.players.length, sheet.away.players.length) +
+      EXTRA_ROSTER_LINES,
+    Math.floor(rosterHeight / MIN_ROSTER_ROW_HEIGHT) - 1,
+  );
+  const rowHeight = Math.min(16, rosterHeight / (rosterLines + 1));
+  const columnWidth = (CONTENT_WIDTH - 12) / 2;
+  for (const [index, side] of [
+    { label: "Home", team: sheet.home, name: homeName },
+    { label: "Away", team: sheet.away, name: awayName },
+  ].entries()) {
+    const x = MARGIN + index * (columnWidth + 12);
+    drawPdfText(
+      page,
+      fitPdfText(`${side.label}: ${side.name}`, columnWidth, 11, "bold"),
+      x,
+      rosterTop - 6,
+      {
+        size: 11,
+        font: "bold",
+      },
+    );
+    drawTable(
+      page,
+      x,
+      rosterTop,
+      [
+        { label: "#", width: 28, align: "center" },
+        { label: "Player", width: columnWidth - 28 - 76 - 40 },
+        { label: "Status", width: 76 },
+        { label: "Played", width: 40, align: "center" },
+      ],
+      getRosterRows(side.team.players, rosterLines),
+      rowHeight,
+    );
+  }
+
+  // Cards and discipline.
+  drawPdfText(page, "Cards and discipline", MARGIN, cardsTop + 14, {
+    size: 11,
+    font: "bold",
+  });
+  y = drawTable(
+    page,
+    MARGIN,
+    cardsTop + 20,
+    [
+      { label: "Time", width: 50 },
+      { label: "Team", width: 110 },
+      { label: "#", width: 30, align: "center" },
+      { label: "Player", width: 150 },
+      { label: "Card", width: 50 },
+      { label: "Reason", width: CONTENT_WIDTH - 390 },
+    ],
+    Array.from({ length: CARD_LINES }, () => []),
+    16,
+  );
+
+  // Notes and signatures.
+  drawPdfText(page, "Notes", MARGIN, y + 14, { size: 11, font: "bold" });
+  drawPdfLine(page, MARGIN, y + 32, right, y + 32);
+  drawPdfLine(page, MARGIN, y + 50, right, y + 50);
+  const signatureWidth = (CONTENT_WIDTH - 24) / 3;
+  ["Home captain", "Away captain", "Referee"].forEach((label, index) => {
+    const x = MARGIN + index * (signatureWidth + 12);
+    drawPdfLine(page, x, y + 86, x + signatureWidth, y + 86);
+    drawPdfText(page, `${label} signature`, x, y + 96, { size: 8 });
+  });
+  drawPdfText(
+    page,
+    `Game ${sheet.gameId}`,
+    right,
+    LETTER.height - MARGIN + 12,
+    {
+      size: 7,
+      align: "right",
+    },
+  );
+  return page;
+}
+
+/** One page per sheet. */
+export function buildGameSheetsPdf(
+  sheets: GameSheet[],
+  title: string,
+): Uint8Array<ArrayBuffer> {
+  return buildPdf(sheets.map(drawGameSheet), { title });
+}
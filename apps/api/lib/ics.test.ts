@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildIcsCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsDateTime,
+} from "./ics";
+
+const encoder = new TextEncoder();
+
+describe("escapeIcsText", () => {
+  it("escapes separators and newlines", () => {
+    expect(escapeIcsText("Hawks, Owls; Field 1\\2\nLine")).toBe(
+      "Hawks\\, Owls\\; Field 1\\\\2\\nLine",
+    );
+  });
+});
+
+describe("formatIcsDateTime", () => {
+  it("writes UTC date-times without separators", () => {
+    expect(formatIcsDateTime(new Date("2026-03-07T15:00:00.000Z"))).toBe(
+      "20260307T150000Z",
+    );
+  });
+});
+
+describe("foldIcsLine", () => {
+  it("leaves short lines alone", () => {
+    expect(foldIcsLine("SUMMARY:Hawks vs Owls")).toBe("SUMMARY:Hawks vs Owls");
+  });
+
+  it("folds long lines to 75 octets without splitting characters", () => {
+    const line = `DESCRIPTION:${"é".repeat(100)}`;
+    const folded = foldIcsLine(line);
+    const physical = folded.split("\r\n");
+    expect(physical.length).toBeGreaterThan(1);
+    for (const part of physical) {
+      expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+    }
+    expect(physical.slice(1).every((p) => p.startsWith(" "))).toBe(true);
+    expect(physical.map((p, i) => (i === 0 ? p : p.slice(1))).join("")).toBe(
+      line,
+    );
+  });
+});
+
+describe("buildIcsCalendar", () => {
+  const ics = buildIcsCalendar(
+    {
+      prodId: "-//Example//Schedule//EN",
+      name: "Hawks",
+      timeZone: "America/Chicago",
+      events: [
+        {
+          uid: "game-g1@example.com",
+          summary: "Hawks vs Owls",
+          startsAt: new Date("2026-03-07T15:00:00Z"),
+          endsAt: new Date("2026-03-07T16:00:00Z"),
+          status: "CANCELLED",
+          sequence: 3,
+          lastModified: new Date("2026-03-01T10:00:00Z"),
+          location: "Central Park, Field 1",
+        },
+      ],
+    },
+    new Date("2026-03-02T00:00:00Z"),
+  );
+
+  it("uses CRLF line endings and wraps events in a calendar", () => {
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics.replace(/\r\n/g, "")).not.toContain("\n");
+  });
+
+  it("names the display time zone while keeping instants in UTC", () => {
+    const lines = ics.split("\r\n");
+    expect(lines).toContain("X-WR-TIMEZONE:America/Chicago");
+    expect(lines.filter((l) => l.startsWith("DTSTART:"))).toEqual([
+      "DTSTART:20260307T150000Z",
+    ]);
+  });
+
+  it("writes event fields, including cancellations", () => {
+    const lines = ics.split("\r\n");
+    expect(lines).toContain("UID:game-g1@example.com");
+    expect(lines).toContain("DTSTAMP:20260302T000000Z");
+    expect(lines).toContain("DTSTART:20260307T150000Z");
+    expect(lines).toContain("DTEND:20260307T160000Z");
+    expect(lines).toContain("LOCATION:Central Park\\, Field 1");
+    expect(lines).toContain("STATUS:CANCELLED");
+    expect(lines).toContain("SEQUENCE:3");
+    expect(lines).not.toContain("DESCRIPTION:");
+  });
+});
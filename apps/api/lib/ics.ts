@@ -0,0 +1,117 @@
+/**
+ * @file Minimal iCalendar (RFC 5545) serialization for published schedule feeds.
+ *
+ * Pure functions: callers load events and pass them in. All instants are written in UTC, so
+ * they stay correct across DST changes; X-WR-TIMEZONE names the zone the schedule is kept in.
+ */
+
+export type IcsEventStatus = "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+
+export type IcsEvent = {
+  /** Globally unique and stable across refreshes (e.g. `game-<id>@<host>`). */
+  uid: string;
+  summary: string;
+  startsAt: Date;
+  endsAt: Date;
+  status: IcsEventStatus;
+  /** Must increase whenever the event changes so clients replace their copy. */
+  sequence: number;
+  lastModified: Date;
+  location?: string | null;
+  description?: string | null;
+};
+
+export type IcsCalendar = {
+  /** Product identifier, e.g. `-//Example//Schedule//EN`. */
+  prodId: string;
+  /** Display name shown by calendar apps (X-WR-CALNAME). */
+  name: string;
+  /** IANA zone clients should display the feed in (X-WR-TIMEZONE), e.g. the organization's. */
+  timeZone?: string;
+  events: IcsEvent[];
+  /** Suggested refresh interval for subscribers, in minutes. */
+  refreshMinutes?: number;
+};
+
+/** Escape a TEXT value (backslash, semicolon, comma, newline). */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** UTC DATE-TIME, e.g. 20260307T150000Z. */
+export function formatIcsDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+const encoder = new TextEncoder();
+
+/** Fold a content line to at most 75 octets per physical line (continuations start with a space). */
+export function foldIcsLine(line: string): string {
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space.
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function eventLines(event: IcsEvent, dtStamp: string): string[] {
+  return [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${dtStamp}`,
+    `DTSTART:${formatIcsDateTime(event.startsAt)}`,
+    `DTEND:${formatIcsDateTime(event.endsAt)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    ...(event.location ? [`LOCATION:${escapeIcsText(event.location)}`] : []),
+    ...(event.description
+      ? [`DESCRIPTION:${escapeIcsText(event.description)}`]
+      : []),
+    `STATUS:${event.status}`,
+    `SEQUENCE:${event.sequence}`,
+    `LAST-MODIFIED:${formatIcsDateTime(event.lastModified)}`,
+    "END:VEVENT",
+  ];
+}
+
+/** Serialize a calendar to ICS text (CRLF line endings, folded lines). */
+export function buildIcsCalendar(
+  calendar: IcsCalendar,
+  now: Date = new Date(),
+): string {
+  const dtStamp = formatIcsDateTime(now);
+  const refresh = calendar.refreshMinutes ?? 60;
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${calendar.prodId}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(calendar.name)}`,
+    ...(calendar.timeZone ? [`X-WR-TIMEZONE:${calendar.timeZone}`] : []),
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${refresh}M`,
+    `X-PUBLISHED-TTL:PT${refresh}M`,
+    ...calendar.events.flatMap((event) => eventLines(event, dtStamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { getLeagueRules, getRosterSizeError } from "./league-rules";
+
+describe("getLeagueRules", () => {
+  it("fills in the sport's usual periods", () => {
+    expect(
+      getLeagueRules({
+        sport: "hockey",
+        periodCount: null,
+        periodLengthMinutes: 15,
+        minRosterSize: 10,
+        maxRosterSize: null,
+      }),
+    ).toEqual({
+      sport: "hockey",
+      periodCount: 3,
+      periodLengthMinutes: 15,
+      minRosterSize: 10,
+      maxRosterSize: null,
+    });
+  });
+});
+
+describe("getRosterSizeError", () => {
+  const limits = { minRosterSize: 7, maxRosterSize: 12 };
+
+  it("accepts rosters within the limits", () => {
+    expect(getRosterSizeError(7, limits, "Rec")).toBeNull();
+    expect(getRosterSizeError(12, limits, "Rec")).toBeNull();
+    expect(
+      getRosterSizeError(
+        40,
+        { minRosterSize: null, maxRosterSize: null },
+        "Rec",
+      ),
+    ).toBeNull();
+  });
+
+  it("rejects rosters that are too large or too small", () => {
+    expect(getRosterSizeError(13, limits, "Rec")).toBe(
+      "Rec allows at most 12 players per team",
+    );
+    expect(getRosterSizeError(6, limits, "Rec")).toBe(
+      "Rec needs at least 7 players per team",
+    );
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * @file League rules: the periods a game is played in and how many players a team may have.
+ *
+ * Each league sets its own rules. A null period setting falls back to the sport's usual format and
+ * a null roster limit means no limit. The organization router checks roster limits when a player
+ * joins a team and when a team enters a league season. Only players count toward them: team members
+ * with the "member" role, not the team's admins.
+ */
+
+import {
+  league,
+  leagueTeam,
+  season,
+  teamMember,
+  type DatabaseSchema,
+  type League,
+  type LeagueSport,
+} from "@repo/db";
+import { and, count, eq, isNull } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+
+export type LeagueRules = {
+  sport: LeagueSport;
+  periodCount: number;
+  /** Null for sports whose periods are not timed (innings, sets). */
+  periodLengthMinutes: number | null;
+  minRosterSize: number | null;
+  maxRosterSize: number | null;
+};
+
+/** Usual periods of each sport: how many, and minutes each. */
+export const SPORT_PERIOD_DEFAULTS: Record<
+  LeagueSport,
+  { periodCount: number; periodLengthMinutes: number | null }
+> = {
+  soccer: { periodCount: 2, periodLengthMinutes: 45 },
+  basketball: { periodCount: 4, periodLengthMinutes: 10 },
+  hockey: { periodCount: 3, periodLengthMinutes: 20 },
+  baseball: { periodCount: 9, periodLengthMinutes: null },
+  volleyball: { periodCount: 5, periodLengthMinutes: null },
+  other: { periodCount: 4, periodLengthMinutes: null },
+};
+
+/** A league's rules, with the sport's usual periods where the league sets none. */
+export function getLeagueRules(
+  row: Pick<
+    League,
+    | "sport"
+    | "periodCount"
+    | "periodLengthMinutes"
+    | "minRosterSize"
+    | "maxRosterSize"
+  >,
+): LeagueRules {
+  const defaults = SPORT_PERIOD_DEFAULTS[row.sport];
+  return {
+    sport: row.sport,
+    periodCount: row.periodCount ?? defaults.periodCount,
+    periodLengthMinutes:
+      row.periodLengthMinutes ?? defaults.periodLengthMinutes,
+    minRosterSize: row.minRosterSize,
+    maxRosterSize: row.maxRosterSize,
+  };
+}
+
+/**
+ * Why a team of `playerCount` players breaks a league's roster limits, or null when it does not.
+ * Pass a null minimum to check only the maximum, e.g. when a player joins a team already playing.
+ */
+export function getRosterSizeError(
+  playerCount: number,
+  limits: Pick<LeagueRules, "minRosterSize" | "maxRosterSize">,
+  leagueName: string,
+): string | null {
+  if (limits.maxRosterSize != null && playerCount > limits.maxRosterSize) {
+    return `${leagueName} allows at most ${limits.maxRosterSize} players per team`;
+  }
+  if (limits.minRosterSize != null && playerCount < limits.minRosterSize) {
+    return `${leagueName} needs at least ${limits.minRosterSize} players per team`;
+  }
+  return null;
+}
+
+/** Players on a team, leaving out its admins. */
+export async function countTeamPlayers(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  teamId: string,
+): Promise<number> {
+  const [players] = await db
+    .select({ value: count(teamMember.id) })
+    .from(teamMember)
+    .where(and(eq(teamMember.teamId, teamId), eq(teamMember.role, "member")));
+  return Number(players?.value ?? 0);
+}
+
+/**
+ * Why one more player cannot join a team, or null when they can: each league the team plays in
+ * this season must have room for them.
+ */
+export async function getAddPlayerRosterError(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  teamId: string,
+): Promise<string | null> {
+  const rosterLimits = await db
+    .select({ name: league.name, maxRosterSize: league.maxRosterSize })
+    .from(leagueTeam)
+    .innerJoin(season, eq(season.id, leagueTeam.seasonId))
+    .innerJoin(league, eq(league.id, leagueTeam.leagueId))
+    .where(and(eq(leagueTeam.teamId, teamId), isNull(season.completedAt)));
+  if (rosterLimits.length === 0) return null;
+  const playerCount = await countTeamPlayers(db, teamId);
+  for (const limit of rosterLimits) {
+    const rosterError = getRosterSizeError(
+      playerCount + 1,
+      { minRosterSize: null, maxRosterSize: limit.maxRosterSize },
+      limit.name,
+    );
+    if (rosterError) return rosterError;
+  }
+  return null;
+}
@@ -0,0 +1,62 @@
+import type { GamePeriodScore, GameStatus } from "@repo/db";
+import { describe, expect, it } from "vitest";
+import { getLiveGameEvent } from "./live";
+
+function state(
+  status: GameStatus,
+  homeScore: number | null = null,
+  awayScore: number | null = null,
+  periodScores: GamePeriodScore[] | null = null,
+) {
+  return { status, homeScore, awayScore, periodScores };
+}
+
+describe("getLiveGameEvent", () => {
+  it("treats kick-off and score changes as score events", () => {
+    expect(
+      getLiveGameEvent(state("scheduled"), state("in_progress", 0, 0)),
+    ).toBe("score");
+    expect(
+      getLiveGameEvent(state("in_progress", 0, 0), state("in_progress", 1, 0)),
+    ).toBe("score");
+  });
+
+  it("reports a new period, and score changes within it as score events", () => {
+    const first = state("in_progress", 1, 0, [{ home: 1, away: 0 }]);
+    const second = state("in_progress", 1, 0, [
+      { home: 1, away: 0 },
+      { home: 0, away: 0 },
+    ]);
+    expect(getLiveGameEvent(first, second)).toBe("period");
+    expect(
+      getLiveGameEvent(
+        second,
+        state("in_progress", 1, 1, [
+          { home: 1, away: 0 },
+          { home: 0, away: 1 },
+        ]),
+      ),
+    ).toBe("score");
+  });
+
+  it("reports finished games and corrected results as final", () => {
+    expect(
+      getLiveGameEvent(state("in_progress", 2, 1), state("final", 2, 1)),
+    ).toBe("final");
+    expect(getLiveGameEvent(state("final", 2, 1), state("final", 2, 2))).toBe(
+      "final",
+    );
+    expect(getLiveGameEvent(state("scheduled"), state("forfeit"))).toBe(
+      "final",
+    );
+    expect(
+      getLiveGameEvent(state("in_progress", 0, 0), state("abandoned", 0, 0)),
+    ).toBe("final");
+  });
+
+  it("skips updates that change nothing clients show", () => {
+    expect(
+      getLiveGameEvent(state("in_progress", 3, 3), state("in_progress", 3, 3)),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * @file Live game events over WebSocket topics.
+ *
+ * After a score is recorded or corrected, or a game is forfeited, the router publishes the game
+ * as it now is to its game, league and facility topics. Only the Bun server (dev.ts) runs a live
+ * server; on Workers ctx.live is undefined and nothing is published, so clients fall back to
+ * refetching.
+ */
+
+import {
+  facility,
+  facilitySurface,
+  game,
+  league,
+  member,
+  type DatabaseSchema,
+  type Game,
+} from "@repo/db";
+import {
+  GameFinal,
+  GamePeriodChanged,
+  GameScoreChanged,
+  type LiveGame,
+} from "@repo/ws-protocol/messages";
+import type { AppData } from "@repo/ws-protocol/router";
+import type { LivePublisher } from "@repo/ws-protocol/server";
+import { liveTopic, type LiveTopic } from "@repo/ws-protocol/topics";
+import { and, eq } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+
+type LiveGameState = Pick<
+  Game,
+  "status" | "homeScore" | "awayScore" | "periodScores"
+>;
+
+export type LiveGameEvent = "score" | "period" | "final";
+
+/**
+ * Which event a change to a game is: "final" once it is finished (including corrections of a
+ * finished result), "period" when a new period was started, otherwise "score". Null when
+ * nothing clients show has changed.
+ */
+export function getLiveGameEvent(
+  previous: LiveGameState,
+  next: LiveGameState,
+): LiveGameEvent | null {
+  if (
+    next.status === "final" ||
+    next.status === "forfeit" ||
+    next.status === "abandoned"
+  ) {
+    return "final";
+  }
+  if ((next.periodScores?.length ?? 0) > (previous.periodScores?.length ?? 0)) {
+    return "period";
+  }
+  const changed =
+    previous.status !== next.status ||
+    previous.homeScore !== next.homeScore ||
+    previous.awayScore !== next.awayScore ||
+    JSON.stringify(previous.periodScores ?? []) !==
+      JSON.stringify(next.periodScores ?? []);
+  return changed ? "score" : null;
+}
+
+const EVENT_MESSAGES = {
+  score: GameScoreChanged,
+  period: GamePeriodChanged,
+  final: GameFinal,
+} as const;
+
+/**
+ * Publish a game's change to everyone following the game, its league or its venue. Does nothing
+ * without a live server or when nothing visible changed. The change is already saved, so
+ * failures are logged rather than thrown.
+ */
+export async function publishGameEvent(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  live: LivePublisher | undefined,
+  previous: LiveGameState,
+  next: Game,
+): Promise<void> {
+  const event = getLiveGameEvent(previous, next);
+  if (!live || !event) return;
+  const [surface] = next.facilitySurfaceId
+    ? await db
+        .select({ facilityId: facilitySurface.facilityId })
+        .from(facilitySurface)
+        .where(eq(facilitySurface.id, next.facilitySurfaceId))
+        .catch((error: unknown) => {
+          console.error("[live] Failed to load game venue:", error);
+          return [];
+        })
+    : [];
+  const payload: LiveGame = {
+    gameId: next.id,
+    leagueId: next.leagueId,
+    facilityId: surface?.facilityId ?? null,
+    status: next.status,
+    homeScore: next.homeScore,
+    awayScore: next.awayScore,
+    periodScores: next.periodScores,
+    updatedAt: next.updatedAt.toISOString(),
+  };
+  const topics = [
+    liveTopic("game", payload.gameId),
+    liveTopic("league", payload.leagueId),
+    ...(payload.facilityId ? [liveTopic("facility", payload.facilityId)] : []),
+  ];
+  live.publish(topics, EVENT_MESSAGES[event], payload);
+}
+
+/**
+ * True when the connection may follow the topic: a kiosk only its own facility, a user the
+ * leagues, games and facilities of organizations they belong to.
+ */
+export async function canFollowLiveTopic(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  connection: Pick<AppData, "userId" | "kioskFacilityId">,
+  topic: LiveTopic,
+): Promise<boolean> {
+  if (connection.kioskFacilityId) {
+    return topic.kind === "facility" && topic.id === connection.kioskFacilityId;
+  }
+  const { userId } = connection;
+  if (!userId) return false;
+  const [row] =
+    topic.kind === "league"
+      ? await db
+          .select({ organizationId: league.organizationId })
+          .from(league)
+          .where(eq(league.id, topic.id))
+      : topic.kind === "game"
+        ? await db
+            .select({ organizationId: league.organizationId })
+            .from(game)
+            .innerJoin(league, eq(league.id, game.leagueId))
+            .where(eq(game.id, topic.id))
+        : await db
+            .select({ organizationId: facility.organizationId })
+            .from(facility)
+            .where(eq(facility.id, topic.id));
+  if (!row) return false;
+  const membership = await db.query.member.findFirst({
+    where: and(
+      eq(member.userId, userId),
+      eq(member.organizationId, row.organizationId),
+    ),
+  });
+  return Boolean(membership);
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  findScheduleException,
+  getDayKey,
+  getHoursForDate,
+} from "./operating-schedule";
+
+const weekly = {
+  friday: { startTime: "08:00", endTime: "20:00" },
+  saturday: { startTime: "09:00", endTime: "17:00" },
+};
+
+const independenceDay = {
+  startDate: "2026-07-04",
+  endDate: "2026-07-04",
+  hours: null,
+  label: "Independence Day",
+};
+const summerHours = {
+  startDate: "2026-07-01",
+  endDate: "2026-07-31",
+  hours: { startTime: "07:00", endTime: "21:00" },
+};
+
+describe("getDayKey", () => {
+  it("maps dates to weekday keys", () => {
+    expect(getDayKey("2026-07-03")).toBe("friday");
+    expect(getDayKey("2026-07-05")).toBe("sunday");
+  });
+});
+
+describe("findScheduleException", () => {
+  it("matches inclusive ranges", () => {
+    expect(findScheduleException([summerHours], "2026-07-01")).toBe(
+      summerHours,
+    );
+    expect(findScheduleException([summerHours], "2026-07-31")).toBe(
+      summerHours,
+    );
+    expect(findScheduleException([summerHours], "2026-08-01")).toBeNull();
+    expect(findScheduleException(null, "2026-07-01")).toBeNull();
+  });
+
+  it("prefers the most specific range when exceptions overlap", () => {
+    expect(
+      findScheduleException([summerHours, independenceDay], "2026-07-04"),
+    ).toBe(independenceDay);
+    expect(
+      findScheduleException([independenceDay, summerHours], "2026-07-04"),
+    ).toBe(independenceDay);
+  });
+});
+
+describe("getHoursForDate", () => {
+  it("uses the weekly schedule when no exception applies", () => {
+    expect(getHoursForDate(weekly, [independenceDay], "2026-07-03")).toEqual({
+      hours: weekly.friday,
+      exception: null,
+    });
+    expect(getHoursForDate(weekly, [], "2026-07-05")).toEqual({
+      hours: null,
+      exception: null,
+    });
+  });
+
+  it("lets exceptions close or change hours", () => {
+    expect(getHoursForDate(weekly, [independenceDay], "2026-07-04")).toEqual({
+      hours: null,
+      exception: independenceDay,
+    });
+    expect(getHoursForDate(weekly, [summerHours], "2026-07-05")).toEqual({
+      hours: summerHours.hours,
+      exception: summerHours,
+    });
+  });
+
+  it("returns null when hours are not tracked", () => {
+    expect(getHoursForDate(null, null, "2026-07-04")).toBeNull();
+    expect(getHoursForDate(null, [independenceDay], "2026-07-04")).toEqual({
+      hours: null,
+      exception: independenceDay,
+    });
+  });
+});
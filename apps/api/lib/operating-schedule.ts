@@ -0,0 +1,72 @@
+/**
+ * @file Resolve the hours that apply on a calendar date: the weekly operating schedule,
+ * overridden by dated schedule exceptions (special hours or blackout ranges).
+ */
+
+import type {
+  FacilityDayHours,
+  FacilityDayKey,
+  FacilityOperatingSchedule,
+  ScheduleException,
+} from "@repo/db";
+import { getWeekday } from "./time.js";
+
+const DAY_KEYS_BY_WEEKDAY: FacilityDayKey[] = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+/** Day key (monday–sunday) for a YYYY-MM-DD date. */
+export function getDayKey(date: string): FacilityDayKey {
+  return DAY_KEYS_BY_WEEKDAY[getWeekday(date)];
+}
+
+/** The exception covering `date`. When ranges overlap, the shortest (most specific) wins. */
+export function findScheduleException(
+  exceptions: ScheduleException[] | null | undefined,
+  date: string,
+): ScheduleException | null {
+  let match: ScheduleException | null = null;
+  for (const exception of exceptions ?? []) {
+    if (exception.startDate > date || exception.endDate < date) continue;
+    if (match == null || daysBetween(exception) < daysBetween(match)) {
+      match = exception;
+    }
+  }
+  return match;
+}
+
+function daysBetween(exception: ScheduleException): number {
+  return (
+    (Date.parse(exception.endDate) - Date.parse(exception.startDate)) /
+    (24 * 60 * 60 * 1000)
+  );
+}
+
+export type ResolvedHours = {
+  /** Hours on the date; null = closed. */
+  hours: FacilityDayHours | null;
+  /** The exception that produced `hours`, if any. */
+  exception: ScheduleException | null;
+};
+
+/**
+ * Hours on a date. A covering exception replaces the weekly hours; otherwise the weekly
+ * schedule applies. Returns null when hours are not tracked at all (no weekly schedule and
+ * no exception), which callers treat as unrestricted.
+ */
+export function getHoursForDate(
+  schedule: FacilityOperatingSchedule | null | undefined,
+  exceptions: ScheduleException[] | null | undefined,
+  date: string,
+): ResolvedHours | null {
+  const exception = findScheduleException(exceptions, date);
+  if (exception) return { hours: exception.hours, exception };
+  if (schedule == null) return null;
+  return { hours: schedule[getDayKey(date)] ?? null, exception: null };
+}
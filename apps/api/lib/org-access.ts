@@ -0,0 +1,185 @@
+/**
+ * @file Access checks shared by organization router procedures.
+ *
+ * Staff procedures take an organizationId and require the caller to be a member of that
+ * organization; league, game and division procedures also require the row to belong to it. Team
+ * procedures that coaches use also let in the team's admins. Each check throws the TRPCError the
+ * client shows, so procedures call them first and carry on with the returned row.
+ */
+
+import {
+  division,
+  game,
+  league,
+  member,
+  playoffMatch,
+  team,
+  teamMember,
+  type DatabaseSchema,
+  type Division,
+  type Game,
+  type League,
+  type Member,
+  type Team,
+} from "@repo/db";
+import { TRPCError } from "@trpc/server";
+import { and, eq, getTableColumns, isNull } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+
+/** What the checks need from a protected procedure's context. */
+type AccessContext = {
+  db: PostgresJsDatabase<DatabaseSchema>;
+  user: { id: string };
+};
+
+/** The caller's membership of the organization. Throws FORBIDDEN when they are not a member. */
+export async function requireOrgMember(
+  ctx: AccessContext,
+  organizationId: string,
+): Promise<Member> {
+  const membership = await ctx.db.query.member.findFirst({
+    where: and(
+      eq(member.userId, ctx.user.id),
+      eq(member.organizationId, organizationId),
+    ),
+  });
+  if (!membership) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Not a member of this organization",
+    });
+  }
+  return membership;
+}
+
+/**
+ * A league of the organization, after checking the caller is a member of it. Throws FORBIDDEN
+ * for non-members and NOT_FOUND when the league is in another organization or does not exist.
+ */
+export async function requireOrgLeague(
+  ctx: AccessContext,
+  organizationId: string,
+  leagueId: string,
+): Promise<League> {
+  await requireOrgMember(ctx, organizationId);
+  const [leagueRow] = await ctx.db
+    .select()
+    .from(league)
+    .where(
+      and(eq(league.id, leagueId), eq(league.organizationId, organizationId)),
+    );
+  if (!leagueRow) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "League not found",
+    });
+  }
+  return leagueRow;
+}
+
+/**
+ * A game of the organization with its league's sport and its playoff bracket (null outside
+ * playoffs), after checking the caller is a member. Deleted games are not found unless
+ * `includeDeleted` is set.
+ */
+export async function requireOrgGame(
+  ctx: AccessContext,
+  organizationId: string,
+  gameId: string,
+  options: { includeDeleted?: boolean } = {},
+): Promise<Game & { sport: League["sport"]; playoffBracketId: string | null }> {
+  await requireOrgMember(ctx, organizationId);
+  const [gameRow] = await ctx.db
+    .select({
+      ...getTableColumns(game),
+      sport: league.sport,
+      playoffBracketId: playoffMatch.bracketId,
+    })
+    .from(game)
+    .innerJoin(league, eq(league.id, game.leagueId))
+    .leftJoin(playoffMatch, eq(playoffMatch.gameId, game.id))
+    .where(
+      and(
+        eq(game.id, gameId),
+        eq(league.organizationId, organizationId),
+        options.includeDeleted ? undefined : isNull(game.deletedAt),
+      ),
+    );
+  if (!gameRow) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Game not found",
+    });
+  }
+  return gameRow;
+}
+
+/** A division of one of the organization's leagues, after checking the caller is a member. */
+export async function requireOrgDivision(
+  ctx: AccessContext,
+  organizationId: string,
+  divisionId: string,
+): Promise<Division> {
+  await requireOrgMember(ctx, organizationId);
+  const [divisionRow] = await ctx.db
+    .select(getTableColumns(division))
+    .from(division)
+    .innerJoin(league, eq(league.id, division.leagueId))
+    .where(
+      and(
+        eq(division.id, divisionId),
+        eq(league.organizationId, organizationId),
+      ),
+    );
+  if (!divisionRow) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Division not found",
+    });
+  }
+  return divisionRow;
+}
+
+/**
+ * A team of the organization, after checking the caller is a member of the organization or an
+ * admin of the team. Team admins need no organization membership. Throws FORBIDDEN for anyone
+ * else and NOT_FOUND when the team is in another organization or does not exist.
+ */
+export async function requireTeamManager(
+  ctx: AccessContext,
+  organizationId: string,
+  teamId: string,
+): Promise<Team> {
+  const [membership, teamAdmin] = await Promise.all([
+    ctx.db.query.member.findFirst({
+      where: and(
+        eq(member.userId, ctx.user.id),
+        eq(member.organizationId, organizationId),
+      ),
+    }),
+    ctx.db.query.teamMember.findFirst({
+      where: and(
+        eq(teamMember.userId, ctx.user.id),
+        eq(teamMember.teamId, teamId),
+        eq(teamMember.role, "admin"),
+      ),
+    }),
+  ]);
+  if (!membership && !teamAdmin) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only organization staff and team admins can do this",
+    });
+  }
+  const [teamRow] = await ctx.db
+    .select()
+    .from(team)
+    .where(and(eq(team.id, teamId), eq(team.organizationId, organizationId)));
+  if (!teamRow) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Team not found",
+    });
+  }
+  return teamRow;
+}
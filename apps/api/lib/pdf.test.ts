@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPdf,
+  createPdfPage,
+  drawPdfText,
+  encodePdfString,
+  fitPdfText,
+  measurePdfText,
+} from "./pdf";
+
+const decoder = new TextDecoder();
+
+describe("encodePdfString", () => {
+  it("escapes delimiters and writes non-ASCII characters in WinAnsi octal", () => {
+    expect(encodePdfString("Hawks (U12) \\ Owls")).toBe(
+      "(Hawks \\(U12\\) \\\\ Owls)",
+    );
+    expect(encodePdfString("Müller – 7")).toBe("(M\\374ller \\226 7)");
+  });
+
+  it("replaces characters WinAnsi cannot encode", () => {
+    expect(encodePdfString("Field ⚽")).toBe("(Field ?)");
+  });
+});
+
+describe("measurePdfText", () => {
+  it("uses the Helvetica metrics", () => {
+    expect(measurePdfText("Hi", 10)).toBeCloseTo(9.44);
+    expect(measurePdfText("Hi", 10, "bold")).toBeGreaterThan(
+      measurePdfText("Hi", 10),
+    );
+  });
+});
+
+describe("fitPdfText", () => {
+  it("leaves text that fits alone", () => {
+    expect(fitPdfText("Hawks", 100, 10)).toBe("Hawks");
+  });
+
+  it("shortens text with an ellipsis", () => {
+    const fitted = fitPdfText("Northside Hawks Under Twelve Girls", 80, 10);
+    expect(fitted.endsWith("…")).toBe(true);
+    expect(measurePdfText(fitted, 10)).toBeLessThanOrEqual(80);
+  });
+});
+
+describe("buildPdf", () => {
+  it("writes one page object per page and a cross-reference table that points at each object", () => {
+    const pages = [createPdfPage(), createPdfPage()];
+    drawPdfText(pages[0], "Hawks vs Owls", 36, 50, { size: 12 });
+    const bytes = buildPdf(pages, { title: "Game sheets" });
+    const text = decoder.decode(bytes);
+
+    expect(text.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(text.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(text).toContain("/Count 2");
+    expect(text).toContain("(Hawks vs Owls) Tj");
+    expect(text.match(/\/Type \/Page /g)).toHaveLength(2);
+
+    const xref = Number(text.match(/startxref\n(\d+)/)?.[1]);
+    expect(text.slice(xref).startsWith("xref\n")).toBe(true);
+    const offsets = [...text.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map(
+      (m) => Number(m[1]),
+    );
+    offsets.forEach((offset, i) => {
+      expect(text.slice(offset).startsWith(`${i + 1} 0 obj\n`)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * @file Minimal PDF (1.4) writer for printable documents such as game sheets.
+ *
+ * Pure functions with no dependencies, so it runs on Workers as well as Bun. Pages are drawn in
+ * points with the origin at the top-left corner and y growing downwards. Text uses the standard
+ * Helvetica fonts in WinAnsi encoding; characters outside it print as "?".
+ */
+
+export type PdfFont = "regular" | "bold";
+
+export type PdfPage = {
+  width: number;
+  height: number;
+  /** Content stream operators, in drawing order. */
+  commands: string[];
+};
+
+export type PdfTextOptions = {
+  size: number;
+  font?: PdfFont;
+  /** Which end of the text `x` refers to. Defaults to "left". */
+  align?: "left" | "center" | "right";
+};
+
+/** US Letter in points. */
+export const LETTER = { width: 612, height: 792 };
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: "F1", baseFont: "Helvetica" },
+  bold: { name: "F2", baseFont: "Helvetica-Bold" },
+};
+
+// Advance widths (1/1000 em) of printable ASCII, from the standard font metrics.
+// prettier-ignore
+const ASCII_WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+
+/** Width used for characters outside printable ASCII (accented letters, dashes…). */
+const FALLBACK_WIDTH = 556;
+
+/** WinAnsi codes of the punctuation that Latin-1 lacks. */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  // Intl date formats put narrow spaces before AM/PM.
+  "\u202f": 0x20,
+  "\u2009": 0x20,
+};
+
+function toWinAnsiCode(char: string): number {
+  const code = char.codePointAt(0) ?? 0x3f;
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+    return code;
+  }
+  return WIN_ANSI_EXTRAS[char] ?? 0x3f;
+}
+
+/** Width of `text` in points when set in `font` at `size`. */
+export function measurePdfText(
+  text: string,
+  size: number,
+  font: PdfFont = "regular",
+): number {
+  let units = 0;
+  for (const char of text) {
+    const code = toWinAnsiCode(char);
+    units += code <= 0x7e ? ASCII_WIDTHS[font][code - 0x20] : FALLBACK_WIDTH;
+  }
+  return (units * size) / 1000;
+}
+
+/** `text`, shortened with an ellipsis when it is wider than `maxWidth`. */
+export function fitPdfText(
+  text: string,
+  maxWidth: number,
+  size: number,
+  font: PdfFont = "regular",
+): string {
+  if (measurePdfText(text, size, font) <= maxWidth) return text;
+  const chars = [...text];
+  while (
+    chars.length > 0 &&
+    measurePdfText(`${chars.join("")}…`, size, font) > maxWidth
+  ) {
+    chars.pop();
+  }
+  return chars.length > 0 ? `${chars.join("").trimEnd()}…` : "";
+}
+
+/** A PDF literal string: WinAnsi bytes with delimiters escaped and non-ASCII bytes in octal. */
+export function encodePdfString(text: string): string {
+  let out = "(";
+  for (const char of text) {
+    const code = toWinAnsiCode(char);
+    if (code > 0x7e) out += `\\${code.toString(8).padStart(3, "0")}`;
+    else if ("\\()".includes(char)) out += `\\${char}`;
+    else out += String.fromCharCode(code);
+  }
+  return `${out})`;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+export function createPdfPage(
+  size: { width: number; height: number } = LETTER,
+): PdfPage {
+  return { width: size.width, height: size.height, commands: [] };
+}
+
+/** Draw `text` with its baseline at `y`. */
+export function drawPdfText(
+  page: PdfPage,
+  text: string,
+  x: number,
+  y: number,
+  options: PdfTextOptions,
+): void {
+  const font = options.font ?? "regular";
+  const width = measurePdfText(text, options.size, font);
+  const left =
+    options.align === "right"
+      ? x - width
+      : options.align === "center"
+        ? x - width / 2
+        : x;
+  page.commands.push(
+    `BT /${FONT_RESOURCES[font].name} ${formatNumber(options.size)} Tf ${formatNumber(left)} ${formatNumber(page.height - y)} Td ${encodePdfString(text)} Tj ET`,
+  );
+}
+
+export function drawPdfLine(
+  page: PdfPage,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  lineWidth = 0.5,
+): void {
+  page.commands.push(
+    `${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(page.height - y1)} m ${formatNumber(x2)} ${formatNumber(page.height - y2)} l S`,
+  );
+}
+
+/** Rectangle with its top-left corner at (x, y). `fill` is a gray level from 0 (black) to 1. */
+export function drawPdfRect(
+  page: PdfPage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  options: { fill?: number; lineWidth?: number } = {},
+): void {
+  const rect = `${formatNumber(x)} ${formatNumber(page.height - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`;
+  page.commands.push(
+    options.fill === undefined
+      ? `${formatNumber(options.lineWidth ?? 0.5)} w ${rect} S`
+      : `q ${formatNumber(options.fill)} g ${rect} f Q`,
+  );
+}
+
+/** Serialize pages into a PDF file. */
+export function buildPdf(
+  pages: PdfPage[],
+  info: { title: string },
+): Uint8Array<ArrayBuffer> {
+  const objects: string[] = [];
+  const fontIds = {} as Record<PdfFont, number>;
+  const pagesId = 2;
+  objects[0] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[2] = `<< /Title ${encodePdfString(info.title)} /Producer (organizer) >>`;
+  for (const font of Object.keys(FONT_RESOURCES) as PdfFont[]) {
+    fontIds[font] = objects.length + 1;
+    objects.push(
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES[font].baseFont} /Encoding /WinAnsiEncoding >>`,
+    );
+  }
+  const fontDict = (Object.keys(FONT_RESOURCES) as PdfFont[])
+    .map((font) => `/${FONT_RESOURCES[font].name} ${fontIds[font]} 0 R`)
+    .join(" ");
+  const pageIds: number[] = [];
+  for (const page of pages) {
+    const content = page.commands.join("\n");
+    objects.push(
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    );
+    const contentId = objects.length;
+    objects.push(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}] /Resources << /Font << ${fontDict} >> >> /Contents ${contentId} 0 R >>`,
+    );
+    pageIds.push(objects.length);
+  }
+  objects[1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+  // Content is plain ASCII (strings are octal-escaped), so string offsets are byte offsets.
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(out.length);
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets)
+    out += `${offset.toString().padStart(10, "0")} 00000 n \n`;
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new TextEncoder().encode(out);
+}
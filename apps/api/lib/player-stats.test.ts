@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  PLAYER_STAT_DEFINITIONS,
+  validatePlayerStatLines,
+} from "./player-stats";
+
+const rosters = new Map([
+  ["home", new Set(["u1", "u2"])],
+  ["away", new Set(["u3"])],
+]);
+
+describe("PLAYER_STAT_DEFINITIONS", () => {
+  it("uses unique stat keys per sport", () => {
+    for (const definitions of Object.values(PLAYER_STAT_DEFINITIONS)) {
+      const keys = definitions.map((d) => d.key);
+      expect(new Set(keys).size).toBe(keys.length);
+    }
+  });
+});
+
+describe("validatePlayerStatLines", () => {
+  it("accepts the sport's stats for rostered players", () => {
+    expect(
+      validatePlayerStatLines(
+        "soccer",
+        [
+          {
+            userId: "u1",
+            leagueTeamId: "home",
+            stats: { goals: 2, assists: 1 },
+          },
+          { userId: "u3", leagueTeamId: "away", stats: { saves: 7 } },
+        ],
+        rosters,
+      ),
+    ).toBeNull();
+  });
+
+  it("rejects stats from another sport", () => {
+    expect(
+      validatePlayerStatLines(
+        "soccer",
+        [{ userId: "u1", leagueTeamId: "home", stats: { rebounds: 4 } }],
+        rosters,
+      ),
+    ).toBe('"rebounds" is not a soccer stat');
+  });
+
+  it("rejects players outside the game's rosters", () => {
+    expect(
+      validatePlayerStatLines(
+        "soccer",
+        [{ userId: "u3", leagueTeamId: "home", stats: { goals: 1 } }],
+        rosters,
+      ),
+    ).toBe("Player is not on that team's roster");
+    expect(
+      validatePlayerStatLines(
+        "soccer",
+        [{ userId: "u1", leagueTeamId: "other", stats: {} }],
+        rosters,
+      ),
+    ).toBe("Stats can only be recorded for the two teams in the game");
+  });
+
+  it("rejects a player listed twice", () => {
+    expect(
+      validatePlayerStatLines(
+        "basketball",
+        [
+          { userId: "u1", leagueTeamId: "home", stats: { points: 4 } },
+          { userId: "u1", leagueTeamId: "home", stats: { rebounds: 2 } },
+        ],
+        rosters,
+      ),
+    ).toBe("A player can only have one stat line per game");
+  });
+});
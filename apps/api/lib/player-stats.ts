@@ -0,0 +1,88 @@
+/**
+ * @file Per-player game statistics: which stats each sport records, and validation of entries.
+ *
+ * Values are stored one row per player and stat in game_player_stat; leaderboards and player
+ * history are summed in SQL by the organization router.
+ */
+
+import type { LeagueSport } from "@repo/db";
+
+export type PlayerStatDefinition = {
+  key: string;
+  label: string;
+  /** Short column header, e.g. "G" for goals. */
+  abbreviation: string;
+};
+
+/** Stats recorded per player for each sport, in display order. */
+export const PLAYER_STAT_DEFINITIONS: Record<
+  LeagueSport,
+  PlayerStatDefinition[]
+> = {
+  soccer: [
+    { key: "goals", label: "Goals", abbreviation: "G" },
+    { key: "assists", label: "Assists", abbreviation: "A" },
+    { key: "saves", label: "Saves", abbreviation: "SV" },
+    { key: "yellow_cards", label: "Yellow cards", abbreviation: "YC" },
+    { key: "red_cards", label: "Red cards", abbreviation: "RC" },
+  ],
+  basketball: [
+    { key: "points", label: "Points", abbreviation: "PTS" },
+    { key: "rebounds", label: "Rebounds", abbreviation: "REB" },
+    { key: "assists", label: "Assists", abbreviation: "AST" },
+    { key: "steals", label: "Steals", abbreviation: "STL" },
+    { key: "blocks", label: "Blocks", abbreviation: "BLK" },
+  ],
+  hockey: [
+    { key: "goals", label: "Goals", abbreviation: "G" },
+    { key: "assists", label: "Assists", abbreviation: "A" },
+    { key: "saves", label: "Saves", abbreviation: "SV" },
+    { key: "penalty_minutes", label: "Penalty minutes", abbreviation: "PIM" },
+  ],
+  baseball: [
+    { key: "hits", label: "Hits", abbreviation: "H" },
+    { key: "runs", label: "Runs", abbreviation: "R" },
+    { key: "rbis", label: "Runs batted in", abbreviation: "RBI" },
+    { key: "home_runs", label: "Home runs", abbreviation: "HR" },
+    { key: "strikeouts", label: "Strikeouts (pitching)", abbreviation: "K" },
+  ],
+  volleyball: [
+    { key: "kills", label: "Kills", abbreviation: "K" },
+    { key: "aces", label: "Aces", abbreviation: "ACE" },
+    { key: "blocks", label: "Blocks", abbreviation: "BLK" },
+    { key: "digs", label: "Digs", abbreviation: "DIG" },
+  ],
+  other: [{ key: "points", label: "Points", abbreviation: "PTS" }],
+};
+
+/** A player's line for one game: stat key → value. Missing stats count as zero. */
+export type PlayerStatLine = {
+  userId: string;
+  leagueTeamId: string;
+  stats: Record<string, number>;
+};
+
+/**
+ * Why a game's stat lines are invalid for the sport, or null when they are fine.
+ * `rosters` maps each side's league_team id to the user ids allowed to play for it.
+ */
+export function validatePlayerStatLines(
+  sport: LeagueSport,
+  lines: PlayerStatLine[],
+  rosters: Map<string, Set<string>>,
+): string | null {
+  const keys = new Set(PLAYER_STAT_DEFINITIONS[sport].map((d) => d.key));
+  const seen = new Set<string>();
+  for (const line of lines) {
+    if (seen.has(line.userId))
+      return "A player can only have one stat line per game";
+    seen.add(line.userId);
+    const roster = rosters.get(line.leagueTeamId);
+    if (!roster)
+      return "Stats can only be recorded for the two teams in the game";
+    if (!roster.has(line.userId)) return "Player is not on that team's roster";
+    const unknown = Object.keys(line.stats).find((key) => !keys.has(key));
+    if (unknown) return `"${unknown}" is not a ${sport} stat`;
+  }
+  return null;
+}
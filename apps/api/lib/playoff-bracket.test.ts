@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPlayoffBracket,
+  getBracketSize,
+  getPlayoffGameWinner,
+  getSeedOrder,
+  planPlayoffSlots,
+  resolvePlayoffBracket,
+  type PlayoffMatchPlan,
+  type PlayoffMatchState,
+} from "./playoff-bracket";
+
+/** Seed n is team `t${n}`; `winners` maps match key → winning team. */
+function states(
+  plan: PlayoffMatchPlan[],
+  winners: Record<string, string> = {},
+): PlayoffMatchState[] {
+  return plan.map((m) => ({
+    key: m.key,
+    homeSource: m.homeSource,
+    awaySource: m.awaySource,
+    homeSeededLeagueTeamId: m.homeSeed == null ? null : `t${m.homeSeed}`,
+    awaySeededLeagueTeamId: m.awaySeed == null ? null : `t${m.awaySeed}`,
+    gameWinnerLeagueTeamId: winners[m.key] ?? null,
+  }));
+}
+
+describe("getSeedOrder", () => {
+  it("keeps the top seeds apart until the late rounds", () => {
+    expect(getSeedOrder(4)).toEqual([1, 4, 2, 3]);
+    expect(getSeedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+});
+
+describe("buildPlayoffBracket", () => {
+  it("builds a single-elimination bracket", () => {
+    const plan = buildPlayoffBracket(8, "single_elimination");
+    expect(plan).toHaveLength(7);
+    expect(plan[0]).toMatchObject({
+      key: "W1-0",
+      homeSeed: 1,
+      awaySeed: 8,
+      stage: 1,
+    });
+    expect(plan.at(-1)).toMatchObject({
+      key: "W3-0",
+      homeSource: { key: "W2-0", outcome: "winner" },
+      awaySource: { key: "W2-1", outcome: "winner" },
+    });
+  });
+
+  it("gives byes to the top seeds when the field is not a power of two", () => {
+    expect(getBracketSize(6)).toBe(8);
+    const firstRound = buildPlayoffBracket(6, "single_elimination").filter(
+      (m) => m.round === 1,
+    );
+    // Seeds 7 and 8 do not exist, so seeds 1 and 2 have byes.
+    expect(firstRound.map((m) => [m.homeSeed, m.awaySeed])).toEqual([
+      [1, null],
+      [4, 5],
+      [2, null],
+      [3, 6],
+    ]);
+  });
+
+  it("adds a losers bracket and a grand final for double elimination", () => {
+    const plan = buildPlayoffBracket(8, "double_elimination");
+    const losers = plan.filter((m) => m.side === "losers");
+    // 4 + 2 + 1 winners matches, 2 + 2 + 1 + 1 losers matches, 1 final.
+    expect(plan).toHaveLength(14);
+    expect(losers.map((m) => m.key)).toEqual([
+      "L1-0",
+      "L1-1",
+      "L2-0",
+      "L2-1",
+      "L3-0",
+      "L4-0",
+    ]);
+    // Losers of the second winners round drop in reversed.
+    expect(plan.find((m) => m.key === "L2-0")?.awaySource).toEqual({
+      key: "W2-1",
+      outcome: "loser",
+    });
+    expect(plan.at(-1)).toMatchObject({ key: "F1-0", side: "final", stage: 6 });
+  });
+});
+
+describe("resolvePlayoffBracket", () => {
+  it("advances winners and leaves later rounds pending", () => {
+    const plan = buildPlayoffBracket(4, "single_elimination");
+    const resolved = resolvePlayoffBracket(states(plan, { "W1-0": "t1" }));
+    expect(resolved.get("W1-0")).toMatchObject({ winner: "t1", loser: "t4" });
+    expect(resolved.get("W2-0")).toMatchObject({ home: "t1", away: undefined });
+  });
+
+  it("sends bye seeds through without a game", () => {
+    const plan = buildPlayoffBracket(3, "single_elimination");
+    const resolved = resolvePlayoffBracket(states(plan));
+    expect(resolved.get("W1-0")).toMatchObject({
+      walkover: true,
+      winner: "t1",
+    });
+    expect(resolved.get("W2-0")?.home).toBe("t1");
+  });
+
+  it("drops losers into the losers bracket and skips empty matches", () => {
+    const plan = buildPlayoffBracket(3, "double_elimination");
+    const resolved = resolvePlayoffBracket(
+      states(plan, { "W1-1": "t2", "W2-0": "t1" }),
+    );
+    // The bye match has no loser, so the first losers match is a walkover for t3.
+    expect(resolved.get("L1-0")).toMatchObject({
+      walkover: true,
+      winner: "t3",
+    });
+    expect(resolved.get("L2-0")).toMatchObject({ home: "t3", away: "t2" });
+    expect(resolved.get("F1-0")).toMatchObject({ home: "t1", away: undefined });
+  });
+});
+
+describe("getPlayoffGameWinner", () => {
+  const base = {
+    homeLeagueTeamId: "h",
+    awayLeagueTeamId: "a",
+    forfeitedByLeagueTeamId: null,
+  };
+
+  it("takes the higher final score and ignores ties and unfinished games", () => {
+    expect(
+      getPlayoffGameWinner({
+        ...base,
+        status: "final",
+        homeScore: 1,
+        awayScore: 3,
+      }),
+    ).toBe("a");
+    expect(
+      getPlayoffGameWinner({
+        ...base,
+        status: "final",
+        homeScore: 2,
+        awayScore: 2,
+      }),
+    ).toBeNull();
+    expect(
+      getPlayoffGameWinner({
+        ...base,
+        status: "in_progress",
+        homeScore: 5,
+        awayScore: 0,
+      }),
+    ).toBeNull();
+  });
+
+  it("awards a forfeit to the other side", () => {
+    expect(
+      getPlayoffGameWinner({
+        ...base,
+        status: "forfeit",
+        homeScore: null,
+        awayScore: null,
+        forfeitedByLeagueTeamId: "h",
+      }),
+    ).toBe("a");
+  });
+});
+
+describe("planPlayoffSlots", () => {
+  const options = {
+    startDate: "2026-05-02",
+    endDate: null,
+    // Saturdays only, room for two games.
+    operatingSchedule: { saturday: { startTime: "09:00", endTime: "11:00" } },
+    surfaces: [{ id: "s1", facilityOperatingSchedule: null }],
+    gameDurationMinutes: 60,
+  };
+
+  it("plays each stage after the previous one and skips taken slots", () => {
+    const { slots, unscheduled } = planPlayoffSlots(
+      [["W1-0", "W1-1"], ["W2-0"]],
+      options,
+      (slot) => !(slot.date === "2026-05-02" && slot.startTime === "09:00"),
+    );
+    expect(unscheduled).toEqual([]);
+    expect(slots.get("W1-0")).toMatchObject({
+      date: "2026-05-02",
+      startTime: "10:00",
+    });
+    expect(slots.get("W1-1")).toMatchObject({
+      date: "2026-05-09",
+      startTime: "09:00",
+    });
+    expect(slots.get("W2-0")).toMatchObject({
+      date: "2026-05-16",
+      startTime: "09:00",
+    });
+  });
+
+  it("reports matches that do not fit before the end date", () => {
+    const { unscheduled } = planPlayoffSlots(
+      [["W1-0"], ["W2-0"]],
+      {
+        ...options,
+        endDate: "2026-05-08",
+      },
+      () => true,
+    );
+    expect(unscheduled).toEqual(["W2-0"]);
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * @file Playoff bracket structure, advancement and slot planning.
+ *
+ * Pure functions, no database access: the organization router builds a bracket from the
+ * standings, and lib/playoffs.ts resolves it against game results after every result change.
+ */
+
+import type {
+  PlayoffBracketSide,
+  PlayoffFormat,
+  PlayoffSlotOutcome,
+} from "@repo/db";
+import {
+  getSlotsForDate,
+  MAX_SCHEDULE_DAYS,
+  type ScheduleSlotOptions,
+  type ScheduledPairing,
+} from "./round-robin.js";
+import { addDays } from "./time.js";
+
+export type PlayoffSlotSource = {
+  key: string;
+  outcome: PlayoffSlotOutcome;
+};
+
+/** One match of a bracket as generated, before any teams are placed. */
+export type PlayoffMatchPlan = {
+  key: string;
+  side: PlayoffBracketSide;
+  round: number;
+  position: number;
+  stage: number;
+  homeSeed: number | null;
+  awaySeed: number | null;
+  homeSource: PlayoffSlotSource | null;
+  awaySource: PlayoffSlotSource | null;
+};
+
+/** Field size: the team count, or the next power of two when top seeds get byes. */
+export function getBracketSize(teamCount: number): number {
+  let size = 2;
+  while (size < teamCount) size *= 2;
+  return size;
+}
+
+export function isPowerOfTwo(value: number): boolean {
+  return value >= 2 && (value & (value - 1)) === 0;
+}
+
+/**
+ * Seeds in first-round order for a power-of-two field, so the top seeds meet as late as
+ * possible: 8 → [1, 8, 4, 5, 2, 7, 3, 6]. Consecutive pairs play each other.
+ */
+export function getSeedOrder(size: number): number[] {
+  let order = [1, 2];
+  while (order.length < size) {
+    const total = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, total - seed]);
+  }
+  return order;
+}
+
+/**
+ * Build the matches of a bracket for `teamCount` seeds. Seeds above `teamCount` are byes.
+ * Double elimination adds a losers bracket (losers drop in, in reverse order to avoid
+ * immediate rematches) and a single grand final between the two bracket winners.
+ */
+export function buildPlayoffBracket(
+  teamCount: number,
+  format: PlayoffFormat,
+): PlayoffMatchPlan[] {
+  const size = getBracketSize(teamCount);
+  const rounds = Math.log2(size);
+  const seeds = getSeedOrder(size);
+  const matches: PlayoffMatchPlan[] = [];
+  const seedOrBye = (seed: number) => (seed <= teamCount ? seed : null);
+
+  for (let round = 1; round <= rounds; round++) {
+    const count = size / 2 ** round;
+    for (let position = 0; position < count; position++) {
+      matches.push({
+        key: `W${round}-${position}`,
+        side: "winners",
+        round,
+        position,
+        stage: round,
+        homeSeed: round === 1 ? seedOrBye(seeds[position * 2]) : null,
+        awaySeed: round === 1 ? seedOrBye(seeds[position * 2 + 1]) : null,
+        homeSource:
+          round === 1
+            ? null
+            : { key: `W${round - 1}-${position * 2}`, outcome: "winner" },
+        awaySource:
+          round === 1
+            ? null
+            : { key: `W${round - 1}-${position * 2 + 1}`, outcome: "winner" },
+      });
+    }
+  }
+  if (format === "single_elimination" || rounds < 2) return matches;
+
+  const losersRounds = 2 * (rounds - 1);
+  for (let round = 1; round <= losersRounds; round++) {
+    const count = size / 2 ** (Math.ceil(round / 2) + 1);
+    for (let position = 0; position < count; position++) {
+      let homeSource: PlayoffSlotSource;
+      let awaySource: PlayoffSlotSource;
+      if (round === 1) {
+        homeSource = { key: `W1-${position * 2}`, outcome: "loser" };
+        awaySource = { key: `W1-${position * 2 + 1}`, outcome: "loser" };
+      } else if (round % 2 === 0) {
+        homeSource = { key: `L${round - 1}-${position}`, outcome: "winner" };
+        awaySource = {
+          key: `W${round / 2 + 1}-${count - 1 - position}`,
+          outcome: "loser",
+        };
+      } else {
+        homeSource = {
+          key: `L${round - 1}-${position * 2}`,
+          outcome: "winner",
+        };
+        awaySource = {
+          key: `L${round - 1}-${position * 2 + 1}`,
+          outcome: "winner",
+        };
+      }
+      matches.push({
+        key: `L${round}-${position}`,
+        side: "losers",
+        round,
+        position,
+        stage: round + 1,
+        homeSeed: null,
+        awaySeed: null,
+        homeSource,
+        awaySource,
+      });
+    }
+  }
+  matches.push({
+    key: "F1-0",
+    side: "final",
+    round: 1,
+    position: 0,
+    stage: losersRounds + 2,
+    homeSeed: null,
+    awaySeed: null,
+    homeSource: { key: `W${rounds}-0`, outcome: "winner" },
+    awaySource: { key: `L${losersRounds}-0`, outcome: "winner" },
+  });
+  return matches;
+}
+
+/** A bracket match with its seeded teams and the winner of its game, if decided. */
+export type PlayoffMatchState = {
+  key: string;
+  homeSource: PlayoffSlotSource | null;
+  awaySource: PlayoffSlotSource | null;
+  /** Team on a seeded side; null = bye. Ignored for sides with a source. */
+  homeSeededLeagueTeamId: string | null;
+  awaySeededLeagueTeamId: string | null;
+  /** Winner of the match's game, once it has a deciding result. */
+  gameWinnerLeagueTeamId: string | null;
+};
+
+/**
+ * Teams and outcome of a match. `undefined` = not known yet; `null` = nobody (a bye).
+ * A match with a bye on either side is a walkover: the other side advances without a game.
+ */
+export type ResolvedPlayoffMatch = {
+  home: string | null | undefined;
+  away: string | null | undefined;
+  winner: string | null | undefined;
+  loser: string | null | undefined;
+  walkover: boolean;
+};
+
+/** Fill every match's teams and outcome from seeds and game winners. */
+export function resolvePlayoffBracket(
+  matches: PlayoffMatchState[],
+): Map<string, ResolvedPlayoffMatch> {
+  const byKey = new Map(matches.map((m) => [m.key, m]));
+  const resolved = new Map<string, ResolvedPlayoffMatch>();
+
+  const resolve = (key: string): ResolvedPlayoffMatch => {
+    const cached = resolved.get(key);
+    if (cached) return cached;
+    const match = byKey.get(key);
+    if (!match) throw new Error(`Unknown playoff match ${key}`);
+    const side = (source: PlayoffSlotSource | null, seeded: string | null) =>
+      source ? resolve(source.key)[source.outcome] : seeded;
+    const home = side(match.homeSource, match.homeSeededLeagueTeamId);
+    const away = side(match.awaySource, match.awaySeededLeagueTeamId);
+    let result: ResolvedPlayoffMatch;
+    if (home === null || away === null) {
+      result = {
+        home,
+        away,
+        winner: home ?? away,
+        loser: null,
+        walkover: true,
+      };
+    } else if (home !== undefined && away !== undefined) {
+      const winner =
+        match.gameWinnerLeagueTeamId === home ||
+        match.gameWinnerLeagueTeamId === away
+          ? match.gameWinnerLeagueTeamId
+          : undefined;
+      result = {
+        home,
+        away,
+        winner,
+        loser: winner === undefined ? undefined : winner === home ? away : home,
+        walkover: false,
+      };
+    } else {
+      result = {
+        home,
+        away,
+        winner: undefined,
+        loser: undefined,
+        walkover: false,
+      };
+    }
+    resolved.set(key, result);
+    return result;
+  };
+
+  for (const m of matches) resolve(m.key);
+  return resolved;
+}
+
+/** Winner of a playoff game: the higher score of a final game, or the side that did not forfeit. */
+export function getPlayoffGameWinner(g: {
+  status: string;
+  homeLeagueTeamId: string;
+  awayLeagueTeamId: string;
+  homeScore: number | null;
+  awayScore: number | null;
+  forfeitedByLeagueTeamId: string | null;
+}): string | null {
+  if (g.status === "forfeit") {
+    if (g.forfeitedByLeagueTeamId === g.homeLeagueTeamId)
+      return g.awayLeagueTeamId;
+    if (g.forfeitedByLeagueTeamId === g.awayLeagueTeamId)
+      return g.homeLeagueTeamId;
+    return null;
+  }
+  if (g.status !== "final" || g.homeScore == null || g.awayScore == null)
+    return null;
+  if (g.homeScore === g.awayScore) return null;
+  return g.homeScore > g.awayScore ? g.homeLeagueTeamId : g.awayLeagueTeamId;
+}
+
+export type PlannedPlayoffSlot = Omit<
+  ScheduledPairing,
+  "round" | "home" | "away"
+>;
+
+/**
+ * Place the matches that need a game (keys grouped by stage, in stage order) on playing dates.
+ * Each stage starts on a later date than the previous one ended; `isAvailable` rejects slots
+ * already taken on the facility. Matches that do not fit before `endDate` are `unscheduled`.
+ */
+export function planPlayoffSlots(
+  stages: string[][],
+  options: ScheduleSlotOptions,
+  isAvailable: (slot: PlannedPlayoffSlot) => boolean,
+): { slots: Map<string, PlannedPlayoffSlot>; unscheduled: string[] } {
+  const slots = new Map<string, PlannedPlayoffSlot>();
+  const pending = stages
+    .filter((keys) => keys.length > 0)
+    .map((keys) => [...keys]);
+  let stageIndex = 0;
+  let date = options.startDate;
+  for (
+    let walked = 0;
+    walked < MAX_SCHEDULE_DAYS &&
+    stageIndex < pending.length &&
+    (options.endDate == null || date <= options.endDate);
+    walked++, date = addDays(date, 1)
+  ) {
+    const remaining = pending[stageIndex];
+    for (const slot of getSlotsForDate(date, options)) {
+      if (remaining.length === 0) break;
+      if (!isAvailable(slot)) continue;
+      slots.set(remaining.shift()!, slot);
+    }
+    while (stageIndex < pending.length && pending[stageIndex].length === 0) {
+      stageIndex++;
+    }
+  }
+  return { slots, unscheduled: pending.flat() };
+}
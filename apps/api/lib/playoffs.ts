@@ -0,0 +1,182 @@
+/**
+ * @file Playoff bracket advancement.
+ *
+ * Every change to a playoff game's result runs `syncPlayoffBracket` in the same transaction:
+ * the bracket is resolved against the game results, each match's teams and winner are stored,
+ * matches whose two teams are now known get their game on the planned slot (replacing the
+ * holding booking), and games not played yet follow a corrected result to the new team.
+ * A correction that would change a team in a game already played is reported back instead.
+ */
+
+import {
+  facilityBooking,
+  game,
+  gameChange,
+  playoffBracket,
+  playoffMatch,
+  type DatabaseSchema,
+} from "@repo/db";
+import { eq, inArray } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { canRescheduleGame } from "./game-changes.js";
+import {
+  getPlayoffGameWinner,
+  resolvePlayoffBracket,
+} from "./playoff-bracket.js";
+
+type Transaction = Parameters<
+  Parameters<PostgresJsDatabase<DatabaseSchema>["transaction"]>[0]
+>[0];
+
+export type PlayoffSyncResult = {
+  /** Games created for matches whose teams became known. */
+  createdGameIds: string[];
+  /**
+   * Matches whose team would change although their game has already started or finished.
+   * Nothing is changed for them; the router rolls the transaction back.
+   */
+  lockedMatchKeys: string[];
+};
+
+/** Advance a bracket to match its game results. */
+export async function syncPlayoffBracket(
+  tx: Transaction,
+  bracketId: string,
+  changedByUserId: string,
+): Promise<PlayoffSyncResult> {
+  const [bracket] = await tx
+    .select({
+      leagueId: playoffBracket.leagueId,
+      seasonId: playoffBracket.seasonId,
+    })
+    .from(playoffBracket)
+    .where(eq(playoffBracket.id, bracketId));
+  if (!bracket) return { createdGameIds: [], lockedMatchKeys: [] };
+  const matches = await tx
+    .select()
+    .from(playoffMatch)
+    .where(eq(playoffMatch.bracketId, bracketId));
+  const gameIds = matches.flatMap((m) => (m.gameId ? [m.gameId] : []));
+  const games = gameIds.length
+    ? await tx.select().from(game).where(inArray(game.id, gameIds))
+    : [];
+  const gamesById = new Map(games.map((g) => [g.id, g]));
+
+  const resolved = resolvePlayoffBracket(
+    matches.map((m) => {
+      const matchGame = m.gameId ? gamesById.get(m.gameId) : undefined;
+      const source = (
+        key: string | null,
+        outcome: typeof m.homeSourceOutcome,
+      ) => (key && outcome ? { key, outcome } : null);
+      return {
+        key: m.key,
+        homeSource: source(m.homeSourceKey, m.homeSourceOutcome),
+        awaySource: source(m.awaySourceKey, m.awaySourceOutcome),
+        homeSeededLeagueTeamId: m.homeSeed == null ? null : m.homeLeagueTeamId,
+        awaySeededLeagueTeamId: m.awaySeed == null ? null : m.awayLeagueTeamId,
+        gameWinnerLeagueTeamId:
+          matchGame && !matchGame.deletedAt
+            ? getPlayoffGameWinner(matchGame)
+            : null,
+      };
+    }),
+  );
+
+  const created: string[] = [];
+  const locked: string[] = [];
+  for (const match of matches) {
+    const result = resolved.get(match.key)!;
+    const home = result.home ?? null;
+    const away = result.away ?? null;
+    const winner = result.winner ?? null;
+    if (
+      home !== match.homeLeagueTeamId ||
+      away !== match.awayLeagueTeamId ||
+      winner !== match.winnerLeagueTeamId
+    ) {
+      await tx
+        .update(playoffMatch)
+        .set({
+          homeLeagueTeamId: home,
+          awayLeagueTeamId: away,
+          winnerLeagueTeamId: winner,
+          updatedAt: new Date(),
+        })
+        .where(eq(playoffMatch.id, match.id));
+    }
+
+    const matchGame = match.gameId ? gamesById.get(match.gameId) : undefined;
+    if (!matchGame) {
+      if (
+        result.walkover ||
+        !home ||
+        !away ||
+        !match.startsAt ||
+        !match.endsAt
+      ) {
+        continue;
+      }
+      await tx
+        .delete(facilityBooking)
+        .where(eq(facilityBooking.playoffMatchId, match.id));
+      const [row] = await tx
+        .insert(game)
+        .values({
+          leagueId: bracket.leagueId,
+          seasonId: bracket.seasonId,
+          homeLeagueTeamId: home,
+          awayLeagueTeamId: away,
+          facilitySurfaceId: match.facilitySurfaceId,
+          startsAt: match.startsAt,
+          endsAt: match.endsAt,
+          playoff: true,
+        })
+        .returning();
+      if (!row) continue;
+      await tx
+        .update(playoffMatch)
+        .set({ gameId: row.id, updatedAt: new Date() })
+        .where(eq(playoffMatch.id, match.id));
+      await tx.insert(gameChange).values({
+        gameId: row.id,
+        action: "created",
+        toStatus: row.status,
+        startsAt: row.startsAt,
+        endsAt: row.endsAt,
+        facilitySurfaceId: row.facilitySurfaceId,
+        changedByUserId,
+      });
+      created.push(row.id);
+      continue;
+    }
+
+    if (
+      home === matchGame.homeLeagueTeamId &&
+      away === matchGame.awayLeagueTeamId
+    ) {
+      continue;
+    }
+    if (!home || !away || !canRescheduleGame(matchGame.status)) {
+      locked.push(match.key);
+      continue;
+    }
+    await tx
+      .update(game)
+      .set({
+        homeLeagueTeamId: home,
+        awayLeagueTeamId: away,
+        updatedAt: new Date(),
+      })
+      .where(eq(game.id, matchGame.id));
+    await tx.insert(gameChange).values({
+      gameId: matchGame.id,
+      action: "updated",
+      fromStatus: matchGame.status,
+      toStatus: matchGame.status,
+      reason: "Teams changed by a corrected playoff result",
+      changedByUserId,
+    });
+  }
+  return { createdGameIds: created, lockedMatchKeys: locked };
+}
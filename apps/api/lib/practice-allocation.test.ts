@@ -0,0 +1,206 @@
+import { describe, expect, it } from "vitest";
+import type { ScheduleConflict, ScheduleSlot } from "./conflicts";
+import {
+  allocatePractices,
+  getPracticeOccurrences,
+  type PracticePreference,
+  type PracticeTeamRequests,
+} from "./practice-allocation";
+
+const range = { startDate: "2026-03-02", endDate: "2026-03-15" };
+const surfaces = [
+  { id: "s1", timeZone: "America/Chicago" },
+  { id: "s2", timeZone: "America/Chicago" },
+];
+
+function preference(
+  id: string,
+  rank: number,
+  facilitySurfaceId: string | null = null,
+  day: PracticePreference["day"] = "tuesday",
+): PracticePreference {
+  return {
+    id,
+    rank,
+    day,
+    startTime: "18:00",
+    endTime: "19:30",
+    facilitySurfaceId,
+  };
+}
+
+const noConflicts = async (): Promise<ScheduleConflict[]> => [];
+
+describe("getPracticeOccurrences", () => {
+  it("returns each matching weekday in the range as local instants", () => {
+    const occurrences = getPracticeOccurrences(
+      { day: "tuesday", startTime: "18:00", endTime: "19:30" },
+      range,
+      "America/Chicago",
+    );
+    expect(occurrences.map((o) => o.date)).toEqual([
+      "2026-03-03",
+      "2026-03-10",
+    ]);
+    // DST starts on March 8: CST (-6) before, CDT (-5) after.
+    expect(occurrences[0].startsAt.toISOString()).toBe(
+      "2026-03-04T00:00:00.000Z",
+    );
+    expect(occurrences[1].startsAt.toISOString()).toBe(
+      "2026-03-10T23:00:00.000Z",
+    );
+  });
+});
+
+describe("allocatePractices", () => {
+  it("gives each team its first free preference and avoids clashes within the run", async () => {
+    const teams: PracticeTeamRequests[] = [
+      { teamId: "a", name: "Hawks", preferences: [preference("a1", 1, "s1")] },
+      {
+        teamId: "b",
+        name: "Owls",
+        preferences: [preference("b1", 1, "s1"), preference("b2", 2, "s2")],
+      },
+    ];
+    const result = await allocatePractices(
+      teams,
+      surfaces,
+      { ...range, practicesPerTeam: 1 },
+      noConflicts,
+    );
+    expect(
+      result.allocations.map((a) => [a.teamId, a.practiceRequestId]),
+    ).toEqual([
+      ["a", "a1"],
+      ["b", "b2"],
+    ]);
+    expect(result.unallocated).toEqual([]);
+  });
+
+  it("skips surfaces with games or bookings and reports teams left without practice", async () => {
+    const busyS1 = async (slots: ScheduleSlot[]): Promise<ScheduleConflict[]> =>
+      slots
+        .filter((s) => s.facilitySurfaceId === "s1")
+        .map((s) => ({
+          type: "overlap",
+          facilitySurfaceId: s.facilitySurfaceId,
+          startsAt: s.startsAt.toISOString(),
+          endsAt: s.endsAt.toISOString(),
+          event: {
+            kind: "game",
+            id: "g1",
+            title: "Game",
+            facilitySurfaceId: "s1",
+            startsAt: s.startsAt.toISOString(),
+            endsAt: s.endsAt.toISOString(),
+          },
+        }));
+    const result = await allocatePractices(
+      [
+        { teamId: "a", name: "Hawks", preferences: [preference("a1", 1)] },
+        { teamId: "b", name: "Owls", preferences: [preference("b1", 1, "s1")] },
+        { teamId: "c", name: "Crows", preferences: [] },
+      ],
+      surfaces,
+      { ...range, practicesPerTeam: 1 },
+      busyS1,
+    );
+    expect(result.allocations).toHaveLength(1);
+    expect(result.allocations[0]).toMatchObject({
+      teamId: "a",
+      facilitySurfaceId: "s2",
+    });
+    expect(result.unallocated).toEqual([
+      {
+        teamId: "b",
+        name: "Owls",
+        allocated: 0,
+        reason: "None of the ranked preferences are free",
+      },
+      {
+        teamId: "c",
+        name: "Crows",
+        allocated: 0,
+        reason: "No practice preferences submitted",
+      },
+    ]);
+  });
+
+  it("skips weeks closed by a schedule exception", async () => {
+    const closedOnTenth = async (
+      slots: ScheduleSlot[],
+    ): Promise<ScheduleConflict[]> =>
+      slots
+        .filter((s) => s.startsAt.toISOString().startsWith("2026-03-10"))
+        .map((s) => ({
+          type: "closed_date",
+          facilitySurfaceId: s.facilitySurfaceId,
+          startsAt: s.startsAt.toISOString(),
+          endsAt: s.endsAt.toISOString(),
+          date: "2026-03-10",
+          label: "Spring break",
+        }));
+    const result = await allocatePractices(
+      [
+        {
+          teamId: "a",
+          name: "Hawks",
+          preferences: [preference("a1", 1, "s1")],
+        },
+      ],
+      surfaces,
+      { ...range, practicesPerTeam: 1 },
+      closedOnTenth,
+    );
+    expect(result.allocations[0].skippedDates).toEqual(["2026-03-10"]);
+  });
+
+  it("serves teams in snake order and avoids each team's own games", async () => {
+    const teams: PracticeTeamRequests[] = [
+      {
+        teamId: "a",
+        name: "Hawks",
+        preferences: [
+          preference("a1", 1, "s1"),
+          preference("a2", 2, "s1", "thursday"),
+        ],
+      },
+      {
+        teamId: "b",
+        name: "Owls",
+        preferences: [
+          preference("b1", 1, "s1"),
+          preference("b2", 2, "s1", "thursday"),
+          preference("b3", 3, "s1", "wednesday"),
+        ],
+        busy: [
+          {
+            startsAt: new Date("2026-03-12T23:30:00Z"),
+            endsAt: new Date("2026-03-13T01:00:00Z"),
+          },
+        ],
+      },
+    ];
+    const result = await allocatePractices(
+      teams,
+      surfaces,
+      { ...range, practicesPerTeam: 2 },
+      noConflicts,
+    );
+    expect(result.allocations.map((a) => a.practiceRequestId)).toEqual([
+      "a1",
+      // Owls have a game on Thursday the 12th, so they fall back to Wednesday.
+      "b3",
+      // Second round starts with Owls, who have nothing left.
+      "a2",
+    ]);
+    expect(result.unallocated).toEqual([
+      {
+        teamId: "b",
+        name: "Owls",
+        allocated: 1,
+        reason: "Only 1 of 2 practices could be allocated",
+      },
+    ]);
+  });
+});
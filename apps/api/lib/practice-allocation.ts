@@ -0,0 +1,226 @@
+/**
+ * @file Weekly practice allocation from ranked team preferences.
+ *
+ * Teams pick in snake order (A, B, C, then C, B, A for a second practice), each taking its
+ * highest-ranked preference that is still free for every week of the period. Existing games,
+ * bookings and facility hours are checked through `findConflicts` (the router passes
+ * `findScheduleConflicts`); practices allocated earlier in the same run are checked here.
+ * Weeks closed by a dated schedule exception (holiday, blackout) are skipped rather than
+ * rejecting the whole slot.
+ */
+
+import type { FacilityDayKey } from "@repo/db";
+import {
+  getOverlapConflicts,
+  type ScheduleConflict,
+  type ScheduleEvent,
+  type ScheduleSlot,
+} from "./conflicts.js";
+import { getDayKey } from "./operating-schedule.js";
+import { addDays, zonedTimeToInstant } from "./time.js";
+
+/** A weekly time pattern in the facility's wall-clock time. */
+export type PracticePattern = {
+  day: FacilityDayKey;
+  /** HH:mm */
+  startTime: string;
+  endTime: string;
+};
+
+export type PracticePreference = PracticePattern & {
+  id: string;
+  rank: number;
+  /** null = any surface. */
+  facilitySurfaceId: string | null;
+};
+
+export type PracticeTeamRequests = {
+  teamId: string;
+  name: string;
+  /** Ordered by rank, first choice first. */
+  preferences: PracticePreference[];
+  /** Times the team is already busy elsewhere (its own games), so practices avoid them. */
+  busy?: { startsAt: Date; endsAt: Date }[];
+};
+
+export type PracticeSurface = {
+  id: string;
+  timeZone: string;
+};
+
+export type PracticeOccurrence = {
+  /** YYYY-MM-DD in the facility's time zone. */
+  date: string;
+  startsAt: Date;
+  endsAt: Date;
+};
+
+export type PracticeAllocation = PracticePattern & {
+  teamId: string;
+  practiceRequestId: string;
+  rank: number;
+  facilitySurfaceId: string;
+  /** Dates in the period the facility is closed, so no practice is booked. */
+  skippedDates: string[];
+};
+
+export type UnallocatedPracticeTeam = {
+  teamId: string;
+  name: string;
+  /** Practices the team received, fewer than requested. */
+  allocated: number;
+  reason: string;
+};
+
+export type PracticeAllocationResult = {
+  allocations: PracticeAllocation[];
+  unallocated: UnallocatedPracticeTeam[];
+};
+
+/** Every occurrence of a weekly pattern within the inclusive date range, as instants in `timeZone`. */
+export function getPracticeOccurrences(
+  pattern: PracticePattern,
+  range: { startDate: string; endDate: string },
+  timeZone: string,
+): PracticeOccurrence[] {
+  const occurrences: PracticeOccurrence[] = [];
+  for (
+    let date = range.startDate;
+    date <= range.endDate;
+    date = addDays(date, 1)
+  ) {
+    if (getDayKey(date) !== pattern.day) continue;
+    occurrences.push({
+      date,
+      startsAt: zonedTimeToInstant(date, pattern.startTime, timeZone),
+      endsAt: zonedTimeToInstant(date, pattern.endTime, timeZone),
+    });
+  }
+  return occurrences;
+}
+
+function overlapsAny(
+  occurrence: PracticeOccurrence,
+  busy: { startsAt: Date; endsAt: Date }[],
+): boolean {
+  return busy.some(
+    (b) =>
+      b.startsAt.getTime() < occurrence.endsAt.getTime() &&
+      occurrence.startsAt.getTime() < b.endsAt.getTime(),
+  );
+}
+
+/**
+ * Allocate up to `practicesPerTeam` weekly practices per team. Teams are served in the given
+ * order for the first round and in reverse for the next, so no team always picks first.
+ */
+export async function allocatePractices(
+  teams: PracticeTeamRequests[],
+  surfaces: PracticeSurface[],
+  options: { startDate: string; endDate: string; practicesPerTeam: number },
+  findConflicts: (slots: ScheduleSlot[]) => Promise<ScheduleConflict[]>,
+): Promise<PracticeAllocationResult> {
+  const surfacesById = new Map(surfaces.map((s) => [s.id, s]));
+  const allocations: PracticeAllocation[] = [];
+  // Practices allocated so far in this run; they occupy their surface and their team's time.
+  const allocatedEvents: ScheduleEvent[] = [];
+  const teamBusy = new Map(teams.map((t) => [t.teamId, [...(t.busy ?? [])]]));
+  const usedPreferences = new Set<string>();
+  const allocatedCount = new Map<string, number>();
+
+  const tryPreference = async (
+    team: PracticeTeamRequests,
+    preference: PracticePreference,
+  ): Promise<PracticeAllocation | null> => {
+    const candidates = preference.facilitySurfaceId
+      ? [preference.facilitySurfaceId]
+      : surfaces.map((s) => s.id);
+    for (const surfaceId of candidates) {
+      const surface = surfacesById.get(surfaceId);
+      if (!surface) continue;
+      const occurrences = getPracticeOccurrences(
+        preference,
+        options,
+        surface.timeZone,
+      );
+      if (occurrences.length === 0) return null;
+      if (occurrences.some((o) => overlapsAny(o, teamBusy.get(team.teamId)!))) {
+        // The team itself is busy at this time; another surface will not help.
+        return null;
+      }
+      const slots = occurrences.map((o) => ({
+        facilitySurfaceId: surfaceId,
+        startsAt: o.startsAt,
+        endsAt: o.endsAt,
+      }));
+      if (
+        slots.some((s) => getOverlapConflicts(s, allocatedEvents).length > 0)
+      ) {
+        continue;
+      }
+      const conflicts = await findConflicts(slots);
+      if (conflicts.some((c) => c.type !== "closed_date")) continue;
+      const skippedDates = [
+        ...new Set(
+          conflicts.flatMap((c) => (c.type === "closed_date" ? [c.date] : [])),
+        ),
+      ];
+      if (skippedDates.length === occurrences.length) continue;
+      for (const [index, slot] of slots.entries()) {
+        allocatedEvents.push({
+          kind: "booking",
+          id: `practice-${preference.id}-${index + 1}`,
+          title: `Practice: ${team.name}`,
+          facilitySurfaceId: surfaceId,
+          startsAt: slot.startsAt.toISOString(),
+          endsAt: slot.endsAt.toISOString(),
+        });
+      }
+      teamBusy.get(team.teamId)!.push(...occurrences);
+      return {
+        teamId: team.teamId,
+        practiceRequestId: preference.id,
+        rank: preference.rank,
+        facilitySurfaceId: surfaceId,
+        day: preference.day,
+        startTime: preference.startTime,
+        endTime: preference.endTime,
+        skippedDates,
+      };
+    }
+    return null;
+  };
+
+  let order = [...teams];
+  for (let round = 0; round < options.practicesPerTeam; round++) {
+    for (const team of order) {
+      for (const preference of team.preferences) {
+        if (usedPreferences.has(preference.id)) continue;
+        const allocation = await tryPreference(team, preference);
+        if (!allocation) continue;
+        usedPreferences.add(preference.id);
+        allocations.push(allocation);
+        allocatedCount.set(
+          team.teamId,
+          (allocatedCount.get(team.teamId) ?? 0) + 1,
+        );
+        break;
+      }
+    }
+    order = [...order].reverse();
+  }
+
+  const unallocated = teams.flatMap((team) => {
+    const allocated = allocatedCount.get(team.teamId) ?? 0;
+    if (allocated >= options.practicesPerTeam) return [];
+    const reason =
+      team.preferences.length === 0
+        ? "No practice preferences submitted"
+        : allocated === 0
+          ? "None of the ranked preferences are free"
+          : `Only ${allocated} of ${options.practicesPerTeam} practices could be allocated`;
+    return [{ teamId: team.teamId, name: team.name, allocated, reason }];
+  });
+
+  return { allocations, unallocated };
+}
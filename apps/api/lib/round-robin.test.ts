@@ -0,0 +1,251 @@
+import { describe, expect, it } from "vitest";
+import {
+  assignRoundsToSlots,
+  buildRoundRobinRounds,
+  getSlotsForDate,
+  mergeRoundRobins,
+  type RoundRobinRound,
+} from "./round-robin";
+
+function pairKey(a: string, b: string): string {
+  return [a, b].sort().join("|");
+}
+
+function homeAwayCounts(rounds: RoundRobinRound[]) {
+  const counts = new Map<string, { home: number; away: number }>();
+  for (const { pairings } of rounds) {
+    for (const { home, away } of pairings) {
+      const h = counts.get(home) ?? { home: 0, away: 0 };
+      const a = counts.get(away) ?? { home: 0, away: 0 };
+      h.home++;
+      a.away++;
+      counts.set(home, h);
+      counts.set(away, a);
+    }
+  }
+  return counts;
+}
+
+describe("buildRoundRobinRounds", () => {
+  it("returns no rounds for fewer than two teams", () => {
+    expect(buildRoundRobinRounds([], "single")).toEqual([]);
+    expect(buildRoundRobinRounds(["a"], "double")).toEqual([]);
+  });
+
+  it("pairs every team with every other team exactly once (even count)", () => {
+    const teams = ["a", "b", "c", "d", "e", "f"];
+    const rounds = buildRoundRobinRounds(teams, "single");
+    expect(rounds).toHaveLength(5);
+    const seen = new Set<string>();
+    for (const round of rounds) {
+      expect(round.bye).toBeNull();
+      const playing = round.pairings.flatMap((p) => [p.home, p.away]);
+      expect(new Set(playing).size).toBe(teams.length);
+      for (const p of round.pairings) {
+        expect(p.round).toBe(round.round);
+        seen.add(pairKey(p.home, p.away));
+      }
+    }
+    expect(seen.size).toBe((teams.length * (teams.length - 1)) / 2);
+  });
+
+  it("gives each team exactly one bye for odd counts", () => {
+    const teams = ["a", "b", "c", "d", "e"];
+    const rounds = buildRoundRobinRounds(teams, "single");
+    expect(rounds).toHaveLength(5);
+    const byes = rounds.map((r) => r.bye);
+    expect(new Set(byes)).toEqual(new Set(teams));
+    for (const round of rounds) {
+      expect(round.pairings).toHaveLength(2);
+      const playing = round.pairings.flatMap((p) => [p.home, p.away]);
+      expect(playing).not.toContain(round.bye);
+    }
+  });
+
+  it("balances home and away games", () => {
+    for (const size of [4, 5, 8, 9]) {
+      const teams = Array.from({ length: size }, (_, i) => `t${i}`);
+      const counts = homeAwayCounts(buildRoundRobinRounds(teams, "single"));
+      for (const { home, away } of counts.values()) {
+        expect(Math.abs(home - away)).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+
+  it("mirrors the first half with sides swapped in a double round robin", () => {
+    const teams = ["a", "b", "c", "d"];
+    const rounds = buildRoundRobinRounds(teams, "double");
+    expect(rounds).toHaveLength(6);
+    expect(rounds[3].round).toBe(4);
+    expect(rounds[3].pairings).toEqual(
+      rounds[0].pairings.map((p) => ({ round: 4, home: p.away, away: p.home })),
+    );
+    for (const { home, away } of homeAwayCounts(rounds).values()) {
+      expect(home).toBe(away);
+    }
+  });
+});
+
+describe("mergeRoundRobins", () => {
+  it("plays each group's round n in the same round, only within the group", () => {
+    const a = buildRoundRobinRounds(["a1", "a2", "a3", "a4"], "single");
+    const b = buildRoundRobinRounds(["b1", "b2"], "single");
+    const merged = mergeRoundRobins([a, b]);
+    expect(merged).toHaveLength(3);
+    expect(merged[0].pairings).toHaveLength(3);
+    expect(merged[1].pairings).toHaveLength(2);
+    expect(
+      merged.every((r, i) => r.pairings.every((p) => p.round === i + 1)),
+    ).toBe(true);
+    for (const { pairings } of merged) {
+      for (const { home, away } of pairings) {
+        expect(home[0]).toBe(away[0]);
+      }
+    }
+  });
+});
+
+describe("getSlotsForDate", () => {
+  const options = {
+    operatingSchedule: { saturday: { startTime: "09:00", endTime: "12:00" } },
+    gameDurationMinutes: 60,
+  };
+
+  it("returns no slots on days the league does not play", () => {
+    // 2026-03-02 is a Monday
+    expect(
+      getSlotsForDate("2026-03-02", {
+        ...options,
+        surfaces: [{ id: "s1", facilityOperatingSchedule: null }],
+      }),
+    ).toEqual([]);
+  });
+
+  it("splits league hours into back-to-back slots per surface, ordered by time", () => {
+    // 2026-03-07 is a Saturday
+    const slots = getSlotsForDate("2026-03-07", {
+      ...options,
+      surfaces: [
+        { id: "s1", facilityOperatingSchedule: null },
+        { id: "s2", facilityOperatingSchedule: null },
+      ],
+    });
+    expect(
+      slots.map((s) => `${s.startTime}-${s.endTime}@${s.surfaceId}`),
+    ).toEqual([
+      "09:00-10:00@s1",
+      "09:00-10:00@s2",
+      "10:00-11:00@s1",
+      "10:00-11:00@s2",
+      "11:00-12:00@s1",
+      "11:00-12:00@s2",
+    ]);
+  });
+
+  it("respects facility hours and closed days", () => {
+    const slots = getSlotsForDate("2026-03-07", {
+      ...options,
+      surfaces: [
+        {
+          id: "s1",
+          facilityOperatingSchedule: {
+            saturday: { startTime: "10:00", endTime: "18:00" },
+          },
+        },
+        { id: "s2", facilityOperatingSchedule: { saturday: null } },
+      ],
+    });
+    expect(slots.map((s) => s.startTime)).toEqual(["10:00", "11:00"]);
+    expect(slots.every((s) => s.surfaceId === "s1")).toBe(true);
+  });
+
+  it("respects league and facility schedule exceptions", () => {
+    const surfaces = [
+      {
+        id: "s1",
+        facilityOperatingSchedule: null,
+        facilityScheduleExceptions: [
+          {
+            startDate: "2026-03-14",
+            endDate: "2026-03-14",
+            hours: { startTime: "11:00", endTime: "18:00" },
+          },
+        ],
+      },
+    ];
+    const leagueBlackout = [
+      { startDate: "2026-03-06", endDate: "2026-03-08", hours: null },
+    ];
+    expect(
+      getSlotsForDate("2026-03-07", {
+        ...options,
+        surfaces,
+        scheduleExceptions: leagueBlackout,
+      }),
+    ).toEqual([]);
+    expect(
+      getSlotsForDate("2026-03-14", {
+        ...options,
+        surfaces,
+        scheduleExceptions: leagueBlackout,
+      }).map((s) => s.startTime),
+    ).toEqual(["11:00"]);
+  });
+});
+
+describe("assignRoundsToSlots", () => {
+  const rounds = buildRoundRobinRounds(["a", "b", "c", "d"], "single");
+  const base = {
+    operatingSchedule: { saturday: { startTime: "09:00", endTime: "11:00" } },
+    surfaces: [{ id: "s1", facilityOperatingSchedule: null }],
+    gameDurationMinutes: 60,
+  };
+
+  it("schedules one round per playing date", () => {
+    const { games, unscheduled } = assignRoundsToSlots(rounds, {
+      ...base,
+      startDate: "2026-03-02",
+      endDate: null,
+    });
+    expect(unscheduled).toEqual([]);
+    expect(games).toHaveLength(6);
+    expect([...new Set(games.map((g) => g.date))]).toEqual([
+      "2026-03-07",
+      "2026-03-14",
+      "2026-03-21",
+    ]);
+    for (const date of ["2026-03-07", "2026-03-14", "2026-03-21"]) {
+      const rounds = new Set(
+        games.filter((g) => g.date === date).map((g) => g.round),
+      );
+      expect(rounds.size).toBe(1);
+    }
+  });
+
+  it("continues a round on the next date when slots run out", () => {
+    const { games } = assignRoundsToSlots(rounds, {
+      ...base,
+      operatingSchedule: { saturday: { startTime: "09:00", endTime: "10:00" } },
+      startDate: "2026-03-07",
+      endDate: null,
+    });
+    expect(games.map((g) => [g.round, g.date])).toEqual([
+      [1, "2026-03-07"],
+      [1, "2026-03-14"],
+      [2, "2026-03-21"],
+      [2, "2026-03-28"],
+      [3, "2026-04-04"],
+      [3, "2026-04-11"],
+    ]);
+  });
+
+  it("reports fixtures that do not fit before the end date", () => {
+    const { games, unscheduled } = assignRoundsToSlots(rounds, {
+      ...base,
+      startDate: "2026-03-07",
+      endDate: "2026-03-14",
+    });
+    expect(games).toHaveLength(4);
+    expect(unscheduled).toEqual(rounds[2].pairings);
+  });
+});
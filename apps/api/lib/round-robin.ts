@@ -0,0 +1,224 @@
+/**
+ * @file Round-robin fixture generation and assignment of fixtures to dated surface slots.
+ *
+ * Pure functions, no database access: the organization router loads the league, its teams
+ * and the chosen surfaces, then uses these to build a schedule preview.
+ */
+
+import type { FacilityOperatingSchedule, ScheduleException } from "@repo/db";
+import { getHoursForDate } from "./operating-schedule.js";
+import { addDays, minutesToTime, timeToMinutes } from "./time.js";
+
+export type RoundRobinFormat = "single" | "double";
+
+/** One fixture: `home` hosts `away` in the given round (1-based). */
+export type RoundRobinPairing = {
+  round: number;
+  home: string;
+  away: string;
+};
+
+export type RoundRobinRound = {
+  round: number;
+  pairings: RoundRobinPairing[];
+  /** Team sitting out this round (odd team counts only). */
+  bye: string | null;
+};
+
+/**
+ * Build the rounds of a single or double round robin using the circle method.
+ * Odd team counts get one bye per round. Home/away is assigned so every team's
+ * home and away counts differ by at most one; in a double round robin the second
+ * half mirrors the first with sides swapped.
+ */
+export function buildRoundRobinRounds(
+  teamIds: string[],
+  format: RoundRobinFormat,
+): RoundRobinRound[] {
+  if (teamIds.length < 2) return [];
+  const rotation: (string | null)[] = [...teamIds];
+  if (rotation.length % 2 === 1) rotation.push(null);
+  const n = rotation.length;
+  const balance = new Map<string, number>(teamIds.map((id) => [id, 0]));
+  const rounds: RoundRobinRound[] = [];
+
+  for (let r = 0; r < n - 1; r++) {
+    const pairings: RoundRobinPairing[] = [];
+    let bye: string | null = null;
+    for (let i = 0; i < n / 2; i++) {
+      const a = rotation[i];
+      const b = rotation[n - 1 - i];
+      if (a == null || b == null) {
+        bye = a ?? b ?? null;
+        continue;
+      }
+      // Team with fewer net home games hosts; ties alternate by round and board.
+      const diff = (balance.get(a) ?? 0) - (balance.get(b) ?? 0);
+      const aHome = diff !== 0 ? diff < 0 : (r + i) % 2 === 0;
+      const home = aHome ? a : b;
+      const away = aHome ? b : a;
+      balance.set(home, (balance.get(home) ?? 0) + 1);
+      balance.set(away, (balance.get(away) ?? 0) - 1);
+      pairings.push({ round: r + 1, home, away });
+    }
+    rounds.push({ round: r + 1, pairings, bye });
+    // Keep the first entry fixed and rotate the rest clockwise.
+    rotation.splice(1, 0, rotation.pop() ?? null);
+  }
+
+  if (format === "double") {
+    const firstHalf = rounds.length;
+    for (const first of rounds.slice(0, firstHalf)) {
+      const round = first.round + firstHalf;
+      rounds.push({
+        round,
+        pairings: first.pairings.map((p) => ({
+          round,
+          home: p.away,
+          away: p.home,
+        })),
+        bye: first.bye,
+      });
+    }
+  }
+  return rounds;
+}
+
+/**
+ * Play several round robins side by side, e.g. one per division: round n holds round n of every
+ * group. Groups with fewer rounds finish early. Byes stay on each group's own rounds.
+ */
+export function mergeRoundRobins(
+  groups: RoundRobinRound[][],
+): RoundRobinRound[] {
+  const count = Math.max(0, ...groups.map((rounds) => rounds.length));
+  return Array.from({ length: count }, (_, i) => ({
+    round: i + 1,
+    pairings: groups.flatMap((rounds) =>
+      (rounds[i]?.pairings ?? []).map((p) => ({ ...p, round: i + 1 })),
+    ),
+    bye: null,
+  }));
+}
+
+/** A surface available to the schedule, with its facility's operating hours (null = no restriction) and dated exceptions. */
+export type ScheduleSurface = {
+  id: string;
+  facilityOperatingSchedule: FacilityOperatingSchedule | null;
+  facilityScheduleExceptions?: ScheduleException[] | null;
+};
+
+export type ScheduleSlotOptions = {
+  /** First date to schedule on (YYYY-MM-DD). */
+  startDate: string;
+  /** Last date to schedule on (YYYY-MM-DD). Null = open ended (capped at MAX_SCHEDULE_DAYS). */
+  endDate: string | null;
+  /** League playing days and hours. */
+  operatingSchedule: FacilityOperatingSchedule;
+  /** League dated overrides and blackout ranges (no play when closed). */
+  scheduleExceptions?: ScheduleException[] | null;
+  surfaces: ScheduleSurface[];
+  gameDurationMinutes: number;
+};
+
+/** A fixture placed on a date, wall-clock time range (HH:mm) and surface. */
+export type ScheduledPairing = RoundRobinPairing & {
+  date: string;
+  startTime: string;
+  endTime: string;
+  surfaceId: string;
+};
+
+/** Upper bound on days walked when the league has no end date. */
+export const MAX_SCHEDULE_DAYS = 730;
+
+/**
+ * Game slots on a date: back-to-back blocks of `gameDurationMinutes` within the league's hours
+ * for that date, intersected with each surface's facility hours. Dated exceptions of the league
+ * and facilities take precedence over their weekly hours. Ordered by start time, then surface.
+ */
+export function getSlotsForDate(
+  date: string,
+  options: Omit<ScheduleSlotOptions, "startDate" | "endDate">,
+): Omit<ScheduledPairing, keyof RoundRobinPairing>[] {
+  const leagueHours = getHoursForDate(
+    options.operatingSchedule,
+    options.scheduleExceptions,
+    date,
+  )?.hours;
+  if (!leagueHours) return [];
+  const slots: (Omit<ScheduledPairing, keyof RoundRobinPairing> & {
+    order: number;
+    start: number;
+  })[] = [];
+  options.surfaces.forEach((surface, order) => {
+    let start = timeToMinutes(leagueHours.startTime);
+    let end = timeToMinutes(leagueHours.endTime);
+    const facilityHours = getHoursForDate(
+      surface.facilityOperatingSchedule,
+      surface.facilityScheduleExceptions,
+      date,
+    );
+    if (facilityHours) {
+      if (!facilityHours.hours) return;
+      start = Math.max(start, timeToMinutes(facilityHours.hours.startTime));
+      end = Math.min(end, timeToMinutes(facilityHours.hours.endTime));
+    }
+    for (
+      let t = start;
+      t + options.gameDurationMinutes <= end;
+      t += options.gameDurationMinutes
+    ) {
+      slots.push({
+        date,
+        startTime: minutesToTime(t),
+        endTime: minutesToTime(t + options.gameDurationMinutes),
+        surfaceId: surface.id,
+        order,
+        start: t,
+      });
+    }
+  });
+  return slots
+    .sort((a, b) => a.start - b.start || a.order - b.order)
+    .map(({ date, startTime, endTime, surfaceId }) => ({
+      date,
+      startTime,
+      endTime,
+      surfaceId,
+    }));
+}
+
+/**
+ * Place rounds on consecutive playing dates. A date never hosts fixtures from two rounds,
+ * so no team plays twice in a day; a round that does not fit on one date continues on the next.
+ * Fixtures that do not fit before `endDate` are returned as `unscheduled`.
+ */
+export function assignRoundsToSlots(
+  rounds: RoundRobinRound[],
+  options: ScheduleSlotOptions,
+): { games: ScheduledPairing[]; unscheduled: RoundRobinPairing[] } {
+  const games: ScheduledPairing[] = [];
+  const pending = rounds.map((r) => [...r.pairings]);
+  let roundIndex = 0;
+  let date = options.startDate;
+  for (
+    let walked = 0;
+    walked < MAX_SCHEDULE_DAYS &&
+    roundIndex < pending.length &&
+    (options.endDate == null || date <= options.endDate);
+    walked++, date = addDays(date, 1)
+  ) {
+    const slots = getSlotsForDate(date, options);
+    const remaining = pending[roundIndex];
+    for (const slot of slots) {
+      const pairing = remaining.shift();
+      if (!pairing) break;
+      games.push({ ...pairing, ...slot });
+    }
+    while (roundIndex < pending.length && pending[roundIndex].length === 0) {
+      roundIndex++;
+    }
+  }
+  return { games, unscheduled: pending.flat() };
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  analyzeScheduleFairness,
+  type FairnessGame,
+} from "./schedule-fairness";
+
+const teams = [
+  { leagueTeamId: "a", name: "Hawks" },
+  { leagueTeamId: "b", name: "Owls" },
+  { leagueTeamId: "c", name: "Crows" },
+  { leagueTeamId: "d", name: "Jays" },
+];
+
+function game(
+  home: string,
+  away: string,
+  startsAt: string,
+  facilitySurfaceId: string | null = "s1",
+): FairnessGame {
+  return {
+    homeLeagueTeamId: home,
+    awayLeagueTeamId: away,
+    facilitySurfaceId,
+    startsAt: new Date(startsAt),
+    timeZone: "UTC",
+  };
+}
+
+describe("analyzeScheduleFairness", () => {
+  it("counts home/away, surfaces and rest days per team", () => {
+    const report = analyzeScheduleFairness(teams, [
+      game("a", "b", "2026-03-07T09:00:00Z"),
+      game("b", "a", "2026-03-14T09:00:00Z", "s2"),
+    ]);
+    expect(report.games).toBe(2);
+    const hawks = report.teams[0];
+    expect(hawks).toMatchObject({
+      games: 2,
+      home: 1,
+      away: 1,
+      backToBack: 0,
+      minRestDays: 6,
+      averageRestDays: 6,
+      flags: [],
+    });
+    expect(hawks.surfaces).toHaveLength(2);
+    expect(report.teams[2]).toMatchObject({
+      games: 0,
+      minRestDays: null,
+      averageRestDays: null,
+    });
+  });
+
+  it("marks the first and last start time of each day as early and late", () => {
+    const report = analyzeScheduleFairness(teams, [
+      game("a", "b", "2026-03-07T09:00:00Z"),
+      game("c", "d", "2026-03-07T11:00:00Z"),
+      // A day with a single start time has no early or late slot.
+      game("a", "c", "2026-03-14T09:00:00Z"),
+    ]);
+    expect(report.teams[0]).toMatchObject({ earlySlots: 1, lateSlots: 0 });
+    expect(report.teams[3]).toMatchObject({ earlySlots: 0, lateSlots: 1 });
+  });
+
+  it("uses the venue's local date and time", () => {
+    const chicago = (g: FairnessGame): FairnessGame => ({
+      ...g,
+      timeZone: "America/Chicago",
+    });
+    // 02:00 UTC on the 8th is still the evening of the 7th in Chicago.
+    const report = analyzeScheduleFairness(teams, [
+      chicago(game("a", "b", "2026-03-07T15:00:00Z")),
+      chicago(game("a", "c", "2026-03-08T02:00:00Z")),
+    ]);
+    expect(report.teams[0]).toMatchObject({
+      earlySlots: 1,
+      lateSlots: 1,
+      backToBack: 1,
+      minRestDays: 0,
+    });
+  });
+
+  it("flags home/away imbalance and teams above the league average", () => {
+    const games = [
+      game("a", "b", "2026-03-01T09:00:00Z"),
+      game("a", "c", "2026-03-02T09:00:00Z"),
+      game("a", "d", "2026-03-03T09:00:00Z"),
+      game("b", "c", "2026-03-10T09:00:00Z"),
+      game("c", "d", "2026-03-20T09:00:00Z"),
+      game("d", "b", "2026-03-30T09:00:00Z"),
+    ];
+    const report = analyzeScheduleFairness(teams, games);
+    const hawks = report.teams[0];
+    expect(hawks.flags.map((f) => f.metric)).toEqual([
+      "home_away",
+      "back_to_back",
+      "rest_days",
+    ]);
+    expect(hawks.flags[0].message).toBe("3 home vs 0 away");
+    expect(report.teams[1].flags).toEqual([]);
+  });
+});
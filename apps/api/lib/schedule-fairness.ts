@@ -0,0 +1,220 @@
+/**
+ * @file Fairness metrics for a league schedule: home/away balance, early and late slots,
+ * back-to-back games, rest days and surface distribution per team, with outliers flagged.
+ *
+ * Pure functions, no database access: the organization router loads the league's games
+ * (with each venue's time zone) and passes them in.
+ */
+
+import { getZonedParts } from "./time.js";
+
+/** A game that occupies a slot. Postponed, cancelled and forfeited games are left out by the caller. */
+export type FairnessGame = {
+  homeLeagueTeamId: string;
+  awayLeagueTeamId: string;
+  facilitySurfaceId: string | null;
+  startsAt: Date;
+  /** Time zone used to decide the local date and start time (the venue's zone). */
+  timeZone: string;
+};
+
+export type FairnessTeam = {
+  leagueTeamId: string;
+  name: string;
+};
+
+export type FairnessMetric =
+  | "home_away"
+  | "early_slots"
+  | "late_slots"
+  | "back_to_back"
+  | "rest_days";
+
+export type FairnessFlag = {
+  metric: FairnessMetric;
+  message: string;
+};
+
+export type TeamFairness = {
+  leagueTeamId: string;
+  name: string;
+  games: number;
+  home: number;
+  away: number;
+  /** Games in the first start time of their day (days with more than one start time only). */
+  earlySlots: number;
+  /** Games in the last start time of their day (days with more than one start time only). */
+  lateSlots: number;
+  /** Pairs of consecutive games on the same or the next day. */
+  backToBack: number;
+  /** Fewest full days off between two games; null with fewer than two games. */
+  minRestDays: number | null;
+  averageRestDays: number | null;
+  /** Games per surface; null id = no venue assigned. */
+  surfaces: { facilitySurfaceId: string | null; games: number }[];
+  flags: FairnessFlag[];
+};
+
+export type ScheduleFairnessReport = {
+  games: number;
+  /** League-wide averages per team that the flags compare against. */
+  averages: {
+    earlySlots: number;
+    lateSlots: number;
+    backToBack: number;
+    averageRestDays: number | null;
+  };
+  teams: TeamFairness[];
+};
+
+/** How far above the league average a team's early or late slot count may go before it is flagged. */
+const SLOT_MARGIN = 2;
+/** How far above the league average a team's back-to-back count may go before it is flagged. */
+const BACK_TO_BACK_MARGIN = 1;
+/** How many days below the league average a team's average rest may drop before it is flagged. */
+const REST_MARGIN_DAYS = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+function average(values: number[]): number {
+  return values.length
+    ? values.reduce((sum, v) => sum + v, 0) / values.length
+    : 0;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** Per-team fairness metrics for the given games, in `teams` order. */
+export function analyzeScheduleFairness(
+  teams: FairnessTeam[],
+  games: FairnessGame[],
+): ScheduleFairnessReport {
+  const local = games.map((g) => ({
+    ...g,
+    ...getZonedParts(g.startsAt, g.timeZone),
+  }));
+
+  // Earliest and latest start time on each local date across the league.
+  const dayBounds = new Map<string, { first: string; last: string }>();
+  for (const g of local) {
+    const bounds = dayBounds.get(g.date);
+    if (!bounds) {
+      dayBounds.set(g.date, { first: g.time, last: g.time });
+    } else {
+      if (g.time < bounds.first) bounds.first = g.time;
+      if (g.time > bounds.last) bounds.last = g.time;
+    }
+  }
+
+  const rows = teams.map((team) => {
+    const own = local
+      .filter(
+        (g) =>
+          g.homeLeagueTeamId === team.leagueTeamId ||
+          g.awayLeagueTeamId === team.leagueTeamId,
+      )
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+    let earlySlots = 0;
+    let lateSlots = 0;
+    const surfaceCounts = new Map<string | null, number>();
+    for (const g of own) {
+      const bounds = dayBounds.get(g.date)!;
+      if (bounds.first !== bounds.last) {
+        if (g.time === bounds.first) earlySlots++;
+        if (g.time === bounds.last) lateSlots++;
+      }
+      surfaceCounts.set(
+        g.facilitySurfaceId,
+        (surfaceCounts.get(g.facilitySurfaceId) ?? 0) + 1,
+      );
+    }
+    const rests: number[] = [];
+    let backToBack = 0;
+    for (let i = 1; i < own.length; i++) {
+      const gap = daysBetween(own[i - 1].date, own[i].date);
+      if (gap <= 1) backToBack++;
+      rests.push(Math.max(0, gap - 1));
+    }
+    const home = own.filter(
+      (g) => g.homeLeagueTeamId === team.leagueTeamId,
+    ).length;
+    return {
+      leagueTeamId: team.leagueTeamId,
+      name: team.name,
+      games: own.length,
+      home,
+      away: own.length - home,
+      earlySlots,
+      lateSlots,
+      backToBack,
+      minRestDays: rests.length ? Math.min(...rests) : null,
+      averageRestDays: rests.length ? round1(average(rests)) : null,
+      surfaces: [...surfaceCounts.entries()]
+        .map(([facilitySurfaceId, count]) => ({
+          facilitySurfaceId,
+          games: count,
+        }))
+        .sort((a, b) => b.games - a.games),
+    };
+  });
+
+  const playing = rows.filter((r) => r.games > 0);
+  const restValues = playing
+    .map((r) => r.averageRestDays)
+    .filter((v): v is number => v != null);
+  const averages = {
+    earlySlots: round1(average(playing.map((r) => r.earlySlots))),
+    lateSlots: round1(average(playing.map((r) => r.lateSlots))),
+    backToBack: round1(average(playing.map((r) => r.backToBack))),
+    averageRestDays: restValues.length ? round1(average(restValues)) : null,
+  };
+
+  return {
+    games: games.length,
+    averages,
+    teams: rows.map((row) => {
+      const flags: FairnessFlag[] = [];
+      if (Math.abs(row.home - row.away) > 1) {
+        flags.push({
+          metric: "home_away",
+          message: `${row.home} home vs ${row.away} away`,
+        });
+      }
+      if (row.earlySlots > averages.earlySlots + SLOT_MARGIN) {
+        flags.push({
+          metric: "early_slots",
+          message: `${row.earlySlots} early games (league average ${averages.earlySlots})`,
+        });
+      }
+      if (row.lateSlots > averages.lateSlots + SLOT_MARGIN) {
+        flags.push({
+          metric: "late_slots",
+          message: `${row.lateSlots} late games (league average ${averages.lateSlots})`,
+        });
+      }
+      if (row.backToBack > averages.backToBack + BACK_TO_BACK_MARGIN) {
+        flags.push({
+          metric: "back_to_back",
+          message: `${row.backToBack} back-to-backs (league average ${averages.backToBack})`,
+        });
+      }
+      if (
+        row.averageRestDays != null &&
+        averages.averageRestDays != null &&
+        row.averageRestDays < averages.averageRestDays - REST_MARGIN_DAYS
+      ) {
+        flags.push({
+          metric: "rest_days",
+          message: `${row.averageRestDays} rest days on average (league average ${averages.averageRestDays})`,
+        });
+      }
+      return { ...row, flags };
+    }),
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSeasonRosters,
+  getDefaultSeasonName,
+  getRolloverDates,
+} from "./seasons";
+
+describe("getDefaultSeasonName", () => {
+  it("names the season after the quarter it starts in", () => {
+    expect(getDefaultSeasonName("2026-03-01")).toBe("Spring 2026");
+    expect(getDefaultSeasonName("2026-07-15")).toBe("Summer 2026");
+    expect(getDefaultSeasonName("2026-09-06")).toBe("Fall 2026");
+    expect(getDefaultSeasonName("2026-02-28")).toBe("Winter 2026");
+  });
+
+  it("counts December toward the next winter", () => {
+    expect(getDefaultSeasonName("2026-12-05")).toBe("Winter 2027");
+  });
+});
+
+describe("getRolloverDates", () => {
+  it("starts on the same weekday in the week after the season ends", () => {
+    // Sat Mar 7 – Sat May 30 spans 85 days, so 13 weeks forward.
+    expect(getRolloverDates("2026-03-07", "2026-05-30")).toEqual({
+      startDate: "2026-06-06",
+      endDate: "2026-08-29",
+    });
+  });
+
+  it("moves a season without an end date forward 52 weeks", () => {
+    expect(getRolloverDates("2026-03-07", null)).toEqual({
+      startDate: "2027-03-06",
+      endDate: null,
+    });
+    expect(getRolloverDates(null, null)).toEqual({
+      startDate: null,
+      endDate: null,
+    });
+  });
+});
+
+describe("buildSeasonRosters", () => {
+  it("copies each team's members onto its league teams", () => {
+    expect(
+      buildSeasonRosters(
+        [
+          { id: "lt-a", teamId: "a" },
+          { id: "lt-a2", teamId: "a" },
+          { id: "lt-b", teamId: "b" },
+        ],
+        [
+          { teamId: "a", userId: "u1", jerseyNumber: "07" },
+          { teamId: "c", userId: "u2", jerseyNumber: null },
+        ],
+      ),
+    ).toEqual([
+      { leagueTeamId: "lt-a", userId: "u1", jerseyNumber: "07" },
+      { leagueTeamId: "lt-a2", userId: "u1", jerseyNumber: "07" },
+    ]);
+  });
+});
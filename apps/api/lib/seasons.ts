@@ -0,0 +1,317 @@
+/**
+ * @file Seasons: which season a league procedure works on, and keeping the rosters of current
+ * seasons in step with team_member.
+ *
+ * League procedures take an optional seasonId and default to the league's current season, the
+ * one not completed yet. Starting a new season completes the current one; its league_team rows,
+ * games and league_team_player rosters are left as they were. Returning teams are entered in
+ * the new season again, and their rosters rebuilt from team_member.
+ */
+
+import {
+  division,
+  game,
+  league,
+  leagueTeam,
+  leagueTeamPlayer,
+  organization,
+  season,
+  team,
+  teamMember,
+  user,
+  type DatabaseSchema,
+  type League,
+  type Season,
+} from "@repo/db";
+import { and, asc, count, eq, inArray, isNull, or } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import {
+  computeDivisionStandings,
+  getDivisionMoves,
+  type DivisionMovement,
+} from "./divisions.js";
+import { sendSeasonInvitation } from "./email.js";
+import type { Env } from "./env.js";
+import { addDays } from "./time.js";
+
+type Transaction = Parameters<
+  Parameters<PostgresJsDatabase<DatabaseSchema>["transaction"]>[0]
+>[0];
+
+/** Name for a season starting on `date` (YYYY-MM-DD), e.g. "Spring 2026". December belongs to the next winter. */
+export function getDefaultSeasonName(date: string): string {
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(5, 7));
+  if (month >= 3 && month <= 5) return `Spring ${year}`;
+  if (month >= 6 && month <= 8) return `Summer ${year}`;
+  if (month >= 9 && month <= 11) return `Fall ${year}`;
+  return `Winter ${month === 12 ? year + 1 : year}`;
+}
+
+/**
+ * Dates of the season after one running from `startDate` to `endDate`, moved forward by whole
+ * weeks: it starts on the same weekday, in the week after the previous season ends. Without an
+ * end date both move forward 52 weeks. Missing dates stay missing.
+ */
+export function getRolloverDates(
+  startDate: string | null,
+  endDate: string | null,
+): { startDate: string | null; endDate: string | null } {
+  const days =
+    startDate && endDate
+      ? (Date.parse(endDate) - Date.parse(startDate)) / 86_400_000 + 1
+      : 364;
+  const offset = Math.ceil(days / 7) * 7;
+  return {
+    startDate: startDate ? addDays(startDate, offset) : null,
+    endDate: endDate ? addDays(endDate, offset) : null,
+  };
+}
+
+/** The given season of the league, or its current season when `seasonId` is omitted. */
+export async function getLeagueSeason(
+  db: PostgresJsDatabase<DatabaseSchema> | Transaction,
+  leagueId: string,
+  seasonId?: string,
+): Promise<Season | undefined> {
+  const [row] = await db
+    .select()
+    .from(season)
+    .where(
+      and(
+        eq(season.leagueId, leagueId),
+        seasonId ? eq(season.id, seasonId) : isNull(season.completedAt),
+      ),
+    );
+  return row;
+}
+
+/** Roster rows for each league_team: the members of its team, with their jersey numbers. */
+export function buildSeasonRosters(
+  leagueTeams: { id: string; teamId: string }[],
+  members: { teamId: string; userId: string; jerseyNumber: string | null }[],
+): { leagueTeamId: string; userId: string; jerseyNumber: string | null }[] {
+  return leagueTeams.flatMap((lt) =>
+    members
+      .filter((m) => m.teamId === lt.teamId)
+      .map((m) => ({
+        leagueTeamId: lt.id,
+        userId: m.userId,
+        jerseyNumber: m.jerseyNumber,
+      })),
+  );
+}
+
+/**
+ * Replace the rosters of the teams' current seasons with their team_member rows. Call after
+ * changing a team's members or jersey numbers, and after a team enters a season.
+ */
+export async function syncSeasonRosters(
+  tx: Transaction,
+  teamIds: string[],
+): Promise<void> {
+  if (teamIds.length === 0) return;
+  const current = await tx
+    .select({ id: leagueTeam.id, teamId: leagueTeam.teamId })
+    .from(leagueTeam)
+    .innerJoin(season, eq(season.id, leagueTeam.seasonId))
+    .where(
+      and(inArray(leagueTeam.teamId, teamIds), isNull(season.completedAt)),
+    );
+  if (current.length === 0) return;
+  const members = await tx
+    .select({
+      teamId: teamMember.teamId,
+      userId: teamMember.userId,
+      jerseyNumber: teamMember.jerseyNumber,
+    })
+    .from(teamMember)
+    .where(inArray(teamMember.teamId, teamIds));
+  await tx.delete(leagueTeamPlayer).where(
+    inArray(
+      leagueTeamPlayer.leagueTeamId,
+      current.map((lt) => lt.id),
+    ),
+  );
+  const rows = buildSeasonRosters(current, members);
+  if (rows.length > 0) {
+    await tx.insert(leagueTeamPlayer).values(rows);
+  }
+}
+
+/** A team of a season, as it would enter the league's next season. */
+export type ReturningTeam = {
+  teamId: string;
+  name: string;
+  /** Division next season; null in a league without divisions. */
+  divisionId: string | null;
+  movement: DivisionMovement | null;
+  /** Current players of the team, without its admins, who make up its roster next season. */
+  playerCount: number;
+};
+
+/**
+ * The teams of a season and where they play next season. In a league with divisions the top and
+ * bottom of each division move up or down by the season's final division standings.
+ */
+export async function loadReturningTeams(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  leagueRow: Pick<
+    League,
+    | "id"
+    | "pointsForWin"
+    | "pointsForTie"
+    | "pointsForLoss"
+    | "standingsTiebreakers"
+  >,
+  seasonId: string,
+): Promise<ReturningTeam[]> {
+  const teams = await db
+    .select({
+      leagueTeamId: leagueTeam.id,
+      teamId: leagueTeam.teamId,
+      name: team.name,
+      divisionId: leagueTeam.divisionId,
+    })
+    .from(leagueTeam)
+    .innerJoin(team, eq(team.id, leagueTeam.teamId))
+    .where(eq(leagueTeam.seasonId, seasonId))
+    .orderBy(asc(team.name));
+  if (teams.length === 0) return [];
+  const playerCounts = await db
+    .select({ teamId: teamMember.teamId, value: count(teamMember.id) })
+    .from(teamMember)
+    .where(
+      and(
+        inArray(
+          teamMember.teamId,
+          teams.map((t) => t.teamId),
+        ),
+        eq(teamMember.role, "member"),
+      ),
+    )
+    .groupBy(teamMember.teamId);
+  const playerCountByTeam = new Map(
+    playerCounts.map((r) => [r.teamId, Number(r.value)]),
+  );
+  const tiers = await db
+    .select({
+      id: division.id,
+      promotionCount: division.promotionCount,
+      relegationCount: division.relegationCount,
+    })
+    .from(division)
+    .where(eq(division.leagueId, leagueRow.id))
+    .orderBy(asc(division.rank), asc(division.name));
+  if (tiers.length === 0) {
+    return teams.map((t) => ({
+      teamId: t.teamId,
+      name: t.name,
+      divisionId: null,
+      movement: null,
+      playerCount: playerCountByTeam.get(t.teamId) ?? 0,
+    }));
+  }
+  const games = await db
+    .select({
+      homeLeagueTeamId: game.homeLeagueTeamId,
+      awayLeagueTeamId: game.awayLeagueTeamId,
+      status: game.status,
+      homeScore: game.homeScore,
+      awayScore: game.awayScore,
+      forfeitedByLeagueTeamId: game.forfeitedByLeagueTeamId,
+      startsAt: game.startsAt,
+    })
+    .from(game)
+    .where(
+      and(
+        eq(game.seasonId, seasonId),
+        eq(game.playoff, false),
+        isNull(game.deletedAt),
+        inArray(game.status, ["final", "forfeit"]),
+        or(
+          isNull(game.scoreConfirmation),
+          eq(game.scoreConfirmation, "confirmed"),
+        ),
+      ),
+    );
+  const standings = computeDivisionStandings(
+    tiers,
+    teams,
+    games.map((g) => ({
+      ...g,
+      status:
+        g.status === "forfeit" ? ("forfeit" as const) : ("final" as const),
+    })),
+    {
+      pointsForWin: leagueRow.pointsForWin,
+      pointsForTie: leagueRow.pointsForTie,
+      pointsForLoss: leagueRow.pointsForLoss,
+      tiebreakers: leagueRow.standingsTiebreakers,
+      coinFlipSeed: leagueRow.id,
+    },
+  );
+  const moves = getDivisionMoves(
+    tiers,
+    new Map(
+      standings.map((d) => [d.divisionId, d.rows.map((r) => r.leagueTeamId)]),
+    ),
+  );
+  return teams.map((t) => ({
+    teamId: t.teamId,
+    name: t.name,
+    divisionId: moves.get(t.leagueTeamId)?.divisionId ?? t.divisionId,
+    movement: moves.get(t.leagueTeamId)?.movement ?? null,
+    playerCount: playerCountByTeam.get(t.teamId) ?? 0,
+  }));
+}
+
+/**
+ * Email the members of each team in a season that the team is entered in it, one message per
+ * address so recipients never see each other's. Returns the number of recipients.
+ */
+export async function notifySeasonTeams(
+  db: PostgresJsDatabase<DatabaseSchema>,
+  env: Pick<
+    Env,
+    "RESEND_API_KEY" | "RESEND_EMAIL_FROM" | "APP_NAME" | "APP_ORIGIN"
+  >,
+  seasonId: string,
+): Promise<number> {
+  const [row] = await db
+    .select({
+      seasonName: season.name,
+      startDate: season.startDate,
+      leagueName: league.name,
+      organizationName: organization.name,
+    })
+    .from(season)
+    .innerJoin(league, eq(league.id, season.leagueId))
+    .innerJoin(organization, eq(organization.id, league.organizationId))
+    .where(eq(season.id, seasonId));
+  if (!row) return 0;
+  const members = await db
+    .select({ teamId: team.id, teamName: team.name, email: user.email })
+    .from(leagueTeam)
+    .innerJoin(team, eq(team.id, leagueTeam.teamId))
+    .innerJoin(teamMember, eq(teamMember.teamId, team.id))
+    .innerJoin(user, eq(user.id, teamMember.userId))
+    .where(eq(leagueTeam.seasonId, seasonId));
+  let notified = 0;
+  for (const teamId of new Set(members.map((m) => m.teamId))) {
+    const teamMembers = members.filter((m) => m.teamId === teamId);
+    const to = [...new Set(teamMembers.map((m) => m.email))];
+    for (const email of to) {
+      await sendSeasonInvitation(env, {
+        to: email,
+        organizationName: row.organizationName,
+        leagueName: row.leagueName,
+        seasonName: row.seasonName,
+        teamName: teamMembers[0].teamName,
+        startDate: row.startDate,
+      });
+    }
+    notified += to.length;
+  }
+  return notified;
+}
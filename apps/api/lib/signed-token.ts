@@ -0,0 +1,72 @@
+/**
+ * @file HMAC-signed ids for public URLs (calendar feeds, kiosk displays).
+ *
+ * A token is `<id>.<signature>`, where the signature is an HMAC-SHA256 of `<purpose>:<id>` keyed
+ * with BETTER_AUTH_SECRET. The purpose keeps a token for one kind of URL from working for another.
+ */
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> | null {
+  if (!/^[A-Za-z0-9_-]+$/.test(value)) return null;
+  try {
+    const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  } catch {
+    // atob rejects lengths no base64 string can have, e.g. a truncated signature.
+    return null;
+  }
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+/** Token for `id`: `<id>.<signature>`. */
+export async function signToken(
+  purpose: string,
+  id: string,
+  secret: string,
+): Promise<string> {
+  const key = await importKey(secret);
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${purpose}:${id}`),
+  );
+  return `${id}.${toBase64Url(signature)}`;
+}
+
+/** The id in a token, or null when the token is malformed or not signed for `purpose`. */
+export async function verifyToken(
+  purpose: string,
+  token: string,
+  secret: string,
+): Promise<string | null> {
+  const dot = token.lastIndexOf(".");
+  if (dot <= 0) return null;
+  const id = token.slice(0, dot);
+  const signature = fromBase64Url(token.slice(dot + 1));
+  if (!signature) return null;
+  const key = await importKey(secret);
+  const valid = await crypto.subtle.verify(
+    "HMAC",
+    key,
+    signature,
+    encoder.encode(`${purpose}:${id}`),
+  );
+  return valid ? id : null;
+}
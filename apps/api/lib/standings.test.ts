@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeStandings,
+  type StandingsConfig,
+  type StandingsGame,
+} from "./standings";
+
+const teams = [
+  { leagueTeamId: "a", name: "Hawks" },
+  { leagueTeamId: "b", name: "Owls" },
+  { leagueTeamId: "c", name: "Crows" },
+  { leagueTeamId: "d", name: "Jays" },
+];
+
+const config: StandingsConfig = {
+  pointsForWin: 2,
+  pointsForTie: 1,
+  pointsForLoss: 0,
+  tiebreakers: ["head_to_head", "differential", "goals_for", "coin_flip"],
+  coinFlipSeed: "league-1",
+};
+
+let day = 1;
+function final(
+  home: string,
+  away: string,
+  homeScore: number,
+  awayScore: number,
+): StandingsGame {
+  return {
+    homeLeagueTeamId: home,
+    awayLeagueTeamId: away,
+    status: "final",
+    homeScore,
+    awayScore,
+    forfeitedByLeagueTeamId: null,
+    startsAt: new Date(Date.UTC(2026, 2, day++, 9)),
+  };
+}
+
+describe("computeStandings", () => {
+  it("tallies results, points, differential and streaks", () => {
+    const rows = computeStandings(
+      teams,
+      [final("a", "b", 3, 1), final("a", "c", 2, 2), final("b", "a", 0, 4)],
+      config,
+    );
+    const hawks = rows.find((r) => r.leagueTeamId === "a")!;
+    expect(hawks).toMatchObject({
+      rank: 1,
+      played: 3,
+      wins: 2,
+      losses: 0,
+      ties: 1,
+      pointsFor: 9,
+      pointsAgainst: 3,
+      differential: 6,
+      points: 5,
+      streak: "W1",
+    });
+    expect(rows.find((r) => r.leagueTeamId === "b")).toMatchObject({
+      losses: 2,
+      streak: "L2",
+    });
+    expect(rows.find((r) => r.leagueTeamId === "d")).toMatchObject({
+      played: 0,
+      points: 0,
+      streak: null,
+    });
+  });
+
+  it("uses the league's points per result", () => {
+    const rows = computeStandings(teams.slice(0, 2), [final("a", "b", 1, 1)], {
+      ...config,
+      pointsForWin: 3,
+      pointsForTie: 1,
+      pointsForLoss: 1,
+    });
+    expect(rows.map((r) => r.points)).toEqual([1, 1]);
+  });
+
+  it("counts a forfeit as a win for the other side without a score", () => {
+    const rows = computeStandings(
+      teams.slice(0, 2),
+      [
+        {
+          ...final("a", "b", 0, 0),
+          status: "forfeit",
+          homeScore: null,
+          awayScore: null,
+          forfeitedByLeagueTeamId: "a",
+        },
+      ],
+      config,
+    );
+    expect(rows[0]).toMatchObject({ leagueTeamId: "b", wins: 1, pointsFor: 0 });
+    expect(rows[1]).toMatchObject({ leagueTeamId: "a", losses: 1 });
+  });
+
+  it("breaks ties by head-to-head before differential", () => {
+    // Owls beat Hawks, but Hawks have the better differential.
+    const games = [
+      final("b", "a", 1, 0),
+      final("a", "c", 9, 0),
+      final("c", "b", 1, 0),
+    ];
+    const rows = computeStandings(teams.slice(0, 3), games, config);
+    // All three are on 2 points and head-to-head is a three-way tie, so differential decides.
+    expect(rows.map((r) => r.leagueTeamId)).toEqual(["a", "b", "c"]);
+    expect(rows[0].decidedBy).toBe("differential");
+
+    const twoWay = computeStandings(
+      teams.slice(0, 3),
+      games.slice(0, 2),
+      config,
+    );
+    // Hawks and Owls on 2 points each; Owls won the meeting.
+    expect(twoWay.map((r) => r.leagueTeamId)).toEqual(["b", "a", "c"]);
+    expect(twoWay[0].decidedBy).toBe("head_to_head");
+  });
+
+  it("follows the configured tiebreaker order", () => {
+    const games = [final("b", "a", 1, 0), final("a", "c", 9, 0)];
+    const rows = computeStandings(teams.slice(0, 3), games, {
+      ...config,
+      tiebreakers: ["differential", "head_to_head"],
+    });
+    expect(rows.map((r) => r.leagueTeamId)).toEqual(["a", "b", "c"]);
+    expect(rows[0].decidedBy).toBe("differential");
+  });
+
+  it("flips the same coin for the same seed", () => {
+    const coinOnly = { ...config, tiebreakers: ["coin_flip" as const] };
+    const first = computeStandings(teams, [], coinOnly).map(
+      (r) => r.leagueTeamId,
+    );
+    expect(
+      computeStandings(teams, [], coinOnly).map((r) => r.leagueTeamId),
+    ).toEqual(first);
+    expect(
+      computeStandings(teams, [], { ...config, tiebreakers: [] }).map(
+        (r) => r.name,
+      ),
+    ).toEqual(["Crows", "Hawks", "Jays", "Owls"]);
+  });
+});
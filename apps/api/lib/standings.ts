@@ -0,0 +1,258 @@
+/**
+ * @file League standings: wins, losses, ties, points for/against, differential and streaks,
+ * ranked by standings points and then the league's tiebreakers.
+ *
+ * Pure functions, no database access: the organization router loads the league's teams and
+ * decided games and passes them in.
+ */
+
+import type { StandingsTiebreaker } from "@repo/db";
+
+/** A decided game: final with a score, or forfeited. Other statuses are left out by the caller. */
+export type StandingsGame = {
+  homeLeagueTeamId: string;
+  awayLeagueTeamId: string;
+  status: "final" | "forfeit";
+  homeScore: number | null;
+  awayScore: number | null;
+  /** Side that forfeited, when status is "forfeit". */
+  forfeitedByLeagueTeamId: string | null;
+  startsAt: Date;
+};
+
+export type StandingsTeam = {
+  leagueTeamId: string;
+  name: string;
+};
+
+export type StandingsConfig = {
+  pointsForWin: number;
+  pointsForTie: number;
+  pointsForLoss: number;
+  tiebreakers: StandingsTiebreaker[];
+  /** Seeds the coin flip so the same league always breaks the same tie the same way. */
+  coinFlipSeed: string;
+};
+
+export type StandingsRow = {
+  leagueTeamId: string;
+  name: string;
+  /** 1-based position. */
+  rank: number;
+  played: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  differential: number;
+  /** Standings points. */
+  points: number;
+  /** Current run of identical results, most recent game first, e.g. "W3". Null before any result. */
+  streak: string | null;
+  /** Tiebreaker that separated this team from the team below it, when they were level on points. */
+  decidedBy: StandingsTiebreaker | null;
+};
+
+type Outcome = "W" | "L" | "T";
+
+/** Outcome for each side, and the score counted toward points for/against (forfeits count no score). */
+function getGameOutcome(g: StandingsGame): {
+  home: Outcome;
+  away: Outcome;
+  homeScore: number;
+  awayScore: number;
+} | null {
+  if (g.status === "forfeit") {
+    if (g.forfeitedByLeagueTeamId === g.homeLeagueTeamId) {
+      return { home: "L", away: "W", homeScore: 0, awayScore: 0 };
+    }
+    if (g.forfeitedByLeagueTeamId === g.awayLeagueTeamId) {
+      return { home: "W", away: "L", homeScore: 0, awayScore: 0 };
+    }
+    return null;
+  }
+  if (g.homeScore == null || g.awayScore == null) return null;
+  const home: Outcome =
+    g.homeScore > g.awayScore ? "W" : g.homeScore < g.awayScore ? "L" : "T";
+  const away: Outcome = home === "W" ? "L" : home === "L" ? "W" : "T";
+  return { home, away, homeScore: g.homeScore, awayScore: g.awayScore };
+}
+
+/** Deterministic 32-bit hash (FNV-1a) for the seeded coin flip. */
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+type Tally = Omit<StandingsRow, "rank" | "streak" | "decidedBy">;
+
+/** Standings points each team earned in games among `ids` only. */
+function headToHeadPoints(
+  ids: Set<string>,
+  games: {
+    g: StandingsGame;
+    outcome: NonNullable<ReturnType<typeof getGameOutcome>>;
+  }[],
+  config: StandingsConfig,
+): Map<string, number> {
+  const points = new Map<string, number>();
+  const award = (outcome: Outcome) =>
+    outcome === "W"
+      ? config.pointsForWin
+      : outcome === "T"
+        ? config.pointsForTie
+        : config.pointsForLoss;
+  for (const { g, outcome } of games) {
+    if (!ids.has(g.homeLeagueTeamId) || !ids.has(g.awayLeagueTeamId)) continue;
+    points.set(
+      g.homeLeagueTeamId,
+      (points.get(g.homeLeagueTeamId) ?? 0) + award(outcome.home),
+    );
+    points.set(
+      g.awayLeagueTeamId,
+      (points.get(g.awayLeagueTeamId) ?? 0) + award(outcome.away),
+    );
+  }
+  return points;
+}
+
+/** Compute and rank a league's standings. Teams without results are included with zeros. */
+export function computeStandings(
+  teams: StandingsTeam[],
+  games: StandingsGame[],
+  config: StandingsConfig,
+): StandingsRow[] {
+  const tallies = new Map<string, Tally>(
+    teams.map((t) => [
+      t.leagueTeamId,
+      {
+        leagueTeamId: t.leagueTeamId,
+        name: t.name,
+        played: 0,
+        wins: 0,
+        losses: 0,
+        ties: 0,
+        pointsFor: 0,
+        pointsAgainst: 0,
+        differential: 0,
+        points: 0,
+      },
+    ]),
+  );
+  const results = new Map<string, Outcome[]>(
+    teams.map((t) => [t.leagueTeamId, []]),
+  );
+  const decided = [...games]
+    .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())
+    .flatMap((g) => {
+      const outcome = getGameOutcome(g);
+      return outcome ? [{ g, outcome }] : [];
+    });
+
+  for (const { g, outcome } of decided) {
+    const sides = [
+      [g.homeLeagueTeamId, outcome.home, outcome.homeScore, outcome.awayScore],
+      [g.awayLeagueTeamId, outcome.away, outcome.awayScore, outcome.homeScore],
+    ] as const;
+    for (const [id, result, scored, conceded] of sides) {
+      const tally = tallies.get(id);
+      if (!tally) continue;
+      tally.played += 1;
+      if (result === "W") tally.wins += 1;
+      else if (result === "L") tally.losses += 1;
+      else tally.ties += 1;
+      tally.pointsFor += scored;
+      tally.pointsAgainst += conceded;
+      results.get(id)!.push(result);
+    }
+  }
+  for (const tally of tallies.values()) {
+    tally.differential = tally.pointsFor - tally.pointsAgainst;
+    tally.points =
+      tally.wins * config.pointsForWin +
+      tally.ties * config.pointsForTie +
+      tally.losses * config.pointsForLoss;
+  }
+
+  /** Value to sort a tied group by (higher ranks first) for one tiebreaker. */
+  const keyFor = (
+    tiebreaker: StandingsTiebreaker,
+    group: Tally[],
+  ): ((t: Tally) => number) => {
+    switch (tiebreaker) {
+      case "head_to_head": {
+        const points = headToHeadPoints(
+          new Set(group.map((t) => t.leagueTeamId)),
+          decided,
+          config,
+        );
+        return (t) => points.get(t.leagueTeamId) ?? 0;
+      }
+      case "differential":
+        return (t) => t.differential;
+      case "goals_for":
+        return (t) => t.pointsFor;
+      case "coin_flip":
+        return (t) => hash(`${config.coinFlipSeed}:${t.leagueTeamId}`);
+    }
+  };
+
+  const ordered: { tally: Tally; decidedBy: StandingsTiebreaker | null }[] = [];
+  /** Order a group of teams level on everything before `tiebreakers[index]`. */
+  const breakTie = (group: Tally[], index: number) => {
+    if (group.length === 1 || index >= config.tiebreakers.length) {
+      for (const tally of [...group].sort((a, b) =>
+        a.name.localeCompare(b.name),
+      )) {
+        ordered.push({ tally, decidedBy: null });
+      }
+      return;
+    }
+    const tiebreaker = config.tiebreakers[index];
+    const key = keyFor(tiebreaker, group);
+    const sorted = [...group].sort((a, b) => key(b) - key(a));
+    let start = 0;
+    while (start < sorted.length) {
+      let end = start + 1;
+      while (end < sorted.length && key(sorted[end]) === key(sorted[start]))
+        end += 1;
+      breakTie(sorted.slice(start, end), index + 1);
+      // The last team of a subgroup was separated from the next subgroup by this tiebreaker.
+      if (end < sorted.length)
+        ordered[ordered.length - 1].decidedBy = tiebreaker;
+      start = end;
+    }
+  };
+
+  const byPoints = [...tallies.values()].sort((a, b) => b.points - a.points);
+  let start = 0;
+  while (start < byPoints.length) {
+    let end = start + 1;
+    while (
+      end < byPoints.length &&
+      byPoints[end].points === byPoints[start].points
+    )
+      end += 1;
+    breakTie(byPoints.slice(start, end), 0);
+    start = end;
+  }
+
+  return ordered.map(({ tally, decidedBy }, i) => {
+    const teamResults = results.get(tally.leagueTeamId) ?? [];
+    const last = teamResults[teamResults.length - 1];
+    let run = 0;
+    for (let j = teamResults.length - 1; j >= 0 && teamResults[j] === last; j--)
+      run += 1;
+    return {
+      ...tally,
+      rank: i + 1,
+      streak: last ? `${last}${run}` : null,
+      decidedBy,
+    };
+  });
+}
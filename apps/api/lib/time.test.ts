@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDays,
+  formatZonedDateTime,
+  getWeekday,
+  getZonedParts,
+  isValidTimeZone,
+  minutesToTime,
+  timeToMinutes,
+  zonedTimeToInstant,
+} from "./time";
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones and rejects unknown names", () => {
+    expect(isValidTimeZone("America/New_York")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
+
+describe("zonedTimeToInstant", () => {
+  it("converts wall-clock time using the offset in effect on that date", () => {
+    expect(
+      zonedTimeToInstant(
+        "2026-01-15",
+        "09:00",
+        "America/New_York",
+      ).toISOString(),
+    ).toBe("2026-01-15T14:00:00.000Z");
+    expect(
+      zonedTimeToInstant(
+        "2026-07-15",
+        "09:00",
+        "America/New_York",
+      ).toISOString(),
+    ).toBe("2026-07-15T13:00:00.000Z");
+  });
+
+  it("moves times skipped by spring-forward to just after the gap", () => {
+    // 2026-03-08 02:30 does not exist in New York; clocks jump 02:00 → 03:00.
+    expect(
+      zonedTimeToInstant(
+        "2026-03-08",
+        "02:30",
+        "America/New_York",
+      ).toISOString(),
+    ).toBe("2026-03-08T07:30:00.000Z");
+  });
+
+  it("resolves fall-back ambiguity to the earlier instant", () => {
+    // 2026-11-01 01:30 happens twice in New York; first is EDT (UTC-4).
+    expect(
+      zonedTimeToInstant(
+        "2026-11-01",
+        "01:30",
+        "America/New_York",
+      ).toISOString(),
+    ).toBe("2026-11-01T05:30:00.000Z");
+  });
+
+  it("handles zones east of UTC across the date line", () => {
+    expect(
+      zonedTimeToInstant(
+        "2026-06-01",
+        "08:00",
+        "Pacific/Auckland",
+      ).toISOString(),
+    ).toBe("2026-05-31T20:00:00.000Z");
+  });
+});
+
+describe("getZonedParts", () => {
+  it("returns wall-clock date, time and weekday in the zone", () => {
+    expect(
+      getZonedParts(new Date("2026-03-08T03:30:00Z"), "America/Los_Angeles"),
+    ).toEqual({ date: "2026-03-07", time: "19:30", weekday: 6 });
+  });
+
+  it("round-trips with zonedTimeToInstant", () => {
+    const instant = zonedTimeToInstant("2026-10-25", "18:45", "Europe/London");
+    expect(getZonedParts(instant, "Europe/London")).toMatchObject({
+      date: "2026-10-25",
+      time: "18:45",
+    });
+  });
+});
+
+describe("date and time helpers", () => {
+  it("adds days across month and year boundaries", () => {
+    expect(addDays("2026-01-31", 1)).toBe("2026-02-01");
+    expect(addDays("2026-12-31", 1)).toBe("2027-01-01");
+    expect(addDays("2026-03-01", -1)).toBe("2026-02-28");
+  });
+
+  it("returns the weekday of a date", () => {
+    expect(getWeekday("2026-03-07")).toBe(6);
+    expect(getWeekday("2026-03-08")).toBe(0);
+  });
+
+  it("converts between HH:mm and minutes", () => {
+    expect(timeToMinutes("09:30")).toBe(570);
+    expect(minutesToTime(570)).toBe("09:30");
+    expect(minutesToTime(0)).toBe("00:00");
+  });
+});
+
+describe("formatZonedDateTime", () => {
+  it("formats the wall-clock time in the given zone", () => {
+    const instant = new Date("2026-03-07T15:00:00Z");
+    expect(formatZonedDateTime(instant, "America/Chicago")).toBe(
+      "Sat, Mar 7, 2026, 9:00 AM CST",
+    );
+    expect(formatZonedDateTime(instant, "UTC")).toBe(
+      "Sat, Mar 7, 2026, 3:00 PM UTC",
+    );
+  });
+});
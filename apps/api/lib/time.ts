@@ -0,0 +1,141 @@
+/**
+ * @file Wall-clock ↔ instant conversion for IANA time zones (DST aware), using Intl only.
+ */
+
+/** True when `timeZone` is an IANA zone name the runtime understands. */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock parts of an instant in a time zone. */
+export type ZonedParts = {
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:mm (24h) */
+  time: string;
+  /** 0 = Sunday … 6 = Saturday */
+  weekday: number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Offset of `timeZone` from UTC at `instant`, in milliseconds (e.g. -4h for New York in summer). */
+function getOffsetMs(instant: Date, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const p of getFormatter(timeZone).formatToParts(instant)) {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  }
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return asUtc - (instant.getTime() - instant.getMilliseconds());
+}
+
+/** Wall-clock date, time and weekday of `instant` in `timeZone`. */
+export function getZonedParts(instant: Date, timeZone: string): ZonedParts {
+  const local = new Date(instant.getTime() + getOffsetMs(instant, timeZone));
+  const iso = local.toISOString();
+  return {
+    date: iso.slice(0, 10),
+    time: iso.slice(11, 16),
+    weekday: local.getUTCDay(),
+  };
+}
+
+/**
+ * Instant at which the wall clock in `timeZone` reads `date` `time`.
+ * Times skipped by a DST jump resolve to the instant just after the gap;
+ * ambiguous times (clocks falling back) resolve to the earlier instant.
+ */
+export function zonedTimeToInstant(
+  date: string,
+  time: string,
+  timeZone: string,
+): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallAsUtc = Date.UTC(year, month - 1, day, hour, minute ?? 0);
+  // Try the offsets in effect just before and after the wall time; prefer the earlier match.
+  const candidates = [
+    getOffsetMs(new Date(wallAsUtc - 24 * 60 * 60 * 1000), timeZone),
+    getOffsetMs(new Date(wallAsUtc + 24 * 60 * 60 * 1000), timeZone),
+  ]
+    .map((offset) => wallAsUtc - offset)
+    .sort((a, b) => a - b);
+  for (const candidate of candidates) {
+    if (getOffsetMs(new Date(candidate), timeZone) === wallAsUtc - candidate) {
+      return new Date(candidate);
+    }
+  }
+  // Wall time falls in a DST gap: shift forward by the size of the gap.
+  return new Date(candidates[1]);
+}
+
+/** Add `days` to a YYYY-MM-DD date string. */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10);
+}
+
+/** Weekday (0 = Sunday … 6 = Saturday) of a YYYY-MM-DD date string. */
+export function getWeekday(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/** Minutes since midnight for an HH:mm string. */
+export function timeToMinutes(time: string): number {
+  const [hour, minute] = time.split(":").map(Number);
+  return (hour ?? 0) * 60 + (minute ?? 0);
+}
+
+/** HH:mm string for minutes since midnight. */
+export function minutesToTime(minutes: number): string {
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  return `${hour.toString().padStart(2, "0")}:${minute.toString().padStart(2, "0")}`;
+}
+
+/** Human-readable date and time of `instant` in `timeZone`, e.g. "Sat, Mar 7, 2026, 9:00 AM CST". */
+export function formatZonedDateTime(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  }).format(instant);
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+  assignPools,
+  buildTournamentFixtures,
+  resolveTournamentKnockout,
+  scheduleTournamentFixtures,
+  type TournamentGameState,
+} from "./tournament-schedule";
+
+describe("assignPools", () => {
+  it("snakes seeds across pools", () => {
+    expect(assignPools(["1", "2", "3", "4", "5", "6"], 2)).toEqual([
+      ["1", "4", "5"],
+      ["2", "3", "6"],
+    ]);
+  });
+});
+
+describe("buildTournamentFixtures", () => {
+  it("plays a round robin per pool and crosses pools over in the knockout", () => {
+    const fixtures = buildTournamentFixtures(
+      [
+        ["a1", "a2", "a3"],
+        ["b1", "b2", "b3"],
+      ],
+      2,
+    );
+    expect(fixtures.filter((f) => f.stage === "pool")).toHaveLength(6);
+    const knockout = fixtures.filter((f) => f.stage === "knockout");
+    expect(knockout.map((f) => [f.key, f.homeSource, f.awaySource])).toEqual([
+      ["K1-0", "A1", "B2"],
+      ["K1-1", "B1", "A2"],
+      ["K2-0", "K1-0", "K1-1"],
+    ]);
+    expect(knockout[2].after).toEqual(["K1-0", "K1-1"]);
+  });
+
+  it("gives the top qualifiers byes into the second round", () => {
+    const knockout = buildTournamentFixtures(
+      [
+        ["a1", "a2"],
+        ["b1", "b2"],
+        ["c1", "c2"],
+      ],
+      1,
+    ).filter((f) => f.stage === "knockout");
+    // Three qualifiers: A1 has a bye and meets the winner of B1 vs C1.
+    expect(knockout.map((f) => [f.key, f.homeSource, f.awaySource])).toEqual([
+      ["K1-1", "B1", "C1"],
+      ["K2-0", "A1", "K1-1"],
+    ]);
+  });
+});
+
+describe("scheduleTournamentFixtures", () => {
+  const slots = ["09:00", "10:00", "11:00", "12:00"].flatMap((startTime) =>
+    ["s1", "s2"].map((surfaceId) => ({
+      date: "2026-06-06",
+      startTime,
+      endTime: `${String(Number(startTime.slice(0, 2)) + 1).padStart(2, "0")}:00`,
+      surfaceId,
+    })),
+  );
+
+  it("keeps the minimum rest between a team's games", () => {
+    const { placed, unscheduled } = scheduleTournamentFixtures(
+      [
+        { key: "g1", home: "a", away: "b", after: [] },
+        { key: "g2", home: "a", away: "c", after: [] },
+        { key: "g3", home: "d", away: "e", after: [] },
+      ],
+      slots,
+      60,
+    );
+    expect(unscheduled).toEqual([]);
+    expect(placed.get("g1")).toMatchObject({
+      startTime: "09:00",
+      surfaceId: "s1",
+    });
+    // Team a finishes at 10:00 and needs an hour off, so g3 takes the other 09:00 slot.
+    expect(placed.get("g3")).toMatchObject({
+      startTime: "09:00",
+      surfaceId: "s2",
+    });
+    expect(placed.get("g2")).toMatchObject({ startTime: "11:00" });
+  });
+
+  it("waits for earlier games and reports what does not fit", () => {
+    const { placed, unscheduled } = scheduleTournamentFixtures(
+      [
+        { key: "g1", home: "a", away: "b", after: [] },
+        { key: "k1", home: null, away: null, after: ["g1"] },
+        { key: "k2", home: null, away: null, after: ["k1"] },
+      ],
+      slots.filter((s) => s.surfaceId === "s1").slice(0, 3),
+      30,
+    );
+    expect(placed.get("k1")).toMatchObject({ startTime: "11:00" });
+    expect(unscheduled).toEqual(["k2"]);
+  });
+});
+
+describe("resolveTournamentKnockout", () => {
+  const game = (
+    g: Partial<TournamentGameState> & { key: string },
+  ): TournamentGameState => ({
+    homeSource: null,
+    awaySource: null,
+    homeTeamId: null,
+    awayTeamId: null,
+    status: "scheduled",
+    homeScore: null,
+    awayScore: null,
+    ...g,
+  });
+
+  it("fills sides from pool placements and knockout winners", () => {
+    const games = [
+      game({
+        key: "K1-0",
+        homeSource: "A1",
+        awaySource: "B2",
+        status: "final",
+        homeScore: 1,
+        awayScore: 2,
+      }),
+      game({ key: "K1-1", homeSource: "B1", awaySource: "A2" }),
+      game({ key: "K2-0", homeSource: "K1-0", awaySource: "K1-1" }),
+    ];
+    expect(resolveTournamentKnockout(games, null).get("K1-0")).toEqual({
+      home: null,
+      away: null,
+    });
+    const placements = new Map([
+      ["A1", "a1"],
+      ["A2", "a2"],
+      ["B1", "b1"],
+      ["B2", "b2"],
+    ]);
+    const resolved = resolveTournamentKnockout(games, placements);
+    expect(resolved.get("K1-1")).toEqual({ home: "b1", away: "a2" });
+    expect(resolved.get("K2-0")).toEqual({ home: "b2", away: null });
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * @file Tournament structure and compressed scheduling: pools, pool round robins, the knockout
+ * crossover and placement of every game on surface slots with a minimum rest between games.
+ *
+ * Pure functions, no database access: the organization router builds and schedules a tournament
+ * from these, and lib/tournaments.ts fills knockout games as results come in.
+ */
+
+import type { StandingsTiebreaker } from "@repo/db";
+import {
+  buildPlayoffBracket,
+  resolvePlayoffBracket,
+} from "./playoff-bracket.js";
+import { buildRoundRobinRounds } from "./round-robin.js";
+import { computeStandings, type StandingsRow } from "./standings.js";
+import { timeToMinutes } from "./time.js";
+
+/** Pool standings: 2 points for a win, 1 for a tie, then head-to-head, differential and points for. */
+export const TOURNAMENT_POOL_STANDINGS = {
+  pointsForWin: 2,
+  pointsForTie: 1,
+  pointsForLoss: 0,
+  tiebreakers: [
+    "head_to_head",
+    "differential",
+    "goals_for",
+    "coin_flip",
+  ] as StandingsTiebreaker[],
+};
+
+/** "A", "B"… for pool index 0, 1… */
+export function getPoolLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/**
+ * Spread seeded teams over pools in snake order (A B C C B A…), so every pool gets a similar
+ * mix of strong and weak teams. `teamIds` is in seed order.
+ */
+export function assignPools(teamIds: string[], poolCount: number): string[][] {
+  const pools: string[][] = Array.from({ length: poolCount }, () => []);
+  teamIds.forEach((id, index) => {
+    const lap = Math.floor(index / poolCount);
+    const offset = index % poolCount;
+    pools[lap % 2 === 0 ? offset : poolCount - 1 - offset].push(id);
+  });
+  return pools;
+}
+
+/** One tournament game as generated. Knockout sides hold a source until their team is known. */
+export type TournamentFixturePlan = {
+  key: string;
+  stage: "pool" | "knockout";
+  /** Pool index of a pool game. */
+  poolIndex: number | null;
+  round: number;
+  position: number;
+  home: string | null;
+  away: string | null;
+  /** "A1" = winner of pool A, "B2" = runner-up of pool B, "K1-0" = winner of that knockout game. */
+  homeSource: string | null;
+  awaySource: string | null;
+  /** Games that must be over (plus rest) before this one starts. */
+  after: string[];
+};
+
+/**
+ * Pool round robins (rounds interleaved across pools, so pools progress together) followed by
+ * a single-elimination knockout of the top `advancePerPool` teams of every pool. Qualifiers are
+ * seeded by placing, then pool (A1, B1, A2, B2…), which crosses pools over in the first round.
+ * Top qualifiers get byes when the qualifier count is not a power of two.
+ */
+export function buildTournamentFixtures(
+  pools: string[][],
+  advancePerPool: number,
+): TournamentFixturePlan[] {
+  const poolFixtures: TournamentFixturePlan[] = [];
+  const roundsByPool = pools.map((teams) =>
+    buildRoundRobinRounds(teams, "single"),
+  );
+  const maxRounds = Math.max(0, ...roundsByPool.map((rounds) => rounds.length));
+  for (let round = 1; round <= maxRounds; round++) {
+    roundsByPool.forEach((rounds, poolIndex) => {
+      rounds[round - 1]?.pairings.forEach((p, position) => {
+        poolFixtures.push({
+          key: `${getPoolLetter(poolIndex)}-${round}-${position}`,
+          stage: "pool",
+          poolIndex,
+          round,
+          position,
+          home: p.home,
+          away: p.away,
+          homeSource: null,
+          awaySource: null,
+          after: [],
+        });
+      });
+    });
+  }
+
+  const qualifiers: string[] = [];
+  for (let place = 1; place <= advancePerPool; place++) {
+    pools.forEach((_, poolIndex) =>
+      qualifiers.push(`${getPoolLetter(poolIndex)}${place}`),
+    );
+  }
+  if (qualifiers.length < 2) return poolFixtures;
+
+  const plan = buildPlayoffBracket(qualifiers.length, "single_elimination");
+  const resolved = resolvePlayoffBracket(
+    plan.map((m) => ({
+      key: m.key,
+      homeSource: m.homeSource,
+      awaySource: m.awaySource,
+      homeSeededLeagueTeamId:
+        m.homeSeed == null ? null : qualifiers[m.homeSeed - 1],
+      awaySeededLeagueTeamId:
+        m.awaySeed == null ? null : qualifiers[m.awaySeed - 1],
+      gameWinnerLeagueTeamId: null,
+    })),
+  );
+  const poolKeys = poolFixtures.map((f) => f.key);
+  // A bye passes its qualifier straight on; otherwise the side waits for the game's winner.
+  const sourceOf = (key: string) => {
+    const match = resolved.get(key)!;
+    return match.walkover ? match.winner! : key.replace(/^W/, "K");
+  };
+  const knockout = plan
+    .filter((m) => !resolved.get(m.key)!.walkover)
+    .map((m): TournamentFixturePlan => {
+      const home = m.homeSource
+        ? sourceOf(m.homeSource.key)
+        : qualifiers[m.homeSeed! - 1];
+      const away = m.awaySource
+        ? sourceOf(m.awaySource.key)
+        : qualifiers[m.awaySeed! - 1];
+      const after = [home, away].flatMap((source) =>
+        source.startsWith("K") ? [source] : poolKeys,
+      );
+      return {
+        key: m.key.replace(/^W/, "K"),
+        stage: "knockout",
+        poolIndex: null,
+        round: m.round,
+        position: m.position,
+        home: null,
+        away: null,
+        homeSource: home,
+        awaySource: away,
+        after: [...new Set(after)],
+      };
+    });
+  return [...poolFixtures, ...knockout];
+}
+
+/** A surface slot on a playing day; times are wall-clock HH:mm. */
+export type TournamentSlot = {
+  date: string;
+  startTime: string;
+  endTime: string;
+  surfaceId: string;
+};
+
+/** Minutes since the epoch of a wall-clock date and time, for ordering and rest arithmetic. */
+function toMinutes(date: string, time: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / 60_000 + timeToMinutes(time);
+}
+
+/**
+ * Place fixtures on slots as early as possible, in fixture order. A fixture can start once every
+ * game in its `after` list and each of its teams' previous games ended at least `minRestMinutes`
+ * earlier. Fixtures left without a slot are returned as `unscheduled`.
+ */
+export function scheduleTournamentFixtures(
+  fixtures: Pick<TournamentFixturePlan, "key" | "home" | "away" | "after">[],
+  slots: TournamentSlot[],
+  minRestMinutes: number,
+): { placed: Map<string, TournamentSlot>; unscheduled: string[] } {
+  const ordered = [...slots].sort(
+    (a, b) =>
+      toMinutes(a.date, a.startTime) - toMinutes(b.date, b.startTime) ||
+      a.surfaceId.localeCompare(b.surfaceId),
+  );
+  const placed = new Map<string, TournamentSlot>();
+  const endsAt = new Map<string, number>();
+  const teamFreeAt = new Map<string, number>();
+  const pending = [...fixtures];
+
+  for (const slot of ordered) {
+    if (pending.length === 0) break;
+    const start = toMinutes(slot.date, slot.startTime);
+    const index = pending.findIndex((f) => {
+      const waits = f.after.every((key) => {
+        const end = endsAt.get(key);
+        return end != null && end + minRestMinutes <= start;
+      });
+      const rested = [f.home, f.away].every(
+        (team) => team == null || (teamFreeAt.get(team) ?? -Infinity) <= start,
+      );
+      return waits && rested;
+    });
+    if (index === -1) continue;
+    const [fixture] = pending.splice(index, 1);
+    const end = toMinutes(slot.date, slot.endTime);
+    placed.set(fixture.key, slot);
+    endsAt.set(fixture.key, end);
+    for (const team of [fixture.home, fixture.away]) {
+      if (team != null) teamFreeAt.set(team, end + minRestMinutes);
+    }
+  }
+  return { placed, unscheduled: pending.map((f) => f.key) };
+}
+
+/** A final pool game, for pool standings. */
+export type PoolGameResult = {
+  poolId: string;
+  homeTeamId: string;
+  awayTeamId: string;
+  homeScore: number | null;
+  awayScore: number | null;
+  startsAt: Date;
+};
+
+/** Standings of every pool from its final games, keyed by pool id. */
+export function computePoolStandings(
+  pools: { id: string }[],
+  teams: { id: string; poolId: string; name: string }[],
+  games: PoolGameResult[],
+  coinFlipSeed: string,
+): Map<string, StandingsRow[]> {
+  return new Map(
+    pools.map((pool) => [
+      pool.id,
+      computeStandings(
+        teams
+          .filter((t) => t.poolId === pool.id)
+          .map((t) => ({ leagueTeamId: t.id, name: t.name })),
+        games
+          .filter((g) => g.poolId === pool.id)
+          .map((g) => ({
+            homeLeagueTeamId: g.homeTeamId,
+            awayLeagueTeamId: g.awayTeamId,
+            status: "final" as const,
+            homeScore: g.homeScore,
+            awayScore: g.awayScore,
+            forfeitedByLeagueTeamId: null,
+            startsAt: g.startsAt,
+          })),
+        { ...TOURNAMENT_POOL_STANDINGS, coinFlipSeed },
+      ),
+    ]),
+  );
+}
+
+/** Pool placements by label ("A1" = first in pool A). `pools` is in pool order. */
+export function getPoolPlacements(
+  pools: { id: string }[],
+  standings: Map<string, StandingsRow[]>,
+): Map<string, string> {
+  const placements = new Map<string, string>();
+  pools.forEach((pool, index) => {
+    for (const row of standings.get(pool.id) ?? []) {
+      placements.set(`${getPoolLetter(index)}${row.rank}`, row.leagueTeamId);
+    }
+  });
+  return placements;
+}
+
+/** A tournament game's current state, as needed to fill knockout sides. */
+export type TournamentGameState = {
+  key: string;
+  homeSource: string | null;
+  awaySource: string | null;
+  homeTeamId: string | null;
+  awayTeamId: string | null;
+  status: string;
+  homeScore: number | null;
+  awayScore: number | null;
+};
+
+/** Winner of a final game; null while it is unfinished or tied. */
+export function getTournamentGameWinner(g: TournamentGameState): string | null {
+  if (g.status !== "final" || g.homeScore == null || g.awayScore == null)
+    return null;
+  if (g.homeScore === g.awayScore) return null;
+  return g.homeScore > g.awayScore ? g.homeTeamId : g.awayTeamId;
+}
+
+/**
+ * Teams of every knockout side. Pool placements ("A1") are filled once `placements` is given
+ * (after the last pool game); game sources ("K1-0") once that game has a winner. Sides still
+ * undecided are null.
+ */
+export function resolveTournamentKnockout(
+  games: TournamentGameState[],
+  placements: Map<string, string> | null,
+): Map<string, { home: string | null; away: string | null }> {
+  const byKey = new Map(games.map((g) => [g.key, g]));
+  const resolved = new Map<
+    string,
+    { home: string | null; away: string | null }
+  >();
+
+  const teamFor = (source: string): string | null => {
+    const sourceGame = byKey.get(source);
+    if (!sourceGame) return placements?.get(source) ?? null;
+    const sides = resolve(sourceGame);
+    return getTournamentGameWinner({
+      ...sourceGame,
+      homeTeamId: sides.home,
+      awayTeamId: sides.away,
+    });
+  };
+  const resolve = (g: TournamentGameState) => {
+    const cached = resolved.get(g.key);
+    if (cached) return cached;
+    const sides = {
+      home: g.homeSource ? teamFor(g.homeSource) : g.homeTeamId,
+      away: g.awaySource ? teamFor(g.awaySource) : g.awayTeamId,
+    };
+    resolved.set(g.key, sides);
+    return sides;
+  };
+
+  for (const g of games) resolve(g);
+  return resolved;
+}
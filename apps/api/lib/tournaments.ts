@@ -0,0 +1,111 @@
+/**
+ * @file Tournament knockout advancement.
+ *
+ * Every recorded tournament result runs `syncTournamentKnockout` in the same transaction: once
+ * the last pool game is final the pool placements fill the first knockout round, and each
+ * knockout winner fills the game it feeds. A result change that would replace a team in a
+ * knockout game already under way is reported back instead.
+ */
+
+import {
+  team,
+  tournamentGame,
+  tournamentPool,
+  tournamentTeam,
+  type DatabaseSchema,
+} from "@repo/db";
+import { asc, eq } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import {
+  computePoolStandings,
+  getPoolPlacements,
+  resolveTournamentKnockout,
+} from "./tournament-schedule.js";
+
+type Transaction = Parameters<
+  Parameters<PostgresJsDatabase<DatabaseSchema>["transaction"]>[0]
+>[0];
+
+/** Fill knockout sides from the results so far. Returns the keys of knockout games that could not change because they have started. */
+export async function syncTournamentKnockout(
+  tx: Transaction,
+  tournamentId: string,
+): Promise<string[]> {
+  const pools = await tx
+    .select({ id: tournamentPool.id })
+    .from(tournamentPool)
+    .where(eq(tournamentPool.tournamentId, tournamentId))
+    .orderBy(asc(tournamentPool.position));
+  const teams = await tx
+    .select({
+      id: tournamentTeam.id,
+      poolId: tournamentTeam.poolId,
+      name: team.name,
+    })
+    .from(tournamentTeam)
+    .innerJoin(team, eq(team.id, tournamentTeam.teamId))
+    .where(eq(tournamentTeam.tournamentId, tournamentId));
+  const games = await tx
+    .select()
+    .from(tournamentGame)
+    .where(eq(tournamentGame.tournamentId, tournamentId));
+
+  const poolGames = games.filter((g) => g.stage === "pool");
+  const poolsFinished = poolGames.every((g) => g.status === "final");
+  const placements = poolsFinished
+    ? getPoolPlacements(
+        pools,
+        computePoolStandings(
+          pools,
+          teams,
+          poolGames.map((g) => ({
+            poolId: g.poolId!,
+            homeTeamId: g.homeTournamentTeamId!,
+            awayTeamId: g.awayTournamentTeamId!,
+            homeScore: g.homeScore,
+            awayScore: g.awayScore,
+            startsAt: g.startsAt,
+          })),
+          tournamentId,
+        ),
+      )
+    : null;
+  const resolved = resolveTournamentKnockout(
+    games.map((g) => ({
+      key: g.key,
+      homeSource: g.homeSource,
+      awaySource: g.awaySource,
+      homeTeamId: g.homeTournamentTeamId,
+      awayTeamId: g.awayTournamentTeamId,
+      status: g.status,
+      homeScore: g.homeScore,
+      awayScore: g.awayScore,
+    })),
+    placements,
+  );
+
+  const locked: string[] = [];
+  for (const g of games) {
+    if (g.stage !== "knockout") continue;
+    const sides = resolved.get(g.key)!;
+    if (
+      sides.home === g.homeTournamentTeamId &&
+      sides.away === g.awayTournamentTeamId
+    ) {
+      continue;
+    }
+    if (g.status !== "scheduled") {
+      locked.push(g.key);
+      continue;
+    }
+    await tx
+      .update(tournamentGame)
+      .set({
+        homeTournamentTeamId: sides.home,
+        awayTournamentTeamId: sides.away,
+        updatedAt: new Date(),
+      })
+      .where(eq(tournamentGame.id, g.id));
+  }
+  return locked;
+}
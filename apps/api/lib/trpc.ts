@@ -1,5 +1,6 @@
 import { initTRPC, TRPCError, type TRPCProcedureBuilder } from "@trpc/server";
 import { flattenError, ZodError } from "zod";
+import { ScheduleConflictError } from "./conflicts.js";
 import type { TRPCContext } from "./context.js";
 
 const t = initTRPC.context<TRPCContext>().create({
@@ -10,6 +11,10 @@ const t = initTRPC.context<TRPCContext>().create({
         ...shape.data,
         zodError:
           error.cause instanceof ZodError ? flattenError(error.cause) : null,
+        scheduleConflicts:
+          error.cause instanceof ScheduleConflictError
+            ? error.cause.conflicts
+            : null,
       },
     };
   },
@@ -1,18 +1,56 @@
 import {
+  calendarFeed,
+  disciplineRule,
+  division,
   facility,
+  facilityBooking,
+  facilityKiosk,
   facilitySurface,
+  game,
+  gameChange,
+  gameDisciplineIncident,
+  gamePlayerStat,
   invitation,
   league,
   leagueTeam,
+  leagueTeamPlayer,
   member,
   organization,
   organizationPlayer,
+  playerSuspension,
+  playoffBracket,
+  playoffMatch,
+  practiceRequest,
+  practiceSlot,
+  season,
+  STANDINGS_TIEBREAKERS,
   team,
   teamMember,
+  tournament,
+  tournamentGame,
+  tournamentPool,
+  tournamentTeam,
   user,
 } from "@repo/db";
 import { TRPCError } from "@trpc/server";
-import { and, count, eq, gte, ilike, inArray, isNull, lt, ne, or } from "drizzle-orm";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  gte,
+  ilike,
+  inArray,
+  isNull,
+  lt,
+  lte,
+  ne,
+  or,
+  sql,
+} from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import { z } from "zod";
 
 const facilityDayKeys = [
@@ -33,7 +71,171 @@ const facilityOperatingScheduleSchema = z
     ]),
   )
   .optional();
+const gameStatuses = [
+  "scheduled",
+  "in_progress",
+  "final",
+  "postponed",
+  "cancelled",
+  "forfeit",
+  "abandoned",
+] as const;
+/** A team's score in a game or period. */
+const scoreSchema = z.number().int().min(0).max(999);
+const periodScoresSchema = z
+  .array(z.object({ home: scoreSchema, away: scoreSchema }))
+  .max(20, "At most 20 periods");
+const leagueSports = [
+  "soccer",
+  "basketball",
+  "hockey",
+  "baseball",
+  "volleyball",
+  "other",
+] as const;
+/** Standings points awarded per result. */
+const standingsPointsSchema = z.number().int().min(0).max(99);
+/** Teams a division promotes or relegates at season rollover. */
+const divisionMovementCountSchema = z.number().int().min(0).max(20).default(0);
+const calendarFeedScopes = ["team", "league", "facility", "user"] as const;
+const disciplineIncidentTypes = ["yellow_card", "red_card", "ejection"] as const;
+const dateStringSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD format");
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm format");
+/** Dated overrides of a weekly schedule (facility or league). hours null = closed for the range. */
+const scheduleExceptionsSchema = z
+  .array(
+    z
+      .object({
+        startDate: dateStringSchema,
+        endDate: dateStringSchema,
+        hours: z
+          .object({ startTime: timeOfDaySchema, endTime: timeOfDaySchema })
+          .refine((h) => h.startTime < h.endTime, "End time must be after start time")
+          .nullable(),
+        label: z.string().trim().max(100).nullish(),
+      })
+      .refine((e) => e.startDate <= e.endDate, "End date must be on or after the start date"),
+  )
+  .max(200)
+  .nullable()
+  .optional();
+/** Aliases for joining both sides of a game (home/away league_team → team). */
+const homeLeagueTeam = alias(leagueTeam, "home_league_team");
+const awayLeagueTeam = alias(leagueTeam, "away_league_team");
+const homeTeam = alias(team, "home_team");
+const awayTeam = alias(team, "away_team");
+/** Results standings count: entered by staff, or reported by a team admin and confirmed by the other side. */
+const countedResult = or(
+  isNull(game.scoreConfirmation),
+  eq(game.scoreConfirmation, "confirmed"),
+);
+import {
+  canAccessCalendarFeed,
+  getCalendarFeedUrl,
+  signCalendarFeedToken,
+} from "../lib/calendar-feed.js";
+import {
+  findScheduleConflicts,
+  getOperatingHoursConflicts,
+  getOverlapConflicts,
+  loadSurfaceEvents,
+  ScheduleConflictError,
+  type ScheduleConflict,
+  type ScheduleEvent,
+} from "../lib/conflicts.js";
+import {
+  countServedGames,
+  DISCIPLINE_INCIDENT_LABELS,
+  serveGameSuspensions,
+  syncPlayerSuspensions,
+} from "../lib/discipline.js";
+import {
+  computeDivisionStandings,
+  getDivisionMoves,
+} from "../lib/divisions.js";
 import { sendOrganizationInvitation } from "../lib/email.js";
+import {
+  getFacilityKioskUrl,
+  signFacilityKioskToken,
+} from "../lib/facility-kiosk.js";
+import {
+  canChangeGameStatus,
+  canRescheduleGame,
+  describeRejectedTransition,
+  NOTIFYING_GAME_STATUSES,
+  notifyGameChange,
+} from "../lib/game-changes.js";
+import {
+  canRecordGameResult,
+  FINISHED_GAME_STATUSES,
+  getScoreReportBlocker,
+  getScoreResponseBlocker,
+  RESULT_GAME_STATUSES,
+  validateGameScore,
+} from "../lib/game-results.js";
+import {
+  countTeamPlayers,
+  getAddPlayerRosterError,
+  getLeagueRules,
+  getRosterSizeError,
+} from "../lib/league-rules.js";
+import { publishGameEvent } from "../lib/live.js";
+import {
+  requireOrgDivision,
+  requireOrgGame,
+  requireOrgLeague,
+  requireOrgMember,
+  requireTeamManager,
+} from "../lib/org-access.js";
+import {
+  PLAYER_STAT_DEFINITIONS,
+  validatePlayerStatLines,
+  type PlayerStatDefinition,
+} from "../lib/player-stats.js";
+import {
+  buildPlayoffBracket,
+  isPowerOfTwo,
+  planPlayoffSlots,
+  resolvePlayoffBracket,
+  type PlannedPlayoffSlot,
+} from "../lib/playoff-bracket.js";
+import { syncPlayoffBracket } from "../lib/playoffs.js";
+import {
+  allocatePractices,
+  getPracticeOccurrences,
+  type PracticeTeamRequests,
+} from "../lib/practice-allocation.js";
+import {
+  assignRoundsToSlots,
+  buildRoundRobinRounds,
+  getSlotsForDate,
+  MAX_SCHEDULE_DAYS,
+  mergeRoundRobins,
+} from "../lib/round-robin.js";
+import { analyzeScheduleFairness } from "../lib/schedule-fairness.js";
+import {
+  getDefaultSeasonName,
+  getLeagueSeason,
+  getRolloverDates,
+  loadReturningTeams,
+  notifySeasonTeams,
+  syncSeasonRosters,
+} from "../lib/seasons.js";
+import { computeStandings } from "../lib/standings.js";
+import { addDays, isValidTimeZone, zonedTimeToInstant } from "../lib/time.js";
+import {
+  assignPools,
+  buildTournamentFixtures,
+  computePoolStandings,
+  getPoolLetter,
+  scheduleTournamentFixtures,
+  type TournamentSlot,
+} from "../lib/tournament-schedule.js";
+import { syncTournamentKnockout } from "../lib/tournaments.js";
 import { protectedProcedure, router } from "../lib/trpc.js";
 
 export const organizationRouter = router({
@@ -55,22 +257,35 @@ export const organizationRouter = router({
     return organizations;
   }),
 
+  /** Set the organization's time zone: the default display zone, and the zone for wall-clock times without a venue. */
+  updateOrganizationTimeZone: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        timeZone: z.string().refine(isValidTimeZone, "Unknown time zone"),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const [updated] = await ctx.db
+        .update(organization)
+        .set({ timeZone: input.timeZone })
+        .where(eq(organization.id, input.organizationId))
+        .returning();
+      if (!updated) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Organization not found",
+        });
+      }
+      return updated;
+    }),
+
   /** Team statistics for the org (from team). User must be a member of the org. */
   getTeamStats: protectedProcedure
     .input(z.object({ organizationId: z.string() }))
     .query(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const now = new Date();
       const startOfThisMonth = new Date(now.getFullYear(), now.getMonth(), 1);
       const startOfLastMonth = new Date(
@@ -157,18 +372,7 @@ export const organizationRouter = router({
       }),
     )
     .query(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const searchTerm = input.search?.trim();
       const nameCondition = searchTerm
         ? ilike(team.name, `%${searchTerm}%`)
@@ -202,18 +406,7 @@ export const organizationRouter = router({
       }),
     )
     .query(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const foundTeam = await ctx.db.query.team.findFirst({
         where: and(
           eq(team.slug, input.slug),
@@ -244,18 +437,7 @@ export const organizationRouter = router({
       z.object({ organizationId: z.string(), teamId: z.string() }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const deleted = await ctx.db
         .delete(team)
         .where(
@@ -278,18 +460,7 @@ export const organizationRouter = router({
   getLeagueStats: protectedProcedure
     .input(z.object({ organizationId: z.string() }))
     .query(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const now = new Date();
       const startOfThisMonth = new Date(now.getFullYear(), now.getMonth(), 1);
       const startOfLastMonth = new Date(
@@ -365,18 +536,7 @@ export const organizationRouter = router({
       }),
     )
     .query(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const searchTerm = input.search?.trim();
       const nameCondition = searchTerm
         ? ilike(league.name, `%${searchTerm}%`)
@@ -394,56 +554,59 @@ export const organizationRouter = router({
         );
     }),
 
-  /** Get a league by id with teams participating (via league_team). User must be a member of the org. */
+  /** Get a league by id with its rules, divisions, a season (the current one by default) and the teams participating in it (via league_team). User must be a member of the org. */
   getLeagueById: protectedProcedure
     .input(
       z.object({
         leagueId: z.string(),
         organizationId: z.string(),
+        seasonId: z.string().optional(),
       }),
     )
     .query(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
-      const [foundLeague] = await ctx.db
-        .select()
-        .from(league)
-        .where(
-          and(
-            eq(league.id, input.leagueId),
-            eq(league.organizationId, input.organizationId),
-          ),
-        );
-      if (!foundLeague) {
+      const foundLeague = await requireOrgLeague(
+        ctx,
+        input.organizationId,
+        input.leagueId,
+      );
+      const selectedSeason = await getLeagueSeason(
+        ctx.db,
+        input.leagueId,
+        input.seasonId,
+      );
+      if (!selectedSeason) {
         throw new TRPCError({
           code: "NOT_FOUND",
-          message: "League not found",
+          message: "Season not found",
         });
       }
       const participatingTeams = await ctx.db
         .select({
           id: team.id,
+          leagueTeamId: leagueTeam.id,
           name: team.name,
           slug: team.slug,
           status: team.status,
+          divisionId: leagueTeam.divisionId,
         })
         .from(leagueTeam)
         .innerJoin(team, eq(leagueTeam.teamId, team.id))
-        .where(eq(leagueTeam.leagueId, input.leagueId));
-      return { ...foundLeague, participatingTeams };
+        .where(eq(leagueTeam.seasonId, selectedSeason.id));
+      const divisions = await ctx.db
+        .select()
+        .from(division)
+        .where(eq(division.leagueId, input.leagueId))
+        .orderBy(asc(division.rank), asc(division.name));
+      return {
+        ...foundLeague,
+        rules: getLeagueRules(foundLeague),
+        season: selectedSeason,
+        divisions,
+        participatingTeams,
+      };
     }),
 
-  /** List org teams that are not in this league (available to add to this league). User must be a member of the org. */
+  /** List org teams that are not in the league's current season (available to add to it). User must be a member of the org. */
   listTeamsAvailableForLeague: protectedProcedure
     .input(
       z.object({
@@ -452,16 +615,12 @@ export const organizationRouter = router({
       }),
     )
     .query(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
+      await requireOrgLeague(ctx, input.organizationId, input.leagueId);
+      const currentSeason = await getLeagueSeason(ctx.db, input.leagueId);
+      if (!currentSeason) {
         throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
+          code: "NOT_FOUND",
+          message: "Season not found",
         });
       }
       return ctx.db
@@ -476,7 +635,7 @@ export const organizationRouter = router({
           leagueTeam,
           and(
             eq(leagueTeam.teamId, team.id),
-            eq(leagueTeam.leagueId, input.leagueId),
+            eq(leagueTeam.seasonId, currentSeason.id),
           ),
         )
         .where(
@@ -487,7 +646,7 @@ export const organizationRouter = router({
         );
     }),
 
-  /** Add a team to a league (insert league_team). Team must be in org and not already in this league. User must be a member of the org. */
+  /** Add a team to the league's current season (insert league_team) and copy its roster. Team must be in org and not already in this season. User must be a member of the org. */
   addTeamToLeague: protectedProcedure
     .input(
       z.object({
@@ -497,33 +656,11 @@ export const organizationRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
-      const [leagueRow] = await ctx.db
-        .select({ id: league.id })
-        .from(league)
-        .where(
-          and(
-            eq(league.id, input.leagueId),
-            eq(league.organizationId, input.organizationId),
-          ),
-        );
-      if (!leagueRow) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "League not found",
-        });
-      }
+      const leagueRow = await requireOrgLeague(
+        ctx,
+        input.organizationId,
+        input.leagueId,
+      );
       const [teamRow] = await ctx.db
         .select({ id: team.id })
         .from(team)
@@ -539,28 +676,51 @@ export const organizationRouter = router({
           message: "Team not found",
         });
       }
-      const [alreadyInThisLeague] = await ctx.db
+      const currentSeason = await getLeagueSeason(ctx.db, input.leagueId);
+      if (!currentSeason) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Season not found",
+        });
+      }
+      const [alreadyInThisSeason] = await ctx.db
         .select({ id: leagueTeam.id })
         .from(leagueTeam)
         .where(
           and(
-            eq(leagueTeam.leagueId, input.leagueId),
+            eq(leagueTeam.seasonId, currentSeason.id),
             eq(leagueTeam.teamId, input.teamId),
           ),
         );
-      if (alreadyInThisLeague) {
+      if (alreadyInThisSeason) {
         throw new TRPCError({
           code: "CONFLICT",
-          message: "This team is already in this league",
+          message: "This team is already in this season",
         });
       }
-      const [created] = await ctx.db
-        .insert(leagueTeam)
-        .values({
-          leagueId: input.leagueId,
-          teamId: input.teamId,
-        })
-        .returning();
+      const rosterError = getRosterSizeError(
+        await countTeamPlayers(ctx.db, input.teamId),
+        leagueRow,
+        leagueRow.name,
+      );
+      if (rosterError) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: rosterError,
+        });
+      }
+      const created = await ctx.db.transaction(async (tx) => {
+        const [row] = await tx
+          .insert(leagueTeam)
+          .values({
+            leagueId: input.leagueId,
+            seasonId: currentSeason.id,
+            teamId: input.teamId,
+          })
+          .returning();
+        await syncSeasonRosters(tx, [input.teamId]);
+        return row;
+      });
       if (!created) {
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -570,7 +730,7 @@ export const organizationRouter = router({
       return created;
     }),
 
-  /** Remove a team from a league (delete league_team row). User must be a member of the org. */
+  /** Remove a team from the league's current season (delete league_team row). Completed seasons are left as they were. User must be a member of the org. */
   removeTeamFromLeague: protectedProcedure
     .input(
       z.object({
@@ -580,38 +740,19 @@ export const organizationRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
-      const [leagueRow] = await ctx.db
-        .select({ id: league.id })
-        .from(league)
-        .where(
-          and(
-            eq(league.id, input.leagueId),
-            eq(league.organizationId, input.organizationId),
-          ),
-        );
-      if (!leagueRow) {
+      await requireOrgLeague(ctx, input.organizationId, input.leagueId);
+      const currentSeason = await getLeagueSeason(ctx.db, input.leagueId);
+      if (!currentSeason) {
         throw new TRPCError({
           code: "NOT_FOUND",
-          message: "League not found",
+          message: "Season not found",
         });
       }
       const deleted = await ctx.db
         .delete(leagueTeam)
         .where(
           and(
-            eq(leagueTeam.leagueId, input.leagueId),
+            eq(leagueTeam.seasonId, currentSeason.id),
             eq(leagueTeam.teamId, input.teamId),
           ),
         )
@@ -619,7 +760,7 @@ export const organizationRouter = router({
       if (deleted.length === 0) {
         throw new TRPCError({
           code: "NOT_FOUND",
-          message: "Team is not in this league",
+          message: "Team is not in this season",
         });
       }
       return { success: true };
@@ -635,18 +776,7 @@ export const organizationRouter = router({
       }),
     )
     .query(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const [teamRow] = await ctx.db
         .select({ id: team.id })
         .from(team)
@@ -704,18 +834,7 @@ export const organizationRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const [teamRow] = await ctx.db
         .select({ id: team.id })
         .from(team)
@@ -756,14 +875,25 @@ export const organizationRouter = router({
           message: "This player is already on a team",
         });
       }
-      const [created] = await ctx.db
-        .insert(teamMember)
-        .values({
-          teamId: input.teamId,
-          userId: input.userId,
-          role: "member",
-        })
-        .returning();
+      const rosterError = await getAddPlayerRosterError(ctx.db, input.teamId);
+      if (rosterError) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: rosterError,
+        });
+      }
+      const created = await ctx.db.transaction(async (tx) => {
+        const [row] = await tx
+          .insert(teamMember)
+          .values({
+            teamId: input.teamId,
+            userId: input.userId,
+            role: "member",
+          })
+          .returning();
+        await syncSeasonRosters(tx, [input.teamId]);
+        return row;
+      });
       if (!created) {
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -783,18 +913,7 @@ export const organizationRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const current = await ctx.db.query.teamMember.findFirst({
         where: and(
           eq(teamMember.teamId, input.teamId),
@@ -826,33 +945,84 @@ export const organizationRouter = router({
             .where(eq(teamMember.id, nextAdminRow.id));
         }
       }
-      await ctx.db
-        .delete(teamMember)
+      await ctx.db.transaction(async (tx) => {
+        await tx
+          .delete(teamMember)
+          .where(
+            and(
+              eq(teamMember.teamId, input.teamId),
+              eq(teamMember.userId, input.userId),
+            ),
+          );
+        await syncSeasonRosters(tx, [input.teamId]);
+      });
+      return { success: true };
+    }),
+
+  /** Set or clear a player's jersey number on a team. Numbers are unique within a team. User must be a member of the org. */
+  setTeamMemberJerseyNumber: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        teamId: z.string(),
+        userId: z.string(),
+        jerseyNumber: z
+          .string()
+          .regex(/^\d{1,3}$/, "Jersey number must be 1 to 3 digits")
+          .nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const [current] = await ctx.db
+        .select({ id: teamMember.id })
+        .from(teamMember)
+        .innerJoin(team, eq(team.id, teamMember.teamId))
         .where(
           and(
             eq(teamMember.teamId, input.teamId),
             eq(teamMember.userId, input.userId),
+            eq(team.organizationId, input.organizationId),
           ),
         );
-      return { success: true };
+      if (!current) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Player is not on this team",
+        });
+      }
+      if (input.jerseyNumber !== null) {
+        const taken = await ctx.db.query.teamMember.findFirst({
+          where: and(
+            eq(teamMember.teamId, input.teamId),
+            eq(teamMember.jerseyNumber, input.jerseyNumber),
+            ne(teamMember.id, current.id),
+          ),
+          columns: { id: true },
+        });
+        if (taken) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: `Another player on this team already wears #${input.jerseyNumber}`,
+          });
+        }
+      }
+      return ctx.db.transaction(async (tx) => {
+        const [updated] = await tx
+          .update(teamMember)
+          .set({ jerseyNumber: input.jerseyNumber, updatedAt: new Date() })
+          .where(eq(teamMember.id, current.id))
+          .returning();
+        await syncSeasonRosters(tx, [input.teamId]);
+        return updated;
+      });
     }),
 
   /** Delete a league. User must be a member of the org. Cascade deletes league_team rows. */
   deleteLeague: protectedProcedure
     .input(z.object({ leagueId: z.string(), organizationId: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const deleted = await ctx.db
         .delete(league)
         .where(
@@ -871,7 +1041,7 @@ export const organizationRouter = router({
       return { success: true };
     }),
 
-  /** Create a league. User must be a member of the org. */
+  /** Create a league with its first season (dates and name optional). Orgs can run many leagues; names are unique within an org. User must be a member of the org. */
   createLeague: protectedProcedure
     .input(
       z.object({
@@ -900,7 +1070,9 @@ export const organizationRouter = router({
             "o60",
           ])
           .optional(),
+        sport: z.enum(leagueSports).optional(),
         operatingSchedule: facilityOperatingScheduleSchema,
+        scheduleExceptions: scheduleExceptionsSchema,
         startDate: z
           .string()
           .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD format")
@@ -909,19 +1081,24 @@ export const organizationRouter = router({
           .string()
           .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD format")
           .optional(),
+        seasonName: z.string().trim().max(100).optional(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
+      await requireOrgMember(ctx, input.organizationId);
+      const [sameName] = await ctx.db
+        .select({ id: league.id })
+        .from(league)
+        .where(
+          and(
+            eq(league.organizationId, input.organizationId),
+            eq(league.name, input.name.trim()),
+          ),
+        );
+      if (sameName) {
         throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
+          code: "CONFLICT",
+          message: "A league with this name already exists",
         });
       }
       const baseSlug =
@@ -946,21 +1123,44 @@ export const organizationRouter = router({
         suffix += 1;
         slug = `${baseSlug}-${suffix}`;
       }
-      const [created] = await ctx.db
-        .insert(league)
-        .values({
-          organizationId: input.organizationId,
-          name: input.name.trim(),
-          slug,
-          ...(input.image ? { image: input.image } : {}),
-          ...(input.ageGroup ? { ageGroup: input.ageGroup } : {}),
-          ...(input.operatingSchedule != null
-            ? { operatingSchedule: input.operatingSchedule }
-            : {}),
-          ...(input.startDate ? { startDate: input.startDate } : {}),
-          ...(input.endDate ? { endDate: input.endDate } : {}),
-        })
-        .returning();
+      if (input.startDate && input.endDate && input.endDate < input.startDate) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "End date must be on or after the start date",
+        });
+      }
+      const created = await ctx.db.transaction(async (tx) => {
+        const [row] = await tx
+          .insert(league)
+          .values({
+            organizationId: input.organizationId,
+            name: input.name.trim(),
+            slug,
+            ...(input.image ? { image: input.image } : {}),
+            ...(input.ageGroup ? { ageGroup: input.ageGroup } : {}),
+            ...(input.sport ? { sport: input.sport } : {}),
+            ...(input.operatingSchedule != null
+              ? { operatingSchedule: input.operatingSchedule }
+              : {}),
+            ...(input.scheduleExceptions?.length
+              ? { scheduleExceptions: input.scheduleExceptions }
+              : {}),
+          })
+          .returning();
+        if (row) {
+          await tx.insert(season).values({
+            leagueId: row.id,
+            name:
+              input.seasonName ||
+              getDefaultSeasonName(
+                input.startDate ?? new Date().toISOString().slice(0, 10),
+              ),
+            startDate: input.startDate ?? null,
+            endDate: input.endDate ?? null,
+          });
+        }
+        return row;
+      });
       if (!created) {
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -970,6 +1170,91 @@ export const organizationRouter = router({
       return created;
     }),
 
+  /** Update a league's weekly playing schedule and/or its dated exceptions (special hours, blackout ranges). */
+  updateLeagueSchedule: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+        operatingSchedule: facilityOperatingScheduleSchema,
+        scheduleExceptions: scheduleExceptionsSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgLeague(ctx, input.organizationId, input.leagueId);
+      const [updated] = await ctx.db
+        .update(league)
+        .set({
+          ...(input.operatingSchedule !== undefined
+            ? { operatingSchedule: input.operatingSchedule }
+            : {}),
+          ...(input.scheduleExceptions !== undefined
+            ? { scheduleExceptions: input.scheduleExceptions }
+            : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(league.id, input.leagueId))
+        .returning();
+      return updated;
+    }),
+
+  /** Change the sport a league plays. Stats recorded under the old sport's keys are kept but no longer listed. */
+  updateLeagueSport: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+        sport: z.enum(leagueSports),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgLeague(ctx, input.organizationId, input.leagueId);
+      const [updated] = await ctx.db
+        .update(league)
+        .set({ sport: input.sport, updatedAt: new Date() })
+        .where(eq(league.id, input.leagueId))
+        .returning();
+      return updated;
+    }),
+
+  /** Set a league's periods (null = the sport's usual format) and roster size limits (null = no limit). Existing teams are not checked against new limits. */
+  updateLeagueRules: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+        periodCount: z.number().int().min(1).max(20).nullable(),
+        periodLengthMinutes: z.number().int().min(1).max(120).nullable(),
+        minRosterSize: z.number().int().min(1).max(100).nullable(),
+        maxRosterSize: z.number().int().min(1).max(100).nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgLeague(ctx, input.organizationId, input.leagueId);
+      if (
+        input.minRosterSize != null &&
+        input.maxRosterSize != null &&
+        input.minRosterSize > input.maxRosterSize
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Minimum roster size cannot be above the maximum",
+        });
+      }
+      const [updated] = await ctx.db
+        .update(league)
+        .set({
+          periodCount: input.periodCount,
+          periodLengthMinutes: input.periodLengthMinutes,
+          minRosterSize: input.minRosterSize,
+          maxRosterSize: input.maxRosterSize,
+          updatedAt: new Date(),
+        })
+        .where(eq(league.id, input.leagueId))
+        .returning();
+      return updated;
+    }),
+
   /** Create a team in the organization with a designated team admin. Admin can be any org player; they are added to the roster if needed and as the first team member with role admin. */
   createTeam: protectedProcedure
     .input(
@@ -980,18 +1265,7 @@ export const organizationRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const [createdTeam] = await ctx.db
         .insert(team)
         .values({
@@ -1041,18 +1315,7 @@ export const organizationRouter = router({
   getPlayerStats: protectedProcedure
     .input(z.object({ organizationId: z.string() }))
     .query(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const now = new Date();
       const startOfThisMonth = new Date(now.getFullYear(), now.getMonth(), 1);
       const startOfLastMonth = new Date(
@@ -1152,18 +1415,7 @@ export const organizationRouter = router({
       }),
     )
     .query(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const searchTerm = input.search?.trim();
       const nameOrEmailCondition = searchTerm
         ? or(
@@ -1217,18 +1469,7 @@ export const organizationRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const [teamRow] = await ctx.db
         .select()
         .from(team)
@@ -1264,6 +1505,13 @@ export const organizationRouter = router({
           message: "This user is already assigned to a team",
         });
       }
+      const rosterError = await getAddPlayerRosterError(ctx.db, input.teamId);
+      if (rosterError) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: rosterError,
+        });
+      }
       await ctx.db
         .insert(organizationPlayer)
         .values({
@@ -1278,14 +1526,18 @@ export const organizationRouter = router({
           ],
           set: { status: input.status, updatedAt: new Date() },
         });
-      const [created] = await ctx.db
-        .insert(teamMember)
-        .values({
-          teamId: input.teamId,
-          userId: existingUser.id,
-          role: "member",
-        })
-        .returning();
+      const created = await ctx.db.transaction(async (tx) => {
+        const [row] = await tx
+          .insert(teamMember)
+          .values({
+            teamId: input.teamId,
+            userId: existingUser.id,
+            role: "member",
+          })
+          .returning();
+        await syncSeasonRosters(tx, [input.teamId]);
+        return row;
+      });
       if (!created) {
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -1314,18 +1566,7 @@ export const organizationRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const [op] = await ctx.db
         .select()
         .from(organizationPlayer)
@@ -1364,18 +1605,7 @@ export const organizationRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const [op] = await ctx.db
         .select({ userId: organizationPlayer.userId })
         .from(organizationPlayer)
@@ -1397,14 +1627,18 @@ export const organizationRouter = router({
         .where(eq(team.organizationId, input.organizationId));
       const orgTeamIds = orgTeams.map((t) => t.id);
       if (orgTeamIds.length > 0) {
-        await ctx.db
-          .delete(teamMember)
-          .where(
-            and(
-              eq(teamMember.userId, op.userId),
-              inArray(teamMember.teamId, orgTeamIds),
-            ),
-          );
+        await ctx.db.transaction(async (tx) => {
+          const removed = await tx
+            .delete(teamMember)
+            .where(
+              and(
+                eq(teamMember.userId, op.userId),
+                inArray(teamMember.teamId, orgTeamIds),
+              ),
+            )
+            .returning({ teamId: teamMember.teamId });
+          await syncSeasonRosters(tx, removed.map((r) => r.teamId));
+        });
       }
       const deleted = await ctx.db
         .delete(organizationPlayer)
@@ -1474,18 +1708,7 @@ export const organizationRouter = router({
       }),
     )
     .query(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const searchTerm = input.search?.trim();
       if (!searchTerm) {
         return ctx.db.query.member.findMany({
@@ -1541,18 +1764,7 @@ export const organizationRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const existingUser = await ctx.db.query.user.findFirst({
         where: eq(user.email, input.email.toLowerCase().trim()),
         columns: { id: true },
@@ -1635,18 +1847,7 @@ export const organizationRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const [target] = await ctx.db
         .select({ id: member.id })
         .from(member)
@@ -1685,18 +1886,7 @@ export const organizationRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const [target] = await ctx.db
         .select({ id: member.id, userId: member.userId })
         .from(member)
@@ -1740,18 +1930,7 @@ export const organizationRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const expiresAt = new Date();
       expiresAt.setDate(expiresAt.getDate() + 7);
       const [inv] = await ctx.db
@@ -1795,18 +1974,7 @@ export const organizationRouter = router({
       }),
     )
     .query(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const searchTerm = input.search?.trim();
       const conditions = [eq(facility.organizationId, input.organizationId)];
       if (searchTerm) {
@@ -1821,6 +1989,7 @@ export const organizationRouter = router({
           slug: true,
           address: true,
           operatingSchedule: true,
+          scheduleExceptions: true,
           createdAt: true,
           updatedAt: true,
         },
@@ -1840,18 +2009,7 @@ export const organizationRouter = router({
       }),
     )
     .query(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const found = await ctx.db.query.facility.findFirst({
         where: and(
           eq(facility.id, input.facilityId),
@@ -1872,7 +2030,37 @@ export const organizationRouter = router({
       return found;
     }),
 
-  /** Create a facility. Slug is derived from name if not provided. */
+  /** List all surfaces across the organization's facilities, with facility name. For venue pickers (games, bookings, practice preferences). User must be a member of the org, or an admin of `teamId` when it is given. */
+  listSurfaces: protectedProcedure
+    .input(
+      z.object({ organizationId: z.string(), teamId: z.string().optional() }),
+    )
+    .query(async ({ ctx, input }) => {
+      if (input.teamId) {
+        await requireTeamManager(ctx, input.organizationId, input.teamId);
+      } else {
+        await requireOrgMember(ctx, input.organizationId);
+      }
+      return ctx.db
+        .select({
+          id: facilitySurface.id,
+          name: facilitySurface.name,
+          type: facilitySurface.type,
+          facilityId: facility.id,
+          facilityName: facility.name,
+          timeZone: facility.timeZone,
+        })
+        .from(facilitySurface)
+        .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(eq(facility.organizationId, input.organizationId))
+        .orderBy(
+          asc(facility.name),
+          asc(facilitySurface.sortOrder),
+          asc(facilitySurface.name),
+        );
+    }),
+
+  /** Create a facility. Slug is derived from name if not provided; time zone defaults to the organization's. */
   createFacility: protectedProcedure
     .input(
       z.object({
@@ -1881,19 +2069,23 @@ export const organizationRouter = router({
         address: z.string().optional(),
         slug: z.string().optional(),
         operatingSchedule: facilityOperatingScheduleSchema,
+        scheduleExceptions: scheduleExceptionsSchema,
+        timeZone: z
+          .string()
+          .refine(isValidTimeZone, "Unknown time zone")
+          .optional(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
+      await requireOrgMember(ctx, input.organizationId);
+      const [org] = await ctx.db
+        .select({ timeZone: organization.timeZone })
+        .from(organization)
+        .where(eq(organization.id, input.organizationId));
+      if (!org) {
         throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
+          code: "NOT_FOUND",
+          message: "Organization not found",
         });
       }
       const baseSlug =
@@ -1930,6 +2122,10 @@ export const organizationRouter = router({
           ...(input.operatingSchedule != null
             ? { operatingSchedule: input.operatingSchedule }
             : {}),
+          ...(input.scheduleExceptions?.length
+            ? { scheduleExceptions: input.scheduleExceptions }
+            : {}),
+          timeZone: input.timeZone ?? org.timeZone,
         })
         .returning();
       if (!created) {
@@ -1950,21 +2146,15 @@ export const organizationRouter = router({
         name: z.string().min(1).optional(),
         address: z.string().optional(),
         operatingSchedule: facilityOperatingScheduleSchema,
+        scheduleExceptions: scheduleExceptionsSchema,
+        timeZone: z
+          .string()
+          .refine(isValidTimeZone, "Unknown time zone")
+          .optional(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const [updated] = await ctx.db
         .update(facility)
         .set({
@@ -1973,6 +2163,10 @@ export const organizationRouter = router({
           ...(input.operatingSchedule !== undefined
             ? { operatingSchedule: input.operatingSchedule }
             : {}),
+          ...(input.scheduleExceptions !== undefined
+            ? { scheduleExceptions: input.scheduleExceptions }
+            : {}),
+          ...(input.timeZone ? { timeZone: input.timeZone } : {}),
           updatedAt: new Date(),
         })
         .where(
@@ -2000,18 +2194,7 @@ export const organizationRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const [deleted] = await ctx.db
         .delete(facility)
         .where(
@@ -2041,18 +2224,7 @@ export const organizationRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const [facilityRow] = await ctx.db
         .select({ id: facility.id })
         .from(facility)
@@ -2097,18 +2269,7 @@ export const organizationRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const [facilityRow] = await ctx.db
         .select({ id: facility.id })
         .from(facility)
@@ -2157,18 +2318,7 @@ export const organizationRouter = router({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const membership = await ctx.db.query.member.findFirst({
-        where: and(
-          eq(member.userId, ctx.user.id),
-          eq(member.organizationId, input.organizationId),
-        ),
-      });
-      if (!membership) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Not a member of this organization",
-        });
-      }
+      await requireOrgMember(ctx, input.organizationId);
       const [facilityRow] = await ctx.db
         .select({ id: facility.id })
         .from(facility)
@@ -2201,4 +2351,5323 @@ export const organizationRouter = router({
       }
       return { id: deleted.id };
     }),
+
+  /** List upcoming bookings (not yet ended) on a facility's surfaces. */
+  listFacilityBookings: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        facilityId: z.string(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      return ctx.db
+        .select({
+          id: facilityBooking.id,
+          facilitySurfaceId: facilityBooking.facilitySurfaceId,
+          surfaceName: facilitySurface.name,
+          title: facilityBooking.title,
+          startsAt: facilityBooking.startsAt,
+          endsAt: facilityBooking.endsAt,
+          notes: facilityBooking.notes,
+        })
+        .from(facilityBooking)
+        .innerJoin(
+          facilitySurface,
+          eq(facilitySurface.id, facilityBooking.facilitySurfaceId),
+        )
+        .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(
+          and(
+            eq(facility.id, input.facilityId),
+            eq(facility.organizationId, input.organizationId),
+            gte(facilityBooking.endsAt, new Date()),
+          ),
+        )
+        .orderBy(asc(facilityBooking.startsAt));
+    }),
+
+  /** Book a surface for a non-game event. Rejected with structured conflicts if the surface is taken or the facility is closed. */
+  createFacilityBooking: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        facilitySurfaceId: z.string(),
+        title: z.string().min(1, "Title is required"),
+        startsAt: z.iso.datetime({ offset: true }),
+        endsAt: z.iso.datetime({ offset: true }),
+        notes: z.string().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const startsAt = new Date(input.startsAt);
+      const endsAt = new Date(input.endsAt);
+      if (endsAt <= startsAt) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Booking must end after it starts",
+        });
+      }
+      const [surfaceRow] = await ctx.db
+        .select({ id: facilitySurface.id })
+        .from(facilitySurface)
+        .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(
+          and(
+            eq(facilitySurface.id, input.facilitySurfaceId),
+            eq(facility.organizationId, input.organizationId),
+          ),
+        );
+      if (!surfaceRow) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Surface not found",
+        });
+      }
+      const conflicts = await findScheduleConflicts(ctx.db, [
+        { facilitySurfaceId: input.facilitySurfaceId, startsAt, endsAt },
+      ]);
+      if (conflicts.length > 0) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Booking conflicts with the facility schedule",
+          cause: new ScheduleConflictError(conflicts),
+        });
+      }
+      const [created] = await ctx.db
+        .insert(facilityBooking)
+        .values({
+          facilitySurfaceId: input.facilitySurfaceId,
+          title: input.title.trim(),
+          startsAt,
+          endsAt,
+          ...(input.notes?.trim() ? { notes: input.notes.trim() } : {}),
+        })
+        .returning();
+      if (!created) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to create booking",
+        });
+      }
+      return created;
+    }),
+
+  /** Delete a facility booking. Booking's facility must belong to the organization. */
+  deleteFacilityBooking: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        bookingId: z.string(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const [existing] = await ctx.db
+        .select({ id: facilityBooking.id })
+        .from(facilityBooking)
+        .innerJoin(
+          facilitySurface,
+          eq(facilitySurface.id, facilityBooking.facilitySurfaceId),
+        )
+        .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(
+          and(
+            eq(facilityBooking.id, input.bookingId),
+            eq(facility.organizationId, input.organizationId),
+          ),
+        );
+      if (!existing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Booking not found",
+        });
+      }
+      await ctx.db
+        .delete(facilityBooking)
+        .where(eq(facilityBooking.id, input.bookingId));
+      return { id: existing.id };
+    }),
+
+  /** Conflicts among a facility's upcoming games and bookings (double-bookings, closed days, outside hours). Defaults to the next 90 days. */
+  checkFacilityConflicts: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        facilityId: z.string(),
+        from: z.iso.datetime({ offset: true }).optional(),
+        to: z.iso.datetime({ offset: true }).optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const found = await ctx.db.query.facility.findFirst({
+        where: and(
+          eq(facility.id, input.facilityId),
+          eq(facility.organizationId, input.organizationId),
+        ),
+        with: { surfaces: { columns: { id: true } } },
+      });
+      if (!found) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Facility not found",
+        });
+      }
+      const from = input.from ? new Date(input.from) : new Date();
+      const to = input.to
+        ? new Date(input.to)
+        : new Date(from.getTime() + 90 * 24 * 60 * 60 * 1000);
+      const events = await loadSurfaceEvents(
+        ctx.db,
+        found.surfaces.map((s) => s.id),
+        from,
+        to,
+      );
+      const result: { event: ScheduleEvent; conflicts: ScheduleConflict[] }[] =
+        [];
+      events.forEach((event, index) => {
+        const slot = {
+          facilitySurfaceId: event.facilitySurfaceId,
+          startsAt: new Date(event.startsAt),
+          endsAt: new Date(event.endsAt),
+        };
+        // Compare with earlier events only so each double-booking is reported once.
+        const conflicts = [
+          ...getOperatingHoursConflicts(slot, found),
+          ...getOverlapConflicts(slot, events.slice(0, index)),
+        ];
+        if (conflicts.length > 0) result.push({ event, conflicts });
+      });
+      return result;
+    }),
+
+  // ——— Games ———
+
+  /** List games of a league season (the current one by default) with team and venue names. Optional time window (startsAt in [from, to)) and status filter. */
+  listGames: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+        seasonId: z.string().optional(),
+        from: z.iso.datetime({ offset: true }).optional(),
+        to: z.iso.datetime({ offset: true }).optional(),
+        status: z.enum(gameStatuses).optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      await requireOrgLeague(ctx, input.organizationId, input.leagueId);
+      const selectedSeason = await getLeagueSeason(
+        ctx.db,
+        input.leagueId,
+        input.seasonId,
+      );
+      if (!selectedSeason) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Season not found",
+        });
+      }
+      const conditions = [
+        eq(game.seasonId, selectedSeason.id),
+        isNull(game.deletedAt),
+        ...(input.from ? [gte(game.startsAt, new Date(input.from))] : []),
+        ...(input.to ? [lt(game.startsAt, new Date(input.to))] : []),
+        ...(input.status ? [eq(game.status, input.status)] : []),
+      ];
+      return ctx.db
+        .select({
+          id: game.id,
+          leagueId: game.leagueId,
+          seasonId: game.seasonId,
+          homeLeagueTeamId: game.homeLeagueTeamId,
+          awayLeagueTeamId: game.awayLeagueTeamId,
+          homeTeamId: homeTeam.id,
+          homeTeamName: homeTeam.name,
+          awayTeamId: awayTeam.id,
+          awayTeamName: awayTeam.name,
+          facilitySurfaceId: game.facilitySurfaceId,
+          surfaceName: facilitySurface.name,
+          facilityId: facility.id,
+          facilityName: facility.name,
+          startsAt: game.startsAt,
+          endsAt: game.endsAt,
+          status: game.status,
+          statusReason: game.statusReason,
+          forfeitedByLeagueTeamId: game.forfeitedByLeagueTeamId,
+          homeScore: game.homeScore,
+          awayScore: game.awayScore,
+          periodScores: game.periodScores,
+          resultRecordedAt: game.resultRecordedAt,
+          scoreConfirmation: game.scoreConfirmation,
+          scoreReportedByLeagueTeamId: game.scoreReportedByLeagueTeamId,
+          scoreDisputeReason: game.scoreDisputeReason,
+          notes: game.notes,
+          createdAt: game.createdAt,
+          updatedAt: game.updatedAt,
+        })
+        .from(game)
+        .innerJoin(homeLeagueTeam, eq(homeLeagueTeam.id, game.homeLeagueTeamId))
+        .innerJoin(homeTeam, eq(homeTeam.id, homeLeagueTeam.teamId))
+        .innerJoin(awayLeagueTeam, eq(awayLeagueTeam.id, game.awayLeagueTeamId))
+        .innerJoin(awayTeam, eq(awayTeam.id, awayLeagueTeam.teamId))
+        .leftJoin(facilitySurface, eq(facilitySurface.id, game.facilitySurfaceId))
+        .leftJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(and(...conditions))
+        .orderBy(asc(game.startsAt));
+    }),
+
+  /** Create a game between two teams enrolled in the league's current season, in the same division. Surface (optional) must belong to one of the org's facilities. */
+  createGame: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+        homeLeagueTeamId: z.string(),
+        awayLeagueTeamId: z.string(),
+        facilitySurfaceId: z.string().optional(),
+        startsAt: z.iso.datetime({ offset: true }),
+        endsAt: z.iso.datetime({ offset: true }),
+        notes: z.string().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgLeague(ctx, input.organizationId, input.leagueId);
+      if (input.homeLeagueTeamId === input.awayLeagueTeamId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "A team cannot play itself",
+        });
+      }
+      const startsAt = new Date(input.startsAt);
+      const endsAt = new Date(input.endsAt);
+      if (endsAt <= startsAt) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Game must end after it starts",
+        });
+      }
+      const currentSeason = await getLeagueSeason(ctx.db, input.leagueId);
+      if (!currentSeason) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Season not found",
+        });
+      }
+      const sides = await ctx.db
+        .select({ id: leagueTeam.id, divisionId: leagueTeam.divisionId })
+        .from(leagueTeam)
+        .where(
+          and(
+            eq(leagueTeam.seasonId, currentSeason.id),
+            inArray(leagueTeam.id, [
+              input.homeLeagueTeamId,
+              input.awayLeagueTeamId,
+            ]),
+          ),
+        );
+      if (sides.length !== 2) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Both teams must be in the current season",
+        });
+      }
+      if (sides[0].divisionId !== sides[1].divisionId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Both teams must be in the same division",
+        });
+      }
+      if (input.facilitySurfaceId) {
+        const [surfaceRow] = await ctx.db
+          .select({ id: facilitySurface.id })
+          .from(facilitySurface)
+          .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+          .where(
+            and(
+              eq(facilitySurface.id, input.facilitySurfaceId),
+              eq(facility.organizationId, input.organizationId),
+            ),
+          );
+        if (!surfaceRow) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Surface not found",
+          });
+        }
+        const conflicts = await findScheduleConflicts(ctx.db, [
+          { facilitySurfaceId: input.facilitySurfaceId, startsAt, endsAt },
+        ]);
+        if (conflicts.length > 0) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "Game conflicts with the facility schedule",
+            cause: new ScheduleConflictError(conflicts),
+          });
+        }
+      }
+      const created = await ctx.db.transaction(async (tx) => {
+        const [row] = await tx
+          .insert(game)
+          .values({
+            leagueId: input.leagueId,
+            seasonId: currentSeason.id,
+            homeLeagueTeamId: input.homeLeagueTeamId,
+            awayLeagueTeamId: input.awayLeagueTeamId,
+            facilitySurfaceId: input.facilitySurfaceId ?? null,
+            startsAt,
+            endsAt,
+            ...(input.notes?.trim() ? { notes: input.notes.trim() } : {}),
+          })
+          .returning();
+        if (row) {
+          await tx.insert(gameChange).values({
+            gameId: row.id,
+            action: "created",
+            toStatus: row.status,
+            startsAt: row.startsAt,
+            endsAt: row.endsAt,
+            facilitySurfaceId: row.facilitySurfaceId,
+            changedByUserId: ctx.user.id,
+          });
+        }
+        return row;
+      });
+      if (!created) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to create game",
+        });
+      }
+      return created;
+    }),
+
+  /** Update a game's teams, venue, time, status or notes; every change is recorded in the game's history. Postponing, cancelling and forfeiting have their own procedures. */
+  updateGame: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        gameId: z.string(),
+        homeLeagueTeamId: z.string().optional(),
+        awayLeagueTeamId: z.string().optional(),
+        facilitySurfaceId: z.string().nullable().optional(),
+        startsAt: z.iso.datetime({ offset: true }).optional(),
+        endsAt: z.iso.datetime({ offset: true }).optional(),
+        status: z.enum(gameStatuses).optional(),
+        notes: z.string().nullable().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await requireOrgGame(
+        ctx,
+        input.organizationId,
+        input.gameId,
+      );
+      if (
+        existing.playoff &&
+        ((input.homeLeagueTeamId != null &&
+          input.homeLeagueTeamId !== existing.homeLeagueTeamId) ||
+          (input.awayLeagueTeamId != null &&
+            input.awayLeagueTeamId !== existing.awayLeagueTeamId))
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Playoff teams are set by the bracket",
+        });
+      }
+      if (input.status != null && input.status !== existing.status) {
+        if (NOTIFYING_GAME_STATUSES.includes(input.status)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message:
+              "Postpone, cancel or forfeit the game so a reason is recorded and the teams are notified",
+          });
+        }
+        if (FINISHED_GAME_STATUSES.includes(input.status)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Record the game's result to finish it",
+          });
+        }
+        if (existing.status === "postponed") {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Reschedule a postponed game to put it back on the schedule",
+          });
+        }
+        if (!canChangeGameStatus(existing.status, input.status)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: describeRejectedTransition(existing.status, input.status),
+          });
+        }
+      }
+      if (
+        existing.status === "postponed" &&
+        (input.startsAt != null ||
+          input.endsAt != null ||
+          input.facilitySurfaceId !== undefined)
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Reschedule a postponed game to move it to a new slot",
+        });
+      }
+      const homeLeagueTeamId =
+        input.homeLeagueTeamId ?? existing.homeLeagueTeamId;
+      const awayLeagueTeamId =
+        input.awayLeagueTeamId ?? existing.awayLeagueTeamId;
+      if (homeLeagueTeamId === awayLeagueTeamId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "A team cannot play itself",
+        });
+      }
+      const startsAt = input.startsAt
+        ? new Date(input.startsAt)
+        : existing.startsAt;
+      const endsAt = input.endsAt ? new Date(input.endsAt) : existing.endsAt;
+      if (endsAt <= startsAt) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Game must end after it starts",
+        });
+      }
+      if (input.homeLeagueTeamId || input.awayLeagueTeamId) {
+        const sides = await ctx.db
+          .select({ id: leagueTeam.id, divisionId: leagueTeam.divisionId })
+          .from(leagueTeam)
+          .where(
+            and(
+              eq(leagueTeam.seasonId, existing.seasonId),
+              inArray(leagueTeam.id, [homeLeagueTeamId, awayLeagueTeamId]),
+            ),
+          );
+        if (sides.length !== 2) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Both teams must be in this game's season",
+          });
+        }
+        if (!existing.playoff && sides[0].divisionId !== sides[1].divisionId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Both teams must be in the same division",
+          });
+        }
+      }
+      if (input.facilitySurfaceId) {
+        const [surfaceRow] = await ctx.db
+          .select({ id: facilitySurface.id })
+          .from(facilitySurface)
+          .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+          .where(
+            and(
+              eq(facilitySurface.id, input.facilitySurfaceId),
+              eq(facility.organizationId, input.organizationId),
+            ),
+          );
+        if (!surfaceRow) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Surface not found",
+          });
+        }
+      }
+      const facilitySurfaceId =
+        input.facilitySurfaceId !== undefined
+          ? input.facilitySurfaceId
+          : existing.facilitySurfaceId;
+      const status = input.status ?? existing.status;
+      const placementChanged =
+        input.facilitySurfaceId !== undefined ||
+        input.startsAt != null ||
+        input.endsAt != null ||
+        (input.status != null && input.status !== existing.status);
+      if (
+        placementChanged &&
+        facilitySurfaceId &&
+        !NOTIFYING_GAME_STATUSES.includes(status)
+      ) {
+        const conflicts = await findScheduleConflicts(
+          ctx.db,
+          [{ facilitySurfaceId, startsAt, endsAt }],
+          { gameIds: [existing.id] },
+        );
+        if (conflicts.length > 0) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "Game conflicts with the facility schedule",
+            cause: new ScheduleConflictError(conflicts),
+          });
+        }
+      }
+      const updated = await ctx.db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(game)
+          .set({
+            homeLeagueTeamId,
+            awayLeagueTeamId,
+            startsAt,
+            endsAt,
+            ...(input.facilitySurfaceId !== undefined
+              ? { facilitySurfaceId: input.facilitySurfaceId }
+              : {}),
+            ...(input.status != null ? { status: input.status } : {}),
+            ...(input.notes !== undefined
+              ? { notes: input.notes?.trim() || null }
+              : {}),
+            updatedAt: new Date(),
+          })
+          .where(eq(game.id, input.gameId))
+          .returning();
+        if (row) {
+          await tx.insert(gameChange).values({
+            gameId: row.id,
+            action: "updated",
+            fromStatus: existing.status,
+            toStatus: row.status,
+            previousStartsAt: existing.startsAt,
+            previousEndsAt: existing.endsAt,
+            previousFacilitySurfaceId: existing.facilitySurfaceId,
+            startsAt: row.startsAt,
+            endsAt: row.endsAt,
+            facilitySurfaceId: row.facilitySurfaceId,
+            changedByUserId: ctx.user.id,
+          });
+        }
+        return row;
+      });
+      if (!updated) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to update game",
+        });
+      }
+      return updated;
+    }),
+
+  /** Delete a game. The row is soft-deleted so subscribed calendar feeds can publish the cancellation. */
+  deleteGame: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        gameId: z.string(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await requireOrgGame(
+        ctx,
+        input.organizationId,
+        input.gameId,
+      );
+      if (existing.playoff) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Playoff games are removed with their bracket",
+        });
+      }
+      await ctx.db.transaction(async (tx) => {
+        await tx
+          .update(game)
+          .set({ deletedAt: new Date() })
+          .where(eq(game.id, input.gameId));
+        await tx.insert(gameChange).values({
+          gameId: existing.id,
+          action: "deleted",
+          fromStatus: existing.status,
+          changedByUserId: ctx.user.id,
+        });
+      });
+      return { id: existing.id };
+    }),
+
+  /** Postpone a scheduled or in-progress game with a reason. Teams are emailed unless notifyTeams is false; reschedule it later to give it a new slot. */
+  postponeGame: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        gameId: z.string(),
+        reason: z.string().trim().min(1, "Give a reason").max(500),
+        notifyTeams: z.boolean().default(true),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await requireOrgGame(
+        ctx,
+        input.organizationId,
+        input.gameId,
+      );
+      if (
+        existing.status === "postponed" ||
+        !canChangeGameStatus(existing.status, "postponed")
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: describeRejectedTransition(existing.status, "postponed"),
+        });
+      }
+      const updated = await ctx.db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(game)
+          .set({
+            status: "postponed",
+            statusReason: input.reason,
+            updatedAt: new Date(),
+          })
+          .where(eq(game.id, existing.id))
+          .returning();
+        if (row) {
+          await tx.insert(gameChange).values({
+            gameId: row.id,
+            action: "postponed",
+            fromStatus: existing.status,
+            toStatus: row.status,
+            reason: input.reason,
+            previousStartsAt: existing.startsAt,
+            previousEndsAt: existing.endsAt,
+            previousFacilitySurfaceId: existing.facilitySurfaceId,
+            changedByUserId: ctx.user.id,
+          });
+        }
+        return row;
+      });
+      if (!updated) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to postpone game",
+        });
+      }
+      const notification = input.notifyTeams
+        ? await notifyGameChange(ctx.db, ctx.env, {
+            gameId: updated.id,
+            action: "postponed",
+            reason: input.reason,
+          }).then(
+            (notified) => ({ notified, notificationFailed: false }),
+            () => ({ notified: 0, notificationFailed: true }),
+          )
+        : { notified: 0, notificationFailed: false };
+      return { game: updated, ...notification };
+    }),
+
+  /** Move a scheduled or postponed game to a new slot and put it back on the schedule. Checks facility conflicts and emails the teams unless notifyTeams is false. */
+  rescheduleGame: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        gameId: z.string(),
+        facilitySurfaceId: z.string().nullable().optional(),
+        startsAt: z.iso.datetime({ offset: true }),
+        endsAt: z.iso.datetime({ offset: true }),
+        reason: z.string().trim().max(500).optional(),
+        notifyTeams: z.boolean().default(true),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await requireOrgGame(
+        ctx,
+        input.organizationId,
+        input.gameId,
+      );
+      if (!canRescheduleGame(existing.status)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: describeRejectedTransition(existing.status, "scheduled"),
+        });
+      }
+      const startsAt = new Date(input.startsAt);
+      const endsAt = new Date(input.endsAt);
+      if (endsAt <= startsAt) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Game must end after it starts",
+        });
+      }
+      const facilitySurfaceId =
+        input.facilitySurfaceId !== undefined
+          ? input.facilitySurfaceId
+          : existing.facilitySurfaceId;
+      if (input.facilitySurfaceId) {
+        const [surfaceRow] = await ctx.db
+          .select({ id: facilitySurface.id })
+          .from(facilitySurface)
+          .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+          .where(
+            and(
+              eq(facilitySurface.id, input.facilitySurfaceId),
+              eq(facility.organizationId, input.organizationId),
+            ),
+          );
+        if (!surfaceRow) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Surface not found",
+          });
+        }
+      }
+      if (facilitySurfaceId) {
+        const conflicts = await findScheduleConflicts(
+          ctx.db,
+          [{ facilitySurfaceId, startsAt, endsAt }],
+          { gameIds: [existing.id] },
+        );
+        if (conflicts.length > 0) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "Game conflicts with the facility schedule",
+            cause: new ScheduleConflictError(conflicts),
+          });
+        }
+      }
+      const reason = input.reason || null;
+      const updated = await ctx.db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(game)
+          .set({
+            status: "scheduled",
+            statusReason: null,
+            startsAt,
+            endsAt,
+            facilitySurfaceId,
+            updatedAt: new Date(),
+          })
+          .where(eq(game.id, existing.id))
+          .returning();
+        if (row) {
+          await tx.insert(gameChange).values({
+            gameId: row.id,
+            action: "rescheduled",
+            fromStatus: existing.status,
+            toStatus: row.status,
+            reason,
+            previousStartsAt: existing.startsAt,
+            previousEndsAt: existing.endsAt,
+            previousFacilitySurfaceId: existing.facilitySurfaceId,
+            startsAt: row.startsAt,
+            endsAt: row.endsAt,
+            facilitySurfaceId: row.facilitySurfaceId,
+            changedByUserId: ctx.user.id,
+          });
+        }
+        return row;
+      });
+      if (!updated) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to reschedule game",
+        });
+      }
+      const notification = input.notifyTeams
+        ? await notifyGameChange(ctx.db, ctx.env, {
+            gameId: updated.id,
+            action: "rescheduled",
+            reason,
+            previousStartsAt: existing.startsAt,
+          }).then(
+            (notified) => ({ notified, notificationFailed: false }),
+            () => ({ notified: 0, notificationFailed: true }),
+          )
+        : { notified: 0, notificationFailed: false };
+      return { game: updated, ...notification };
+    }),
+
+  /** Cancel a game that has not finished, with a reason. The game is kept (and shown as cancelled); teams are emailed unless notifyTeams is false. */
+  cancelGame: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        gameId: z.string(),
+        reason: z.string().trim().min(1, "Give a reason").max(500),
+        notifyTeams: z.boolean().default(true),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await requireOrgGame(
+        ctx,
+        input.organizationId,
+        input.gameId,
+      );
+      if (existing.playoff) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Playoff games cannot be cancelled. Reschedule or forfeit them instead",
+        });
+      }
+      if (
+        existing.status === "cancelled" ||
+        !canChangeGameStatus(existing.status, "cancelled")
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: describeRejectedTransition(existing.status, "cancelled"),
+        });
+      }
+      const updated = await ctx.db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(game)
+          .set({
+            status: "cancelled",
+            statusReason: input.reason,
+            updatedAt: new Date(),
+          })
+          .where(eq(game.id, existing.id))
+          .returning();
+        if (row) {
+          await tx.insert(gameChange).values({
+            gameId: row.id,
+            action: "cancelled",
+            fromStatus: existing.status,
+            toStatus: row.status,
+            reason: input.reason,
+            changedByUserId: ctx.user.id,
+          });
+        }
+        return row;
+      });
+      if (!updated) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to cancel game",
+        });
+      }
+      const notification = input.notifyTeams
+        ? await notifyGameChange(ctx.db, ctx.env, {
+            gameId: updated.id,
+            action: "cancelled",
+            reason: input.reason,
+          }).then(
+            (notified) => ({ notified, notificationFailed: false }),
+            () => ({ notified: 0, notificationFailed: true }),
+          )
+        : { notified: 0, notificationFailed: false };
+      return { game: updated, ...notification };
+    }),
+
+  /** Record that one side forfeited a game that has not finished. Teams are emailed unless notifyTeams is false. */
+  forfeitGame: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        gameId: z.string(),
+        /** league_team id of the side that forfeits. */
+        forfeitedByLeagueTeamId: z.string(),
+        reason: z.string().trim().max(500).optional(),
+        notifyTeams: z.boolean().default(true),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await requireOrgGame(
+        ctx,
+        input.organizationId,
+        input.gameId,
+      );
+      if (
+        input.forfeitedByLeagueTeamId !== existing.homeLeagueTeamId &&
+        input.forfeitedByLeagueTeamId !== existing.awayLeagueTeamId
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The forfeiting team must be playing in this game",
+        });
+      }
+      if (
+        existing.status === "forfeit" ||
+        !canChangeGameStatus(existing.status, "forfeit")
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: describeRejectedTransition(existing.status, "forfeit"),
+        });
+      }
+      const reason = input.reason || null;
+      const updated = await ctx.db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(game)
+          .set({
+            status: "forfeit",
+            statusReason: reason,
+            forfeitedByLeagueTeamId: input.forfeitedByLeagueTeamId,
+            updatedAt: new Date(),
+          })
+          .where(eq(game.id, existing.id))
+          .returning();
+        if (row) {
+          await tx.insert(gameChange).values({
+            gameId: row.id,
+            action: "forfeited",
+            fromStatus: existing.status,
+            toStatus: row.status,
+            reason,
+            changedByUserId: ctx.user.id,
+          });
+          await serveGameSuspensions(tx, input.organizationId, row);
+        }
+        if (row && existing.playoffBracketId) {
+          const { lockedMatchKeys } = await syncPlayoffBracket(
+            tx,
+            existing.playoffBracketId,
+            ctx.user.id,
+          );
+          if (lockedMatchKeys.length > 0) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message:
+                "Later playoff games have already been played. Correct those results first",
+            });
+          }
+        }
+        return row;
+      });
+      if (!updated) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to record forfeit",
+        });
+      }
+      const notification = input.notifyTeams
+        ? await notifyGameChange(ctx.db, ctx.env, {
+            gameId: updated.id,
+            action: "forfeited",
+            reason,
+            forfeitedByLeagueTeamId: input.forfeitedByLeagueTeamId,
+          }).then(
+            (notified) => ({ notified, notificationFailed: false }),
+            () => ({ notified: 0, notificationFailed: true }),
+          )
+        : { notified: 0, notificationFailed: false };
+      await publishGameEvent(ctx.db, ctx.live, existing, updated);
+      return { game: updated, ...notification };
+    }),
+
+  /** Record a game's score: a live update while it is in progress, or its final or abandoned result. Period scores must add up to the totals. */
+  recordGameResult: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        gameId: z.string(),
+        status: z.enum(RESULT_GAME_STATUSES).default("final"),
+        homeScore: scoreSchema,
+        awayScore: scoreSchema,
+        periodScores: periodScoresSchema.optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await requireOrgGame(
+        ctx,
+        input.organizationId,
+        input.gameId,
+      );
+      if (FINISHED_GAME_STATUSES.includes(existing.status)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This game already has a result. Correct it instead",
+        });
+      }
+      if (
+        !canRecordGameResult(existing.status) ||
+        !canChangeGameStatus(existing.status, input.status)
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: describeRejectedTransition(existing.status, input.status),
+        });
+      }
+      const now = new Date();
+      if (existing.startsAt > now) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Scores can only be entered once the game has started",
+        });
+      }
+      const invalidScore = validateGameScore(input);
+      if (invalidScore) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: invalidScore });
+      }
+      if (
+        existing.playoffBracketId &&
+        input.status === "final" &&
+        input.homeScore === input.awayScore
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "A playoff game needs a winner",
+        });
+      }
+      const finished = FINISHED_GAME_STATUSES.includes(input.status);
+      const updated = await ctx.db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(game)
+          .set({
+            status: input.status,
+            homeScore: input.homeScore,
+            awayScore: input.awayScore,
+            periodScores: input.periodScores?.length ? input.periodScores : null,
+            resultRecordedAt: finished ? now : null,
+            updatedAt: now,
+          })
+          .where(eq(game.id, existing.id))
+          .returning();
+        // Live score updates are not history; starting and finishing the game are.
+        if (row && (finished || existing.status !== row.status)) {
+          await tx.insert(gameChange).values({
+            gameId: row.id,
+            action: finished ? "result_recorded" : "updated",
+            fromStatus: existing.status,
+            toStatus: row.status,
+            previousHomeScore: existing.homeScore,
+            previousAwayScore: existing.awayScore,
+            homeScore: row.homeScore,
+            awayScore: row.awayScore,
+            changedByUserId: ctx.user.id,
+          });
+        }
+        if (row && finished) {
+          await serveGameSuspensions(tx, input.organizationId, row);
+        }
+        if (row && existing.playoffBracketId) {
+          const { lockedMatchKeys } = await syncPlayoffBracket(
+            tx,
+            existing.playoffBracketId,
+            ctx.user.id,
+          );
+          if (lockedMatchKeys.length > 0) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message:
+                "Later playoff games have already been played. Correct those results first",
+            });
+          }
+        }
+        return row;
+      });
+      if (!updated) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to record result",
+        });
+      }
+      await publishGameEvent(ctx.db, ctx.live, existing, updated);
+      return updated;
+    }),
+
+  /** Correct the score (or final/abandoned status) of a finished game. The reason and previous score are kept in the game's history. Settles a score reported by a team admin, including disputed ones. */
+  correctGameResult: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        gameId: z.string(),
+        status: z.enum(["final", "abandoned"]).optional(),
+        homeScore: scoreSchema,
+        awayScore: scoreSchema,
+        periodScores: periodScoresSchema.optional(),
+        reason: z.string().trim().min(1, "Reason is required").max(500),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await requireOrgGame(
+        ctx,
+        input.organizationId,
+        input.gameId,
+      );
+      if (!FINISHED_GAME_STATUSES.includes(existing.status)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only final or abandoned results can be corrected",
+        });
+      }
+      const invalidScore = validateGameScore(input);
+      if (invalidScore) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: invalidScore });
+      }
+      if (
+        existing.playoffBracketId &&
+        ((input.status ?? existing.status) !== "final" ||
+          input.homeScore === input.awayScore)
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "A playoff result must be final with a winner",
+        });
+      }
+      const updated = await ctx.db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(game)
+          .set({
+            ...(input.status ? { status: input.status } : {}),
+            homeScore: input.homeScore,
+            awayScore: input.awayScore,
+            periodScores: input.periodScores?.length ? input.periodScores : null,
+            resultRecordedAt: new Date(),
+            ...(existing.scoreConfirmation
+              ? { scoreConfirmation: "confirmed" as const, scoreDisputeReason: null }
+              : {}),
+            updatedAt: new Date(),
+          })
+          .where(eq(game.id, existing.id))
+          .returning();
+        if (row) {
+          await tx.insert(gameChange).values({
+            gameId: row.id,
+            action:
+              existing.scoreConfirmation === "disputed"
+                ? "dispute_resolved"
+                : "result_corrected",
+            fromStatus: existing.status,
+            toStatus: row.status,
+            reason: input.reason,
+            previousHomeScore: existing.homeScore,
+            previousAwayScore: existing.awayScore,
+            homeScore: row.homeScore,
+            awayScore: row.awayScore,
+            changedByUserId: ctx.user.id,
+          });
+        }
+        if (row && existing.playoffBracketId) {
+          const { lockedMatchKeys } = await syncPlayoffBracket(
+            tx,
+            existing.playoffBracketId,
+            ctx.user.id,
+          );
+          if (lockedMatchKeys.length > 0) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message:
+                "Later playoff games have already been played. Correct those results first",
+            });
+          }
+        }
+        return row;
+      });
+      if (!updated) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to correct result",
+        });
+      }
+      await publishGameEvent(ctx.db, ctx.live, existing, updated);
+      return updated;
+    }),
+
+  /** A game's history (creation, edits, postponements, reschedules, cancellation, results), newest first, with who made each change and surface names where known. */
+  listGameChanges: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        gameId: z.string(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const existing = await requireOrgGame(
+        ctx,
+        input.organizationId,
+        input.gameId,
+        { includeDeleted: true },
+      );
+      const changes = await ctx.db
+        .select({
+          id: gameChange.id,
+          action: gameChange.action,
+          fromStatus: gameChange.fromStatus,
+          toStatus: gameChange.toStatus,
+          reason: gameChange.reason,
+          previousStartsAt: gameChange.previousStartsAt,
+          previousEndsAt: gameChange.previousEndsAt,
+          previousFacilitySurfaceId: gameChange.previousFacilitySurfaceId,
+          startsAt: gameChange.startsAt,
+          endsAt: gameChange.endsAt,
+          facilitySurfaceId: gameChange.facilitySurfaceId,
+          previousHomeScore: gameChange.previousHomeScore,
+          previousAwayScore: gameChange.previousAwayScore,
+          homeScore: gameChange.homeScore,
+          awayScore: gameChange.awayScore,
+          changedByName: user.name,
+          createdAt: gameChange.createdAt,
+        })
+        .from(gameChange)
+        .leftJoin(user, eq(user.id, gameChange.changedByUserId))
+        .where(eq(gameChange.gameId, existing.id))
+        .orderBy(desc(gameChange.createdAt));
+      const surfaceIds = [
+        ...new Set(
+          changes.flatMap((c) =>
+            [c.previousFacilitySurfaceId, c.facilitySurfaceId].filter(
+              (id): id is string => id != null,
+            ),
+          ),
+        ),
+      ];
+      const surfaces = surfaceIds.length
+        ? await ctx.db
+            .select({
+              id: facilitySurface.id,
+              name: facilitySurface.name,
+              facilityName: facility.name,
+            })
+            .from(facilitySurface)
+            .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+            .where(inArray(facilitySurface.id, surfaceIds))
+        : [];
+      const surfaceNames = new Map(
+        surfaces.map((s) => [s.id, `${s.facilityName} · ${s.name}`]),
+      );
+      return changes.map((c) => ({
+        ...c,
+        previousVenue: c.previousFacilitySurfaceId
+          ? (surfaceNames.get(c.previousFacilitySurfaceId) ?? null)
+          : null,
+        venue: c.facilitySurfaceId
+          ? (surfaceNames.get(c.facilitySurfaceId) ?? null)
+          : null,
+      }));
+    }),
+
+  /** Preview a single or double round-robin schedule for the league's current season on the chosen surfaces, one round robin per division. Uses the league's playing days and the season's dates unless overridden; nothing is saved. */
+  generateLeagueSchedule: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+        format: z.enum(["single", "double"]),
+        facilitySurfaceIds: z
+          .array(z.string())
+          .min(1, "Pick at least one surface"),
+        gameDurationMinutes: z.number().int().min(10).max(600),
+        startDate: dateStringSchema.optional(),
+        endDate: dateStringSchema.optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const leagueRow = await requireOrgLeague(
+        ctx,
+        input.organizationId,
+        input.leagueId,
+      );
+      const currentSeason = await getLeagueSeason(ctx.db, input.leagueId);
+      if (!currentSeason) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Season not found",
+        });
+      }
+      const startDate = input.startDate ?? currentSeason.startDate;
+      if (!startDate) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Set a start date for the season or the schedule",
+        });
+      }
+      const endDate = input.endDate ?? currentSeason.endDate ?? null;
+      if (endDate != null && endDate < startDate) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "End date must be on or after the start date",
+        });
+      }
+      const operatingSchedule = leagueRow.operatingSchedule ?? {};
+      if (!Object.values(operatingSchedule).some((hours) => hours != null)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Set the league's playing days and hours first",
+        });
+      }
+      const teams = await ctx.db
+        .select({
+          leagueTeamId: leagueTeam.id,
+          name: team.name,
+          divisionId: leagueTeam.divisionId,
+        })
+        .from(leagueTeam)
+        .innerJoin(team, eq(leagueTeam.teamId, team.id))
+        .where(eq(leagueTeam.seasonId, currentSeason.id))
+        .orderBy(asc(team.name));
+      if (teams.length < 2) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The season needs at least two teams",
+        });
+      }
+      // Teams play only within their division; teams not placed in one play each other.
+      const teamIdsByDivision = new Map<string | null, string[]>();
+      for (const t of teams) {
+        teamIdsByDivision.set(t.divisionId, [
+          ...(teamIdsByDivision.get(t.divisionId) ?? []),
+          t.leagueTeamId,
+        ]);
+      }
+      if ([...teamIdsByDivision.values()].some((ids) => ids.length < 2)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Every division needs at least two teams",
+        });
+      }
+      const surfaceIds = [...new Set(input.facilitySurfaceIds)];
+      const surfaceRows = await ctx.db
+        .select({
+          id: facilitySurface.id,
+          name: facilitySurface.name,
+          facilityName: facility.name,
+          facilityOperatingSchedule: facility.operatingSchedule,
+          facilityScheduleExceptions: facility.scheduleExceptions,
+        })
+        .from(facilitySurface)
+        .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(
+          and(
+            inArray(facilitySurface.id, surfaceIds),
+            eq(facility.organizationId, input.organizationId),
+          ),
+        );
+      if (surfaceRows.length !== surfaceIds.length) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Surface not found",
+        });
+      }
+      const surfacesById = new Map(surfaceRows.map((s) => [s.id, s]));
+      const teamNames = new Map(teams.map((t) => [t.leagueTeamId, t.name]));
+      const divisionRounds = [...teamIdsByDivision.values()].map((ids) =>
+        buildRoundRobinRounds(ids, input.format),
+      );
+      const rounds = mergeRoundRobins(divisionRounds);
+      const { games, unscheduled } = assignRoundsToSlots(rounds, {
+        startDate,
+        endDate,
+        operatingSchedule,
+        scheduleExceptions: leagueRow.scheduleExceptions,
+        surfaces: surfaceIds.map((id) => ({
+          id,
+          facilityOperatingSchedule:
+            surfacesById.get(id)?.facilityOperatingSchedule ?? null,
+          facilityScheduleExceptions:
+            surfacesById.get(id)?.facilityScheduleExceptions ?? null,
+        })),
+        gameDurationMinutes: input.gameDurationMinutes,
+      });
+      return {
+        format: input.format,
+        startDate,
+        endDate,
+        rounds: rounds.length,
+        games: games.map((g) => ({
+          round: g.round,
+          date: g.date,
+          startTime: g.startTime,
+          endTime: g.endTime,
+          homeLeagueTeamId: g.home,
+          homeTeamName: teamNames.get(g.home) ?? "",
+          awayLeagueTeamId: g.away,
+          awayTeamName: teamNames.get(g.away) ?? "",
+          facilitySurfaceId: g.surfaceId,
+          surfaceName: surfacesById.get(g.surfaceId)?.name ?? "",
+          facilityName: surfacesById.get(g.surfaceId)?.facilityName ?? "",
+        })),
+        byes: divisionRounds
+          .flat()
+          .sort((a, b) => a.round - b.round)
+          .flatMap((r) =>
+            r.bye != null
+              ? [
+                  {
+                    round: r.round,
+                    leagueTeamId: r.bye,
+                    teamName: teamNames.get(r.bye) ?? "",
+                  },
+                ]
+              : [],
+          ),
+        unscheduled: unscheduled.map((p) => ({
+          round: p.round,
+          homeLeagueTeamId: p.home,
+          homeTeamName: teamNames.get(p.home) ?? "",
+          awayLeagueTeamId: p.away,
+          awayTeamName: teamNames.get(p.away) ?? "",
+        })),
+      };
+    }),
+
+  /** Save a reviewed schedule preview as games of the current season. Wall-clock dates/times are interpreted in each surface's facility time zone. Optionally replaces the season's games that are still scheduled. */
+  commitLeagueSchedule: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+        replaceScheduled: z.boolean().default(false),
+        games: z
+          .array(
+            z.object({
+              homeLeagueTeamId: z.string(),
+              awayLeagueTeamId: z.string(),
+              facilitySurfaceId: z.string(),
+              date: dateStringSchema,
+              startTime: timeOfDaySchema,
+              endTime: timeOfDaySchema,
+            }),
+          )
+          .min(1, "The schedule has no games"),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgLeague(ctx, input.organizationId, input.leagueId);
+      for (const g of input.games) {
+        if (g.homeLeagueTeamId === g.awayLeagueTeamId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "A team cannot play itself",
+          });
+        }
+        if (g.endTime <= g.startTime) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Game must end after it starts",
+          });
+        }
+      }
+      const leagueTeamIds = [
+        ...new Set(
+          input.games.flatMap((g) => [g.homeLeagueTeamId, g.awayLeagueTeamId]),
+        ),
+      ];
+      const currentSeason = await getLeagueSeason(ctx.db, input.leagueId);
+      if (!currentSeason) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Season not found",
+        });
+      }
+      const sides = await ctx.db
+        .select({ id: leagueTeam.id, divisionId: leagueTeam.divisionId })
+        .from(leagueTeam)
+        .where(
+          and(
+            eq(leagueTeam.seasonId, currentSeason.id),
+            inArray(leagueTeam.id, leagueTeamIds),
+          ),
+        );
+      if (sides.length !== leagueTeamIds.length) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "All teams must be in the current season",
+        });
+      }
+      const divisionByLeagueTeam = new Map(
+        sides.map((s) => [s.id, s.divisionId]),
+      );
+      if (
+        input.games.some(
+          (g) =>
+            divisionByLeagueTeam.get(g.homeLeagueTeamId) !==
+            divisionByLeagueTeam.get(g.awayLeagueTeamId),
+        )
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Both teams of every game must be in the same division",
+        });
+      }
+      const surfaceIds = [...new Set(input.games.map((g) => g.facilitySurfaceId))];
+      const surfaceRows = await ctx.db
+        .select({ id: facilitySurface.id, timeZone: facility.timeZone })
+        .from(facilitySurface)
+        .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(
+          and(
+            inArray(facilitySurface.id, surfaceIds),
+            eq(facility.organizationId, input.organizationId),
+          ),
+        );
+      if (surfaceRows.length !== surfaceIds.length) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Surface not found",
+        });
+      }
+      const surfaceTimeZones = new Map(surfaceRows.map((s) => [s.id, s.timeZone]));
+      const values = input.games.map((g) => {
+        const timeZone = surfaceTimeZones.get(g.facilitySurfaceId)!;
+        return {
+          leagueId: input.leagueId,
+          seasonId: currentSeason.id,
+          homeLeagueTeamId: g.homeLeagueTeamId,
+          awayLeagueTeamId: g.awayLeagueTeamId,
+          facilitySurfaceId: g.facilitySurfaceId,
+          startsAt: zonedTimeToInstant(g.date, g.startTime, timeZone),
+          endsAt: zonedTimeToInstant(g.date, g.endTime, timeZone),
+        };
+      });
+      const replaced = input.replaceScheduled
+        ? await ctx.db
+            .select({ id: game.id })
+            .from(game)
+            .where(
+              and(
+                eq(game.seasonId, currentSeason.id),
+                eq(game.status, "scheduled"),
+                isNull(game.deletedAt),
+              ),
+            )
+        : [];
+      const conflicts = await findScheduleConflicts(ctx.db, values, {
+        gameIds: replaced.map((g) => g.id),
+      });
+      if (conflicts.length > 0) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Schedule conflicts with the facility schedule",
+          cause: new ScheduleConflictError(conflicts),
+        });
+      }
+      return ctx.db.transaction(async (tx) => {
+        const removed = replaced.length
+          ? await tx
+              .update(game)
+              .set({ deletedAt: new Date() })
+              .where(
+                inArray(
+                  game.id,
+                  replaced.map((g) => g.id),
+                ),
+              )
+              .returning({ id: game.id })
+          : [];
+        const created = await tx.insert(game).values(values).returning();
+        await tx.insert(gameChange).values([
+          ...removed.map((g) => ({
+            gameId: g.id,
+            action: "deleted" as const,
+            fromStatus: "scheduled" as const,
+            reason: "Replaced by a generated schedule",
+            changedByUserId: ctx.user.id,
+          })),
+          ...created.map((g) => ({
+            gameId: g.id,
+            action: "created" as const,
+            toStatus: g.status,
+            startsAt: g.startsAt,
+            endsAt: g.endsAt,
+            facilitySurfaceId: g.facilitySurfaceId,
+            changedByUserId: ctx.user.id,
+          })),
+        ]);
+        return { created: created.length, removed: removed.length };
+      });
+    }),
+
+  /** Fairness report for a season's schedule (the current one by default): per-team home/away balance, early/late slots, back-to-backs, rest days and surfaces, with outliers flagged. Postponed, cancelled, forfeited and playoff games are left out. */
+  getLeagueScheduleFairness: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+        seasonId: z.string().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      await requireOrgLeague(ctx, input.organizationId, input.leagueId);
+      const [org] = await ctx.db
+        .select({ timeZone: organization.timeZone })
+        .from(organization)
+        .where(eq(organization.id, input.organizationId));
+      if (!org) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Organization not found",
+        });
+      }
+      const selectedSeason = await getLeagueSeason(
+        ctx.db,
+        input.leagueId,
+        input.seasonId,
+      );
+      if (!selectedSeason) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Season not found",
+        });
+      }
+      const teams = await ctx.db
+        .select({ leagueTeamId: leagueTeam.id, name: team.name })
+        .from(leagueTeam)
+        .innerJoin(team, eq(team.id, leagueTeam.teamId))
+        .where(eq(leagueTeam.seasonId, selectedSeason.id))
+        .orderBy(asc(team.name));
+      const games = await ctx.db
+        .select({
+          homeLeagueTeamId: game.homeLeagueTeamId,
+          awayLeagueTeamId: game.awayLeagueTeamId,
+          facilitySurfaceId: game.facilitySurfaceId,
+          startsAt: game.startsAt,
+          timeZone: facility.timeZone,
+        })
+        .from(game)
+        .leftJoin(facilitySurface, eq(facilitySurface.id, game.facilitySurfaceId))
+        .leftJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(
+          and(
+            eq(game.seasonId, selectedSeason.id),
+            eq(game.playoff, false),
+            isNull(game.deletedAt),
+            inArray(game.status, ["scheduled", "in_progress", "final"]),
+          ),
+        );
+      const report = analyzeScheduleFairness(
+        teams,
+        games.map((g) => ({ ...g, timeZone: g.timeZone ?? org.timeZone })),
+      );
+      const surfaceIds = [
+        ...new Set(
+          games
+            .map((g) => g.facilitySurfaceId)
+            .filter((id): id is string => id != null),
+        ),
+      ];
+      const surfaces = surfaceIds.length
+        ? await ctx.db
+            .select({
+              id: facilitySurface.id,
+              name: facilitySurface.name,
+              facilityName: facility.name,
+            })
+            .from(facilitySurface)
+            .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+            .where(inArray(facilitySurface.id, surfaceIds))
+        : [];
+      return {
+        ...report,
+        surfaces: surfaces.map((s) => ({
+          id: s.id,
+          name: `${s.facilityName} · ${s.name}`,
+        })),
+      };
+    }),
+
+  // ——— Score reports ———
+
+  /** Games of teams the user is admin of that need a score reported (started in the last 30 days) or answered. Needs no organization membership. */
+  listTeamAdminGames: protectedProcedure.query(async ({ ctx }) => {
+    const adminTeams = await ctx.db
+      .select({ teamId: teamMember.teamId })
+      .from(teamMember)
+      .where(and(eq(teamMember.userId, ctx.user.id), eq(teamMember.role, "admin")));
+    const adminTeamIds = adminTeams.map((t) => t.teamId);
+    if (adminTeamIds.length === 0) return [];
+    const now = new Date();
+    const rows = await ctx.db
+      .select({
+        id: game.id,
+        leagueId: game.leagueId,
+        leagueName: league.name,
+        homeLeagueTeamId: game.homeLeagueTeamId,
+        awayLeagueTeamId: game.awayLeagueTeamId,
+        homeTeamId: homeTeam.id,
+        homeTeamName: homeTeam.name,
+        awayTeamId: awayTeam.id,
+        awayTeamName: awayTeam.name,
+        startsAt: game.startsAt,
+        status: game.status,
+        playoff: game.playoff,
+        homeScore: game.homeScore,
+        awayScore: game.awayScore,
+        scoreConfirmation: game.scoreConfirmation,
+        scoreReportedByLeagueTeamId: game.scoreReportedByLeagueTeamId,
+        scoreReportedByUserId: game.scoreReportedByUserId,
+        scoreDisputeReason: game.scoreDisputeReason,
+      })
+      .from(game)
+      .innerJoin(league, eq(league.id, game.leagueId))
+      .innerJoin(homeLeagueTeam, eq(homeLeagueTeam.id, game.homeLeagueTeamId))
+      .innerJoin(homeTeam, eq(homeTeam.id, homeLeagueTeam.teamId))
+      .innerJoin(awayLeagueTeam, eq(awayLeagueTeam.id, game.awayLeagueTeamId))
+      .innerJoin(awayTeam, eq(awayTeam.id, awayLeagueTeam.teamId))
+      .where(
+        and(
+          isNull(game.deletedAt),
+          eq(game.playoff, false),
+          or(inArray(homeTeam.id, adminTeamIds), inArray(awayTeam.id, adminTeamIds)),
+          or(
+            and(
+              inArray(game.status, ["scheduled", "in_progress"]),
+              lte(game.startsAt, now),
+              gte(game.startsAt, new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000)),
+            ),
+            inArray(game.scoreConfirmation, ["pending", "disputed"]),
+          ),
+        ),
+      )
+      .orderBy(asc(game.startsAt));
+    return rows.map((row) => {
+      const side = adminTeamIds.includes(row.homeTeamId) ? ("home" as const) : ("away" as const);
+      const sides = [
+        ...(adminTeamIds.includes(row.homeTeamId) ? [row.homeLeagueTeamId] : []),
+        ...(adminTeamIds.includes(row.awayTeamId) ? [row.awayLeagueTeamId] : []),
+      ];
+      return {
+        ...row,
+        side,
+        canReport: sides.some((s) => getScoreReportBlocker(row, s, now) === null),
+        canRespond: getScoreResponseBlocker(row, sides, ctx.user.id) === null,
+      };
+    });
+  }),
+
+  /** Report a game's final score as one side's team admin. It counts in standings once the other side's admin confirms it. Needs no organization membership. */
+  reportGameScore: protectedProcedure
+    .input(
+      z.object({
+        gameId: z.string(),
+        homeScore: scoreSchema,
+        awayScore: scoreSchema,
+        periodScores: periodScoresSchema.optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [existing] = await ctx.db
+        .select({
+          id: game.id,
+          organizationId: league.organizationId,
+          homeLeagueTeamId: game.homeLeagueTeamId,
+          awayLeagueTeamId: game.awayLeagueTeamId,
+          homeTeamId: homeLeagueTeam.teamId,
+          awayTeamId: awayLeagueTeam.teamId,
+          startsAt: game.startsAt,
+          status: game.status,
+          playoff: game.playoff,
+          homeScore: game.homeScore,
+          awayScore: game.awayScore,
+          periodScores: game.periodScores,
+          scoreConfirmation: game.scoreConfirmation,
+          scoreReportedByLeagueTeamId: game.scoreReportedByLeagueTeamId,
+          scoreReportedByUserId: game.scoreReportedByUserId,
+        })
+        .from(game)
+        .innerJoin(league, eq(league.id, game.leagueId))
+        .innerJoin(homeLeagueTeam, eq(homeLeagueTeam.id, game.homeLeagueTeamId))
+        .innerJoin(awayLeagueTeam, eq(awayLeagueTeam.id, game.awayLeagueTeamId))
+        .where(and(eq(game.id, input.gameId), isNull(game.deletedAt)));
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Game not found" });
+      }
+      const adminTeams = await ctx.db
+        .select({ teamId: teamMember.teamId })
+        .from(teamMember)
+        .where(
+          and(
+            eq(teamMember.userId, ctx.user.id),
+            eq(teamMember.role, "admin"),
+            inArray(teamMember.teamId, [existing.homeTeamId, existing.awayTeamId]),
+          ),
+        );
+      const sides = [
+        ...(adminTeams.some((t) => t.teamId === existing.homeTeamId)
+          ? [existing.homeLeagueTeamId]
+          : []),
+        ...(adminTeams.some((t) => t.teamId === existing.awayTeamId)
+          ? [existing.awayLeagueTeamId]
+          : []),
+      ];
+      if (sides.length === 0) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Only the admins of the two teams can report this score",
+        });
+      }
+      const now = new Date();
+      const blockers = sides.map((s) => getScoreReportBlocker(existing, s, now));
+      const side = sides.find((_, i) => blockers[i] === null);
+      if (!side) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: blockers.find((b) => b !== null) ?? "This score cannot be reported",
+        });
+      }
+      const invalidScore = validateGameScore(input);
+      if (invalidScore) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: invalidScore });
+      }
+      const updated = await ctx.db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(game)
+          .set({
+            status: "final",
+            homeScore: input.homeScore,
+            awayScore: input.awayScore,
+            periodScores: input.periodScores?.length ? input.periodScores : null,
+            resultRecordedAt: now,
+            scoreConfirmation: "pending",
+            scoreReportedByLeagueTeamId: side,
+            scoreReportedByUserId: ctx.user.id,
+            scoreDisputeReason: null,
+            updatedAt: now,
+          })
+          .where(eq(game.id, existing.id))
+          .returning();
+        if (row) {
+          await tx.insert(gameChange).values({
+            gameId: row.id,
+            action: "result_reported",
+            fromStatus: existing.status,
+            toStatus: row.status,
+            previousHomeScore: existing.homeScore,
+            previousAwayScore: existing.awayScore,
+            homeScore: row.homeScore,
+            awayScore: row.awayScore,
+            changedByUserId: ctx.user.id,
+          });
+          await serveGameSuspensions(tx, existing.organizationId, row);
+        }
+        return row;
+      });
+      if (!updated) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to report score",
+        });
+      }
+      await publishGameEvent(ctx.db, ctx.live, existing, updated);
+      return updated;
+    }),
+
+  /** Confirm or dispute the score the other side's team admin reported. The reporter and admins of the reporting side cannot answer it. A dispute goes to league staff. Needs no organization membership. */
+  respondToGameScore: protectedProcedure
+    .input(
+      z
+        .object({
+          gameId: z.string(),
+          response: z.enum(["confirm", "dispute"]),
+          reason: z.string().trim().max(500).optional(),
+        })
+        .refine(
+          (r) => r.response === "confirm" || Boolean(r.reason),
+          "Say why you dispute the score",
+        ),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [existing] = await ctx.db
+        .select({
+          id: game.id,
+          homeLeagueTeamId: game.homeLeagueTeamId,
+          awayLeagueTeamId: game.awayLeagueTeamId,
+          homeTeamId: homeLeagueTeam.teamId,
+          awayTeamId: awayLeagueTeam.teamId,
+          startsAt: game.startsAt,
+          status: game.status,
+          playoff: game.playoff,
+          homeScore: game.homeScore,
+          awayScore: game.awayScore,
+          scoreConfirmation: game.scoreConfirmation,
+          scoreReportedByLeagueTeamId: game.scoreReportedByLeagueTeamId,
+          scoreReportedByUserId: game.scoreReportedByUserId,
+        })
+        .from(game)
+        .innerJoin(homeLeagueTeam, eq(homeLeagueTeam.id, game.homeLeagueTeamId))
+        .innerJoin(awayLeagueTeam, eq(awayLeagueTeam.id, game.awayLeagueTeamId))
+        .where(and(eq(game.id, input.gameId), isNull(game.deletedAt)));
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Game not found" });
+      }
+      const adminTeams = await ctx.db
+        .select({ teamId: teamMember.teamId })
+        .from(teamMember)
+        .where(
+          and(
+            eq(teamMember.userId, ctx.user.id),
+            eq(teamMember.role, "admin"),
+            inArray(teamMember.teamId, [existing.homeTeamId, existing.awayTeamId]),
+          ),
+        );
+      const sides = [
+        ...(adminTeams.some((t) => t.teamId === existing.homeTeamId)
+          ? [existing.homeLeagueTeamId]
+          : []),
+        ...(adminTeams.some((t) => t.teamId === existing.awayTeamId)
+          ? [existing.awayLeagueTeamId]
+          : []),
+      ];
+      if (sides.length === 0) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Only the admins of the two teams can answer this score",
+        });
+      }
+      const blocker = getScoreResponseBlocker(existing, sides, ctx.user.id);
+      if (blocker) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: blocker });
+      }
+      const confirmed = input.response === "confirm";
+      return ctx.db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(game)
+          .set({
+            scoreConfirmation: confirmed ? "confirmed" : "disputed",
+            scoreDisputeReason: confirmed ? null : input.reason,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(game.id, existing.id), eq(game.scoreConfirmation, "pending")))
+          .returning();
+        if (!row) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "The reported score changed. Reload and try again",
+          });
+        }
+        await tx.insert(gameChange).values({
+          gameId: row.id,
+          action: confirmed ? "result_confirmed" : "result_disputed",
+          reason: confirmed ? null : input.reason,
+          homeScore: row.homeScore,
+          awayScore: row.awayScore,
+          changedByUserId: ctx.user.id,
+        });
+        return row;
+      });
+    }),
+
+  /** Reported scores waiting for the other side or for staff, disputes first. Staff settle them with correctGameResult. User must be a member of the org. */
+  listScoreReports: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const rows = await ctx.db
+        .select({
+          id: game.id,
+          leagueId: game.leagueId,
+          leagueName: league.name,
+          homeLeagueTeamId: game.homeLeagueTeamId,
+          awayLeagueTeamId: game.awayLeagueTeamId,
+          homeTeamName: homeTeam.name,
+          awayTeamName: awayTeam.name,
+          startsAt: game.startsAt,
+          status: game.status,
+          homeScore: game.homeScore,
+          awayScore: game.awayScore,
+          periodScores: game.periodScores,
+          scoreConfirmation: game.scoreConfirmation,
+          scoreReportedByLeagueTeamId: game.scoreReportedByLeagueTeamId,
+          scoreDisputeReason: game.scoreDisputeReason,
+        })
+        .from(game)
+        .innerJoin(league, eq(league.id, game.leagueId))
+        .innerJoin(homeLeagueTeam, eq(homeLeagueTeam.id, game.homeLeagueTeamId))
+        .innerJoin(homeTeam, eq(homeTeam.id, homeLeagueTeam.teamId))
+        .innerJoin(awayLeagueTeam, eq(awayLeagueTeam.id, game.awayLeagueTeamId))
+        .innerJoin(awayTeam, eq(awayTeam.id, awayLeagueTeam.teamId))
+        .where(
+          and(
+            eq(league.organizationId, input.organizationId),
+            input.leagueId ? eq(game.leagueId, input.leagueId) : undefined,
+            isNull(game.deletedAt),
+            inArray(game.scoreConfirmation, ["pending", "disputed"]),
+          ),
+        )
+        .orderBy(asc(game.startsAt));
+      return [
+        ...rows.filter((r) => r.scoreConfirmation === "disputed"),
+        ...rows.filter((r) => r.scoreConfirmation === "pending"),
+      ];
+    }),
+
+  // ——— Standings ———
+
+  /** Season standings (the current season by default) from final and forfeited regular-season games, ranked by points and the league's tiebreakers. Leagues with divisions also get a table per division, marking the teams that would be promoted or relegated. User must be a member of the org. */
+  getLeagueStandings: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+        seasonId: z.string().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const leagueRow = await requireOrgLeague(
+        ctx,
+        input.organizationId,
+        input.leagueId,
+      );
+      const selectedSeason = await getLeagueSeason(
+        ctx.db,
+        input.leagueId,
+        input.seasonId,
+      );
+      if (!selectedSeason) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Season not found",
+        });
+      }
+      const teams = await ctx.db
+        .select({
+          leagueTeamId: leagueTeam.id,
+          name: team.name,
+          divisionId: leagueTeam.divisionId,
+        })
+        .from(leagueTeam)
+        .innerJoin(team, eq(team.id, leagueTeam.teamId))
+        .where(eq(leagueTeam.seasonId, selectedSeason.id));
+      const games = await ctx.db
+        .select({
+          homeLeagueTeamId: game.homeLeagueTeamId,
+          awayLeagueTeamId: game.awayLeagueTeamId,
+          status: game.status,
+          homeScore: game.homeScore,
+          awayScore: game.awayScore,
+          forfeitedByLeagueTeamId: game.forfeitedByLeagueTeamId,
+          startsAt: game.startsAt,
+        })
+        .from(game)
+        .where(
+          and(
+            eq(game.seasonId, selectedSeason.id),
+            eq(game.playoff, false),
+            isNull(game.deletedAt),
+            inArray(game.status, ["final", "forfeit"]),
+            countedResult,
+          ),
+        );
+      const decided = games.map((g) => ({
+        ...g,
+        status:
+          g.status === "forfeit" ? ("forfeit" as const) : ("final" as const),
+      }));
+      const config = {
+        pointsForWin: leagueRow.pointsForWin,
+        pointsForTie: leagueRow.pointsForTie,
+        pointsForLoss: leagueRow.pointsForLoss,
+        tiebreakers: leagueRow.standingsTiebreakers,
+        coinFlipSeed: leagueRow.id,
+      };
+      const rows = computeStandings(teams, decided, config);
+      const divisions = await ctx.db
+        .select({
+          id: division.id,
+          name: division.name,
+          rank: division.rank,
+          promotionCount: division.promotionCount,
+          relegationCount: division.relegationCount,
+        })
+        .from(division)
+        .where(eq(division.leagueId, input.leagueId))
+        .orderBy(asc(division.rank), asc(division.name));
+      const divisionStandings = computeDivisionStandings(
+        divisions,
+        teams,
+        decided,
+        config,
+      );
+      const moves = getDivisionMoves(
+        divisions,
+        new Map(
+          divisionStandings.map((d) => [
+            d.divisionId,
+            d.rows.map((r) => r.leagueTeamId),
+          ]),
+        ),
+      );
+      return {
+        pointsForWin: leagueRow.pointsForWin,
+        pointsForTie: leagueRow.pointsForTie,
+        pointsForLoss: leagueRow.pointsForLoss,
+        tiebreakers: leagueRow.standingsTiebreakers,
+        rows,
+        divisions: divisions.map((d, i) => ({
+          ...d,
+          rows: divisionStandings[i].rows.map((r) => ({
+            ...r,
+            movement: moves.get(r.leagueTeamId)?.movement ?? null,
+          })),
+        })),
+      };
+    }),
+
+  /** Set a league's points per win/tie/loss and tiebreaker order. User must be a member of the org. */
+  updateLeagueStandingsConfig: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+        pointsForWin: standingsPointsSchema,
+        pointsForTie: standingsPointsSchema,
+        pointsForLoss: standingsPointsSchema,
+        tiebreakers: z
+          .array(z.enum(STANDINGS_TIEBREAKERS))
+          .max(STANDINGS_TIEBREAKERS.length)
+          .refine(
+            (list) => new Set(list).size === list.length,
+            "Each tiebreaker can only be used once",
+          ),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgLeague(ctx, input.organizationId, input.leagueId);
+      const [updated] = await ctx.db
+        .update(league)
+        .set({
+          pointsForWin: input.pointsForWin,
+          pointsForTie: input.pointsForTie,
+          pointsForLoss: input.pointsForLoss,
+          standingsTiebreakers: input.tiebreakers,
+          updatedAt: new Date(),
+        })
+        .where(eq(league.id, input.leagueId))
+        .returning();
+      return updated;
+    }),
+
+  // ——— Playoffs ———
+
+  /** A season's playoff bracket (the current season by default) with every match's teams, planned slot and game, or null when there is none. User must be a member of the org. */
+  getPlayoffBracket: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+        seasonId: z.string().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      await requireOrgLeague(ctx, input.organizationId, input.leagueId);
+      const selectedSeason = await getLeagueSeason(
+        ctx.db,
+        input.leagueId,
+        input.seasonId,
+      );
+      if (!selectedSeason) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Season not found",
+        });
+      }
+      const [bracket] = await ctx.db
+        .select({
+          id: playoffBracket.id,
+          format: playoffBracket.format,
+          teamCount: playoffBracket.teamCount,
+          byes: playoffBracket.byes,
+          gameDurationMinutes: playoffBracket.gameDurationMinutes,
+          createdAt: playoffBracket.createdAt,
+        })
+        .from(playoffBracket)
+        .innerJoin(league, eq(league.id, playoffBracket.leagueId))
+        .where(
+          and(
+            eq(playoffBracket.seasonId, selectedSeason.id),
+            eq(league.organizationId, input.organizationId),
+          ),
+        );
+      if (!bracket) return null;
+      const matches = await ctx.db
+        .select({
+          id: playoffMatch.id,
+          key: playoffMatch.key,
+          side: playoffMatch.side,
+          round: playoffMatch.round,
+          position: playoffMatch.position,
+          stage: playoffMatch.stage,
+          homeSeed: playoffMatch.homeSeed,
+          awaySeed: playoffMatch.awaySeed,
+          homeLeagueTeamId: playoffMatch.homeLeagueTeamId,
+          homeTeamName: homeTeam.name,
+          awayLeagueTeamId: playoffMatch.awayLeagueTeamId,
+          awayTeamName: awayTeam.name,
+          winnerLeagueTeamId: playoffMatch.winnerLeagueTeamId,
+          facilitySurfaceId: playoffMatch.facilitySurfaceId,
+          surfaceName: facilitySurface.name,
+          facilityName: facility.name,
+          startsAt: playoffMatch.startsAt,
+          endsAt: playoffMatch.endsAt,
+          gameId: game.id,
+          gameStatus: game.status,
+          gameStartsAt: game.startsAt,
+          homeScore: game.homeScore,
+          awayScore: game.awayScore,
+        })
+        .from(playoffMatch)
+        .leftJoin(
+          homeLeagueTeam,
+          eq(homeLeagueTeam.id, playoffMatch.homeLeagueTeamId),
+        )
+        .leftJoin(homeTeam, eq(homeTeam.id, homeLeagueTeam.teamId))
+        .leftJoin(
+          awayLeagueTeam,
+          eq(awayLeagueTeam.id, playoffMatch.awayLeagueTeamId),
+        )
+        .leftJoin(awayTeam, eq(awayTeam.id, awayLeagueTeam.teamId))
+        .leftJoin(
+          game,
+          and(eq(game.id, playoffMatch.gameId), isNull(game.deletedAt)),
+        )
+        .leftJoin(
+          facilitySurface,
+          eq(
+            facilitySurface.id,
+            sql`coalesce(${game.facilitySurfaceId}, ${playoffMatch.facilitySurfaceId})`,
+          ),
+        )
+        .leftJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(eq(playoffMatch.bracketId, bracket.id))
+        .orderBy(
+          asc(playoffMatch.side),
+          asc(playoffMatch.round),
+          asc(playoffMatch.position),
+        );
+      return {
+        ...bracket,
+        matches: matches.map(({ gameId, gameStatus, gameStartsAt, ...m }) => ({
+          ...m,
+          // A game keeps the planned slot unless it was rescheduled.
+          startsAt: gameStartsAt ?? m.startsAt,
+          game: gameId ? { id: gameId, status: gameStatus! } : null,
+        })),
+      };
+    }),
+
+  /** Seed a single- or double-elimination bracket from the current season's standings and plan its games on the given surfaces. Top seeds get byes when `byes` is set and the field is not a power of two. First-round games are created right away; later games as their teams are decided. */
+  createPlayoffBracket: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+        format: z.enum(["single_elimination", "double_elimination"]),
+        teamCount: z.number().int().min(2).max(64),
+        byes: z.boolean().default(false),
+        facilitySurfaceIds: z
+          .array(z.string())
+          .min(1, "Pick at least one surface"),
+        gameDurationMinutes: z.number().int().min(10).max(600),
+        startDate: dateStringSchema,
+        endDate: dateStringSchema.optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const leagueRow = await requireOrgLeague(
+        ctx,
+        input.organizationId,
+        input.leagueId,
+      );
+      const currentSeason = await getLeagueSeason(ctx.db, input.leagueId);
+      if (!currentSeason) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Season not found",
+        });
+      }
+      const [existingBracket] = await ctx.db
+        .select({ id: playoffBracket.id })
+        .from(playoffBracket)
+        .where(eq(playoffBracket.seasonId, currentSeason.id));
+      if (existingBracket) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "This season already has a playoff bracket",
+        });
+      }
+      if (!input.byes && !isPowerOfTwo(input.teamCount)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            "Without byes the number of teams must be a power of two (2, 4, 8, 16…)",
+        });
+      }
+      if (input.format === "double_elimination" && input.teamCount < 3) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Double elimination needs at least three teams",
+        });
+      }
+      if (input.endDate != null && input.endDate < input.startDate) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "End date must be on or after the start date",
+        });
+      }
+      const operatingSchedule = leagueRow.operatingSchedule ?? {};
+      if (!Object.values(operatingSchedule).some((hours) => hours != null)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Set the league's playing days and hours first",
+        });
+      }
+      const teams = await ctx.db
+        .select({ leagueTeamId: leagueTeam.id, name: team.name })
+        .from(leagueTeam)
+        .innerJoin(team, eq(team.id, leagueTeam.teamId))
+        .where(eq(leagueTeam.seasonId, currentSeason.id));
+      if (teams.length < input.teamCount) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `The season only has ${teams.length} teams`,
+        });
+      }
+      const decided = await ctx.db
+        .select({
+          homeLeagueTeamId: game.homeLeagueTeamId,
+          awayLeagueTeamId: game.awayLeagueTeamId,
+          status: game.status,
+          homeScore: game.homeScore,
+          awayScore: game.awayScore,
+          forfeitedByLeagueTeamId: game.forfeitedByLeagueTeamId,
+          startsAt: game.startsAt,
+        })
+        .from(game)
+        .where(
+          and(
+            eq(game.seasonId, currentSeason.id),
+            eq(game.playoff, false),
+            isNull(game.deletedAt),
+            inArray(game.status, ["final", "forfeit"]),
+            countedResult,
+          ),
+        );
+      const standings = computeStandings(
+        teams,
+        decided.map((g) => ({
+          ...g,
+          status: g.status === "forfeit" ? ("forfeit" as const) : ("final" as const),
+        })),
+        {
+          pointsForWin: leagueRow.pointsForWin,
+          pointsForTie: leagueRow.pointsForTie,
+          pointsForLoss: leagueRow.pointsForLoss,
+          tiebreakers: leagueRow.standingsTiebreakers,
+          coinFlipSeed: leagueRow.id,
+        },
+      );
+      // Seed n is the team ranked n-th.
+      const seededTeamIds = standings
+        .slice(0, input.teamCount)
+        .map((row) => row.leagueTeamId);
+
+      const surfaceIds = [...new Set(input.facilitySurfaceIds)];
+      const surfaceRows = await ctx.db
+        .select({
+          id: facilitySurface.id,
+          timeZone: facility.timeZone,
+          facilityOperatingSchedule: facility.operatingSchedule,
+          facilityScheduleExceptions: facility.scheduleExceptions,
+        })
+        .from(facilitySurface)
+        .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(
+          and(
+            inArray(facilitySurface.id, surfaceIds),
+            eq(facility.organizationId, input.organizationId),
+          ),
+        );
+      if (surfaceRows.length !== surfaceIds.length) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Surface not found",
+        });
+      }
+      const surfacesById = new Map(surfaceRows.map((s) => [s.id, s]));
+
+      const plan = buildPlayoffBracket(input.teamCount, input.format);
+      const seededTeam = (seed: number | null) =>
+        seed == null ? null : seededTeamIds[seed - 1];
+      // Byes are known up front, so walkovers never need a slot.
+      const resolved = resolvePlayoffBracket(
+        plan.map((m) => ({
+          key: m.key,
+          homeSource: m.homeSource,
+          awaySource: m.awaySource,
+          homeSeededLeagueTeamId: seededTeam(m.homeSeed),
+          awaySeededLeagueTeamId: seededTeam(m.awaySeed),
+          gameWinnerLeagueTeamId: null,
+        })),
+      );
+      const stages = new Map<number, string[]>();
+      for (const m of plan) {
+        if (resolved.get(m.key)!.walkover) continue;
+        stages.set(m.stage, [...(stages.get(m.stage) ?? []), m.key]);
+      }
+      const endDate = input.endDate ?? null;
+      const lastDate = endDate ?? addDays(input.startDate, MAX_SCHEDULE_DAYS);
+      const events = await loadSurfaceEvents(
+        ctx.db,
+        surfaceIds,
+        zonedTimeToInstant(addDays(input.startDate, -1), "00:00", "UTC"),
+        zonedTimeToInstant(addDays(lastDate, 2), "00:00", "UTC"),
+      );
+      const toInstants = (slot: PlannedPlayoffSlot) => {
+        const timeZone = surfacesById.get(slot.surfaceId)!.timeZone;
+        return {
+          facilitySurfaceId: slot.surfaceId,
+          startsAt: zonedTimeToInstant(slot.date, slot.startTime, timeZone),
+          endsAt: zonedTimeToInstant(slot.date, slot.endTime, timeZone),
+        };
+      };
+      const { slots, unscheduled } = planPlayoffSlots(
+        [...stages.entries()].sort(([a], [b]) => a - b).map(([, keys]) => keys),
+        {
+          startDate: input.startDate,
+          endDate,
+          operatingSchedule,
+          scheduleExceptions: leagueRow.scheduleExceptions,
+          surfaces: surfaceIds.map((id) => ({
+            id,
+            facilityOperatingSchedule:
+              surfacesById.get(id)?.facilityOperatingSchedule ?? null,
+            facilityScheduleExceptions:
+              surfacesById.get(id)?.facilityScheduleExceptions ?? null,
+          })),
+          gameDurationMinutes: input.gameDurationMinutes,
+        },
+        (slot) => getOverlapConflicts(toInstants(slot), events).length === 0,
+      );
+      if (unscheduled.length > 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Not enough free slots for ${unscheduled.length} of the playoff games. Add surfaces or pick a later end date`,
+        });
+      }
+
+      return ctx.db.transaction(async (tx) => {
+        const [bracket] = await tx
+          .insert(playoffBracket)
+          .values({
+            leagueId: input.leagueId,
+            seasonId: currentSeason.id,
+            format: input.format,
+            teamCount: input.teamCount,
+            byes: input.byes,
+            gameDurationMinutes: input.gameDurationMinutes,
+          })
+          .returning();
+        if (!bracket) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to create playoff bracket",
+          });
+        }
+        const matches = await tx
+          .insert(playoffMatch)
+          .values(
+            plan.map((m) => {
+              const slot = slots.get(m.key);
+              const instants = slot ? toInstants(slot) : null;
+              return {
+                bracketId: bracket.id,
+                key: m.key,
+                side: m.side,
+                round: m.round,
+                position: m.position,
+                stage: m.stage,
+                homeSeed: m.homeSeed,
+                awaySeed: m.awaySeed,
+                homeSourceKey: m.homeSource?.key,
+                homeSourceOutcome: m.homeSource?.outcome,
+                awaySourceKey: m.awaySource?.key,
+                awaySourceOutcome: m.awaySource?.outcome,
+                homeLeagueTeamId: seededTeam(m.homeSeed),
+                awayLeagueTeamId: seededTeam(m.awaySeed),
+                facilitySurfaceId: instants?.facilitySurfaceId,
+                startsAt: instants?.startsAt,
+                endsAt: instants?.endsAt,
+              };
+            }),
+          )
+          .returning();
+        const holds = matches.flatMap((m) =>
+          m.facilitySurfaceId && m.startsAt && m.endsAt
+            ? [
+                {
+                  facilitySurfaceId: m.facilitySurfaceId,
+                  title: `${leagueRow.name} playoffs · ${m.key}`,
+                  startsAt: m.startsAt,
+                  endsAt: m.endsAt,
+                  playoffMatchId: m.id,
+                },
+              ]
+            : [],
+        );
+        if (holds.length > 0) await tx.insert(facilityBooking).values(holds);
+        const { createdGameIds } = await syncPlayoffBracket(
+          tx,
+          bracket.id,
+          ctx.user.id,
+        );
+        return {
+          id: bracket.id,
+          matches: matches.length,
+          games: createdGameIds.length,
+        };
+      });
+    }),
+
+  /** Delete the current season's playoff bracket, its playoff games and the slots it still holds. */
+  deletePlayoffBracket: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const [bracket] = await ctx.db
+        .select({ id: playoffBracket.id })
+        .from(playoffBracket)
+        .innerJoin(league, eq(league.id, playoffBracket.leagueId))
+        .innerJoin(season, eq(season.id, playoffBracket.seasonId))
+        .where(
+          and(
+            eq(playoffBracket.leagueId, input.leagueId),
+            isNull(season.completedAt),
+            eq(league.organizationId, input.organizationId),
+          ),
+        );
+      if (!bracket) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Playoff bracket not found",
+        });
+      }
+      await ctx.db.transaction(async (tx) => {
+        const games = await tx
+          .select({ id: game.id, status: game.status })
+          .from(game)
+          .innerJoin(playoffMatch, eq(playoffMatch.gameId, game.id))
+          .where(
+            and(eq(playoffMatch.bracketId, bracket.id), isNull(game.deletedAt)),
+          );
+        if (games.length > 0) {
+          await tx
+            .update(game)
+            .set({ deletedAt: new Date() })
+            .where(
+              inArray(
+                game.id,
+                games.map((g) => g.id),
+              ),
+            );
+          await tx.insert(gameChange).values(
+            games.map((g) => ({
+              gameId: g.id,
+              action: "deleted" as const,
+              fromStatus: g.status,
+              reason: "Playoff bracket deleted",
+              changedByUserId: ctx.user.id,
+            })),
+          );
+        }
+        // Matches and their holding bookings cascade.
+        await tx.delete(playoffBracket).where(eq(playoffBracket.id, bracket.id));
+      });
+      return { id: bracket.id };
+    }),
+
+  // ——— Player stats ———
+
+  /** Stat sheet for a game: the league sport's stat definitions and each side's roster with recorded values. User must be a member of the org. */
+  getGamePlayerStats: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        gameId: z.string(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const row = await requireOrgGame(ctx, input.organizationId, input.gameId);
+      const sideIds = [row.homeLeagueTeamId, row.awayLeagueTeamId];
+      const sides = await ctx.db
+        .select({ leagueTeamId: leagueTeam.id, teamName: team.name })
+        .from(leagueTeam)
+        .innerJoin(team, eq(team.id, leagueTeam.teamId))
+        .where(inArray(leagueTeam.id, sideIds));
+      const roster = await ctx.db
+        .select({
+          leagueTeamId: leagueTeamPlayer.leagueTeamId,
+          userId: leagueTeamPlayer.userId,
+          name: user.name,
+        })
+        .from(leagueTeamPlayer)
+        .innerJoin(user, eq(user.id, leagueTeamPlayer.userId))
+        .where(inArray(leagueTeamPlayer.leagueTeamId, sideIds));
+      const recorded = await ctx.db
+        .select({
+          leagueTeamId: gamePlayerStat.leagueTeamId,
+          userId: gamePlayerStat.userId,
+          name: user.name,
+          stat: gamePlayerStat.stat,
+          value: gamePlayerStat.value,
+        })
+        .from(gamePlayerStat)
+        .innerJoin(user, eq(user.id, gamePlayerStat.userId))
+        .where(eq(gamePlayerStat.gameId, input.gameId));
+
+      return {
+        gameId: row.id,
+        status: row.status,
+        sport: row.sport,
+        definitions: PLAYER_STAT_DEFINITIONS[row.sport],
+        sides: sideIds.map((leagueTeamId) => {
+          // Players who left the team keep the stats they already have for this game.
+          const players = new Map<
+            string,
+            { userId: string; name: string; stats: Record<string, number> }
+          >();
+          for (const p of [...roster, ...recorded]) {
+            if (p.leagueTeamId !== leagueTeamId || players.has(p.userId)) continue;
+            players.set(p.userId, { userId: p.userId, name: p.name, stats: {} });
+          }
+          for (const r of recorded) {
+            if (r.leagueTeamId === leagueTeamId) {
+              players.get(r.userId)!.stats[r.stat] = r.value;
+            }
+          }
+          return {
+            leagueTeamId,
+            side: leagueTeamId === row.homeLeagueTeamId ? ("home" as const) : ("away" as const),
+            teamName: sides.find((s) => s.leagueTeamId === leagueTeamId)?.teamName ?? "",
+            players: [...players.values()].sort((a, b) => a.name.localeCompare(b.name)),
+          };
+        }),
+      };
+    }),
+
+  /** Replace a game's per-player stats. Only rostered players of the two sides and the league sport's stats are accepted. User must be a member of the org. */
+  saveGamePlayerStats: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        gameId: z.string(),
+        players: z
+          .array(
+            z.object({
+              userId: z.string(),
+              leagueTeamId: z.string(),
+              stats: z.record(z.string(), scoreSchema),
+            }),
+          )
+          .max(200),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const row = await requireOrgGame(ctx, input.organizationId, input.gameId);
+      if (row.status !== "in_progress" && row.status !== "final") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Player stats can only be entered once the game has started",
+        });
+      }
+      const sideIds = [row.homeLeagueTeamId, row.awayLeagueTeamId];
+      const rosterRows = await ctx.db
+        .select({
+          leagueTeamId: leagueTeamPlayer.leagueTeamId,
+          userId: leagueTeamPlayer.userId,
+        })
+        .from(leagueTeamPlayer)
+        .where(inArray(leagueTeamPlayer.leagueTeamId, sideIds));
+      const recordedRows = await ctx.db
+        .selectDistinct({
+          leagueTeamId: gamePlayerStat.leagueTeamId,
+          userId: gamePlayerStat.userId,
+        })
+        .from(gamePlayerStat)
+        .where(eq(gamePlayerStat.gameId, input.gameId));
+      const rosters = new Map(sideIds.map((id) => [id, new Set<string>()]));
+      for (const r of [...rosterRows, ...recordedRows]) {
+        rosters.get(r.leagueTeamId)?.add(r.userId);
+      }
+      const invalid = validatePlayerStatLines(row.sport, input.players, rosters);
+      if (invalid) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: invalid });
+      }
+      const values = input.players.flatMap((p) =>
+        Object.entries(p.stats)
+          .filter(([, value]) => value > 0)
+          .map(([stat, value]) => ({
+            gameId: input.gameId,
+            leagueTeamId: p.leagueTeamId,
+            userId: p.userId,
+            stat,
+            value,
+          })),
+      );
+      await ctx.db.transaction(async (tx) => {
+        await tx.delete(gamePlayerStat).where(eq(gamePlayerStat.gameId, input.gameId));
+        if (values.length) await tx.insert(gamePlayerStat).values(values);
+      });
+      return { saved: values.length };
+    }),
+
+  /** Top players per stat across a season's final games (the current season by default), summed and ranked in SQL. User must be a member of the org. */
+  getLeagueLeaderboards: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+        seasonId: z.string().optional(),
+        limit: z.number().int().min(1).max(50).default(10),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const leagueRow = await requireOrgLeague(
+        ctx,
+        input.organizationId,
+        input.leagueId,
+      );
+      const selectedSeason = await getLeagueSeason(
+        ctx.db,
+        input.leagueId,
+        input.seasonId,
+      );
+      if (!selectedSeason) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Season not found",
+        });
+      }
+      const totals = ctx.db
+        .select({
+          userId: gamePlayerStat.userId,
+          stat: gamePlayerStat.stat,
+          teamName: sql<string>`max(${team.name})`.as("team_name"),
+          total: sql<string>`sum(${gamePlayerStat.value})`.as("total"),
+          games: sql<string>`count(distinct ${gamePlayerStat.gameId})`.as("games"),
+          rank: sql<number>`rank() over (partition by ${gamePlayerStat.stat} order by sum(${gamePlayerStat.value}) desc)`.as(
+            "rank",
+          ),
+        })
+        .from(gamePlayerStat)
+        .innerJoin(game, eq(game.id, gamePlayerStat.gameId))
+        .innerJoin(leagueTeam, eq(leagueTeam.id, gamePlayerStat.leagueTeamId))
+        .innerJoin(team, eq(team.id, leagueTeam.teamId))
+        .where(
+          and(
+            eq(game.seasonId, selectedSeason.id),
+            eq(game.status, "final"),
+            isNull(game.deletedAt),
+          ),
+        )
+        .groupBy(gamePlayerStat.userId, gamePlayerStat.stat)
+        .as("totals");
+      const rows = await ctx.db
+        .select({
+          userId: totals.userId,
+          name: user.name,
+          teamName: totals.teamName,
+          stat: totals.stat,
+          total: totals.total,
+          games: totals.games,
+          rank: totals.rank,
+        })
+        .from(totals)
+        .innerJoin(user, eq(user.id, totals.userId))
+        .where(lte(totals.rank, input.limit))
+        .orderBy(asc(totals.rank), asc(user.name));
+      return {
+        sport: leagueRow.sport,
+        leaderboards: PLAYER_STAT_DEFINITIONS[leagueRow.sport].map((definition) => ({
+          ...definition,
+          leaders: rows
+            .filter((r) => r.stat === definition.key)
+            .map((r) => ({
+              userId: r.userId,
+              name: r.name,
+              teamName: r.teamName,
+              rank: Number(r.rank),
+              total: Number(r.total),
+              games: Number(r.games),
+            })),
+        })),
+      };
+    }),
+
+  /** A player's stats game by game and totalled per league, from final games in this org. User must be a member of the org. */
+  getPlayerStatHistory: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        userId: z.string(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const [player] = await ctx.db
+        .select({ id: organizationPlayer.id })
+        .from(organizationPlayer)
+        .where(
+          and(
+            eq(organizationPlayer.organizationId, input.organizationId),
+            eq(organizationPlayer.userId, input.userId),
+          ),
+        );
+      if (!player) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Player not found" });
+      }
+      const counted = and(
+        eq(gamePlayerStat.userId, input.userId),
+        eq(league.organizationId, input.organizationId),
+        eq(game.status, "final"),
+        isNull(game.deletedAt),
+      );
+      const games = await ctx.db
+        .select({
+          gameId: game.id,
+          startsAt: game.startsAt,
+          leagueId: league.id,
+          leagueName: league.name,
+          leagueTeamId: gamePlayerStat.leagueTeamId,
+          homeLeagueTeamId: game.homeLeagueTeamId,
+          homeTeamName: homeTeam.name,
+          awayTeamName: awayTeam.name,
+          homeScore: game.homeScore,
+          awayScore: game.awayScore,
+          stats: sql<Record<string, number>>`jsonb_object_agg(${gamePlayerStat.stat}, ${gamePlayerStat.value})`,
+        })
+        .from(gamePlayerStat)
+        .innerJoin(game, eq(game.id, gamePlayerStat.gameId))
+        .innerJoin(league, eq(league.id, game.leagueId))
+        .innerJoin(homeLeagueTeam, eq(homeLeagueTeam.id, game.homeLeagueTeamId))
+        .innerJoin(homeTeam, eq(homeTeam.id, homeLeagueTeam.teamId))
+        .innerJoin(awayLeagueTeam, eq(awayLeagueTeam.id, game.awayLeagueTeamId))
+        .innerJoin(awayTeam, eq(awayTeam.id, awayLeagueTeam.teamId))
+        .where(counted)
+        .groupBy(
+          game.id,
+          league.id,
+          gamePlayerStat.leagueTeamId,
+          homeTeam.id,
+          awayTeam.id,
+        )
+        .orderBy(desc(game.startsAt));
+      const totals = await ctx.db
+        .select({
+          leagueId: league.id,
+          leagueName: league.name,
+          sport: league.sport,
+          stat: gamePlayerStat.stat,
+          total: sql<string>`sum(${gamePlayerStat.value})`,
+          games: sql<string>`count(distinct ${gamePlayerStat.gameId})`,
+        })
+        .from(gamePlayerStat)
+        .innerJoin(game, eq(game.id, gamePlayerStat.gameId))
+        .innerJoin(league, eq(league.id, game.leagueId))
+        .where(counted)
+        .groupBy(league.id, gamePlayerStat.stat)
+        .orderBy(asc(league.name));
+
+      const leagues = new Map<
+        string,
+        {
+          leagueId: string;
+          leagueName: string;
+          definitions: PlayerStatDefinition[];
+          games: number;
+          totals: Record<string, number>;
+        }
+      >();
+      for (const t of totals) {
+        const entry = leagues.get(t.leagueId) ?? {
+          leagueId: t.leagueId,
+          leagueName: t.leagueName,
+          definitions: PLAYER_STAT_DEFINITIONS[t.sport],
+          games: 0,
+          totals: {},
+        };
+        entry.totals[t.stat] = Number(t.total);
+        entry.games = Math.max(entry.games, Number(t.games));
+        leagues.set(t.leagueId, entry);
+      }
+      return {
+        leagues: [...leagues.values()],
+        games: games.map(({ homeLeagueTeamId, homeTeamName, awayTeamName, ...g }) => {
+          const isHome = g.leagueTeamId === homeLeagueTeamId;
+          return {
+            ...g,
+            teamName: isHome ? homeTeamName : awayTeamName,
+            opponentName: isHome ? awayTeamName : homeTeamName,
+            teamScore: isHome ? g.homeScore : g.awayScore,
+            opponentScore: isHome ? g.awayScore : g.homeScore,
+          };
+        }),
+      };
+    }),
+
+  // ——— Tournaments ———
+
+  /** Tournaments of the organization, newest first, with their team and game counts. */
+  listTournaments: protectedProcedure
+    .input(z.object({ organizationId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      return ctx.db
+        .select({
+          id: tournament.id,
+          name: tournament.name,
+          startDate: tournament.startDate,
+          endDate: tournament.endDate,
+          teamCount: sql<number>`(select count(*) from ${tournamentTeam} where ${tournamentTeam.tournamentId} = ${tournament.id})`.mapWith(Number),
+          gameCount: sql<number>`(select count(*) from ${tournamentGame} where ${tournamentGame.tournamentId} = ${tournament.id})`.mapWith(Number),
+          finalCount: sql<number>`(select count(*) from ${tournamentGame} where ${tournamentGame.tournamentId} = ${tournament.id} and ${tournamentGame.status} = 'final')`.mapWith(Number),
+        })
+        .from(tournament)
+        .where(eq(tournament.organizationId, input.organizationId))
+        .orderBy(desc(tournament.startDate), asc(tournament.name));
+    }),
+
+  /** A tournament with its pools and pool standings, and every game (pool and knockout) with team and venue names. */
+  getTournament: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        tournamentId: z.string(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const [found] = await ctx.db
+        .select()
+        .from(tournament)
+        .where(
+          and(
+            eq(tournament.id, input.tournamentId),
+            eq(tournament.organizationId, input.organizationId),
+          ),
+        );
+      if (!found) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Tournament not found",
+        });
+      }
+      const pools = await ctx.db
+        .select({ id: tournamentPool.id, name: tournamentPool.name })
+        .from(tournamentPool)
+        .where(eq(tournamentPool.tournamentId, found.id))
+        .orderBy(asc(tournamentPool.position));
+      const teams = await ctx.db
+        .select({
+          id: tournamentTeam.id,
+          poolId: tournamentTeam.poolId,
+          seed: tournamentTeam.seed,
+          name: team.name,
+        })
+        .from(tournamentTeam)
+        .innerJoin(team, eq(team.id, tournamentTeam.teamId))
+        .where(eq(tournamentTeam.tournamentId, found.id))
+        .orderBy(asc(tournamentTeam.seed));
+      const homeEntry = alias(tournamentTeam, "home_entry");
+      const awayEntry = alias(tournamentTeam, "away_entry");
+      const games = await ctx.db
+        .select({
+          id: tournamentGame.id,
+          key: tournamentGame.key,
+          stage: tournamentGame.stage,
+          poolId: tournamentGame.poolId,
+          round: tournamentGame.round,
+          position: tournamentGame.position,
+          homeTournamentTeamId: tournamentGame.homeTournamentTeamId,
+          homeTeamName: homeTeam.name,
+          awayTournamentTeamId: tournamentGame.awayTournamentTeamId,
+          awayTeamName: awayTeam.name,
+          homeSource: tournamentGame.homeSource,
+          awaySource: tournamentGame.awaySource,
+          facilitySurfaceId: tournamentGame.facilitySurfaceId,
+          surfaceName: facilitySurface.name,
+          facilityName: facility.name,
+          startsAt: tournamentGame.startsAt,
+          endsAt: tournamentGame.endsAt,
+          status: tournamentGame.status,
+          homeScore: tournamentGame.homeScore,
+          awayScore: tournamentGame.awayScore,
+          updatedAt: tournamentGame.updatedAt,
+        })
+        .from(tournamentGame)
+        .leftJoin(homeEntry, eq(homeEntry.id, tournamentGame.homeTournamentTeamId))
+        .leftJoin(homeTeam, eq(homeTeam.id, homeEntry.teamId))
+        .leftJoin(awayEntry, eq(awayEntry.id, tournamentGame.awayTournamentTeamId))
+        .leftJoin(awayTeam, eq(awayTeam.id, awayEntry.teamId))
+        .leftJoin(
+          facilitySurface,
+          eq(facilitySurface.id, tournamentGame.facilitySurfaceId),
+        )
+        .leftJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(eq(tournamentGame.tournamentId, found.id))
+        .orderBy(asc(tournamentGame.startsAt), asc(facilitySurface.name));
+      const standings = computePoolStandings(
+        pools,
+        teams,
+        games.flatMap((g) =>
+          g.stage === "pool" &&
+          g.status === "final" &&
+          g.poolId &&
+          g.homeTournamentTeamId &&
+          g.awayTournamentTeamId
+            ? [
+                {
+                  poolId: g.poolId,
+                  homeTeamId: g.homeTournamentTeamId,
+                  awayTeamId: g.awayTournamentTeamId,
+                  homeScore: g.homeScore,
+                  awayScore: g.awayScore,
+                  startsAt: g.startsAt,
+                },
+              ]
+            : [],
+        ),
+        found.id,
+      );
+      return {
+        ...found,
+        pools: pools.map((pool) => ({
+          ...pool,
+          standings: (standings.get(pool.id) ?? []).map((row) => ({
+            tournamentTeamId: row.leagueTeamId,
+            name: row.name,
+            rank: row.rank,
+            played: row.played,
+            wins: row.wins,
+            losses: row.losses,
+            ties: row.ties,
+            pointsFor: row.pointsFor,
+            pointsAgainst: row.pointsAgainst,
+            differential: row.differential,
+            points: row.points,
+          })),
+        })),
+        games,
+      };
+    }),
+
+  /**
+   * Create a tournament: seed the given teams (in order) into pools, schedule every pool game and
+   * the knockout stage on the chosen surfaces as early as possible with at least `minRestMinutes`
+   * between a team's games, and book the surfaces. Fails when the games do not fit.
+   */
+  createTournament: protectedProcedure
+    .input(
+      z
+        .object({
+          organizationId: z.string(),
+          name: z.string().trim().min(1, "Name is required").max(100),
+          startDate: dateStringSchema,
+          endDate: dateStringSchema,
+          dayStartTime: timeOfDaySchema,
+          dayEndTime: timeOfDaySchema,
+          gameDurationMinutes: z.number().int().min(10).max(300),
+          minRestMinutes: z.number().int().min(0).max(600),
+          poolCount: z.number().int().min(1).max(8),
+          advancePerPool: z.number().int().min(0).max(8),
+          /** Teams in seed order (first = top seed). */
+          teamIds: z
+            .array(z.string())
+            .min(2, "Pick at least two teams")
+            .max(64)
+            .refine(
+              (ids) => new Set(ids).size === ids.length,
+              "Each team can only be entered once",
+            ),
+          facilitySurfaceIds: z
+            .array(z.string())
+            .min(1, "Pick at least one surface"),
+        })
+        .refine((t) => t.startDate <= t.endDate, {
+          message: "End date must be on or after the start date",
+          path: ["endDate"],
+        })
+        .refine((t) => t.dayStartTime < t.dayEndTime, {
+          message: "End time must be after start time",
+          path: ["dayEndTime"],
+        }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      if (addDays(input.startDate, 6) < input.endDate) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "A tournament can run for at most a week",
+        });
+      }
+      if (input.teamIds.length < input.poolCount * 2) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Every pool needs at least two teams",
+        });
+      }
+      const pools = assignPools(input.teamIds, input.poolCount);
+      if (input.advancePerPool > Math.min(...pools.map((p) => p.length))) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "More teams advance than the smallest pool has",
+        });
+      }
+      const teamRows = await ctx.db
+        .select({ id: team.id })
+        .from(team)
+        .where(
+          and(
+            inArray(team.id, input.teamIds),
+            eq(team.organizationId, input.organizationId),
+          ),
+        );
+      if (teamRows.length !== input.teamIds.length) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Team not found",
+        });
+      }
+      const surfaceIds = [...new Set(input.facilitySurfaceIds)];
+      const surfaceRows = await ctx.db
+        .select({
+          id: facilitySurface.id,
+          timeZone: facility.timeZone,
+          facilityOperatingSchedule: facility.operatingSchedule,
+          facilityScheduleExceptions: facility.scheduleExceptions,
+        })
+        .from(facilitySurface)
+        .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(
+          and(
+            inArray(facilitySurface.id, surfaceIds),
+            eq(facility.organizationId, input.organizationId),
+          ),
+        );
+      if (surfaceRows.length !== surfaceIds.length) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Surface not found",
+        });
+      }
+      const surfacesById = new Map(surfaceRows.map((s) => [s.id, s]));
+
+      const fixtures = buildTournamentFixtures(pools, input.advancePerPool);
+      const dailyHours = { startTime: input.dayStartTime, endTime: input.dayEndTime };
+      const slotOptions = {
+        operatingSchedule: Object.fromEntries(
+          facilityDayKeys.map((day) => [day, dailyHours]),
+        ),
+        surfaces: surfaceIds.map((id) => ({
+          id,
+          facilityOperatingSchedule:
+            surfacesById.get(id)?.facilityOperatingSchedule ?? null,
+          facilityScheduleExceptions:
+            surfacesById.get(id)?.facilityScheduleExceptions ?? null,
+        })),
+        gameDurationMinutes: input.gameDurationMinutes,
+      };
+      const toInstants = (slot: TournamentSlot) => {
+        const timeZone = surfacesById.get(slot.surfaceId)!.timeZone;
+        return {
+          facilitySurfaceId: slot.surfaceId,
+          startsAt: zonedTimeToInstant(slot.date, slot.startTime, timeZone),
+          endsAt: zonedTimeToInstant(slot.date, slot.endTime, timeZone),
+        };
+      };
+      const slots: TournamentSlot[] = [];
+      for (let date = input.startDate; date <= input.endDate; date = addDays(date, 1)) {
+        slots.push(...getSlotsForDate(date, slotOptions));
+      }
+      const events = await loadSurfaceEvents(
+        ctx.db,
+        surfaceIds,
+        // A day either side covers any facility time zone.
+        new Date(`${addDays(input.startDate, -1)}T00:00:00Z`),
+        new Date(`${addDays(input.endDate, 2)}T00:00:00Z`),
+      );
+      const { placed, unscheduled } = scheduleTournamentFixtures(
+        fixtures,
+        slots.filter(
+          (slot) => getOverlapConflicts(toInstants(slot), events).length === 0,
+        ),
+        input.minRestMinutes,
+      );
+      if (unscheduled.length > 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `${unscheduled.length} of ${fixtures.length} games do not fit. Add surfaces or days, or shorten games or rest`,
+        });
+      }
+
+      return ctx.db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(tournament)
+          .values({
+            organizationId: input.organizationId,
+            name: input.name,
+            startDate: input.startDate,
+            endDate: input.endDate,
+            dayStartTime: input.dayStartTime,
+            dayEndTime: input.dayEndTime,
+            gameDurationMinutes: input.gameDurationMinutes,
+            minRestMinutes: input.minRestMinutes,
+            advancePerPool: input.advancePerPool,
+          })
+          .returning();
+        if (!created) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to create tournament",
+          });
+        }
+        const poolRows = await tx
+          .insert(tournamentPool)
+          .values(
+            pools.map((_, index) => ({
+              tournamentId: created.id,
+              name: `Pool ${getPoolLetter(index)}`,
+              position: index,
+            })),
+          )
+          .returning();
+        const poolIdByIndex = new Map(poolRows.map((p) => [p.position, p.id]));
+        const poolIndexByTeam = new Map(
+          pools.flatMap((teamIds, index) => teamIds.map((id) => [id, index] as const)),
+        );
+        const entries = await tx
+          .insert(tournamentTeam)
+          .values(
+            input.teamIds.map((teamId, index) => ({
+              tournamentId: created.id,
+              teamId,
+              poolId: poolIdByIndex.get(poolIndexByTeam.get(teamId)!)!,
+              seed: index + 1,
+            })),
+          )
+          .returning();
+        const entryByTeam = new Map(entries.map((e) => [e.teamId, e.id]));
+        const gameRows = await tx
+          .insert(tournamentGame)
+          .values(
+            fixtures.map((f) => {
+              const slot = toInstants(placed.get(f.key)!);
+              return {
+                tournamentId: created.id,
+                key: f.key,
+                stage: f.stage,
+                poolId: f.poolIndex == null ? null : poolIdByIndex.get(f.poolIndex)!,
+                round: f.round,
+                position: f.position,
+                homeTournamentTeamId: f.home ? entryByTeam.get(f.home)! : null,
+                awayTournamentTeamId: f.away ? entryByTeam.get(f.away)! : null,
+                homeSource: f.homeSource,
+                awaySource: f.awaySource,
+                ...slot,
+              };
+            }),
+          )
+          .returning();
+        await tx.insert(facilityBooking).values(
+          gameRows.map((g) => ({
+            facilitySurfaceId: g.facilitySurfaceId!,
+            title: `${created.name} · ${
+              g.stage === "pool"
+                ? (poolRows.find((p) => p.id === g.poolId)?.name ?? "Pool")
+                : "Knockout"
+            }`,
+            startsAt: g.startsAt,
+            endsAt: g.endsAt,
+            tournamentGameId: g.id,
+          })),
+        );
+        return { id: created.id, games: gameRows.length };
+      });
+    }),
+
+  /** Record a tournament game's score, live or final. Knockout games need a winner; final results fill the knockout stage. */
+  recordTournamentGameResult: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        gameId: z.string(),
+        status: z.enum(["in_progress", "final"]).default("final"),
+        homeScore: scoreSchema,
+        awayScore: scoreSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const [existing] = await ctx.db
+        .select({
+          id: tournamentGame.id,
+          tournamentId: tournamentGame.tournamentId,
+          stage: tournamentGame.stage,
+          homeTournamentTeamId: tournamentGame.homeTournamentTeamId,
+          awayTournamentTeamId: tournamentGame.awayTournamentTeamId,
+        })
+        .from(tournamentGame)
+        .innerJoin(tournament, eq(tournament.id, tournamentGame.tournamentId))
+        .where(
+          and(
+            eq(tournamentGame.id, input.gameId),
+            eq(tournament.organizationId, input.organizationId),
+          ),
+        );
+      if (!existing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Game not found",
+        });
+      }
+      if (!existing.homeTournamentTeamId || !existing.awayTournamentTeamId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The teams for this game are not decided yet",
+        });
+      }
+      if (
+        existing.stage === "knockout" &&
+        input.status === "final" &&
+        input.homeScore === input.awayScore
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "A knockout game needs a winner",
+        });
+      }
+      if (existing.stage === "pool") {
+        const [started] = await ctx.db
+          .select({ id: tournamentGame.id })
+          .from(tournamentGame)
+          .where(
+            and(
+              eq(tournamentGame.tournamentId, existing.tournamentId),
+              eq(tournamentGame.stage, "knockout"),
+              ne(tournamentGame.status, "scheduled"),
+            ),
+          )
+          .limit(1);
+        if (started) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Pool results are locked once the knockout stage has started",
+          });
+        }
+      }
+      return ctx.db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(tournamentGame)
+          .set({
+            status: input.status,
+            homeScore: input.homeScore,
+            awayScore: input.awayScore,
+            updatedAt: new Date(),
+          })
+          .where(eq(tournamentGame.id, existing.id))
+          .returning();
+        if (!row) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to record result",
+          });
+        }
+        const locked = await syncTournamentKnockout(tx, existing.tournamentId);
+        if (locked.length > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message:
+              "Later knockout games have already started. Correct those results first",
+          });
+        }
+        return row;
+      });
+    }),
+
+  /** Delete a tournament with its games and facility bookings. */
+  deleteTournament: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        tournamentId: z.string(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const [deleted] = await ctx.db
+        .delete(tournament)
+        .where(
+          and(
+            eq(tournament.id, input.tournamentId),
+            eq(tournament.organizationId, input.organizationId),
+          ),
+        )
+        .returning({ id: tournament.id });
+      if (!deleted) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Tournament not found",
+        });
+      }
+      return deleted;
+    }),
+
+  // ——— Practice ———
+
+  /** Teams the current user is an admin of, in every organization, for their practice pages. Needs no organization membership. */
+  listManagedTeams: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db
+      .select({
+        id: team.id,
+        name: team.name,
+        slug: team.slug,
+        organizationId: team.organizationId,
+      })
+      .from(teamMember)
+      .innerJoin(team, eq(team.id, teamMember.teamId))
+      .where(
+        and(eq(teamMember.userId, ctx.user.id), eq(teamMember.role, "admin")),
+      )
+      .orderBy(asc(team.name));
+  }),
+
+  /** A team's ranked weekly practice preferences, first choice first. User must be a member of the org or an admin of the team. */
+  listPracticeRequests: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        teamId: z.string(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      await requireTeamManager(ctx, input.organizationId, input.teamId);
+      return ctx.db
+        .select({
+          id: practiceRequest.id,
+          rank: practiceRequest.rank,
+          day: practiceRequest.day,
+          startTime: practiceRequest.startTime,
+          endTime: practiceRequest.endTime,
+          facilitySurfaceId: practiceRequest.facilitySurfaceId,
+          surfaceName: facilitySurface.name,
+          facilityName: facility.name,
+          notes: practiceRequest.notes,
+          updatedAt: practiceRequest.updatedAt,
+        })
+        .from(practiceRequest)
+        .leftJoin(
+          facilitySurface,
+          eq(facilitySurface.id, practiceRequest.facilitySurfaceId),
+        )
+        .leftJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(eq(practiceRequest.teamId, input.teamId))
+        .orderBy(asc(practiceRequest.rank));
+    }),
+
+  /** Replace a team's practice preferences. Order of `requests` is the ranking. User must be a member of the org or an admin of the team. */
+  savePracticeRequests: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        teamId: z.string(),
+        requests: z
+          .array(
+            z
+              .object({
+                day: z.enum(facilityDayKeys),
+                startTime: timeOfDaySchema,
+                endTime: timeOfDaySchema,
+                facilitySurfaceId: z.string().nullish(),
+                notes: z.string().trim().max(500).nullish(),
+              })
+              .refine(
+                (r) => r.startTime < r.endTime,
+                "End time must be after start time",
+              ),
+          )
+          .max(10, "Rank at most 10 preferences"),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireTeamManager(ctx, input.organizationId, input.teamId);
+      const surfaceIds = [
+        ...new Set(
+          input.requests
+            .map((r) => r.facilitySurfaceId)
+            .filter((id): id is string => id != null),
+        ),
+      ];
+      if (surfaceIds.length > 0) {
+        const surfaces = await ctx.db
+          .select({ id: facilitySurface.id })
+          .from(facilitySurface)
+          .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+          .where(
+            and(
+              inArray(facilitySurface.id, surfaceIds),
+              eq(facility.organizationId, input.organizationId),
+            ),
+          );
+        if (surfaces.length !== surfaceIds.length) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Surface not found",
+          });
+        }
+      }
+      return ctx.db.transaction(async (tx) => {
+        await tx
+          .delete(practiceRequest)
+          .where(eq(practiceRequest.teamId, input.teamId));
+        if (input.requests.length === 0) return [];
+        return tx
+          .insert(practiceRequest)
+          .values(
+            input.requests.map((r, index) => ({
+              teamId: input.teamId,
+              rank: index + 1,
+              day: r.day,
+              startTime: r.startTime,
+              endTime: r.endTime,
+              facilitySurfaceId: r.facilitySurfaceId ?? null,
+              notes: r.notes || null,
+              createdByUserId: ctx.user.id,
+            })),
+          )
+          .returning();
+      });
+    }),
+
+  /** Allocated practice slots, optionally for one team or status. Team pages show published slots only. User must be a member of the org, or an admin of `teamId` when it is given. */
+  listPracticeSlots: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        teamId: z.string().optional(),
+        status: z.enum(["draft", "published"]).optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      if (input.teamId) {
+        await requireTeamManager(ctx, input.organizationId, input.teamId);
+      } else {
+        await requireOrgMember(ctx, input.organizationId);
+      }
+      return ctx.db
+        .select({
+          id: practiceSlot.id,
+          teamId: practiceSlot.teamId,
+          teamName: team.name,
+          teamSlug: team.slug,
+          rank: practiceSlot.rank,
+          facilitySurfaceId: practiceSlot.facilitySurfaceId,
+          surfaceName: facilitySurface.name,
+          facilityName: facility.name,
+          timeZone: facility.timeZone,
+          day: practiceSlot.day,
+          startTime: practiceSlot.startTime,
+          endTime: practiceSlot.endTime,
+          startDate: practiceSlot.startDate,
+          endDate: practiceSlot.endDate,
+          status: practiceSlot.status,
+          publishedAt: practiceSlot.publishedAt,
+        })
+        .from(practiceSlot)
+        .innerJoin(team, eq(team.id, practiceSlot.teamId))
+        .innerJoin(
+          facilitySurface,
+          eq(facilitySurface.id, practiceSlot.facilitySurfaceId),
+        )
+        .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(
+          and(
+            eq(practiceSlot.organizationId, input.organizationId),
+            ...(input.teamId ? [eq(practiceSlot.teamId, input.teamId)] : []),
+            ...(input.status ? [eq(practiceSlot.status, input.status)] : []),
+          ),
+        )
+        .orderBy(
+          asc(team.name),
+          asc(practiceSlot.startDate),
+          asc(practiceSlot.startTime),
+        );
+    }),
+
+  /**
+   * Allocate weekly practices from the teams' ranked preferences for a date range.
+   * Replaces the organization's draft slots; published slots are kept and block their surface.
+   * User must be a member of the org.
+   */
+  allocatePracticeSlots: protectedProcedure
+    .input(
+      z
+        .object({
+          organizationId: z.string(),
+          startDate: dateStringSchema,
+          endDate: dateStringSchema,
+          practicesPerTeam: z.number().int().min(1).max(3).default(1),
+        })
+        .refine(
+          (i) => i.startDate <= i.endDate,
+          "End date must be on or after the start date",
+        ),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      if (addDays(input.startDate, 366) <= input.endDate) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Allocate at most one year at a time",
+        });
+      }
+      const requests = await ctx.db
+        .select({
+          id: practiceRequest.id,
+          teamId: practiceRequest.teamId,
+          teamName: team.name,
+          rank: practiceRequest.rank,
+          day: practiceRequest.day,
+          startTime: practiceRequest.startTime,
+          endTime: practiceRequest.endTime,
+          facilitySurfaceId: practiceRequest.facilitySurfaceId,
+          createdAt: practiceRequest.createdAt,
+        })
+        .from(practiceRequest)
+        .innerJoin(team, eq(team.id, practiceRequest.teamId))
+        .where(eq(team.organizationId, input.organizationId))
+        .orderBy(asc(practiceRequest.teamId), asc(practiceRequest.rank));
+      const activeTeams = await ctx.db
+        .select({ id: team.id, name: team.name })
+        .from(team)
+        .where(
+          and(
+            eq(team.organizationId, input.organizationId),
+            eq(team.status, "active"),
+          ),
+        )
+        .orderBy(asc(team.name));
+      // Teams that already have published practice in the range keep it and are not re-allocated.
+      const published = await ctx.db
+        .select({ teamId: practiceSlot.teamId, teamName: team.name })
+        .from(practiceSlot)
+        .innerJoin(team, eq(team.id, practiceSlot.teamId))
+        .where(
+          and(
+            eq(practiceSlot.organizationId, input.organizationId),
+            eq(practiceSlot.status, "published"),
+            lte(practiceSlot.startDate, input.endDate),
+            gte(practiceSlot.endDate, input.startDate),
+          ),
+        );
+      const skippedTeamIds = new Set(published.map((p) => p.teamId));
+
+      // First come, first served: teams are ordered by when they submitted preferences.
+      const teamsById = new Map<string, PracticeTeamRequests & { submittedAt: number }>();
+      for (const r of requests) {
+        if (skippedTeamIds.has(r.teamId)) continue;
+        let entry = teamsById.get(r.teamId);
+        if (!entry) {
+          entry = {
+            teamId: r.teamId,
+            name: r.teamName,
+            preferences: [],
+            submittedAt: r.createdAt.getTime(),
+          };
+          teamsById.set(r.teamId, entry);
+        }
+        entry.submittedAt = Math.min(entry.submittedAt, r.createdAt.getTime());
+        entry.preferences.push(r);
+      }
+      const teams: PracticeTeamRequests[] = [
+        ...[...teamsById.values()].sort((a, b) => a.submittedAt - b.submittedAt),
+        ...activeTeams
+          .filter((t) => !teamsById.has(t.id) && !skippedTeamIds.has(t.id))
+          .map((t) => ({ teamId: t.id, name: t.name, preferences: [] })),
+      ];
+
+      const surfaces = await ctx.db
+        .select({ id: facilitySurface.id, timeZone: facility.timeZone })
+        .from(facilitySurface)
+        .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(eq(facility.organizationId, input.organizationId))
+        .orderBy(
+          asc(facility.name),
+          asc(facilitySurface.sortOrder),
+          asc(facilitySurface.name),
+        );
+
+      // Each team's own games in the range (with a day of margin for time zones).
+      const teamIds = teams.map((t) => t.teamId);
+      if (teamIds.length > 0) {
+        const from = new Date(`${addDays(input.startDate, -1)}T00:00:00Z`);
+        const to = new Date(`${addDays(input.endDate, 2)}T00:00:00Z`);
+        const teamGames = await ctx.db
+          .select({
+            homeTeamId: homeLeagueTeam.teamId,
+            awayTeamId: awayLeagueTeam.teamId,
+            startsAt: game.startsAt,
+            endsAt: game.endsAt,
+          })
+          .from(game)
+          .innerJoin(homeLeagueTeam, eq(homeLeagueTeam.id, game.homeLeagueTeamId))
+          .innerJoin(awayLeagueTeam, eq(awayLeagueTeam.id, game.awayLeagueTeamId))
+          .where(
+            and(
+              or(
+                inArray(homeLeagueTeam.teamId, teamIds),
+                inArray(awayLeagueTeam.teamId, teamIds),
+              ),
+              lt(game.startsAt, to),
+              gt(game.endsAt, from),
+              isNull(game.deletedAt),
+              inArray(game.status, ["scheduled", "in_progress"]),
+            ),
+          );
+        for (const t of teams) {
+          t.busy = teamGames.filter(
+            (g) => g.homeTeamId === t.teamId || g.awayTeamId === t.teamId,
+          );
+        }
+      }
+
+      const result = await allocatePractices(teams, surfaces, input, (slots) =>
+        findScheduleConflicts(ctx.db, slots),
+      );
+      await ctx.db.transaction(async (tx) => {
+        await tx
+          .delete(practiceSlot)
+          .where(
+            and(
+              eq(practiceSlot.organizationId, input.organizationId),
+              eq(practiceSlot.status, "draft"),
+            ),
+          );
+        if (result.allocations.length === 0) return;
+        await tx.insert(practiceSlot).values(
+          result.allocations.map((a) => ({
+            organizationId: input.organizationId,
+            teamId: a.teamId,
+            practiceRequestId: a.practiceRequestId,
+            rank: a.rank,
+            facilitySurfaceId: a.facilitySurfaceId,
+            day: a.day,
+            startTime: a.startTime,
+            endTime: a.endTime,
+            startDate: input.startDate,
+            endDate: input.endDate,
+          })),
+        );
+      });
+      return {
+        allocated: result.allocations.length,
+        unallocated: result.unallocated,
+        skippedTeams: [
+          ...new Map(published.map((p) => [p.teamId, p.teamName])).entries(),
+        ].map(([teamId, name]) => ({ teamId, name })),
+      };
+    }),
+
+  /** Publish the organization's draft practice slots: book every session so games and bookings see them. User must be a member of the org. */
+  publishPracticeSlots: protectedProcedure
+    .input(z.object({ organizationId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const drafts = await ctx.db
+        .select({
+          id: practiceSlot.id,
+          teamName: team.name,
+          facilitySurfaceId: practiceSlot.facilitySurfaceId,
+          timeZone: facility.timeZone,
+          day: practiceSlot.day,
+          startTime: practiceSlot.startTime,
+          endTime: practiceSlot.endTime,
+          startDate: practiceSlot.startDate,
+          endDate: practiceSlot.endDate,
+        })
+        .from(practiceSlot)
+        .innerJoin(team, eq(team.id, practiceSlot.teamId))
+        .innerJoin(
+          facilitySurface,
+          eq(facilitySurface.id, practiceSlot.facilitySurfaceId),
+        )
+        .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(
+          and(
+            eq(practiceSlot.organizationId, input.organizationId),
+            eq(practiceSlot.status, "draft"),
+          ),
+        );
+      if (drafts.length === 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "No draft practice slots to publish",
+        });
+      }
+      const sessions = drafts.flatMap((d) =>
+        getPracticeOccurrences(d, d, d.timeZone).map((o) => ({
+          practiceSlotId: d.id,
+          facilitySurfaceId: d.facilitySurfaceId,
+          title: `Practice: ${d.teamName}`,
+          startsAt: o.startsAt,
+          endsAt: o.endsAt,
+        })),
+      );
+      // Games or bookings may have been added since the allocation ran; closed dates are skipped.
+      const conflicts = await findScheduleConflicts(ctx.db, sessions);
+      const blocking = conflicts.filter((c) => c.type !== "closed_date");
+      if (blocking.length > 0) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Practice slots conflict with the facility schedule",
+          cause: new ScheduleConflictError(blocking),
+        });
+      }
+      const closed = new Set(
+        conflicts.map((c) => `${c.facilitySurfaceId}|${c.startsAt}`),
+      );
+      const bookings = sessions.filter(
+        (s) => !closed.has(`${s.facilitySurfaceId}|${s.startsAt.toISOString()}`),
+      );
+      await ctx.db.transaction(async (tx) => {
+        if (bookings.length > 0) {
+          await tx.insert(facilityBooking).values(bookings);
+        }
+        await tx
+          .update(practiceSlot)
+          .set({ status: "published", publishedAt: new Date() })
+          .where(
+            inArray(
+              practiceSlot.id,
+              drafts.map((d) => d.id),
+            ),
+          );
+      });
+      return { published: drafts.length, sessions: bookings.length };
+    }),
+
+  /** Remove a practice slot. A published slot's booked sessions are removed with it. User must be a member of the org. */
+  deletePracticeSlot: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        practiceSlotId: z.string(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const [deleted] = await ctx.db
+        .delete(practiceSlot)
+        .where(
+          and(
+            eq(practiceSlot.id, input.practiceSlotId),
+            eq(practiceSlot.organizationId, input.organizationId),
+          ),
+        )
+        .returning({ id: practiceSlot.id });
+      if (!deleted) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Practice slot not found",
+        });
+      }
+      return { success: true };
+    }),
+
+  // ——— Calendar ———
+
+  /** Games and facility bookings overlapping [from, to), at most 100 days. League/team filters return games only; facility filter covers both. */
+  listCalendarEvents: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        from: z.iso.datetime({ offset: true }),
+        to: z.iso.datetime({ offset: true }),
+        leagueId: z.string().optional(),
+        teamId: z.string().optional(),
+        facilityId: z.string().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const from = new Date(input.from);
+      const to = new Date(input.to);
+      if (to <= from) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Range must end after it starts",
+        });
+      }
+      if (to.getTime() - from.getTime() > 100 * 24 * 60 * 60 * 1000) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Range cannot exceed 100 days",
+        });
+      }
+      const games = await ctx.db
+        .select({
+          id: game.id,
+          startsAt: game.startsAt,
+          endsAt: game.endsAt,
+          status: game.status,
+          leagueId: league.id,
+          leagueName: league.name,
+          homeTeamName: homeTeam.name,
+          awayTeamName: awayTeam.name,
+          facilitySurfaceId: game.facilitySurfaceId,
+          surfaceName: facilitySurface.name,
+          facilityId: facility.id,
+          facilityName: facility.name,
+        })
+        .from(game)
+        .innerJoin(league, eq(league.id, game.leagueId))
+        .innerJoin(homeLeagueTeam, eq(homeLeagueTeam.id, game.homeLeagueTeamId))
+        .innerJoin(homeTeam, eq(homeTeam.id, homeLeagueTeam.teamId))
+        .innerJoin(awayLeagueTeam, eq(awayLeagueTeam.id, game.awayLeagueTeamId))
+        .innerJoin(awayTeam, eq(awayTeam.id, awayLeagueTeam.teamId))
+        .leftJoin(facilitySurface, eq(facilitySurface.id, game.facilitySurfaceId))
+        .leftJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(
+          and(
+            eq(league.organizationId, input.organizationId),
+            isNull(game.deletedAt),
+            lt(game.startsAt, to),
+            gt(game.endsAt, from),
+            ...(input.leagueId ? [eq(game.leagueId, input.leagueId)] : []),
+            ...(input.teamId
+              ? [
+                  or(
+                    eq(homeTeam.id, input.teamId),
+                    eq(awayTeam.id, input.teamId),
+                  ),
+                ]
+              : []),
+            ...(input.facilityId ? [eq(facility.id, input.facilityId)] : []),
+          ),
+        );
+      const bookings =
+        input.leagueId || input.teamId
+          ? []
+          : await ctx.db
+              .select({
+                id: facilityBooking.id,
+                title: facilityBooking.title,
+                startsAt: facilityBooking.startsAt,
+                endsAt: facilityBooking.endsAt,
+                facilitySurfaceId: facilityBooking.facilitySurfaceId,
+                surfaceName: facilitySurface.name,
+                facilityId: facility.id,
+                facilityName: facility.name,
+              })
+              .from(facilityBooking)
+              .innerJoin(
+                facilitySurface,
+                eq(facilitySurface.id, facilityBooking.facilitySurfaceId),
+              )
+              .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+              .where(
+                and(
+                  eq(facility.organizationId, input.organizationId),
+                  lt(facilityBooking.startsAt, to),
+                  gt(facilityBooking.endsAt, from),
+                  ...(input.facilityId
+                    ? [eq(facility.id, input.facilityId)]
+                    : []),
+                ),
+              );
+      return [
+        ...games.map((g) => ({
+          kind: "game" as const,
+          id: g.id,
+          title: `${g.homeTeamName} vs ${g.awayTeamName}`,
+          startsAt: g.startsAt,
+          endsAt: g.endsAt,
+          status: g.status,
+          leagueId: g.leagueId,
+          leagueName: g.leagueName,
+          facilitySurfaceId: g.facilitySurfaceId,
+          surfaceName: g.surfaceName,
+          facilityId: g.facilityId,
+          facilityName: g.facilityName,
+        })),
+        ...bookings.map((b) => ({
+          kind: "booking" as const,
+          id: b.id,
+          title: b.title,
+          startsAt: b.startsAt,
+          endsAt: b.endsAt,
+          status: null,
+          leagueId: null,
+          leagueName: null,
+          facilitySurfaceId: b.facilitySurfaceId,
+          surfaceName: b.surfaceName,
+          facilityId: b.facilityId,
+          facilityName: b.facilityName,
+        })),
+      ].sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+    }),
+
+  // ——— Calendar feeds ———
+  /** Teams the current user plays on, in every organization, for subscribing to their schedules. Needs no organization membership. */
+  listCalendarTeams: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db
+      .select({
+        teamId: team.id,
+        teamName: team.name,
+        organizationId: organization.id,
+        organizationName: organization.name,
+      })
+      .from(teamMember)
+      .innerJoin(team, eq(team.id, teamMember.teamId))
+      .innerJoin(organization, eq(organization.id, team.organizationId))
+      .where(eq(teamMember.userId, ctx.user.id))
+      .orderBy(asc(organization.name), asc(team.name));
+  }),
+
+  /** The current user's active ICS feeds in the org, with their signed subscription URLs. */
+  listCalendarFeeds: protectedProcedure
+    .input(z.object({ organizationId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const feeds = await ctx.db
+        .select({
+          id: calendarFeed.id,
+          scope: calendarFeed.scope,
+          targetId: calendarFeed.targetId,
+          lastAccessedAt: calendarFeed.lastAccessedAt,
+          createdAt: calendarFeed.createdAt,
+        })
+        .from(calendarFeed)
+        .where(
+          and(
+            eq(calendarFeed.organizationId, input.organizationId),
+            eq(calendarFeed.createdByUserId, ctx.user.id),
+            isNull(calendarFeed.revokedAt),
+          ),
+        )
+        .orderBy(asc(calendarFeed.createdAt));
+      return Promise.all(
+        feeds.map(async (f) => ({
+          ...f,
+          url: getCalendarFeedUrl(
+            ctx.env.APP_ORIGIN,
+            await signCalendarFeedToken(f.id, ctx.env.BETTER_AUTH_SECRET),
+          ),
+        })),
+      );
+    }),
+
+  /**
+   * Get or create the current user's ICS feed for a team, league, facility or their own schedule
+   * ("user", no targetId). Team members and players may subscribe to their team and own schedule.
+   */
+  createCalendarFeed: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        scope: z.enum(calendarFeedScopes),
+        targetId: z.string().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      let targetId: string;
+      if (input.scope === "user") {
+        targetId = ctx.user.id;
+      } else {
+        if (!input.targetId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "targetId is required",
+          });
+        }
+        targetId = input.targetId;
+        const table = { team, league, facility }[input.scope];
+        const [target] = await ctx.db
+          .select({ id: table.id })
+          .from(table)
+          .where(
+            and(
+              eq(table.id, targetId),
+              eq(table.organizationId, input.organizationId),
+            ),
+          );
+        if (!target) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: `${input.scope[0].toUpperCase()}${input.scope.slice(1)} not found`,
+          });
+        }
+      }
+      const allowed = await canAccessCalendarFeed(ctx.db, ctx.user.id, {
+        organizationId: input.organizationId,
+        scope: input.scope,
+        targetId,
+      });
+      if (!allowed) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "You cannot subscribe to this calendar",
+        });
+      }
+      const existing = await ctx.db.query.calendarFeed.findFirst({
+        where: and(
+          eq(calendarFeed.organizationId, input.organizationId),
+          eq(calendarFeed.createdByUserId, ctx.user.id),
+          eq(calendarFeed.scope, input.scope),
+          eq(calendarFeed.targetId, targetId),
+          isNull(calendarFeed.revokedAt),
+        ),
+      });
+      const feed =
+        existing ??
+        (
+          await ctx.db
+            .insert(calendarFeed)
+            .values({
+              organizationId: input.organizationId,
+              scope: input.scope,
+              targetId,
+              createdByUserId: ctx.user.id,
+            })
+            .returning()
+        )[0];
+      if (!feed) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to create calendar feed",
+        });
+      }
+      return {
+        id: feed.id,
+        scope: feed.scope,
+        targetId: feed.targetId,
+        lastAccessedAt: feed.lastAccessedAt,
+        createdAt: feed.createdAt,
+        url: getCalendarFeedUrl(
+          ctx.env.APP_ORIGIN,
+          await signCalendarFeedToken(feed.id, ctx.env.BETTER_AUTH_SECRET),
+        ),
+      };
+    }),
+
+  /** Revoke one of the current user's ICS feeds. Its URL stops working immediately. */
+  revokeCalendarFeed: protectedProcedure
+    .input(z.object({ organizationId: z.string(), feedId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const [revoked] = await ctx.db
+        .update(calendarFeed)
+        .set({ revokedAt: new Date() })
+        .where(
+          and(
+            eq(calendarFeed.id, input.feedId),
+            eq(calendarFeed.organizationId, input.organizationId),
+            eq(calendarFeed.createdByUserId, ctx.user.id),
+            isNull(calendarFeed.revokedAt),
+          ),
+        )
+        .returning({ id: calendarFeed.id });
+      if (!revoked) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Calendar feed not found",
+        });
+      }
+      return revoked;
+    }),
+
+
+  // ——— Facility kiosks ———
+  /** A facility's active kiosk displays, with their signed read-only URLs. */
+  listFacilityKiosks: protectedProcedure
+    .input(z.object({ organizationId: z.string(), facilityId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const kiosks = await ctx.db
+        .select({
+          id: facilityKiosk.id,
+          name: facilityKiosk.name,
+          lastAccessedAt: facilityKiosk.lastAccessedAt,
+          createdAt: facilityKiosk.createdAt,
+        })
+        .from(facilityKiosk)
+        .where(
+          and(
+            eq(facilityKiosk.organizationId, input.organizationId),
+            eq(facilityKiosk.facilityId, input.facilityId),
+            isNull(facilityKiosk.revokedAt),
+          ),
+        )
+        .orderBy(asc(facilityKiosk.createdAt));
+      return Promise.all(
+        kiosks.map(async (k) => ({
+          ...k,
+          url: getFacilityKioskUrl(
+            ctx.env.APP_ORIGIN,
+            await signFacilityKioskToken(k.id, ctx.env.BETTER_AUTH_SECRET),
+          ),
+        })),
+      );
+    }),
+
+  /** Create a kiosk display for a facility: a read-only URL for a TV showing the day's games on its surfaces. */
+  createFacilityKiosk: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        facilityId: z.string(),
+        name: z.string().trim().min(1, "Name is required").max(100),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const [venue] = await ctx.db
+        .select({ id: facility.id })
+        .from(facility)
+        .where(
+          and(
+            eq(facility.id, input.facilityId),
+            eq(facility.organizationId, input.organizationId),
+          ),
+        );
+      if (!venue) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Facility not found",
+        });
+      }
+      const [kiosk] = await ctx.db
+        .insert(facilityKiosk)
+        .values({
+          organizationId: input.organizationId,
+          facilityId: venue.id,
+          name: input.name,
+          createdByUserId: ctx.user.id,
+        })
+        .returning();
+      if (!kiosk) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to create kiosk",
+        });
+      }
+      return {
+        id: kiosk.id,
+        name: kiosk.name,
+        lastAccessedAt: kiosk.lastAccessedAt,
+        createdAt: kiosk.createdAt,
+        url: getFacilityKioskUrl(
+          ctx.env.APP_ORIGIN,
+          await signFacilityKioskToken(kiosk.id, ctx.env.BETTER_AUTH_SECRET),
+        ),
+      };
+    }),
+
+  /** Revoke a kiosk display. Its URL stops working on the next refresh. */
+  revokeFacilityKiosk: protectedProcedure
+    .input(z.object({ organizationId: z.string(), kioskId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const [revoked] = await ctx.db
+        .update(facilityKiosk)
+        .set({ revokedAt: new Date() })
+        .where(
+          and(
+            eq(facilityKiosk.id, input.kioskId),
+            eq(facilityKiosk.organizationId, input.organizationId),
+            isNull(facilityKiosk.revokedAt),
+          ),
+        )
+        .returning({ id: facilityKiosk.id });
+      if (!revoked) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Kiosk not found",
+        });
+      }
+      return revoked;
+    }),
+
+  // ——— Discipline ———
+
+  /** The organization's suspension rules, by incident type and threshold. User must be a member of the org. */
+  listDisciplineRules: protectedProcedure
+    .input(z.object({ organizationId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      return ctx.db
+        .select()
+        .from(disciplineRule)
+        .where(eq(disciplineRule.organizationId, input.organizationId))
+        .orderBy(asc(disciplineRule.incidentType), asc(disciplineRule.threshold));
+    }),
+
+  /** Add a suspension rule, e.g. every second yellow card = one game. Applies to incidents recorded from now on. User must be a member of the org. */
+  createDisciplineRule: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        incidentType: z.enum(disciplineIncidentTypes),
+        threshold: z.number().int().min(1).max(20),
+        suspensionGames: z.number().int().min(1).max(50),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const [existing] = await ctx.db
+        .select({ id: disciplineRule.id })
+        .from(disciplineRule)
+        .where(
+          and(
+            eq(disciplineRule.organizationId, input.organizationId),
+            eq(disciplineRule.incidentType, input.incidentType),
+            eq(disciplineRule.threshold, input.threshold),
+          ),
+        );
+      if (existing) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: `There is already a rule for ${input.threshold} × ${DISCIPLINE_INCIDENT_LABELS[input.incidentType].toLowerCase()}`,
+        });
+      }
+      const [created] = await ctx.db
+        .insert(disciplineRule)
+        .values({
+          organizationId: input.organizationId,
+          incidentType: input.incidentType,
+          threshold: input.threshold,
+          suspensionGames: input.suspensionGames,
+        })
+        .returning();
+      return created;
+    }),
+
+  /** Delete a suspension rule. Its unserved suspensions are lifted; served ones stay on players' records. User must be a member of the org. */
+  deleteDisciplineRule: protectedProcedure
+    .input(z.object({ organizationId: z.string(), ruleId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const affected = await ctx.db
+        .selectDistinct({
+          userId: playerSuspension.userId,
+          seasonId: game.seasonId,
+        })
+        .from(playerSuspension)
+        .innerJoin(
+          gameDisciplineIncident,
+          eq(gameDisciplineIncident.id, playerSuspension.incidentId),
+        )
+        .innerJoin(game, eq(game.id, gameDisciplineIncident.gameId))
+        .where(
+          and(
+            eq(playerSuspension.ruleId, input.ruleId),
+            eq(playerSuspension.organizationId, input.organizationId),
+            isNull(playerSuspension.servedAt),
+          ),
+        );
+      return ctx.db.transaction(async (tx) => {
+        const [deleted] = await tx
+          .delete(disciplineRule)
+          .where(
+            and(
+              eq(disciplineRule.id, input.ruleId),
+              eq(disciplineRule.organizationId, input.organizationId),
+            ),
+          )
+          .returning({ id: disciplineRule.id });
+        if (!deleted) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Rule not found" });
+        }
+        for (const seasonId of new Set(affected.map((a) => a.seasonId))) {
+          await syncPlayerSuspensions(
+            tx,
+            input.organizationId,
+            seasonId,
+            affected.filter((a) => a.seasonId === seasonId).map((a) => a.userId),
+          );
+        }
+        return deleted;
+      });
+    }),
+
+  /** Cards and ejections recorded in a game, with each side's roster to pick players from. User must be a member of the org. */
+  getGameDiscipline: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        gameId: z.string(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const row = await requireOrgGame(ctx, input.organizationId, input.gameId);
+      const sideIds = [row.homeLeagueTeamId, row.awayLeagueTeamId];
+      const sides = await ctx.db
+        .select({ leagueTeamId: leagueTeam.id, teamName: team.name })
+        .from(leagueTeam)
+        .innerJoin(team, eq(team.id, leagueTeam.teamId))
+        .where(inArray(leagueTeam.id, sideIds));
+      const roster = await ctx.db
+        .select({
+          leagueTeamId: leagueTeamPlayer.leagueTeamId,
+          userId: leagueTeamPlayer.userId,
+          name: user.name,
+        })
+        .from(leagueTeamPlayer)
+        .innerJoin(user, eq(user.id, leagueTeamPlayer.userId))
+        .where(inArray(leagueTeamPlayer.leagueTeamId, sideIds));
+      const incidents = await ctx.db
+        .select({
+          id: gameDisciplineIncident.id,
+          leagueTeamId: gameDisciplineIncident.leagueTeamId,
+          userId: gameDisciplineIncident.userId,
+          name: user.name,
+          type: gameDisciplineIncident.type,
+          minute: gameDisciplineIncident.minute,
+          note: gameDisciplineIncident.note,
+        })
+        .from(gameDisciplineIncident)
+        .innerJoin(user, eq(user.id, gameDisciplineIncident.userId))
+        .where(eq(gameDisciplineIncident.gameId, input.gameId))
+        .orderBy(
+          sql`${gameDisciplineIncident.minute} asc nulls last`,
+          asc(gameDisciplineIncident.createdAt),
+        );
+
+      return {
+        gameId: row.id,
+        status: row.status,
+        sides: sideIds.map((leagueTeamId) => ({
+          leagueTeamId,
+          side: leagueTeamId === row.homeLeagueTeamId ? ("home" as const) : ("away" as const),
+          teamName: sides.find((s) => s.leagueTeamId === leagueTeamId)?.teamName ?? "",
+          players: roster
+            .filter((p) => p.leagueTeamId === leagueTeamId)
+            .map((p) => ({ userId: p.userId, name: p.name }))
+            .sort((a, b) => a.name.localeCompare(b.name)),
+        })),
+        incidents,
+      };
+    }),
+
+  /** Record a card or ejection against a rostered player. Suspensions the rules trigger are created and the player's status follows. User must be a member of the org. */
+  recordDisciplineIncident: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        gameId: z.string(),
+        leagueTeamId: z.string(),
+        userId: z.string(),
+        type: z.enum(disciplineIncidentTypes),
+        minute: z.number().int().min(0).max(300).nullish(),
+        note: z.string().trim().max(500).nullish(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const row = await requireOrgGame(ctx, input.organizationId, input.gameId);
+      if (!["in_progress", "final", "abandoned"].includes(row.status)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Cards can only be recorded once the game has started",
+        });
+      }
+      if (
+        input.leagueTeamId !== row.homeLeagueTeamId &&
+        input.leagueTeamId !== row.awayLeagueTeamId
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "That team is not playing in this game",
+        });
+      }
+      const [rostered] = await ctx.db
+        .select({ userId: leagueTeamPlayer.userId })
+        .from(leagueTeamPlayer)
+        .where(
+          and(
+            eq(leagueTeamPlayer.leagueTeamId, input.leagueTeamId),
+            eq(leagueTeamPlayer.userId, input.userId),
+          ),
+        );
+      if (!rostered) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Player is not on that team's roster",
+        });
+      }
+      return ctx.db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(gameDisciplineIncident)
+          .values({
+            gameId: input.gameId,
+            leagueTeamId: input.leagueTeamId,
+            userId: input.userId,
+            type: input.type,
+            minute: input.minute ?? null,
+            note: input.note || null,
+            recordedByUserId: ctx.user.id,
+          })
+          .returning();
+        await syncPlayerSuspensions(tx, input.organizationId, row.seasonId, [
+          input.userId,
+        ]);
+        return created;
+      });
+    }),
+
+  /** Remove an incident recorded in error. Suspensions it triggered are lifted unless already served. User must be a member of the org. */
+  deleteDisciplineIncident: protectedProcedure
+    .input(z.object({ organizationId: z.string(), incidentId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const [incident] = await ctx.db
+        .select({
+          id: gameDisciplineIncident.id,
+          userId: gameDisciplineIncident.userId,
+          seasonId: game.seasonId,
+        })
+        .from(gameDisciplineIncident)
+        .innerJoin(game, eq(game.id, gameDisciplineIncident.gameId))
+        .innerJoin(league, eq(league.id, game.leagueId))
+        .where(
+          and(
+            eq(gameDisciplineIncident.id, input.incidentId),
+            eq(league.organizationId, input.organizationId),
+          ),
+        );
+      if (!incident) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Incident not found" });
+      }
+      await ctx.db.transaction(async (tx) => {
+        await tx
+          .delete(gameDisciplineIncident)
+          .where(eq(gameDisciplineIncident.id, incident.id));
+        await syncPlayerSuspensions(tx, input.organizationId, incident.seasonId, [
+          incident.userId,
+        ]);
+      });
+      return { id: incident.id };
+    }),
+
+  /** A player's discipline record: incidents newest first and the suspensions they triggered, with games served so far. User must be a member of the org. */
+  getPlayerDisciplineHistory: protectedProcedure
+    .input(z.object({ organizationId: z.string(), userId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await requireOrgMember(ctx, input.organizationId);
+      const incidents = await ctx.db
+        .select({
+          id: gameDisciplineIncident.id,
+          type: gameDisciplineIncident.type,
+          minute: gameDisciplineIncident.minute,
+          note: gameDisciplineIncident.note,
+          gameId: game.id,
+          startsAt: game.startsAt,
+          leagueName: league.name,
+          teamName: team.name,
+        })
+        .from(gameDisciplineIncident)
+        .innerJoin(game, eq(game.id, gameDisciplineIncident.gameId))
+        .innerJoin(league, eq(league.id, game.leagueId))
+        .innerJoin(leagueTeam, eq(leagueTeam.id, gameDisciplineIncident.leagueTeamId))
+        .innerJoin(team, eq(team.id, leagueTeam.teamId))
+        .where(
+          and(
+            eq(gameDisciplineIncident.userId, input.userId),
+            eq(league.organizationId, input.organizationId),
+            isNull(game.deletedAt),
+          ),
+        )
+        .orderBy(desc(game.startsAt), desc(gameDisciplineIncident.createdAt));
+      const suspensions = await ctx.db
+        .select({
+          id: playerSuspension.id,
+          incidentId: playerSuspension.incidentId,
+          leagueTeamId: playerSuspension.leagueTeamId,
+          games: playerSuspension.games,
+          servedAt: playerSuspension.servedAt,
+          createdAt: playerSuspension.createdAt,
+          incidentType: gameDisciplineIncident.type,
+          incidentStartsAt: game.startsAt,
+          threshold: disciplineRule.threshold,
+          leagueName: league.name,
+          teamName: team.name,
+        })
+        .from(playerSuspension)
+        .innerJoin(
+          gameDisciplineIncident,
+          eq(gameDisciplineIncident.id, playerSuspension.incidentId),
+        )
+        .innerJoin(game, eq(game.id, gameDisciplineIncident.gameId))
+        .innerJoin(league, eq(league.id, game.leagueId))
+        .innerJoin(leagueTeam, eq(leagueTeam.id, playerSuspension.leagueTeamId))
+        .innerJoin(team, eq(team.id, leagueTeam.teamId))
+        .leftJoin(disciplineRule, eq(disciplineRule.id, playerSuspension.ruleId))
+        .where(
+          and(
+            eq(playerSuspension.organizationId, input.organizationId),
+            eq(playerSuspension.userId, input.userId),
+          ),
+        )
+        .orderBy(desc(game.startsAt), desc(playerSuspension.createdAt));
+      const unservedTeamIds = [
+        ...new Set(suspensions.filter((s) => !s.servedAt).map((s) => s.leagueTeamId)),
+      ];
+      const teamGames =
+        unservedTeamIds.length === 0
+          ? []
+          : await ctx.db
+              .select({
+                startsAt: game.startsAt,
+                status: game.status,
+                homeLeagueTeamId: game.homeLeagueTeamId,
+                awayLeagueTeamId: game.awayLeagueTeamId,
+              })
+              .from(game)
+              .where(
+                and(
+                  isNull(game.deletedAt),
+                  or(
+                    inArray(game.homeLeagueTeamId, unservedTeamIds),
+                    inArray(game.awayLeagueTeamId, unservedTeamIds),
+                  ),
+                ),
+              );
+
+      return {
+        incidents,
+        suspensions: suspensions.map(({ incidentStartsAt, ...s }) => ({
+          ...s,
+          gamesServed: s.servedAt
+            ? s.games
+            : Math.min(
+                s.games,
+                countServedGames(
+                  incidentStartsAt,
+                  teamGames.filter(
+                    (g) =>
+                      g.homeLeagueTeamId === s.leagueTeamId ||
+                      g.awayLeagueTeamId === s.leagueTeamId,
+                  ),
+                ),
+              ),
+        })),
+      };
+    }),
+
+  // ——— Seasons ———
+
+  /** List a league's seasons, newest first, with how many teams and games each has. User must be a member of the org. */
+  listSeasons: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      await requireOrgLeague(ctx, input.organizationId, input.leagueId);
+      const seasons = await ctx.db
+        .select()
+        .from(season)
+        .where(eq(season.leagueId, input.leagueId))
+        .orderBy(desc(season.createdAt));
+      const teamCounts = await ctx.db
+        .select({ seasonId: leagueTeam.seasonId, value: count(leagueTeam.id) })
+        .from(leagueTeam)
+        .where(eq(leagueTeam.leagueId, input.leagueId))
+        .groupBy(leagueTeam.seasonId);
+      const gameCounts = await ctx.db
+        .select({ seasonId: game.seasonId, value: count(game.id) })
+        .from(game)
+        .where(and(eq(game.leagueId, input.leagueId), isNull(game.deletedAt)))
+        .groupBy(game.seasonId);
+      const teamCountBySeason = new Map(
+        teamCounts.map((r) => [r.seasonId, Number(r.value)]),
+      );
+      const gameCountBySeason = new Map(
+        gameCounts.map((r) => [r.seasonId, Number(r.value)]),
+      );
+      return seasons.map((s) => ({
+        ...s,
+        teamCount: teamCountBySeason.get(s.id) ?? 0,
+        gameCount: gameCountBySeason.get(s.id) ?? 0,
+      }));
+    }),
+
+  /** What rolling a league over would create: its current season, suggested name and dates for the next one, the teams that can return, where they would play and whether they fit the roster limits, and the settings, divisions and facilities that carry over. User must be a member of the org. */
+  getSeasonRollover: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const leagueRow = await requireOrgLeague(
+        ctx,
+        input.organizationId,
+        input.leagueId,
+      );
+      const currentSeason = await getLeagueSeason(ctx.db, input.leagueId);
+      if (!currentSeason) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Season not found",
+        });
+      }
+      const teams = await loadReturningTeams(
+        ctx.db,
+        leagueRow,
+        currentSeason.id,
+      );
+      const divisions = await ctx.db
+        .select({ id: division.id, name: division.name })
+        .from(division)
+        .where(eq(division.leagueId, input.leagueId))
+        .orderBy(asc(division.rank), asc(division.name));
+      const facilities = await ctx.db
+        .selectDistinct({
+          facilityName: facility.name,
+          surfaceName: facilitySurface.name,
+        })
+        .from(game)
+        .innerJoin(
+          facilitySurface,
+          eq(facilitySurface.id, game.facilitySurfaceId),
+        )
+        .innerJoin(facility, eq(facility.id, facilitySurface.facilityId))
+        .where(and(eq(game.seasonId, currentSeason.id), isNull(game.deletedAt)))
+        .orderBy(asc(facility.name), asc(facilitySurface.name));
+      const next = getRolloverDates(
+        currentSeason.startDate,
+        currentSeason.endDate,
+      );
+      return {
+        league: leagueRow,
+        season: currentSeason,
+        next: {
+          ...next,
+          name: getDefaultSeasonName(
+            next.startDate ?? new Date().toISOString().slice(0, 10),
+          ),
+        },
+        divisions,
+        teams: teams.map((t) => ({
+          ...t,
+          rosterError: getRosterSizeError(
+            t.playerCount,
+            leagueRow,
+            leagueRow.name,
+          ),
+        })),
+        facilities: facilities.map(
+          (f) => `${f.facilityName} · ${f.surfaceName}`,
+        ),
+      };
+    }),
+
+  /** Start a new season of a league. The current season is completed; its teams, games and rosters stay as they were. Its teams return (all, or teamIds), promoted and relegated by their final division standings, and are emailed when notifyPlayers is set. User must be a member of the org. */
+  startSeason: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+        name: z.string().trim().min(1, "Season name is required").max(100),
+        startDate: dateStringSchema.optional(),
+        endDate: dateStringSchema.optional(),
+        teamIds: z.array(z.string()).optional(),
+        notifyPlayers: z.boolean().default(false),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const leagueRow = await requireOrgLeague(
+        ctx,
+        input.organizationId,
+        input.leagueId,
+      );
+      if (input.startDate && input.endDate && input.endDate < input.startDate) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "End date must be on or after the start date",
+        });
+      }
+      const [sameName] = await ctx.db
+        .select({ id: season.id })
+        .from(season)
+        .where(
+          and(eq(season.leagueId, input.leagueId), eq(season.name, input.name)),
+        );
+      if (sameName) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "A season with this name already exists",
+        });
+      }
+      const previousSeason = await getLeagueSeason(ctx.db, input.leagueId);
+      const returning = previousSeason
+        ? await loadReturningTeams(ctx.db, leagueRow, previousSeason.id)
+        : [];
+      if (
+        input.teamIds?.some((id) => !returning.some((t) => t.teamId === id))
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only teams of the current season can return",
+        });
+      }
+      const carried = input.teamIds
+        ? returning.filter((t) => input.teamIds?.includes(t.teamId))
+        : returning;
+      // Returning teams must fit the roster limits, like teams added one by one.
+      for (const t of carried) {
+        const rosterError = getRosterSizeError(
+          t.playerCount,
+          leagueRow,
+          leagueRow.name,
+        );
+        if (rosterError) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `${t.name}: ${rosterError}`,
+          });
+        }
+      }
+      const created = await ctx.db.transaction(async (tx) => {
+        await tx
+          .update(season)
+          .set({ completedAt: new Date() })
+          .where(
+            and(eq(season.leagueId, input.leagueId), isNull(season.completedAt)),
+          );
+        const [row] = await tx
+          .insert(season)
+          .values({
+            leagueId: input.leagueId,
+            name: input.name,
+            startDate: input.startDate ?? null,
+            endDate: input.endDate ?? null,
+          })
+          .returning();
+        if (row && carried.length > 0) {
+          await tx.insert(leagueTeam).values(
+            carried.map((t) => ({
+              leagueId: input.leagueId,
+              seasonId: row.id,
+              teamId: t.teamId,
+              divisionId: t.divisionId,
+            })),
+          );
+          await syncSeasonRosters(
+            tx,
+            carried.map((t) => t.teamId),
+          );
+        }
+        return row;
+      });
+      if (!created) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to start season",
+        });
+      }
+      const notification =
+        input.notifyPlayers && carried.length > 0
+          ? await notifySeasonTeams(ctx.db, ctx.env, created.id).then(
+              (notified) => ({ notified, notificationFailed: false }),
+              () => ({ notified: 0, notificationFailed: true }),
+            )
+          : { notified: 0, notificationFailed: false };
+      return {
+        ...created,
+        teamCount: carried.length,
+        promoted: carried.filter((t) => t.movement === "promoted").length,
+        relegated: carried.filter((t) => t.movement === "relegated").length,
+        ...notification,
+      };
+    }),
+
+  /** Copy a league into a new one with its settings and divisions. The first season gets the teams of the league's current season that return (all, or teamIds), placed by its final division standings; their players are emailed when notifyPlayers is set. User must be a member of the org. */
+  cloneLeague: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+        name: z.string().trim().min(1, "League name is required").max(100),
+        seasonName: z
+          .string()
+          .trim()
+          .min(1, "Season name is required")
+          .max(100),
+        startDate: dateStringSchema.optional(),
+        endDate: dateStringSchema.optional(),
+        teamIds: z.array(z.string()).optional(),
+        notifyPlayers: z.boolean().default(false),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.startDate && input.endDate && input.endDate < input.startDate) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "End date must be on or after the start date",
+        });
+      }
+      const source = await requireOrgLeague(
+        ctx,
+        input.organizationId,
+        input.leagueId,
+      );
+      const [sameName] = await ctx.db
+        .select({ id: league.id })
+        .from(league)
+        .where(
+          and(
+            eq(league.organizationId, input.organizationId),
+            eq(league.name, input.name),
+          ),
+        );
+      if (sameName) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "A league with this name already exists",
+        });
+      }
+      const baseSlug =
+        input.name
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "-")
+          .replace(/^-|-$/g, "") || "league";
+      let slug = baseSlug;
+      let suffix = 0;
+      while (true) {
+        const [existing] = await ctx.db
+          .select({ id: league.id })
+          .from(league)
+          .where(
+            and(
+              eq(league.organizationId, input.organizationId),
+              eq(league.slug, slug),
+            ),
+          );
+        if (!existing) break;
+        suffix += 1;
+        slug = `${baseSlug}-${suffix}`;
+      }
+      const currentSeason = await getLeagueSeason(ctx.db, input.leagueId);
+      const returning = currentSeason
+        ? await loadReturningTeams(ctx.db, source, currentSeason.id)
+        : [];
+      if (
+        input.teamIds?.some((id) => !returning.some((t) => t.teamId === id))
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only teams of the current season can return",
+        });
+      }
+      const carried = input.teamIds
+        ? returning.filter((t) => input.teamIds?.includes(t.teamId))
+        : returning;
+      // The copy keeps the roster limits, so the teams it takes must fit them.
+      for (const t of carried) {
+        const rosterError = getRosterSizeError(
+          t.playerCount,
+          source,
+          input.name,
+        );
+        if (rosterError) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `${t.name}: ${rosterError}`,
+          });
+        }
+      }
+      const divisions = await ctx.db
+        .select()
+        .from(division)
+        .where(eq(division.leagueId, input.leagueId));
+      const created = await ctx.db.transaction(async (tx) => {
+        const [row] = await tx
+          .insert(league)
+          .values({
+            organizationId: input.organizationId,
+            name: input.name,
+            slug,
+            image: source.image,
+            ageGroup: source.ageGroup,
+            sport: source.sport,
+            operatingSchedule: source.operatingSchedule,
+            scheduleExceptions: source.scheduleExceptions,
+            pointsForWin: source.pointsForWin,
+            pointsForTie: source.pointsForTie,
+            pointsForLoss: source.pointsForLoss,
+            standingsTiebreakers: source.standingsTiebreakers,
+            periodCount: source.periodCount,
+            periodLengthMinutes: source.periodLengthMinutes,
+            minRosterSize: source.minRosterSize,
+            maxRosterSize: source.maxRosterSize,
+          })
+          .returning();
+        if (!row) return undefined;
+        const [firstSeason] = await tx
+          .insert(season)
+          .values({
+            leagueId: row.id,
+            name: input.seasonName,
+            startDate: input.startDate ?? null,
+            endDate: input.endDate ?? null,
+          })
+          .returning();
+        if (!firstSeason) return undefined;
+        // Divisions are matched by name, which is unique within a league.
+        const copiedDivisions =
+          divisions.length > 0
+            ? await tx
+                .insert(division)
+                .values(
+                  divisions.map((d) => ({
+                    leagueId: row.id,
+                    name: d.name,
+                    rank: d.rank,
+                    promotionCount: d.promotionCount,
+                    relegationCount: d.relegationCount,
+                  })),
+                )
+                .returning({ id: division.id, name: division.name })
+            : [];
+        const divisionIdByName = new Map(
+          copiedDivisions.map((d) => [d.name, d.id]),
+        );
+        if (carried.length > 0) {
+          await tx.insert(leagueTeam).values(
+            carried.map((t) => ({
+              leagueId: row.id,
+              seasonId: firstSeason.id,
+              teamId: t.teamId,
+              divisionId:
+                divisionIdByName.get(
+                  divisions.find((d) => d.id === t.divisionId)?.name ?? "",
+                ) ?? null,
+            })),
+          );
+          await syncSeasonRosters(
+            tx,
+            carried.map((t) => t.teamId),
+          );
+        }
+        return { ...row, seasonId: firstSeason.id };
+      });
+      if (!created) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to copy league",
+        });
+      }
+      const notification =
+        input.notifyPlayers && carried.length > 0
+          ? await notifySeasonTeams(ctx.db, ctx.env, created.seasonId).then(
+              (notified) => ({ notified, notificationFailed: false }),
+              () => ({ notified: 0, notificationFailed: true }),
+            )
+          : { notified: 0, notificationFailed: false };
+      return {
+        ...created,
+        teamCount: carried.length,
+        promoted: carried.filter((t) => t.movement === "promoted").length,
+        relegated: carried.filter((t) => t.movement === "relegated").length,
+        ...notification,
+      };
+    }),
+
+  // ——— Divisions ———
+
+  /** Add a division below a league's existing ones. User must be a member of the org. */
+  createDivision: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+        name: z.string().trim().min(1, "Division name is required").max(100),
+        promotionCount: divisionMovementCountSchema,
+        relegationCount: divisionMovementCountSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgLeague(ctx, input.organizationId, input.leagueId);
+      const [sameName] = await ctx.db
+        .select({ id: division.id })
+        .from(division)
+        .where(
+          and(
+            eq(division.leagueId, input.leagueId),
+            eq(division.name, input.name),
+          ),
+        );
+      if (sameName) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "A division with this name already exists",
+        });
+      }
+      const [{ value: lowestRank }] = await ctx.db
+        .select({ value: sql<number>`coalesce(max(${division.rank}), 0)` })
+        .from(division)
+        .where(eq(division.leagueId, input.leagueId));
+      const [created] = await ctx.db
+        .insert(division)
+        .values({
+          leagueId: input.leagueId,
+          name: input.name,
+          rank: Number(lowestRank) + 1,
+          promotionCount: input.promotionCount,
+          relegationCount: input.relegationCount,
+        })
+        .returning();
+      if (!created) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to create division",
+        });
+      }
+      return created;
+    }),
+
+  /** Rename a division or change how many teams it promotes and relegates at season rollover. User must be a member of the org. */
+  updateDivision: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        divisionId: z.string(),
+        name: z.string().trim().min(1, "Division name is required").max(100),
+        promotionCount: divisionMovementCountSchema,
+        relegationCount: divisionMovementCountSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const divisionRow = await requireOrgDivision(
+        ctx,
+        input.organizationId,
+        input.divisionId,
+      );
+      const [sameName] = await ctx.db
+        .select({ id: division.id })
+        .from(division)
+        .where(
+          and(
+            eq(division.leagueId, divisionRow.leagueId),
+            eq(division.name, input.name),
+            ne(division.id, input.divisionId),
+          ),
+        );
+      if (sameName) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "A division with this name already exists",
+        });
+      }
+      const [updated] = await ctx.db
+        .update(division)
+        .set({
+          name: input.name,
+          promotionCount: input.promotionCount,
+          relegationCount: input.relegationCount,
+        })
+        .where(eq(division.id, input.divisionId))
+        .returning();
+      return updated;
+    }),
+
+  /** Move a division one tier up or down, swapping places with its neighbour. User must be a member of the org. */
+  moveDivision: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        divisionId: z.string(),
+        direction: z.enum(["up", "down"]),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const divisionRow = await requireOrgDivision(
+        ctx,
+        input.organizationId,
+        input.divisionId,
+      );
+      const tiers = await ctx.db
+        .select({ id: division.id })
+        .from(division)
+        .where(eq(division.leagueId, divisionRow.leagueId))
+        .orderBy(asc(division.rank), asc(division.name));
+      const from = tiers.findIndex((d) => d.id === input.divisionId);
+      const to = input.direction === "up" ? from - 1 : from + 1;
+      if (to < 0 || to >= tiers.length) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            input.direction === "up"
+              ? "This is already the top division"
+              : "This is already the bottom division",
+        });
+      }
+      [tiers[from], tiers[to]] = [tiers[to], tiers[from]];
+      await ctx.db.transaction(async (tx) => {
+        for (const [i, d] of tiers.entries()) {
+          await tx
+            .update(division)
+            .set({ rank: i + 1 })
+            .where(eq(division.id, d.id));
+        }
+      });
+      return { success: true };
+    }),
+
+  /** Delete a division. Its teams stay in their seasons without a division. User must be a member of the org. */
+  deleteDivision: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        divisionId: z.string(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgDivision(ctx, input.organizationId, input.divisionId);
+      await ctx.db.delete(division).where(eq(division.id, input.divisionId));
+      return { success: true };
+    }),
+
+  /** Place a team of the league's current season in a division, or take it out of one (divisionId null). User must be a member of the org. */
+  setLeagueTeamDivision: protectedProcedure
+    .input(
+      z.object({
+        organizationId: z.string(),
+        leagueId: z.string(),
+        teamId: z.string(),
+        divisionId: z.string().nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireOrgLeague(ctx, input.organizationId, input.leagueId);
+      if (input.divisionId) {
+        const [divisionRow] = await ctx.db
+          .select({ id: division.id })
+          .from(division)
+          .where(
+            and(
+              eq(division.id, input.divisionId),
+              eq(division.leagueId, input.leagueId),
+            ),
+          );
+        if (!divisionRow) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Division not found",
+          });
+        }
+      }
+      const currentSeason = await getLeagueSeason(ctx.db, input.leagueId);
+      if (!currentSeason) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Season not found",
+        });
+      }
+      const [updated] = await ctx.db
+        .update(leagueTeam)
+        .set({ divisionId: input.divisionId })
+        .where(
+          and(
+            eq(leagueTeam.seasonId, currentSeason.id),
+            eq(leagueTeam.teamId, input.teamId),
+          ),
+        )
+        .returning({ id: leagueTeam.id, divisionId: leagueTeam.divisionId });
+      if (!updated) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Team is not in this season",
+        });
+      }
+      return updated;
+    }),
 });
@@ -0,0 +1,153 @@
+/**
+ * "Subscribe" button for ICS feeds: creates, copies and revokes the current user's signed
+ * feed URL for a team, league, facility or their own schedule.
+ */
+
+import { getErrorMessage } from "@/lib/errors";
+import {
+  useCalendarFeeds,
+  useCreateCalendarFeed,
+  useRevokeCalendarFeed,
+  type CalendarFeedScope,
+} from "@/lib/queries/calendar";
+import { useOrganization } from "@/lib/queries/organization";
+import { toast } from "@/lib/toast";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+} from "@repo/ui";
+import { CalendarPlus, Copy } from "lucide-react";
+import { useState } from "react";
+
+interface CalendarFeedButtonProps {
+  scope: CalendarFeedScope;
+  /** Team, league or facility id. Omit for the user's own schedule. */
+  targetId?: string;
+  /** What the feed covers, e.g. the team name. */
+  label: string;
+  /** Organization of the feed. Defaults to the current organization. */
+  organizationId?: string;
+}
+
+export function CalendarFeedButton({
+  scope,
+  targetId,
+  label,
+  organizationId: orgId,
+}: CalendarFeedButtonProps) {
+  const { data: organizations } = useOrganization();
+  const organizationId = orgId ?? organizations?.[0]?.id;
+  const { data: feeds } = useCalendarFeeds(organizationId);
+  const createFeed = useCreateCalendarFeed();
+  const revokeFeed = useRevokeCalendarFeed();
+  const [open, setOpen] = useState(false);
+
+  const feed = feeds?.find(
+    (f) => f.scope === scope && (scope === "user" || f.targetId === targetId),
+  );
+
+  const handleCreate = () => {
+    if (!organizationId) return;
+    createFeed.mutate(
+      { organizationId, scope, ...(targetId ? { targetId } : {}) },
+      { onError: (err) => toast.error(getErrorMessage(err)) },
+    );
+  };
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast.success("Link copied");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  const handleRevoke = () => {
+    if (!organizationId || !feed) return;
+    revokeFeed.mutate(
+      { organizationId, feedId: feed.id },
+      {
+        onSuccess: () => toast.success("Link revoked"),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        disabled={!organizationId}
+      >
+        <CalendarPlus className="h-4 w-4 mr-2" />
+        Subscribe
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Subscribe to {label}</DialogTitle>
+            <DialogDescription>
+              Add this private link to Google Calendar, Apple Calendar or
+              Outlook. Changes and cancellations show up automatically. Anyone
+              with the link can see the schedule, so revoke it if it is shared
+              by mistake.
+            </DialogDescription>
+          </DialogHeader>
+          {feed ? (
+            <div className="flex gap-2">
+              <Input
+                readOnly
+                value={feed.url}
+                onFocus={(e) => e.target.select()}
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label="Copy link"
+                onClick={handleCopy}
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              You don't have a link for this calendar yet.
+            </p>
+          )}
+          <DialogFooter>
+            {feed ? (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={handleRevoke}
+                  disabled={revokeFeed.isPending}
+                >
+                  {revokeFeed.isPending ? "Revoking…" : "Revoke link"}
+                </Button>
+                <Button asChild>
+                  <a href={feed.url.replace(/^https?:/, "webcal:")}>
+                    Open in calendar app
+                  </a>
+                </Button>
+              </>
+            ) : (
+              <Button onClick={handleCreate} disabled={createFeed.isPending}>
+                {createFeed.isPending ? "Creating…" : "Create link"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * "Game sheets" button for a facility: opens a PDF with one printable referee sheet per game
+ * starting at the facility on the chosen day.
+ */
+
+import { getFacilityGameSheetsUrl } from "@/lib/game-sheets";
+import { useOrganization } from "@/lib/queries/organization";
+import { getZonedDateTime } from "@/lib/time-zone";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Label,
+} from "@repo/ui";
+import { Printer } from "lucide-react";
+import { useState } from "react";
+
+interface FacilityGameSheetsButtonProps {
+  facilityId: string;
+  facilityName: string;
+  timeZone: string;
+}
+
+export function FacilityGameSheetsButton({
+  facilityId,
+  facilityName,
+  timeZone,
+}: FacilityGameSheetsButtonProps) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const [open, setOpen] = useState(false);
+  const [date, setDate] = useState(
+    () => getZonedDateTime(new Date(), timeZone).date,
+  );
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        disabled={!organizationId}
+      >
+        <Printer className="h-4 w-4 mr-2" />
+        Game sheets
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Game sheets for {facilityName}</DialogTitle>
+            <DialogDescription>
+              A PDF with one page per game starting here on the chosen day: both
+              rosters with jersey numbers and player status, and blanks for
+              scores, cards and signatures.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="game-sheets-date">Day</Label>
+            <Input
+              id="game-sheets-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            {organizationId && date ? (
+              <Button asChild>
+                <a
+                  href={getFacilityGameSheetsUrl(
+                    organizationId,
+                    facilityId,
+                    date,
+                  )}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  Open PDF
+                </a>
+              </Button>
+            ) : (
+              <Button disabled>Open PDF</Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,164 @@
+/**
+ * "Kiosk" button for a facility: creates, copies and revokes the read-only display URLs that a
+ * clubhouse TV opens to show the day's games on the facility's surfaces.
+ */
+
+import { getErrorMessage } from "@/lib/errors";
+import {
+  useCreateFacilityKiosk,
+  useFacilityKiosks,
+  useRevokeFacilityKiosk,
+  type FacilityKiosk,
+} from "@/lib/queries/facility";
+import { useOrganization } from "@/lib/queries/organization";
+import { toast } from "@/lib/toast";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  Input,
+} from "@repo/ui";
+import { Copy, ExternalLink, MonitorPlay } from "lucide-react";
+import { useState, type FormEvent } from "react";
+
+interface FacilityKioskButtonProps {
+  facilityId: string;
+  facilityName: string;
+}
+
+export function FacilityKioskButton({
+  facilityId,
+  facilityName,
+}: FacilityKioskButtonProps) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const { data: kiosks } = useFacilityKiosks(facilityId);
+  const createKiosk = useCreateFacilityKiosk();
+  const revokeKiosk = useRevokeFacilityKiosk();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const handleCreate = (e: FormEvent) => {
+    e.preventDefault();
+    if (!organizationId || !name.trim()) return;
+    createKiosk.mutate(
+      { organizationId, facilityId, name: name.trim() },
+      {
+        onSuccess: () => setName(""),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  const handleCopy = async (kiosk: FacilityKiosk) => {
+    try {
+      await navigator.clipboard.writeText(kiosk.url);
+      toast.success("Link copied");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  const handleRevoke = (kiosk: FacilityKiosk) => {
+    if (!organizationId) return;
+    revokeKiosk.mutate(
+      { organizationId, kioskId: kiosk.id },
+      {
+        onSuccess: () => toast.success(`${kiosk.name} revoked`),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        disabled={!organizationId}
+      >
+        <MonitorPlay className="h-4 w-4 mr-2" />
+        Kiosk
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Kiosk displays for {facilityName}</DialogTitle>
+            <DialogDescription>
+              Open a kiosk link on a TV to show today's games, live scores and
+              field assignments, rotating through the surfaces. The link is
+              read-only and needs no login, so revoke it when the screen is
+              retired.
+            </DialogDescription>
+          </DialogHeader>
+          {kiosks && kiosks.length > 0 ? (
+            <ul className="space-y-3">
+              {kiosks.map((kiosk) => (
+                <li key={kiosk.id} className="space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium">{kiosk.name}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(kiosk)}
+                      disabled={revokeKiosk.isPending}
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      readOnly
+                      value={kiosk.url}
+                      onFocus={(e) => e.target.select()}
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      aria-label="Copy link"
+                      onClick={() => handleCopy(kiosk)}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="icon" asChild>
+                      <a
+                        href={kiosk.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        aria-label="Open kiosk"
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              This facility has no kiosk displays yet.
+            </p>
+          )}
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <Input
+              placeholder="Screen name, e.g. Clubhouse TV"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+            />
+            <Button
+              type="submit"
+              disabled={!name.trim() || createKiosk.isPending}
+            >
+              {createKiosk.isPending ? "Creating…" : "Create link"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,264 @@
+/**
+ * Cards and ejections for one game. Recording or removing one recomputes the player's
+ * suspensions under the organization's discipline rules, so their status may change.
+ */
+
+import { getErrorMessage } from "@/lib/errors";
+import {
+  DISCIPLINE_INCIDENT_TYPES,
+  getDisciplineIncidentLabel,
+  useDeleteDisciplineIncident,
+  useGameDiscipline,
+  useRecordDisciplineIncident,
+  type DisciplineIncidentType,
+  type GameDiscipline,
+} from "@/lib/queries/discipline";
+import type { Game } from "@/lib/queries/game";
+import { useOrganization } from "@/lib/queries/organization";
+import { toast } from "@/lib/toast";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Label,
+  Skeleton,
+} from "@repo/ui";
+import { Trash2 } from "lucide-react";
+import { useState } from "react";
+
+const inputClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+interface DisciplineFormProps {
+  sheet: GameDiscipline;
+  onDone: () => void;
+}
+
+function DisciplineForm({ sheet, onDone }: DisciplineFormProps) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const recordIncident = useRecordDisciplineIncident();
+  const deleteIncident = useDeleteDisciplineIncident();
+  /** `${leagueTeamId}:${userId}` of the selected player. */
+  const [player, setPlayer] = useState("");
+  const [type, setType] = useState<DisciplineIncidentType>("yellow_card");
+  const [minute, setMinute] = useState("");
+  const [note, setNote] = useState("");
+  const editable =
+    sheet.status === "in_progress" ||
+    sheet.status === "final" ||
+    sheet.status === "abandoned";
+  const teamNames = new Map(
+    sheet.sides.map((side) => [side.leagueTeamId, side.teamName]),
+  );
+
+  const handleRecord = () => {
+    if (!organizationId || !player) return;
+    const [leagueTeamId, userId] = player.split(":");
+    recordIncident.mutate(
+      {
+        organizationId,
+        gameId: sheet.gameId,
+        leagueTeamId,
+        userId,
+        type,
+        minute: minute.trim() === "" ? null : Math.trunc(Number(minute)),
+        note: note.trim() || null,
+      },
+      {
+        onSuccess: () => {
+          toast.success(`${getDisciplineIncidentLabel(type)} recorded`);
+          setPlayer("");
+          setMinute("");
+          setNote("");
+        },
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  const handleDelete = (incidentId: string) => {
+    if (!organizationId) return;
+    deleteIncident.mutate(
+      { organizationId, incidentId },
+      {
+        onSuccess: () => toast.success("Incident removed"),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  return (
+    <>
+      <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+        {sheet.incidents.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No cards or ejections recorded.
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {sheet.incidents.map((incident) => (
+              <li
+                key={incident.id}
+                className="flex items-start justify-between gap-2 p-2 text-sm"
+              >
+                <div>
+                  <p className="font-medium">
+                    {getDisciplineIncidentLabel(incident.type)} ·{" "}
+                    {incident.name}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {teamNames.get(incident.leagueTeamId)}
+                    {incident.minute != null && ` · ${incident.minute}'`}
+                    {incident.note && ` · ${incident.note}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(incident.id)}
+                  disabled={deleteIncident.isPending}
+                  aria-label={`Remove ${getDisciplineIncidentLabel(incident.type).toLowerCase()} for ${incident.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {editable ? (
+          <div className="space-y-3 rounded-md border p-3">
+            <div className="grid gap-2">
+              <Label htmlFor="discipline-player">Player</Label>
+              <select
+                id="discipline-player"
+                className={inputClassName}
+                value={player}
+                onChange={(e) => setPlayer(e.target.value)}
+              >
+                <option value="">Select player</option>
+                {sheet.sides.map((side) => (
+                  <optgroup key={side.leagueTeamId} label={side.teamName}>
+                    {side.players.map((p) => (
+                      <option
+                        key={p.userId}
+                        value={`${side.leagueTeamId}:${p.userId}`}
+                      >
+                        {p.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-2">
+                <Label htmlFor="discipline-type">Type</Label>
+                <select
+                  id="discipline-type"
+                  className={inputClassName}
+                  value={type}
+                  onChange={(e) =>
+                    setType(e.target.value as DisciplineIncidentType)
+                  }
+                >
+                  {DISCIPLINE_INCIDENT_TYPES.map((t) => (
+                    <option key={t.value} value={t.value}>
+                      {t.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="discipline-minute">Minute (optional)</Label>
+                <Input
+                  id="discipline-minute"
+                  type="number"
+                  inputMode="numeric"
+                  min={0}
+                  max={300}
+                  value={minute}
+                  onChange={(e) => setMinute(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="discipline-note">Note (optional)</Label>
+              <Input
+                id="discipline-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="e.g. Dissent"
+                maxLength={500}
+              />
+            </div>
+            <Button
+              className="w-full"
+              onClick={handleRecord}
+              disabled={!player || recordIncident.isPending || !organizationId}
+            >
+              {recordIncident.isPending ? "Saving…" : "Record incident"}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Cards can be recorded once the game has started.
+          </p>
+        )}
+      </div>
+      <DialogFooter>
+        <Button variant="outline" onClick={onDone}>
+          Close
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+interface GameDisciplineDialogProps {
+  game: Game;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function GameDisciplineDialog({
+  game,
+  open,
+  onOpenChange,
+}: GameDisciplineDialogProps) {
+  const {
+    data: sheet,
+    isPending,
+    error,
+  } = useGameDiscipline(open ? game.id : undefined);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Discipline</DialogTitle>
+          <DialogDescription>
+            {game.homeTeamName} vs {game.awayTeamName}. Suspensions follow the
+            organization&apos;s discipline rules.
+          </DialogDescription>
+        </DialogHeader>
+        {isPending ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-3/4" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : sheet ? (
+          <DisciplineForm sheet={sheet} onDone={() => onOpenChange(false)} />
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,232 @@
+/**
+ * Per-player stat sheet for one game. The columns are the league sport's stats; each side
+ * lists its roster. Saving replaces the game's stats; empty cells count as zero.
+ */
+
+import { getErrorMessage } from "@/lib/errors";
+import type { Game } from "@/lib/queries/game";
+import { useOrganization } from "@/lib/queries/organization";
+import {
+  useGamePlayerStats,
+  useSaveGamePlayerStats,
+  type GamePlayerStats,
+} from "@/lib/queries/player-stats";
+import { toast } from "@/lib/toast";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Skeleton,
+} from "@repo/ui";
+import { useState } from "react";
+
+/** Entered values by user id, then stat key. Kept as strings so cells can be cleared. */
+type StatValues = Record<string, Record<string, string>>;
+
+function getInitialValues(sheet: GamePlayerStats): StatValues {
+  const values: StatValues = {};
+  for (const side of sheet.sides) {
+    for (const player of side.players) {
+      values[player.userId] = Object.fromEntries(
+        Object.entries(player.stats).map(([key, value]) => [
+          key,
+          String(value),
+        ]),
+      );
+    }
+  }
+  return values;
+}
+
+interface StatSheetFormProps {
+  sheet: GamePlayerStats;
+  onDone: () => void;
+}
+
+function StatSheetForm({ sheet, onDone }: StatSheetFormProps) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const saveStats = useSaveGamePlayerStats();
+  const [values, setValues] = useState<StatValues>(() =>
+    getInitialValues(sheet),
+  );
+  const editable = sheet.status === "in_progress" || sheet.status === "final";
+
+  const setValue = (userId: string, key: string, value: string) => {
+    setValues((prev) => ({
+      ...prev,
+      [userId]: { ...prev[userId], [key]: value },
+    }));
+  };
+
+  const handleSave = () => {
+    if (!organizationId) return;
+    const players = sheet.sides.flatMap((side) =>
+      side.players.map((player) => ({
+        userId: player.userId,
+        leagueTeamId: side.leagueTeamId,
+        stats: Object.fromEntries(
+          sheet.definitions.map((d) => [
+            d.key,
+            Math.min(
+              999,
+              Math.max(
+                0,
+                Math.trunc(Number(values[player.userId]?.[d.key])) || 0,
+              ),
+            ),
+          ]),
+        ),
+      })),
+    );
+    saveStats.mutate(
+      { organizationId, gameId: sheet.gameId, players },
+      {
+        onSuccess: () => {
+          toast.success("Player stats saved");
+          onDone();
+        },
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  return (
+    <>
+      <div className="space-y-6 max-h-[60vh] overflow-y-auto">
+        {sheet.sides.map((side) => (
+          <div key={side.leagueTeamId} className="space-y-2">
+            <h3 className="font-medium">
+              {side.teamName}{" "}
+              <span className="text-sm font-normal text-muted-foreground">
+                ({side.side})
+              </span>
+            </h3>
+            {side.players.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No players on this team&apos;s roster.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-muted-foreground">
+                      <th className="text-left font-medium py-1 pr-2">
+                        Player
+                      </th>
+                      {sheet.definitions.map((d) => (
+                        <th
+                          key={d.key}
+                          className="text-left font-medium py-1 pr-2"
+                          title={d.label}
+                        >
+                          {d.abbreviation}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {side.players.map((player) => (
+                      <tr key={player.userId}>
+                        <td className="py-1 pr-2">{player.name}</td>
+                        {sheet.definitions.map((d) => (
+                          <td key={d.key} className="py-1 pr-2">
+                            <Input
+                              type="number"
+                              inputMode="numeric"
+                              min={0}
+                              max={999}
+                              className="h-9 w-16"
+                              value={values[player.userId]?.[d.key] ?? ""}
+                              onChange={(e) =>
+                                setValue(player.userId, d.key, e.target.value)
+                              }
+                              disabled={!editable}
+                              aria-label={`${player.name} ${d.label}`}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      {!editable && (
+        <p className="text-sm text-muted-foreground">
+          Player stats can be entered once the game has started.
+        </p>
+      )}
+      <DialogFooter>
+        <Button
+          variant="outline"
+          onClick={onDone}
+          disabled={saveStats.isPending}
+        >
+          Close
+        </Button>
+        <Button
+          onClick={handleSave}
+          disabled={!editable || saveStats.isPending || !organizationId}
+        >
+          {saveStats.isPending ? "Saving…" : "Save stats"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+interface GamePlayerStatsDialogProps {
+  game: Game;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function GamePlayerStatsDialog({
+  game,
+  open,
+  onOpenChange,
+}: GamePlayerStatsDialogProps) {
+  const {
+    data: sheet,
+    dataUpdatedAt,
+    isPending,
+    error,
+  } = useGamePlayerStats(open ? game.id : undefined);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Player stats</DialogTitle>
+          <DialogDescription>
+            {game.homeTeamName} vs {game.awayTeamName}. Only final games count
+            toward leaderboards.
+          </DialogDescription>
+        </DialogHeader>
+        {isPending ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-3/4" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : sheet ? (
+          <StatSheetForm
+            key={dataUpdatedAt}
+            sheet={sheet}
+            onDone={() => onOpenChange(false)}
+          />
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,464 @@
+/**
+ * Score entry for one game, sized for a phone at the field: large +/− buttons per side, an
+ * optional breakdown by the league's periods (halves, quarters, …) with overtime after them, and
+ * actions to save a live score, finish or abandon the game. Finished games can only be corrected,
+ * with a reason; a correction also settles a score a team admin reported. Player stats and
+ * discipline (cards, ejections) open in dialogs once the game has started. Remount (key) when the game changes.
+ */
+
+import { GameDisciplineDialog } from "@/components/game-discipline-dialog";
+import { GamePlayerStatsDialog } from "@/components/game-player-stats-dialog";
+import { getErrorMessage } from "@/lib/errors";
+import {
+  canRecordGameResult,
+  getGameStatusBadgeClass,
+  getGameStatusLabel,
+  hasGameResult,
+} from "@/lib/game-status";
+import { formatInstantTo12h } from "@/lib/league-schedule";
+import {
+  useCorrectGameResult,
+  useRecordGameResult,
+  type Game,
+  type GamePeriodScoreInput,
+} from "@/lib/queries/game";
+import { useOrganization } from "@/lib/queries/organization";
+import { toast } from "@/lib/toast";
+import { Button, Card, CardContent, Input, Label } from "@repo/ui";
+import { BarChart3, Flag, Minus, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+type Side = "home" | "away";
+
+function clampScore(value: number): number {
+  return Math.min(999, Math.max(0, Math.trunc(value) || 0));
+}
+
+interface ScoreStepperProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+function ScoreStepper({ label, value, onChange, disabled }: ScoreStepperProps) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span className="min-w-0 flex-1 truncate font-medium">{label}</span>
+      <div className="flex items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          className="h-12 w-12"
+          onClick={() => onChange(clampScore(value - 1))}
+          disabled={disabled || value <= 0}
+          aria-label={`Decrease ${label} score`}
+        >
+          <Minus className="h-5 w-5" />
+        </Button>
+        <span
+          className="w-12 text-center text-3xl font-bold tabular-nums"
+          aria-live="polite"
+        >
+          {value}
+        </span>
+        <Button
+          type="button"
+          variant="outline"
+          className="h-12 w-12"
+          onClick={() => onChange(clampScore(value + 1))}
+          disabled={disabled}
+          aria-label={`Increase ${label} score`}
+        >
+          <Plus className="h-5 w-5" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface GameScoreCardProps {
+  game: Game;
+  timeZone: string;
+  /** What a period is called in the league's sport, e.g. "Quarter". */
+  periodLabel: string;
+  /** Regulation periods; any beyond are overtime. */
+  periodCount: number;
+}
+
+export function GameScoreCard({
+  game,
+  timeZone,
+  periodLabel,
+  periodCount,
+}: GameScoreCardProps) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const recordResult = useRecordGameResult();
+  const correctResult = useCorrectGameResult();
+
+  const [periods, setPeriods] = useState<GamePeriodScoreInput[]>(
+    () => game.periodScores ?? [],
+  );
+  const [totals, setTotals] = useState(() => ({
+    home: game.homeScore ?? 0,
+    away: game.awayScore ?? 0,
+  }));
+  const [correcting, setCorrecting] = useState(false);
+  const [reason, setReason] = useState("");
+  const [statsOpen, setStatsOpen] = useState(false);
+  const [disciplineOpen, setDisciplineOpen] = useState(false);
+
+  const editable = canRecordGameResult(game.status);
+  const finished = hasGameResult(game.status);
+  const reportedByAway =
+    game.scoreReportedByLeagueTeamId === game.awayLeagueTeamId;
+  const reportedBy = reportedByAway ? game.awayTeamName : game.homeTeamName;
+  const answeredBy = reportedByAway ? game.homeTeamName : game.awayTeamName;
+  const started = new Date(game.startsAt).getTime() <= Date.now();
+  const inputsEnabled = (editable && started) || correcting;
+  const isSaving = recordResult.isPending || correctResult.isPending;
+
+  // With a period breakdown the totals are its sums, and +/− adjusts the current period.
+  const score =
+    periods.length > 0
+      ? {
+          home: periods.reduce((sum, p) => sum + p.home, 0),
+          away: periods.reduce((sum, p) => sum + p.away, 0),
+        }
+      : totals;
+
+  const setSideScore = (side: Side, value: number) => {
+    if (periods.length === 0) {
+      setTotals((prev) => ({ ...prev, [side]: value }));
+      return;
+    }
+    const delta = value - score[side];
+    setPeriods((prev) =>
+      prev.map((p, i) =>
+        i === prev.length - 1
+          ? { ...p, [side]: clampScore(p[side] + delta) }
+          : p,
+      ),
+    );
+  };
+
+  const updatePeriod = (index: number, side: Side, value: string) => {
+    setPeriods((prev) =>
+      prev.map((p, i) =>
+        i === index ? { ...p, [side]: clampScore(Number(value)) } : p,
+      ),
+    );
+  };
+
+  const addPeriod = () => {
+    // The first period starts from the score entered so far, so nothing is lost.
+    setPeriods((prev) =>
+      prev.length === 0
+        ? [{ ...totals }, { home: 0, away: 0 }]
+        : [...prev, { home: 0, away: 0 }],
+    );
+  };
+
+  const removePeriod = (index: number) => {
+    const next = periods.filter((_, i) => i !== index);
+    if (next.length === 0) setTotals(score);
+    setPeriods(next);
+  };
+
+  const payload = {
+    homeScore: score.home,
+    awayScore: score.away,
+    ...(periods.length > 0 ? { periodScores: periods } : {}),
+  };
+
+  const handleRecord = (status: "in_progress" | "final" | "abandoned") => {
+    if (!organizationId) return;
+    recordResult.mutate(
+      { organizationId, gameId: game.id, status, ...payload },
+      {
+        onSuccess: () =>
+          toast.success(
+            status === "final"
+              ? "Final score saved"
+              : status === "abandoned"
+                ? "Game marked abandoned"
+                : "Score saved",
+          ),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  const handleCorrect = () => {
+    if (!organizationId || !reason.trim()) return;
+    correctResult.mutate(
+      {
+        organizationId,
+        gameId: game.id,
+        reason: reason.trim(),
+        ...payload,
+      },
+      {
+        onSuccess: () => toast.success("Result corrected"),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  const cancelCorrection = () => {
+    setCorrecting(false);
+    setReason("");
+    setPeriods(game.periodScores ?? []);
+    setTotals({ home: game.homeScore ?? 0, away: game.awayScore ?? 0 });
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 pt-6">
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+          <span>
+            {formatInstantTo12h(game.startsAt, timeZone)}
+            {game.surfaceName
+              ? ` · ${game.facilityName} · ${game.surfaceName}`
+              : ""}
+          </span>
+          <span
+            className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${getGameStatusBadgeClass(game.status)}`}
+          >
+            {getGameStatusLabel(game.status)}
+          </span>
+        </div>
+
+        {(game.scoreConfirmation === "pending" ||
+          game.scoreConfirmation === "disputed") && (
+          <p className="rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            {game.scoreConfirmation === "pending"
+              ? `Reported by ${reportedBy}, waiting for ${answeredBy} to confirm. Not in the standings yet.`
+              : `Disputed by ${answeredBy}: ${game.scoreDisputeReason ?? "no reason given"}. Correct the result to settle it.`}
+          </p>
+        )}
+
+        {editable || finished ? (
+          <div className="space-y-3">
+            <ScoreStepper
+              label={game.homeTeamName}
+              value={score.home}
+              onChange={(value) => setSideScore("home", value)}
+              disabled={!inputsEnabled}
+            />
+            <ScoreStepper
+              label={game.awayTeamName}
+              value={score.away}
+              onChange={(value) => setSideScore("away", value)}
+              disabled={!inputsEnabled}
+            />
+          </div>
+        ) : (
+          <p className="font-medium">
+            {game.homeTeamName} vs {game.awayTeamName}
+            {game.statusReason && (
+              <span className="block text-sm font-normal text-muted-foreground">
+                {game.statusReason}
+              </span>
+            )}
+          </p>
+        )}
+
+        {(periods.length > 0 || inputsEnabled) && (editable || finished) && (
+          <div className="space-y-2">
+            {periods.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-muted-foreground">
+                      <th className="text-left font-medium py-1">
+                        {periodLabel}
+                      </th>
+                      <th className="text-left font-medium py-1">Home</th>
+                      <th className="text-left font-medium py-1">Away</th>
+                      {inputsEnabled && <th />}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {periods
+                      .map((p, index) => ({ ...p, period: index + 1 }))
+                      .map((p) => (
+                        <tr key={p.period}>
+                          <td className="py-1 pr-2">
+                            {p.period <= periodCount
+                              ? p.period
+                              : `OT${p.period - periodCount}`}
+                          </td>
+                          {(["home", "away"] as const).map((side) => (
+                            <td key={side} className="py-1 pr-2">
+                              {inputsEnabled ? (
+                                <Input
+                                  type="number"
+                                  inputMode="numeric"
+                                  min={0}
+                                  max={999}
+                                  className="h-10 w-20"
+                                  value={p[side]}
+                                  onChange={(e) =>
+                                    updatePeriod(
+                                      p.period - 1,
+                                      side,
+                                      e.target.value,
+                                    )
+                                  }
+                                  aria-label={`${periodLabel} ${p.period} ${side} score`}
+                                />
+                              ) : (
+                                p[side]
+                              )}
+                            </td>
+                          ))}
+                          {inputsEnabled && (
+                            <td className="py-1 text-right">
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => removePeriod(p.period - 1)}
+                                aria-label={`Remove ${periodLabel.toLowerCase()} ${p.period}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </td>
+                          )}
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {inputsEnabled && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={addPeriod}
+                disabled={periods.length >= 20}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                {periods.length === 0
+                  ? `Track ${periodLabel.toLowerCase()}s`
+                  : periods.length < periodCount
+                    ? `Next ${periodLabel.toLowerCase()}`
+                    : "Add overtime"}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {editable && !started && (
+          <p className="text-sm text-muted-foreground">
+            Scoring opens when the game starts.
+          </p>
+        )}
+
+        {editable && started && (
+          <div className="grid grid-cols-3 gap-2">
+            <Button
+              variant="outline"
+              className="h-11"
+              onClick={() => handleRecord("in_progress")}
+              disabled={isSaving || !organizationId}
+            >
+              {game.status === "scheduled" ? "Start" : "Save"}
+            </Button>
+            <Button
+              className="h-11"
+              onClick={() => handleRecord("final")}
+              disabled={isSaving || !organizationId}
+            >
+              Final
+            </Button>
+            <Button
+              variant="outline"
+              className="h-11 text-destructive hover:text-destructive"
+              onClick={() => handleRecord("abandoned")}
+              disabled={isSaving || !organizationId}
+            >
+              Abandon
+            </Button>
+          </div>
+        )}
+
+        {(finished && !correcting) || game.status === "in_progress" ? (
+          <div className="flex flex-wrap gap-2">
+            {finished && !correcting && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCorrecting(true)}
+              >
+                Correct result
+              </Button>
+            )}
+            {(game.status === "in_progress" || game.status === "final") && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setStatsOpen(true)}
+              >
+                <BarChart3 className="h-4 w-4 mr-2" />
+                Player stats
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDisciplineOpen(true)}
+            >
+              <Flag className="h-4 w-4 mr-2" />
+              Discipline
+            </Button>
+          </div>
+        ) : null}
+
+        {correcting && (
+          <div className="space-y-2">
+            <Label htmlFor={`correction-reason-${game.id}`}>
+              Reason for the correction
+            </Label>
+            <Input
+              id={`correction-reason-${game.id}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Scorer swapped the teams"
+              maxLength={500}
+            />
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={cancelCorrection}
+                disabled={isSaving}
+              >
+                Cancel
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={handleCorrect}
+                disabled={isSaving || !reason.trim() || !organizationId}
+              >
+                {correctResult.isPending ? "Saving…" : "Save correction"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+      <GamePlayerStatsDialog
+        game={game}
+        open={statsOpen}
+        onOpenChange={setStatsOpen}
+      />
+      <GameDisciplineDialog
+        game={game}
+        open={disciplineOpen}
+        onOpenChange={setDisciplineOpen}
+      />
+    </Card>
+  );
+}
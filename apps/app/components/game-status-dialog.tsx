@@ -0,0 +1,498 @@
+/**
+ * Postpone, reschedule, cancel or forfeit a game, and show its change history.
+ * Each action records a reason in the game's audit trail and (optionally) emails both teams.
+ */
+
+import { ScheduleConflictList } from "@/components/schedule-conflict-list";
+import { getErrorMessage, getScheduleConflicts } from "@/lib/errors";
+import {
+  getGameStatusActions,
+  getGameStatusBadgeClass,
+  getGameStatusLabel,
+  type GameStatusAction,
+} from "@/lib/game-status";
+import { useDisplayTimeZone } from "@/lib/hooks/useDisplayTimeZone";
+import { formatInstantTo12h } from "@/lib/league-schedule";
+import {
+  useCancelGame,
+  useForfeitGame,
+  useGameChanges,
+  usePostponeGame,
+  useRescheduleGame,
+  type Game,
+  type GameChange,
+  type Surface,
+} from "@/lib/queries/game";
+import { useOrganization } from "@/lib/queries/organization";
+import {
+  formatInstantDate,
+  getZonedDateTime,
+  zonedDateTimeToIso,
+} from "@/lib/time-zone";
+import { toast } from "@/lib/toast";
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Label,
+  Skeleton,
+  Textarea,
+} from "@repo/ui";
+import { useState } from "react";
+
+const inputClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+const ACTION_LABELS: Record<GameStatusAction, string> = {
+  postpone: "Postpone",
+  reschedule: "Reschedule",
+  cancel: "Cancel game",
+  forfeit: "Record forfeit",
+};
+
+const CHANGE_LABELS: Record<GameChange["action"], string> = {
+  created: "Created",
+  updated: "Edited",
+  postponed: "Postponed",
+  rescheduled: "Rescheduled",
+  cancelled: "Cancelled",
+  forfeited: "Forfeited",
+  deleted: "Deleted",
+  result_recorded: "Result recorded",
+  result_corrected: "Result corrected",
+  result_reported: "Score reported by team",
+  result_confirmed: "Score confirmed by team",
+  result_disputed: "Score disputed by team",
+  dispute_resolved: "Dispute settled",
+};
+
+function formatSlot(
+  startsAt: string,
+  endsAt: string | null,
+  timeZone: string,
+): string {
+  return `${formatInstantDate(startsAt, timeZone)} ${formatInstantTo12h(startsAt, timeZone)}${endsAt ? ` – ${formatInstantTo12h(endsAt, timeZone)}` : ""}`;
+}
+
+/** One line summarizing what a history entry changed. Times are shown in `timeZone`. */
+function describeChange(change: GameChange, timeZone: string): string | null {
+  const slotChanged =
+    change.startsAt != null &&
+    change.previousStartsAt != null &&
+    (change.startsAt !== change.previousStartsAt ||
+      change.endsAt !== change.previousEndsAt);
+  const venueChanged =
+    change.action !== "postponed" &&
+    change.previousFacilitySurfaceId !== change.facilitySurfaceId &&
+    change.previousStartsAt != null;
+  const parts = [
+    ...(change.fromStatus &&
+    change.toStatus &&
+    change.fromStatus !== change.toStatus
+      ? [
+          `${getGameStatusLabel(change.fromStatus)} → ${getGameStatusLabel(change.toStatus)}`,
+        ]
+      : []),
+    ...(slotChanged
+      ? [
+          `${formatSlot(change.previousStartsAt!, change.previousEndsAt, timeZone)} → ${formatSlot(change.startsAt!, change.endsAt, timeZone)}`,
+        ]
+      : change.action === "created" && change.startsAt
+        ? [formatSlot(change.startsAt, change.endsAt, timeZone)]
+        : []),
+    ...(venueChanged
+      ? [
+          `${change.previousVenue ?? "No venue"} → ${change.venue ?? "No venue"}`,
+        ]
+      : []),
+    ...((change.action === "result_corrected" ||
+      change.action === "dispute_resolved") &&
+    change.previousHomeScore != null
+      ? [
+          `${change.previousHomeScore}–${change.previousAwayScore} → ${change.homeScore}–${change.awayScore}`,
+        ]
+      : (change.action === "result_recorded" ||
+            change.action === "result_reported" ||
+            change.action === "result_confirmed" ||
+            change.action === "result_disputed") &&
+          change.homeScore != null
+        ? [`${change.homeScore}–${change.awayScore}`]
+        : []),
+  ];
+  return parts.length ? parts.join(" · ") : null;
+}
+
+interface GameStatusDialogProps {
+  /** Game to manage; the dialog is open while this is set. Remount (key) per game to reset the form. */
+  game: Game | null;
+  surfaces: Surface[];
+  onOpenChange: (open: boolean) => void;
+}
+
+export function GameStatusDialog({
+  game,
+  surfaces,
+  onOpenChange,
+}: GameStatusDialogProps) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const organizationTimeZone = organizations?.[0]?.timeZone ?? "UTC";
+  const displayTimeZone = useDisplayTimeZone();
+  /** Reschedule times are entered on the venue's wall clock; without a venue, the organization's. */
+  const getVenueTimeZone = (surfaceId: string | null) =>
+    surfaces.find((s) => s.id === surfaceId)?.timeZone ?? organizationTimeZone;
+  const { data: changes, isPending: changesPending } = useGameChanges(game?.id);
+  const postponeGame = usePostponeGame();
+  const rescheduleGame = useRescheduleGame();
+  const cancelGame = useCancelGame();
+  const forfeitGame = useForfeitGame();
+
+  const [action, setAction] = useState<GameStatusAction | null>(null);
+  const [reason, setReason] = useState("");
+  const [notifyTeams, setNotifyTeams] = useState(true);
+  const [date, setDate] = useState(() =>
+    game
+      ? getZonedDateTime(
+          game.startsAt,
+          getVenueTimeZone(game.facilitySurfaceId),
+        ).date
+      : "",
+  );
+  const [startTime, setStartTime] = useState(() =>
+    game
+      ? getZonedDateTime(
+          game.startsAt,
+          getVenueTimeZone(game.facilitySurfaceId),
+        ).time
+      : "",
+  );
+  const [endTime, setEndTime] = useState(() =>
+    game
+      ? getZonedDateTime(game.endsAt, getVenueTimeZone(game.facilitySurfaceId))
+          .time
+      : "",
+  );
+  const [facilitySurfaceId, setFacilitySurfaceId] = useState(
+    () => game?.facilitySurfaceId ?? "",
+  );
+  const [forfeitedByLeagueTeamId, setForfeitedByLeagueTeamId] = useState("");
+
+  const actions = game ? getGameStatusActions(game.status) : [];
+  const isSaving =
+    postponeGame.isPending ||
+    rescheduleGame.isPending ||
+    cancelGame.isPending ||
+    forfeitGame.isPending;
+  const rescheduleConflicts = getScheduleConflicts(rescheduleGame.error);
+  const surfaceNames = new Map(
+    surfaces.map((s) => [s.id, `${s.facilityName} · ${s.name}`]),
+  );
+  const canSubmit =
+    action === "postpone" || action === "cancel"
+      ? reason.trim().length > 0
+      : action === "reschedule"
+        ? Boolean(date && startTime && endTime)
+        : action === "forfeit"
+          ? Boolean(forfeitedByLeagueTeamId)
+          : false;
+
+  const chooseAction = (next: GameStatusAction) => {
+    rescheduleGame.reset();
+    setAction(next);
+  };
+
+  const handleSubmit = () => {
+    if (!organizationId || !game || !action || !canSubmit) return;
+    const trimmedReason = reason.trim();
+    const callbacks = {
+      onSuccess: (result: {
+        notified: number;
+        notificationFailed: boolean;
+      }) => {
+        const done = {
+          postpone: "Game postponed",
+          reschedule: "Game rescheduled",
+          cancel: "Game cancelled",
+          forfeit: "Forfeit recorded",
+        }[action];
+        if (result.notificationFailed) {
+          toast.warning(`${done}, but the teams could not be emailed`);
+        } else if (result.notified > 0) {
+          toast.success(
+            `${done}. ${result.notified} team member${result.notified === 1 ? "" : "s"} notified`,
+          );
+        } else {
+          toast.success(done);
+        }
+        onOpenChange(false);
+      },
+      onError: (err: unknown) => {
+        if (!getScheduleConflicts(err)) toast.error(getErrorMessage(err));
+      },
+    };
+    const base = { organizationId, gameId: game.id, notifyTeams };
+    switch (action) {
+      case "postpone":
+        postponeGame.mutate({ ...base, reason: trimmedReason }, callbacks);
+        break;
+      case "cancel":
+        cancelGame.mutate({ ...base, reason: trimmedReason }, callbacks);
+        break;
+      case "forfeit":
+        forfeitGame.mutate(
+          {
+            ...base,
+            forfeitedByLeagueTeamId,
+            ...(trimmedReason ? { reason: trimmedReason } : {}),
+          },
+          callbacks,
+        );
+        break;
+      case "reschedule":
+        rescheduleGame.mutate(
+          {
+            ...base,
+            facilitySurfaceId: facilitySurfaceId || null,
+            startsAt: zonedDateTimeToIso(
+              date,
+              startTime,
+              getVenueTimeZone(facilitySurfaceId),
+            ),
+            endsAt: zonedDateTimeToIso(
+              date,
+              endTime,
+              getVenueTimeZone(facilitySurfaceId),
+            ),
+            ...(trimmedReason ? { reason: trimmedReason } : {}),
+          },
+          callbacks,
+        );
+        break;
+    }
+  };
+
+  return (
+    <Dialog open={game != null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {game?.homeTeamName} vs {game?.awayTeamName}
+          </DialogTitle>
+          <DialogDescription>
+            {game && formatSlot(game.startsAt, game.endsAt, displayTimeZone)}
+            {game?.surfaceName
+              ? ` · ${game.facilityName} · ${game.surfaceName}`
+              : ""}
+          </DialogDescription>
+        </DialogHeader>
+        {game && (
+          <div className="grid gap-4 py-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span
+                className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${getGameStatusBadgeClass(game.status)}`}
+              >
+                {getGameStatusLabel(game.status)}
+              </span>
+              {game.statusReason && (
+                <span className="text-muted-foreground">
+                  {game.statusReason}
+                </span>
+              )}
+            </div>
+
+            {actions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {actions.map((a) => (
+                  <Button
+                    key={a}
+                    type="button"
+                    size="sm"
+                    variant={action === a ? "default" : "outline"}
+                    onClick={() => chooseAction(a)}
+                  >
+                    {ACTION_LABELS[a]}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {action === "reschedule" && (
+              <>
+                <div className="grid gap-2 sm:grid-cols-3">
+                  <div className="grid gap-2">
+                    <Label htmlFor="reschedule-date">New date</Label>
+                    <input
+                      id="reschedule-date"
+                      type="date"
+                      className={inputClassName}
+                      value={date}
+                      onChange={(e) => setDate(e.target.value)}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="reschedule-start">Start</Label>
+                    <input
+                      id="reschedule-start"
+                      type="time"
+                      className={inputClassName}
+                      value={startTime}
+                      onChange={(e) => setStartTime(e.target.value)}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="reschedule-end">End</Label>
+                    <input
+                      id="reschedule-end"
+                      type="time"
+                      className={inputClassName}
+                      value={endTime}
+                      onChange={(e) => setEndTime(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Times are local to the venue (
+                  {getVenueTimeZone(facilitySurfaceId || null)}).
+                </p>
+                <div className="grid gap-2">
+                  <Label htmlFor="reschedule-surface">Venue</Label>
+                  <select
+                    id="reschedule-surface"
+                    className={inputClassName}
+                    value={facilitySurfaceId}
+                    onChange={(e) => setFacilitySurfaceId(e.target.value)}
+                  >
+                    <option value="">Not assigned</option>
+                    {surfaces.map((s) => (
+                      <option key={s.id} value={s.id}>
+                        {s.facilityName} · {s.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            )}
+
+            {action === "forfeit" && (
+              <div className="grid gap-2">
+                <Label htmlFor="forfeit-team">Forfeiting team</Label>
+                <select
+                  id="forfeit-team"
+                  className={inputClassName}
+                  value={forfeitedByLeagueTeamId}
+                  onChange={(e) => setForfeitedByLeagueTeamId(e.target.value)}
+                >
+                  <option value="">Select team</option>
+                  <option value={game.homeLeagueTeamId}>
+                    {game.homeTeamName}
+                  </option>
+                  <option value={game.awayLeagueTeamId}>
+                    {game.awayTeamName}
+                  </option>
+                </select>
+              </div>
+            )}
+
+            {action && (
+              <>
+                <div className="grid gap-2">
+                  <Label htmlFor="status-reason">
+                    Reason
+                    {action === "postpone" || action === "cancel"
+                      ? ""
+                      : " (optional)"}
+                  </Label>
+                  <Textarea
+                    id="status-reason"
+                    value={reason}
+                    maxLength={500}
+                    rows={2}
+                    placeholder={
+                      action === "postpone"
+                        ? "e.g. Field waterlogged"
+                        : undefined
+                    }
+                    onChange={(e) => setReason(e.target.value)}
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={notifyTeams}
+                    onChange={(e) => setNotifyTeams(e.target.checked)}
+                  />
+                  Email both teams
+                </label>
+                {rescheduleConflicts && (
+                  <ScheduleConflictList
+                    conflicts={rescheduleConflicts}
+                    surfaceNames={surfaceNames}
+                  />
+                )}
+              </>
+            )}
+
+            <div className="space-y-2 border-t pt-3">
+              <p className="text-sm font-medium">History</p>
+              {changesPending ? (
+                <Skeleton className="h-12 w-full" />
+              ) : !changes?.length ? (
+                <p className="text-sm text-muted-foreground">
+                  No changes recorded.
+                </p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {changes.map((change) => {
+                    const summary = describeChange(change, displayTimeZone);
+                    return (
+                      <li key={change.id} className="space-y-0.5">
+                        <p>
+                          <span className="font-medium">
+                            {CHANGE_LABELS[change.action]}
+                          </span>{" "}
+                          <span className="text-muted-foreground">
+                            {new Date(change.createdAt).toLocaleString(
+                              undefined,
+                              {
+                                timeZone: displayTimeZone,
+                              },
+                            )}
+                            {change.changedByName
+                              ? ` by ${change.changedByName}`
+                              : ""}
+                          </span>
+                        </p>
+                        {summary && (
+                          <p className="text-muted-foreground">{summary}</p>
+                        )}
+                        {change.reason && (
+                          <p className="text-muted-foreground">
+                            Reason: {change.reason}
+                          </p>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {action && (
+            <Button onClick={handleSubmit} disabled={!canSubmit || isSaving}>
+              {isSaving ? "Saving…" : ACTION_LABELS[action]}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,8 @@
 import {
   Calendar,
+  ClipboardCheck,
   MapPin,
+  Medal,
   Settings,
   Trophy,
   UserCog,
@@ -10,10 +12,12 @@ import {
 
 export const sidebarItems = [
   // { icon: Home, label: "Dashboard", to: "/" },
-  { icon: Calendar, label: "Calendar", to: "/Calendar" },
+  { icon: Calendar, label: "Calendar", to: "/calendar" },
   { icon: Trophy, label: "Leagues", to: "/leagues" },
+  { icon: Medal, label: "Tournaments", to: "/tournaments" },
   { icon: UsersRound, label: "Teams", to: "/teams" },
   { icon: UserCircle2, label: "Players", to: "/players" },
+  { icon: ClipboardCheck, label: "My games", to: "/my-games" },
   { icon: MapPin, label: "Facilities", to: "/facilities" },
   { icon: UserCog, label: "Staff", to: "/staff" },
   // { icon: Activity, label: "Analytics", to: "/analytics" },
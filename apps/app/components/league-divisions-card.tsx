@@ -0,0 +1,310 @@
+/**
+ * Divisions (tiers) of a league, top tier first: add, rename, reorder and delete them, and set how
+ * many teams each promotes and relegates when the next season starts.
+ */
+
+import { getErrorMessage } from "@/lib/errors";
+import {
+  useCreateDivision,
+  useDeleteDivision,
+  useMoveDivision,
+  useUpdateDivision,
+  type Division,
+} from "@/lib/queries/division";
+import { useOrganization } from "@/lib/queries/organization";
+import { toast } from "@/lib/toast";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+} from "@repo/ui";
+import { ArrowDown, ArrowUp, Layers, Pencil, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+type DivisionFormState = {
+  name: string;
+  promotionCount: string;
+  relegationCount: string;
+};
+
+const emptyDivisionForm: DivisionFormState = {
+  name: "",
+  promotionCount: "0",
+  relegationCount: "0",
+};
+
+function DivisionFields({
+  idPrefix,
+  value,
+  onChange,
+}: {
+  idPrefix: string;
+  value: DivisionFormState;
+  onChange: (value: DivisionFormState) => void;
+}) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-3">
+      <div className="grid gap-2">
+        <Label htmlFor={`${idPrefix}-name`}>Name</Label>
+        <Input
+          id={`${idPrefix}-name`}
+          placeholder="e.g. Premier"
+          value={value.name}
+          onChange={(e) => onChange({ ...value, name: e.target.value })}
+        />
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor={`${idPrefix}-promotion`}>Promoted</Label>
+        <Input
+          id={`${idPrefix}-promotion`}
+          type="number"
+          min={0}
+          max={20}
+          value={value.promotionCount}
+          onChange={(e) =>
+            onChange({ ...value, promotionCount: e.target.value })
+          }
+        />
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor={`${idPrefix}-relegation`}>Relegated</Label>
+        <Input
+          id={`${idPrefix}-relegation`}
+          type="number"
+          min={0}
+          max={20}
+          value={value.relegationCount}
+          onChange={(e) =>
+            onChange({ ...value, relegationCount: e.target.value })
+          }
+        />
+      </div>
+    </div>
+  );
+}
+
+export function LeagueDivisionsCard({
+  leagueId,
+  divisions,
+}: {
+  leagueId: string;
+  divisions: Division[];
+}) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const createDivision = useCreateDivision();
+  const updateDivision = useUpdateDivision();
+  const moveDivision = useMoveDivision();
+  const deleteDivision = useDeleteDivision();
+  const [newDivision, setNewDivision] =
+    useState<DivisionFormState>(emptyDivisionForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] =
+    useState<DivisionFormState>(emptyDivisionForm);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organizationId || !newDivision.name.trim()) return;
+    createDivision.mutate(
+      {
+        organizationId,
+        leagueId,
+        name: newDivision.name.trim(),
+        promotionCount: Number(newDivision.promotionCount) || 0,
+        relegationCount: Number(newDivision.relegationCount) || 0,
+      },
+      {
+        onSuccess: () => {
+          toast.success("Division added");
+          setNewDivision(emptyDivisionForm);
+        },
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  const startEdit = (division: Division) => {
+    setEditingId(division.id);
+    setEditForm({
+      name: division.name,
+      promotionCount: String(division.promotionCount),
+      relegationCount: String(division.relegationCount),
+    });
+  };
+
+  const handleSave = (divisionId: string) => {
+    if (!organizationId || !editForm.name.trim()) return;
+    updateDivision.mutate(
+      {
+        organizationId,
+        divisionId,
+        name: editForm.name.trim(),
+        promotionCount: Number(editForm.promotionCount) || 0,
+        relegationCount: Number(editForm.relegationCount) || 0,
+      },
+      {
+        onSuccess: () => {
+          toast.success("Division saved");
+          setEditingId(null);
+        },
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  const handleMove = (divisionId: string, direction: "up" | "down") => {
+    if (!organizationId) return;
+    moveDivision.mutate(
+      { organizationId, divisionId, direction },
+      { onError: (err) => toast.error(getErrorMessage(err)) },
+    );
+  };
+
+  const handleDelete = (division: Division) => {
+    if (!organizationId) return;
+    deleteDivision.mutate(
+      { organizationId, divisionId: division.id },
+      {
+        onSuccess: () => toast.success(`${division.name} deleted`),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          <div>
+            <CardTitle>Divisions</CardTitle>
+            <CardDescription>
+              Top division first. Teams play only within their division. When a
+              new season starts, the top teams of each division move up and the
+              bottom teams move down.
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {divisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No divisions. All teams play each other.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {divisions.map((division, i) => (
+              <li key={division.id} className="p-4 border rounded-lg">
+                {editingId === division.id ? (
+                  <div className="space-y-3">
+                    <DivisionFields
+                      idPrefix={`division-${division.id}`}
+                      value={editForm}
+                      onChange={setEditForm}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => handleSave(division.id)}
+                        disabled={
+                          !editForm.name.trim() || updateDivision.isPending
+                        }
+                      >
+                        {updateDivision.isPending ? "Saving…" : "Save"}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setEditingId(null)}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-medium">{division.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {i === 0
+                          ? "Top division"
+                          : `Promotes ${division.promotionCount}`}
+                        {" · "}
+                        {i === divisions.length - 1
+                          ? "Bottom division"
+                          : `Relegates ${division.relegationCount}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Move ${division.name} up`}
+                        disabled={i === 0 || moveDivision.isPending}
+                        onClick={() => handleMove(division.id, "up")}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Move ${division.name} down`}
+                        disabled={
+                          i === divisions.length - 1 || moveDivision.isPending
+                        }
+                        onClick={() => handleMove(division.id, "down")}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Edit ${division.name}`}
+                        onClick={() => startEdit(division)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Delete ${division.name}`}
+                        disabled={deleteDivision.isPending}
+                        onClick={() => handleDelete(division)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={handleCreate} className="space-y-3">
+          <DivisionFields
+            idPrefix="new-division"
+            value={newDivision}
+            onChange={setNewDivision}
+          />
+          <Button
+            type="submit"
+            size="sm"
+            disabled={
+              !newDivision.name.trim() ||
+              createDivision.isPending ||
+              !organizationId
+            }
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {createDivision.isPending ? "Adding…" : "Add division"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
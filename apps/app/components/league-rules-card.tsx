@@ -0,0 +1,223 @@
+/**
+ * Rules of a league: how many periods a game has and how long each runs, and how many players a
+ * team may have. Blank period fields use the sport's usual format; blank roster limits mean none.
+ */
+
+import { getErrorMessage } from "@/lib/errors";
+import { getLeagueSportPeriodLabel } from "@/lib/league-sport";
+import { useUpdateLeagueRules, type LeagueById } from "@/lib/queries/league";
+import { useOrganization } from "@/lib/queries/organization";
+import { toast } from "@/lib/toast";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+} from "@repo/ui";
+import { ListChecks, Pencil } from "lucide-react";
+import { useState } from "react";
+
+type RulesFormState = {
+  periodCount: string;
+  periodLengthMinutes: string;
+  minRosterSize: string;
+  maxRosterSize: string;
+};
+
+function toNullableNumber(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+export function LeagueRulesCard({ league }: { league: LeagueById }) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const updateRules = useUpdateLeagueRules();
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState<RulesFormState>({
+    periodCount: "",
+    periodLengthMinutes: "",
+    minRosterSize: "",
+    maxRosterSize: "",
+  });
+  const { rules } = league;
+  const periodLabel = getLeagueSportPeriodLabel(rules.sport).toLowerCase();
+
+  const startEdit = () => {
+    setForm({
+      periodCount: league.periodCount?.toString() ?? "",
+      periodLengthMinutes: league.periodLengthMinutes?.toString() ?? "",
+      minRosterSize: league.minRosterSize?.toString() ?? "",
+      maxRosterSize: league.maxRosterSize?.toString() ?? "",
+    });
+    setEditing(true);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organizationId) return;
+    updateRules.mutate(
+      {
+        organizationId,
+        leagueId: league.id,
+        periodCount: toNullableNumber(form.periodCount),
+        periodLengthMinutes: toNullableNumber(form.periodLengthMinutes),
+        minRosterSize: toNullableNumber(form.minRosterSize),
+        maxRosterSize: toNullableNumber(form.maxRosterSize),
+      },
+      {
+        onSuccess: () => {
+          toast.success("Rules saved");
+          setEditing(false);
+        },
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            <div>
+              <CardTitle>Rules</CardTitle>
+              <CardDescription>
+                Game format and roster size. Teams cannot join the league or add
+                players beyond these limits.
+              </CardDescription>
+            </div>
+          </div>
+          {!editing && (
+            <Button variant="outline" size="sm" onClick={startEdit}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {editing ? (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="rules-period-count">
+                  Number of {periodLabel}s
+                </Label>
+                <Input
+                  id="rules-period-count"
+                  type="number"
+                  min={1}
+                  max={20}
+                  placeholder={`${rules.periodCount} (usual)`}
+                  value={form.periodCount}
+                  onChange={(e) =>
+                    setForm({ ...form, periodCount: e.target.value })
+                  }
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="rules-period-length">
+                  Minutes per {periodLabel}
+                </Label>
+                <Input
+                  id="rules-period-length"
+                  type="number"
+                  min={1}
+                  max={120}
+                  placeholder={
+                    rules.periodLengthMinutes != null
+                      ? `${rules.periodLengthMinutes} (usual)`
+                      : "Not timed"
+                  }
+                  value={form.periodLengthMinutes}
+                  onChange={(e) =>
+                    setForm({ ...form, periodLengthMinutes: e.target.value })
+                  }
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="rules-min-roster">Minimum players</Label>
+                <Input
+                  id="rules-min-roster"
+                  type="number"
+                  min={1}
+                  max={100}
+                  placeholder="No minimum"
+                  value={form.minRosterSize}
+                  onChange={(e) =>
+                    setForm({ ...form, minRosterSize: e.target.value })
+                  }
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="rules-max-roster">Maximum players</Label>
+                <Input
+                  id="rules-max-roster"
+                  type="number"
+                  min={1}
+                  max={100}
+                  placeholder="No maximum"
+                  value={form.maxRosterSize}
+                  onChange={(e) =>
+                    setForm({ ...form, maxRosterSize: e.target.value })
+                  }
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                size="sm"
+                disabled={updateRules.isPending || !organizationId}
+              >
+                {updateRules.isPending ? "Saving…" : "Save rules"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setEditing(false)}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-muted-foreground">
+                Game format
+              </p>
+              <p className="text-sm">
+                {rules.periodCount} {periodLabel}
+                {rules.periodCount === 1 ? "" : "s"}
+                {rules.periodLengthMinutes != null
+                  ? ` of ${rules.periodLengthMinutes} minutes`
+                  : ""}
+              </p>
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-muted-foreground">
+                Players per team
+              </p>
+              <p className="text-sm">
+                {rules.minRosterSize != null && rules.maxRosterSize != null
+                  ? `${rules.minRosterSize}–${rules.maxRosterSize}`
+                  : rules.maxRosterSize != null
+                    ? `Up to ${rules.maxRosterSize}`
+                    : rules.minRosterSize != null
+                      ? `At least ${rules.minRosterSize}`
+                      : "No limit"}
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
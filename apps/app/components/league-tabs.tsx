@@ -0,0 +1,94 @@
+/**
+ * Tab navigation between the pages of a single league (overview, teams, standings, leaders, playoffs, games, scores,
+ * disputed scores), with a picker for the season those pages show. Tabs keep the picked season.
+ */
+
+import { useSeasons } from "@/lib/queries/season";
+import { Link, useNavigate, useSearch } from "@tanstack/react-router";
+
+const LEAGUE_TABS = [
+  { label: "Overview", to: "/leagues/$leagueId" },
+  { label: "Teams", to: "/leagues/$leagueId/teams" },
+  { label: "Standings", to: "/leagues/$leagueId/standings" },
+  { label: "Leaders", to: "/leagues/$leagueId/leaders" },
+  { label: "Playoffs", to: "/leagues/$leagueId/playoffs" },
+  { label: "Games", to: "/leagues/$leagueId/games" },
+  { label: "Scores", to: "/leagues/$leagueId/scores" },
+  { label: "Disputes", to: "/leagues/$leagueId/disputes" },
+] as const;
+
+interface LeagueTabsProps {
+  leagueId: string;
+}
+
+export function LeagueTabs({ leagueId }: LeagueTabsProps) {
+  const { season } = useSearch({ from: "/(app)/leagues/$leagueId" });
+  const navigate = useNavigate();
+  const { data: seasons } = useSeasons(leagueId);
+  const current = seasons?.find((s) => !s.completedAt);
+  const viewing = seasons?.find((s) => s.id === season);
+
+  const setSeason = (next: string | undefined) =>
+    navigate({
+      to: ".",
+      search: (prev: Record<string, unknown>) => ({
+        ...prev,
+        season: next === current?.id ? undefined : next,
+      }),
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end justify-between gap-2 border-b">
+        <nav className="flex gap-1" aria-label="League sections">
+          {LEAGUE_TABS.map((tab) => (
+            <Link
+              key={tab.to}
+              to={tab.to}
+              params={{ leagueId }}
+              search={{ season }}
+              activeOptions={{ exact: true, includeSearch: false }}
+              className="px-3 py-2 -mb-px text-sm font-medium border-b-2 hover:text-foreground transition-colors"
+              activeProps={{
+                className: "text-foreground border-primary",
+              }}
+              inactiveProps={{
+                className: "text-muted-foreground border-transparent",
+              }}
+            >
+              {tab.label}
+            </Link>
+          ))}
+        </nav>
+        {seasons && seasons.length > 0 && (
+          <select
+            aria-label="Season"
+            className="mb-2 h-8 rounded-md border border-input bg-transparent px-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+            value={viewing?.id ?? current?.id ?? ""}
+            onChange={(e) => setSeason(e.target.value)}
+          >
+            {seasons.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.completedAt ? s.name : `${s.name} (current)`}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {viewing?.completedAt && (
+        <p className="rounded-md border bg-muted/50 px-4 py-2 text-sm text-muted-foreground">
+          Viewing {viewing.name}, completed{" "}
+          {new Date(viewing.completedAt).toLocaleDateString()}. Its teams, games
+          and rosters are kept as they were.{" "}
+          <button
+            type="button"
+            className="font-medium text-foreground underline-offset-4 hover:underline"
+            onClick={() => setSeason(undefined)}
+          >
+            Back to the current season
+          </button>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,16 @@
 /**
  * Form for editing facility operating schedule: one row per day with start/end time (HH:mm). Empty = closed.
+ * Optionally also edits dated exceptions: special hours or closures for a date or date range.
  */
 
 import { LEAGUE_DAY_OPTIONS } from "@/lib/league-schedule";
-import { Label } from "@repo/ui";
-import type { FacilityDayKey, FacilityOperatingSchedule } from "@repo/db/schema/facility";
+import { Button, Input, Label } from "@repo/ui";
+import type {
+  FacilityDayKey,
+  FacilityOperatingSchedule,
+  ScheduleException,
+} from "@repo/db/schema/facility";
+import { Plus, Trash2 } from "lucide-react";
 
 export type OperatingScheduleFormState = Record<
   FacilityDayKey,
@@ -52,17 +58,74 @@ export function getInitialOperatingScheduleFormState(
   return formStateFromSchedule(schedule);
 }
 
+/** One editable exception row. `id` is a client-side key only. */
+export type ScheduleExceptionFormRow = {
+  id: string;
+  startDate: string;
+  endDate: string;
+  closed: boolean;
+  startTime: string;
+  endTime: string;
+  label: string;
+};
+
+export function exceptionRowsFromExceptions(
+  exceptions: ScheduleException[] | null | undefined,
+): ScheduleExceptionFormRow[] {
+  return (exceptions ?? []).map((e) => ({
+    id: crypto.randomUUID(),
+    startDate: e.startDate,
+    endDate: e.endDate,
+    closed: e.hours == null,
+    startTime: e.hours?.startTime ?? "",
+    endTime: e.hours?.endTime ?? "",
+    label: e.label ?? "",
+  }));
+}
+
+/** Rows without a start date, or with special hours missing a time, are dropped. End date defaults to the start date. */
+export function exceptionsFromExceptionRows(
+  rows: ScheduleExceptionFormRow[],
+): ScheduleException[] {
+  return rows
+    .filter((r) => r.startDate && (r.closed || (r.startTime && r.endTime)))
+    .map((r) => ({
+      startDate: r.startDate,
+      endDate: r.endDate || r.startDate,
+      hours: r.closed ? null : { startTime: r.startTime, endTime: r.endTime },
+      label: r.label.trim() || null,
+    }));
+}
+
+const inputClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
 interface OperatingScheduleFormProps {
   value: OperatingScheduleFormState;
   onChange: (value: OperatingScheduleFormState) => void;
+  /** Dated exceptions. Pass with onExceptionsChange to show the "Dates" section. */
+  exceptions?: ScheduleExceptionFormRow[];
+  onExceptionsChange?: (exceptions: ScheduleExceptionFormRow[]) => void;
   disabled?: boolean;
 }
 
 export function OperatingScheduleForm({
   value,
   onChange,
+  exceptions,
+  onExceptionsChange,
   disabled = false,
 }: OperatingScheduleFormProps) {
+  const updateException = (
+    id: string,
+    patch: Partial<ScheduleExceptionFormRow>,
+  ) =>
+    onExceptionsChange?.(
+      (exceptions ?? []).map((row) =>
+        row.id === id ? { ...row, ...patch } : row,
+      ),
+    );
+
   return (
     <div className="space-y-3">
       <div className="grid grid-cols-[minmax(4rem,auto)_1fr_1fr] gap-2 items-center text-sm">
@@ -114,6 +177,130 @@ export function OperatingScheduleForm({
       <p className="text-xs text-muted-foreground">
         Leave start and end empty for closed days. Times in 24-hour format.
       </p>
+      {exceptions && onExceptionsChange && (
+        <div className="space-y-3 border-t pt-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Dates</Label>
+              <p className="text-xs text-muted-foreground">
+                Holidays, special hours and blackout ranges. These override the
+                weekly hours.
+              </p>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={disabled}
+              onClick={() =>
+                onExceptionsChange([
+                  ...exceptions,
+                  {
+                    id: crypto.randomUUID(),
+                    startDate: "",
+                    endDate: "",
+                    closed: true,
+                    startTime: "",
+                    endTime: "",
+                    label: "",
+                  },
+                ])
+              }
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add date
+            </Button>
+          </div>
+          {exceptions.map((row) => (
+            <div
+              key={row.id}
+              className="grid grid-cols-2 sm:grid-cols-[1fr_1fr_auto] gap-2 items-center rounded-md border p-2"
+            >
+              <input
+                type="date"
+                aria-label="From"
+                value={row.startDate}
+                onChange={(e) =>
+                  updateException(row.id, { startDate: e.target.value })
+                }
+                disabled={disabled}
+                className={inputClassName}
+              />
+              <input
+                type="date"
+                aria-label="To"
+                value={row.endDate}
+                min={row.startDate || undefined}
+                onChange={(e) =>
+                  updateException(row.id, { endDate: e.target.value })
+                }
+                disabled={disabled}
+                className={inputClassName}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Remove date"
+                disabled={disabled}
+                onClick={() =>
+                  onExceptionsChange(exceptions.filter((r) => r.id !== row.id))
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={row.closed}
+                  onChange={(e) =>
+                    updateException(row.id, { closed: e.target.checked })
+                  }
+                  disabled={disabled}
+                />
+                Closed
+              </label>
+              {!row.closed && (
+                <div className="col-span-2 grid grid-cols-2 gap-2 sm:col-span-1">
+                  <input
+                    type="time"
+                    aria-label="Special hours start"
+                    value={row.startTime}
+                    onChange={(e) =>
+                      updateException(row.id, { startTime: e.target.value })
+                    }
+                    disabled={disabled}
+                    className={inputClassName}
+                  />
+                  <input
+                    type="time"
+                    aria-label="Special hours end"
+                    value={row.endTime}
+                    onChange={(e) =>
+                      updateException(row.id, { endTime: e.target.value })
+                    }
+                    disabled={disabled}
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+              <Input
+                className="col-span-2 sm:col-span-3"
+                placeholder="Reason (optional), e.g. Independence Day"
+                value={row.label}
+                maxLength={100}
+                onChange={(e) =>
+                  updateException(row.id, { label: e.target.value })
+                }
+                disabled={disabled}
+              />
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Leave "To" empty for a single day.
+          </p>
+        </div>
+      )}
     </div>
   );
 }
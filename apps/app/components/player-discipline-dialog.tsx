@@ -0,0 +1,143 @@
+/**
+ * A player's discipline record: suspensions with games served so far, then cards and
+ * ejections game by game, newest first.
+ */
+
+import { useDisplayTimeZone } from "@/lib/hooks/useDisplayTimeZone";
+import {
+  getDisciplineIncidentLabel,
+  usePlayerDisciplineHistory,
+} from "@/lib/queries/discipline";
+import { formatInstantDate } from "@/lib/time-zone";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  Skeleton,
+} from "@repo/ui";
+
+interface PlayerDisciplineDialogProps {
+  player: { userId: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PlayerDisciplineDialog({
+  player,
+  onOpenChange,
+}: PlayerDisciplineDialogProps) {
+  const {
+    data: history,
+    isPending,
+    error,
+  } = usePlayerDisciplineHistory(player?.userId);
+  const timeZone = useDisplayTimeZone();
+
+  return (
+    <Dialog open={player !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Discipline for {player?.name}</DialogTitle>
+          <DialogDescription>
+            Cards, ejections and suspensions in this organization.
+          </DialogDescription>
+        </DialogHeader>
+        {isPending ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-3/4" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : !history || history.incidents.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No cards or ejections recorded.
+          </p>
+        ) : (
+          <div className="space-y-6 max-h-[60vh] overflow-y-auto">
+            {history.suspensions.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">Suspensions</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-muted-foreground">
+                      <th className="text-left py-2 pr-2 font-medium">For</th>
+                      <th className="text-left py-2 pr-2 font-medium">Team</th>
+                      <th className="text-right py-2 pl-2 font-medium">
+                        Served
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {history.suspensions.map((s) => (
+                      <tr key={s.id} className="border-b">
+                        <td className="py-2 pr-2">
+                          {s.threshold != null && s.threshold > 1
+                            ? `${s.threshold} × ${getDisciplineIncidentLabel(s.incidentType).toLowerCase()}`
+                            : getDisciplineIncidentLabel(s.incidentType)}
+                        </td>
+                        <td className="py-2 pr-2">
+                          {s.teamName}{" "}
+                          <span className="text-muted-foreground">
+                            ({s.leagueName})
+                          </span>
+                        </td>
+                        <td className="text-right py-2 pl-2">
+                          {s.gamesServed} / {s.games}{" "}
+                          {s.games === 1 ? "game" : "games"}
+                          {!s.servedAt && (
+                            <span className="text-destructive"> · active</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <div className="space-y-2">
+              <h3 className="font-medium">Incidents</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-muted-foreground">
+                    <th className="text-left py-2 pr-2 font-medium">Date</th>
+                    <th className="text-left py-2 pr-2 font-medium">
+                      Incident
+                    </th>
+                    <th className="text-left py-2 pr-2 font-medium">Team</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.incidents.map((incident) => (
+                    <tr key={incident.id} className="border-b">
+                      <td className="py-2 pr-2">
+                        {formatInstantDate(incident.startsAt, timeZone)}
+                      </td>
+                      <td className="py-2 pr-2">
+                        {getDisciplineIncidentLabel(incident.type)}
+                        {incident.minute != null && ` (${incident.minute}')`}
+                        {incident.note && (
+                          <span className="text-muted-foreground">
+                            {" "}
+                            · {incident.note}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2">
+                        {incident.teamName}{" "}
+                        <span className="text-muted-foreground">
+                          ({incident.leagueName})
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
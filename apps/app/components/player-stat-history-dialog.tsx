@@ -0,0 +1,127 @@
+/**
+ * A player's stats from final games: totals per league, then game by game, newest first.
+ */
+
+import { useDisplayTimeZone } from "@/lib/hooks/useDisplayTimeZone";
+import { usePlayerStatHistory } from "@/lib/queries/player-stats";
+import { formatInstantDate } from "@/lib/time-zone";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  Skeleton,
+} from "@repo/ui";
+
+interface PlayerStatHistoryDialogProps {
+  player: { userId: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PlayerStatHistoryDialog({
+  player,
+  onOpenChange,
+}: PlayerStatHistoryDialogProps) {
+  const {
+    data: history,
+    isPending,
+    error,
+  } = usePlayerStatHistory(player?.userId);
+  const timeZone = useDisplayTimeZone();
+
+  return (
+    <Dialog open={player !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Stats for {player?.name}</DialogTitle>
+          <DialogDescription>
+            From final games in this organization.
+          </DialogDescription>
+        </DialogHeader>
+        {isPending ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-3/4" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : !history || history.leagues.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No stats recorded yet.
+          </p>
+        ) : (
+          <div className="space-y-6 max-h-[60vh] overflow-y-auto">
+            {history.leagues.map((entry) => {
+              const games = history.games.filter(
+                (g) => g.leagueId === entry.leagueId,
+              );
+              return (
+                <div key={entry.leagueId} className="space-y-2">
+                  <h3 className="font-medium">
+                    {entry.leagueName}{" "}
+                    <span className="text-sm font-normal text-muted-foreground">
+                      ({entry.games} {entry.games === 1 ? "game" : "games"})
+                    </span>
+                  </h3>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-muted-foreground">
+                          <th className="text-left py-2 pr-2 font-medium">
+                            Game
+                          </th>
+                          {entry.definitions.map((d) => (
+                            <th
+                              key={d.key}
+                              className="text-right py-2 pl-2 font-medium"
+                              title={d.label}
+                            >
+                              {d.abbreviation}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {games.map((g) => (
+                          <tr key={g.gameId} className="border-b">
+                            <td className="py-2 pr-2">
+                              {formatInstantDate(g.startsAt, timeZone)} vs{" "}
+                              {g.opponentName}
+                              {g.teamScore != null &&
+                                g.opponentScore != null && (
+                                  <span className="text-muted-foreground">
+                                    {" "}
+                                    ({g.teamScore}–{g.opponentScore})
+                                  </span>
+                                )}
+                            </td>
+                            {entry.definitions.map((d) => (
+                              <td key={d.key} className="text-right py-2 pl-2">
+                                {g.stats[d.key] ?? 0}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                      <tfoot>
+                        <tr className="font-semibold">
+                          <td className="py-2 pr-2">Total</td>
+                          {entry.definitions.map((d) => (
+                            <td key={d.key} className="text-right py-2 pl-2">
+                              {entry.totals[d.key] ?? 0}
+                            </td>
+                          ))}
+                        </tr>
+                      </tfoot>
+                    </table>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,226 @@
+/**
+ * Bracket diagram: one column per round for the winners bracket, the losers bracket (double
+ * elimination) and the grand final. Each match shows its seeds, teams, score and slot.
+ */
+
+import { useDisplayTimeZone } from "@/lib/hooks/useDisplayTimeZone";
+import { formatInstantTo12h } from "@/lib/league-schedule";
+import type { PlayoffBracket, PlayoffMatch } from "@/lib/queries/playoffs";
+import { formatInstantDate } from "@/lib/time-zone";
+import { cn } from "@repo/ui";
+import { Trophy } from "lucide-react";
+
+const SCORED_STATUSES = ["in_progress", "final", "forfeit"];
+
+function getRoundLabel(
+  side: PlayoffMatch["side"],
+  round: number,
+  rounds: number,
+  hasGrandFinal: boolean,
+): string {
+  if (side === "final") return "Grand final";
+  if (side === "losers") return `Losers round ${round}`;
+  const fromLast = rounds - round;
+  if (fromLast === 0) return hasGrandFinal ? "Winners final" : "Final";
+  if (fromLast === 1) return "Semifinals";
+  if (fromLast === 2) return "Quarterfinals";
+  return `Round ${round}`;
+}
+
+interface MatchCardProps {
+  match: PlayoffMatch;
+  seeds: Map<string, number>;
+  timeZone: string;
+}
+
+function MatchCard({ match, seeds, timeZone }: MatchCardProps) {
+  const scored =
+    match.game != null && SCORED_STATUSES.includes(match.game.status);
+  // First-round sides without a seed are byes; later empty sides wait for an earlier match.
+  const firstRound = match.side === "winners" && match.round === 1;
+  const advancedWithoutGame = !match.game && match.winnerLeagueTeamId != null;
+
+  const sides = [
+    {
+      key: "home",
+      leagueTeamId: match.homeLeagueTeamId,
+      name: match.homeTeamName,
+      score: match.homeScore,
+      bye: firstRound && match.homeSeed == null,
+    },
+    {
+      key: "away",
+      leagueTeamId: match.awayLeagueTeamId,
+      name: match.awayTeamName,
+      score: match.awayScore,
+      bye: firstRound && match.awaySeed == null,
+    },
+  ];
+
+  return (
+    <div className="w-56 rounded-lg border bg-card text-sm shadow-sm">
+      {sides.map((side, index) => {
+        const won =
+          side.leagueTeamId != null &&
+          side.leagueTeamId === match.winnerLeagueTeamId;
+        const seed = side.leagueTeamId
+          ? seeds.get(side.leagueTeamId)
+          : undefined;
+        return (
+          <div
+            key={side.key}
+            className={cn(
+              "flex items-center gap-2 px-3 py-1.5",
+              index === 0 && "border-b",
+              won && "font-semibold",
+            )}
+          >
+            <span className="w-5 text-xs text-muted-foreground">
+              {seed ?? ""}
+            </span>
+            <span
+              className={cn(
+                "flex-1 truncate",
+                !side.name && "text-muted-foreground italic",
+              )}
+            >
+              {side.name ?? (side.bye ? "Bye" : "TBD")}
+            </span>
+            {scored && <span>{side.score ?? "–"}</span>}
+          </div>
+        );
+      })}
+      <div className="px-3 py-1 text-xs text-muted-foreground border-t bg-muted/40 rounded-b-lg truncate">
+        {advancedWithoutGame
+          ? "Advances on a bye"
+          : match.game?.status === "forfeit"
+            ? "Forfeit"
+            : match.startsAt
+              ? `${formatInstantDate(match.startsAt, timeZone)} · ${formatInstantTo12h(match.startsAt, timeZone)}${
+                  match.surfaceName
+                    ? ` · ${match.facilityName} · ${match.surfaceName}`
+                    : ""
+                }`
+              : "No game needed"}
+      </div>
+    </div>
+  );
+}
+
+interface BracketSectionProps {
+  title?: string;
+  matches: PlayoffMatch[];
+  label: (round: number) => string;
+  seeds: Map<string, number>;
+  timeZone: string;
+}
+
+function BracketSection({
+  title,
+  matches,
+  label,
+  seeds,
+  timeZone,
+}: BracketSectionProps) {
+  const rounds = [...new Set(matches.map((m) => m.round))].sort(
+    (a, b) => a - b,
+  );
+  return (
+    <section className="space-y-3">
+      {title && <h3 className="font-medium">{title}</h3>}
+      <div className="overflow-x-auto pb-2">
+        <div className="flex gap-6 min-w-max">
+          {rounds.map((round) => (
+            <div key={round} className="flex flex-col">
+              <p className="mb-2 text-xs font-medium uppercase text-muted-foreground">
+                {label(round)}
+              </p>
+              <div className="flex flex-1 flex-col justify-around gap-4">
+                {matches
+                  .filter((m) => m.round === round)
+                  .sort((a, b) => a.position - b.position)
+                  .map((m) => (
+                    <MatchCard
+                      key={m.id}
+                      match={m}
+                      seeds={seeds}
+                      timeZone={timeZone}
+                    />
+                  ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+interface PlayoffBracketDiagramProps {
+  bracket: PlayoffBracket;
+}
+
+export function PlayoffBracketDiagram({ bracket }: PlayoffBracketDiagramProps) {
+  const timeZone = useDisplayTimeZone();
+  const winners = bracket.matches.filter((m) => m.side === "winners");
+  const losers = bracket.matches.filter((m) => m.side === "losers");
+  const grandFinal = bracket.matches.filter((m) => m.side === "final");
+  const winnersRounds = Math.max(0, ...winners.map((m) => m.round));
+
+  const seeds = new Map<string, number>();
+  for (const m of winners) {
+    if (m.round !== 1) continue;
+    if (m.homeLeagueTeamId && m.homeSeed != null)
+      seeds.set(m.homeLeagueTeamId, m.homeSeed);
+    if (m.awayLeagueTeamId && m.awaySeed != null)
+      seeds.set(m.awayLeagueTeamId, m.awaySeed);
+  }
+
+  const deciding =
+    grandFinal[0] ?? winners.find((m) => m.round === winnersRounds);
+  const champion =
+    deciding?.winnerLeagueTeamId != null
+      ? deciding.winnerLeagueTeamId === deciding.homeLeagueTeamId
+        ? deciding.homeTeamName
+        : deciding.awayTeamName
+      : null;
+
+  return (
+    <div className="space-y-6">
+      {champion && (
+        <div className="flex items-center gap-2 rounded-lg border bg-muted/40 p-3 text-sm">
+          <Trophy className="h-4 w-4" />
+          <span>
+            <span className="font-semibold">{champion}</span> won the playoffs.
+          </span>
+        </div>
+      )}
+      <BracketSection
+        title={losers.length > 0 ? "Winners bracket" : undefined}
+        matches={winners}
+        label={(round) =>
+          getRoundLabel("winners", round, winnersRounds, grandFinal.length > 0)
+        }
+        seeds={seeds}
+        timeZone={timeZone}
+      />
+      {losers.length > 0 && (
+        <BracketSection
+          title="Losers bracket"
+          matches={losers}
+          label={(round) => getRoundLabel("losers", round, winnersRounds, true)}
+          seeds={seeds}
+          timeZone={timeZone}
+        />
+      )}
+      {grandFinal.length > 0 && (
+        <BracketSection
+          matches={grandFinal}
+          label={(round) => getRoundLabel("final", round, winnersRounds, true)}
+          seeds={seeds}
+          timeZone={timeZone}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+/**
+ * Table of weekly practice slots (team, day and time, surface, dates), with an optional remove action.
+ */
+
+import { getLeagueDayLabel, formatTimeTo12h } from "@/lib/league-schedule";
+import type { PracticeSlot } from "@/lib/queries/practice";
+import { Button } from "@repo/ui";
+import { Trash2 } from "lucide-react";
+
+/** Format a YYYY-MM-DD date for display without shifting it through UTC. */
+function formatPracticeDate(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/** e.g. "Tue 6:00 PM – 7:30 PM". Times are the facility's wall clock. */
+export function formatPracticeTime(slot: {
+  day: string;
+  startTime: string;
+  endTime: string;
+}): string {
+  return `${getLeagueDayLabel(slot.day)} ${formatTimeTo12h(slot.startTime)} – ${formatTimeTo12h(slot.endTime)}`;
+}
+
+interface PracticeSlotListProps {
+  slots: PracticeSlot[];
+  /** Show the team column (admin views). */
+  showTeam?: boolean;
+  onRemove?: (slot: PracticeSlot) => void;
+  removingId?: string | null;
+}
+
+export function PracticeSlotList({
+  slots,
+  showTeam = false,
+  onRemove,
+  removingId,
+}: PracticeSlotListProps) {
+  return (
+    <div className="border rounded-lg">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b bg-muted/50">
+              {showTeam && <th className="text-left p-4 font-medium">Team</th>}
+              <th className="text-left p-4 font-medium">When</th>
+              <th className="text-left p-4 font-medium">Where</th>
+              <th className="text-left p-4 font-medium">Dates</th>
+              {showTeam && (
+                <th className="text-left p-4 font-medium">Choice</th>
+              )}
+              {onRemove && <th className="text-left p-4 font-medium" />}
+            </tr>
+          </thead>
+          <tbody>
+            {slots.map((slot) => (
+              <tr key={slot.id} className="border-b">
+                {showTeam && (
+                  <td className="p-4 font-medium">{slot.teamName}</td>
+                )}
+                <td className="p-4">{formatPracticeTime(slot)}</td>
+                <td className="p-4">
+                  {slot.facilityName} · {slot.surfaceName}
+                </td>
+                <td className="p-4 text-muted-foreground">
+                  {formatPracticeDate(slot.startDate)} –{" "}
+                  {formatPracticeDate(slot.endDate)}
+                </td>
+                {showTeam && (
+                  <td className="p-4 text-muted-foreground">
+                    {slot.rank != null ? `#${slot.rank}` : "—"}
+                  </td>
+                )}
+                {onRemove && (
+                  <td className="p-4 text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onRemove(slot)}
+                      disabled={removingId === slot.id}
+                      aria-label="Remove practice slot"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
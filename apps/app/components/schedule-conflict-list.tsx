@@ -0,0 +1,67 @@
+/**
+ * Renders structured facility conflicts (double-booking, closed day or date, outside hours) returned by the API.
+ */
+
+import { useDisplayTimeZone } from "@/lib/hooks/useDisplayTimeZone";
+import {
+  getLeagueDayLabel,
+  formatInstantTo12h,
+  formatTimeTo12h,
+} from "@/lib/league-schedule";
+import { formatInstantDate } from "@/lib/time-zone";
+import type { ScheduleConflict } from "@repo/api";
+import { AlertTriangle } from "lucide-react";
+
+/**
+ * One-line description of a conflict. Surface names are resolved by the caller when known.
+ * Overlapping events are shown in `timeZone`; facility hours are already the facility's wall clock.
+ */
+export function describeScheduleConflict(
+  conflict: ScheduleConflict,
+  surfaceName: string | undefined,
+  timeZone: string,
+): string {
+  const where = surfaceName ? `${surfaceName}: ` : "";
+  switch (conflict.type) {
+    case "overlap":
+      return `${where}overlaps ${conflict.event.title} (${formatInstantDate(conflict.event.startsAt, timeZone)} ${formatInstantTo12h(conflict.event.startsAt, timeZone)} – ${formatInstantTo12h(conflict.event.endsAt, timeZone)})`;
+    case "closed_day":
+      return `${where}facility is closed on ${getLeagueDayLabel(conflict.day)} ${conflict.date}`;
+    case "closed_date":
+      return `${where}facility is closed on ${conflict.date}${conflict.label ? ` (${conflict.label})` : ""}`;
+    case "outside_hours":
+      return `${where}${formatTimeTo12h(conflict.startTime)} – ${formatTimeTo12h(conflict.endTime)} is outside facility hours (${formatTimeTo12h(conflict.openTime)} – ${formatTimeTo12h(conflict.closeTime)})`;
+  }
+}
+
+interface ScheduleConflictListProps {
+  conflicts: ScheduleConflict[];
+  /** Surface id → display name. */
+  surfaceNames?: Map<string, string>;
+}
+
+export function ScheduleConflictList({
+  conflicts,
+  surfaceNames,
+}: ScheduleConflictListProps) {
+  const displayTimeZone = useDisplayTimeZone();
+  return (
+    <ul className="space-y-1 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+      {conflicts.map((conflict) => (
+        <li
+          key={`${conflict.type}-${conflict.facilitySurfaceId}-${conflict.startsAt}-${conflict.type === "overlap" ? conflict.event.id : ""}`}
+          className="flex gap-2"
+        >
+          <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+          <span>
+            {describeScheduleConflict(
+              conflict,
+              surfaceNames?.get(conflict.facilitySurfaceId),
+              displayTimeZone,
+            )}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
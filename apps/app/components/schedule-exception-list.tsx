@@ -0,0 +1,50 @@
+/**
+ * Lists upcoming dated schedule exceptions (holidays, special hours, blackout ranges) for a facility or league.
+ */
+
+import {
+  formatScheduleExceptionDates,
+  formatScheduleExceptionHours,
+  getUpcomingScheduleExceptions,
+} from "@/lib/facility-schedule";
+import type { ScheduleException } from "@repo/db/schema/facility";
+
+interface ScheduleExceptionListProps {
+  exceptions: ScheduleException[] | null | undefined;
+}
+
+export function ScheduleExceptionList({
+  exceptions,
+}: ScheduleExceptionListProps) {
+  const upcoming = getUpcomingScheduleExceptions(exceptions);
+  if (upcoming.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium text-muted-foreground">
+        Upcoming dates
+      </p>
+      <ul className="space-y-1 text-sm">
+        {upcoming.map((exception) => (
+          <li
+            key={`${exception.startDate}-${exception.endDate}`}
+            className="flex flex-wrap gap-x-2"
+          >
+            <span className="font-medium">
+              {formatScheduleExceptionDates(exception)}
+            </span>
+            <span
+              className={
+                exception.hours ? "text-muted-foreground" : "text-destructive"
+              }
+            >
+              {formatScheduleExceptionHours(exception)}
+            </span>
+            {exception.label && (
+              <span className="text-muted-foreground">· {exception.label}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * Per-team fairness of a league's schedule: home/away balance, early and late slots,
+ * back-to-backs, rest days and surfaces. Cells the API flagged as outliers are highlighted.
+ */
+
+import {
+  useLeagueScheduleFairness,
+  type LeagueScheduleFairness,
+} from "@/lib/queries/game";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Skeleton,
+} from "@repo/ui";
+import { AlertTriangle, Scale } from "lucide-react";
+
+type TeamFairness = LeagueScheduleFairness["teams"][number];
+type FairnessMetric = TeamFairness["flags"][number]["metric"];
+
+function cellClass(team: TeamFairness, metric: FairnessMetric): string {
+  return team.flags.some((f) => f.metric === metric)
+    ? "p-4 bg-amber-50 text-amber-800 font-medium"
+    : "p-4";
+}
+
+function formatRest(team: TeamFairness): string {
+  if (team.minRestDays == null || team.averageRestDays == null) return "—";
+  return `${team.minRestDays} / ${team.averageRestDays}`;
+}
+
+export function ScheduleFairnessCard({
+  leagueId,
+  seasonId,
+}: {
+  leagueId: string;
+  seasonId?: string;
+}) {
+  const {
+    data: report,
+    isPending,
+    error,
+  } = useLeagueScheduleFairness(leagueId, seasonId);
+  const surfaceNames = new Map(
+    (report?.surfaces ?? []).map((s) => [s.id, s.name]),
+  );
+  const flagged = (report?.teams ?? []).filter((t) => t.flags.length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          <div>
+            <CardTitle>Schedule fairness</CardTitle>
+            <CardDescription>
+              How evenly home games, early and late slots, back-to-backs, rest
+              and venues are spread across teams. Postponed and cancelled games
+              are not counted.
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isPending ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-3/4" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : !report || report.games === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No games scheduled yet. Generate or add games to see how fair the
+            schedule is.
+          </p>
+        ) : (
+          <>
+            <div className="border rounded-lg">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="text-left p-4 font-medium">Team</th>
+                      <th className="text-left p-4 font-medium">Games</th>
+                      <th className="text-left p-4 font-medium">Home / Away</th>
+                      <th className="text-left p-4 font-medium">Early</th>
+                      <th className="text-left p-4 font-medium">Late</th>
+                      <th className="text-left p-4 font-medium">
+                        Back-to-back
+                      </th>
+                      <th className="text-left p-4 font-medium">
+                        Rest days (min / avg)
+                      </th>
+                      <th className="text-left p-4 font-medium">Surfaces</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.teams.map((team) => (
+                      <tr key={team.leagueTeamId} className="border-b">
+                        <td className="p-4 font-medium">{team.name}</td>
+                        <td className="p-4">{team.games}</td>
+                        <td className={cellClass(team, "home_away")}>
+                          {team.home} / {team.away}
+                        </td>
+                        <td className={cellClass(team, "early_slots")}>
+                          {team.earlySlots}
+                        </td>
+                        <td className={cellClass(team, "late_slots")}>
+                          {team.lateSlots}
+                        </td>
+                        <td className={cellClass(team, "back_to_back")}>
+                          {team.backToBack}
+                        </td>
+                        <td className={cellClass(team, "rest_days")}>
+                          {formatRest(team)}
+                        </td>
+                        <td className="p-4 text-muted-foreground">
+                          {team.surfaces.length
+                            ? team.surfaces
+                                .map(
+                                  (s) =>
+                                    `${s.facilitySurfaceId ? (surfaceNames.get(s.facilitySurfaceId) ?? "Unknown surface") : "No venue"} (${s.games})`,
+                                )
+                                .join(", ")
+                            : "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot>
+                    <tr className="bg-muted/30 text-muted-foreground">
+                      <td className="p-4" colSpan={3}>
+                        League average
+                      </td>
+                      <td className="p-4">{report.averages.earlySlots}</td>
+                      <td className="p-4">{report.averages.lateSlots}</td>
+                      <td className="p-4">{report.averages.backToBack}</td>
+                      <td className="p-4">
+                        {report.averages.averageRestDays ?? "—"}
+                      </td>
+                      <td className="p-4" />
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            </div>
+            {flagged.length > 0 ? (
+              <ul className="space-y-1 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                {flagged.flatMap((team) =>
+                  team.flags.map((flag) => (
+                    <li
+                      key={`${team.leagueTeamId}-${flag.metric}`}
+                      className="flex gap-2"
+                    >
+                      <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                      <span>
+                        {team.name}: {flag.message}
+                      </span>
+                    </li>
+                  )),
+                )}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No teams stand out from the league average.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  getCalendarRange,
+  getEventsOnDay,
+  getMonthGrid,
+  parseDateParam,
+  shiftCalendarAnchor,
+  startOfWeek,
+  toDateParam,
+} from "./calendar";
+
+// 2026-03-07 is a Saturday; March 2026 starts on a Sunday.
+const saturday = new Date(2026, 2, 7, 15, 30);
+
+describe("date params", () => {
+  it("round-trips local dates", () => {
+    expect(toDateParam(saturday)).toBe("2026-03-07");
+    expect(parseDateParam("2026-03-07")).toEqual(new Date(2026, 2, 7));
+  });
+
+  it("falls back to today for missing or malformed values", () => {
+    const today = new Date();
+    for (const value of [undefined, "", "07/03/2026"]) {
+      expect(toDateParam(parseDateParam(value))).toBe(toDateParam(today));
+    }
+  });
+});
+
+describe("startOfWeek", () => {
+  it("returns the Monday on or before the date", () => {
+    expect(startOfWeek(saturday)).toEqual(new Date(2026, 2, 2));
+    expect(startOfWeek(new Date(2026, 2, 2, 9))).toEqual(new Date(2026, 2, 2));
+    expect(startOfWeek(new Date(2026, 2, 8))).toEqual(new Date(2026, 2, 2));
+  });
+});
+
+describe("getMonthGrid", () => {
+  it("covers the month with whole Monday–Sunday weeks", () => {
+    const weeks = getMonthGrid(saturday);
+    expect(weeks).toHaveLength(6);
+    expect(weeks[0][0]).toEqual(new Date(2026, 1, 23));
+    expect(weeks[0][6]).toEqual(new Date(2026, 2, 1));
+    expect(weeks[5][6]).toEqual(new Date(2026, 3, 5));
+    for (const week of weeks) expect(week).toHaveLength(7);
+  });
+});
+
+describe("getCalendarRange", () => {
+  it("returns a single day for the day view", () => {
+    expect(getCalendarRange("day", saturday)).toEqual({
+      from: new Date(2026, 2, 7),
+      to: new Date(2026, 2, 8),
+    });
+  });
+
+  it("returns Monday to next Monday for the week view", () => {
+    expect(getCalendarRange("week", saturday)).toEqual({
+      from: new Date(2026, 2, 2),
+      to: new Date(2026, 2, 9),
+    });
+  });
+
+  it("returns the whole grid for the month view", () => {
+    expect(getCalendarRange("month", saturday)).toEqual({
+      from: new Date(2026, 1, 23),
+      to: new Date(2026, 3, 6),
+    });
+  });
+});
+
+describe("shiftCalendarAnchor", () => {
+  it("moves by one view length", () => {
+    expect(shiftCalendarAnchor("day", saturday, 1)).toEqual(
+      new Date(2026, 2, 8),
+    );
+    expect(shiftCalendarAnchor("week", saturday, -1)).toEqual(
+      new Date(2026, 1, 28),
+    );
+    expect(shiftCalendarAnchor("month", new Date(2026, 0, 31), 1)).toEqual(
+      new Date(2026, 1, 1),
+    );
+  });
+});
+
+describe("getEventsOnDay", () => {
+  it("keeps events starting on the day, sorted by start", () => {
+    const events = [
+      { id: "b", startsAt: new Date(2026, 2, 7, 18).toISOString() },
+      { id: "a", startsAt: new Date(2026, 2, 7, 9).toISOString() },
+      { id: "c", startsAt: new Date(2026, 2, 8, 9).toISOString() },
+    ];
+    expect(getEventsOnDay(events, saturday).map((e) => e.id)).toEqual([
+      "a",
+      "b",
+    ]);
+  });
+
+  it("places events by their start date in the given time zone", () => {
+    const events = [
+      // 9 PM Friday in Chicago, 3 AM Saturday UTC.
+      { id: "late", startsAt: "2026-03-07T03:00:00.000Z" },
+      { id: "noon", startsAt: "2026-03-07T18:00:00.000Z" },
+    ];
+    expect(
+      getEventsOnDay(events, saturday, "America/Chicago").map((e) => e.id),
+    ).toEqual(["noon"]);
+    expect(getEventsOnDay(events, saturday, "UTC").map((e) => e.id)).toEqual([
+      "late",
+      "noon",
+    ]);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Calendar view helpers: visible ranges, month grids and navigation.
+ * Weeks start on Monday (same order as LEAGUE_DAY_VALUES). All dates are local.
+ */
+
+import { getZonedDateTime } from "@/lib/time-zone";
+
+export const CALENDAR_VIEW_VALUES = ["month", "week", "day"] as const;
+
+export type CalendarView = (typeof CALENDAR_VIEW_VALUES)[number];
+
+const VIEW_LABELS: Record<CalendarView, string> = {
+  month: "Month",
+  week: "Week",
+  day: "Day",
+};
+
+export const CALENDAR_VIEW_OPTIONS: { value: CalendarView; label: string }[] =
+  CALENDAR_VIEW_VALUES.map((value) => ({
+    value,
+    label: VIEW_LABELS[value],
+  }));
+
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/** Monday on or before `date`. */
+export function startOfWeek(date: Date): Date {
+  const day = startOfDay(date);
+  return addDays(day, -((day.getDay() + 6) % 7));
+}
+
+export function isSameDay(a: Date, b: Date): boolean {
+  return (
+    a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate()
+  );
+}
+
+/** Local date as YYYY-MM-DD (for search params and date inputs). */
+export function toDateParam(date: Date): string {
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, "0")}-${date.getDate().toString().padStart(2, "0")}`;
+}
+
+/** Parse YYYY-MM-DD as a local date. Invalid or missing values fall back to today. */
+export function parseDateParam(value: string | undefined): Date {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return startOfDay(new Date());
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+/** Weeks (Monday–Sunday) covering the month of `anchor`, including leading/trailing days. */
+export function getMonthGrid(anchor: Date): Date[][] {
+  const first = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+  const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+  const weeks: Date[][] = [];
+  for (
+    let weekStart = startOfWeek(first);
+    weekStart <= last;
+    weekStart = addDays(weekStart, 7)
+  ) {
+    weeks.push(Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)));
+  }
+  return weeks;
+}
+
+/** Visible range [from, to) for a view. Month covers the whole grid, not just the month. */
+export function getCalendarRange(
+  view: CalendarView,
+  anchor: Date,
+): { from: Date; to: Date } {
+  switch (view) {
+    case "day": {
+      const from = startOfDay(anchor);
+      return { from, to: addDays(from, 1) };
+    }
+    case "week": {
+      const from = startOfWeek(anchor);
+      return { from, to: addDays(from, 7) };
+    }
+    case "month": {
+      const weeks = getMonthGrid(anchor);
+      const from = weeks[0][0];
+      return { from, to: addDays(weeks[weeks.length - 1][6], 1) };
+    }
+  }
+}
+
+/** Anchor one view-length before (-1) or after (1) `anchor`. */
+export function shiftCalendarAnchor(
+  view: CalendarView,
+  anchor: Date,
+  direction: 1 | -1,
+): Date {
+  switch (view) {
+    case "day":
+      return addDays(anchor, direction);
+    case "week":
+      return addDays(anchor, 7 * direction);
+    case "month":
+      return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
+  }
+}
+
+/** Heading for the visible range, e.g. "March 2026", "Mar 2 – Mar 8, 2026", "Saturday, March 7, 2026". */
+export function getCalendarTitle(view: CalendarView, anchor: Date): string {
+  switch (view) {
+    case "day":
+      return anchor.toLocaleDateString(undefined, {
+        weekday: "long",
+        month: "long",
+        day: "numeric",
+        year: "numeric",
+      });
+    case "week": {
+      const start = startOfWeek(anchor);
+      const end = addDays(start, 6);
+      const short: Intl.DateTimeFormatOptions = {
+        month: "short",
+        day: "numeric",
+      };
+      return `${start.toLocaleDateString(undefined, short)} – ${end.toLocaleDateString(undefined, { ...short, year: "numeric" })}`;
+    }
+    case "month":
+      return anchor.toLocaleDateString(undefined, {
+        month: "long",
+        year: "numeric",
+      });
+  }
+}
+
+/**
+ * Events starting on `day`, in start order. `day` is a calendar date; events are placed by
+ * their start date in `timeZone` when given, otherwise in the browser's zone.
+ */
+export function getEventsOnDay<T extends { startsAt: Date | string }>(
+  events: T[],
+  day: Date,
+  timeZone?: string,
+): T[] {
+  const dayParam = toDateParam(day);
+  return events
+    .filter((e) =>
+      timeZone
+        ? getZonedDateTime(e.startsAt, timeZone).date === dayParam
+        : isSameDay(new Date(e.startsAt), day),
+    )
+    .sort(
+      (a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime(),
+    );
+}
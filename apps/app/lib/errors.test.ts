@@ -2,6 +2,7 @@ import { describe, expect, it } from "vitest";
 import {
   getErrorMessage,
   getErrorStatus,
+  getScheduleConflicts,
   isUnauthenticatedError,
 } from "./errors";
 
@@ -112,3 +113,29 @@ describe("isUnauthenticatedError", () => {
     expect(isUnauthenticatedError({ data: { code: "FORBIDDEN" } })).toBe(false);
   });
 });
+
+describe("getScheduleConflicts", () => {
+  const conflict = {
+    type: "closed_day" as const,
+    facilitySurfaceId: "s1",
+    startsAt: "2026-03-08T20:00:00.000Z",
+    endsAt: "2026-03-08T21:00:00.000Z",
+    date: "2026-03-08",
+    day: "sunday" as const,
+  };
+
+  it("extracts conflicts from tRPC error data", () => {
+    expect(
+      getScheduleConflicts({
+        data: { code: "CONFLICT", scheduleConflicts: [conflict] },
+      }),
+    ).toEqual([conflict]);
+  });
+
+  it("returns null when the error has no conflicts", () => {
+    expect(getScheduleConflicts(new Error("boom"))).toBeNull();
+    expect(getScheduleConflicts({ data: { scheduleConflicts: null } })).toBeNull();
+    expect(getScheduleConflicts({ data: { scheduleConflicts: [] } })).toBeNull();
+    expect(getScheduleConflicts(null)).toBeNull();
+  });
+});
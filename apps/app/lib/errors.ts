@@ -1,3 +1,5 @@
+import type { ScheduleConflict } from "@repo/api";
+
 // Extract HTTP status from various error shapes (with cycle guard)
 export function getErrorStatus(
   error: unknown,
@@ -34,6 +36,20 @@ export function isUnauthenticatedError(error: unknown): boolean {
   return getErrorStatus(error) === 401;
 }
 
+// Structured facility conflicts attached to a tRPC CONFLICT error (see api errorFormatter).
+// Returns null when the error carries none.
+export function getScheduleConflicts(
+  error: unknown,
+): ScheduleConflict[] | null {
+  if (error && typeof error === "object" && "data" in error) {
+    const data = (error as { data?: { scheduleConflicts?: unknown } }).data;
+    if (Array.isArray(data?.scheduleConflicts) && data.scheduleConflicts.length) {
+      return data.scheduleConflicts as ScheduleConflict[];
+    }
+  }
+  return null;
+}
+
 // Safely extract message from any thrown value
 export function getErrorMessage(error: unknown): string {
   if (error instanceof Error) return error.message;
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  getFacilityScheduleGroups,
+  getUpcomingScheduleExceptions,
+} from "./facility-schedule";
+
+const weekly = {
+  monday: { startTime: "09:00", endTime: "17:00" },
+  friday: { startTime: "09:00", endTime: "17:00" },
+  saturday: { startTime: "10:00", endTime: "14:00" },
+};
+
+// Week of Monday 2026-06-29; Saturday is 2026-07-04.
+const weekOf = new Date(2026, 5, 30);
+
+const independenceDay = {
+  startDate: "2026-07-04",
+  endDate: "2026-07-04",
+  hours: null,
+  label: "Independence Day",
+};
+
+describe("getFacilityScheduleGroups", () => {
+  it("groups weekly hours without exceptions", () => {
+    expect(getFacilityScheduleGroups(weekly)).toMatchObject([
+      { dayLabels: ["Mon", "Fri"], notes: [] },
+      { dayLabels: ["Tue", "Wed", "Thu", "Sun"], timeRange: "Closed" },
+      { dayLabels: ["Sat"] },
+    ]);
+  });
+
+  it("applies exceptions falling in the given week and notes them", () => {
+    const groups = getFacilityScheduleGroups(weekly, [independenceDay], weekOf);
+    const closed = groups.find((g) => g.timeRange === "Closed");
+    expect(closed?.dayLabels).toContain("Sat");
+    expect(closed?.notes).toHaveLength(1);
+    expect(closed?.notes[0]).toContain("Independence Day");
+    expect(
+      groups.some((g) => g.dayLabels.includes("Sat") && g !== closed),
+    ).toBe(false);
+  });
+
+  it("ignores exceptions outside the given week", () => {
+    expect(
+      getFacilityScheduleGroups(
+        weekly,
+        [independenceDay],
+        new Date(2026, 6, 8),
+      ),
+    ).toEqual(getFacilityScheduleGroups(weekly));
+  });
+});
+
+describe("getUpcomingScheduleExceptions", () => {
+  it("drops past exceptions and sorts by start date", () => {
+    const past = {
+      ...independenceDay,
+      startDate: "2026-01-01",
+      endDate: "2026-01-01",
+    };
+    const later = {
+      ...independenceDay,
+      startDate: "2026-12-25",
+      endDate: "2026-12-25",
+    };
+    expect(
+      getUpcomingScheduleExceptions(
+        [later, past, independenceDay],
+        "2026-07-04",
+      ),
+    ).toEqual([independenceDay, later]);
+  });
+});
@@ -1,10 +1,16 @@
 /**
  * Facility operating schedule: per-day hours, displayed with same chip + 12h format as league schedule.
+ * Dated exceptions (special hours, blackout ranges) override the weekly hours; leagues use the same format.
  */
 
+import { addDays, startOfWeek, toDateParam } from "@/lib/calendar";
 import { formatTimeTo12h } from "@/lib/league-schedule";
 import { getLeagueDayLabel } from "@/lib/league-schedule";
-import type { FacilityOperatingSchedule } from "@repo/db/schema/facility";
+import type {
+  FacilityDayHours,
+  FacilityOperatingSchedule,
+  ScheduleException,
+} from "@repo/db/schema/facility";
 
 const DAY_KEYS = [
   "monday",
@@ -19,13 +25,92 @@ const DAY_KEYS = [
 export type FacilityScheduleGroup = {
   dayLabels: string[];
   timeRange: string;
+  /** Exceptions that set these hours this week, e.g. "Jul 4 · Independence Day". */
+  notes: string[];
 };
 
-/** Group days that share the same hours; return groups with day chips labels and 12h time range (or "Closed"). */
+/** The exception covering `date` (YYYY-MM-DD). When ranges overlap, the shortest (most specific) wins. */
+export function findScheduleException(
+  exceptions: ScheduleException[] | null | undefined,
+  date: string,
+): ScheduleException | null {
+  let match: ScheduleException | null = null;
+  for (const exception of exceptions ?? []) {
+    if (exception.startDate > date || exception.endDate < date) continue;
+    if (match == null || rangeLength(exception) < rangeLength(match)) {
+      match = exception;
+    }
+  }
+  return match;
+}
+
+function rangeLength(exception: ScheduleException): number {
+  return Date.parse(exception.endDate) - Date.parse(exception.startDate);
+}
+
+function formatDateShort(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/** e.g. "Jul 4", "Mar 9 – Mar 13". */
+export function formatScheduleExceptionDates(exception: ScheduleException): string {
+  return exception.startDate === exception.endDate
+    ? formatDateShort(exception.startDate)
+    : `${formatDateShort(exception.startDate)} – ${formatDateShort(exception.endDate)}`;
+}
+
+/** "Closed" or the exception's 12h time range. */
+export function formatScheduleExceptionHours(exception: ScheduleException): string {
+  return exception.hours
+    ? `${formatTimeTo12h(exception.hours.startTime)} – ${formatTimeTo12h(exception.hours.endTime)}`
+    : "Closed";
+}
+
+/** Exceptions that have not ended by `today` (YYYY-MM-DD), soonest first. */
+export function getUpcomingScheduleExceptions(
+  exceptions: ScheduleException[] | null | undefined,
+  today: string = toDateParam(new Date()),
+): ScheduleException[] {
+  return (exceptions ?? [])
+    .filter((e) => e.endDate >= today)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+/**
+ * Group days that share the same hours; return groups with day chips labels and 12h time range (or "Closed").
+ * When `exceptions` is passed, hours are resolved for the actual dates of the week containing `weekOf`
+ * (default: this week), so holidays and blackout dates show up; the groups then carry notes naming them.
+ */
 export function getFacilityScheduleGroups(
   schedule: FacilityOperatingSchedule | null | undefined,
+  exceptions?: ScheduleException[] | null,
+  weekOf: Date = new Date(),
 ): FacilityScheduleGroup[] {
-  if (!schedule || typeof schedule !== "object") return [];
+  const weekStart = startOfWeek(weekOf);
+  const dated = exceptions != null;
+  const hoursByDay = new Map<
+    (typeof DAY_KEYS)[number],
+    { hours: FacilityDayHours | null | undefined; note: string | null }
+  >();
+  DAY_KEYS.forEach((day, i) => {
+    const exception = dated
+      ? findScheduleException(exceptions, toDateParam(addDays(weekStart, i)))
+      : null;
+    hoursByDay.set(day, {
+      hours: exception ? exception.hours : schedule?.[day],
+      note: exception
+        ? [formatScheduleExceptionDates(exception), exception.label]
+            .filter(Boolean)
+            .join(" · ")
+        : null,
+    });
+  });
+  const hasException = [...hoursByDay.values()].some((d) => d.note != null);
+  if ((!schedule || typeof schedule !== "object") && !hasException) return [];
 
   type Key = string;
   const byKey = new Map<
@@ -37,8 +122,9 @@ export function getFacilityScheduleGroups(
     }
   >();
 
+  const notesByKey = new Map<Key, string[]>();
   for (const day of DAY_KEYS) {
-    const hours = schedule[day];
+    const { hours, note } = hoursByDay.get(day)!;
     const key =
       hours &&
       typeof hours === "object" &&
@@ -46,6 +132,11 @@ export function getFacilityScheduleGroups(
       hours.endTime != null
         ? `${hours.startTime}|${hours.endTime}`
         : "closed";
+    if (note != null) {
+      const notes = notesByKey.get(key) ?? [];
+      if (!notes.includes(note)) notes.push(note);
+      notesByKey.set(key, notes);
+    }
     const existing = byKey.get(key);
     if (!existing) {
       byKey.set(key, {
@@ -71,7 +162,8 @@ export function getFacilityScheduleGroups(
         key === "closed"
           ? "Closed"
           : `${formatTimeTo12h(startTime ?? "")} – ${formatTimeTo12h(endTime ?? "")}`,
+      notes: notesByKey.get(key) ?? [],
     }))
     .sort((a, b) => a.firstDayIndex - b.firstDayIndex)
-    .map(({ dayLabels, timeRange }) => ({ dayLabels, timeRange }));
+    .map(({ dayLabels, timeRange, notes }) => ({ dayLabels, timeRange, notes }));
 }
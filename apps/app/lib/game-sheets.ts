@@ -0,0 +1,33 @@
+/**
+ * URLs of the printable game sheet PDFs. They are plain GET endpoints authenticated by the
+ * session cookie, so they can be opened in a new tab and printed from the browser.
+ */
+
+function getApiUrl(path: string, params: Record<string, string>): string {
+  return `${import.meta.env.VITE_API_URL || "/api"}${path}?${new URLSearchParams(params)}`;
+}
+
+/** Game sheet for one league or tournament game. */
+export function getGameSheetUrl(
+  organizationId: string,
+  gameId: string,
+): string {
+  return getApiUrl(`/game-sheets/games/${encodeURIComponent(gameId)}`, {
+    organizationId,
+  });
+}
+
+/** One game sheet per game starting at a facility on `date` (facility-local YYYY-MM-DD). */
+export function getFacilityGameSheetsUrl(
+  organizationId: string,
+  facilityId: string,
+  date: string,
+): string {
+  return getApiUrl(
+    `/game-sheets/facilities/${encodeURIComponent(facilityId)}`,
+    {
+      organizationId,
+      date,
+    },
+  );
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { getEditableGameStatuses, getGameStatusActions } from "./game-status";
+
+describe("getGameStatusActions", () => {
+  it("offers postponing and rescheduling only where the API allows them", () => {
+    expect(getGameStatusActions("scheduled")).toEqual([
+      "postpone",
+      "reschedule",
+      "cancel",
+      "forfeit",
+    ]);
+    expect(getGameStatusActions("postponed")).not.toContain("postpone");
+    expect(getGameStatusActions("in_progress")).not.toContain("reschedule");
+    expect(getGameStatusActions("final")).toEqual([]);
+    expect(getGameStatusActions("forfeit")).toEqual([]);
+  });
+});
+
+describe("getEditableGameStatuses", () => {
+  it("leaves finishing a game to result entry", () => {
+    expect(getEditableGameStatuses("scheduled")).toEqual([
+      "scheduled",
+      "in_progress",
+    ]);
+    expect(getEditableGameStatuses("in_progress")).not.toContain("final");
+  });
+
+  it("keeps postponed and closed games on their current status", () => {
+    expect(getEditableGameStatuses("abandoned")).toEqual(["abandoned"]);
+    expect(getEditableGameStatuses("postponed")).toEqual(["postponed"]);
+    expect(getEditableGameStatuses("cancelled")).toEqual(["cancelled"]);
+  });
+});
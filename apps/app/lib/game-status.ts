@@ -0,0 +1,100 @@
+/**
+ * Game status options, display labels and badge styles.
+ * Values match db/schema/game.ts enum.
+ */
+
+export const GAME_STATUS_VALUES = [
+  "scheduled",
+  "in_progress",
+  "final",
+  "postponed",
+  "cancelled",
+  "forfeit",
+  "abandoned",
+] as const;
+
+export type GameStatusValue = (typeof GAME_STATUS_VALUES)[number];
+
+const LABELS: Record<GameStatusValue, string> = {
+  scheduled: "Scheduled",
+  in_progress: "In progress",
+  final: "Final",
+  postponed: "Postponed",
+  cancelled: "Cancelled",
+  forfeit: "Forfeit",
+  abandoned: "Abandoned",
+};
+
+const BADGE_CLASSES: Record<GameStatusValue, string> = {
+  scheduled: "bg-secondary",
+  in_progress: "bg-green-100 text-green-700",
+  final: "bg-gray-100 text-gray-700",
+  postponed: "bg-amber-100 text-amber-700",
+  cancelled: "bg-red-100 text-red-700",
+  forfeit: "bg-red-100 text-red-700",
+  abandoned: "bg-orange-100 text-orange-700",
+};
+
+export function getGameStatusLabel(value: string | null | undefined): string {
+  if (value == null) return "—";
+  return LABELS[value as GameStatusValue] ?? value;
+}
+
+/** Games whose score can be entered from the score sheet. Mirrors the API's canRecordGameResult. */
+export function canRecordGameResult(status: GameStatusValue): boolean {
+  return status === "scheduled" || status === "in_progress";
+}
+
+/** Games with a result that can only be corrected (with a reason). */
+export function hasGameResult(status: GameStatusValue): boolean {
+  return status === "final" || status === "abandoned";
+}
+
+export function getGameStatusBadgeClass(
+  value: string | null | undefined,
+): string {
+  return (
+    BADGE_CLASSES[value as GameStatusValue] ?? "bg-muted text-muted-foreground"
+  );
+}
+
+export const GAME_STATUS_OPTIONS: { value: GameStatusValue; label: string }[] =
+  GAME_STATUS_VALUES.map((value) => ({
+    value,
+    label: LABELS[value],
+  }));
+
+/** Status changes that go through their own flow (reason + team notification) instead of the edit form. */
+export type GameStatusAction = "postpone" | "reschedule" | "cancel" | "forfeit";
+
+/** Actions offered for a game in `status`. Mirrors the API's allowed transitions. */
+export function getGameStatusActions(
+  status: GameStatusValue,
+): GameStatusAction[] {
+  switch (status) {
+    case "scheduled":
+      return ["postpone", "reschedule", "cancel", "forfeit"];
+    case "in_progress":
+      return ["postpone", "cancel", "forfeit"];
+    case "postponed":
+      return ["reschedule", "cancel", "forfeit"];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Statuses selectable in the edit form for a game currently in `status` (always includes `status`).
+ * Final and abandoned are set by entering the result.
+ */
+export function getEditableGameStatuses(
+  status: GameStatusValue,
+): GameStatusValue[] {
+  switch (status) {
+    case "scheduled":
+    case "in_progress":
+      return ["scheduled", "in_progress"];
+    default:
+      return [status];
+  }
+}
@@ -0,0 +1,27 @@
+import { useOrganization } from "@/lib/queries/organization";
+import { getBrowserTimeZone } from "@/lib/time-zone";
+import { useAtomValue } from "jotai";
+import { atomWithStorage } from "jotai/utils";
+
+export type DisplayTimeZonePreference = "organization" | "local";
+
+/** Whether event times are shown in the organization's zone or the browser's. Persisted per browser. */
+export const displayTimeZonePreferenceAtom =
+  atomWithStorage<DisplayTimeZonePreference>(
+    "display-time-zone",
+    "organization",
+  );
+
+/**
+ * IANA zone to render event times in: the organization's zone, or the browser's when the
+ * user prefers local time. Falls back to the browser's zone until the organization loads.
+ */
+export function useDisplayTimeZone(): string {
+  const preference = useAtomValue(displayTimeZonePreferenceAtom);
+  const { data: organizations } = useOrganization();
+  const organizationTimeZone = organizations?.[0]?.timeZone;
+  if (preference === "local" || !organizationTimeZone) {
+    return getBrowserTimeZone();
+  }
+  return organizationTimeZone;
+}
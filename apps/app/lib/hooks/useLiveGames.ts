@@ -0,0 +1,29 @@
+import { followLiveTopics } from "@/lib/live";
+import { gameChangesQueryKey, gameListQueryKey } from "@/lib/queries/game";
+import { useOrganization } from "@/lib/queries/organization";
+import { useQueryClient } from "@tanstack/react-query";
+import { useEffect } from "react";
+
+/**
+ * Refetches the organization's games, standings and playoffs whenever a game published to one
+ * of `topics` (e.g. `liveTopic("league", leagueId)`) changes, or on each poll when the API has
+ * no live server.
+ */
+export function useLiveGames(topics: string[]): void {
+  const queryClient = useQueryClient();
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const topicList = topics.join(" ");
+
+  useEffect(() => {
+    if (!organizationId || !topicList) return;
+    return followLiveTopics(topicList.split(" "), () => {
+      queryClient.invalidateQueries({
+        queryKey: [...gameListQueryKey, organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...gameChangesQueryKey, organizationId],
+      });
+    });
+  }, [organizationId, queryClient, topicList]);
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  getKioskSurfaceColumns,
+  paginate,
+  type KioskBoardGame,
+} from "./kiosk-board";
+
+function game(
+  id: string,
+  surfaceId: string,
+  startsAt: string,
+  endsAt: string,
+  status = "scheduled",
+): KioskBoardGame {
+  return {
+    id,
+    kind: "league",
+    competition: "U12",
+    surfaceId,
+    startsAt: `2026-10-17T${startsAt}:00.000Z`,
+    endsAt: `2026-10-17T${endsAt}:00.000Z`,
+    status,
+    homeTeamName: "Hawks",
+    awayTeamName: "Owls",
+    homeScore: null,
+    awayScore: null,
+    periodScores: null,
+  };
+}
+
+const surfaces = [
+  { id: "f1", name: "Field 1" },
+  { id: "f2", name: "Field 2" },
+  { id: "f3", name: "Field 3" },
+];
+const now = new Date("2026-10-17T10:30:00.000Z");
+
+describe("getKioskSurfaceColumns", () => {
+  it("splits each surface's games into current, upcoming and finished", () => {
+    const games = [
+      game("late", "f1", "12:00", "13:00"),
+      game("early", "f1", "08:00", "09:00", "final"),
+      game("now", "f1", "10:00", "11:00"),
+      game("next", "f1", "11:00", "12:00"),
+      game("morning", "f1", "09:00", "10:00", "forfeit"),
+    ];
+    const [column] = getKioskSurfaceColumns({ surfaces, games }, now);
+    expect(column?.surface.id).toBe("f1");
+    expect(column?.current?.id).toBe("now");
+    expect(column?.upcoming.map((g) => g.id)).toEqual(["next", "late"]);
+    expect(column?.finished.map((g) => g.id)).toEqual(["morning", "early"]);
+  });
+
+  it("keeps a game that runs over its slot current while it is in progress", () => {
+    const games = [
+      game("overtime", "f2", "09:00", "10:00", "in_progress"),
+      game("waiting", "f2", "10:00", "11:00"),
+    ];
+    const [column] = getKioskSurfaceColumns({ surfaces, games }, now);
+    expect(column?.current?.id).toBe("overtime");
+    expect(column?.upcoming).toEqual([]);
+  });
+
+  it("leaves out surfaces without games today", () => {
+    const games = [
+      game("a", "f3", "11:00", "12:00"),
+      game("b", "f1", "11:00", "12:00"),
+    ];
+    expect(
+      getKioskSurfaceColumns({ surfaces, games }, now).map((c) => c.surface.id),
+    ).toEqual(["f1", "f3"]);
+  });
+});
+
+describe("paginate", () => {
+  it("splits items into pages", () => {
+    expect(paginate([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(paginate([], 4)).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Facility kiosk board: the day's games on each surface (on now, up next, finished) and the
+ * pages of surfaces the display rotates through. The board is served without a session from
+ * /api/kiosk/:token.
+ */
+
+export type KioskBoardGame = {
+  id: string;
+  kind: "league" | "tournament";
+  /** League or tournament name. */
+  competition: string;
+  surfaceId: string;
+  startsAt: string;
+  endsAt: string;
+  status: string;
+  /** Null for a knockout side that is not decided yet. */
+  homeTeamName: string | null;
+  awayTeamName: string | null;
+  homeScore: number | null;
+  awayScore: number | null;
+  periodScores: { home: number; away: number }[] | null;
+};
+
+export type KioskBoard = {
+  kiosk: { id: string; name: string };
+  facility: { id: string; name: string; timeZone: string };
+  /** Facility-local YYYY-MM-DD. */
+  date: string;
+  surfaces: { id: string; name: string }[];
+  games: KioskBoardGame[];
+};
+
+export type KioskSurfaceColumn = {
+  surface: { id: string; name: string };
+  /** The game being played, or due to be played, right now. */
+  current: KioskBoardGame | null;
+  upcoming: KioskBoardGame[];
+  /** Most recent first. */
+  finished: KioskBoardGame[];
+};
+
+/** Surfaces shown side by side on one page of the rotation. */
+export const KIOSK_SURFACES_PER_PAGE = 4;
+
+/** How long each page stays on screen. */
+export const KIOSK_PAGE_MS = 15_000;
+
+const FINISHED_STATUSES = ["final", "forfeit", "abandoned"];
+
+export function isKioskGameFinished(game: KioskBoardGame): boolean {
+  return FINISHED_STATUSES.includes(game.status);
+}
+
+/**
+ * One column per surface with games today, in surface order. A game is current while it is in
+ * progress or inside its slot; unfinished games whose slot has passed without a score are dropped.
+ */
+export function getKioskSurfaceColumns(
+  board: Pick<KioskBoard, "surfaces" | "games">,
+  now: Date,
+): KioskSurfaceColumn[] {
+  const time = now.getTime();
+  return board.surfaces.flatMap((surface) => {
+    const games = board.games
+      .filter((g) => g.surfaceId === surface.id)
+      .sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+    if (games.length === 0) return [];
+    const open = games.filter((g) => !isKioskGameFinished(g));
+    const current =
+      open.find((g) => g.status === "in_progress") ??
+      open.find(
+        (g) =>
+          new Date(g.startsAt).getTime() <= time &&
+          time < new Date(g.endsAt).getTime(),
+      ) ??
+      null;
+    return [
+      {
+        surface,
+        current,
+        upcoming: open.filter(
+          (g) => g !== current && new Date(g.startsAt).getTime() > time,
+        ),
+        finished: games.filter(isKioskGameFinished).reverse(),
+      },
+    ];
+  });
+}
+
+/** Split items into pages of `size`. */
+export function paginate<T>(items: T[], size: number): T[][] {
+  const pages: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    pages.push(items.slice(i, i + size));
+  }
+  return pages;
+}
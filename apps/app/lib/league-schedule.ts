@@ -4,6 +4,8 @@
  * Display uses getFacilityScheduleGroups from @/lib/facility-schedule.
  */
 
+import { getZonedDateTime } from "@/lib/time-zone";
+
 export const LEAGUE_DAY_VALUES = [
   "monday",
   "tuesday",
@@ -46,3 +48,16 @@ export function formatTimeTo12h(time: string): string {
   const ampm = h < 12 ? "AM" : "PM";
   return `${hour}:${minute.toString().padStart(2, "0")} ${ampm}`;
 }
+
+/**
+ * Format an instant's wall-clock time as 12-hour string (same format as formatTimeTo12h).
+ * Uses `timeZone` when given, otherwise the browser's zone.
+ */
+export function formatInstantTo12h(value: Date | string, timeZone?: string): string {
+  const date = typeof value === "string" ? new Date(value) : value;
+  if (Number.isNaN(date.getTime())) return "";
+  if (timeZone) return formatTimeTo12h(getZonedDateTime(date, timeZone).time);
+  return formatTimeTo12h(
+    `${date.getHours().toString().padStart(2, "0")}:${date.getMinutes().toString().padStart(2, "0")}`,
+  );
+}
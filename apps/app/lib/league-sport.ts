@@ -0,0 +1,53 @@
+/**
+ * League sport options and display labels.
+ * Values match db/schema/league_sport.ts enum.
+ */
+
+export const LEAGUE_SPORT_VALUES = [
+  "soccer",
+  "basketball",
+  "hockey",
+  "baseball",
+  "volleyball",
+  "other",
+] as const;
+
+export type LeagueSportValue = (typeof LEAGUE_SPORT_VALUES)[number];
+
+const LABELS: Record<LeagueSportValue, string> = {
+  soccer: "Soccer",
+  basketball: "Basketball",
+  hockey: "Hockey",
+  baseball: "Baseball",
+  volleyball: "Volleyball",
+  other: "Other",
+};
+
+export function getLeagueSportLabel(value: string | null | undefined): string {
+  if (value == null) return "—";
+  return LABELS[value as LeagueSportValue] ?? value;
+}
+
+export const LEAGUE_SPORT_OPTIONS: {
+  value: LeagueSportValue;
+  label: string;
+}[] = LEAGUE_SPORT_VALUES.map((value) => ({
+  value,
+  label: LABELS[value],
+}));
+
+const PERIOD_LABELS: Record<LeagueSportValue, string> = {
+  soccer: "Half",
+  basketball: "Quarter",
+  hockey: "Period",
+  baseball: "Inning",
+  volleyball: "Set",
+  other: "Period",
+};
+
+/** What one period of the sport is called, e.g. "Quarter". */
+export function getLeagueSportPeriodLabel(
+  value: string | null | undefined,
+): string {
+  return PERIOD_LABELS[value as LeagueSportValue] ?? "Period";
+}
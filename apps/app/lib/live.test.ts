@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  followLiveTopics,
+  getLiveGameTopics,
+  parseLiveGameEvent,
+} from "./live";
+
+const game = {
+  gameId: "g1",
+  leagueId: "l1",
+  facilityId: "f1",
+  status: "in_progress",
+  homeScore: 2,
+  awayScore: 1,
+  periodScores: [{ home: 2, away: 1 }],
+  updatedAt: "2026-10-17T15:00:00.000Z",
+};
+
+describe("parseLiveGameEvent", () => {
+  it("returns the game of score, period and final events", () => {
+    for (const type of [
+      "GAME_SCORE_CHANGED",
+      "GAME_PERIOD_CHANGED",
+      "GAME_FINAL",
+    ]) {
+      expect(
+        parseLiveGameEvent(JSON.stringify({ type, meta: {}, payload: game })),
+      ).toEqual(game);
+    }
+  });
+
+  it("ignores other messages and malformed data", () => {
+    expect(
+      parseLiveGameEvent(
+        JSON.stringify({
+          type: "SUBSCRIBED",
+          meta: {},
+          payload: { topics: ["league:l1"] },
+        }),
+      ),
+    ).toBeNull();
+    expect(
+      parseLiveGameEvent(
+        JSON.stringify({
+          type: "GAME_FINAL",
+          meta: {},
+          payload: { gameId: "g1" },
+        }),
+      ),
+    ).toBeNull();
+    expect(parseLiveGameEvent("not json")).toBeNull();
+  });
+});
+
+describe("getLiveGameTopics", () => {
+  it("lists the game, league and venue topics", () => {
+    expect(getLiveGameTopics(game)).toEqual([
+      "game:g1",
+      "league:l1",
+      "facility:f1",
+    ]);
+    expect(getLiveGameTopics({ ...game, facilityId: null })).toEqual([
+      "game:g1",
+      "league:l1",
+    ]);
+  });
+});
+
+describe("followLiveTopics", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("polls instead of reconnecting when the live endpoint never opens", () => {
+    vi.useFakeTimers();
+    let connects = 0;
+    // Like a server without /api/live: every connection closes before it opens.
+    class ClosingWebSocket extends EventTarget {
+      static OPEN = 1;
+      readyState = 0;
+      constructor() {
+        super();
+        connects += 1;
+        setTimeout(() => this.dispatchEvent(new Event("close")), 0);
+      }
+      send() {}
+      close() {}
+    }
+    vi.stubGlobal("WebSocket", ClosingWebSocket);
+    const listener = vi.fn();
+
+    const unfollow = followLiveTopics(["league:l1"], listener);
+    vi.advanceTimersByTime(10_000);
+    expect(connects).toBe(3);
+    expect(listener).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(30_000);
+    expect(listener).toHaveBeenCalledWith(null);
+    expect(connects).toBe(3);
+
+    unfollow();
+    listener.mockClear();
+    vi.advanceTimersByTime(60_000);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
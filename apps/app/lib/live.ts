@@ -0,0 +1,169 @@
+/**
+ * Live game events from the API's WebSocket at /api/live.
+ *
+ * One connection is shared by every component following topics: it subscribes to the union of
+ * their topics, closes when nobody follows anything and reconnects with backoff after a drop.
+ * Only the Bun server has a live endpoint. When the socket fails to open a few times in a row
+ * (e.g. the Workers deployment), it stops reconnecting and polls instead: listeners are called
+ * without a game every POLL_INTERVAL_MS so pages refetch.
+ */
+
+import {
+  GameFinal,
+  GamePeriodChanged,
+  GameScoreChanged,
+  type LiveGame,
+} from "@repo/ws-protocol/messages";
+import { liveTopic } from "@repo/ws-protocol/topics";
+
+/** Called with each published game, or with null on each poll when there is no live server. */
+type LiveGameListener = (game: LiveGame | null) => void;
+
+const LIVE_GAME_MESSAGES = [GameScoreChanged, GamePeriodChanged, GameFinal];
+const MAX_RECONNECT_DELAY_MS = 60_000;
+/** Connections that close without ever opening before we assume there is no live server. */
+const MAX_FAILED_CONNECTS = 3;
+const POLL_INTERVAL_MS = 30_000;
+
+/** Topic → listeners following it. */
+const followers = new Map<string, Set<LiveGameListener>>();
+let socket: WebSocket | null = null;
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+let failedConnects = 0;
+let pollTimer: ReturnType<typeof setInterval> | undefined;
+let kioskToken: string | null = null;
+
+/** The game carried by a live game event, or null for any other message (SUBSCRIBED, PONG, ERROR…). */
+export function parseLiveGameEvent(data: string): LiveGame | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  for (const schema of LIVE_GAME_MESSAGES) {
+    const result = schema.safeParse(message);
+    if (result.success) return result.data.payload;
+  }
+  return null;
+}
+
+/** Topics a game's events are published to: the game, its league and its venue. */
+export function getLiveGameTopics(game: LiveGame): string[] {
+  return [
+    liveTopic("game", game.gameId),
+    liveTopic("league", game.leagueId),
+    ...(game.facilityId ? [liveTopic("facility", game.facilityId)] : []),
+  ];
+}
+
+function getLiveUrl(): string {
+  const url = new URL(
+    `${import.meta.env.VITE_API_URL || "/api"}/live`,
+    window.location.href,
+  );
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  if (kioskToken) url.searchParams.set("kiosk", kioskToken);
+  return url.toString();
+}
+
+/**
+ * Authenticate the connection with a kiosk token instead of the session cookie. Kiosk displays
+ * have no login and may only follow their own facility. Call before following topics.
+ */
+export function setLiveKioskToken(token: string | null): void {
+  kioskToken = token;
+}
+
+function sendTopics(type: "SUBSCRIBE" | "UNSUBSCRIBE", topics: string[]) {
+  if (socket?.readyState !== WebSocket.OPEN || topics.length === 0) return;
+  socket.send(JSON.stringify({ type, meta: {}, payload: { topics } }));
+}
+
+function notifyAll(game: LiveGame | null, topics: string[]) {
+  // A game is published once per topic, so a listener may hear it more than once.
+  const listeners = new Set(
+    topics.flatMap((topic) => [...(followers.get(topic) ?? [])]),
+  );
+  for (const listener of listeners) listener(game);
+}
+
+function startPolling() {
+  if (pollTimer !== undefined) return;
+  pollTimer = setInterval(
+    () => notifyAll(null, [...followers.keys()]),
+    POLL_INTERVAL_MS,
+  );
+}
+
+function connect() {
+  clearTimeout(reconnectTimer);
+  const ws = new WebSocket(getLiveUrl());
+  socket = ws;
+  let opened = false;
+  ws.addEventListener("open", () => {
+    opened = true;
+    reconnectAttempts = 0;
+    failedConnects = 0;
+    sendTopics("SUBSCRIBE", [...followers.keys()]);
+  });
+  ws.addEventListener("message", (event) => {
+    const game =
+      typeof event.data === "string" ? parseLiveGameEvent(event.data) : null;
+    if (game) notifyAll(game, getLiveGameTopics(game));
+  });
+  ws.addEventListener("close", () => {
+    if (socket !== ws) return;
+    socket = null;
+    if (followers.size === 0) return;
+    if (!opened) failedConnects += 1;
+    if (failedConnects >= MAX_FAILED_CONNECTS) {
+      startPolling();
+      return;
+    }
+    const delay = Math.min(
+      1000 * 2 ** reconnectAttempts,
+      MAX_RECONNECT_DELAY_MS,
+    );
+    reconnectAttempts += 1;
+    reconnectTimer = setTimeout(connect, delay);
+  });
+}
+
+/**
+ * Call `listener` with each game published to any of `topics` (built with liveTopic), or with
+ * null on each poll when there is no live server. Returns a function that stops following them.
+ */
+export function followLiveTopics(
+  topics: string[],
+  listener: LiveGameListener,
+): () => void {
+  const added = topics.filter((topic) => !followers.has(topic));
+  for (const topic of topics) {
+    const listeners = followers.get(topic) ?? new Set();
+    listeners.add(listener);
+    followers.set(topic, listeners);
+  }
+  if (failedConnects >= MAX_FAILED_CONNECTS) startPolling();
+  else if (!socket) connect();
+  else sendTopics("SUBSCRIBE", added);
+
+  return () => {
+    const removed = topics.filter((topic) => {
+      const listeners = followers.get(topic);
+      listeners?.delete(listener);
+      if (listeners?.size !== 0) return false;
+      followers.delete(topic);
+      return true;
+    });
+    sendTopics("UNSUBSCRIBE", removed);
+    if (followers.size === 0) {
+      clearTimeout(reconnectTimer);
+      clearInterval(pollTimer);
+      pollTimer = undefined;
+      socket?.close();
+      socket = null;
+    }
+  };
+}
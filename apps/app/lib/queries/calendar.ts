@@ -0,0 +1,121 @@
+/**
+ * Calendar data for the current organization: games and facility bookings in a date range,
+ * and the current user's subscribable ICS feeds.
+ */
+
+import { trpcClient } from "@/lib/trpc";
+import type { AppRouter } from "@repo/api";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { inferRouterOutputs } from "@trpc/server";
+import { useOrganization } from "./organization";
+
+export const calendarEventsQueryKey = [
+  "organization",
+  "calendarEvents",
+] as const;
+export const calendarFeedListQueryKey = [
+  "organization",
+  "calendarFeeds",
+] as const;
+export const calendarTeamListQueryKey = [
+  "organization",
+  "calendarTeams",
+] as const;
+
+export type CalendarEvent =
+  inferRouterOutputs<AppRouter>["organization"]["listCalendarEvents"][number];
+
+export type CalendarEventFilters = {
+  from: string;
+  to: string;
+  leagueId?: string;
+  teamId?: string;
+  facilityId?: string;
+};
+
+export function useCalendarEvents(filters: CalendarEventFilters) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [
+      ...calendarEventsQueryKey,
+      organizationId ?? "",
+      filters.from,
+      filters.to,
+      filters.leagueId ?? "",
+      filters.teamId ?? "",
+      filters.facilityId ?? "",
+    ],
+    queryFn: () =>
+      trpcClient.organization.listCalendarEvents.query({
+        organizationId: organizationId!,
+        from: filters.from,
+        to: filters.to,
+        ...(filters.leagueId ? { leagueId: filters.leagueId } : {}),
+        ...(filters.teamId ? { teamId: filters.teamId } : {}),
+        ...(filters.facilityId ? { facilityId: filters.facilityId } : {}),
+      }),
+    enabled: Boolean(organizationId),
+  });
+}
+
+export type CalendarFeed =
+  inferRouterOutputs<AppRouter>["organization"]["listCalendarFeeds"][number];
+
+export type CalendarFeedScope = "team" | "league" | "facility" | "user";
+export type CalendarTeam =
+  inferRouterOutputs<AppRouter>["organization"]["listCalendarTeams"][number];
+
+/** Teams the signed-in user plays on, in every organization. Does not need an organization. */
+export function useCalendarTeams() {
+  return useQuery({
+    queryKey: calendarTeamListQueryKey,
+    queryFn: () => trpcClient.organization.listCalendarTeams.query(),
+  });
+}
+
+/** Feeds in the given organization, or the current one when omitted. */
+export function useCalendarFeeds(orgId?: string) {
+  const { data: organizations } = useOrganization();
+  const organizationId = orgId ?? organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [...calendarFeedListQueryKey, organizationId ?? ""],
+    queryFn: () =>
+      trpcClient.organization.listCalendarFeeds.query({
+        organizationId: organizationId!,
+      }),
+    enabled: Boolean(organizationId),
+  });
+}
+
+/** Returns the existing active feed for the scope/target when there is one. */
+export function useCreateCalendarFeed() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      scope: CalendarFeedScope;
+      targetId?: string;
+    }) => trpcClient.organization.createCalendarFeed.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...calendarFeedListQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+export function useRevokeCalendarFeed() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { organizationId: string; feedId: string }) =>
+      trpcClient.organization.revokeCalendarFeed.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...calendarFeedListQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
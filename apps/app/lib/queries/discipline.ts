@@ -0,0 +1,165 @@
+/**
+ * Discipline: suspension rules, cards and ejections per game, and player discipline records.
+ * Game data is keyed under the game list so result changes (which serve suspensions) refresh it;
+ * incident changes also refresh the player list, whose statuses follow suspensions.
+ */
+
+import { trpcClient } from "@/lib/trpc";
+import type { AppRouter } from "@repo/api";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { inferRouterOutputs } from "@trpc/server";
+import { gameListQueryKey } from "./game";
+import { useOrganization } from "./organization";
+import { playerListQueryKey } from "./player";
+
+export const disciplineRuleListQueryKey = [
+  "organization",
+  "disciplineRules",
+] as const;
+
+export type DisciplineIncidentType = "yellow_card" | "red_card" | "ejection";
+
+export const DISCIPLINE_INCIDENT_TYPES: {
+  value: DisciplineIncidentType;
+  label: string;
+}[] = [
+  { value: "yellow_card", label: "Yellow card" },
+  { value: "red_card", label: "Red card" },
+  { value: "ejection", label: "Ejection" },
+];
+
+export function getDisciplineIncidentLabel(type: DisciplineIncidentType) {
+  return DISCIPLINE_INCIDENT_TYPES.find((t) => t.value === type)?.label ?? type;
+}
+
+export type DisciplineRule =
+  inferRouterOutputs<AppRouter>["organization"]["listDisciplineRules"][number];
+export type GameDiscipline =
+  inferRouterOutputs<AppRouter>["organization"]["getGameDiscipline"];
+export type PlayerDisciplineHistory =
+  inferRouterOutputs<AppRouter>["organization"]["getPlayerDisciplineHistory"];
+
+export function useDisciplineRules() {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [...disciplineRuleListQueryKey, organizationId ?? ""],
+    queryFn: () =>
+      trpcClient.organization.listDisciplineRules.query({
+        organizationId: organizationId!,
+      }),
+    enabled: Boolean(organizationId),
+  });
+}
+
+export function useGameDiscipline(gameId: string | undefined) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [
+      ...gameListQueryKey,
+      organizationId ?? "",
+      "discipline",
+      gameId ?? "",
+    ],
+    queryFn: () =>
+      trpcClient.organization.getGameDiscipline.query({
+        organizationId: organizationId!,
+        gameId: gameId!,
+      }),
+    enabled: Boolean(organizationId && gameId),
+  });
+}
+
+export function usePlayerDisciplineHistory(userId: string | undefined) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [
+      ...gameListQueryKey,
+      organizationId ?? "",
+      "playerDiscipline",
+      userId ?? "",
+    ],
+    queryFn: () =>
+      trpcClient.organization.getPlayerDisciplineHistory.query({
+        organizationId: organizationId!,
+        userId: userId!,
+      }),
+    enabled: Boolean(organizationId && userId),
+  });
+}
+
+/** Suspensions change player statuses, so discipline changes refresh games and players. */
+function invalidateAfterDisciplineChange(
+  queryClient: ReturnType<typeof useQueryClient>,
+  organizationId: string,
+) {
+  queryClient.invalidateQueries({
+    queryKey: [...gameListQueryKey, organizationId],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [...playerListQueryKey, organizationId],
+  });
+}
+
+export function useCreateDisciplineRule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      incidentType: DisciplineIncidentType;
+      threshold: number;
+      suspensionGames: number;
+    }) => trpcClient.organization.createDisciplineRule.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...disciplineRuleListQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+export function useDeleteDisciplineRule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { organizationId: string; ruleId: string }) =>
+      trpcClient.organization.deleteDisciplineRule.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...disciplineRuleListQueryKey, variables.organizationId],
+      });
+      invalidateAfterDisciplineChange(queryClient, variables.organizationId);
+    },
+  });
+}
+
+export function useRecordDisciplineIncident() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      gameId: string;
+      leagueTeamId: string;
+      userId: string;
+      type: DisciplineIncidentType;
+      minute?: number | null;
+      note?: string | null;
+    }) => trpcClient.organization.recordDisciplineIncident.mutate(input),
+    onSuccess: (_, variables) =>
+      invalidateAfterDisciplineChange(queryClient, variables.organizationId),
+  });
+}
+
+export function useDeleteDisciplineIncident() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { organizationId: string; incidentId: string }) =>
+      trpcClient.organization.deleteDisciplineIncident.mutate(input),
+    onSuccess: (_, variables) =>
+      invalidateAfterDisciplineChange(queryClient, variables.organizationId),
+  });
+}
@@ -0,0 +1,109 @@
+/**
+ * Divisions of a league and the division of each team in the current season. Divisions come
+ * with the league (useLeagueById); changes refresh it and the standings, which are split by
+ * division.
+ */
+
+import { trpcClient } from "@/lib/trpc";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { gameListQueryKey } from "./game";
+import type { LeagueById } from "./league";
+
+export type Division = LeagueById["divisions"][number];
+
+export function useCreateDivision() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      leagueId: string;
+      name: string;
+      promotionCount: number;
+      relegationCount: number;
+    }) => trpcClient.organization.createDivision.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ["organization", "leagueById"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...gameListQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+export function useUpdateDivision() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      divisionId: string;
+      name: string;
+      promotionCount: number;
+      relegationCount: number;
+    }) => trpcClient.organization.updateDivision.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ["organization", "leagueById"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...gameListQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+export function useMoveDivision() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      divisionId: string;
+      direction: "up" | "down";
+    }) => trpcClient.organization.moveDivision.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ["organization", "leagueById"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...gameListQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+export function useDeleteDivision() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { organizationId: string; divisionId: string }) =>
+      trpcClient.organization.deleteDivision.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ["organization", "leagueById"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...gameListQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+export function useSetLeagueTeamDivision() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      leagueId: string;
+      teamId: string;
+      divisionId: string | null;
+    }) => trpcClient.organization.setLeagueTeamDivision.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ["organization", "leagueById"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...gameListQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
@@ -7,9 +7,22 @@ import { trpcClient } from "@/lib/trpc";
 import type { AppRouter } from "@repo/api";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import type { inferRouterOutputs } from "@trpc/server";
+import { calendarEventsQueryKey } from "./calendar";
 import { useOrganization } from "./organization";
 
 export const facilityListQueryKey = ["organization", "facilities"] as const;
+export const facilityBookingListQueryKey = [
+  "organization",
+  "facilityBookings",
+] as const;
+export const facilityConflictsQueryKey = [
+  "organization",
+  "facilityConflicts",
+] as const;
+export const facilityKioskListQueryKey = [
+  "organization",
+  "facilityKiosks",
+] as const;
 
 export type Facility =
   inferRouterOutputs<AppRouter>["organization"]["listFacilities"][number];
@@ -17,6 +30,9 @@ export type Facility =
 export type FacilityWithSurfaces =
   inferRouterOutputs<AppRouter>["organization"]["getFacility"];
 
+export type FacilityKiosk =
+  inferRouterOutputs<AppRouter>["organization"]["listFacilityKiosks"][number];
+
 export function useFacilities(search?: string) {
   const { data: organizations } = useOrganization();
   const organizationId = organizations?.[0]?.id;
@@ -59,6 +75,8 @@ export function useCreateFacility() {
       address?: string;
       slug?: string;
       operatingSchedule?: import("@repo/db/schema/facility").FacilityOperatingSchedule;
+      scheduleExceptions?: import("@repo/db/schema/facility").ScheduleException[] | null;
+      timeZone?: string;
     }) => trpcClient.organization.createFacility.mutate(input),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({
@@ -77,8 +95,16 @@ export function useUpdateFacility() {
       name?: string;
       address?: string;
       operatingSchedule?: import("@repo/db/schema/facility").FacilityOperatingSchedule;
+      scheduleExceptions?: import("@repo/db/schema/facility").ScheduleException[] | null;
+      timeZone?: string;
     }) => trpcClient.organization.updateFacility.mutate(input),
     onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...facilityConflictsQueryKey, variables.organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...calendarEventsQueryKey, variables.organizationId],
+      });
       queryClient.invalidateQueries({
         queryKey: [...facilityListQueryKey, variables.organizationId],
       });
@@ -155,3 +181,137 @@ export function useRemoveFacilitySurface() {
     },
   });
 }
+
+export type FacilityBooking =
+  inferRouterOutputs<AppRouter>["organization"]["listFacilityBookings"][number];
+
+export function useFacilityBookings(facilityId: string | undefined) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [
+      ...facilityBookingListQueryKey,
+      organizationId ?? "",
+      facilityId ?? "",
+    ],
+    queryFn: () =>
+      trpcClient.organization.listFacilityBookings.query({
+        organizationId: organizationId!,
+        facilityId: facilityId!,
+      }),
+    enabled: Boolean(organizationId && facilityId),
+  });
+}
+
+/** Upcoming double-bookings and out-of-hours events at a facility. */
+export function useFacilityConflicts(facilityId: string | undefined) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [
+      ...facilityConflictsQueryKey,
+      organizationId ?? "",
+      facilityId ?? "",
+    ],
+    queryFn: () =>
+      trpcClient.organization.checkFacilityConflicts.query({
+        organizationId: organizationId!,
+        facilityId: facilityId!,
+      }),
+    enabled: Boolean(organizationId && facilityId),
+  });
+}
+
+export function useCreateFacilityBooking() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      facilitySurfaceId: string;
+      title: string;
+      startsAt: string;
+      endsAt: string;
+      notes?: string;
+    }) => trpcClient.organization.createFacilityBooking.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...facilityBookingListQueryKey, variables.organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...facilityConflictsQueryKey, variables.organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...calendarEventsQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+export function useDeleteFacilityBooking() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { organizationId: string; bookingId: string }) =>
+      trpcClient.organization.deleteFacilityBooking.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...facilityBookingListQueryKey, variables.organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...facilityConflictsQueryKey, variables.organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...calendarEventsQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+export function useFacilityKiosks(facilityId: string | undefined) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [
+      ...facilityKioskListQueryKey,
+      organizationId ?? "",
+      facilityId ?? "",
+    ],
+    queryFn: () =>
+      trpcClient.organization.listFacilityKiosks.query({
+        organizationId: organizationId!,
+        facilityId: facilityId!,
+      }),
+    enabled: Boolean(organizationId && facilityId),
+  });
+}
+
+export function useCreateFacilityKiosk() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      facilityId: string;
+      name: string;
+    }) => trpcClient.organization.createFacilityKiosk.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...facilityKioskListQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+export function useRevokeFacilityKiosk() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { organizationId: string; kioskId: string }) =>
+      trpcClient.organization.revokeFacilityKiosk.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...facilityKioskListQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
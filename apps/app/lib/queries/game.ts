@@ -0,0 +1,408 @@
+/**
+ * Game (fixture) queries and mutations for a league in the current organization.
+ */
+
+import { trpcClient } from "@/lib/trpc";
+import type { AppRouter } from "@repo/api";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { inferRouterOutputs } from "@trpc/server";
+import type { GameStatusValue } from "@/lib/game-status";
+import { facilityConflictsQueryKey } from "./facility";
+import { calendarEventsQueryKey } from "./calendar";
+import { useOrganization } from "./organization";
+import { playerListQueryKey } from "./player";
+
+export const gameListQueryKey = ["organization", "games"] as const;
+export const surfaceListQueryKey = ["organization", "surfaces"] as const;
+export const gameChangesQueryKey = ["organization", "gameChanges"] as const;
+
+export type Game =
+  inferRouterOutputs<AppRouter>["organization"]["listGames"][number];
+export type Surface =
+  inferRouterOutputs<AppRouter>["organization"]["listSurfaces"][number];
+export type GameChange =
+  inferRouterOutputs<AppRouter>["organization"]["listGameChanges"][number];
+export type LeagueScheduleFairness =
+  inferRouterOutputs<AppRouter>["organization"]["getLeagueScheduleFairness"];
+export type LeagueStandings =
+  inferRouterOutputs<AppRouter>["organization"]["getLeagueStandings"];
+
+export function useGames(
+  leagueId: string | undefined,
+  options?: {
+    from?: string;
+    to?: string;
+    status?: GameStatusValue;
+    seasonId?: string;
+  },
+) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [
+      ...gameListQueryKey,
+      organizationId ?? "",
+      leagueId ?? "",
+      options?.from ?? "",
+      options?.to ?? "",
+      options?.status ?? "",
+      options?.seasonId ?? "",
+    ],
+    queryFn: () =>
+      trpcClient.organization.listGames.query({
+        organizationId: organizationId!,
+        leagueId: leagueId!,
+        ...(options?.from ? { from: options.from } : {}),
+        ...(options?.to ? { to: options.to } : {}),
+        ...(options?.status ? { status: options.status } : {}),
+        ...(options?.seasonId ? { seasonId: options.seasonId } : {}),
+      }),
+    enabled: Boolean(organizationId && leagueId),
+  });
+}
+
+/** Fairness report for a league's schedule. Keyed under the game list so every game mutation refreshes it. */
+export function useLeagueScheduleFairness(
+  leagueId: string | undefined,
+  seasonId?: string,
+) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [
+      ...gameListQueryKey,
+      organizationId ?? "",
+      leagueId ?? "",
+      "fairness",
+      seasonId ?? "",
+    ],
+    queryFn: () =>
+      trpcClient.organization.getLeagueScheduleFairness.query({
+        organizationId: organizationId!,
+        leagueId: leagueId!,
+        ...(seasonId ? { seasonId } : {}),
+      }),
+    enabled: Boolean(organizationId && leagueId),
+  });
+}
+
+/** Standings for a league. Keyed under the game list so recorded results refresh it. */
+export function useLeagueStandings(
+  leagueId: string | undefined,
+  seasonId?: string,
+) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [
+      ...gameListQueryKey,
+      organizationId ?? "",
+      leagueId ?? "",
+      "standings",
+      seasonId ?? "",
+    ],
+    queryFn: () =>
+      trpcClient.organization.getLeagueStandings.query({
+        organizationId: organizationId!,
+        leagueId: leagueId!,
+        ...(seasonId ? { seasonId } : {}),
+      }),
+    enabled: Boolean(organizationId && leagueId),
+  });
+}
+
+/** All surfaces across the org's facilities (for venue pickers). */
+export function useSurfaces() {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [...surfaceListQueryKey, organizationId ?? ""],
+    queryFn: () =>
+      trpcClient.organization.listSurfaces.query({
+        organizationId: organizationId!,
+      }),
+    enabled: Boolean(organizationId),
+  });
+}
+
+export function useCreateGame() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      leagueId: string;
+      homeLeagueTeamId: string;
+      awayLeagueTeamId: string;
+      facilitySurfaceId?: string;
+      startsAt: string;
+      endsAt: string;
+      notes?: string;
+    }) => trpcClient.organization.createGame.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...gameListQueryKey, variables.organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...facilityConflictsQueryKey, variables.organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...calendarEventsQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+export function useUpdateGame() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      gameId: string;
+      homeLeagueTeamId?: string;
+      awayLeagueTeamId?: string;
+      facilitySurfaceId?: string | null;
+      startsAt?: string;
+      endsAt?: string;
+      status?: GameStatusValue;
+      notes?: string | null;
+    }) => trpcClient.organization.updateGame.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...gameListQueryKey, variables.organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...gameChangesQueryKey, variables.organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...facilityConflictsQueryKey, variables.organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...calendarEventsQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+export function useDeleteGame() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { organizationId: string; gameId: string }) =>
+      trpcClient.organization.deleteGame.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...gameListQueryKey, variables.organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...facilityConflictsQueryKey, variables.organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...calendarEventsQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+/** A game's change history, newest first. */
+export function useGameChanges(gameId: string | undefined) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [...gameChangesQueryKey, organizationId ?? "", gameId ?? ""],
+    queryFn: () =>
+      trpcClient.organization.listGameChanges.query({
+        organizationId: organizationId!,
+        gameId: gameId!,
+      }),
+    enabled: Boolean(organizationId && gameId),
+  });
+}
+
+/** Shared invalidation after a game status change (postpone, reschedule, cancel, forfeit, result). */
+function invalidateAfterStatusChange(
+  queryClient: ReturnType<typeof useQueryClient>,
+  organizationId: string,
+) {
+  queryClient.invalidateQueries({
+    queryKey: [...gameListQueryKey, organizationId],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [...gameChangesQueryKey, organizationId],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [...facilityConflictsQueryKey, organizationId],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [...calendarEventsQueryKey, organizationId],
+  });
+  // Decided games serve suspensions, which changes player statuses.
+  queryClient.invalidateQueries({
+    queryKey: [...playerListQueryKey, organizationId],
+  });
+}
+
+export function usePostponeGame() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      gameId: string;
+      reason: string;
+      notifyTeams?: boolean;
+    }) => trpcClient.organization.postponeGame.mutate(input),
+    onSuccess: (_, variables) =>
+      invalidateAfterStatusChange(queryClient, variables.organizationId),
+  });
+}
+
+export function useRescheduleGame() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      gameId: string;
+      facilitySurfaceId?: string | null;
+      startsAt: string;
+      endsAt: string;
+      reason?: string;
+      notifyTeams?: boolean;
+    }) => trpcClient.organization.rescheduleGame.mutate(input),
+    onSuccess: (_, variables) =>
+      invalidateAfterStatusChange(queryClient, variables.organizationId),
+  });
+}
+
+export function useCancelGame() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      gameId: string;
+      reason: string;
+      notifyTeams?: boolean;
+    }) => trpcClient.organization.cancelGame.mutate(input),
+    onSuccess: (_, variables) =>
+      invalidateAfterStatusChange(queryClient, variables.organizationId),
+  });
+}
+
+export function useForfeitGame() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      gameId: string;
+      forfeitedByLeagueTeamId: string;
+      reason?: string;
+      notifyTeams?: boolean;
+    }) => trpcClient.organization.forfeitGame.mutate(input),
+    onSuccess: (_, variables) =>
+      invalidateAfterStatusChange(queryClient, variables.organizationId),
+  });
+}
+
+export type GamePeriodScoreInput = { home: number; away: number };
+
+/** Live score, or the final/abandoned result, of a game that has not finished yet. */
+export function useRecordGameResult() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      gameId: string;
+      status: "in_progress" | "final" | "abandoned";
+      homeScore: number;
+      awayScore: number;
+      periodScores?: GamePeriodScoreInput[];
+    }) => trpcClient.organization.recordGameResult.mutate(input),
+    onSuccess: (_, variables) =>
+      invalidateAfterStatusChange(queryClient, variables.organizationId),
+  });
+}
+
+export function useCorrectGameResult() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      gameId: string;
+      status?: "final" | "abandoned";
+      homeScore: number;
+      awayScore: number;
+      periodScores?: GamePeriodScoreInput[];
+      reason: string;
+    }) => trpcClient.organization.correctGameResult.mutate(input),
+    onSuccess: (_, variables) =>
+      invalidateAfterStatusChange(queryClient, variables.organizationId),
+  });
+}
+
+export const leagueSchedulePreviewQueryKey = [
+  "organization",
+  "leagueSchedulePreview",
+] as const;
+
+export type LeagueSchedulePreviewInput = {
+  leagueId: string;
+  format: "single" | "double";
+  facilitySurfaceIds: string[];
+  gameDurationMinutes: number;
+  startDate?: string;
+  endDate?: string;
+};
+
+export type LeagueSchedulePreview =
+  inferRouterOutputs<AppRouter>["organization"]["generateLeagueSchedule"];
+
+/** Round-robin schedule preview. Pass null until the admin asks for a preview. */
+export function useLeagueSchedulePreview(
+  input: LeagueSchedulePreviewInput | null,
+) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [...leagueSchedulePreviewQueryKey, organizationId ?? "", input],
+    queryFn: () =>
+      trpcClient.organization.generateLeagueSchedule.query({
+        organizationId: organizationId!,
+        ...input!,
+      }),
+    enabled: Boolean(organizationId && input),
+    retry: false,
+  });
+}
+
+export function useCommitLeagueSchedule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      leagueId: string;
+      replaceScheduled?: boolean;
+      games: {
+        homeLeagueTeamId: string;
+        awayLeagueTeamId: string;
+        facilitySurfaceId: string;
+        date: string;
+        startTime: string;
+        endTime: string;
+      }[];
+    }) => trpcClient.organization.commitLeagueSchedule.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...gameListQueryKey, variables.organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...facilityConflictsQueryKey, variables.organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...calendarEventsQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
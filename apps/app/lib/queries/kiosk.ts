@@ -0,0 +1,31 @@
+/**
+ * Facility kiosk board, fetched without a session using the kiosk's signed token.
+ */
+
+import type { KioskBoard } from "@/lib/kiosk-board";
+import { useQuery } from "@tanstack/react-query";
+
+export const kioskBoardQueryKey = ["kiosk", "board"] as const;
+
+/**
+ * The day's board for a kiosk token; null when the link is invalid or has been revoked.
+ * Scores of league games are pushed live; schedule changes and tournament scores are picked
+ * up by refetching every minute.
+ */
+export function useKioskBoard(token: string) {
+  return useQuery({
+    queryKey: [...kioskBoardQueryKey, token],
+    queryFn: async (): Promise<KioskBoard | null> => {
+      const response = await fetch(
+        `${import.meta.env.VITE_API_URL || "/api"}/kiosk/${encodeURIComponent(token)}`,
+      );
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Failed to load the board (${response.status})`);
+      }
+      return response.json();
+    },
+    refetchInterval: 60_000,
+    refetchIntervalInBackground: true,
+  });
+}
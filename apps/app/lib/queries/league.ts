@@ -2,11 +2,19 @@
  * League queries for the current organization.
  */
 
+import type { LeagueSportValue } from "@/lib/league-sport";
 import { trpcClient } from "@/lib/trpc";
 import type { AppRouter } from "@repo/api";
+import type {
+  FacilityOperatingSchedule,
+  ScheduleException,
+} from "@repo/db/schema/facility";
+import type { StandingsTiebreaker } from "@repo/db/schema/league";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import type { inferRouterOutputs } from "@trpc/server";
+import type { inferRouterInputs, inferRouterOutputs } from "@trpc/server";
+import { gameListQueryKey } from "./game";
 import { useOrganization } from "./organization";
+import { seasonListQueryKey } from "./season";
 
 export const leagueListQueryKey = ["organization", "leagues"] as const;
 export const leagueStatsQueryKey = ["organization", "leagueStats"] as const;
@@ -48,16 +56,24 @@ export function useLeagues(search?: string) {
   });
 }
 
-export function useLeagueById(leagueId: string | undefined) {
+/** A league with the teams of one season; the current season when `seasonId` is omitted. */
+export function useLeagueById(leagueId: string | undefined, seasonId?: string) {
   const { data: organizations } = useOrganization();
   const organizationId = organizations?.[0]?.id;
 
   return useQuery({
-    queryKey: ["organization", "leagueById", leagueId ?? "", organizationId ?? ""],
+    queryKey: [
+      "organization",
+      "leagueById",
+      leagueId ?? "",
+      organizationId ?? "",
+      seasonId ?? "",
+    ],
     queryFn: () =>
       trpcClient.organization.getLeagueById.query({
         leagueId: leagueId!,
         organizationId: organizationId!,
+        ...(seasonId ? { seasonId } : {}),
       }),
     enabled: Boolean(leagueId && organizationId),
   });
@@ -93,9 +109,12 @@ export function useCreateLeague() {
       name: string;
       image?: string;
       ageGroup?: string;
-      operatingSchedule?: import("@repo/db/schema/facility").FacilityOperatingSchedule;
+      sport?: LeagueSportValue;
+      operatingSchedule?: FacilityOperatingSchedule;
+      scheduleExceptions?: ScheduleException[] | null;
       startDate?: string;
       endDate?: string;
+      seasonName?: string;
     }) => trpcClient.organization.createLeague.mutate(input),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({
@@ -108,6 +127,112 @@ export function useCreateLeague() {
   });
 }
 
+export function useCloneLeague() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      leagueId: string;
+      name: string;
+      seasonName: string;
+      startDate?: string;
+      endDate?: string;
+      teamIds?: string[];
+      notifyPlayers?: boolean;
+    }) => trpcClient.organization.cloneLeague.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...leagueListQueryKey, variables.organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...leagueStatsQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+export function useUpdateLeagueSchedule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (
+      input: inferRouterInputs<AppRouter>["organization"]["updateLeagueSchedule"],
+    ) => trpcClient.organization.updateLeagueSchedule.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ["organization", "leagueById"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...leagueListQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+export function useUpdateLeagueSport() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      leagueId: string;
+      sport: LeagueSportValue;
+    }) => trpcClient.organization.updateLeagueSport.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ["organization", "leagueById"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...leagueListQueryKey, variables.organizationId],
+      });
+      // Leaderboards are keyed under the game list and depend on the sport's stats.
+      queryClient.invalidateQueries({
+        queryKey: [...gameListQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+export function useUpdateLeagueRules() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      leagueId: string;
+      periodCount: number | null;
+      periodLengthMinutes: number | null;
+      minRosterSize: number | null;
+      maxRosterSize: number | null;
+    }) => trpcClient.organization.updateLeagueRules.mutate(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["organization", "leagueById"],
+      });
+    },
+  });
+}
+
+export function useUpdateLeagueStandingsConfig() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      leagueId: string;
+      pointsForWin: number;
+      pointsForTie: number;
+      pointsForLoss: number;
+      tiebreakers: StandingsTiebreaker[];
+    }) => trpcClient.organization.updateLeagueStandingsConfig.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ["organization", "leagueById"],
+      });
+      // Standings are keyed under the game list.
+      queryClient.invalidateQueries({
+        queryKey: [...gameListQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
 export function useRemoveTeamFromLeague() {
   const queryClient = useQueryClient();
   return useMutation({
@@ -126,6 +251,9 @@ export function useRemoveTeamFromLeague() {
       queryClient.invalidateQueries({
         queryKey: ["organization", "teamsAvailableForLeague", variables.leagueId],
       });
+      queryClient.invalidateQueries({
+        queryKey: [...seasonListQueryKey, variables.organizationId],
+      });
     },
   });
 }
@@ -171,6 +299,9 @@ export function useAddTeamToLeague() {
       queryClient.invalidateQueries({
         queryKey: ["organization", "teamsAvailableForLeague", variables.leagueId],
       });
+      queryClient.invalidateQueries({
+        queryKey: [...seasonListQueryKey, variables.organizationId],
+      });
     },
   });
 }
@@ -7,7 +7,7 @@
 
 import { trpcClient } from "@/lib/trpc";
 import type { AppRouter } from "@repo/api";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import type { inferRouterOutputs } from "@trpc/server";
 import { useSessionQuery } from "./session";
 
@@ -29,3 +29,14 @@ export function useOrganization() {
     enabled: session?.user != null,
   });
 }
+
+export function useUpdateOrganizationTimeZone() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { organizationId: string; timeZone: string }) =>
+      trpcClient.organization.updateOrganizationTimeZone.mutate(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: organizationQueryKey });
+    },
+  });
+}
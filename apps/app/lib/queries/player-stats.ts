@@ -0,0 +1,103 @@
+/**
+ * Per-player game stats, league leaderboards and player stat history.
+ * Keyed under the game list so result changes (which decide what counts) refresh them.
+ */
+
+import { trpcClient } from "@/lib/trpc";
+import type { AppRouter } from "@repo/api";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { inferRouterOutputs } from "@trpc/server";
+import { gameListQueryKey } from "./game";
+import { useOrganization } from "./organization";
+
+export type GamePlayerStats =
+  inferRouterOutputs<AppRouter>["organization"]["getGamePlayerStats"];
+export type LeagueLeaderboards =
+  inferRouterOutputs<AppRouter>["organization"]["getLeagueLeaderboards"];
+export type PlayerStatHistory =
+  inferRouterOutputs<AppRouter>["organization"]["getPlayerStatHistory"];
+
+export function useGamePlayerStats(gameId: string | undefined) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [
+      ...gameListQueryKey,
+      organizationId ?? "",
+      "playerStats",
+      gameId ?? "",
+    ],
+    queryFn: () =>
+      trpcClient.organization.getGamePlayerStats.query({
+        organizationId: organizationId!,
+        gameId: gameId!,
+      }),
+    enabled: Boolean(organizationId && gameId),
+  });
+}
+
+export function useLeagueLeaderboards(
+  leagueId: string | undefined,
+  seasonId?: string,
+) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [
+      ...gameListQueryKey,
+      organizationId ?? "",
+      leagueId ?? "",
+      "leaderboards",
+      seasonId ?? "",
+    ],
+    queryFn: () =>
+      trpcClient.organization.getLeagueLeaderboards.query({
+        organizationId: organizationId!,
+        leagueId: leagueId!,
+        ...(seasonId ? { seasonId } : {}),
+      }),
+    enabled: Boolean(organizationId && leagueId),
+  });
+}
+
+export function usePlayerStatHistory(userId: string | undefined) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [
+      ...gameListQueryKey,
+      organizationId ?? "",
+      "playerStatHistory",
+      userId ?? "",
+    ],
+    queryFn: () =>
+      trpcClient.organization.getPlayerStatHistory.query({
+        organizationId: organizationId!,
+        userId: userId!,
+      }),
+    enabled: Boolean(organizationId && userId),
+  });
+}
+
+export function useSaveGamePlayerStats() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      gameId: string;
+      players: {
+        userId: string;
+        leagueTeamId: string;
+        stats: Record<string, number>;
+      }[];
+    }) => trpcClient.organization.saveGamePlayerStats.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...gameListQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
@@ -0,0 +1,76 @@
+/**
+ * League playoff bracket. Keyed under the game list so results (which advance the bracket)
+ * refresh it, and creating or deleting a bracket refreshes the games it adds or removes.
+ */
+
+import { trpcClient } from "@/lib/trpc";
+import type { AppRouter } from "@repo/api";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { inferRouterOutputs } from "@trpc/server";
+import { gameListQueryKey } from "./game";
+import { useOrganization } from "./organization";
+
+export type PlayoffBracket = NonNullable<
+  inferRouterOutputs<AppRouter>["organization"]["getPlayoffBracket"]
+>;
+export type PlayoffMatch = PlayoffBracket["matches"][number];
+
+export function usePlayoffBracket(
+  leagueId: string | undefined,
+  seasonId?: string,
+) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [
+      ...gameListQueryKey,
+      organizationId ?? "",
+      leagueId ?? "",
+      "playoffs",
+      seasonId ?? "",
+    ],
+    queryFn: () =>
+      trpcClient.organization.getPlayoffBracket.query({
+        organizationId: organizationId!,
+        leagueId: leagueId!,
+        ...(seasonId ? { seasonId } : {}),
+      }),
+    enabled: Boolean(organizationId && leagueId),
+  });
+}
+
+export function useCreatePlayoffBracket() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      leagueId: string;
+      format: PlayoffBracket["format"];
+      teamCount: number;
+      byes: boolean;
+      facilitySurfaceIds: string[];
+      gameDurationMinutes: number;
+      startDate: string;
+      endDate?: string;
+    }) => trpcClient.organization.createPlayoffBracket.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...gameListQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+export function useDeletePlayoffBracket() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { organizationId: string; leagueId: string }) =>
+      trpcClient.organization.deletePlayoffBracket.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...gameListQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
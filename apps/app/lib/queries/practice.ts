@@ -0,0 +1,203 @@
+/**
+ * Practice queries: teams' ranked weekly practice preferences, and the slots an allocation
+ * assigns from them. Published slots book their sessions on the facility surface.
+ */
+
+import { trpcClient } from "@/lib/trpc";
+import type { AppRouter } from "@repo/api";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { inferRouterOutputs } from "@trpc/server";
+import { calendarEventsQueryKey } from "./calendar";
+import {
+  facilityBookingListQueryKey,
+  facilityConflictsQueryKey,
+} from "./facility";
+import { surfaceListQueryKey } from "./game";
+import { useOrganization } from "./organization";
+
+export const practiceRequestsQueryKey = [
+  "organization",
+  "practiceRequests",
+] as const;
+export const practiceSlotsQueryKey = ["organization", "practiceSlots"] as const;
+export const managedTeamListQueryKey = [
+  "organization",
+  "managedTeams",
+] as const;
+
+export type PracticeRequest =
+  inferRouterOutputs<AppRouter>["organization"]["listPracticeRequests"][number];
+export type PracticeSlot =
+  inferRouterOutputs<AppRouter>["organization"]["listPracticeSlots"][number];
+export type PracticeAllocationResult =
+  inferRouterOutputs<AppRouter>["organization"]["allocatePracticeSlots"];
+
+export type ManagedTeam =
+  inferRouterOutputs<AppRouter>["organization"]["listManagedTeams"][number];
+
+export type PracticeRequestInput = {
+  day: PracticeRequest["day"];
+  startTime: string;
+  endTime: string;
+  facilitySurfaceId?: string | null;
+  notes?: string | null;
+};
+
+/** Teams the signed-in user is admin of, in every organization. Does not need an organization. */
+export function useManagedTeams() {
+  return useQuery({
+    queryKey: managedTeamListQueryKey,
+    queryFn: () => trpcClient.organization.listManagedTeams.query(),
+  });
+}
+
+/**
+ * A team's ranked practice preferences, first choice first. Pass the team's organization for
+ * team admins outside the current one.
+ */
+export function usePracticeRequests(
+  teamId: string | undefined,
+  orgId?: string,
+) {
+  const { data: organizations } = useOrganization();
+  const organizationId = orgId ?? organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [...practiceRequestsQueryKey, organizationId ?? "", teamId ?? ""],
+    queryFn: () =>
+      trpcClient.organization.listPracticeRequests.query({
+        organizationId: organizationId!,
+        teamId: teamId!,
+      }),
+    enabled: Boolean(organizationId && teamId),
+  });
+}
+
+export function useSavePracticeRequests() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      teamId: string;
+      requests: PracticeRequestInput[];
+    }) => trpcClient.organization.savePracticeRequests.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...practiceRequestsQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+/** The organization's practice slots with the given status (allocation page). */
+export function usePracticeSlots(status: PracticeSlot["status"]) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [...practiceSlotsQueryKey, organizationId ?? "", "", status],
+    queryFn: () =>
+      trpcClient.organization.listPracticeSlots.query({
+        organizationId: organizationId!,
+        status,
+      }),
+    enabled: Boolean(organizationId),
+  });
+}
+
+/** A team's published practice slots (team page). */
+export function useTeamPracticeSlots(
+  teamId: string | undefined,
+  orgId?: string,
+) {
+  const { data: organizations } = useOrganization();
+  const organizationId = orgId ?? organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [
+      ...practiceSlotsQueryKey,
+      organizationId ?? "",
+      teamId ?? "",
+      "published",
+    ],
+    queryFn: () =>
+      trpcClient.organization.listPracticeSlots.query({
+        organizationId: organizationId!,
+        teamId: teamId!,
+        status: "published",
+      }),
+    enabled: Boolean(organizationId && teamId),
+  });
+}
+
+/** Surfaces a team can ask to practice on; unlike useSurfaces, open to the team's admins. */
+export function usePracticeSurfaces(
+  teamId: string | undefined,
+  organizationId: string | undefined,
+) {
+  return useQuery({
+    queryKey: [...surfaceListQueryKey, organizationId ?? "", teamId ?? ""],
+    queryFn: () =>
+      trpcClient.organization.listSurfaces.query({
+        organizationId: organizationId!,
+        teamId: teamId!,
+      }),
+    enabled: Boolean(organizationId && teamId),
+  });
+}
+
+export function useAllocatePracticeSlots() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      startDate: string;
+      endDate: string;
+      practicesPerTeam?: number;
+    }) => trpcClient.organization.allocatePracticeSlots.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...practiceSlotsQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+/** Shared invalidation when practice sessions are booked or removed. */
+function invalidateAfterPracticeBookings(
+  queryClient: ReturnType<typeof useQueryClient>,
+  organizationId: string,
+) {
+  queryClient.invalidateQueries({
+    queryKey: [...practiceSlotsQueryKey, organizationId],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [...facilityBookingListQueryKey, organizationId],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [...facilityConflictsQueryKey, organizationId],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [...calendarEventsQueryKey, organizationId],
+  });
+}
+
+export function usePublishPracticeSlots() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { organizationId: string }) =>
+      trpcClient.organization.publishPracticeSlots.mutate(input),
+    onSuccess: (_, variables) =>
+      invalidateAfterPracticeBookings(queryClient, variables.organizationId),
+  });
+}
+
+export function useDeletePracticeSlot() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { organizationId: string; practiceSlotId: string }) =>
+      trpcClient.organization.deletePracticeSlot.mutate(input),
+    onSuccess: (_, variables) =>
+      invalidateAfterPracticeBookings(queryClient, variables.organizationId),
+  });
+}
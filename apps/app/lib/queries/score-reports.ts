@@ -0,0 +1,83 @@
+/**
+ * Scores reported by team admins: the games a team admin has to report or answer, and the
+ * league staff queue of reports waiting for confirmation or disputed. Staff settle reports with
+ * useCorrectGameResult, which refreshes the game list and everything keyed under it.
+ */
+
+import { trpcClient } from "@/lib/trpc";
+import type { AppRouter } from "@repo/api";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { inferRouterOutputs } from "@trpc/server";
+import { gameListQueryKey, type GamePeriodScoreInput } from "./game";
+import { useOrganization } from "./organization";
+
+export const teamAdminGamesQueryKey = [
+  "organization",
+  "teamAdminGames",
+] as const;
+
+export type TeamAdminGame =
+  inferRouterOutputs<AppRouter>["organization"]["listTeamAdminGames"][number];
+export type ScoreReport =
+  inferRouterOutputs<AppRouter>["organization"]["listScoreReports"][number];
+
+/** Games of teams the signed-in user is admin of. Does not need an organization. */
+export function useTeamAdminGames() {
+  return useQuery({
+    queryKey: teamAdminGamesQueryKey,
+    queryFn: () => trpcClient.organization.listTeamAdminGames.query(),
+  });
+}
+
+export function useScoreReports(leagueId: string | undefined) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [
+      ...gameListQueryKey,
+      organizationId ?? "",
+      "scoreReports",
+      leagueId ?? "",
+    ],
+    queryFn: () =>
+      trpcClient.organization.listScoreReports.query({
+        organizationId: organizationId!,
+        leagueId,
+      }),
+    enabled: Boolean(organizationId),
+  });
+}
+
+/** Team admins may not belong to the organization, so these refresh every organization's games. */
+function invalidateAfterScoreReport(
+  queryClient: ReturnType<typeof useQueryClient>,
+) {
+  queryClient.invalidateQueries({ queryKey: teamAdminGamesQueryKey });
+  queryClient.invalidateQueries({ queryKey: gameListQueryKey });
+}
+
+export function useReportGameScore() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      gameId: string;
+      homeScore: number;
+      awayScore: number;
+      periodScores?: GamePeriodScoreInput[];
+    }) => trpcClient.organization.reportGameScore.mutate(input),
+    onSuccess: () => invalidateAfterScoreReport(queryClient),
+  });
+}
+
+export function useRespondToGameScore() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      gameId: string;
+      response: "confirm" | "dispute";
+      reason?: string;
+    }) => trpcClient.organization.respondToGameScore.mutate(input),
+    onSuccess: () => invalidateAfterScoreReport(queryClient),
+  });
+}
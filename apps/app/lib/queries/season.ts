@@ -0,0 +1,91 @@
+/**
+ * Seasons of a league. League pages show the current season unless another one is picked;
+ * starting a season refreshes every league page, since they all move on to the new one. The
+ * rollover wizard previews the next season, then starts it (or copies the league, see league.ts).
+ */
+
+import { trpcClient } from "@/lib/trpc";
+import type { AppRouter } from "@repo/api";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { inferRouterOutputs } from "@trpc/server";
+import { gameListQueryKey } from "./game";
+import { useOrganization } from "./organization";
+
+export const seasonListQueryKey = ["organization", "seasons"] as const;
+
+export type Season =
+  inferRouterOutputs<AppRouter>["organization"]["listSeasons"][number];
+
+export function useSeasons(leagueId: string | undefined) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [...seasonListQueryKey, organizationId ?? "", leagueId ?? ""],
+    queryFn: () =>
+      trpcClient.organization.listSeasons.query({
+        organizationId: organizationId!,
+        leagueId: leagueId!,
+      }),
+    enabled: Boolean(organizationId && leagueId),
+  });
+}
+
+export type SeasonRollover =
+  inferRouterOutputs<AppRouter>["organization"]["getSeasonRollover"];
+
+export function useSeasonRollover(leagueId: string | undefined) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [
+      "organization",
+      "seasonRollover",
+      organizationId ?? "",
+      leagueId ?? "",
+    ],
+    queryFn: () =>
+      trpcClient.organization.getSeasonRollover.query({
+        organizationId: organizationId!,
+        leagueId: leagueId!,
+      }),
+    enabled: Boolean(organizationId && leagueId),
+  });
+}
+
+export function useStartSeason() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      leagueId: string;
+      name: string;
+      startDate?: string;
+      endDate?: string;
+      teamIds?: string[];
+      notifyPlayers?: boolean;
+    }) => trpcClient.organization.startSeason.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...seasonListQueryKey, variables.organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["organization", "leagueById", variables.leagueId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [
+          "organization",
+          "teamsAvailableForLeague",
+          variables.leagueId,
+        ],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [...gameListQueryKey, variables.organizationId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["organization", "seasonRollover"],
+      });
+    },
+  });
+}
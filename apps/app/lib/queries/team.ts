@@ -198,3 +198,20 @@ export function useRemovePlayerFromTeam() {
     },
   });
 }
+
+export function useSetTeamMemberJerseyNumber() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      teamId: string;
+      userId: string;
+      jerseyNumber: string | null;
+    }) => trpcClient.organization.setTeamMemberJerseyNumber.mutate(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: teamBySlugQueryKey,
+      });
+    },
+  });
+}
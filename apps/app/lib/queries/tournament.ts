@@ -0,0 +1,126 @@
+/**
+ * Weekend tournaments: pools, pool standings and the knockout stage. Creating or deleting a
+ * tournament books or frees facility slots, so those refresh the calendar and conflict views.
+ */
+
+import { trpcClient } from "@/lib/trpc";
+import type { AppRouter } from "@repo/api";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { inferRouterOutputs } from "@trpc/server";
+import { calendarEventsQueryKey } from "./calendar";
+import {
+  facilityBookingListQueryKey,
+  facilityConflictsQueryKey,
+} from "./facility";
+import { useOrganization } from "./organization";
+
+export const tournamentListQueryKey = ["organization", "tournaments"] as const;
+
+export type TournamentSummary =
+  inferRouterOutputs<AppRouter>["organization"]["listTournaments"][number];
+export type Tournament =
+  inferRouterOutputs<AppRouter>["organization"]["getTournament"];
+export type TournamentGame = Tournament["games"][number];
+export type TournamentPool = Tournament["pools"][number];
+
+export function useTournaments() {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [...tournamentListQueryKey, organizationId ?? ""],
+    queryFn: () =>
+      trpcClient.organization.listTournaments.query({
+        organizationId: organizationId!,
+      }),
+    enabled: Boolean(organizationId),
+  });
+}
+
+export function useTournament(tournamentId: string | undefined) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+
+  return useQuery({
+    queryKey: [
+      ...tournamentListQueryKey,
+      organizationId ?? "",
+      tournamentId ?? "",
+    ],
+    queryFn: () =>
+      trpcClient.organization.getTournament.query({
+        organizationId: organizationId!,
+        tournamentId: tournamentId!,
+      }),
+    enabled: Boolean(organizationId && tournamentId),
+  });
+}
+
+/** Shared invalidation after a tournament and its facility bookings are created or deleted. */
+function invalidateAfterBookingChange(
+  queryClient: ReturnType<typeof useQueryClient>,
+  organizationId: string,
+) {
+  queryClient.invalidateQueries({
+    queryKey: [...tournamentListQueryKey, organizationId],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [...facilityBookingListQueryKey, organizationId],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [...facilityConflictsQueryKey, organizationId],
+  });
+  queryClient.invalidateQueries({
+    queryKey: [...calendarEventsQueryKey, organizationId],
+  });
+}
+
+export function useCreateTournament() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      name: string;
+      startDate: string;
+      endDate: string;
+      dayStartTime: string;
+      dayEndTime: string;
+      gameDurationMinutes: number;
+      minRestMinutes: number;
+      poolCount: number;
+      advancePerPool: number;
+      teamIds: string[];
+      facilitySurfaceIds: string[];
+    }) => trpcClient.organization.createTournament.mutate(input),
+    onSuccess: (_, variables) =>
+      invalidateAfterBookingChange(queryClient, variables.organizationId),
+  });
+}
+
+export function useRecordTournamentGameResult() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      organizationId: string;
+      gameId: string;
+      status: "in_progress" | "final";
+      homeScore: number;
+      awayScore: number;
+    }) => trpcClient.organization.recordTournamentGameResult.mutate(input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [...tournamentListQueryKey, variables.organizationId],
+      });
+    },
+  });
+}
+
+export function useDeleteTournament() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: { organizationId: string; tournamentId: string }) =>
+      trpcClient.organization.deleteTournament.mutate(input),
+    onSuccess: (_, variables) =>
+      invalidateAfterBookingChange(queryClient, variables.organizationId),
+  });
+}
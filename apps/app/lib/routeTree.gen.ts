@@ -11,23 +11,31 @@
 import { Route as rootRouteImport } from './../routes/__root'
 import { Route as appRouteRouteImport } from './../routes/(app)/route'
 import { Route as appIndexRouteImport } from './../routes/(app)/index'
+import { Route as KioskTokenRouteImport } from './../routes/kiosk.$token'
 import { Route as authSignupRouteImport } from './../routes/(auth)/signup'
 import { Route as authLoginRouteImport } from './../routes/(auth)/login'
+import { Route as appTournamentsRouteImport } from './../routes/(app)/tournaments'
 import { Route as appTeamsRouteImport } from './../routes/(app)/teams'
 import { Route as appStaffRouteImport } from './../routes/(app)/staff'
 import { Route as appSettingsRouteImport } from './../routes/(app)/settings'
 import { Route as appReportsRouteImport } from './../routes/(app)/reports'
 import { Route as appPlayersRouteImport } from './../routes/(app)/players'
+import { Route as appMyGamesRouteImport } from './../routes/(app)/my-games'
 import { Route as appLeaguesRouteImport } from './../routes/(app)/leagues'
 import { Route as appFacilitiesRouteImport } from './../routes/(app)/facilities'
 import { Route as appDashboardRouteImport } from './../routes/(app)/dashboard'
+import { Route as appCalendarRouteImport } from './../routes/(app)/calendar'
 import { Route as appAnalyticsRouteImport } from './../routes/(app)/analytics'
 import { Route as appAcceptInvitationRouteImport } from './../routes/(app)/accept-invitation'
 import { Route as appAboutRouteImport } from './../routes/(app)/about'
+import { Route as appTournamentsIndexRouteImport } from './../routes/(app)/tournaments.index'
 import { Route as appTeamsIndexRouteImport } from './../routes/(app)/teams.index'
 import { Route as appStaffIndexRouteImport } from './../routes/(app)/staff.index'
 import { Route as appLeaguesIndexRouteImport } from './../routes/(app)/leagues.index'
 import { Route as appFacilitiesIndexRouteImport } from './../routes/(app)/facilities.index'
+import { Route as appTournamentsCreateRouteImport } from './../routes/(app)/tournaments.create'
+import { Route as appTournamentsTournamentIdRouteImport } from './../routes/(app)/tournaments.$tournamentId'
+import { Route as appTeamsPracticeRouteImport } from './../routes/(app)/teams.practice'
 import { Route as appTeamsCreateRouteImport } from './../routes/(app)/teams.create'
 import { Route as appTeamsTeamSlugRouteImport } from './../routes/(app)/teams.$teamSlug'
 import { Route as appStaffCreateRouteImport } from './../routes/(app)/staff.create'
@@ -38,8 +46,17 @@ import { Route as appFacilitiesFacilityIdRouteImport } from './../routes/(app)/f
 import { Route as appTeamsTeamSlugIndexRouteImport } from './../routes/(app)/teams.$teamSlug.index'
 import { Route as appLeaguesLeagueIdIndexRouteImport } from './../routes/(app)/leagues.$leagueId.index'
 import { Route as appFacilitiesFacilityIdIndexRouteImport } from './../routes/(app)/facilities.$facilityId.index'
+import { Route as appTeamsTeamSlugPracticeRouteImport } from './../routes/(app)/teams.$teamSlug.practice'
 import { Route as appTeamsTeamSlugPlayersRouteImport } from './../routes/(app)/teams.$teamSlug.players'
 import { Route as appLeaguesLeagueIdTeamsRouteImport } from './../routes/(app)/leagues.$leagueId.teams'
+import { Route as appLeaguesLeagueIdStandingsRouteImport } from './../routes/(app)/leagues.$leagueId.standings'
+import { Route as appLeaguesLeagueIdScoresRouteImport } from './../routes/(app)/leagues.$leagueId.scores'
+import { Route as appLeaguesLeagueIdScheduleRouteImport } from './../routes/(app)/leagues.$leagueId.schedule'
+import { Route as appLeaguesLeagueIdRolloverRouteImport } from './../routes/(app)/leagues.$leagueId.rollover'
+import { Route as appLeaguesLeagueIdPlayoffsRouteImport } from './../routes/(app)/leagues.$leagueId.playoffs'
+import { Route as appLeaguesLeagueIdLeadersRouteImport } from './../routes/(app)/leagues.$leagueId.leaders'
+import { Route as appLeaguesLeagueIdGamesRouteImport } from './../routes/(app)/leagues.$leagueId.games'
+import { Route as appLeaguesLeagueIdDisputesRouteImport } from './../routes/(app)/leagues.$leagueId.disputes'
 
 const appRouteRoute = appRouteRouteImport.update({
   id: '/(app)',
@@ -50,6 +67,11 @@ const appIndexRoute = appIndexRouteImport.update({
   path: '/',
   getParentRoute: () => appRouteRoute,
 } as any)
+const KioskTokenRoute = KioskTokenRouteImport.update({
+  id: '/kiosk/$token',
+  path: '/kiosk/$token',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const authSignupRoute = authSignupRouteImport.update({
   id: '/(auth)/signup',
   path: '/signup',
@@ -60,6 +82,11 @@ const authLoginRoute = authLoginRouteImport.update({
   path: '/login',
   getParentRoute: () => rootRouteImport,
 } as any)
+const appTournamentsRoute = appTournamentsRouteImport.update({
+  id: '/tournaments',
+  path: '/tournaments',
+  getParentRoute: () => appRouteRoute,
+} as any)
 const appTeamsRoute = appTeamsRouteImport.update({
   id: '/teams',
   path: '/teams',
@@ -85,6 +112,11 @@ const appPlayersRoute = appPlayersRouteImport.update({
   path: '/players',
   getParentRoute: () => appRouteRoute,
 } as any)
+const appMyGamesRoute = appMyGamesRouteImport.update({
+  id: '/my-games',
+  path: '/my-games',
+  getParentRoute: () => appRouteRoute,
+} as any)
 const appLeaguesRoute = appLeaguesRouteImport.update({
   id: '/leagues',
   path: '/leagues',
@@ -100,6 +132,11 @@ const appDashboardRoute = appDashboardRouteImport.update({
   path: '/dashboard',
   getParentRoute: () => appRouteRoute,
 } as any)
+const appCalendarRoute = appCalendarRouteImport.update({
+  id: '/calendar',
+  path: '/calendar',
+  getParentRoute: () => appRouteRoute,
+} as any)
 const appAnalyticsRoute = appAnalyticsRouteImport.update({
   id: '/analytics',
   path: '/analytics',
@@ -115,6 +152,11 @@ const appAboutRoute = appAboutRouteImport.update({
   path: '/about',
   getParentRoute: () => appRouteRoute,
 } as any)
+const appTournamentsIndexRoute = appTournamentsIndexRouteImport.update({
+  id: '/',
+  path: '/',
+  getParentRoute: () => appTournamentsRoute,
+} as any)
 const appTeamsIndexRoute = appTeamsIndexRouteImport.update({
   id: '/',
   path: '/',
@@ -135,6 +177,22 @@ const appFacilitiesIndexRoute = appFacilitiesIndexRouteImport.update({
   path: '/',
   getParentRoute: () => appFacilitiesRoute,
 } as any)
+const appTournamentsCreateRoute = appTournamentsCreateRouteImport.update({
+  id: '/create',
+  path: '/create',
+  getParentRoute: () => appTournamentsRoute,
+} as any)
+const appTournamentsTournamentIdRoute =
+  appTournamentsTournamentIdRouteImport.update({
+    id: '/$tournamentId',
+    path: '/$tournamentId',
+    getParentRoute: () => appTournamentsRoute,
+  } as any)
+const appTeamsPracticeRoute = appTeamsPracticeRouteImport.update({
+  id: '/practice',
+  path: '/practice',
+  getParentRoute: () => appTeamsRoute,
+} as any)
 const appTeamsCreateRoute = appTeamsCreateRouteImport.update({
   id: '/create',
   path: '/create',
@@ -186,6 +244,12 @@ const appFacilitiesFacilityIdIndexRoute =
     path: '/',
     getParentRoute: () => appFacilitiesFacilityIdRoute,
   } as any)
+const appTeamsTeamSlugPracticeRoute =
+  appTeamsTeamSlugPracticeRouteImport.update({
+    id: '/practice',
+    path: '/practice',
+    getParentRoute: () => appTeamsTeamSlugRoute,
+  } as any)
 const appTeamsTeamSlugPlayersRoute = appTeamsTeamSlugPlayersRouteImport.update({
   id: '/players',
   path: '/players',
@@ -196,21 +260,72 @@ const appLeaguesLeagueIdTeamsRoute = appLeaguesLeagueIdTeamsRouteImport.update({
   path: '/teams',
   getParentRoute: () => appLeaguesLeagueIdRoute,
 } as any)
+const appLeaguesLeagueIdStandingsRoute =
+  appLeaguesLeagueIdStandingsRouteImport.update({
+    id: '/standings',
+    path: '/standings',
+    getParentRoute: () => appLeaguesLeagueIdRoute,
+  } as any)
+const appLeaguesLeagueIdScoresRoute =
+  appLeaguesLeagueIdScoresRouteImport.update({
+    id: '/scores',
+    path: '/scores',
+    getParentRoute: () => appLeaguesLeagueIdRoute,
+  } as any)
+const appLeaguesLeagueIdScheduleRoute =
+  appLeaguesLeagueIdScheduleRouteImport.update({
+    id: '/schedule',
+    path: '/schedule',
+    getParentRoute: () => appLeaguesLeagueIdRoute,
+  } as any)
+const appLeaguesLeagueIdRolloverRoute =
+  appLeaguesLeagueIdRolloverRouteImport.update({
+    id: '/rollover',
+    path: '/rollover',
+    getParentRoute: () => appLeaguesLeagueIdRoute,
+  } as any)
+const appLeaguesLeagueIdPlayoffsRoute =
+  appLeaguesLeagueIdPlayoffsRouteImport.update({
+    id: '/playoffs',
+    path: '/playoffs',
+    getParentRoute: () => appLeaguesLeagueIdRoute,
+  } as any)
+const appLeaguesLeagueIdLeadersRoute =
+  appLeaguesLeagueIdLeadersRouteImport.update({
+    id: '/leaders',
+    path: '/leaders',
+    getParentRoute: () => appLeaguesLeagueIdRoute,
+  } as any)
+const appLeaguesLeagueIdGamesRoute = appLeaguesLeagueIdGamesRouteImport.update({
+  id: '/games',
+  path: '/games',
+  getParentRoute: () => appLeaguesLeagueIdRoute,
+} as any)
+const appLeaguesLeagueIdDisputesRoute =
+  appLeaguesLeagueIdDisputesRouteImport.update({
+    id: '/disputes',
+    path: '/disputes',
+    getParentRoute: () => appLeaguesLeagueIdRoute,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/about': typeof appAboutRoute
   '/accept-invitation': typeof appAcceptInvitationRoute
   '/analytics': typeof appAnalyticsRoute
+  '/calendar': typeof appCalendarRoute
   '/dashboard': typeof appDashboardRoute
   '/facilities': typeof appFacilitiesRouteWithChildren
   '/leagues': typeof appLeaguesRouteWithChildren
+  '/my-games': typeof appMyGamesRoute
   '/players': typeof appPlayersRoute
   '/reports': typeof appReportsRoute
   '/settings': typeof appSettingsRoute
   '/staff': typeof appStaffRouteWithChildren
   '/teams': typeof appTeamsRouteWithChildren
+  '/tournaments': typeof appTournamentsRouteWithChildren
   '/login': typeof authLoginRoute
   '/signup': typeof authSignupRoute
+  '/kiosk/$token': typeof KioskTokenRoute
   '/': typeof appIndexRoute
   '/facilities/$facilityId': typeof appFacilitiesFacilityIdRouteWithChildren
   '/facilities/create': typeof appFacilitiesCreateRoute
@@ -219,12 +334,25 @@ export interface FileRoutesByFullPath {
   '/staff/create': typeof appStaffCreateRoute
   '/teams/$teamSlug': typeof appTeamsTeamSlugRouteWithChildren
   '/teams/create': typeof appTeamsCreateRoute
+  '/teams/practice': typeof appTeamsPracticeRoute
+  '/tournaments/$tournamentId': typeof appTournamentsTournamentIdRoute
+  '/tournaments/create': typeof appTournamentsCreateRoute
   '/facilities/': typeof appFacilitiesIndexRoute
   '/leagues/': typeof appLeaguesIndexRoute
   '/staff/': typeof appStaffIndexRoute
   '/teams/': typeof appTeamsIndexRoute
+  '/tournaments/': typeof appTournamentsIndexRoute
+  '/leagues/$leagueId/disputes': typeof appLeaguesLeagueIdDisputesRoute
+  '/leagues/$leagueId/games': typeof appLeaguesLeagueIdGamesRoute
+  '/leagues/$leagueId/leaders': typeof appLeaguesLeagueIdLeadersRoute
+  '/leagues/$leagueId/playoffs': typeof appLeaguesLeagueIdPlayoffsRoute
+  '/leagues/$leagueId/rollover': typeof appLeaguesLeagueIdRolloverRoute
+  '/leagues/$leagueId/schedule': typeof appLeaguesLeagueIdScheduleRoute
+  '/leagues/$leagueId/scores': typeof appLeaguesLeagueIdScoresRoute
+  '/leagues/$leagueId/standings': typeof appLeaguesLeagueIdStandingsRoute
   '/leagues/$leagueId/teams': typeof appLeaguesLeagueIdTeamsRoute
   '/teams/$teamSlug/players': typeof appTeamsTeamSlugPlayersRoute
+  '/teams/$teamSlug/practice': typeof appTeamsTeamSlugPracticeRoute
   '/facilities/$facilityId/': typeof appFacilitiesFacilityIdIndexRoute
   '/leagues/$leagueId/': typeof appLeaguesLeagueIdIndexRoute
   '/teams/$teamSlug/': typeof appTeamsTeamSlugIndexRoute
@@ -233,23 +361,39 @@ export interface FileRoutesByTo {
   '/about': typeof appAboutRoute
   '/accept-invitation': typeof appAcceptInvitationRoute
   '/analytics': typeof appAnalyticsRoute
+  '/calendar': typeof appCalendarRoute
   '/dashboard': typeof appDashboardRoute
+  '/my-games': typeof appMyGamesRoute
   '/players': typeof appPlayersRoute
   '/reports': typeof appReportsRoute
   '/settings': typeof appSettingsRoute
   '/login': typeof authLoginRoute
   '/signup': typeof authSignupRoute
+  '/kiosk/$token': typeof KioskTokenRoute
   '/': typeof appIndexRoute
   '/facilities/create': typeof appFacilitiesCreateRoute
   '/leagues/create': typeof appLeaguesCreateRoute
   '/staff/create': typeof appStaffCreateRoute
   '/teams/create': typeof appTeamsCreateRoute
+  '/teams/practice': typeof appTeamsPracticeRoute
+  '/tournaments/$tournamentId': typeof appTournamentsTournamentIdRoute
+  '/tournaments/create': typeof appTournamentsCreateRoute
   '/facilities': typeof appFacilitiesIndexRoute
   '/leagues': typeof appLeaguesIndexRoute
   '/staff': typeof appStaffIndexRoute
   '/teams': typeof appTeamsIndexRoute
+  '/tournaments': typeof appTournamentsIndexRoute
+  '/leagues/$leagueId/disputes': typeof appLeaguesLeagueIdDisputesRoute
+  '/leagues/$leagueId/games': typeof appLeaguesLeagueIdGamesRoute
+  '/leagues/$leagueId/leaders': typeof appLeaguesLeagueIdLeadersRoute
+  '/leagues/$leagueId/playoffs': typeof appLeaguesLeagueIdPlayoffsRoute
+  '/leagues/$leagueId/rollover': typeof appLeaguesLeagueIdRolloverRoute
+  '/leagues/$leagueId/schedule': typeof appLeaguesLeagueIdScheduleRoute
+  '/leagues/$leagueId/scores': typeof appLeaguesLeagueIdScoresRoute
+  '/leagues/$leagueId/standings': typeof appLeaguesLeagueIdStandingsRoute
   '/leagues/$leagueId/teams': typeof appLeaguesLeagueIdTeamsRoute
   '/teams/$teamSlug/players': typeof appTeamsTeamSlugPlayersRoute
+  '/teams/$teamSlug/practice': typeof appTeamsTeamSlugPracticeRoute
   '/facilities/$facilityId': typeof appFacilitiesFacilityIdIndexRoute
   '/leagues/$leagueId': typeof appLeaguesLeagueIdIndexRoute
   '/teams/$teamSlug': typeof appTeamsTeamSlugIndexRoute
@@ -260,16 +404,20 @@ export interface FileRoutesById {
   '/(app)/about': typeof appAboutRoute
   '/(app)/accept-invitation': typeof appAcceptInvitationRoute
   '/(app)/analytics': typeof appAnalyticsRoute
+  '/(app)/calendar': typeof appCalendarRoute
   '/(app)/dashboard': typeof appDashboardRoute
   '/(app)/facilities': typeof appFacilitiesRouteWithChildren
   '/(app)/leagues': typeof appLeaguesRouteWithChildren
+  '/(app)/my-games': typeof appMyGamesRoute
   '/(app)/players': typeof appPlayersRoute
   '/(app)/reports': typeof appReportsRoute
   '/(app)/settings': typeof appSettingsRoute
   '/(app)/staff': typeof appStaffRouteWithChildren
   '/(app)/teams': typeof appTeamsRouteWithChildren
+  '/(app)/tournaments': typeof appTournamentsRouteWithChildren
   '/(auth)/login': typeof authLoginRoute
   '/(auth)/signup': typeof authSignupRoute
+  '/kiosk/$token': typeof KioskTokenRoute
   '/(app)/': typeof appIndexRoute
   '/(app)/facilities/$facilityId': typeof appFacilitiesFacilityIdRouteWithChildren
   '/(app)/facilities/create': typeof appFacilitiesCreateRoute
@@ -278,12 +426,25 @@ export interface FileRoutesById {
   '/(app)/staff/create': typeof appStaffCreateRoute
   '/(app)/teams/$teamSlug': typeof appTeamsTeamSlugRouteWithChildren
   '/(app)/teams/create': typeof appTeamsCreateRoute
+  '/(app)/teams/practice': typeof appTeamsPracticeRoute
+  '/(app)/tournaments/$tournamentId': typeof appTournamentsTournamentIdRoute
+  '/(app)/tournaments/create': typeof appTournamentsCreateRoute
   '/(app)/facilities/': typeof appFacilitiesIndexRoute
   '/(app)/leagues/': typeof appLeaguesIndexRoute
   '/(app)/staff/': typeof appStaffIndexRoute
   '/(app)/teams/': typeof appTeamsIndexRoute
+  '/(app)/tournaments/': typeof appTournamentsIndexRoute
+  '/(app)/leagues/$leagueId/disputes': typeof appLeaguesLeagueIdDisputesRoute
+  '/(app)/leagues/$leagueId/games': typeof appLeaguesLeagueIdGamesRoute
+  '/(app)/leagues/$leagueId/leaders': typeof appLeaguesLeagueIdLeadersRoute
+  '/(app)/leagues/$leagueId/playoffs': typeof appLeaguesLeagueIdPlayoffsRoute
+  '/(app)/leagues/$leagueId/rollover': typeof appLeaguesLeagueIdRolloverRoute
+  '/(app)/leagues/$leagueId/schedule': typeof appLeaguesLeagueIdScheduleRoute
+  '/(app)/leagues/$leagueId/scores': typeof appLeaguesLeagueIdScoresRoute
+  '/(app)/leagues/$leagueId/standings': typeof appLeaguesLeagueIdStandingsRoute
   '/(app)/leagues/$leagueId/teams': typeof appLeaguesLeagueIdTeamsRoute
   '/(app)/teams/$teamSlug/players': typeof appTeamsTeamSlugPlayersRoute
+  '/(app)/teams/$teamSlug/practice': typeof appTeamsTeamSlugPracticeRoute
   '/(app)/facilities/$facilityId/': typeof appFacilitiesFacilityIdIndexRoute
   '/(app)/leagues/$leagueId/': typeof appLeaguesLeagueIdIndexRoute
   '/(app)/teams/$teamSlug/': typeof appTeamsTeamSlugIndexRoute
@@ -294,16 +455,20 @@ export interface FileRouteTypes {
     | '/about'
     | '/accept-invitation'
     | '/analytics'
+    | '/calendar'
     | '/dashboard'
     | '/facilities'
     | '/leagues'
+    | '/my-games'
     | '/players'
     | '/reports'
     | '/settings'
     | '/staff'
     | '/teams'
+    | '/tournaments'
     | '/login'
     | '/signup'
+    | '/kiosk/$token'
     | '/'
     | '/facilities/$facilityId'
     | '/facilities/create'
@@ -312,12 +477,25 @@ export interface FileRouteTypes {
     | '/staff/create'
     | '/teams/$teamSlug'
     | '/teams/create'
+    | '/teams/practice'
+    | '/tournaments/$tournamentId'
+    | '/tournaments/create'
     | '/facilities/'
     | '/leagues/'
     | '/staff/'
     | '/teams/'
+    | '/tournaments/'
+    | '/leagues/$leagueId/disputes'
+    | '/leagues/$leagueId/games'
+    | '/leagues/$leagueId/leaders'
+    | '/leagues/$leagueId/playoffs'
+    | '/leagues/$leagueId/rollover'
+    | '/leagues/$leagueId/schedule'
+    | '/leagues/$leagueId/scores'
+    | '/leagues/$leagueId/standings'
     | '/leagues/$leagueId/teams'
     | '/teams/$teamSlug/players'
+    | '/teams/$teamSlug/practice'
     | '/facilities/$facilityId/'
     | '/leagues/$leagueId/'
     | '/teams/$teamSlug/'
@@ -326,23 +504,39 @@ export interface FileRouteTypes {
     | '/about'
     | '/accept-invitation'
     | '/analytics'
+    | '/calendar'
     | '/dashboard'
+    | '/my-games'
     | '/players'
     | '/reports'
     | '/settings'
     | '/login'
     | '/signup'
+    | '/kiosk/$token'
     | '/'
     | '/facilities/create'
     | '/leagues/create'
     | '/staff/create'
     | '/teams/create'
+    | '/teams/practice'
+    | '/tournaments/$tournamentId'
+    | '/tournaments/create'
     | '/facilities'
     | '/leagues'
     | '/staff'
     | '/teams'
+    | '/tournaments'
+    | '/leagues/$leagueId/disputes'
+    | '/leagues/$leagueId/games'
+    | '/leagues/$leagueId/leaders'
+    | '/leagues/$leagueId/playoffs'
+    | '/leagues/$leagueId/rollover'
+    | '/leagues/$leagueId/schedule'
+    | '/leagues/$leagueId/scores'
+    | '/leagues/$leagueId/standings'
     | '/leagues/$leagueId/teams'
     | '/teams/$teamSlug/players'
+    | '/teams/$teamSlug/practice'
     | '/facilities/$facilityId'
     | '/leagues/$leagueId'
     | '/teams/$teamSlug'
@@ -352,16 +546,20 @@ export interface FileRouteTypes {
     | '/(app)/about'
     | '/(app)/accept-invitation'
     | '/(app)/analytics'
+    | '/(app)/calendar'
     | '/(app)/dashboard'
     | '/(app)/facilities'
     | '/(app)/leagues'
+    | '/(app)/my-games'
     | '/(app)/players'
     | '/(app)/reports'
     | '/(app)/settings'
     | '/(app)/staff'
     | '/(app)/teams'
+    | '/(app)/tournaments'
     | '/(auth)/login'
     | '/(auth)/signup'
+    | '/kiosk/$token'
     | '/(app)/'
     | '/(app)/facilities/$facilityId'
     | '/(app)/facilities/create'
@@ -370,12 +568,25 @@ export interface FileRouteTypes {
     | '/(app)/staff/create'
     | '/(app)/teams/$teamSlug'
     | '/(app)/teams/create'
+    | '/(app)/teams/practice'
+    | '/(app)/tournaments/$tournamentId'
+    | '/(app)/tournaments/create'
     | '/(app)/facilities/'
     | '/(app)/leagues/'
     | '/(app)/staff/'
     | '/(app)/teams/'
+    | '/(app)/tournaments/'
+    | '/(app)/leagues/$leagueId/disputes'
+    | '/(app)/leagues/$leagueId/games'
+    | '/(app)/leagues/$leagueId/leaders'
+    | '/(app)/leagues/$leagueId/playoffs'
+    | '/(app)/leagues/$leagueId/rollover'
+    | '/(app)/leagues/$leagueId/schedule'
+    | '/(app)/leagues/$leagueId/scores'
+    | '/(app)/leagues/$leagueId/standings'
     | '/(app)/leagues/$leagueId/teams'
     | '/(app)/teams/$teamSlug/players'
+    | '/(app)/teams/$teamSlug/practice'
     | '/(app)/facilities/$facilityId/'
     | '/(app)/leagues/$leagueId/'
     | '/(app)/teams/$teamSlug/'
@@ -385,6 +596,7 @@ export interface RootRouteChildren {
   appRouteRoute: typeof appRouteRouteWithChildren
   authLoginRoute: typeof authLoginRoute
   authSignupRoute: typeof authSignupRoute
+  KioskTokenRoute: typeof KioskTokenRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -403,6 +615,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof appIndexRouteImport
       parentRoute: typeof appRouteRoute
     }
+    '/kiosk/$token': {
+      id: '/kiosk/$token'
+      path: '/kiosk/$token'
+      fullPath: '/kiosk/$token'
+      preLoaderRoute: typeof KioskTokenRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/(auth)/signup': {
       id: '/(auth)/signup'
       path: '/signup'
@@ -417,6 +636,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof authLoginRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/(app)/tournaments': {
+      id: '/(app)/tournaments'
+      path: '/tournaments'
+      fullPath: '/tournaments'
+      preLoaderRoute: typeof appTournamentsRouteImport
+      parentRoute: typeof appRouteRoute
+    }
     '/(app)/teams': {
       id: '/(app)/teams'
       path: '/teams'
@@ -452,6 +678,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof appPlayersRouteImport
       parentRoute: typeof appRouteRoute
     }
+    '/(app)/my-games': {
+      id: '/(app)/my-games'
+      path: '/my-games'
+      fullPath: '/my-games'
+      preLoaderRoute: typeof appMyGamesRouteImport
+      parentRoute: typeof appRouteRoute
+    }
     '/(app)/leagues': {
       id: '/(app)/leagues'
       path: '/leagues'
@@ -473,6 +706,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof appDashboardRouteImport
       parentRoute: typeof appRouteRoute
     }
+    '/(app)/calendar': {
+      id: '/(app)/calendar'
+      path: '/calendar'
+      fullPath: '/calendar'
+      preLoaderRoute: typeof appCalendarRouteImport
+      parentRoute: typeof appRouteRoute
+    }
     '/(app)/analytics': {
       id: '/(app)/analytics'
       path: '/analytics'
@@ -494,6 +734,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof appAboutRouteImport
       parentRoute: typeof appRouteRoute
     }
+    '/(app)/tournaments/': {
+      id: '/(app)/tournaments/'
+      path: '/'
+      fullPath: '/tournaments/'
+      preLoaderRoute: typeof appTournamentsIndexRouteImport
+      parentRoute: typeof appTournamentsRoute
+    }
     '/(app)/teams/': {
       id: '/(app)/teams/'
       path: '/'
@@ -522,6 +769,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof appFacilitiesIndexRouteImport
       parentRoute: typeof appFacilitiesRoute
     }
+    '/(app)/tournaments/create': {
+      id: '/(app)/tournaments/create'
+      path: '/create'
+      fullPath: '/tournaments/create'
+      preLoaderRoute: typeof appTournamentsCreateRouteImport
+      parentRoute: typeof appTournamentsRoute
+    }
+    '/(app)/tournaments/$tournamentId': {
+      id: '/(app)/tournaments/$tournamentId'
+      path: '/$tournamentId'
+      fullPath: '/tournaments/$tournamentId'
+      preLoaderRoute: typeof appTournamentsTournamentIdRouteImport
+      parentRoute: typeof appTournamentsRoute
+    }
+    '/(app)/teams/practice': {
+      id: '/(app)/teams/practice'
+      path: '/practice'
+      fullPath: '/teams/practice'
+      preLoaderRoute: typeof appTeamsPracticeRouteImport
+      parentRoute: typeof appTeamsRoute
+    }
     '/(app)/teams/create': {
       id: '/(app)/teams/create'
       path: '/create'
@@ -592,6 +860,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof appFacilitiesFacilityIdIndexRouteImport
       parentRoute: typeof appFacilitiesFacilityIdRoute
     }
+    '/(app)/teams/$teamSlug/practice': {
+      id: '/(app)/teams/$teamSlug/practice'
+      path: '/practice'
+      fullPath: '/teams/$teamSlug/practice'
+      preLoaderRoute: typeof appTeamsTeamSlugPracticeRouteImport
+      parentRoute: typeof appTeamsTeamSlugRoute
+    }
     '/(app)/teams/$teamSlug/players': {
       id: '/(app)/teams/$teamSlug/players'
       path: '/players'
@@ -606,6 +881,62 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof appLeaguesLeagueIdTeamsRouteImport
       parentRoute: typeof appLeaguesLeagueIdRoute
     }
+    '/(app)/leagues/$leagueId/standings': {
+      id: '/(app)/leagues/$leagueId/standings'
+      path: '/standings'
+      fullPath: '/leagues/$leagueId/standings'
+      preLoaderRoute: typeof appLeaguesLeagueIdStandingsRouteImport
+      parentRoute: typeof appLeaguesLeagueIdRoute
+    }
+    '/(app)/leagues/$leagueId/scores': {
+      id: '/(app)/leagues/$leagueId/scores'
+      path: '/scores'
+      fullPath: '/leagues/$leagueId/scores'
+      preLoaderRoute: typeof appLeaguesLeagueIdScoresRouteImport
+      parentRoute: typeof appLeaguesLeagueIdRoute
+    }
+    '/(app)/leagues/$leagueId/schedule': {
+      id: '/(app)/leagues/$leagueId/schedule'
+      path: '/schedule'
+      fullPath: '/leagues/$leagueId/schedule'
+      preLoaderRoute: typeof appLeaguesLeagueIdScheduleRouteImport
+      parentRoute: typeof appLeaguesLeagueIdRoute
+    }
+    '/(app)/leagues/$leagueId/rollover': {
+      id: '/(app)/leagues/$leagueId/rollover'
+      path: '/rollover'
+      fullPath: '/leagues/$leagueId/rollover'
+      preLoaderRoute: typeof appLeaguesLeagueIdRolloverRouteImport
+      parentRoute: typeof appLeaguesLeagueIdRoute
+    }
+    '/(app)/leagues/$leagueId/playoffs': {
+      id: '/(app)/leagues/$leagueId/playoffs'
+      path: '/playoffs'
+      fullPath: '/leagues/$leagueId/playoffs'
+      preLoaderRoute: typeof appLeaguesLeagueIdPlayoffsRouteImport
+      parentRoute: typeof appLeaguesLeagueIdRoute
+    }
+    '/(app)/leagues/$leagueId/leaders': {
+      id: '/(app)/leagues/$leagueId/leaders'
+      path: '/leaders'
+      fullPath: '/leagues/$leagueId/leaders'
+      preLoaderRoute: typeof appLeaguesLeagueIdLeadersRouteImport
+      parentRoute: typeof appLeaguesLeagueIdRoute
+    }
+    '/(app)/leagues/$leagueId/games': {
+      id: '/(app)/leagues/$leagueId/games'
+      path: '/games'
+      fullPath: '/leagues/$leagueId/games'
+      preLoaderRoute: typeof appLeaguesLeagueIdGamesRouteImport
+      parentRoute: typeof appLeaguesLeagueIdRoute
+    }
+    '/(app)/leagues/$leagueId/disputes': {
+      id: '/(app)/leagues/$leagueId/disputes'
+      path: '/disputes'
+      fullPath: '/leagues/$leagueId/disputes'
+      preLoaderRoute: typeof appLeaguesLeagueIdDisputesRouteImport
+      parentRoute: typeof appLeaguesLeagueIdRoute
+    }
   }
 }
 
@@ -640,11 +971,27 @@ const appFacilitiesRouteWithChildren = appFacilitiesRoute._addFileChildren(
 )
 
 interface appLeaguesLeagueIdRouteChildren {
+  appLeaguesLeagueIdDisputesRoute: typeof appLeaguesLeagueIdDisputesRoute
+  appLeaguesLeagueIdGamesRoute: typeof appLeaguesLeagueIdGamesRoute
+  appLeaguesLeagueIdLeadersRoute: typeof appLeaguesLeagueIdLeadersRoute
+  appLeaguesLeagueIdPlayoffsRoute: typeof appLeaguesLeagueIdPlayoffsRoute
+  appLeaguesLeagueIdRolloverRoute: typeof appLeaguesLeagueIdRolloverRoute
+  appLeaguesLeagueIdScheduleRoute: typeof appLeaguesLeagueIdScheduleRoute
+  appLeaguesLeagueIdScoresRoute: typeof appLeaguesLeagueIdScoresRoute
+  appLeaguesLeagueIdStandingsRoute: typeof appLeaguesLeagueIdStandingsRoute
   appLeaguesLeagueIdTeamsRoute: typeof appLeaguesLeagueIdTeamsRoute
   appLeaguesLeagueIdIndexRoute: typeof appLeaguesLeagueIdIndexRoute
 }
 
 const appLeaguesLeagueIdRouteChildren: appLeaguesLeagueIdRouteChildren = {
+  appLeaguesLeagueIdDisputesRoute: appLeaguesLeagueIdDisputesRoute,
+  appLeaguesLeagueIdGamesRoute: appLeaguesLeagueIdGamesRoute,
+  appLeaguesLeagueIdLeadersRoute: appLeaguesLeagueIdLeadersRoute,
+  appLeaguesLeagueIdPlayoffsRoute: appLeaguesLeagueIdPlayoffsRoute,
+  appLeaguesLeagueIdRolloverRoute: appLeaguesLeagueIdRolloverRoute,
+  appLeaguesLeagueIdScheduleRoute: appLeaguesLeagueIdScheduleRoute,
+  appLeaguesLeagueIdScoresRoute: appLeaguesLeagueIdScoresRoute,
+  appLeaguesLeagueIdStandingsRoute: appLeaguesLeagueIdStandingsRoute,
   appLeaguesLeagueIdTeamsRoute: appLeaguesLeagueIdTeamsRoute,
   appLeaguesLeagueIdIndexRoute: appLeaguesLeagueIdIndexRoute,
 }
@@ -684,11 +1031,13 @@ const appStaffRouteWithChildren = appStaffRoute._addFileChildren(
 
 interface appTeamsTeamSlugRouteChildren {
   appTeamsTeamSlugPlayersRoute: typeof appTeamsTeamSlugPlayersRoute
+  appTeamsTeamSlugPracticeRoute: typeof appTeamsTeamSlugPracticeRoute
   appTeamsTeamSlugIndexRoute: typeof appTeamsTeamSlugIndexRoute
 }
 
 const appTeamsTeamSlugRouteChildren: appTeamsTeamSlugRouteChildren = {
   appTeamsTeamSlugPlayersRoute: appTeamsTeamSlugPlayersRoute,
+  appTeamsTeamSlugPracticeRoute: appTeamsTeamSlugPracticeRoute,
   appTeamsTeamSlugIndexRoute: appTeamsTeamSlugIndexRoute,
 }
 
@@ -698,12 +1047,14 @@ const appTeamsTeamSlugRouteWithChildren =
 interface appTeamsRouteChildren {
   appTeamsTeamSlugRoute: typeof appTeamsTeamSlugRouteWithChildren
   appTeamsCreateRoute: typeof appTeamsCreateRoute
+  appTeamsPracticeRoute: typeof appTeamsPracticeRoute
   appTeamsIndexRoute: typeof appTeamsIndexRoute
 }
 
 const appTeamsRouteChildren: appTeamsRouteChildren = {
   appTeamsTeamSlugRoute: appTeamsTeamSlugRouteWithChildren,
   appTeamsCreateRoute: appTeamsCreateRoute,
+  appTeamsPracticeRoute: appTeamsPracticeRoute,
   appTeamsIndexRoute: appTeamsIndexRoute,
 }
 
@@ -711,18 +1062,37 @@ const appTeamsRouteWithChildren = appTeamsRoute._addFileChildren(
   appTeamsRouteChildren,
 )
 
+interface appTournamentsRouteChildren {
+  appTournamentsTournamentIdRoute: typeof appTournamentsTournamentIdRoute
+  appTournamentsCreateRoute: typeof appTournamentsCreateRoute
+  appTournamentsIndexRoute: typeof appTournamentsIndexRoute
+}
+
+const appTournamentsRouteChildren: appTournamentsRouteChildren = {
+  appTournamentsTournamentIdRoute: appTournamentsTournamentIdRoute,
+  appTournamentsCreateRoute: appTournamentsCreateRoute,
+  appTournamentsIndexRoute: appTournamentsIndexRoute,
+}
+
+const appTournamentsRouteWithChildren = appTournamentsRoute._addFileChildren(
+  appTournamentsRouteChildren,
+)
+
 interface appRouteRouteChildren {
   appAboutRoute: typeof appAboutRoute
   appAcceptInvitationRoute: typeof appAcceptInvitationRoute
   appAnalyticsRoute: typeof appAnalyticsRoute
+  appCalendarRoute: typeof appCalendarRoute
   appDashboardRoute: typeof appDashboardRoute
   appFacilitiesRoute: typeof appFacilitiesRouteWithChildren
   appLeaguesRoute: typeof appLeaguesRouteWithChildren
+  appMyGamesRoute: typeof appMyGamesRoute
   appPlayersRoute: typeof appPlayersRoute
   appReportsRoute: typeof appReportsRoute
   appSettingsRoute: typeof appSettingsRoute
   appStaffRoute: typeof appStaffRouteWithChildren
   appTeamsRoute: typeof appTeamsRouteWithChildren
+  appTournamentsRoute: typeof appTournamentsRouteWithChildren
   appIndexRoute: typeof appIndexRoute
 }
 
@@ -730,14 +1100,17 @@ const appRouteRouteChildren: appRouteRouteChildren = {
   appAboutRoute: appAboutRoute,
   appAcceptInvitationRoute: appAcceptInvitationRoute,
   appAnalyticsRoute: appAnalyticsRoute,
+  appCalendarRoute: appCalendarRoute,
   appDashboardRoute: appDashboardRoute,
   appFacilitiesRoute: appFacilitiesRouteWithChildren,
   appLeaguesRoute: appLeaguesRouteWithChildren,
+  appMyGamesRoute: appMyGamesRoute,
   appPlayersRoute: appPlayersRoute,
   appReportsRoute: appReportsRoute,
   appSettingsRoute: appSettingsRoute,
   appStaffRoute: appStaffRouteWithChildren,
   appTeamsRoute: appTeamsRouteWithChildren,
+  appTournamentsRoute: appTournamentsRouteWithChildren,
   appIndexRoute: appIndexRoute,
 }
 
@@ -749,6 +1122,7 @@ const rootRouteChildren: RootRouteChildren = {
   appRouteRoute: appRouteRouteWithChildren,
   authLoginRoute: authLoginRoute,
   authSignupRoute: authSignupRoute,
+  KioskTokenRoute: KioskTokenRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
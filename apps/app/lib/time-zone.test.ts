@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatInstantDate,
+  getZonedDateTime,
+  zonedDateTimeToIso,
+} from "./time-zone";
+import { formatInstantTo12h } from "./league-schedule";
+
+describe("getZonedDateTime", () => {
+  it("reads the wall clock in the given zone", () => {
+    expect(
+      getZonedDateTime("2026-03-07T03:00:00.000Z", "America/Chicago"),
+    ).toEqual({
+      date: "2026-03-06",
+      time: "21:00",
+    });
+    expect(
+      getZonedDateTime("2026-03-07T03:00:00.000Z", "Europe/Berlin"),
+    ).toEqual({
+      date: "2026-03-07",
+      time: "04:00",
+    });
+  });
+});
+
+describe("zonedDateTimeToIso", () => {
+  it("keeps the wall-clock time across a DST change", () => {
+    // Chicago switches to CDT on 2026-03-08.
+    expect(zonedDateTimeToIso("2026-03-07", "18:00", "America/Chicago")).toBe(
+      "2026-03-08T00:00:00.000Z",
+    );
+    expect(zonedDateTimeToIso("2026-03-09", "18:00", "America/Chicago")).toBe(
+      "2026-03-09T23:00:00.000Z",
+    );
+  });
+
+  it("resolves skipped and repeated times the same way as the API", () => {
+    // 02:30 does not exist on 2026-03-08; 01:30 happens twice on 2026-11-01.
+    expect(zonedDateTimeToIso("2026-03-08", "02:30", "America/Chicago")).toBe(
+      "2026-03-08T08:30:00.000Z",
+    );
+    expect(zonedDateTimeToIso("2026-11-01", "01:30", "America/Chicago")).toBe(
+      "2026-11-01T06:30:00.000Z",
+    );
+  });
+
+  it("round-trips with getZonedDateTime", () => {
+    const iso = zonedDateTimeToIso("2026-07-04", "09:15", "Australia/Sydney");
+    expect(getZonedDateTime(iso, "Australia/Sydney")).toEqual({
+      date: "2026-07-04",
+      time: "09:15",
+    });
+  });
+});
+
+describe("formatting in a zone", () => {
+  it("formats times and dates on the zone's clock", () => {
+    const instant = "2026-03-07T03:00:00.000Z";
+    expect(formatInstantTo12h(instant, "America/Chicago")).toBe("9:00 PM");
+    expect(formatInstantTo12h(instant, "UTC")).toBe("3:00 AM");
+    expect(formatInstantDate(instant, "America/Chicago")).toContain("6");
+    expect(formatInstantDate(instant, "UTC")).toContain("7");
+  });
+});
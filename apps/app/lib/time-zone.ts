@@ -0,0 +1,115 @@
+/**
+ * IANA time zone helpers for pickers, defaults and wall-clock ↔ instant conversion (DST aware).
+ * Same rules as the API's lib/time.ts, so times entered here land on the instants the server expects.
+ */
+
+/** The browser's IANA time zone, e.g. "America/Chicago". */
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** All IANA zones the browser knows, for <select> options. */
+export function getTimeZoneOptions(): string[] {
+  return Intl.supportedValuesOf("timeZone");
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Offset of `timeZone` from UTC at `instant`, in milliseconds. */
+function getOffsetMs(instant: Date, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const p of getFormatter(timeZone).formatToParts(instant)) {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  }
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return asUtc - (instant.getTime() - instant.getMilliseconds());
+}
+
+/** Wall-clock date (YYYY-MM-DD) and time (HH:mm) of an instant in `timeZone`. */
+export function getZonedDateTime(
+  value: Date | string,
+  timeZone: string,
+): { date: string; time: string } {
+  const instant = typeof value === "string" ? new Date(value) : value;
+  const iso = new Date(
+    instant.getTime() + getOffsetMs(instant, timeZone),
+  ).toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+}
+
+/**
+ * ISO instant at which the wall clock in `timeZone` reads `date` `time`.
+ * Times skipped by a DST jump resolve to just after the gap; ambiguous times resolve to the earlier instant.
+ */
+export function zonedDateTimeToIso(
+  date: string,
+  time: string,
+  timeZone: string,
+): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallAsUtc = Date.UTC(year, month - 1, day, hour, minute ?? 0);
+  const candidates = [
+    getOffsetMs(new Date(wallAsUtc - 24 * 60 * 60 * 1000), timeZone),
+    getOffsetMs(new Date(wallAsUtc + 24 * 60 * 60 * 1000), timeZone),
+  ]
+    .map((offset) => wallAsUtc - offset)
+    .sort((a, b) => a - b);
+  const match = candidates.find(
+    (candidate) =>
+      getOffsetMs(new Date(candidate), timeZone) === wallAsUtc - candidate,
+  );
+  return new Date(match ?? candidates[1]).toISOString();
+}
+
+/** An instant's calendar date in `timeZone`, e.g. "Mar 7, 2026". */
+export function formatInstantDate(
+  value: Date | string,
+  timeZone: string,
+): string {
+  const date = typeof value === "string" ? new Date(value) : value;
+  if (Number.isNaN(date.getTime())) return "";
+  return date.toLocaleDateString(undefined, {
+    timeZone,
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/** Short zone name for labels, e.g. "CST" or "GMT+1", at `at` (defaults to now). */
+export function getTimeZoneAbbreviation(
+  timeZone: string,
+  at: Date = new Date(),
+): string {
+  return (
+    new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+      .formatToParts(at)
+      .find((p) => p.type === "timeZoneName")?.value ?? timeZone
+  );
+}
@@ -0,0 +1,378 @@
+import { CalendarFeedButton } from "@/components/calendar-feed-button";
+import {
+  addDays,
+  CALENDAR_VIEW_OPTIONS,
+  CALENDAR_VIEW_VALUES,
+  getCalendarRange,
+  getCalendarTitle,
+  getEventsOnDay,
+  getMonthGrid,
+  isSameDay,
+  parseDateParam,
+  shiftCalendarAnchor,
+  startOfWeek,
+  toDateParam,
+  type CalendarView,
+} from "@/lib/calendar";
+import { getGameStatusBadgeClass, getGameStatusLabel } from "@/lib/game-status";
+import { useDisplayTimeZone } from "@/lib/hooks/useDisplayTimeZone";
+import { formatInstantTo12h } from "@/lib/league-schedule";
+import { useCalendarEvents } from "@/lib/queries/calendar";
+import { useFacilities } from "@/lib/queries/facility";
+import { useLeagues } from "@/lib/queries/league";
+import { useTeams } from "@/lib/queries/team";
+import { getZonedDateTime } from "@/lib/time-zone";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Label,
+  Skeleton,
+  cn,
+} from "@repo/ui";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { ChevronLeft, ChevronRight, MapPin } from "lucide-react";
+import { z } from "zod";
+
+const searchSchema = z.object({
+  view: z.enum(CALENDAR_VIEW_VALUES).catch("month"),
+  date: z.string().optional().catch(undefined),
+  leagueId: z.string().optional().catch(undefined),
+  teamId: z.string().optional().catch(undefined),
+  facilityId: z.string().optional().catch(undefined),
+});
+
+export const Route = createFileRoute("/(app)/calendar")({
+  validateSearch: searchSchema,
+  component: CalendarPage,
+});
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/** Event chips shown per day cell in month view before collapsing into "+N more". */
+const MONTH_CELL_LIMIT = 3;
+
+function CalendarPage() {
+  const search = Route.useSearch();
+  const navigate = Route.useNavigate();
+  const view = search.view;
+  const anchor = parseDateParam(search.date);
+  const range = getCalendarRange(view, anchor);
+  const timeZone = useDisplayTimeZone();
+  const today = parseDateParam(getZonedDateTime(new Date(), timeZone).date);
+
+  const { data: leagues } = useLeagues();
+  const { data: teams } = useTeams();
+  const { data: facilities } = useFacilities();
+  const { data: events, isPending } = useCalendarEvents({
+    // The grid is in browser-local days; UTC offsets differ by at most 26 hours, so two days
+    // either side covers every event that lands on a visible day in the display zone.
+    from: addDays(range.from, -2).toISOString(),
+    to: addDays(range.to, 2).toISOString(),
+    leagueId: search.leagueId,
+    teamId: search.teamId,
+    facilityId: search.facilityId,
+  });
+
+  type CalendarEventRow = NonNullable<typeof events>[number];
+
+  const setSearch = (patch: Partial<typeof search>) =>
+    navigate({ search: (prev) => ({ ...prev, ...patch }) });
+
+  const goTo = (nextView: CalendarView, date: Date) =>
+    setSearch({ view: nextView, date: toDateParam(date) });
+
+  const renderChip = (event: CalendarEventRow) => (
+    <div
+      key={`${event.kind}-${event.id}`}
+      className={cn(
+        "truncate rounded px-1.5 py-0.5 text-xs",
+        event.kind === "booking"
+          ? "bg-amber-100 text-amber-900"
+          : "bg-primary/10 text-foreground",
+        event.status === "cancelled" && "line-through opacity-60",
+      )}
+      title={`${formatInstantTo12h(event.startsAt, timeZone)} ${event.title}`}
+    >
+      <span className="font-medium">
+        {formatInstantTo12h(event.startsAt, timeZone)}
+      </span>{" "}
+      {event.title}
+    </div>
+  );
+
+  const renderEventRow = (event: CalendarEventRow) => (
+    <li
+      key={`${event.kind}-${event.id}`}
+      className="flex flex-wrap items-start gap-x-4 gap-y-1 py-3"
+    >
+      <div className="w-36 shrink-0 text-sm text-muted-foreground">
+        {formatInstantTo12h(event.startsAt, timeZone)} –{" "}
+        {formatInstantTo12h(event.endsAt, timeZone)}
+      </div>
+      <div className="flex-1 min-w-0 space-y-1">
+        <p
+          className={cn(
+            "font-medium",
+            event.status === "cancelled" &&
+              "line-through text-muted-foreground",
+          )}
+        >
+          {event.kind === "game" && event.leagueId ? (
+            <Link
+              to="/leagues/$leagueId/games"
+              params={{ leagueId: event.leagueId }}
+              className="hover:underline"
+            >
+              {event.title}
+            </Link>
+          ) : (
+            event.title
+          )}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          {event.kind === "game" ? event.leagueName : "Facility booking"}
+          {event.facilityName && (
+            <>
+              {" · "}
+              <MapPin className="inline h-3 w-3" /> {event.facilityName}
+              {event.surfaceName ? ` · ${event.surfaceName}` : ""}
+            </>
+          )}
+        </p>
+      </div>
+      {event.kind === "game" ? (
+        <span
+          className={cn(
+            "rounded-full px-2 py-0.5 text-xs font-medium",
+            getGameStatusBadgeClass(event.status),
+          )}
+        >
+          {getGameStatusLabel(event.status)}
+        </span>
+      ) : (
+        <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-900">
+          Booking
+        </span>
+      )}
+    </li>
+  );
+
+  const allEvents = events ?? [];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex-1 min-w-0">
+          <h2 className="text-2xl font-bold">Calendar</h2>
+          <p className="text-muted-foreground">
+            Games and facility bookings across your organization. Times are
+            shown in {timeZone}.
+          </p>
+        </div>
+        <CalendarFeedButton scope="user" label="my schedule" />
+        <div className="flex rounded-md border">
+          {CALENDAR_VIEW_OPTIONS.map((option) => (
+            <Button
+              key={option.value}
+              variant={view === option.value ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setSearch({ view: option.value })}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="calendar-league">League</Label>
+          <select
+            id="calendar-league"
+            className={selectClassName}
+            value={search.leagueId ?? ""}
+            onChange={(e) =>
+              setSearch({ leagueId: e.target.value || undefined })
+            }
+          >
+            <option value="">All leagues</option>
+            {(leagues ?? []).map((l) => (
+              <option key={l.id} value={l.id}>
+                {l.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="calendar-team">Team</Label>
+          <select
+            id="calendar-team"
+            className={selectClassName}
+            value={search.teamId ?? ""}
+            onChange={(e) => setSearch({ teamId: e.target.value || undefined })}
+          >
+            <option value="">All teams</option>
+            {(teams ?? []).map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="calendar-facility">Facility</Label>
+          <select
+            id="calendar-facility"
+            className={selectClassName}
+            value={search.facilityId ?? ""}
+            onChange={(e) =>
+              setSearch({ facilityId: e.target.value || undefined })
+            }
+          >
+            <option value="">All facilities</option>
+            {(facilities ?? []).map((f) => (
+              <option key={f.id} value={f.id}>
+                {f.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center gap-2">
+            <CardTitle className="flex-1">
+              {getCalendarTitle(view, anchor)}
+            </CardTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => goTo(view, today)}
+            >
+              Today
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Previous"
+              onClick={() => goTo(view, shiftCalendarAnchor(view, anchor, -1))}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Next"
+              onClick={() => goTo(view, shiftCalendarAnchor(view, anchor, 1))}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isPending ? (
+            <Skeleton className="h-96 w-full" />
+          ) : view === "month" ? (
+            <div className="grid grid-cols-7 border-l border-t text-sm">
+              {WEEKDAY_LABELS.map((label) => (
+                <div
+                  key={label}
+                  className="border-b border-r px-2 py-1 text-xs font-medium text-muted-foreground"
+                >
+                  {label}
+                </div>
+              ))}
+              {getMonthGrid(anchor)
+                .flat()
+                .map((day) => {
+                  const dayEvents = getEventsOnDay(allEvents, day, timeZone);
+                  const hidden = dayEvents.length - MONTH_CELL_LIMIT;
+                  return (
+                    <div
+                      key={toDateParam(day)}
+                      className={cn(
+                        "min-h-24 space-y-1 border-b border-r p-1",
+                        day.getMonth() !== anchor.getMonth() && "bg-muted/40",
+                      )}
+                    >
+                      <button
+                        type="button"
+                        className={cn(
+                          "rounded px-1 text-xs hover:bg-muted",
+                          isSameDay(day, today) &&
+                            "bg-primary text-primary-foreground hover:bg-primary",
+                        )}
+                        onClick={() => goTo("day", day)}
+                      >
+                        {day.getDate()}
+                      </button>
+                      {dayEvents.slice(0, MONTH_CELL_LIMIT).map(renderChip)}
+                      {hidden > 0 && (
+                        <button
+                          type="button"
+                          className="px-1 text-xs text-muted-foreground hover:underline"
+                          onClick={() => goTo("day", day)}
+                        >
+                          +{hidden} more
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+            </div>
+          ) : view === "week" ? (
+            <div className="divide-y">
+              {Array.from({ length: 7 }, (_, i) =>
+                addDays(startOfWeek(anchor), i),
+              ).map((day) => {
+                const dayEvents = getEventsOnDay(allEvents, day, timeZone);
+                return (
+                  <div key={toDateParam(day)} className="py-3">
+                    <button
+                      type="button"
+                      className={cn(
+                        "text-sm font-medium hover:underline",
+                        isSameDay(day, today) && "text-primary",
+                      )}
+                      onClick={() => goTo("day", day)}
+                    >
+                      {day.toLocaleDateString(undefined, {
+                        weekday: "long",
+                        month: "short",
+                        day: "numeric",
+                      })}
+                    </button>
+                    {dayEvents.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        Nothing scheduled
+                      </p>
+                    ) : (
+                      <ul className="divide-y">
+                        {dayEvents.map(renderEventRow)}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ) : allEvents.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              Nothing scheduled for this day
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {getEventsOnDay(allEvents, anchor, timeZone).map(renderEventRow)}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
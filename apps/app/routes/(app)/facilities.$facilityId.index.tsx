@@ -1,19 +1,37 @@
+import { CalendarFeedButton } from "@/components/calendar-feed-button";
+import { FacilityGameSheetsButton } from "@/components/facility-game-sheets-button";
+import { FacilityKioskButton } from "@/components/facility-kiosk-button";
 import {
+  exceptionRowsFromExceptions,
+  exceptionsFromExceptionRows,
   getInitialOperatingScheduleFormState,
   OperatingScheduleForm,
   scheduleFromFormState,
   type OperatingScheduleFormState,
+  type ScheduleExceptionFormRow,
 } from "@/components/operating-schedule-form";
-import { getErrorMessage } from "@/lib/errors";
+import { ScheduleConflictList } from "@/components/schedule-conflict-list";
+import { ScheduleExceptionList } from "@/components/schedule-exception-list";
+import { getErrorMessage, getScheduleConflicts } from "@/lib/errors";
 import { getFacilityScheduleGroups } from "@/lib/facility-schedule";
+import { formatInstantTo12h } from "@/lib/league-schedule";
 import {
   useAddFacilitySurface,
+  useCreateFacilityBooking,
   useDeleteFacility,
+  useDeleteFacilityBooking,
   useFacility,
+  useFacilityBookings,
+  useFacilityConflicts,
   useRemoveFacilitySurface,
   useUpdateFacility,
 } from "@/lib/queries/facility";
 import { useOrganization } from "@/lib/queries/organization";
+import {
+  formatInstantDate,
+  getTimeZoneOptions,
+  zonedDateTimeToIso,
+} from "@/lib/time-zone";
 import { toast } from "@/lib/toast";
 import {
   Button,
@@ -33,8 +51,17 @@ import {
   Skeleton,
 } from "@repo/ui";
 import { createFileRoute, Link, useRouter } from "@tanstack/react-router";
-import { ArrowLeft, Clock, MapPin, Pencil, Plus, Trash2 } from "lucide-react";
-import { useState } from "react";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CalendarClock,
+  Clock,
+  MapPin,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { useMemo, useState } from "react";
 
 const SURFACE_TYPES = [
   { value: "field", label: "Field" },
@@ -44,6 +71,17 @@ const SURFACE_TYPES = [
   { value: "other", label: "Other" },
 ] as const;
 
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+const emptyBookingForm = {
+  facilitySurfaceId: "",
+  title: "",
+  date: "",
+  startTime: "",
+  endTime: "",
+};
+
 export const Route = createFileRoute("/(app)/facilities/$facilityId/")({
   component: FacilityDetail,
 });
@@ -58,6 +96,11 @@ function FacilityDetail() {
   const addSurface = useAddFacilitySurface();
   const removeSurface = useRemoveFacilitySurface();
   const updateFacility = useUpdateFacility();
+  const { data: bookings } = useFacilityBookings(facilityId);
+  const { data: conflictReport, isPending: conflictsPending } =
+    useFacilityConflicts(facilityId);
+  const createBooking = useCreateFacilityBooking();
+  const deleteBooking = useDeleteFacilityBooking();
 
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showAddSurface, setShowAddSurface] = useState(false);
@@ -73,6 +116,21 @@ function FacilityDetail() {
   const [scheduleForm, setScheduleForm] = useState<OperatingScheduleFormState>(
     getInitialOperatingScheduleFormState(null),
   );
+  const [scheduleExceptionRows, setScheduleExceptionRows] = useState<
+    ScheduleExceptionFormRow[]
+  >([]);
+  const [showAddBooking, setShowAddBooking] = useState(false);
+  const [bookingForm, setBookingForm] = useState(emptyBookingForm);
+  const timeZoneOptions = useMemo(() => getTimeZoneOptions(), []);
+  const surfaceNames = useMemo(
+    () => new Map((facility?.surfaces ?? []).map((s) => [s.id, s.name])),
+    [facility?.surfaces],
+  );
+  const bookingConflicts = getScheduleConflicts(createBooking.error);
+  const scheduleGroups = getFacilityScheduleGroups(
+    facility?.operatingSchedule,
+    facility?.scheduleExceptions ?? [],
+  );
 
   const handleDeleteConfirm = () => {
     if (!organizationId || !facility?.id) return;
@@ -121,6 +179,56 @@ function FacilityDetail() {
     );
   };
 
+  const handleAddBooking = () => {
+    const { facilitySurfaceId, title, date, startTime, endTime } = bookingForm;
+    if (!organizationId || !facility || !facilitySurfaceId || !title.trim() || !date) {
+      return;
+    }
+    createBooking.mutate(
+      {
+        organizationId,
+        facilitySurfaceId,
+        title: title.trim(),
+        startsAt: zonedDateTimeToIso(date, startTime, facility.timeZone),
+        endsAt: zonedDateTimeToIso(date, endTime, facility.timeZone),
+      },
+      {
+        onSuccess: () => {
+          toast.success("Booking added");
+          setShowAddBooking(false);
+          setBookingForm(emptyBookingForm);
+        },
+        onError: (err) => {
+          if (!getScheduleConflicts(err)) toast.error(getErrorMessage(err));
+        },
+      },
+    );
+  };
+
+  const handleDeleteBooking = (bookingId: string) => {
+    if (!organizationId) return;
+    deleteBooking.mutate(
+      { organizationId, bookingId },
+      {
+        onSuccess: () => toast.success("Booking removed"),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  const saveTimeZone = (timeZone: string) => {
+    if (!organizationId || !facility?.id || timeZone === facility.timeZone) {
+      return;
+    }
+    updateFacility.mutate(
+      { organizationId, facilityId: facility.id, timeZone },
+      {
+        onSuccess: () => toast.success("Time zone updated"),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
   const startEditName = () => {
     setEditName(facility?.name ?? "");
     setEditingName(true);
@@ -134,6 +242,9 @@ function FacilityDetail() {
     setScheduleForm(
       getInitialOperatingScheduleFormState(facility?.operatingSchedule ?? null),
     );
+    setScheduleExceptionRows(
+      exceptionRowsFromExceptions(facility?.scheduleExceptions),
+    );
     setEditingSchedule(true);
   };
 
@@ -145,6 +256,7 @@ function FacilityDetail() {
         organizationId,
         facilityId: facility.id,
         operatingSchedule: payload,
+        scheduleExceptions: exceptionsFromExceptionRows(scheduleExceptionRows),
       },
       {
         onSuccess: () => {
@@ -236,6 +348,26 @@ function FacilityDetail() {
             </>
           )}
         </div>
+        {facility && (
+          <CalendarFeedButton
+            scope="facility"
+            targetId={facility.id}
+            label={facility.name}
+          />
+        )}
+        {facility && (
+          <FacilityGameSheetsButton
+            facilityId={facility.id}
+            facilityName={facility.name}
+            timeZone={facility.timeZone}
+          />
+        )}
+        {facility && (
+          <FacilityKioskButton
+            facilityId={facility.id}
+            facilityName={facility.name}
+          />
+        )}
         {facility && (
           <Button
             variant="outline"
@@ -327,6 +459,30 @@ function FacilityDetail() {
                   </p>
                 )}
               </div>
+              <div className="space-y-1">
+                <Label
+                  htmlFor="facility-time-zone"
+                  className="text-sm font-medium text-muted-foreground"
+                >
+                  Time zone
+                </Label>
+                <select
+                  id="facility-time-zone"
+                  className={selectClassName}
+                  value={facility.timeZone}
+                  onChange={(e) => saveTimeZone(e.target.value)}
+                  disabled={updateFacility.isPending}
+                >
+                  {!timeZoneOptions.includes(facility.timeZone) && (
+                    <option value={facility.timeZone}>{facility.timeZone}</option>
+                  )}
+                  {timeZoneOptions.map((tz) => (
+                    <option key={tz} value={tz}>
+                      {tz}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </CardContent>
           </Card>
 
@@ -338,7 +494,7 @@ function FacilityDetail() {
                   <div>
                     <CardTitle>Operating schedule</CardTitle>
                     <CardDescription>
-                      Hours open by day. Leave empty for closed.
+                      Hours open by day, plus holidays and blackout dates.
                     </CardDescription>
                   </div>
                 </div>
@@ -356,6 +512,8 @@ function FacilityDetail() {
                   <OperatingScheduleForm
                     value={scheduleForm}
                     onChange={setScheduleForm}
+                    exceptions={scheduleExceptionRows}
+                    onExceptionsChange={setScheduleExceptionRows}
                   />
                   <div className="flex gap-2">
                     <Button
@@ -383,11 +541,10 @@ function FacilityDetail() {
                 </div>
               ) : (
                 <div className="flex flex-col gap-2">
-                  {getFacilityScheduleGroups(facility.operatingSchedule).length ===
-                  0 ? (
+                  {scheduleGroups.length === 0 ? (
                     <p className="text-sm text-muted-foreground">No hours set.</p>
                   ) : (
-                    getFacilityScheduleGroups(facility.operatingSchedule).map(
+                    scheduleGroups.map(
                       (group, i) => (
                         <div key={i} className="flex flex-col gap-1">
                           <div className="flex flex-wrap gap-1">
@@ -403,10 +560,60 @@ function FacilityDetail() {
                           <span className="text-sm text-muted-foreground">
                             {group.timeRange}
                           </span>
+                          {group.notes.length > 0 && (
+                            <span className="text-xs text-muted-foreground">
+                              This week: {group.notes.join(", ")}
+                            </span>
+                          )}
                         </div>
                       ),
                     )
                   )}
+                  <ScheduleExceptionList
+                    exceptions={facility.scheduleExceptions}
+                  />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5" />
+                <CardTitle>Schedule conflicts</CardTitle>
+              </div>
+              <CardDescription>
+                Double-bookings and events outside operating hours in the next
+                90 days
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {conflictsPending ? (
+                <Skeleton className="h-16 w-full rounded-lg" />
+              ) : !conflictReport?.length ? (
+                <p className="text-sm text-muted-foreground">
+                  No conflicts found.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {conflictReport.map(({ event, conflicts }) => (
+                    <div key={`${event.kind}-${event.id}`} className="space-y-2">
+                      <p className="text-sm">
+                        <span className="font-medium">{event.title}</span>{" "}
+                        <span className="text-muted-foreground">
+                          {surfaceNames.get(event.facilitySurfaceId)} ·{" "}
+                          {formatInstantDate(event.startsAt, facility.timeZone)}{" "}
+                          {formatInstantTo12h(event.startsAt, facility.timeZone)} –{" "}
+                          {formatInstantTo12h(event.endsAt, facility.timeZone)}
+                        </span>
+                      </p>
+                      <ScheduleConflictList
+                        conflicts={conflicts}
+                        surfaceNames={surfaceNames}
+                      />
+                    </div>
+                  ))}
                 </div>
               )}
             </CardContent>
@@ -472,6 +679,81 @@ function FacilityDetail() {
               )}
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex flex-row items-center justify-between space-y-0">
+                <div className="flex items-center gap-2">
+                  <CalendarClock className="h-5 w-5" />
+                  <div>
+                    <CardTitle>Bookings</CardTitle>
+                    <CardDescription>
+                      Upcoming rentals, maintenance and other non-game use
+                    </CardDescription>
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    createBooking.reset();
+                    setShowAddBooking(true);
+                  }}
+                  disabled={facility.surfaces.length === 0}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add booking
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {!bookings?.length ? (
+                <p className="text-sm text-muted-foreground">
+                  No upcoming bookings.
+                </p>
+              ) : (
+                <div className="border rounded-lg overflow-hidden">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b bg-muted/50">
+                        <th className="text-left p-4 font-medium">Title</th>
+                        <th className="text-left p-4 font-medium">Surface</th>
+                        <th className="text-left p-4 font-medium">When</th>
+                        <th className="text-right p-4 font-medium">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {bookings.map((b) => (
+                        <tr key={b.id} className="border-b">
+                          <td className="p-4 font-medium">{b.title}</td>
+                          <td className="p-4 text-sm text-muted-foreground">
+                            {b.surfaceName}
+                          </td>
+                          <td className="p-4 text-sm text-muted-foreground">
+                            {formatInstantDate(b.startsAt, facility.timeZone)}{" "}
+                            {formatInstantTo12h(b.startsAt, facility.timeZone)} –{" "}
+                            {formatInstantTo12h(b.endsAt, facility.timeZone)}
+                          </td>
+                          <td className="p-4 text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-destructive hover:text-destructive"
+                              onClick={() => handleDeleteBooking(b.id)}
+                              disabled={deleteBooking.isPending}
+                              aria-label="Remove booking"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </>
       ) : null}
 
@@ -549,6 +831,115 @@ function FacilityDetail() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={showAddBooking} onOpenChange={setShowAddBooking}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add booking</DialogTitle>
+            <DialogDescription>
+              Reserve a surface. Overlaps with games or other bookings and
+              times outside operating hours are rejected. Times are in the
+              facility&apos;s time zone{facility ? ` (${facility.timeZone})` : ""}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="booking-title">Title</Label>
+              <Input
+                id="booking-title"
+                value={bookingForm.title}
+                onChange={(e) =>
+                  setBookingForm({ ...bookingForm, title: e.target.value })
+                }
+                placeholder="e.g. Field maintenance"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="booking-surface">Surface</Label>
+              <select
+                id="booking-surface"
+                className={selectClassName}
+                value={bookingForm.facilitySurfaceId}
+                onChange={(e) =>
+                  setBookingForm({
+                    ...bookingForm,
+                    facilitySurfaceId: e.target.value,
+                  })
+                }
+              >
+                <option value="">Select surface</option>
+                {facility?.surfaces.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-2 sm:grid-cols-3">
+              <div className="grid gap-2">
+                <Label htmlFor="booking-date">Date</Label>
+                <input
+                  id="booking-date"
+                  type="date"
+                  className={selectClassName}
+                  value={bookingForm.date}
+                  onChange={(e) =>
+                    setBookingForm({ ...bookingForm, date: e.target.value })
+                  }
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="booking-start">Start</Label>
+                <input
+                  id="booking-start"
+                  type="time"
+                  className={selectClassName}
+                  value={bookingForm.startTime}
+                  onChange={(e) =>
+                    setBookingForm({ ...bookingForm, startTime: e.target.value })
+                  }
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="booking-end">End</Label>
+                <input
+                  id="booking-end"
+                  type="time"
+                  className={selectClassName}
+                  value={bookingForm.endTime}
+                  onChange={(e) =>
+                    setBookingForm({ ...bookingForm, endTime: e.target.value })
+                  }
+                />
+              </div>
+            </div>
+            {bookingConflicts && (
+              <ScheduleConflictList
+                conflicts={bookingConflicts}
+                surfaceNames={surfaceNames}
+              />
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowAddBooking(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleAddBooking}
+              disabled={
+                !bookingForm.title.trim() ||
+                !bookingForm.facilitySurfaceId ||
+                !bookingForm.date ||
+                !bookingForm.startTime ||
+                !bookingForm.endTime ||
+                createBooking.isPending
+              }
+            >
+              {createBooking.isPending ? "Adding…" : "Add booking"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
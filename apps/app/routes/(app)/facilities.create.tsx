@@ -1,8 +1,10 @@
 import {
+  exceptionsFromExceptionRows,
   getInitialOperatingScheduleFormState,
   OperatingScheduleForm,
   scheduleFromFormState,
   type OperatingScheduleFormState,
+  type ScheduleExceptionFormRow,
 } from "@/components/operating-schedule-form";
 import { getErrorMessage } from "@/lib/errors";
 import { useOrganization } from "@/lib/queries/organization";
@@ -37,6 +39,9 @@ function CreateFacility() {
   const [address, setAddress] = useState("");
   const [operatingSchedule, setOperatingSchedule] =
     useState<OperatingScheduleFormState>(getInitialOperatingScheduleFormState(null));
+  const [scheduleExceptions, setScheduleExceptions] = useState<
+    ScheduleExceptionFormRow[]
+  >([]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -48,6 +53,7 @@ function CreateFacility() {
         name: name.trim(),
         ...(address.trim() ? { address: address.trim() } : {}),
         operatingSchedule: schedulePayload,
+        scheduleExceptions: exceptionsFromExceptionRows(scheduleExceptions),
       },
       {
         onSuccess: (data) => {
@@ -129,6 +135,8 @@ function CreateFacility() {
               <OperatingScheduleForm
                 value={operatingSchedule}
                 onChange={setOperatingSchedule}
+                exceptions={scheduleExceptions}
+                onExceptionsChange={setScheduleExceptions}
                 disabled={!organizationId}
               />
             </div>
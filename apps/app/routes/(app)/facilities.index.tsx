@@ -23,7 +23,10 @@ import {
   Input,
   Skeleton,
 } from "@repo/ui";
-import type { FacilityOperatingSchedule } from "@repo/db/schema/facility";
+import type {
+  FacilityOperatingSchedule,
+  ScheduleException,
+} from "@repo/db/schema/facility";
 import { createFileRoute, Link } from "@tanstack/react-router";
 import { MapPin, Plus, Search } from "lucide-react";
 import { useState } from "react";
@@ -36,10 +39,12 @@ const SEARCH_DEBOUNCE_MS = 800;
 
 function FacilityScheduleCell({
   schedule,
+  exceptions,
 }: {
   schedule: FacilityOperatingSchedule | null | undefined;
+  exceptions: ScheduleException[] | null | undefined;
 }) {
-  const groups = getFacilityScheduleGroups(schedule);
+  const groups = getFacilityScheduleGroups(schedule, exceptions ?? []);
   if (groups.length === 0) return <span className="text-muted-foreground">—</span>;
   return (
     <div className="flex flex-col gap-1.5">
@@ -56,6 +61,11 @@ function FacilityScheduleCell({
             ))}
           </div>
           <span className="text-muted-foreground text-sm">{group.timeRange}</span>
+          {group.notes.length > 0 && (
+            <span className="text-muted-foreground text-xs">
+              {group.notes.join(", ")}
+            </span>
+          )}
         </div>
       ))}
     </div>
@@ -168,7 +178,10 @@ function FacilitiesList() {
                         {f.address || "—"}
                       </td>
                       <td className="p-4 text-sm text-muted-foreground">
-                        <FacilityScheduleCell schedule={f.operatingSchedule} />
+                        <FacilityScheduleCell
+                          schedule={f.operatingSchedule}
+                          exceptions={f.scheduleExceptions}
+                        />
                       </td>
                       <td className="p-4 text-sm text-muted-foreground">
                         {f.surfaces?.length ?? 0}
@@ -0,0 +1,242 @@
+import { LeagueTabs } from "@/components/league-tabs";
+import { getErrorMessage } from "@/lib/errors";
+import { useDisplayTimeZone } from "@/lib/hooks/useDisplayTimeZone";
+import { formatInstantTo12h } from "@/lib/league-schedule";
+import { useCorrectGameResult } from "@/lib/queries/game";
+import { useLeagueById } from "@/lib/queries/league";
+import { useOrganization } from "@/lib/queries/organization";
+import { useScoreReports, type ScoreReport } from "@/lib/queries/score-reports";
+import { formatInstantDate } from "@/lib/time-zone";
+import { toast } from "@/lib/toast";
+import { Button, Card, CardContent, Input, Label, Skeleton } from "@repo/ui";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { ArrowLeft } from "lucide-react";
+import { useState } from "react";
+
+export const Route = createFileRoute("/(app)/leagues/$leagueId/disputes")({
+  component: LeagueDisputes,
+});
+
+function clampScore(value: string): number {
+  return Math.min(999, Math.max(0, Math.trunc(Number(value)) || 0));
+}
+
+/**
+ * One reported score. Settling it corrects the result with a reason, which confirms it and
+ * puts it in the standings.
+ */
+function ScoreReportCard({
+  report,
+  timeZone,
+}: {
+  report: ScoreReport;
+  timeZone: string;
+}) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const correctResult = useCorrectGameResult();
+  const [score, setScore] = useState(() => ({
+    home: String(report.homeScore ?? 0),
+    away: String(report.awayScore ?? 0),
+  }));
+  const [reason, setReason] = useState("");
+  const reportedByAway =
+    report.scoreReportedByLeagueTeamId === report.awayLeagueTeamId;
+  const reportedBy = reportedByAway ? report.awayTeamName : report.homeTeamName;
+  const answeredBy = reportedByAway ? report.homeTeamName : report.awayTeamName;
+
+  const settle = (homeScore: number, awayScore: number, why: string) => {
+    if (!organizationId) return;
+    correctResult.mutate(
+      {
+        organizationId,
+        gameId: report.id,
+        status: "final",
+        homeScore,
+        awayScore,
+        // Period scores no longer add up once the totals change.
+        periodScores:
+          homeScore === report.homeScore && awayScore === report.awayScore
+            ? (report.periodScores ?? undefined)
+            : undefined,
+        reason: why,
+      },
+      {
+        onSuccess: () => toast.success("Result settled"),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 pt-6">
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+          <span>
+            {formatInstantDate(report.startsAt, timeZone)}{" "}
+            {formatInstantTo12h(report.startsAt, timeZone)}
+          </span>
+          <span
+            className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${
+              report.scoreConfirmation === "disputed"
+                ? "bg-red-100 text-red-700"
+                : "bg-amber-100 text-amber-800"
+            }`}
+          >
+            {report.scoreConfirmation === "disputed"
+              ? "Disputed"
+              : "Awaiting confirmation"}
+          </span>
+        </div>
+        <div>
+          <p className="font-medium">
+            {report.homeTeamName} {report.homeScore}–{report.awayScore}{" "}
+            {report.awayTeamName}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            Reported by {reportedBy}.{" "}
+            {report.scoreConfirmation === "disputed"
+              ? `${answeredBy} disputes it: ${report.scoreDisputeReason ?? "no reason given"}`
+              : `${answeredBy} has not answered yet.`}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="grid gap-1">
+            <Label htmlFor={`settle-home-${report.id}`}>
+              {report.homeTeamName}
+            </Label>
+            <Input
+              id={`settle-home-${report.id}`}
+              type="number"
+              inputMode="numeric"
+              min={0}
+              max={999}
+              className="w-20"
+              value={score.home}
+              onChange={(e) =>
+                setScore((prev) => ({ ...prev, home: e.target.value }))
+              }
+            />
+          </div>
+          <div className="grid gap-1">
+            <Label htmlFor={`settle-away-${report.id}`}>
+              {report.awayTeamName}
+            </Label>
+            <Input
+              id={`settle-away-${report.id}`}
+              type="number"
+              inputMode="numeric"
+              min={0}
+              max={999}
+              className="w-20"
+              value={score.away}
+              onChange={(e) =>
+                setScore((prev) => ({ ...prev, away: e.target.value }))
+              }
+            />
+          </div>
+          <div className="grid gap-1 flex-1 min-w-48">
+            <Label htmlFor={`settle-reason-${report.id}`}>Reason</Label>
+            <Input
+              id={`settle-reason-${report.id}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Referee's sheet says 2–2"
+              maxLength={500}
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            onClick={() =>
+              settle(
+                clampScore(score.home),
+                clampScore(score.away),
+                reason.trim(),
+              )
+            }
+            disabled={
+              correctResult.isPending || !reason.trim() || !organizationId
+            }
+          >
+            {correctResult.isPending ? "Saving…" : "Settle result"}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() =>
+              settle(
+                report.homeScore ?? 0,
+                report.awayScore ?? 0,
+                "Reported score confirmed by league staff",
+              )
+            }
+            disabled={correctResult.isPending || !organizationId}
+          >
+            Confirm as reported
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function LeagueDisputes() {
+  const { leagueId } = Route.useParams();
+  const timeZone = useDisplayTimeZone();
+  const { data: league, isPending: leaguePending } = useLeagueById(leagueId);
+  const { data: reports, isPending: reportsPending } =
+    useScoreReports(leagueId);
+
+  return (
+    <div className="p-4 sm:p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link
+            to="/leagues/$leagueId"
+            params={{ leagueId }}
+            aria-label="Back to league"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1 min-w-0">
+          {leaguePending ? (
+            <Skeleton className="h-8 w-48 mb-2" />
+          ) : (
+            <>
+              <h2 className="text-2xl font-bold">{league?.name}</h2>
+              <p className="text-muted-foreground">
+                Scores reported by teams that are disputed or not confirmed yet.
+                They count in the standings once settled.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+
+      <LeagueTabs leagueId={leagueId} />
+
+      {reportsPending ? (
+        <div className="space-y-4">
+          <Skeleton className="h-40 w-full rounded-lg" />
+          <Skeleton className="h-40 w-full rounded-lg" />
+        </div>
+      ) : !reports?.length ? (
+        <p className="text-sm text-muted-foreground">
+          No reported scores waiting. Everything is settled.
+        </p>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {reports.map((r) => (
+            <ScoreReportCard
+              key={`${r.id}-${r.scoreConfirmation}`}
+              report={r}
+              timeZone={timeZone}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
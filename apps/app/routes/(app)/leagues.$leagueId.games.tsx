@@ -0,0 +1,611 @@
+import { GameStatusDialog } from "@/components/game-status-dialog";
+import { LeagueTabs } from "@/components/league-tabs";
+import { ScheduleConflictList } from "@/components/schedule-conflict-list";
+import { getErrorMessage, getScheduleConflicts } from "@/lib/errors";
+import { getGameSheetUrl } from "@/lib/game-sheets";
+import {
+  GAME_STATUS_OPTIONS,
+  getEditableGameStatuses,
+  getGameStatusBadgeClass,
+  getGameStatusLabel,
+  type GameStatusValue,
+} from "@/lib/game-status";
+import { useDisplayTimeZone } from "@/lib/hooks/useDisplayTimeZone";
+import { formatInstantTo12h } from "@/lib/league-schedule";
+import {
+  useCreateGame,
+  useDeleteGame,
+  useGames,
+  useSurfaces,
+  useUpdateGame,
+  type Game,
+} from "@/lib/queries/game";
+import { useLeagueById } from "@/lib/queries/league";
+import { useOrganization } from "@/lib/queries/organization";
+import {
+  formatInstantDate,
+  getZonedDateTime,
+  zonedDateTimeToIso,
+} from "@/lib/time-zone";
+import { toast } from "@/lib/toast";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Label,
+  Skeleton,
+  Textarea,
+} from "@repo/ui";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import {
+  ArrowLeft,
+  CalendarDays,
+  History,
+  Pencil,
+  Plus,
+  Printer,
+  Trash2,
+  Wand2,
+} from "lucide-react";
+import { useState } from "react";
+
+export const Route = createFileRoute("/(app)/leagues/$leagueId/games")({
+  component: LeagueGames,
+});
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+type GameFormState = {
+  homeLeagueTeamId: string;
+  awayLeagueTeamId: string;
+  facilitySurfaceId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  status: GameStatusValue;
+  notes: string;
+};
+
+const emptyGameForm: GameFormState = {
+  homeLeagueTeamId: "",
+  awayLeagueTeamId: "",
+  facilitySurfaceId: "",
+  date: "",
+  startTime: "",
+  endTime: "",
+  status: "scheduled",
+  notes: "",
+};
+
+/** Build form state (venue-local date + HH:mm) from a game row. */
+function formStateFromGame(g: Game, timeZone: string): GameFormState {
+  const starts = getZonedDateTime(g.startsAt, timeZone);
+  return {
+    homeLeagueTeamId: g.homeLeagueTeamId,
+    awayLeagueTeamId: g.awayLeagueTeamId,
+    facilitySurfaceId: g.facilitySurfaceId ?? "",
+    date: starts.date,
+    startTime: starts.time,
+    endTime: getZonedDateTime(g.endsAt, timeZone).time,
+    status: g.status,
+    notes: g.notes ?? "",
+  };
+}
+
+/** Convert venue-local date + HH:mm from the form to ISO instants. */
+function instantsFromFormState(
+  form: GameFormState,
+  timeZone: string,
+): {
+  startsAt: string;
+  endsAt: string;
+} {
+  return {
+    startsAt: zonedDateTimeToIso(form.date, form.startTime, timeZone),
+    endsAt: zonedDateTimeToIso(form.date, form.endTime, timeZone),
+  };
+}
+
+function LeagueGames() {
+  const { leagueId } = Route.useParams();
+  const { season } = Route.useSearch();
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const organizationTimeZone = organizations?.[0]?.timeZone ?? "UTC";
+  const displayTimeZone = useDisplayTimeZone();
+  const { data: league, isPending: leaguePending } = useLeagueById(
+    leagueId,
+    season,
+  );
+  const { data: games, isPending: gamesPending } = useGames(leagueId, {
+    seasonId: season,
+  });
+  const { data: surfaces } = useSurfaces();
+  const createGame = useCreateGame();
+  const updateGame = useUpdateGame();
+  const deleteGame = useDeleteGame();
+
+  const [editingGameId, setEditingGameId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<GameFormState>(emptyGameForm);
+  const [gameToDelete, setGameToDelete] = useState<Game | null>(null);
+  const [gameToManage, setGameToManage] = useState<Game | null>(null);
+
+  const teams = league?.participatingTeams ?? [];
+  const editingGame = games?.find((g) => g.id === editingGameId);
+  /** Postponed games keep their slot until rescheduled through the status dialog. */
+  const slotLocked = editingGame?.status === "postponed";
+  const isSaving = createGame.isPending || updateGame.isPending;
+  const saveConflicts = getScheduleConflicts(
+    editingGameId ? updateGame.error : createGame.error,
+  );
+  const surfaceNames = new Map(
+    (surfaces ?? []).map((s) => [s.id, `${s.facilityName} · ${s.name}`]),
+  );
+  /** Game times are entered on the venue's wall clock; without a venue, the organization's. */
+  const getVenueTimeZone = (facilitySurfaceId: string | null) =>
+    surfaces?.find((s) => s.id === facilitySurfaceId)?.timeZone ??
+    organizationTimeZone;
+  const formTimeZone = getVenueTimeZone(form.facilitySurfaceId);
+  const canSave =
+    form.homeLeagueTeamId &&
+    form.awayLeagueTeamId &&
+    form.homeLeagueTeamId !== form.awayLeagueTeamId &&
+    form.date &&
+    form.startTime &&
+    form.endTime;
+
+  const openCreate = () => {
+    createGame.reset();
+    setEditingGameId(null);
+    setForm(emptyGameForm);
+    setShowForm(true);
+  };
+
+  const openEdit = (g: Game) => {
+    updateGame.reset();
+    setEditingGameId(g.id);
+    setForm(formStateFromGame(g, getVenueTimeZone(g.facilitySurfaceId)));
+    setShowForm(true);
+  };
+
+  const handleSave = () => {
+    if (!organizationId || !canSave) return;
+    const { startsAt, endsAt } = instantsFromFormState(form, formTimeZone);
+    const callbacks = {
+      onSuccess: () => {
+        toast.success(editingGameId ? "Game updated" : "Game added");
+        setShowForm(false);
+      },
+      onError: (err: unknown) => {
+        if (!getScheduleConflicts(err)) toast.error(getErrorMessage(err));
+      },
+    };
+    if (editingGameId) {
+      updateGame.mutate(
+        {
+          organizationId,
+          gameId: editingGameId,
+          homeLeagueTeamId: form.homeLeagueTeamId,
+          awayLeagueTeamId: form.awayLeagueTeamId,
+          ...(slotLocked
+            ? {}
+            : {
+                facilitySurfaceId: form.facilitySurfaceId || null,
+                startsAt,
+                endsAt,
+              }),
+          status: form.status,
+          notes: form.notes.trim() || null,
+        },
+        callbacks,
+      );
+    } else {
+      createGame.mutate(
+        {
+          organizationId,
+          leagueId,
+          homeLeagueTeamId: form.homeLeagueTeamId,
+          awayLeagueTeamId: form.awayLeagueTeamId,
+          ...(form.facilitySurfaceId
+            ? { facilitySurfaceId: form.facilitySurfaceId }
+            : {}),
+          startsAt,
+          endsAt,
+          ...(form.notes.trim() ? { notes: form.notes.trim() } : {}),
+        },
+        callbacks,
+      );
+    }
+  };
+
+  const handleDeleteConfirm = () => {
+    if (!organizationId || !gameToDelete) return;
+    deleteGame.mutate(
+      { organizationId, gameId: gameToDelete.id },
+      {
+        onSuccess: () => {
+          toast.success("Game deleted");
+          setGameToDelete(null);
+        },
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link
+            to="/leagues/$leagueId"
+            params={{ leagueId }}
+            aria-label="Back to league"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1 min-w-0">
+          {leaguePending ? (
+            <Skeleton className="h-8 w-48 mb-2" />
+          ) : (
+            <>
+              <h2 className="text-2xl font-bold">{league?.name}</h2>
+              <p className="text-muted-foreground">
+                Games between teams in this league
+              </p>
+            </>
+          )}
+        </div>
+        {!league?.season.completedAt && (
+          <>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/leagues/$leagueId/schedule" params={{ leagueId }}>
+                <Wand2 className="h-4 w-4 mr-2" />
+                Generate schedule
+              </Link>
+            </Button>
+            <Button
+              size="sm"
+              onClick={openCreate}
+              disabled={!organizationId || teams.length < 2}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add game
+            </Button>
+          </>
+        )}
+      </div>
+
+      <LeagueTabs leagueId={leagueId} />
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5" />
+            <CardTitle>Games</CardTitle>
+          </div>
+          <CardDescription>Who plays whom, where and when.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {gamesPending ? (
+            <Skeleton className="h-24 w-full rounded-lg" />
+          ) : !games?.length ? (
+            <p className="text-sm text-muted-foreground">
+              {teams.length < 2
+                ? "Add at least two teams to this league to schedule games."
+                : "No games scheduled yet."}
+            </p>
+          ) : (
+            <div className="border rounded-lg">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="text-left p-4 font-medium">Date</th>
+                      <th className="text-left p-4 font-medium">Time</th>
+                      <th className="text-left p-4 font-medium">Home</th>
+                      <th className="text-left p-4 font-medium">Away</th>
+                      <th className="text-left p-4 font-medium">Score</th>
+                      <th className="text-left p-4 font-medium">Venue</th>
+                      <th className="text-left p-4 font-medium">Status</th>
+                      <th className="text-right p-4 font-medium">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {games.map((g) => (
+                      <tr key={g.id} className="border-b">
+                        <td className="p-4 text-sm">
+                          {formatInstantDate(g.startsAt, displayTimeZone)}
+                        </td>
+                        <td className="p-4 text-sm text-muted-foreground">
+                          {formatInstantTo12h(g.startsAt, displayTimeZone)} –{" "}
+                          {formatInstantTo12h(g.endsAt, displayTimeZone)}
+                        </td>
+                        <td className="p-4 font-medium">{g.homeTeamName}</td>
+                        <td className="p-4 font-medium">{g.awayTeamName}</td>
+                        <td className="p-4 text-sm tabular-nums">
+                          {g.homeScore != null
+                            ? `${g.homeScore}–${g.awayScore}`
+                            : "—"}
+                        </td>
+                        <td className="p-4 text-sm text-muted-foreground">
+                          {g.surfaceName
+                            ? `${g.facilityName} · ${g.surfaceName}`
+                            : "—"}
+                        </td>
+                        <td className="p-4">
+                          <span
+                            className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${getGameStatusBadgeClass(g.status)}`}
+                          >
+                            {getGameStatusLabel(g.status)}
+                          </span>
+                          {g.statusReason && (
+                            <p className="mt-1 text-xs text-muted-foreground">
+                              {g.statusReason}
+                            </p>
+                          )}
+                        </td>
+                        <td className="p-4 text-right whitespace-nowrap">
+                          {organizationId && (
+                            <Button variant="ghost" size="sm" asChild>
+                              <a
+                                href={getGameSheetUrl(organizationId, g.id)}
+                                target="_blank"
+                                rel="noreferrer"
+                                aria-label="Print game sheet"
+                              >
+                                <Printer className="h-4 w-4" />
+                              </a>
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setGameToManage(g)}
+                            aria-label="Postpone, reschedule or view history"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openEdit(g)}
+                            aria-label="Edit game"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => setGameToDelete(g)}
+                            aria-label="Delete game"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editingGameId ? "Edit game" : "Add game"}
+            </DialogTitle>
+            <DialogDescription>
+              Pick the two teams, the venue and the time slot. Times are local
+              to the venue ({formTimeZone}).
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2 sm:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="game-home">Home team</Label>
+                <select
+                  id="game-home"
+                  className={selectClassName}
+                  value={form.homeLeagueTeamId}
+                  onChange={(e) =>
+                    setForm({ ...form, homeLeagueTeamId: e.target.value })
+                  }
+                >
+                  <option value="">Select team</option>
+                  {teams.map((t) => (
+                    <option key={t.leagueTeamId} value={t.leagueTeamId}>
+                      {t.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="game-away">Away team</Label>
+                <select
+                  id="game-away"
+                  className={selectClassName}
+                  value={form.awayLeagueTeamId}
+                  onChange={(e) =>
+                    setForm({ ...form, awayLeagueTeamId: e.target.value })
+                  }
+                >
+                  <option value="">Select team</option>
+                  {teams
+                    .filter((t) => t.leagueTeamId !== form.homeLeagueTeamId)
+                    .map((t) => (
+                      <option key={t.leagueTeamId} value={t.leagueTeamId}>
+                        {t.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="game-surface">Venue (optional)</Label>
+              <select
+                id="game-surface"
+                disabled={slotLocked}
+                className={selectClassName}
+                value={form.facilitySurfaceId}
+                onChange={(e) =>
+                  setForm({ ...form, facilitySurfaceId: e.target.value })
+                }
+              >
+                <option value="">Not assigned</option>
+                {(surfaces ?? []).map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.facilityName} · {s.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-2 sm:grid-cols-3">
+              <div className="grid gap-2">
+                <Label htmlFor="game-date">Date</Label>
+                <input
+                  id="game-date"
+                  disabled={slotLocked}
+                  type="date"
+                  className={selectClassName}
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="game-start">Start</Label>
+                <input
+                  id="game-start"
+                  disabled={slotLocked}
+                  type="time"
+                  className={selectClassName}
+                  value={form.startTime}
+                  onChange={(e) =>
+                    setForm({ ...form, startTime: e.target.value })
+                  }
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="game-end">End</Label>
+                <input
+                  id="game-end"
+                  disabled={slotLocked}
+                  type="time"
+                  className={selectClassName}
+                  value={form.endTime}
+                  onChange={(e) =>
+                    setForm({ ...form, endTime: e.target.value })
+                  }
+                />
+              </div>
+            </div>
+            {editingGameId && (
+              <div className="grid gap-2">
+                <Label htmlFor="game-status">Status</Label>
+                <select
+                  id="game-status"
+                  className={selectClassName}
+                  value={form.status}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      status: e.target.value as GameStatusValue,
+                    })
+                  }
+                >
+                  {GAME_STATUS_OPTIONS.filter((opt) =>
+                    getEditableGameStatuses(
+                      editingGame?.status ?? "scheduled",
+                    ).includes(opt.value),
+                  ).map((opt) => (
+                    <option key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  {slotLocked
+                    ? "This game is postponed. Use the history button to reschedule it."
+                    : "To postpone, cancel or record a forfeit, use the history button so the teams are notified."}
+                </p>
+              </div>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="game-notes">Notes (optional)</Label>
+              <Textarea
+                id="game-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+            {saveConflicts && (
+              <ScheduleConflictList
+                conflicts={saveConflicts}
+                surfaceNames={surfaceNames}
+              />
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!canSave || isSaving}>
+              {isSaving ? "Saving…" : editingGameId ? "Save game" : "Add game"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <GameStatusDialog
+        key={gameToManage?.id ?? "none"}
+        game={gameToManage}
+        surfaces={surfaces ?? []}
+        onOpenChange={(open) => !open && setGameToManage(null)}
+      />
+
+      <Dialog
+        open={gameToDelete != null}
+        onOpenChange={(open) => !open && setGameToDelete(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete game</DialogTitle>
+            <DialogDescription>
+              Delete {gameToDelete?.homeTeamName} vs{" "}
+              {gameToDelete?.awayTeamName}? This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setGameToDelete(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeleteConfirm}
+              disabled={deleteGame.isPending}
+            >
+              {deleteGame.isPending ? "Deleting…" : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,29 @@
-import { useLeagueById } from "@/lib/queries/league";
+import { CalendarFeedButton } from "@/components/calendar-feed-button";
+import { LeagueDivisionsCard } from "@/components/league-divisions-card";
+import { LeagueRulesCard } from "@/components/league-rules-card";
+import { LeagueTabs } from "@/components/league-tabs";
+import {
+  exceptionRowsFromExceptions,
+  exceptionsFromExceptionRows,
+  getInitialOperatingScheduleFormState,
+  OperatingScheduleForm,
+  scheduleFromFormState,
+  type OperatingScheduleFormState,
+  type ScheduleExceptionFormRow,
+} from "@/components/operating-schedule-form";
+import { ScheduleExceptionList } from "@/components/schedule-exception-list";
+import { ScheduleFairnessCard } from "@/components/schedule-fairness-card";
+import { getErrorMessage } from "@/lib/errors";
+import {
+  useLeagueById,
+  useUpdateLeagueSchedule,
+  useUpdateLeagueSport,
+} from "@/lib/queries/league";
 import { getLeagueAgeGroupLabel } from "@/lib/league-age-group";
+import { LEAGUE_SPORT_OPTIONS, type LeagueSportValue } from "@/lib/league-sport";
 import { getFacilityScheduleGroups } from "@/lib/facility-schedule";
+import { useOrganization } from "@/lib/queries/organization";
+import { toast } from "@/lib/toast";
 import {
   Avatar,
   AvatarFallback,
@@ -13,17 +36,35 @@ import {
   Skeleton,
 } from "@repo/ui";
 import { createFileRoute, Link } from "@tanstack/react-router";
-import { ArrowLeft, Trophy, Users } from "lucide-react";
+import {
+  ArrowLeft,
+  CalendarPlus,
+  Clock,
+  Pencil,
+  Trophy,
+  Users,
+} from "lucide-react";
+import { useState } from "react";
 
 function LeagueScheduleDisplay({
   operatingSchedule,
+  scheduleExceptions,
 }: {
   operatingSchedule: import("@repo/db/schema/facility").FacilityOperatingSchedule | null | undefined;
+  scheduleExceptions: import("@repo/db/schema/facility").ScheduleException[] | null | undefined;
 }) {
-  const groups = getFacilityScheduleGroups(operatingSchedule).filter(
-    (g) => g.timeRange !== "Closed",
-  );
-  if (groups.length === 0) return <p className="text-sm">—</p>;
+  const groups = getFacilityScheduleGroups(
+    operatingSchedule,
+    scheduleExceptions ?? [],
+  ).filter((g) => g.timeRange !== "Closed");
+  if (groups.length === 0) {
+    return (
+      <div className="flex flex-col gap-2">
+        <p className="text-sm">—</p>
+        <ScheduleExceptionList exceptions={scheduleExceptions} />
+      </div>
+    );
+  }
   return (
     <div className="flex flex-col gap-2">
       {groups.map((group, i) => (
@@ -39,8 +80,14 @@ function LeagueScheduleDisplay({
             ))}
           </div>
           <p className="text-sm text-muted-foreground">{group.timeRange}</p>
+          {group.notes.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              This week: {group.notes.join(", ")}
+            </p>
+          )}
         </div>
       ))}
+      <ScheduleExceptionList exceptions={scheduleExceptions} />
     </div>
   );
 }
@@ -51,7 +98,48 @@ export const Route = createFileRoute("/(app)/leagues/$leagueId/")({
 
 function LeagueDetail() {
   const { leagueId } = Route.useParams();
-  const { data: league, isPending, error } = useLeagueById(leagueId);
+  const { season } = Route.useSearch();
+  const { data: league, isPending, error } = useLeagueById(leagueId, season);
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const updateLeagueSchedule = useUpdateLeagueSchedule();
+  const updateLeagueSport = useUpdateLeagueSport();
+  const [editingSchedule, setEditingSchedule] = useState(false);
+  const [scheduleForm, setScheduleForm] = useState<OperatingScheduleFormState>(
+    () => getInitialOperatingScheduleFormState(null),
+  );
+  const [scheduleExceptionRows, setScheduleExceptionRows] = useState<
+    ScheduleExceptionFormRow[]
+  >([]);
+
+  const startEditSchedule = () => {
+    setScheduleForm(
+      getInitialOperatingScheduleFormState(league?.operatingSchedule ?? null),
+    );
+    setScheduleExceptionRows(
+      exceptionRowsFromExceptions(league?.scheduleExceptions),
+    );
+    setEditingSchedule(true);
+  };
+
+  const saveSchedule = () => {
+    if (!organizationId || !league?.id) return;
+    updateLeagueSchedule.mutate(
+      {
+        organizationId,
+        leagueId: league.id,
+        operatingSchedule: scheduleFromFormState(scheduleForm),
+        scheduleExceptions: exceptionsFromExceptionRows(scheduleExceptionRows),
+      },
+      {
+        onSuccess: () => {
+          toast.success("League schedule updated");
+          setEditingSchedule(false);
+        },
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
 
   if (error) {
     return (
@@ -93,6 +181,13 @@ function LeagueDetail() {
             </>
           )}
         </div>
+        {league && (
+          <CalendarFeedButton
+            scope="league"
+            targetId={leagueId}
+            label={league.name}
+          />
+        )}
         <Button variant="outline" size="sm" asChild>
           <Link
             to="/leagues/$leagueId/teams"
@@ -104,6 +199,8 @@ function LeagueDetail() {
         </Button>
       </div>
 
+      <LeagueTabs leagueId={leagueId} />
+
       {isPending ? (
         <Card>
           <CardHeader>
@@ -120,11 +217,26 @@ function LeagueDetail() {
         <>
           <Card>
             <CardHeader>
-              <div className="flex items-center gap-2">
-                <Trophy className="h-5 w-5" />
-                <CardTitle>League information</CardTitle>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Trophy className="h-5 w-5" />
+                  <div>
+                    <CardTitle>League information</CardTitle>
+                    <CardDescription>Details for {league.name}</CardDescription>
+                  </div>
+                </div>
+                {!league.season.completedAt && (
+                  <Button variant="outline" size="sm" asChild>
+                    <Link
+                      to="/leagues/$leagueId/rollover"
+                      params={{ leagueId }}
+                    >
+                      <CalendarPlus className="h-4 w-4 mr-2" />
+                      Roll over
+                    </Link>
+                  </Button>
+                )}
               </div>
-              <CardDescription>Details for {league.name}</CardDescription>
             </CardHeader>
             <CardContent className="grid gap-4 sm:grid-cols-2">
               <div className="space-y-1">
@@ -142,10 +254,38 @@ function LeagueDetail() {
                 </p>
               </div>
               <div className="space-y-1">
-                <p className="text-sm font-medium text-muted-foreground">
-                  Schedule
-                </p>
-                <LeagueScheduleDisplay operatingSchedule={league.operatingSchedule} />
+                <label
+                  htmlFor="league-sport"
+                  className="text-sm font-medium text-muted-foreground"
+                >
+                  Sport
+                </label>
+                <select
+                  id="league-sport"
+                  className="flex h-9 w-full max-w-xs rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                  value={league.sport}
+                  onChange={(e) => {
+                    if (!organizationId) return;
+                    updateLeagueSport.mutate(
+                      {
+                        organizationId,
+                        leagueId: league.id,
+                        sport: e.target.value as LeagueSportValue,
+                      },
+                      {
+                        onSuccess: () => toast.success("Sport updated"),
+                        onError: (err) => toast.error(getErrorMessage(err)),
+                      },
+                    );
+                  }}
+                  disabled={updateLeagueSport.isPending || !organizationId}
+                >
+                  {LEAGUE_SPORT_OPTIONS.map((opt) => (
+                    <option key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
               </div>
               <div className="space-y-1">
                 <p className="text-sm font-medium text-muted-foreground">
@@ -153,13 +293,22 @@ function LeagueDetail() {
                 </p>
                 <p className="font-mono text-sm">{league.slug ?? "—"}</p>
               </div>
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-muted-foreground">
+                  Season
+                </p>
+                <p className="text-sm">
+                  {league.season.name}
+                  {league.season.completedAt ? " (completed)" : ""}
+                </p>
+              </div>
               <div className="space-y-1">
                 <p className="text-sm font-medium text-muted-foreground">
                   Start date
                 </p>
                 <p className="text-sm">
-                  {league.startDate
-                    ? new Date(league.startDate + "T12:00:00").toLocaleDateString()
+                  {league.season.startDate
+                    ? new Date(league.season.startDate + "T12:00:00").toLocaleDateString()
                     : "—"}
                 </p>
               </div>
@@ -168,23 +317,93 @@ function LeagueDetail() {
                   End date
                 </p>
                 <p className="text-sm">
-                  {league.endDate
-                    ? new Date(league.endDate + "T12:00:00").toLocaleDateString()
+                  {league.season.endDate
+                    ? new Date(league.season.endDate + "T12:00:00").toLocaleDateString()
                     : "—"}
                 </p>
               </div>
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Clock className="h-5 w-5" />
+                  <div>
+                    <CardTitle>Schedule</CardTitle>
+                    <CardDescription>
+                      Days and times games are played, plus holidays and
+                      blackout dates.
+                    </CardDescription>
+                  </div>
+                </div>
+                {!editingSchedule && (
+                  <Button variant="outline" size="sm" onClick={startEditSchedule}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {editingSchedule ? (
+                <div className="space-y-4">
+                  <OperatingScheduleForm
+                    value={scheduleForm}
+                    onChange={setScheduleForm}
+                    exceptions={scheduleExceptionRows}
+                    onExceptionsChange={setScheduleExceptionRows}
+                    disabled={!organizationId}
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={saveSchedule}
+                      disabled={updateLeagueSchedule.isPending || !organizationId}
+                    >
+                      {updateLeagueSchedule.isPending ? "Saving…" : "Save schedule"}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditingSchedule(false)}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <LeagueScheduleDisplay
+                  operatingSchedule={league.operatingSchedule}
+                  scheduleExceptions={league.scheduleExceptions}
+                />
+              )}
+            </CardContent>
+          </Card>
+
+          <LeagueRulesCard league={league} />
+
+          <ScheduleFairnessCard leagueId={leagueId} seasonId={season} />
+
+          {!league.season.completedAt && (
+            <LeagueDivisionsCard
+              leagueId={leagueId}
+              divisions={league.divisions}
+            />
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>Teams participating</CardTitle>
-              <CardDescription>Teams enrolled in this league</CardDescription>
+              <CardDescription>
+                Teams enrolled in {league.season.name}
+              </CardDescription>
             </CardHeader>
             <CardContent>
               {!league.participatingTeams?.length ? (
                 <p className="text-sm text-muted-foreground">
-                  No teams in this league yet.
+                  No teams in this season yet.
                 </p>
               ) : (
                 <div className="border rounded-lg">
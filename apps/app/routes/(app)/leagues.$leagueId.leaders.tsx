@@ -0,0 +1,125 @@
+import { LeagueTabs } from "@/components/league-tabs";
+import { getLeagueSportLabel } from "@/lib/league-sport";
+import { useLeagueById } from "@/lib/queries/league";
+import { useLeagueLeaderboards } from "@/lib/queries/player-stats";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Skeleton,
+} from "@repo/ui";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { ArrowLeft, Medal } from "lucide-react";
+
+export const Route = createFileRoute("/(app)/leagues/$leagueId/leaders")({
+  component: LeagueLeaders,
+});
+
+function LeagueLeaders() {
+  const { leagueId } = Route.useParams();
+  const { season } = Route.useSearch();
+  const { data: league, isPending: leaguePending } = useLeagueById(leagueId);
+  const { data, isPending, error } = useLeagueLeaderboards(leagueId, season);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link
+            to="/leagues/$leagueId"
+            params={{ leagueId }}
+            aria-label="Back to league"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1 min-w-0">
+          {leaguePending ? (
+            <Skeleton className="h-8 w-48 mb-2" />
+          ) : (
+            <>
+              <h2 className="text-2xl font-bold">{league?.name}</h2>
+              <p className="text-muted-foreground text-sm">
+                {getLeagueSportLabel(league?.sport)} leaders from final games.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+
+      <LeagueTabs leagueId={leagueId} />
+
+      {isPending ? (
+        <div className="grid gap-6 md:grid-cols-2">
+          <Skeleton className="h-48 w-full rounded-lg" />
+          <Skeleton className="h-48 w-full rounded-lg" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error.message}</p>
+      ) : data ? (
+        <div className="grid gap-6 md:grid-cols-2">
+          {data.leaderboards.map((board) => (
+            <Card key={board.key}>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <Medal className="h-5 w-5" />
+                  <div>
+                    <CardTitle>{board.label}</CardTitle>
+                    <CardDescription>Season total</CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {board.leaders.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No {board.label.toLowerCase()} recorded yet.
+                  </p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-muted-foreground">
+                        <th className="text-left py-2 pr-2 font-medium">#</th>
+                        <th className="text-left py-2 pr-2 font-medium">
+                          Player
+                        </th>
+                        <th className="text-left py-2 pr-2 font-medium">GP</th>
+                        <th className="text-right py-2 font-medium">
+                          {board.abbreviation}
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {board.leaders.map((leader) => (
+                        <tr
+                          key={leader.userId}
+                          className="border-b last:border-0"
+                        >
+                          <td className="py-2 pr-2 text-muted-foreground">
+                            {leader.rank}
+                          </td>
+                          <td className="py-2 pr-2">
+                            <span className="font-medium">{leader.name}</span>
+                            <span className="block text-xs text-muted-foreground">
+                              {leader.teamName}
+                            </span>
+                          </td>
+                          <td className="py-2 pr-2">{leader.games}</td>
+                          <td className="py-2 text-right font-semibold">
+                            {leader.total}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,413 @@
+import { LeagueTabs } from "@/components/league-tabs";
+import { PlayoffBracketDiagram } from "@/components/playoff-bracket-diagram";
+import { getErrorMessage } from "@/lib/errors";
+import {
+  useLeagueStandings,
+  useSurfaces,
+  type LeagueStandings,
+} from "@/lib/queries/game";
+import { useLeagueById } from "@/lib/queries/league";
+import { useOrganization } from "@/lib/queries/organization";
+import {
+  useCreatePlayoffBracket,
+  useDeletePlayoffBracket,
+  usePlayoffBracket,
+  type PlayoffBracket,
+} from "@/lib/queries/playoffs";
+import { toast } from "@/lib/toast";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Label,
+  Skeleton,
+} from "@repo/ui";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { ArrowLeft, GitFork, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+export const Route = createFileRoute("/(app)/leagues/$leagueId/playoffs")({
+  component: LeaguePlayoffsPage,
+});
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+const FORMAT_LABELS: Record<PlayoffBracket["format"], string> = {
+  single_elimination: "Single elimination",
+  double_elimination: "Double elimination",
+};
+
+function isPowerOfTwo(value: number): boolean {
+  return value >= 2 && (value & (value - 1)) === 0;
+}
+
+interface CreateBracketFormProps {
+  leagueId: string;
+  standings: LeagueStandings;
+}
+
+function CreateBracketForm({ leagueId, standings }: CreateBracketFormProps) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const { data: surfaces, isPending: surfacesPending } = useSurfaces();
+  const createBracket = useCreatePlayoffBracket();
+  const teamTotal = standings.rows.length;
+
+  const [format, setFormat] =
+    useState<PlayoffBracket["format"]>("single_elimination");
+  const [teamCountInput, setTeamCountInput] = useState(() => {
+    let size = 2;
+    while (size * 2 <= teamTotal) size *= 2;
+    return String(Math.min(size, teamTotal));
+  });
+  const [byes, setByes] = useState(false);
+  const [surfaceIds, setSurfaceIds] = useState<string[]>([]);
+  const [gameDuration, setGameDuration] = useState("60");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+
+  const teamCount = Number(teamCountInput);
+  const duration = Number(gameDuration);
+  const validTeamCount =
+    Number.isInteger(teamCount) &&
+    teamCount >= 2 &&
+    teamCount <= teamTotal &&
+    (byes || isPowerOfTwo(teamCount)) &&
+    (format === "single_elimination" || teamCount >= 3);
+  const canCreate =
+    Boolean(organizationId) &&
+    validTeamCount &&
+    surfaceIds.length > 0 &&
+    Number.isInteger(duration) &&
+    duration >= 10 &&
+    Boolean(startDate);
+  const seeded = validTeamCount ? standings.rows.slice(0, teamCount) : [];
+
+  const toggleSurface = (id: string) => {
+    setSurfaceIds((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id],
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organizationId || !canCreate) return;
+    createBracket.mutate(
+      {
+        organizationId,
+        leagueId,
+        format,
+        teamCount,
+        byes,
+        facilitySurfaceIds: surfaceIds,
+        gameDurationMinutes: duration,
+        startDate,
+        ...(endDate ? { endDate } : {}),
+      },
+      {
+        onSuccess: (data) =>
+          toast.success(
+            `Bracket created with ${data.games} first-round game${data.games === 1 ? "" : "s"}`,
+          ),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="grid gap-2">
+          <Label htmlFor="playoff-format">Format</Label>
+          <select
+            id="playoff-format"
+            className={selectClassName}
+            value={format}
+            onChange={(e) =>
+              setFormat(e.target.value as PlayoffBracket["format"])
+            }
+          >
+            {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="playoff-teams">Teams (top of the standings)</Label>
+          <Input
+            id="playoff-teams"
+            type="number"
+            min={2}
+            max={teamTotal}
+            value={teamCountInput}
+            onChange={(e) => setTeamCountInput(e.target.value)}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="playoff-duration">Game length (minutes)</Label>
+          <Input
+            id="playoff-duration"
+            type="number"
+            min={10}
+            max={600}
+            step={5}
+            value={gameDuration}
+            onChange={(e) => setGameDuration(e.target.value)}
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm sm:mt-7">
+          <input
+            type="checkbox"
+            checked={byes}
+            onChange={(e) => setByes(e.target.checked)}
+          />
+          Give top seeds byes to fill the bracket
+        </label>
+        <div className="grid gap-2">
+          <Label htmlFor="playoff-start">Start date</Label>
+          <input
+            id="playoff-start"
+            type="date"
+            className={selectClassName}
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="playoff-end">End date (optional)</Label>
+          <input
+            id="playoff-end"
+            type="date"
+            className={selectClassName}
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+          />
+        </div>
+      </div>
+      {!validTeamCount && teamCountInput !== "" && (
+        <p className="text-sm text-muted-foreground">
+          {teamCount > teamTotal
+            ? `The league has ${teamTotal} teams.`
+            : format === "double_elimination" && teamCount < 3
+              ? "Double elimination needs at least three teams."
+              : "Without byes the number of teams must be 2, 4, 8, 16…"}
+        </p>
+      )}
+      <div className="grid gap-2">
+        <Label>Surfaces</Label>
+        {surfacesPending ? (
+          <Skeleton className="h-16 w-full rounded-lg" />
+        ) : !surfaces?.length ? (
+          <p className="text-sm text-muted-foreground">
+            Add a facility with at least one surface first.
+          </p>
+        ) : (
+          <div className="grid gap-2 sm:grid-cols-2">
+            {surfaces.map((s) => (
+              <label
+                key={s.id}
+                className="flex items-center gap-2 rounded-md border p-2 text-sm cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={surfaceIds.includes(s.id)}
+                  onChange={() => toggleSurface(s.id)}
+                />
+                <span>
+                  {s.facilityName} · {s.name}
+                </span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+      {seeded.length > 0 && (
+        <div className="space-y-1">
+          <Label>Seeds</Label>
+          <ol className="grid gap-1 text-sm sm:grid-cols-2">
+            {seeded.map((row, index) => (
+              <li key={row.leagueTeamId}>
+                <span className="text-muted-foreground">{index + 1}.</span>{" "}
+                {row.name}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+      <Button type="submit" disabled={!canCreate || createBracket.isPending}>
+        {createBracket.isPending ? "Creating…" : "Create bracket"}
+      </Button>
+    </form>
+  );
+}
+
+function LeaguePlayoffsPage() {
+  const { leagueId } = Route.useParams();
+  const { season } = Route.useSearch();
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const { data: league, isPending: leaguePending } = useLeagueById(
+    leagueId,
+    season,
+  );
+  // Brackets of a completed season are kept as they were.
+  const readOnly = Boolean(league?.season.completedAt);
+  const {
+    data: bracket,
+    isPending,
+    error,
+  } = usePlayoffBracket(leagueId, season);
+  const { data: standings } = useLeagueStandings(leagueId, season);
+  const deleteBracket = useDeletePlayoffBracket();
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const handleDeleteConfirm = () => {
+    if (!organizationId) return;
+    deleteBracket.mutate(
+      { organizationId, leagueId },
+      {
+        onSuccess: () => {
+          toast.success("Playoff bracket deleted");
+          setConfirmDelete(false);
+        },
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link
+            to="/leagues/$leagueId"
+            params={{ leagueId }}
+            aria-label="Back to league"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1 min-w-0">
+          {leaguePending ? (
+            <Skeleton className="h-8 w-48 mb-2" />
+          ) : (
+            <>
+              <h2 className="text-2xl font-bold">{league?.name}</h2>
+              <p className="text-muted-foreground text-sm">
+                Playoffs seeded from the standings. Winners advance as results
+                are entered.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+
+      <LeagueTabs leagueId={leagueId} />
+
+      {isPending ? (
+        <div className="space-y-2">
+          <Skeleton className="h-4 w-full" />
+          <Skeleton className="h-4 w-3/4" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error.message}</p>
+      ) : readOnly && !bracket ? (
+        <p className="text-sm text-muted-foreground">
+          This season had no playoffs.
+        </p>
+      ) : bracket ? (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <GitFork className="h-5 w-5" />
+                <div>
+                  <CardTitle>Playoff bracket</CardTitle>
+                  <CardDescription>
+                    {FORMAT_LABELS[bracket.format]}, {bracket.teamCount} teams
+                    {bracket.byes ? " with byes for the top seeds" : ""}.
+                  </CardDescription>
+                </div>
+              </div>
+              {!readOnly && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setConfirmDelete(true)}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete bracket
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <PlayoffBracketDiagram bracket={bracket} />
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="max-w-2xl">
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <GitFork className="h-5 w-5" />
+              <CardTitle>Create playoff bracket</CardTitle>
+            </div>
+            <CardDescription>
+              Seeds follow the current standings. Games are placed on free slots
+              within the league&apos;s playing days and hours, one round after
+              another; later games are created once their teams are known.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!standings ? (
+              <Skeleton className="h-16 w-full rounded-lg" />
+            ) : standings.rows.length < 2 ? (
+              <p className="text-sm text-muted-foreground">
+                The season needs at least two teams.
+              </p>
+            ) : (
+              <CreateBracketForm leagueId={leagueId} standings={standings} />
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete playoff bracket</DialogTitle>
+            <DialogDescription>
+              All playoff games, including played ones, and the facility slots
+              held for later rounds are removed. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmDelete(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeleteConfirm}
+              disabled={deleteBracket.isPending}
+            >
+              {deleteBracket.isPending ? "Deleting…" : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,447 @@
+import { getErrorMessage } from "@/lib/errors";
+import { getLeagueAgeGroupLabel } from "@/lib/league-age-group";
+import { getLeagueSportLabel } from "@/lib/league-sport";
+import { useCloneLeague } from "@/lib/queries/league";
+import { useOrganization } from "@/lib/queries/organization";
+import { useSeasonRollover, useStartSeason } from "@/lib/queries/season";
+import { toast } from "@/lib/toast";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Skeleton,
+} from "@repo/ui";
+import { createFileRoute, Link, useRouter } from "@tanstack/react-router";
+import { ArrowLeft, ClipboardList, Copy, Users } from "lucide-react";
+import { useState } from "react";
+
+export const Route = createFileRoute("/(app)/leagues/$leagueId/rollover")({
+  component: LeagueRolloverWizard,
+});
+
+type RolloverTarget = "season" | "league";
+
+/** Format a YYYY-MM-DD date for display without shifting it through UTC. */
+function formatSeasonDate(date: string): string {
+  return new Date(date + "T12:00:00").toLocaleDateString();
+}
+
+function LeagueRolloverWizard() {
+  const { leagueId } = Route.useParams();
+  const router = useRouter();
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const { data: rollover, isPending, error } = useSeasonRollover(leagueId);
+  const startSeason = useStartSeason();
+  const cloneLeague = useCloneLeague();
+
+  const [target, setTarget] = useState<RolloverTarget>("season");
+  const [leagueName, setLeagueName] = useState("");
+  // Null = use the suggestion from the rollover preview.
+  const [seasonNameInput, setSeasonNameInput] = useState<string | null>(null);
+  const [startDateInput, setStartDateInput] = useState<string | null>(null);
+  const [endDateInput, setEndDateInput] = useState<string | null>(null);
+  const [leavingTeamIds, setLeavingTeamIds] = useState<string[]>([]);
+  const [notifyPlayers, setNotifyPlayers] = useState(false);
+
+  const seasonName = seasonNameInput ?? rollover?.next.name ?? "";
+  const startDate = startDateInput ?? rollover?.next.startDate ?? "";
+  const endDate = endDateInput ?? rollover?.next.endDate ?? "";
+  const teams = rollover?.teams ?? [];
+  const returning = teams.filter((t) => !leavingTeamIds.includes(t.teamId));
+  const playerCount = returning.reduce((sum, t) => sum + t.playerCount, 0);
+  const promoted = returning.filter((t) => t.movement === "promoted").length;
+  const relegated = returning.filter((t) => t.movement === "relegated").length;
+  const divisionName = (divisionId: string | null) =>
+    rollover?.divisions.find((d) => d.id === divisionId)?.name ?? null;
+  const isSaving = startSeason.isPending || cloneLeague.isPending;
+  const canCreate =
+    Boolean(organizationId && rollover && seasonName.trim()) &&
+    (target === "season" || Boolean(leagueName.trim())) &&
+    !(startDate && endDate && endDate < startDate);
+
+  const toggleTeam = (teamId: string) => {
+    setLeavingTeamIds((prev) =>
+      prev.includes(teamId)
+        ? prev.filter((id) => id !== teamId)
+        : [...prev, teamId],
+    );
+  };
+
+  const handleCreate = () => {
+    if (!organizationId || !canCreate) return;
+    const input = {
+      organizationId,
+      leagueId,
+      ...(startDate ? { startDate } : {}),
+      ...(endDate ? { endDate } : {}),
+      teamIds: returning.map((t) => t.teamId),
+      notifyPlayers,
+    };
+    const onSuccess = (
+      result: { notified: number; notificationFailed: boolean },
+      done: string,
+    ) => {
+      if (result.notificationFailed) {
+        toast.warning(`${done}, but the players could not be emailed`);
+      } else if (result.notified > 0) {
+        toast.success(
+          `${done}. ${result.notified} player${result.notified === 1 ? "" : "s"} emailed`,
+        );
+      } else {
+        toast.success(done);
+      }
+    };
+    if (target === "season") {
+      startSeason.mutate(
+        { ...input, name: seasonName.trim() },
+        {
+          onSuccess: (created) => {
+            onSuccess(created, `${created.name} started`);
+            router.navigate({
+              to: "/leagues/$leagueId",
+              params: { leagueId },
+            });
+          },
+          onError: (err) => toast.error(getErrorMessage(err)),
+        },
+      );
+    } else {
+      cloneLeague.mutate(
+        { ...input, name: leagueName.trim(), seasonName: seasonName.trim() },
+        {
+          onSuccess: (created) => {
+            onSuccess(created, `${created.name} created`);
+            router.navigate({
+              to: "/leagues/$leagueId",
+              params: { leagueId: created.id },
+            });
+          },
+          onError: (err) => toast.error(getErrorMessage(err)),
+        },
+      );
+    }
+  };
+
+  const settings = rollover
+    ? [
+        `Sport: ${getLeagueSportLabel(rollover.league.sport)}`,
+        `Age group: ${getLeagueAgeGroupLabel(rollover.league.ageGroup)}`,
+        rollover.league.operatingSchedule
+          ? "Playing days and hours"
+          : "No playing days and hours set",
+        `${rollover.league.scheduleExceptions?.length ?? 0} dated overrides and blackouts`,
+        `Standings: ${rollover.league.pointsForWin}/${rollover.league.pointsForTie}/${rollover.league.pointsForLoss} points for a win/tie/loss, same tiebreakers`,
+        "Game format and roster limits",
+      ]
+    : [];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link
+            to="/leagues/$leagueId"
+            params={{ leagueId }}
+            aria-label="Back to league"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1 min-w-0">
+          {isPending ? (
+            <Skeleton className="h-8 w-48 mb-2" />
+          ) : (
+            <>
+              <h2 className="text-2xl font-bold">Roll over</h2>
+              <p className="text-muted-foreground">
+                Start the next season of {rollover?.league.name}, or copy it
+                into a new league, with its settings and returning teams. Review
+                the summary before creating.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-destructive">{getErrorMessage(error)}</p>
+      ) : isPending ? (
+        <Skeleton className="h-64 w-full max-w-2xl rounded-lg" />
+      ) : rollover ? (
+        <>
+          <Card className="max-w-2xl">
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Copy className="h-5 w-5" />
+                <CardTitle>What to create</CardTitle>
+              </div>
+              <CardDescription>
+                {rollover.season.name} is the current season.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <label className="flex items-start gap-2 text-sm cursor-pointer">
+                <input
+                  type="radio"
+                  name="rollover-target"
+                  className="mt-1"
+                  checked={target === "season"}
+                  onChange={() => setTarget("season")}
+                />
+                <span>
+                  <span className="font-medium">
+                    Next season of {rollover.league.name}
+                  </span>
+                  <span className="block text-muted-foreground">
+                    {rollover.season.name} is completed. Its teams, games and
+                    standings stay as they are and can still be viewed.
+                  </span>
+                </span>
+              </label>
+              <label className="flex items-start gap-2 text-sm cursor-pointer">
+                <input
+                  type="radio"
+                  name="rollover-target"
+                  className="mt-1"
+                  checked={target === "league"}
+                  onChange={() => setTarget("league")}
+                />
+                <span>
+                  <span className="font-medium">New league</span>
+                  <span className="block text-muted-foreground">
+                    A copy of {rollover.league.name}. The original league and
+                    its season are left unchanged.
+                  </span>
+                </span>
+              </label>
+              {target === "league" && (
+                <div className="grid gap-2">
+                  <Label htmlFor="rollover-league-name">League name</Label>
+                  <Input
+                    id="rollover-league-name"
+                    placeholder={`e.g. ${rollover.league.name} B`}
+                    value={leagueName}
+                    onChange={(e) => setLeagueName(e.target.value)}
+                  />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="max-w-2xl">
+            <CardHeader>
+              <CardTitle>Season</CardTitle>
+              <CardDescription>
+                Dates are moved forward from {rollover.season.name}: the new
+                season starts on the same weekday, in the week after it ends.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 sm:grid-cols-3">
+              <div className="grid gap-2">
+                <Label htmlFor="rollover-season-name">Name</Label>
+                <Input
+                  id="rollover-season-name"
+                  value={seasonName}
+                  onChange={(e) => setSeasonNameInput(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="rollover-start-date">Start date</Label>
+                <Input
+                  id="rollover-start-date"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDateInput(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="rollover-end-date">End date</Label>
+                <Input
+                  id="rollover-end-date"
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDateInput(e.target.value)}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="max-w-2xl">
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                <CardTitle>Returning teams</CardTitle>
+              </div>
+              <CardDescription>
+                Teams of {rollover.season.name}. Rosters are copied from each
+                team&apos;s current players.
+                {rollover.divisions.length > 0 &&
+                  " Teams are placed by their final division standings."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {teams.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {rollover.season.name} has no teams.
+                </p>
+              ) : (
+                <>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setLeavingTeamIds([])}
+                    >
+                      Select all
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        setLeavingTeamIds(teams.map((t) => t.teamId))
+                      }
+                    >
+                      Select none
+                    </Button>
+                  </div>
+                  <div className="grid gap-2">
+                    {teams.map((t) => (
+                      <label
+                        key={t.teamId}
+                        className="flex items-center gap-2 rounded-md border p-2 text-sm cursor-pointer"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={!leavingTeamIds.includes(t.teamId)}
+                          onChange={() => toggleTeam(t.teamId)}
+                        />
+                        <span className="flex-1">
+                          {t.name}
+                          <span className="ml-2 text-muted-foreground">
+                            {t.playerCount} player
+                            {t.playerCount === 1 ? "" : "s"}
+                          </span>
+                          {t.rosterError && (
+                            <span className="block text-destructive">
+                              {t.rosterError}
+                            </span>
+                          )}
+                        </span>
+                        {t.divisionId && (
+                          <span className="text-muted-foreground">
+                            {divisionName(t.divisionId)}
+                          </span>
+                        )}
+                        {t.movement && (
+                          <span
+                            className={`px-2 py-1 text-xs font-medium rounded-full ${
+                              t.movement === "promoted"
+                                ? "bg-green-100 text-green-800"
+                                : "bg-amber-100 text-amber-800"
+                            }`}
+                          >
+                            {t.movement === "promoted"
+                              ? "Promoted"
+                              : "Relegated"}
+                          </span>
+                        )}
+                      </label>
+                    ))}
+                  </div>
+                </>
+              )}
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={notifyPlayers}
+                  onChange={(e) => setNotifyPlayers(e.target.checked)}
+                />
+                Email the players of returning teams that their team is in the
+                new season
+              </label>
+            </CardContent>
+          </Card>
+
+          <Card className="max-w-2xl">
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <ClipboardList className="h-5 w-5" />
+                <CardTitle>Summary</CardTitle>
+              </div>
+              <CardDescription>
+                Nothing is created until you confirm.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ul className="list-disc pl-5 space-y-1 text-sm">
+                {target === "season" ? (
+                  <li>
+                    Completes {rollover.season.name} and starts{" "}
+                    {seasonName.trim() || "the new season"} in{" "}
+                    {rollover.league.name}
+                  </li>
+                ) : (
+                  <li>
+                    Creates the league {leagueName.trim() || "(no name yet)"}{" "}
+                    with its first season,{" "}
+                    {seasonName.trim() || "(no name yet)"}
+                  </li>
+                )}
+                <li>
+                  {startDate ? formatSeasonDate(startDate) : "No start date"}
+                  {" – "}
+                  {endDate ? formatSeasonDate(endDate) : "no end date"}
+                </li>
+                <li>
+                  {target === "season" ? "Keeps" : "Copies"} the league
+                  settings: {settings.join("; ")}
+                </li>
+                {rollover.divisions.length > 0 && (
+                  <li>
+                    {target === "season" ? "Keeps" : "Copies"} the divisions:{" "}
+                    {rollover.divisions.map((d) => d.name).join(", ")}
+                  </li>
+                )}
+                <li>
+                  {returning.length} of {teams.length} team
+                  {teams.length === 1 ? "" : "s"} return
+                  {rollover.divisions.length > 0 &&
+                    ` (${promoted} promoted, ${relegated} relegated)`}
+                  , with {playerCount} player{playerCount === 1 ? "" : "s"}
+                </li>
+                <li>
+                  {notifyPlayers && playerCount > 0
+                    ? `Emails ${playerCount} player${playerCount === 1 ? "" : "s"}`
+                    : "Sends no emails"}
+                </li>
+                <li>
+                  {rollover.facilities.length > 0
+                    ? `Facilities used in ${rollover.season.name}: ${rollover.facilities.join(", ")}. Pick them again when you generate the schedule.`
+                    : `No games were played at a facility in ${rollover.season.name}.`}
+                </li>
+              </ul>
+              {startDate && endDate && endDate < startDate && (
+                <p className="text-sm text-destructive">
+                  End date must be on or after the start date.
+                </p>
+              )}
+              <Button onClick={handleCreate} disabled={!canCreate || isSaving}>
+                {isSaving
+                  ? "Creating…"
+                  : target === "season"
+                    ? "Start season"
+                    : "Create league"}
+              </Button>
+            </CardContent>
+          </Card>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+import { ScheduleConflictList } from "@/components/schedule-conflict-list";
+import { getErrorMessage, getScheduleConflicts } from "@/lib/errors";
+import { formatTimeTo12h } from "@/lib/league-schedule";
+import {
+  useCommitLeagueSchedule,
+  useLeagueSchedulePreview,
+  useSurfaces,
+  type LeagueSchedulePreviewInput,
+} from "@/lib/queries/game";
+import { useLeagueById } from "@/lib/queries/league";
+import { useOrganization } from "@/lib/queries/organization";
+import { toast } from "@/lib/toast";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Skeleton,
+} from "@repo/ui";
+import { createFileRoute, Link, useRouter } from "@tanstack/react-router";
+import { AlertTriangle, ArrowLeft, ListOrdered, Wand2 } from "lucide-react";
+import { useMemo, useState } from "react";
+
+export const Route = createFileRoute("/(app)/leagues/$leagueId/schedule")({
+  component: LeagueScheduleWizard,
+});
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+/** Format a YYYY-MM-DD wall-clock date for display without shifting it through UTC. */
+function formatScheduleDate(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function LeagueScheduleWizard() {
+  const { leagueId } = Route.useParams();
+  const router = useRouter();
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const { data: league, isPending: leaguePending } = useLeagueById(leagueId);
+  const { data: surfaces, isPending: surfacesPending } = useSurfaces();
+  const commitSchedule = useCommitLeagueSchedule();
+
+  const [format, setFormat] = useState<"single" | "double">("single");
+  const [surfaceIds, setSurfaceIds] = useState<string[]>([]);
+  // Empty = the league's periods times their length, or an hour when they are not timed.
+  const [gameDurationInput, setGameDurationInput] = useState("");
+  // Empty = use the current season's dates.
+  const [startDateInput, setStartDateInput] = useState("");
+  const [endDateInput, setEndDateInput] = useState("");
+  const [replaceScheduled, setReplaceScheduled] = useState(false);
+  const [previewInput, setPreviewInput] =
+    useState<LeagueSchedulePreviewInput | null>(null);
+  const preview = useLeagueSchedulePreview(previewInput);
+  const schedule = preview.data;
+  const commitConflicts = getScheduleConflicts(commitSchedule.error);
+  const startDate = startDateInput || league?.season.startDate || "";
+  const endDate = endDateInput || league?.season.endDate || "";
+  const defaultDuration =
+    league?.rules.periodLengthMinutes != null
+      ? league.rules.periodCount * league.rules.periodLengthMinutes
+      : 60;
+  const gameDuration = gameDurationInput || String(defaultDuration);
+
+  const gamesByRound = useMemo(() => {
+    const grouped = new Map<number, NonNullable<typeof schedule>["games"]>();
+    for (const g of schedule?.games ?? []) {
+      grouped.set(g.round, [...(grouped.get(g.round) ?? []), g]);
+    }
+    return [...grouped.entries()];
+  }, [schedule]);
+
+  const duration = Number(gameDuration);
+  const canPreview =
+    Boolean(organizationId) &&
+    surfaceIds.length > 0 &&
+    Number.isInteger(duration) &&
+    duration >= 10 &&
+    Boolean(startDate);
+
+  const toggleSurface = (id: string) => {
+    setSurfaceIds((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id],
+    );
+  };
+
+  const handlePreview = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canPreview) return;
+    setPreviewInput({
+      leagueId,
+      format,
+      facilitySurfaceIds: surfaceIds,
+      gameDurationMinutes: duration,
+      ...(startDate ? { startDate } : {}),
+      ...(endDate ? { endDate } : {}),
+    });
+  };
+
+  const handleCommit = () => {
+    if (!organizationId || !schedule?.games.length) return;
+    commitSchedule.mutate(
+      {
+        organizationId,
+        leagueId,
+        replaceScheduled,
+        games: schedule.games.map((g) => ({
+          homeLeagueTeamId: g.homeLeagueTeamId,
+          awayLeagueTeamId: g.awayLeagueTeamId,
+          facilitySurfaceId: g.facilitySurfaceId,
+          date: g.date,
+          startTime: g.startTime,
+          endTime: g.endTime,
+        })),
+      },
+      {
+        onSuccess: (data) => {
+          toast.success(
+            `${data.created} game${data.created === 1 ? "" : "s"} scheduled`,
+          );
+          router.navigate({
+            to: "/leagues/$leagueId/games",
+            params: { leagueId },
+          });
+        },
+        onError: (error) => {
+          if (!getScheduleConflicts(error)) toast.error(getErrorMessage(error));
+        },
+      },
+    );
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link
+            to="/leagues/$leagueId/games"
+            params={{ leagueId }}
+            aria-label="Back to games"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1 min-w-0">
+          {leaguePending ? (
+            <Skeleton className="h-8 w-48 mb-2" />
+          ) : (
+            <>
+              <h2 className="text-2xl font-bold">Generate schedule</h2>
+              <p className="text-muted-foreground">
+                Round-robin schedule for {league?.name}. Review the preview
+                before saving.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+
+      <Card className="max-w-2xl">
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5" />
+            <CardTitle>Settings</CardTitle>
+          </div>
+          <CardDescription>
+            Games are placed on the league&apos;s playing days and hours, within
+            each facility&apos;s operating hours.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handlePreview} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="schedule-format">Format</Label>
+                <select
+                  id="schedule-format"
+                  className={selectClassName}
+                  value={format}
+                  onChange={(e) =>
+                    setFormat(e.target.value as "single" | "double")
+                  }
+                >
+                  <option value="single">
+                    Single round robin (play each team once)
+                  </option>
+                  <option value="double">
+                    Double round robin (home and away)
+                  </option>
+                </select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="schedule-duration">Game length (minutes)</Label>
+                <Input
+                  id="schedule-duration"
+                  type="number"
+                  min={10}
+                  max={600}
+                  step={5}
+                  value={gameDuration}
+                  onChange={(e) => setGameDurationInput(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="schedule-start">Start date</Label>
+                <input
+                  id="schedule-start"
+                  type="date"
+                  className={selectClassName}
+                  value={startDate}
+                  onChange={(e) => setStartDateInput(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="schedule-end">End date (optional)</Label>
+                <input
+                  id="schedule-end"
+                  type="date"
+                  className={selectClassName}
+                  value={endDate}
+                  onChange={(e) => setEndDateInput(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label>Surfaces</Label>
+              {surfacesPending ? (
+                <Skeleton className="h-16 w-full rounded-lg" />
+              ) : !surfaces?.length ? (
+                <p className="text-sm text-muted-foreground">
+                  Add a facility with at least one surface first.
+                </p>
+              ) : (
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {surfaces.map((s) => (
+                    <label
+                      key={s.id}
+                      className="flex items-center gap-2 rounded-md border p-2 text-sm cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={surfaceIds.includes(s.id)}
+                        onChange={() => toggleSurface(s.id)}
+                      />
+                      <span>
+                        {s.facilityName} · {s.name}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+            <Button type="submit" disabled={!canPreview || preview.isFetching}>
+              {preview.isFetching ? "Generating…" : "Preview schedule"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {preview.isError && (
+        <p className="text-sm text-destructive" role="alert">
+          {getErrorMessage(preview.error)}
+        </p>
+      )}
+
+      {schedule && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <ListOrdered className="h-5 w-5" />
+              <CardTitle>Preview</CardTitle>
+            </div>
+            <CardDescription>
+              {schedule.rounds} rounds, {schedule.games.length} games
+              {schedule.games.length > 0 &&
+                ` from ${formatScheduleDate(schedule.games[0].date)} to ${formatScheduleDate(schedule.games[schedule.games.length - 1].date)}`}
+              . Times are local to each venue.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {schedule.unscheduled.length > 0 && (
+              <div className="flex gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-medium">
+                    {schedule.unscheduled.length} game
+                    {schedule.unscheduled.length === 1 ? "" : "s"} did not fit
+                    before the end date
+                  </p>
+                  <p>
+                    Add surfaces, shorten games, extend the end date or the
+                    league&apos;s playing hours, then preview again.
+                  </p>
+                </div>
+              </div>
+            )}
+            {gamesByRound.map(([round, games]) => {
+              const bye = schedule.byes.find((b) => b.round === round);
+              return (
+                <div key={round} className="space-y-2">
+                  <h3 className="font-medium">
+                    Round {round}
+                    {bye && (
+                      <span className="ml-2 text-sm font-normal text-muted-foreground">
+                        Bye: {bye.teamName}
+                      </span>
+                    )}
+                  </h3>
+                  <div className="border rounded-lg overflow-x-auto">
+                    <table className="w-full">
+                      <tbody>
+                        {games.map((g) => (
+                          <tr
+                            key={`${g.homeLeagueTeamId}-${g.awayLeagueTeamId}`}
+                            className="border-b last:border-b-0"
+                          >
+                            <td className="p-3 text-sm whitespace-nowrap">
+                              {formatScheduleDate(g.date)}
+                            </td>
+                            <td className="p-3 text-sm text-muted-foreground whitespace-nowrap">
+                              {formatTimeTo12h(g.startTime)} –{" "}
+                              {formatTimeTo12h(g.endTime)}
+                            </td>
+                            <td className="p-3 font-medium">
+                              {g.homeTeamName}{" "}
+                              <span className="text-muted-foreground font-normal">
+                                vs
+                              </span>{" "}
+                              {g.awayTeamName}
+                            </td>
+                            <td className="p-3 text-sm text-muted-foreground">
+                              {g.facilityName} · {g.surfaceName}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              );
+            })}
+            {commitConflicts && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">
+                  The schedule conflicts with existing events or facility hours:
+                </p>
+                <ScheduleConflictList
+                  conflicts={commitConflicts}
+                  surfaceNames={
+                    new Map(
+                      (surfaces ?? []).map((s) => [
+                        s.id,
+                        `${s.facilityName} · ${s.name}`,
+                      ]),
+                    )
+                  }
+                />
+              </div>
+            )}
+            <div className="flex flex-wrap items-center gap-4 border-t pt-4">
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={replaceScheduled}
+                  onChange={(e) => setReplaceScheduled(e.target.checked)}
+                />
+                Replace this season&apos;s games that are still scheduled
+              </label>
+              <Button
+                className="ml-auto"
+                onClick={handleCommit}
+                disabled={!schedule.games.length || commitSchedule.isPending}
+              >
+                {commitSchedule.isPending ? "Saving…" : "Save schedule"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
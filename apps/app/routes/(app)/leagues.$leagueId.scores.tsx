@@ -0,0 +1,139 @@
+import { GameScoreCard } from "@/components/game-score-card";
+import { LeagueTabs } from "@/components/league-tabs";
+import { useDisplayTimeZone } from "@/lib/hooks/useDisplayTimeZone";
+import { getLeagueSportPeriodLabel } from "@/lib/league-sport";
+import { useGames } from "@/lib/queries/game";
+import { useLeagueById } from "@/lib/queries/league";
+import { getZonedDateTime, zonedDateTimeToIso } from "@/lib/time-zone";
+import { Button, Input, Skeleton } from "@repo/ui";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { ArrowLeft, ChevronLeft, ChevronRight } from "lucide-react";
+import { z } from "zod";
+
+const searchSchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .catch(undefined),
+});
+
+export const Route = createFileRoute("/(app)/leagues/$leagueId/scores")({
+  validateSearch: searchSchema,
+  component: LeagueScores,
+});
+
+/** Add `days` to a YYYY-MM-DD date. */
+function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10);
+}
+
+function LeagueScores() {
+  const { leagueId } = Route.useParams();
+  const search = Route.useSearch();
+  const navigate = Route.useNavigate();
+  const timeZone = useDisplayTimeZone();
+  const today = getZonedDateTime(new Date(), timeZone).date;
+  const date = search.date ?? today;
+  const { data: league, isPending: leaguePending } = useLeagueById(leagueId);
+  const { data: games, isPending: gamesPending } = useGames(leagueId, {
+    seasonId: search.season,
+    from: zonedDateTimeToIso(date, "00:00", timeZone),
+    to: zonedDateTimeToIso(shiftDate(date, 1), "00:00", timeZone),
+  });
+
+  const setDate = (next: string) =>
+    navigate({
+      search: (prev) => ({
+        ...prev,
+        date: next === today ? undefined : next,
+      }),
+    });
+
+  return (
+    <div className="p-4 sm:p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link
+            to="/leagues/$leagueId"
+            params={{ leagueId }}
+            aria-label="Back to league"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1 min-w-0">
+          {leaguePending ? (
+            <Skeleton className="h-8 w-48 mb-2" />
+          ) : (
+            <>
+              <h2 className="text-2xl font-bold">{league?.name}</h2>
+              <p className="text-muted-foreground">
+                Enter live and final scores
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+
+      <LeagueTabs leagueId={leagueId} />
+
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => setDate(shiftDate(date, -1))}
+          aria-label="Previous day"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Input
+          type="date"
+          className="flex-1 sm:w-48 sm:flex-none"
+          value={date}
+          onChange={(e) => e.target.value && setDate(e.target.value)}
+          aria-label="Game day"
+        />
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => setDate(shiftDate(date, 1))}
+          aria-label="Next day"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        {date !== today && (
+          <Button variant="ghost" size="sm" onClick={() => setDate(today)}>
+            Today
+          </Button>
+        )}
+      </div>
+
+      {gamesPending ? (
+        <div className="space-y-4">
+          <Skeleton className="h-40 w-full rounded-lg" />
+          <Skeleton className="h-40 w-full rounded-lg" />
+        </div>
+      ) : !games?.length ? (
+        <p className="text-sm text-muted-foreground">
+          No games on {new Date(`${date}T12:00:00`).toLocaleDateString()}.
+        </p>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {games.map((g) => (
+            <GameScoreCard
+              key={`${g.id}-${g.updatedAt}`}
+              game={g}
+              timeZone={timeZone}
+              periodLabel={getLeagueSportPeriodLabel(league?.sport)}
+              periodCount={league?.rules.periodCount ?? 4}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
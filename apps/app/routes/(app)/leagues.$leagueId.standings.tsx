@@ -0,0 +1,389 @@
+import { LeagueTabs } from "@/components/league-tabs";
+import { getErrorMessage } from "@/lib/errors";
+import { useLeagueStandings, type LeagueStandings } from "@/lib/queries/game";
+import {
+  useLeagueById,
+  useUpdateLeagueStandingsConfig,
+} from "@/lib/queries/league";
+import { useOrganization } from "@/lib/queries/organization";
+import { toast } from "@/lib/toast";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Skeleton,
+} from "@repo/ui";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { ArrowDown, ArrowLeft, ArrowUp, Settings2, Trophy } from "lucide-react";
+import { useState } from "react";
+
+type Tiebreaker = LeagueStandings["tiebreakers"][number];
+
+const TIEBREAKER_LABELS: Record<Tiebreaker, string> = {
+  head_to_head: "Head-to-head",
+  differential: "Differential",
+  goals_for: "Points for",
+  coin_flip: "Coin flip",
+};
+
+const ALL_TIEBREAKERS = Object.keys(TIEBREAKER_LABELS) as Tiebreaker[];
+
+type DivisionStandingsRow =
+  LeagueStandings["divisions"][number]["rows"][number];
+type Movement = NonNullable<DivisionStandingsRow["movement"]>;
+type StandingsTableRow = LeagueStandings["rows"][number] & {
+  movement?: Movement | null;
+};
+
+const MOVEMENT_LABELS: Record<Movement, string> = {
+  promoted: "Promotion place",
+  relegated: "Relegation place",
+};
+
+const MOVEMENT_ROW_CLASSES: Record<Movement, string> = {
+  promoted: "bg-green-50",
+  relegated: "bg-amber-50",
+};
+
+export const Route = createFileRoute("/(app)/leagues/$leagueId/standings")({
+  component: LeagueStandingsPage,
+});
+
+function formatDifferential(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+/** Standings table. Rows of a division table mark the teams in promotion and relegation places. */
+function StandingsTable({ rows }: { rows: StandingsTableRow[] }) {
+  return (
+    <div className="border rounded-lg">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b bg-muted/50">
+              <th className="text-left p-4 font-medium">#</th>
+              <th className="text-left p-4 font-medium">Team</th>
+              <th className="text-left p-4 font-medium">GP</th>
+              <th className="text-left p-4 font-medium">W</th>
+              <th className="text-left p-4 font-medium">L</th>
+              <th className="text-left p-4 font-medium">T</th>
+              <th className="text-left p-4 font-medium">PF</th>
+              <th className="text-left p-4 font-medium">PA</th>
+              <th className="text-left p-4 font-medium">Diff</th>
+              <th className="text-left p-4 font-medium">Pts</th>
+              <th className="text-left p-4 font-medium">Streak</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={row.leagueTeamId}
+                className={
+                  row.movement
+                    ? `border-b ${MOVEMENT_ROW_CLASSES[row.movement]}`
+                    : "border-b"
+                }
+              >
+                <td className="p-4 text-muted-foreground">{row.rank}</td>
+                <td className="p-4 font-medium">
+                  {row.name}
+                  {row.decidedBy && (
+                    <span className="block text-xs font-normal text-muted-foreground">
+                      Ahead on {TIEBREAKER_LABELS[row.decidedBy].toLowerCase()}
+                    </span>
+                  )}
+                  {row.movement && (
+                    <span className="block text-xs font-normal text-muted-foreground">
+                      {MOVEMENT_LABELS[row.movement]}
+                    </span>
+                  )}
+                </td>
+                <td className="p-4">{row.played}</td>
+                <td className="p-4">{row.wins}</td>
+                <td className="p-4">{row.losses}</td>
+                <td className="p-4">{row.ties}</td>
+                <td className="p-4">{row.pointsFor}</td>
+                <td className="p-4">{row.pointsAgainst}</td>
+                <td className="p-4">{formatDifferential(row.differential)}</td>
+                <td className="p-4 font-semibold">{row.points}</td>
+                <td className="p-4">{row.streak ?? "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function StandingsSettings({
+  leagueId,
+  standings,
+}: {
+  leagueId: string;
+  standings: LeagueStandings;
+}) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const updateConfig = useUpdateLeagueStandingsConfig();
+  const [points, setPoints] = useState(() => ({
+    pointsForWin: String(standings.pointsForWin),
+    pointsForTie: String(standings.pointsForTie),
+    pointsForLoss: String(standings.pointsForLoss),
+  }));
+  const [tiebreakers, setTiebreakers] = useState<Tiebreaker[]>(
+    () => standings.tiebreakers,
+  );
+  const unused = ALL_TIEBREAKERS.filter((t) => !tiebreakers.includes(t));
+
+  const move = (index: number, offset: -1 | 1) => {
+    const next = [...tiebreakers];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setTiebreakers(next);
+  };
+
+  const handleSave = () => {
+    if (!organizationId) return;
+    updateConfig.mutate(
+      {
+        organizationId,
+        leagueId,
+        pointsForWin: Number(points.pointsForWin) || 0,
+        pointsForTie: Number(points.pointsForTie) || 0,
+        pointsForLoss: Number(points.pointsForLoss) || 0,
+        tiebreakers,
+      },
+      {
+        onSuccess: () => toast.success("Standings settings saved"),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Settings2 className="h-5 w-5" />
+          <div>
+            <CardTitle>Points and tiebreakers</CardTitle>
+            <CardDescription>
+              Points awarded per result, and how teams level on points are
+              separated. Teams still level after every tiebreaker are listed
+              alphabetically.
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-3">
+          {(
+            [
+              ["pointsForWin", "Win"],
+              ["pointsForTie", "Tie"],
+              ["pointsForLoss", "Loss"],
+            ] as const
+          ).map(([field, label]) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`standings-${field}`}>
+                Points for a {label.toLowerCase()}
+              </Label>
+              <Input
+                id={`standings-${field}`}
+                type="number"
+                min={0}
+                max={99}
+                value={points[field]}
+                onChange={(e) =>
+                  setPoints((prev) => ({ ...prev, [field]: e.target.value }))
+                }
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Tiebreaker order</Label>
+          {tiebreakers.length > 0 ? (
+            <ol className="space-y-2">
+              {tiebreakers.map((t, index) => (
+                <li
+                  key={t}
+                  className="flex items-center justify-between gap-2 p-2 pl-3 border rounded-lg text-sm"
+                >
+                  <span>
+                    {index + 1}. {TIEBREAKER_LABELS[t]}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0}
+                      aria-label={`Move ${TIEBREAKER_LABELS[t]} up`}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => move(index, 1)}
+                      disabled={index === tiebreakers.length - 1}
+                      aria-label={`Move ${TIEBREAKER_LABELS[t]} down`}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setTiebreakers((prev) => prev.filter((x) => x !== t))
+                      }
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No tiebreakers. Teams level on points are listed alphabetically.
+            </p>
+          )}
+          {unused.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {unused.map((t) => (
+                <Button
+                  key={t}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setTiebreakers((prev) => [...prev, t])}
+                >
+                  Add {TIEBREAKER_LABELS[t]}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <Button
+          onClick={handleSave}
+          disabled={updateConfig.isPending || !organizationId}
+        >
+          {updateConfig.isPending ? "Saving…" : "Save settings"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function LeagueStandingsPage() {
+  const { leagueId } = Route.useParams();
+  const { season } = Route.useSearch();
+  const { data: league, isPending: leaguePending } = useLeagueById(leagueId);
+  const {
+    data: standings,
+    isPending,
+    error,
+  } = useLeagueStandings(leagueId, season);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link
+            to="/leagues/$leagueId"
+            params={{ leagueId }}
+            aria-label="Back to league"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1 min-w-0">
+          {leaguePending ? (
+            <Skeleton className="h-8 w-48 mb-2" />
+          ) : (
+            <>
+              <h2 className="text-2xl font-bold">{league?.name}</h2>
+              <p className="text-muted-foreground text-sm">
+                Standings from final and forfeited games. Scores reported by a
+                team count once the other team confirms them.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+
+      <LeagueTabs leagueId={leagueId} />
+
+      {standings?.divisions.map((division) => (
+        <Card key={division.id}>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Trophy className="h-5 w-5" />
+              <CardTitle>{division.name}</CardTitle>
+            </div>
+            <CardDescription>
+              Games within the division only. When the next season starts, the
+              highlighted teams move up or down a division.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {division.rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No teams in this division yet.
+              </p>
+            ) : (
+              <StandingsTable rows={division.rows} />
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Trophy className="h-5 w-5" />
+            <CardTitle>
+              {standings?.divisions.length ? "Overall standings" : "Standings"}
+            </CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isPending ? (
+            <div className="space-y-2">
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-3/4" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error.message}</p>
+          ) : !standings || standings.rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No teams in this league yet.
+            </p>
+          ) : (
+            <StandingsTable rows={standings.rows} />
+          )}
+        </CardContent>
+      </Card>
+
+      {standings && (
+        <StandingsSettings
+          key={`${standings.pointsForWin}-${standings.pointsForTie}-${standings.pointsForLoss}-${standings.tiebreakers.join(",")}`}
+          leagueId={leagueId}
+          standings={standings}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
+import { LeagueTabs } from "@/components/league-tabs";
 import { getErrorMessage } from "@/lib/errors";
+import { useSetLeagueTeamDivision } from "@/lib/queries/division";
 import {
   useAddTeamToLeague,
   useLeagueById,
@@ -40,13 +42,18 @@ export const Route = createFileRoute("/(app)/leagues/$leagueId/teams")({
 
 function LeagueTeams() {
   const { leagueId } = Route.useParams();
+  const { season } = Route.useSearch();
   const { data: organizations } = useOrganization();
   const organizationId = organizations?.[0]?.id;
-  const { data: league, isPending: leaguePending } = useLeagueById(leagueId);
+  const { data: league, isPending: leaguePending } = useLeagueById(
+    leagueId,
+    season,
+  );
   const { data: availableTeams, isPending: availablePending } =
     useTeamsAvailableForLeague(leagueId);
   const addTeamToLeague = useAddTeamToLeague();
   const removeTeamFromLeague = useRemoveTeamFromLeague();
+  const setLeagueTeamDivision = useSetLeagueTeamDivision();
 
   const prevLeagueIdRef = useRef<string | null>(null);
   const [initialParticipatingIds, setInitialParticipatingIds] = useState<
@@ -58,17 +65,25 @@ function LeagueTeams() {
   const [searchQuery, setSearchQuery] = useState("");
 
   const participatingTeams = league?.participatingTeams ?? [];
+  // Teams of a completed season are kept as they were; only the current season can change.
+  const readOnly = Boolean(league?.season.completedAt);
+  const divisions = league?.divisions ?? [];
+  const divisionByTeamId = useMemo(
+    () => new Map(participatingTeams.map((t) => [t.id, t.divisionId])),
+    [participatingTeams],
+  );
+  const syncKey = league ? `${leagueId}:${league.season.id}` : null;
 
-  // Sync from server when league loads or leagueId changes
+  // Sync from server when league loads or leagueId or season changes
   useEffect(() => {
-    if (!leagueId || participatingTeams === undefined) return;
-    if (prevLeagueIdRef.current !== leagueId) {
-      prevLeagueIdRef.current = leagueId;
+    if (!syncKey) return;
+    if (prevLeagueIdRef.current !== syncKey) {
+      prevLeagueIdRef.current = syncKey;
       const ids = participatingTeams.map((t) => t.id);
       setInitialParticipatingIds(ids);
       setLocalParticipatingIds(ids);
     }
-  }, [leagueId, participatingTeams]);
+  }, [syncKey, participatingTeams]);
 
   const allTeams: TeamItem[] = useMemo(() => {
     const byId = new Map<string, TeamItem>();
@@ -197,6 +212,8 @@ function LeagueTeams() {
         )}
       </div>
 
+      <LeagueTabs leagueId={leagueId} />
+
       {/* Search */}
       <div className="relative max-w-sm">
         <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -249,6 +266,40 @@ function LeagueTeams() {
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
+                    {divisions.length > 0 && divisionByTeamId.has(t.id) && (
+                      <select
+                        aria-label={`Division of ${t.name}`}
+                        className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                        value={divisionByTeamId.get(t.id) ?? ""}
+                        disabled={
+                          readOnly ||
+                          setLeagueTeamDivision.isPending ||
+                          !organizationId
+                        }
+                        onChange={(e) => {
+                          if (!organizationId) return;
+                          setLeagueTeamDivision.mutate(
+                            {
+                              organizationId,
+                              leagueId,
+                              teamId: t.id,
+                              divisionId: e.target.value || null,
+                            },
+                            {
+                              onError: (err) =>
+                                toast.error(getErrorMessage(err)),
+                            },
+                          );
+                        }}
+                      >
+                        <option value="">No division</option>
+                        {divisions.map((d) => (
+                          <option key={d.id} value={d.id}>
+                            {d.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
                     <Button variant="ghost" size="sm" asChild>
                       <Link
                         to="/teams/$teamSlug"
@@ -258,14 +309,16 @@ function LeagueTeams() {
                         View
                       </Link>
                     </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="text-destructive border-destructive/50 hover:bg-destructive/10"
-                      onClick={() => handleRemoveTeam(t.id)}
-                    >
-                      Remove from league
-                    </Button>
+                    {!readOnly && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-destructive border-destructive/50 hover:bg-destructive/10"
+                        onClick={() => handleRemoveTeam(t.id)}
+                      >
+                        Remove from league
+                      </Button>
+                    )}
                   </div>
                 </li>
               ))}
@@ -283,59 +336,61 @@ function LeagueTeams() {
       </Card>
 
       {/* Available teams to add */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Add team to league</CardTitle>
-          <CardDescription>
-            Teams in your organization that are not in this league. Add any to
-            this league (then press Save).
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          {availablePending ? (
-            <Skeleton className="h-24 w-full rounded-lg" />
-          ) : availableFiltered.length > 0 ? (
-            <ul className="space-y-2">
-              {availableFiltered.map((t) => (
-                <li
-                  key={t.id}
-                  className="flex items-center justify-between gap-4 p-3 border rounded-lg"
-                >
-                  <div className="flex items-center gap-3">
-                    <Avatar>
-                      <AvatarFallback>
-                        {t.name
-                          .split(" ")
-                          .map((n) => n[0])
-                          .join("")}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div>
-                      <p className="font-medium">{t.name}</p>
-                      <p className="text-sm text-muted-foreground font-mono">
-                        {t.slug}
-                      </p>
+      {!readOnly && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Add team to league</CardTitle>
+            <CardDescription>
+              Teams in your organization that are not in this league. Add any to
+              this league (then press Save).
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {availablePending ? (
+              <Skeleton className="h-24 w-full rounded-lg" />
+            ) : availableFiltered.length > 0 ? (
+              <ul className="space-y-2">
+                {availableFiltered.map((t) => (
+                  <li
+                    key={t.id}
+                    className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+                  >
+                    <div className="flex items-center gap-3">
+                      <Avatar>
+                        <AvatarFallback>
+                          {t.name
+                            .split(" ")
+                            .map((n) => n[0])
+                            .join("")}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div>
+                        <p className="font-medium">{t.name}</p>
+                        <p className="text-sm text-muted-foreground font-mono">
+                          {t.slug}
+                        </p>
+                      </div>
                     </div>
-                  </div>
-                  <Button size="sm" onClick={() => handleAddTeam(t.id)}>
-                    <Plus className="h-4 w-4 mr-1" />
-                    Add to league
-                  </Button>
-                </li>
-              ))}
-            </ul>
-          ) : searchQuery.trim() ? (
-            <p className="text-sm text-muted-foreground py-2">
-              No available teams match &quot;{searchQuery}&quot;.
-            </p>
-          ) : (
-            <p className="text-sm text-muted-foreground py-2">
-              No teams available. All your organization&apos;s teams are already
-              in this league.
-            </p>
-          )}
-        </CardContent>
-      </Card>
+                    <Button size="sm" onClick={() => handleAddTeam(t.id)}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add to league
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            ) : searchQuery.trim() ? (
+              <p className="text-sm text-muted-foreground py-2">
+                No available teams match &quot;{searchQuery}&quot;.
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground py-2">
+                No teams available. All your organization&apos;s teams are already
+                in this league.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -1,9 +1,21 @@
+import { useLiveGames } from "@/lib/hooks/useLiveGames";
+import { liveTopic } from "@repo/ws-protocol/topics";
 import { createFileRoute, Outlet } from "@tanstack/react-router";
+import { z } from "zod";
+
+// Every league page shows the current season unless `season` picks an earlier one.
+const searchSchema = z.object({
+  season: z.string().optional().catch(undefined),
+});
 
 export const Route = createFileRoute("/(app)/leagues/$leagueId")({
+  validateSearch: searchSchema,
   component: LeagueLayout,
 });
 
 function LeagueLayout() {
+  const { leagueId } = Route.useParams();
+  // Scores, standings and playoffs refresh as results are entered anywhere.
+  useLiveGames([liveTopic("league", leagueId)]);
   return <Outlet />;
 }
@@ -1,14 +1,20 @@
 import {
+  exceptionsFromExceptionRows,
   getInitialOperatingScheduleFormState,
   OperatingScheduleForm,
   scheduleFromFormState,
   type OperatingScheduleFormState,
+  type ScheduleExceptionFormRow,
 } from "@/components/operating-schedule-form";
 import { getErrorMessage } from "@/lib/errors";
 import {
   LEAGUE_AGE_GROUP_OPTIONS,
   type LeagueAgeGroupValue,
 } from "@/lib/league-age-group";
+import {
+  LEAGUE_SPORT_OPTIONS,
+  type LeagueSportValue,
+} from "@/lib/league-sport";
 import { useOrganization } from "@/lib/queries/organization";
 import { useCreateLeague } from "@/lib/queries/league";
 import { toast } from "@/lib/toast";
@@ -39,8 +45,13 @@ function CreateLeague() {
   const createLeague = useCreateLeague();
   const [name, setName] = useState("");
   const [ageGroup, setAgeGroup] = useState<LeagueAgeGroupValue | "">("");
+  const [sport, setSport] = useState<LeagueSportValue>("other");
   const [operatingSchedule, setOperatingSchedule] =
     useState<OperatingScheduleFormState>(getInitialOperatingScheduleFormState(null));
+  const [scheduleExceptions, setScheduleExceptions] = useState<
+    ScheduleExceptionFormRow[]
+  >([]);
+  const [seasonName, setSeasonName] = useState("");
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
 
@@ -52,14 +63,20 @@ function CreateLeague() {
         organizationId,
         name: name.trim(),
         ...(ageGroup ? { ageGroup: ageGroup as LeagueAgeGroupValue } : {}),
+        sport,
         operatingSchedule: scheduleFromFormState(operatingSchedule),
+        scheduleExceptions: exceptionsFromExceptionRows(scheduleExceptions),
+        ...(seasonName.trim() ? { seasonName: seasonName.trim() } : {}),
         ...(startDate ? { startDate } : {}),
         ...(endDate ? { endDate } : {}),
       },
       {
-        onSuccess: () => {
+        onSuccess: (created) => {
           toast.success("League created");
-          router.navigate({ to: "/leagues" });
+          router.navigate({
+            to: "/leagues/$leagueId",
+            params: { leagueId: created.id },
+          });
         },
         onError: (error) => {
           toast.error(getErrorMessage(error));
@@ -79,7 +96,8 @@ function CreateLeague() {
         <div>
           <h2 className="text-2xl font-bold">Create League</h2>
           <p className="text-muted-foreground">
-            Add a new league to your organization.
+            Add a new league to your organization. To run another season of
+            a league, or copy one, use Roll over on the league&apos;s page.
           </p>
         </div>
       </div>
@@ -136,6 +154,25 @@ function CreateLeague() {
                 ))}
               </select>
             </div>
+            <div className="grid gap-2">
+              <Label htmlFor="sport">Sport</Label>
+              <select
+                id="sport"
+                className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                value={sport}
+                onChange={(e) => setSport(e.target.value as LeagueSportValue)}
+                disabled={!organizationId}
+              >
+                {LEAGUE_SPORT_OPTIONS.map((opt) => (
+                  <option key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">
+                Decides which player stats are recorded for games.
+              </p>
+            </div>
             <div className="grid gap-2">
               <div className="flex items-center gap-2">
                 <Clock className="h-5 w-5" />
@@ -144,12 +181,24 @@ function CreateLeague() {
               <OperatingScheduleForm
                 value={operatingSchedule}
                 onChange={setOperatingSchedule}
+                exceptions={scheduleExceptions}
+                onExceptionsChange={setScheduleExceptions}
+                disabled={!organizationId}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="seasonName">First season (optional)</Label>
+              <Input
+                id="seasonName"
+                placeholder="Named after its start date, e.g. Spring 2026"
+                value={seasonName}
+                onChange={(e) => setSeasonName(e.target.value)}
                 disabled={!organizationId}
               />
             </div>
             <div className="grid gap-2 sm:grid-cols-2">
               <div className="grid gap-2">
-                <Label htmlFor="startDate">Start date (optional)</Label>
+                <Label htmlFor="startDate">Season start date (optional)</Label>
                 <input
                   id="startDate"
                   type="date"
@@ -160,7 +209,7 @@ function CreateLeague() {
                 />
               </div>
               <div className="grid gap-2">
-                <Label htmlFor="endDate">End date (optional)</Label>
+                <Label htmlFor="endDate">Season end date (optional)</Label>
                 <input
                   id="endDate"
                   type="date"
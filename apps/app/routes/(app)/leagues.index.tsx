@@ -40,12 +40,15 @@ const SEARCH_DEBOUNCE_MS = 800;
 
 function LeagueScheduleCell({
   operatingSchedule,
+  scheduleExceptions,
 }: {
   operatingSchedule: import("@repo/db/schema/facility").FacilityOperatingSchedule | null | undefined;
+  scheduleExceptions: import("@repo/db/schema/facility").ScheduleException[] | null | undefined;
 }) {
-  const groups = getFacilityScheduleGroups(operatingSchedule).filter(
-    (g) => g.timeRange !== "Closed",
-  );
+  const groups = getFacilityScheduleGroups(
+    operatingSchedule,
+    scheduleExceptions ?? [],
+  ).filter((g) => g.timeRange !== "Closed");
   if (groups.length === 0) return <span>—</span>;
   return (
     <div className="flex flex-col gap-1.5">
@@ -62,6 +65,11 @@ function LeagueScheduleCell({
             ))}
           </div>
           <span className="text-muted-foreground text-sm">{group.timeRange}</span>
+          {group.notes.length > 0 && (
+            <span className="text-muted-foreground text-xs">
+              {group.notes.join(", ")}
+            </span>
+          )}
         </div>
       ))}
     </div>
@@ -295,7 +303,10 @@ function LeaguesList() {
                             )}
                           </td>
                           <td className="p-4 text-sm text-muted-foreground">
-                            <LeagueScheduleCell operatingSchedule={league.operatingSchedule} />
+                            <LeagueScheduleCell
+                              operatingSchedule={league.operatingSchedule}
+                              scheduleExceptions={league.scheduleExceptions}
+                            />
                           </td>
                           <td className="p-4">
                             <div className="flex items-center gap-2">
@@ -0,0 +1,331 @@
+import { CalendarFeedButton } from "@/components/calendar-feed-button";
+import { getErrorMessage } from "@/lib/errors";
+import { useDisplayTimeZone } from "@/lib/hooks/useDisplayTimeZone";
+import { formatInstantTo12h } from "@/lib/league-schedule";
+import { useCalendarTeams } from "@/lib/queries/calendar";
+import { useManagedTeams } from "@/lib/queries/practice";
+import {
+  useReportGameScore,
+  useRespondToGameScore,
+  useTeamAdminGames,
+  type TeamAdminGame,
+} from "@/lib/queries/score-reports";
+import { formatInstantDate } from "@/lib/time-zone";
+import { toast } from "@/lib/toast";
+import { Button, Card, CardContent, Input, Label, Skeleton } from "@repo/ui";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { ClipboardCheck } from "lucide-react";
+import { useState } from "react";
+
+export const Route = createFileRoute("/(app)/my-games")({
+  component: MyGames,
+});
+
+function clampScore(value: string): number {
+  return Math.min(999, Math.max(0, Math.trunc(Number(value)) || 0));
+}
+
+/** What the team admin has to do for a game, in one line. */
+function describeState(game: TeamAdminGame): string {
+  const reportedByMe =
+    game.scoreReportedByLeagueTeamId ===
+    (game.side === "home" ? game.homeLeagueTeamId : game.awayLeagueTeamId);
+  const opponent = game.side === "home" ? game.awayTeamName : game.homeTeamName;
+  switch (game.scoreConfirmation) {
+    case "pending":
+      return reportedByMe
+        ? `You reported ${game.homeScore}–${game.awayScore}. Waiting for ${opponent} to confirm.`
+        : `${opponent} reported ${game.homeScore}–${game.awayScore}. Confirm it or dispute it.`;
+    case "disputed":
+      return `The reported ${game.homeScore}–${game.awayScore} is disputed${game.scoreDisputeReason ? `: ${game.scoreDisputeReason}` : ""}. League staff will settle it.`;
+    default:
+      return "Report the final score. It counts once the other team confirms it.";
+  }
+}
+
+function TeamAdminGameCard({
+  game,
+  timeZone,
+}: {
+  game: TeamAdminGame;
+  timeZone: string;
+}) {
+  const reportScore = useReportGameScore();
+  const respond = useRespondToGameScore();
+  const [score, setScore] = useState(() => ({
+    home: String(game.homeScore ?? ""),
+    away: String(game.awayScore ?? ""),
+  }));
+  const [disputing, setDisputing] = useState(false);
+  const [reason, setReason] = useState("");
+  const isSaving = reportScore.isPending || respond.isPending;
+
+  const handleReport = () => {
+    reportScore.mutate(
+      {
+        gameId: game.id,
+        homeScore: clampScore(score.home),
+        awayScore: clampScore(score.away),
+      },
+      {
+        onSuccess: () => toast.success("Score reported"),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  const handleRespond = (response: "confirm" | "dispute") => {
+    respond.mutate(
+      {
+        gameId: game.id,
+        response,
+        reason: response === "dispute" ? reason.trim() : undefined,
+      },
+      {
+        onSuccess: () =>
+          toast.success(
+            response === "confirm" ? "Score confirmed" : "Score disputed",
+          ),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 pt-6">
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+          <span>
+            {formatInstantDate(game.startsAt, timeZone)}{" "}
+            {formatInstantTo12h(game.startsAt, timeZone)}
+          </span>
+          <span>{game.leagueName}</span>
+        </div>
+        <p className="font-medium">
+          {game.homeTeamName} vs {game.awayTeamName}
+        </p>
+        <p className="text-sm text-muted-foreground">{describeState(game)}</p>
+
+        {game.canReport && (
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="grid gap-1">
+              <Label htmlFor={`report-home-${game.id}`}>
+                {game.homeTeamName}
+              </Label>
+              <Input
+                id={`report-home-${game.id}`}
+                type="number"
+                inputMode="numeric"
+                min={0}
+                max={999}
+                className="w-20"
+                value={score.home}
+                onChange={(e) =>
+                  setScore((prev) => ({ ...prev, home: e.target.value }))
+                }
+              />
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor={`report-away-${game.id}`}>
+                {game.awayTeamName}
+              </Label>
+              <Input
+                id={`report-away-${game.id}`}
+                type="number"
+                inputMode="numeric"
+                min={0}
+                max={999}
+                className="w-20"
+                value={score.away}
+                onChange={(e) =>
+                  setScore((prev) => ({ ...prev, away: e.target.value }))
+                }
+              />
+            </div>
+            <Button
+              onClick={handleReport}
+              disabled={isSaving || score.home === "" || score.away === ""}
+            >
+              {reportScore.isPending ? "Saving…" : "Report score"}
+            </Button>
+          </div>
+        )}
+
+        {game.canRespond &&
+          (disputing ? (
+            <div className="space-y-2">
+              <Label htmlFor={`dispute-reason-${game.id}`}>
+                Why is the score wrong?
+              </Label>
+              <Input
+                id={`dispute-reason-${game.id}`}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. It finished 2–2"
+                maxLength={500}
+              />
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setDisputing(false)}
+                  disabled={isSaving}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => handleRespond("dispute")}
+                  disabled={isSaving || !reason.trim()}
+                >
+                  {respond.isPending ? "Saving…" : "Dispute score"}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <Button
+                onClick={() => handleRespond("confirm")}
+                disabled={isSaving}
+              >
+                Confirm {game.homeScore}–{game.awayScore}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setDisputing(true)}
+                disabled={isSaving}
+              >
+                Dispute
+              </Button>
+            </div>
+          ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+/** Links to the practice preferences of the teams the user is admin of. */
+function MyTeamPractice() {
+  const { data: teams } = useManagedTeams();
+  if (!teams?.length) return null;
+
+  return (
+    <Card>
+      <CardContent className="space-y-3 pt-6">
+        <div>
+          <p className="font-medium">Practice</p>
+          <p className="text-sm text-muted-foreground">
+            Rank the weekly practice times your teams would like.
+          </p>
+        </div>
+        {teams.map((t) => (
+          <div key={t.id} className="flex items-center justify-between gap-2">
+            <span className="text-sm">{t.name}</span>
+            <Button variant="outline" size="sm" asChild>
+              <Link
+                to="/teams/$teamSlug/practice"
+                params={{ teamSlug: t.slug }}
+              >
+                Practice preferences
+              </Link>
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+/** Calendar subscriptions for the teams the user plays on and their own schedule. */
+function MyCalendars() {
+  const { data: teams } = useCalendarTeams();
+  if (!teams?.length) return null;
+  const organizations = [
+    ...new Map(teams.map((t) => [t.organizationId, t.organizationName])),
+  ];
+
+  return (
+    <Card>
+      <CardContent className="space-y-3 pt-6">
+        <div>
+          <p className="font-medium">Calendars</p>
+          <p className="text-sm text-muted-foreground">
+            Subscribe to your games in Google Calendar, Apple Calendar or
+            Outlook.
+          </p>
+        </div>
+        {organizations.map(([organizationId, organizationName]) => (
+          <div
+            key={organizationId}
+            className="flex items-center justify-between gap-2"
+          >
+            <span className="text-sm">My schedule in {organizationName}</span>
+            <CalendarFeedButton
+              scope="user"
+              label="my schedule"
+              organizationId={organizationId}
+            />
+          </div>
+        ))}
+        {teams.map((t) => (
+          <div
+            key={t.teamId}
+            className="flex items-center justify-between gap-2"
+          >
+            <span className="text-sm">{t.teamName}</span>
+            <CalendarFeedButton
+              scope="team"
+              targetId={t.teamId}
+              label={t.teamName}
+              organizationId={t.organizationId}
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function MyGames() {
+  const timeZone = useDisplayTimeZone();
+  const { data: games, isPending, error } = useTeamAdminGames();
+
+  return (
+    <div className="p-4 sm:p-6 space-y-6">
+      <div className="flex items-center gap-2">
+        <ClipboardCheck className="h-6 w-6" />
+        <div>
+          <h2 className="text-2xl font-bold">My games</h2>
+          <p className="text-muted-foreground">
+            Report and confirm scores for the teams you manage.
+          </p>
+        </div>
+      </div>
+
+      {isPending ? (
+        <div className="space-y-4">
+          <Skeleton className="h-32 w-full rounded-lg" />
+          <Skeleton className="h-32 w-full rounded-lg" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error.message}</p>
+      ) : !games?.length ? (
+        <p className="text-sm text-muted-foreground">
+          No games need a score from you right now.
+        </p>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {games.map((g) => (
+            <TeamAdminGameCard
+              key={`${g.id}-${g.scoreConfirmation}-${g.homeScore}-${g.awayScore}`}
+              game={g}
+              timeZone={timeZone}
+            />
+          ))}
+        </div>
+      )}
+
+      <MyTeamPractice />
+      <MyCalendars />
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
+import { PlayerDisciplineDialog } from "@/components/player-discipline-dialog";
+import { PlayerStatHistoryDialog } from "@/components/player-stat-history-dialog";
 import { getErrorMessage } from "@/lib/errors";
 import { useDebouncedValue } from "@/lib/hooks/useDebouncedValue";
 import { useOrganization } from "@/lib/queries/organization";
@@ -38,7 +40,14 @@ import {
   Skeleton,
 } from "@repo/ui";
 import { createFileRoute } from "@tanstack/react-router";
-import { Pencil, Search, UserPlus, Users as UsersIcon } from "lucide-react";
+import {
+  BarChart3,
+  Flag,
+  Pencil,
+  Search,
+  UserPlus,
+  Users as UsersIcon,
+} from "lucide-react";
 import { useState } from "react";
 
 export const Route = createFileRoute("/(app)/players")({
@@ -94,6 +103,8 @@ function Players() {
   const [editStatus, setEditStatus] = useState<PlayerStatus>("inactive");
 
   const [playerToRemove, setPlayerToRemove] = useState<Player | null>(null);
+  const [statsPlayer, setStatsPlayer] = useState<Player | null>(null);
+  const [disciplinePlayer, setDisciplinePlayer] = useState<Player | null>(null);
 
   const handleAddSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -394,6 +405,22 @@ function Players() {
                           </td>
                           <td className="p-4">
                             <div className="flex items-center gap-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setStatsPlayer(player)}
+                              >
+                                <BarChart3 className="h-4 w-4 mr-1" />
+                                Stats
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setDisciplinePlayer(player)}
+                              >
+                                <Flag className="h-4 w-4 mr-1" />
+                                Discipline
+                              </Button>
                               <Button
                                 variant="ghost"
                                 size="sm"
@@ -545,6 +572,33 @@ function Players() {
         </DialogContent>
       </Dialog>
 
+      <PlayerStatHistoryDialog
+        player={
+          statsPlayer
+            ? {
+                userId: statsPlayer.userId,
+                name: statsPlayer.userName ?? statsPlayer.userEmail ?? "Player",
+              }
+            : null
+        }
+        onOpenChange={(open) => !open && setStatsPlayer(null)}
+      />
+
+      <PlayerDisciplineDialog
+        player={
+          disciplinePlayer
+            ? {
+                userId: disciplinePlayer.userId,
+                name:
+                  disciplinePlayer.userName ??
+                  disciplinePlayer.userEmail ??
+                  "Player",
+              }
+            : null
+        }
+        onOpenChange={(open) => !open && setDisciplinePlayer(null)}
+      />
+
       {/* Remove Confirm Dialog */}
       <Dialog
         open={playerToRemove !== null}
@@ -1,3 +1,22 @@
+import { getErrorMessage } from "@/lib/errors";
+import {
+  DISCIPLINE_INCIDENT_TYPES,
+  getDisciplineIncidentLabel,
+  useCreateDisciplineRule,
+  useDeleteDisciplineRule,
+  useDisciplineRules,
+  type DisciplineIncidentType,
+} from "@/lib/queries/discipline";
+import {
+  displayTimeZonePreferenceAtom,
+  type DisplayTimeZonePreference,
+} from "@/lib/hooks/useDisplayTimeZone";
+import {
+  useOrganization,
+  useUpdateOrganizationTimeZone,
+} from "@/lib/queries/organization";
+import { getBrowserTimeZone, getTimeZoneOptions } from "@/lib/time-zone";
+import { toast } from "@/lib/toast";
 import {
   Button,
   Card,
@@ -11,13 +30,238 @@ import {
   Switch,
 } from "@repo/ui";
 import { createFileRoute } from "@tanstack/react-router";
-import { Bell, Palette, Shield, User } from "lucide-react";
+import { useAtom } from "jotai";
+import { Bell, Clock, Flag, Palette, Shield, Trash2, User } from "lucide-react";
+import { useMemo, useState } from "react";
 
 export const Route = createFileRoute("/(app)/settings")({
   component: Settings,
 });
 
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+function TimeZoneSettings({
+  organizationId,
+  timeZone,
+}: {
+  organizationId: string | undefined;
+  timeZone: string;
+}) {
+  const updateTimeZone = useUpdateOrganizationTimeZone();
+  const timeZoneOptions = useMemo(() => getTimeZoneOptions(), []);
+  const [selected, setSelected] = useState(timeZone);
+  const [preference, setPreference] = useAtom(displayTimeZonePreferenceAtom);
+
+  const handleSave = () => {
+    if (!organizationId || selected === timeZone) return;
+    updateTimeZone.mutate(
+      { organizationId, timeZone: selected },
+      {
+        onSuccess: () => toast.success("Time zone updated"),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  return (
+    <CardContent className="space-y-4">
+      <div className="grid gap-2">
+        <Label htmlFor="organization-time-zone">Organization time zone</Label>
+        <div className="flex gap-2">
+          <select
+            id="organization-time-zone"
+            className={selectClassName}
+            value={selected}
+            onChange={(e) => setSelected(e.target.value)}
+          >
+            {!timeZoneOptions.includes(selected) && (
+              <option value={selected}>{selected}</option>
+            )}
+            {timeZoneOptions.map((tz) => (
+              <option key={tz} value={tz}>
+                {tz}
+              </option>
+            ))}
+          </select>
+          <Button
+            onClick={handleSave}
+            disabled={
+              !organizationId || selected === timeZone || updateTimeZone.isPending
+            }
+          >
+            {updateTimeZone.isPending ? "Saving…" : "Save"}
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          New facilities start in this zone, and emails and calendar feeds
+          show times in it. Facility hours and game times stay on each
+          facility&apos;s own clock.
+        </p>
+      </div>
+      <Separator />
+      <div className="grid gap-2">
+        <Label htmlFor="display-time-zone">Show times in</Label>
+        <select
+          id="display-time-zone"
+          className={selectClassName}
+          value={preference}
+          onChange={(e) =>
+            setPreference(e.target.value as DisplayTimeZonePreference)
+          }
+        >
+          <option value="organization">Organization time ({timeZone})</option>
+          <option value="local">
+            My local time ({getBrowserTimeZone()})
+          </option>
+        </select>
+        <p className="text-sm text-muted-foreground">
+          Applies to this browser only.
+        </p>
+      </div>
+    </CardContent>
+  );
+}
+
+function DisciplineRuleSettings({
+  organizationId,
+}: {
+  organizationId: string | undefined;
+}) {
+  const { data: rules, isPending } = useDisciplineRules();
+  const createRule = useCreateDisciplineRule();
+  const deleteRule = useDeleteDisciplineRule();
+  const [incidentType, setIncidentType] =
+    useState<DisciplineIncidentType>("yellow_card");
+  const [threshold, setThreshold] = useState("2");
+  const [suspensionGames, setSuspensionGames] = useState("1");
+
+  const handleAdd = () => {
+    if (!organizationId) return;
+    createRule.mutate(
+      {
+        organizationId,
+        incidentType,
+        threshold: Math.trunc(Number(threshold)),
+        suspensionGames: Math.trunc(Number(suspensionGames)),
+      },
+      {
+        onSuccess: () => toast.success("Rule added"),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  const handleDelete = (ruleId: string) => {
+    if (!organizationId) return;
+    deleteRule.mutate(
+      { organizationId, ruleId },
+      {
+        onSuccess: () => toast.success("Rule deleted"),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  return (
+    <CardContent className="space-y-4">
+      {isPending ? null : !rules || rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No rules yet. Cards and ejections are recorded but never suspend
+          anyone.
+        </p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {rules.map((rule) => (
+            <li
+              key={rule.id}
+              className="flex items-center justify-between gap-2 p-2 text-sm"
+            >
+              <span>
+                Every {rule.threshold === 1 ? "" : `${rule.threshold} × `}
+                {getDisciplineIncidentLabel(
+                  rule.incidentType,
+                ).toLowerCase()} → {rule.suspensionGames}{" "}
+                {rule.suspensionGames === 1 ? "game" : "games"} suspended
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(rule.id)}
+                disabled={deleteRule.isPending}
+                aria-label="Delete rule"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="grid gap-3 sm:grid-cols-[1fr_6rem_6rem_auto] sm:items-end">
+        <div className="grid gap-2">
+          <Label htmlFor="discipline-rule-type">Incident</Label>
+          <select
+            id="discipline-rule-type"
+            className={selectClassName}
+            value={incidentType}
+            onChange={(e) =>
+              setIncidentType(e.target.value as DisciplineIncidentType)
+            }
+          >
+            {DISCIPLINE_INCIDENT_TYPES.map((t) => (
+              <option key={t.value} value={t.value}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="discipline-rule-threshold">Every</Label>
+          <Input
+            id="discipline-rule-threshold"
+            type="number"
+            min={1}
+            max={20}
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="discipline-rule-games">Games out</Label>
+          <Input
+            id="discipline-rule-games"
+            type="number"
+            min={1}
+            max={50}
+            value={suspensionGames}
+            onChange={(e) => setSuspensionGames(e.target.value)}
+          />
+        </div>
+        <Button
+          onClick={handleAdd}
+          disabled={
+            !organizationId ||
+            createRule.isPending ||
+            Number(threshold) < 1 ||
+            Number(suspensionGames) < 1
+          }
+        >
+          {createRule.isPending ? "Adding…" : "Add rule"}
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Incidents count per league. A suspension is served once the
+        player&apos;s team has played that many games after the incident; until
+        then the player&apos;s status is suspended.
+      </p>
+    </CardContent>
+  );
+}
+
 function Settings() {
+  const { data: organizations } = useOrganization();
+  const organization = organizations?.[0];
+
   return (
     <div className="p-6 space-y-6">
       <div>
@@ -52,6 +296,38 @@ function Settings() {
           </CardContent>
         </Card>
 
+        {/* Time Zone Settings */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              <CardTitle>Time zone</CardTitle>
+            </div>
+            <CardDescription>
+              Choose how event times are interpreted and displayed.
+            </CardDescription>
+          </CardHeader>
+          <TimeZoneSettings
+            key={organization?.timeZone ?? "UTC"}
+            organizationId={organization?.id}
+            timeZone={organization?.timeZone ?? "UTC"}
+          />
+        </Card>
+
+        {/* Discipline Settings */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Flag className="h-5 w-5" />
+              <CardTitle>Discipline</CardTitle>
+            </div>
+            <CardDescription>
+              Suspend players automatically for cards and ejections.
+            </CardDescription>
+          </CardHeader>
+          <DisciplineRuleSettings organizationId={organization?.id} />
+        </Card>
+
         {/* Notification Settings */}
         <Card>
           <CardHeader>
@@ -1,7 +1,13 @@
+import { CalendarFeedButton } from "@/components/calendar-feed-button";
+import { PracticeSlotList } from "@/components/practice-slot-list";
 import { getErrorMessage } from "@/lib/errors";
 import { useRemoveTeamFromLeague } from "@/lib/queries/league";
 import { useOrganization } from "@/lib/queries/organization";
-import { useTeamBySlug } from "@/lib/queries/team";
+import { useTeamPracticeSlots } from "@/lib/queries/practice";
+import {
+  useSetTeamMemberJerseyNumber,
+  useTeamBySlug,
+} from "@/lib/queries/team";
 import { toast } from "@/lib/toast";
 import {
   Avatar,
@@ -18,10 +24,11 @@ import {
   DialogFooter,
   DialogHeader,
   DialogTitle,
+  Input,
   Skeleton,
 } from "@repo/ui";
 import { createFileRoute, Link, useRouter } from "@tanstack/react-router";
-import { ArrowLeft, Users as UsersIcon } from "lucide-react";
+import { ArrowLeft, Dumbbell, Users as UsersIcon } from "lucide-react";
 import { useState } from "react";
 
 export const Route = createFileRoute("/(app)/teams/$teamSlug/")({
@@ -32,6 +39,52 @@ export const Route = createFileRoute("/(app)/teams/$teamSlug/")({
   component: TeamDetail,
 });
 
+/** Jersey number cell: saves on blur or Enter, reverts when the number is rejected. */
+function JerseyNumberInput({
+  organizationId,
+  teamId,
+  userId,
+  value,
+}: {
+  organizationId: string;
+  teamId: string;
+  userId: string;
+  value: string | null;
+}) {
+  const setJerseyNumber = useSetTeamMemberJerseyNumber();
+  const [draft, setDraft] = useState(value ?? "");
+
+  const save = () => {
+    const jerseyNumber = draft.trim() || null;
+    if (jerseyNumber === value) return;
+    setJerseyNumber.mutate(
+      { organizationId, teamId, userId, jerseyNumber },
+      {
+        onError: (err) => {
+          toast.error(getErrorMessage(err));
+          setDraft(value ?? "");
+        },
+      },
+    );
+  };
+
+  return (
+    <Input
+      className="w-16"
+      inputMode="numeric"
+      maxLength={3}
+      aria-label="Jersey number"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value.replace(/\D/g, ""))}
+      onBlur={save}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur();
+      }}
+      disabled={setJerseyNumber.isPending}
+    />
+  );
+}
+
 function TeamDetail() {
   const router = useRouter();
   const { teamSlug } = Route.useParams();
@@ -39,6 +92,7 @@ function TeamDetail() {
   const { data: organizations } = useOrganization();
   const organizationId = organizations?.[0]?.id;
   const { data: team, isPending, error } = useTeamBySlug(teamSlug);
+  const { data: practiceSlots, isPending: practicePending } = useTeamPracticeSlots(team?.id);
   const removeTeamFromLeague = useRemoveTeamFromLeague();
   const [showRemoveFromLeagueConfirm, setShowRemoveFromLeagueConfirm] = useState(false);
 
@@ -108,6 +162,9 @@ function TeamDetail() {
             </>
           )}
         </div>
+        {team != null && (
+          <CalendarFeedButton scope="team" targetId={team.id} label={team.name} />
+        )}
         {fromLeagueId != null && team != null && (
           <Button
             variant="outline"
@@ -222,6 +279,7 @@ function TeamDetail() {
                     <table className="w-full">
                       <thead>
                         <tr className="border-b bg-muted/50">
+                          <th className="text-left p-4 font-medium w-24">#</th>
                           <th className="text-left p-4 font-medium">Player</th>
                           <th className="text-left p-4 font-medium">Email</th>
                           <th className="text-left p-4 font-medium">Joined</th>
@@ -234,6 +292,19 @@ function TeamDetail() {
                           )
                           .map((m) => (
                           <tr key={m.id} className="border-b">
+                            <td className="p-4">
+                              {organizationId ? (
+                                <JerseyNumberInput
+                                  key={m.jerseyNumber ?? ""}
+                                  organizationId={organizationId}
+                                  teamId={team.id}
+                                  userId={m.userId}
+                                  value={m.jerseyNumber}
+                                />
+                              ) : (
+                                m.jerseyNumber
+                              )}
+                            </td>
                             <td className="p-4">
                               <div className="flex items-center gap-3">
                                 <Avatar>
@@ -271,6 +342,39 @@ function TeamDetail() {
               )}
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex flex-row items-center justify-between space-y-0">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <Dumbbell className="h-5 w-5" />
+                    <CardTitle>Practice times</CardTitle>
+                  </div>
+                  <CardDescription>Weekly practices assigned to this team</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" asChild>
+                  <Link
+                    to="/teams/$teamSlug/practice"
+                    params={{ teamSlug: team.slug }}
+                  >
+                    Practice preferences
+                  </Link>
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {practicePending ? (
+                <Skeleton className="h-16 w-full" />
+              ) : !practiceSlots?.length ? (
+                <p className="text-sm text-muted-foreground">
+                  No practice times published yet.
+                </p>
+              ) : (
+                <PracticeSlotList slots={practiceSlots} />
+              )}
+            </CardContent>
+          </Card>
         </>
       ) : null}
 
@@ -0,0 +1,360 @@
+import { PracticeSlotList } from "@/components/practice-slot-list";
+import { getErrorMessage } from "@/lib/errors";
+import { LEAGUE_DAY_OPTIONS } from "@/lib/league-schedule";
+import {
+  useManagedTeams,
+  usePracticeRequests,
+  usePracticeSurfaces,
+  useSavePracticeRequests,
+  useTeamPracticeSlots,
+  type PracticeRequest,
+  type PracticeRequestInput,
+} from "@/lib/queries/practice";
+import { useTeamBySlug } from "@/lib/queries/team";
+import { toast } from "@/lib/toast";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Skeleton,
+} from "@repo/ui";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  Dumbbell,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { useState } from "react";
+
+export const Route = createFileRoute("/(app)/teams/$teamSlug/practice")({
+  component: TeamPractice,
+});
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+const MAX_PREFERENCES = 10;
+
+/** One editable preference. `id` is a client-side key only. */
+type PreferenceRow = {
+  id: string;
+  day: PracticeRequestInput["day"];
+  startTime: string;
+  endTime: string;
+  /** "" = any surface. */
+  facilitySurfaceId: string;
+  notes: string;
+};
+
+function newRow(from?: PracticeRequest): PreferenceRow {
+  return {
+    id: crypto.randomUUID(),
+    day: from?.day ?? "tuesday",
+    startTime: from?.startTime ?? "18:00",
+    endTime: from?.endTime ?? "19:30",
+    facilitySurfaceId: from?.facilitySurfaceId ?? "",
+    notes: from?.notes ?? "",
+  };
+}
+
+function PracticePreferencesForm({
+  organizationId,
+  teamId,
+  requests,
+}: {
+  organizationId: string;
+  teamId: string;
+  requests: PracticeRequest[];
+}) {
+  const { data: surfaces } = usePracticeSurfaces(teamId, organizationId);
+  const savePracticeRequests = useSavePracticeRequests();
+  const [rows, setRows] = useState<PreferenceRow[]>(() =>
+    requests.map((r) => newRow(r)),
+  );
+
+  const updateRow = (id: string, patch: Partial<PreferenceRow>) => {
+    setRows((prev) => prev.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  };
+
+  const moveRow = (index: number, offset: -1 | 1) => {
+    setRows((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const invalidRow = rows.find(
+    (r) => !r.startTime || !r.endTime || r.endTime <= r.startTime,
+  );
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (invalidRow) return;
+    savePracticeRequests.mutate(
+      {
+        organizationId,
+        teamId,
+        requests: rows.map((r) => ({
+          day: r.day,
+          startTime: r.startTime,
+          endTime: r.endTime,
+          facilitySurfaceId: r.facilitySurfaceId || null,
+          notes: r.notes.trim() || null,
+        })),
+      },
+      {
+        onSuccess: () => toast.success("Practice preferences saved"),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No preferences yet. Add the times that work for your team, best first.
+        </p>
+      ) : (
+        <ol className="space-y-3">
+          {rows.map((row, index) => (
+            <li
+              key={row.id}
+              className="grid gap-2 rounded-md border p-3 sm:grid-cols-[2rem_8rem_7rem_7rem_1fr_auto] sm:items-center"
+            >
+              <span className="text-sm font-medium text-muted-foreground">
+                #{index + 1}
+              </span>
+              <select
+                className={selectClassName}
+                value={row.day}
+                onChange={(e) =>
+                  updateRow(row.id, {
+                    day: e.target.value as PreferenceRow["day"],
+                  })
+                }
+                aria-label="Day"
+              >
+                {LEAGUE_DAY_OPTIONS.map((d) => (
+                  <option key={d.value} value={d.value}>
+                    {d.label}
+                  </option>
+                ))}
+              </select>
+              <Input
+                type="time"
+                value={row.startTime}
+                onChange={(e) =>
+                  updateRow(row.id, { startTime: e.target.value })
+                }
+                aria-label="Start time"
+              />
+              <Input
+                type="time"
+                value={row.endTime}
+                onChange={(e) => updateRow(row.id, { endTime: e.target.value })}
+                aria-label="End time"
+              />
+              <select
+                className={selectClassName}
+                value={row.facilitySurfaceId}
+                onChange={(e) =>
+                  updateRow(row.id, { facilitySurfaceId: e.target.value })
+                }
+                aria-label="Surface"
+              >
+                <option value="">Any surface</option>
+                {(surfaces ?? []).map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.facilityName} · {s.name}
+                  </option>
+                ))}
+              </select>
+              <div className="flex gap-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveRow(index, -1)}
+                  disabled={index === 0}
+                  aria-label="Move up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveRow(index, 1)}
+                  disabled={index === rows.length - 1}
+                  aria-label="Move down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() =>
+                    setRows((prev) => prev.filter((r) => r.id !== row.id))
+                  }
+                  aria-label="Remove preference"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <Input
+                className="sm:col-span-6"
+                placeholder="Notes (optional)"
+                value={row.notes}
+                onChange={(e) => updateRow(row.id, { notes: e.target.value })}
+                maxLength={500}
+              />
+            </li>
+          ))}
+        </ol>
+      )}
+      {invalidRow && (
+        <p className="text-sm text-destructive">
+          Each preference needs an end time after its start time.
+        </p>
+      )}
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setRows((prev) => [...prev, newRow()])}
+          disabled={rows.length >= MAX_PREFERENCES}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add preference
+        </Button>
+        <Button
+          type="submit"
+          size="sm"
+          disabled={savePracticeRequests.isPending || Boolean(invalidRow)}
+        >
+          {savePracticeRequests.isPending ? "Saving…" : "Save preferences"}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function TeamPractice() {
+  const { teamSlug } = Route.useParams();
+  // Team admins outside the organization reach the page from My games; staff look the team up.
+  const { data: managedTeams, isPending: managedPending } = useManagedTeams();
+  const managedTeam = managedTeams?.find((t) => t.slug === teamSlug);
+  const {
+    data: staffTeam,
+    isPending: staffPending,
+    error,
+  } = useTeamBySlug(managedPending || managedTeam ? undefined : teamSlug);
+  const team = managedTeam ?? staffTeam;
+  const teamPending = managedPending || (!managedTeam && staffPending);
+  const { data: requests, isPending: requestsPending } = usePracticeRequests(
+    team?.id,
+    team?.organizationId,
+  );
+  const { data: slots, isPending: slotsPending } = useTeamPracticeSlots(
+    team?.id,
+    team?.organizationId,
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link
+            to="/teams/$teamSlug"
+            params={{ teamSlug }}
+            aria-label="Back to team"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1 min-w-0">
+          {teamPending ? (
+            <Skeleton className="h-8 w-48" />
+          ) : (
+            <>
+              <h2 className="text-2xl font-bold">
+                {team?.name ?? "Team"} practice
+              </h2>
+              <p className="text-muted-foreground">
+                Rank the weekly practice times your team would like
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-destructive">{error.message ?? "Team not found"}</p>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Dumbbell className="h-5 w-5" />
+                <CardTitle>Practice times</CardTitle>
+              </div>
+              <CardDescription>
+                Weekly practices assigned to this team.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {slotsPending ? (
+                <Skeleton className="h-16 w-full" />
+              ) : !slots?.length ? (
+                <p className="text-sm text-muted-foreground">
+                  No practice times published yet.
+                </p>
+              ) : (
+                <PracticeSlotList slots={slots} />
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Preferences</CardTitle>
+              <CardDescription>
+                Your first choice goes at the top. Times are local to the
+                facility. When practice time is allocated, the team gets the
+                highest-ranked time that is still free.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {teamPending || requestsPending || !team ? (
+                <div className="space-y-2">
+                  <Skeleton className="h-10 w-full" />
+                  <Skeleton className="h-10 w-full" />
+                </div>
+              ) : (
+                <PracticePreferencesForm
+                  key={team.id}
+                  organizationId={team.organizationId}
+                  teamId={team.id}
+                  requests={requests ?? []}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
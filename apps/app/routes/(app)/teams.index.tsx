@@ -23,6 +23,7 @@ import {
 } from "@repo/ui";
 import { createFileRoute, Link } from "@tanstack/react-router";
 import {
+  Dumbbell,
   Search,
   UserPlus,
   Users as UsersIcon,
@@ -92,12 +93,20 @@ function TeamsList() {
             Manage teams and their members.
           </p>
         </div>
-        <Button className="gap-2" asChild>
-          <Link to="/teams/create">
-            <UserPlus className="h-4 w-4" />
-            Add Team
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" className="gap-2" asChild>
+            <Link to="/teams/practice">
+              <Dumbbell className="h-4 w-4" />
+              Practice allocation
+            </Link>
+          </Button>
+          <Button className="gap-2" asChild>
+            <Link to="/teams/create">
+              <UserPlus className="h-4 w-4" />
+              Add Team
+            </Link>
+          </Button>
+        </div>
       </div>
 
       {/* Stats */}
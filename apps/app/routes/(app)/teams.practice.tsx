@@ -0,0 +1,297 @@
+import { PracticeSlotList } from "@/components/practice-slot-list";
+import { ScheduleConflictList } from "@/components/schedule-conflict-list";
+import { getErrorMessage, getScheduleConflicts } from "@/lib/errors";
+import { useSurfaces } from "@/lib/queries/game";
+import { useOrganization } from "@/lib/queries/organization";
+import {
+  useAllocatePracticeSlots,
+  useDeletePracticeSlot,
+  usePracticeSlots,
+  usePublishPracticeSlots,
+  type PracticeAllocationResult,
+  type PracticeSlot,
+} from "@/lib/queries/practice";
+import { toast } from "@/lib/toast";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Skeleton,
+} from "@repo/ui";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { AlertTriangle, ArrowLeft, Dumbbell, Send, Wand2 } from "lucide-react";
+import { useState } from "react";
+
+export const Route = createFileRoute("/(app)/teams/practice")({
+  component: PracticeAllocation,
+});
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+function PracticeAllocation() {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const { data: surfaces } = useSurfaces();
+  const { data: drafts, isPending: draftsPending } = usePracticeSlots("draft");
+  const { data: published, isPending: publishedPending } =
+    usePracticeSlots("published");
+  const allocate = useAllocatePracticeSlots();
+  const publish = usePublishPracticeSlots();
+  const deleteSlot = useDeletePracticeSlot();
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [practicesPerTeam, setPracticesPerTeam] = useState("1");
+  const [result, setResult] = useState<PracticeAllocationResult | null>(null);
+  const publishConflicts = getScheduleConflicts(publish.error);
+  const surfaceNames = new Map(
+    (surfaces ?? []).map((s) => [s.id, `${s.facilityName} · ${s.name}`]),
+  );
+
+  const canAllocate =
+    Boolean(organizationId) &&
+    Boolean(startDate) &&
+    Boolean(endDate) &&
+    startDate <= endDate;
+
+  const handleAllocate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organizationId || !canAllocate) return;
+    allocate.mutate(
+      {
+        organizationId,
+        startDate,
+        endDate,
+        practicesPerTeam: Number(practicesPerTeam),
+      },
+      {
+        onSuccess: (data) => {
+          setResult(data);
+          toast.success(
+            `${data.allocated} practice slot${data.allocated === 1 ? "" : "s"} allocated`,
+          );
+        },
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  const handlePublish = () => {
+    if (!organizationId) return;
+    publish.mutate(
+      { organizationId },
+      {
+        onSuccess: (data) => {
+          setResult(null);
+          toast.success(
+            `${data.published} practice slot${data.published === 1 ? "" : "s"} published (${data.sessions} sessions booked)`,
+          );
+        },
+        onError: (err) => {
+          if (!getScheduleConflicts(err)) toast.error(getErrorMessage(err));
+        },
+      },
+    );
+  };
+
+  const handleRemove = (slot: PracticeSlot) => {
+    if (!organizationId) return;
+    deleteSlot.mutate(
+      { organizationId, practiceSlotId: slot.id },
+      {
+        onSuccess: () =>
+          toast.success(
+            slot.status === "published"
+              ? `Practice removed and sessions cancelled for ${slot.teamName}`
+              : `Draft practice removed for ${slot.teamName}`,
+          ),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link to="/teams" aria-label="Back to teams">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h2 className="text-2xl font-bold">Practice allocation</h2>
+          <p className="text-muted-foreground">
+            Assign weekly practice time from each team&apos;s ranked preferences
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5" />
+            <CardTitle>Run allocation</CardTitle>
+          </div>
+          <CardDescription>
+            Teams pick in turn, earliest submission first, reversing each round.
+            Each gets its highest-ranked time that is free every week: within
+            facility hours and clear of games, bookings and the team&apos;s own
+            games. Holidays and blackout dates are skipped. Running again
+            replaces the current draft.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            onSubmit={handleAllocate}
+            className="grid gap-4 sm:grid-cols-[1fr_1fr_1fr_auto] sm:items-end"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="practice-start">Start date</Label>
+              <Input
+                id="practice-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="practice-end">End date</Label>
+              <Input
+                id="practice-end"
+                type="date"
+                value={endDate}
+                min={startDate || undefined}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="practice-per-team">Practices per team</Label>
+              <select
+                id="practice-per-team"
+                className={selectClassName}
+                value={practicesPerTeam}
+                onChange={(e) => setPracticesPerTeam(e.target.value)}
+              >
+                <option value="1">1 per week</option>
+                <option value="2">2 per week</option>
+                <option value="3">3 per week</option>
+              </select>
+            </div>
+            <Button type="submit" disabled={!canAllocate || allocate.isPending}>
+              {allocate.isPending ? "Allocating…" : "Allocate"}
+            </Button>
+          </form>
+
+          {result &&
+            (result.unallocated.length > 0 ||
+              result.skippedTeams.length > 0) && (
+              <ul className="space-y-1 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                {result.unallocated.map((t) => (
+                  <li key={t.teamId} className="flex gap-2">
+                    <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                    <span>
+                      {t.name}: {t.reason}
+                    </span>
+                  </li>
+                ))}
+                {result.skippedTeams.map((t) => (
+                  <li key={t.teamId} className="flex gap-2">
+                    <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                    <span>
+                      {t.name}: already has published practice in this period
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Draft</CardTitle>
+              <CardDescription>
+                Review the allocation, remove anything you don&apos;t want, then
+                publish to book the sessions and show them on each team&apos;s
+                page.
+              </CardDescription>
+            </div>
+            <Button
+              size="sm"
+              onClick={handlePublish}
+              disabled={!drafts?.length || publish.isPending || !organizationId}
+            >
+              <Send className="h-4 w-4 mr-2" />
+              {publish.isPending ? "Publishing…" : "Publish"}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {publishConflicts && (
+            <ScheduleConflictList
+              conflicts={publishConflicts}
+              surfaceNames={surfaceNames}
+            />
+          )}
+          {draftsPending ? (
+            <Skeleton className="h-16 w-full" />
+          ) : !drafts?.length ? (
+            <p className="text-sm text-muted-foreground">
+              No draft practice slots. Run an allocation to create one.
+            </p>
+          ) : (
+            <PracticeSlotList
+              slots={drafts}
+              showTeam
+              onRemove={handleRemove}
+              removingId={
+                deleteSlot.isPending
+                  ? deleteSlot.variables?.practiceSlotId
+                  : null
+              }
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Dumbbell className="h-5 w-5" />
+            <CardTitle>Published</CardTitle>
+          </div>
+          <CardDescription>
+            Removing a published practice cancels its booked sessions.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {publishedPending ? (
+            <Skeleton className="h-16 w-full" />
+          ) : !published?.length ? (
+            <p className="text-sm text-muted-foreground">
+              No practice time published yet.
+            </p>
+          ) : (
+            <PracticeSlotList
+              slots={published}
+              showTeam
+              onRemove={handleRemove}
+              removingId={
+                deleteSlot.isPending
+                  ? deleteSlot.variables?.practiceSlotId
+                  : null
+              }
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
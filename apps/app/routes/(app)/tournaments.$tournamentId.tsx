@@ -0,0 +1,380 @@
+import { getErrorMessage } from "@/lib/errors";
+import { useDisplayTimeZone } from "@/lib/hooks/useDisplayTimeZone";
+import { formatInstantTo12h } from "@/lib/league-schedule";
+import { useOrganization } from "@/lib/queries/organization";
+import {
+  useDeleteTournament,
+  useRecordTournamentGameResult,
+  useTournament,
+  type TournamentGame,
+  type TournamentPool,
+} from "@/lib/queries/tournament";
+import { formatInstantDate } from "@/lib/time-zone";
+import { toast } from "@/lib/toast";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  cn,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Skeleton,
+} from "@repo/ui";
+import { createFileRoute, Link, useRouter } from "@tanstack/react-router";
+import { ArrowLeft, Trash2, Trophy } from "lucide-react";
+import { useState } from "react";
+
+export const Route = createFileRoute("/(app)/tournaments/$tournamentId")({
+  component: TournamentPage,
+});
+
+/** "A1" → "Pool A #1", "K1-0" → "Winner of game K1-0". */
+function describeSource(source: string | null): string {
+  if (!source) return "TBD";
+  if (source.startsWith("K")) return `Winner of ${source}`;
+  return `Pool ${source.slice(0, 1)} #${source.slice(1)}`;
+}
+
+function getKnockoutRoundLabel(round: number, rounds: number): string {
+  const fromLast = rounds - round;
+  if (fromLast === 0) return "Final";
+  if (fromLast === 1) return "Semifinals";
+  if (fromLast === 2) return "Quarterfinals";
+  return `Round ${round}`;
+}
+
+function PoolStandingsCard({ pool }: { pool: TournamentPool }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{pool.name}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-muted-foreground">
+              <th className="text-left py-2 font-medium">#</th>
+              <th className="text-left py-2 font-medium">Team</th>
+              <th className="text-right py-2 font-medium">W</th>
+              <th className="text-right py-2 font-medium">L</th>
+              <th className="text-right py-2 font-medium">T</th>
+              <th className="text-right py-2 font-medium">+/−</th>
+              <th className="text-right py-2 font-medium">Pts</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pool.standings.map((row) => (
+              <tr key={row.tournamentTeamId} className="border-b last:border-0">
+                <td className="py-2 text-muted-foreground">{row.rank}</td>
+                <td className="py-2">{row.name}</td>
+                <td className="py-2 text-right tabular-nums">{row.wins}</td>
+                <td className="py-2 text-right tabular-nums">{row.losses}</td>
+                <td className="py-2 text-right tabular-nums">{row.ties}</td>
+                <td className="py-2 text-right tabular-nums">
+                  {row.differential > 0
+                    ? `+${row.differential}`
+                    : row.differential}
+                </td>
+                <td className="py-2 text-right font-semibold tabular-nums">
+                  {row.points}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface TournamentGameRowProps {
+  game: TournamentGame;
+  label: string;
+  timeZone: string;
+}
+
+/** One game with inline score entry. Remount (key) when the game changes. */
+function TournamentGameRow({ game, label, timeZone }: TournamentGameRowProps) {
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const recordResult = useRecordTournamentGameResult();
+  const [homeScore, setHomeScore] = useState(String(game.homeScore ?? 0));
+  const [awayScore, setAwayScore] = useState(String(game.awayScore ?? 0));
+  const teamsKnown = game.homeTeamName != null && game.awayTeamName != null;
+
+  const save = (status: "in_progress" | "final") => {
+    if (!organizationId) return;
+    recordResult.mutate(
+      {
+        organizationId,
+        gameId: game.id,
+        status,
+        homeScore: Math.max(0, Math.trunc(Number(homeScore)) || 0),
+        awayScore: Math.max(0, Math.trunc(Number(awayScore)) || 0),
+      },
+      {
+        onSuccess: () =>
+          toast.success(
+            status === "final" ? "Result saved" : "Live score saved",
+          ),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-2 border-b py-3 last:border-0 sm:flex-row sm:items-center">
+      <div className="w-40 shrink-0 text-xs text-muted-foreground">
+        <p>
+          {formatInstantTo12h(game.startsAt, timeZone)} · {label}
+        </p>
+        {game.surfaceName && (
+          <p className="truncate">
+            {game.facilityName} · {game.surfaceName}
+          </p>
+        )}
+      </div>
+      <div className="flex flex-1 items-center gap-2 text-sm">
+        <span
+          className={cn(
+            "flex-1 truncate text-right",
+            !game.homeTeamName && "text-muted-foreground italic",
+          )}
+        >
+          {game.homeTeamName ?? describeSource(game.homeSource)}
+        </span>
+        <Input
+          type="number"
+          min={0}
+          className="w-16 text-center"
+          value={homeScore}
+          onChange={(e) => setHomeScore(e.target.value)}
+          disabled={!teamsKnown}
+          aria-label="Home score"
+        />
+        <span className="text-muted-foreground">–</span>
+        <Input
+          type="number"
+          min={0}
+          className="w-16 text-center"
+          value={awayScore}
+          onChange={(e) => setAwayScore(e.target.value)}
+          disabled={!teamsKnown}
+          aria-label="Away score"
+        />
+        <span
+          className={cn(
+            "flex-1 truncate",
+            !game.awayTeamName && "text-muted-foreground italic",
+          )}
+        >
+          {game.awayTeamName ?? describeSource(game.awaySource)}
+        </span>
+      </div>
+      <div className="flex items-center gap-2 sm:w-48 sm:justify-end">
+        {game.status === "final" ? (
+          <>
+            <span className="text-xs font-medium">Final</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => save("final")}
+              disabled={!teamsKnown || recordResult.isPending}
+            >
+              Correct
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => save("in_progress")}
+              disabled={!teamsKnown || recordResult.isPending}
+            >
+              Live
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => save("final")}
+              disabled={!teamsKnown || recordResult.isPending}
+            >
+              {recordResult.isPending ? "Saving…" : "Final"}
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function TournamentPage() {
+  const { tournamentId } = Route.useParams();
+  const router = useRouter();
+  const timeZone = useDisplayTimeZone();
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const { data: tournament, isPending, error } = useTournament(tournamentId);
+  const deleteTournament = useDeleteTournament();
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const handleDeleteConfirm = () => {
+    if (!organizationId) return;
+    deleteTournament.mutate(
+      { organizationId, tournamentId },
+      {
+        onSuccess: () => {
+          toast.success("Tournament deleted");
+          router.navigate({ to: "/tournaments" });
+        },
+        onError: (err) => toast.error(getErrorMessage(err)),
+      },
+    );
+  };
+
+  const games = tournament?.games ?? [];
+  const poolNames = new Map(tournament?.pools.map((p) => [p.id, p.name]));
+  const knockoutRounds = Math.max(
+    0,
+    ...games.filter((g) => g.stage === "knockout").map((g) => g.round),
+  );
+  const labelOf = (g: TournamentGame) =>
+    g.stage === "pool"
+      ? (poolNames.get(g.poolId ?? "") ?? "Pool")
+      : `${getKnockoutRoundLabel(g.round, knockoutRounds)} (${g.key})`;
+  const days = [
+    ...new Set(games.map((g) => formatInstantDate(g.startsAt, timeZone))),
+  ];
+  const final = games.find(
+    (g) => g.stage === "knockout" && g.round === knockoutRounds,
+  );
+  const champion =
+    final?.status === "final" &&
+    final.homeScore != null &&
+    final.awayScore != null
+      ? final.homeScore > final.awayScore
+        ? final.homeTeamName
+        : final.awayTeamName
+      : null;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link to="/tournaments" aria-label="Back to tournaments">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1 min-w-0">
+          {isPending ? (
+            <Skeleton className="h-8 w-48 mb-2" />
+          ) : (
+            <>
+              <h2 className="text-2xl font-bold">{tournament?.name}</h2>
+              <p className="text-muted-foreground text-sm">
+                {tournament?.gameDurationMinutes}-minute games, at least{" "}
+                {tournament?.minRestMinutes} minutes rest. Top{" "}
+                {tournament?.advancePerPool} of each pool advance.
+              </p>
+            </>
+          )}
+        </div>
+        {tournament && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setConfirmDelete(true)}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+        )}
+      </div>
+
+      {isPending ? (
+        <div className="space-y-2">
+          <Skeleton className="h-4 w-full" />
+          <Skeleton className="h-4 w-3/4" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error.message}</p>
+      ) : tournament ? (
+        <>
+          {champion && (
+            <div className="flex items-center gap-2 rounded-lg border bg-muted/40 p-3 text-sm">
+              <Trophy className="h-4 w-4" />
+              <span>
+                <span className="font-semibold">{champion}</span> won the
+                tournament.
+              </span>
+            </div>
+          )}
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            {tournament.pools.map((pool) => (
+              <PoolStandingsCard key={pool.id} pool={pool} />
+            ))}
+          </div>
+
+          {days.map((day) => (
+            <Card key={day}>
+              <CardHeader>
+                <CardTitle>{day}</CardTitle>
+                <CardDescription>
+                  Knockout sides fill in once the pools, or the games feeding
+                  them, are final.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {games
+                  .filter(
+                    (g) => formatInstantDate(g.startsAt, timeZone) === day,
+                  )
+                  .map((g) => (
+                    <TournamentGameRow
+                      key={`${g.id}-${g.updatedAt}`}
+                      game={g}
+                      label={labelOf(g)}
+                      timeZone={timeZone}
+                    />
+                  ))}
+              </CardContent>
+            </Card>
+          ))}
+        </>
+      ) : null}
+
+      <Dialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete tournament</DialogTitle>
+            <DialogDescription>
+              All pools, games and results are removed and the booked surfaces
+              are freed. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmDelete(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeleteConfirm}
+              disabled={deleteTournament.isPending}
+            >
+              {deleteTournament.isPending ? "Deleting…" : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,415 @@
+import { getErrorMessage } from "@/lib/errors";
+import { useSurfaces } from "@/lib/queries/game";
+import { useOrganization } from "@/lib/queries/organization";
+import { useTeams } from "@/lib/queries/team";
+import { useCreateTournament } from "@/lib/queries/tournament";
+import { toast } from "@/lib/toast";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Skeleton,
+} from "@repo/ui";
+import { createFileRoute, Link, useRouter } from "@tanstack/react-router";
+import { ArrowDown, ArrowLeft, ArrowUp, Medal, X } from "lucide-react";
+import { useState } from "react";
+
+export const Route = createFileRoute("/(app)/tournaments/create")({
+  component: CreateTournament,
+});
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+/** Same snake order the server uses, for the pool preview. */
+function previewPools<T>(seeded: T[], poolCount: number): T[][] {
+  const pools: T[][] = Array.from({ length: poolCount }, () => []);
+  seeded.forEach((item, index) => {
+    const lap = Math.floor(index / poolCount);
+    const offset = index % poolCount;
+    pools[lap % 2 === 0 ? offset : poolCount - 1 - offset].push(item);
+  });
+  return pools;
+}
+
+function CreateTournament() {
+  const router = useRouter();
+  const { data: organizations } = useOrganization();
+  const organizationId = organizations?.[0]?.id;
+  const { data: teams, isPending: teamsPending } = useTeams();
+  const { data: surfaces, isPending: surfacesPending } = useSurfaces();
+  const createTournament = useCreateTournament();
+
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [dayStartTime, setDayStartTime] = useState("08:00");
+  const [dayEndTime, setDayEndTime] = useState("18:00");
+  const [gameDuration, setGameDuration] = useState("50");
+  const [minRest, setMinRest] = useState("30");
+  const [poolCountInput, setPoolCountInput] = useState("2");
+  const [advanceInput, setAdvanceInput] = useState("2");
+  const [teamIds, setTeamIds] = useState<string[]>([]);
+  const [surfaceIds, setSurfaceIds] = useState<string[]>([]);
+
+  const poolCount = Number(poolCountInput);
+  const advancePerPool = Number(advanceInput);
+  const duration = Number(gameDuration);
+  const rest = Number(minRest);
+  const validPools =
+    Number.isInteger(poolCount) &&
+    poolCount >= 1 &&
+    teamIds.length >= poolCount * 2;
+  const pools = validPools ? previewPools(teamIds, poolCount) : [];
+  const smallestPool = Math.min(...pools.map((p) => p.length));
+  const validAdvance =
+    Number.isInteger(advancePerPool) &&
+    advancePerPool >= 0 &&
+    (!validPools || advancePerPool <= smallestPool);
+  const canCreate =
+    Boolean(organizationId) &&
+    name.trim() !== "" &&
+    Boolean(startDate) &&
+    validPools &&
+    validAdvance &&
+    surfaceIds.length > 0 &&
+    Number.isInteger(duration) &&
+    duration >= 10 &&
+    Number.isInteger(rest) &&
+    rest >= 0 &&
+    dayStartTime < dayEndTime;
+  const teamName = (id: string) => teams?.find((t) => t.id === id)?.name ?? "";
+
+  const toggleTeam = (id: string) => {
+    setTeamIds((prev) =>
+      prev.includes(id) ? prev.filter((t) => t !== id) : [...prev, id],
+    );
+  };
+  const moveTeam = (index: number, by: number) => {
+    setTeamIds((prev) => {
+      const next = [...prev];
+      [next[index], next[index + by]] = [next[index + by], next[index]];
+      return next;
+    });
+  };
+  const toggleSurface = (id: string) => {
+    setSurfaceIds((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id],
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organizationId || !canCreate) return;
+    createTournament.mutate(
+      {
+        organizationId,
+        name: name.trim(),
+        startDate,
+        endDate: endDate || startDate,
+        dayStartTime,
+        dayEndTime,
+        gameDurationMinutes: duration,
+        minRestMinutes: rest,
+        poolCount,
+        advancePerPool,
+        teamIds,
+        facilitySurfaceIds: surfaceIds,
+      },
+      {
+        onSuccess: (data) => {
+          toast.success(`Tournament created with ${data.games} games`);
+          router.navigate({
+            to: "/tournaments/$tournamentId",
+            params: { tournamentId: data.id },
+          });
+        },
+        onError: (error) => toast.error(getErrorMessage(error)),
+      },
+    );
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link to="/tournaments" aria-label="Back to tournaments">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h2 className="text-2xl font-bold">Create Tournament</h2>
+          <p className="text-muted-foreground">
+            Seed teams into pools and schedule every game across your surfaces.
+          </p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6 max-w-3xl">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Medal className="h-5 w-5" />
+              <CardTitle>Format and schedule</CardTitle>
+            </div>
+            <CardDescription>
+              Games are packed from the start of the first day, keeping at least
+              the rest time between a team&apos;s games. The knockout stage
+              follows once every pool game is done.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-2">
+              <Label htmlFor="tournament-name">Name</Label>
+              <Input
+                id="tournament-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="tournament-start">First day</Label>
+                <input
+                  id="tournament-start"
+                  type="date"
+                  className={selectClassName}
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="tournament-end">Last day (optional)</Label>
+                <input
+                  id="tournament-end"
+                  type="date"
+                  className={selectClassName}
+                  value={endDate}
+                  min={startDate || undefined}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="tournament-day-start">Daily start</Label>
+                <Input
+                  id="tournament-day-start"
+                  type="time"
+                  value={dayStartTime}
+                  onChange={(e) => setDayStartTime(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="tournament-day-end">Daily end</Label>
+                <Input
+                  id="tournament-day-end"
+                  type="time"
+                  value={dayEndTime}
+                  onChange={(e) => setDayEndTime(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="tournament-duration">
+                  Game length (minutes)
+                </Label>
+                <Input
+                  id="tournament-duration"
+                  type="number"
+                  min={10}
+                  max={300}
+                  step={5}
+                  value={gameDuration}
+                  onChange={(e) => setGameDuration(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="tournament-rest">Minimum rest (minutes)</Label>
+                <Input
+                  id="tournament-rest"
+                  type="number"
+                  min={0}
+                  max={600}
+                  step={5}
+                  value={minRest}
+                  onChange={(e) => setMinRest(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="tournament-pools">Pools</Label>
+                <Input
+                  id="tournament-pools"
+                  type="number"
+                  min={1}
+                  max={8}
+                  value={poolCountInput}
+                  onChange={(e) => setPoolCountInput(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="tournament-advance">
+                  Teams advancing per pool
+                </Label>
+                <Input
+                  id="tournament-advance"
+                  type="number"
+                  min={0}
+                  max={8}
+                  value={advanceInput}
+                  onChange={(e) => setAdvanceInput(e.target.value)}
+                />
+              </div>
+            </div>
+            {!validAdvance && (
+              <p className="text-sm text-muted-foreground">
+                At most {smallestPool} teams can advance from the smallest pool.
+              </p>
+            )}
+            <div className="grid gap-2">
+              <Label>Surfaces</Label>
+              {surfacesPending ? (
+                <Skeleton className="h-16 w-full rounded-lg" />
+              ) : !surfaces?.length ? (
+                <p className="text-sm text-muted-foreground">
+                  Add a facility with at least one surface first.
+                </p>
+              ) : (
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {surfaces.map((s) => (
+                    <label
+                      key={s.id}
+                      className="flex items-center gap-2 rounded-md border p-2 text-sm cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={surfaceIds.includes(s.id)}
+                        onChange={() => toggleSurface(s.id)}
+                      />
+                      <span>
+                        {s.facilityName} · {s.name}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Teams and seeds</CardTitle>
+            <CardDescription>
+              Pick teams in seed order (strongest first). Seeds are spread
+              across pools so each pool gets a similar mix.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {teamsPending ? (
+              <Skeleton className="h-16 w-full rounded-lg" />
+            ) : !teams?.length ? (
+              <p className="text-sm text-muted-foreground">
+                Add teams to your organization first.
+              </p>
+            ) : (
+              <div className="grid gap-2 sm:grid-cols-2">
+                {teams
+                  .filter((t) => !teamIds.includes(t.id))
+                  .map((t) => (
+                    <button
+                      key={t.id}
+                      type="button"
+                      className="rounded-md border p-2 text-left text-sm hover:bg-muted/50"
+                      onClick={() => toggleTeam(t.id)}
+                    >
+                      {t.name}
+                    </button>
+                  ))}
+              </div>
+            )}
+            {teamIds.length > 0 && (
+              <div className="space-y-1">
+                <Label>Seeds</Label>
+                <ol className="space-y-1 text-sm">
+                  {teamIds.map((id, index) => (
+                    <li key={id} className="flex items-center gap-2">
+                      <span className="w-6 text-muted-foreground">
+                        {index + 1}.
+                      </span>
+                      <span className="flex-1">{teamName(id)}</span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        disabled={index === 0}
+                        onClick={() => moveTeam(index, -1)}
+                        aria-label="Move up"
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        disabled={index === teamIds.length - 1}
+                        onClick={() => moveTeam(index, 1)}
+                        aria-label="Move down"
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => toggleTeam(id)}
+                        aria-label="Remove team"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+            {pools.length > 0 ? (
+              <div className="grid gap-3 sm:grid-cols-2">
+                {pools.map((pool, index) => (
+                  <div
+                    key={String.fromCharCode(65 + index)}
+                    className="rounded-md border p-3 text-sm"
+                  >
+                    <p className="font-medium mb-1">
+                      Pool {String.fromCharCode(65 + index)}
+                    </p>
+                    <ul className="text-muted-foreground">
+                      {pool.map((id) => (
+                        <li key={id}>{teamName(id)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              teamIds.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Every pool needs at least two teams.
+                </p>
+              )
+            )}
+          </CardContent>
+        </Card>
+
+        <Button
+          type="submit"
+          disabled={!canCreate || createTournament.isPending}
+        >
+          {createTournament.isPending ? "Creating…" : "Create tournament"}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useTournaments } from "@/lib/queries/tournament";
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Skeleton,
+} from "@repo/ui";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { Plus } from "lucide-react";
+
+export const Route = createFileRoute("/(app)/tournaments/")({
+  component: TournamentsList,
+});
+
+function TournamentsList() {
+  const { data: tournaments, isPending } = useTournaments();
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Tournaments</h2>
+          <p className="text-muted-foreground">
+            One- and two-day events with pool play and a knockout stage.
+          </p>
+        </div>
+        <Button className="gap-2" asChild>
+          <Link to="/tournaments/create">
+            <Plus className="h-4 w-4" />
+            Create Tournament
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All tournaments</CardTitle>
+          <CardDescription>Newest first.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isPending ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : tournaments?.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">
+              No tournaments yet. Create one to get started.
+            </p>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b bg-muted/50">
+                    <th className="text-left p-4 font-medium">Name</th>
+                    <th className="text-left p-4 font-medium">Dates</th>
+                    <th className="text-left p-4 font-medium">Teams</th>
+                    <th className="text-left p-4 font-medium">Games played</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {tournaments?.map((t) => (
+                    <tr key={t.id} className="border-b hover:bg-muted/30">
+                      <td className="p-4">
+                        <Link
+                          to="/tournaments/$tournamentId"
+                          params={{ tournamentId: t.id }}
+                          className="font-medium text-primary hover:underline"
+                        >
+                          {t.name}
+                        </Link>
+                      </td>
+                      <td className="p-4 text-sm text-muted-foreground">
+                        {t.startDate === t.endDate
+                          ? t.startDate
+                          : `${t.startDate} – ${t.endDate}`}
+                      </td>
+                      <td className="p-4 text-sm text-muted-foreground">
+                        {t.teamCount}
+                      </td>
+                      <td className="p-4 text-sm text-muted-foreground">
+                        {t.finalCount} of {t.gameCount}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
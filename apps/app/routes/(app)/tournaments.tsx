@@ -0,0 +1,9 @@
+import { createFileRoute, Outlet } from "@tanstack/react-router";
+
+export const Route = createFileRoute("/(app)/tournaments")({
+  component: TournamentsLayout,
+});
+
+function TournamentsLayout() {
+  return <Outlet />;
+}
@@ -0,0 +1,227 @@
+import {
+  getKioskSurfaceColumns,
+  KIOSK_PAGE_MS,
+  KIOSK_SURFACES_PER_PAGE,
+  paginate,
+  type KioskBoardGame,
+  type KioskSurfaceColumn,
+} from "@/lib/kiosk-board";
+import { formatInstantTo12h } from "@/lib/league-schedule";
+import { followLiveTopics, setLiveKioskToken } from "@/lib/live";
+import { kioskBoardQueryKey, useKioskBoard } from "@/lib/queries/kiosk";
+import { formatInstantDate } from "@/lib/time-zone";
+import { cn } from "@repo/ui";
+import { liveTopic } from "@repo/ws-protocol/topics";
+import { useQueryClient } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { useEffect, useState } from "react";
+
+export const Route = createFileRoute("/kiosk/$token")({
+  component: KioskPage,
+});
+
+/** Clock tick; also moves games from "up next" to "now" as their slots start. */
+const CLOCK_MS = 15_000;
+
+function teamName(name: string | null): string {
+  return name ?? "TBD";
+}
+
+function getCurrentLabel(game: KioskBoardGame): string {
+  if (game.status !== "in_progress") return "Starting";
+  const period = game.periodScores?.length ?? 0;
+  return period > 0 ? `Live · Period ${period}` : "Live";
+}
+
+function CurrentGame({ game }: { game: KioskBoardGame }) {
+  const live = game.status === "in_progress";
+  return (
+    <div className="rounded-xl bg-white/10 p-5 space-y-3">
+      <div className="flex items-center justify-between text-sm uppercase tracking-wide">
+        <span className="truncate text-white/70">{game.competition}</span>
+        <span
+          className={cn(
+            "shrink-0 rounded px-2 py-0.5 font-semibold",
+            live ? "bg-green-500 text-black" : "bg-white/20",
+          )}
+        >
+          {getCurrentLabel(game)}
+        </span>
+      </div>
+      {(
+        [
+          ["home", game.homeTeamName, game.homeScore],
+          ["away", game.awayTeamName, game.awayScore],
+        ] as const
+      ).map(([side, name, score]) => (
+        <div key={side} className="flex items-center justify-between gap-4">
+          <span className="truncate text-3xl font-semibold">
+            {teamName(name)}
+          </span>
+          <span className="text-5xl font-bold tabular-nums">
+            {score ?? "–"}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function SurfaceColumn({
+  column,
+  timeZone,
+}: {
+  column: KioskSurfaceColumn;
+  timeZone: string;
+}) {
+  return (
+    <section className="flex min-w-0 flex-col gap-4">
+      <h2 className="text-3xl font-bold">{column.surface.name}</h2>
+      {column.current ? (
+        <CurrentGame game={column.current} />
+      ) : (
+        <div className="rounded-xl bg-white/5 p-5 text-xl text-white/60">
+          No game on now
+        </div>
+      )}
+      {column.upcoming.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm uppercase tracking-wide text-white/60">
+            Up next
+          </h3>
+          {column.upcoming.slice(0, 4).map((g) => (
+            <div key={g.id} className="flex gap-3 text-xl">
+              <span className="w-24 shrink-0 tabular-nums text-white/70">
+                {formatInstantTo12h(g.startsAt, timeZone)}
+              </span>
+              <span className="truncate">
+                {teamName(g.homeTeamName)} vs {teamName(g.awayTeamName)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      {column.finished.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm uppercase tracking-wide text-white/60">
+            Final
+          </h3>
+          {column.finished.slice(0, 3).map((g) => (
+            <div
+              key={g.id}
+              className="flex justify-between gap-3 text-lg text-white/80"
+            >
+              <span className="truncate">
+                {teamName(g.homeTeamName)} vs {teamName(g.awayTeamName)}
+              </span>
+              <span className="shrink-0 tabular-nums">
+                {g.status === "forfeit"
+                  ? "Forfeit"
+                  : `${g.homeScore ?? 0}–${g.awayScore ?? 0}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function KioskPage() {
+  const { token } = Route.useParams();
+  const queryClient = useQueryClient();
+  const { data: board, isPending, error } = useKioskBoard(token);
+  const [now, setNow] = useState(() => new Date());
+  const [pageIndex, setPageIndex] = useState(0);
+  const facilityId = board?.facility.id;
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), CLOCK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setPageIndex((i) => i + 1), KIOSK_PAGE_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // League scores arrive over the live socket as soon as they are entered.
+  useEffect(() => {
+    if (!facilityId) return;
+    setLiveKioskToken(token);
+    return followLiveTopics([liveTopic("facility", facilityId)], () => {
+      queryClient.invalidateQueries({
+        queryKey: [...kioskBoardQueryKey, token],
+      });
+    });
+  }, [facilityId, queryClient, token]);
+
+  if (isPending) {
+    return <div className="min-h-screen bg-black" />;
+  }
+  if (!board) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-black p-8 text-center text-2xl text-white/80">
+        {error
+          ? "The board could not be loaded. Retrying…"
+          : "This kiosk link is invalid or has been revoked."}
+      </div>
+    );
+  }
+
+  const timeZone = board.facility.timeZone;
+  const columns = getKioskSurfaceColumns(board, now);
+  const pages = paginate(columns, KIOSK_SURFACES_PER_PAGE);
+  const page = pages.length > 0 ? pageIndex % pages.length : 0;
+  const liveCount = board.games.filter(
+    (g) => g.status === "in_progress",
+  ).length;
+
+  return (
+    <div className="flex min-h-screen flex-col gap-8 bg-black p-8 text-white">
+      <header className="flex items-end justify-between gap-6">
+        <div className="min-w-0">
+          <h1 className="truncate text-5xl font-bold">{board.facility.name}</h1>
+          <p className="text-xl text-white/60">
+            {formatInstantDate(now, timeZone)}
+            {liveCount > 0 && ` · ${liveCount} live`}
+          </p>
+        </div>
+        <div className="shrink-0 text-right">
+          <p className="text-5xl font-bold tabular-nums">
+            {formatInstantTo12h(now, timeZone)}
+          </p>
+          {pages.length > 1 && (
+            <p className="text-lg text-white/60">
+              Page {page + 1} of {pages.length}
+            </p>
+          )}
+        </div>
+      </header>
+
+      {columns.length === 0 ? (
+        <div className="flex flex-1 items-center justify-center text-3xl text-white/60">
+          No games here today
+        </div>
+      ) : (
+        <main
+          className="grid flex-1 gap-8"
+          style={{
+            gridTemplateColumns: `repeat(${Math.min(
+              columns.length,
+              KIOSK_SURFACES_PER_PAGE,
+            )}, minmax(0, 1fr))`,
+          }}
+        >
+          {pages[page]?.map((column) => (
+            <SurfaceColumn
+              key={column.surface.id}
+              column={column}
+              timeZone={timeZone}
+            />
+          ))}
+        </main>
+      )}
+    </div>
+  );
+}
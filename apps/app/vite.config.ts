@@ -78,6 +78,8 @@ export default defineProject(({ mode }) => {
         "/api": {
           target: env.API_ORIGIN,
           changeOrigin: true,
+          // Live game events (/api/live) are a WebSocket
+          ws: true,
           configure(proxy) {
             proxy.on("proxyReq", (proxyReq, req) => {
               // Forward the frontend's origin to the API server
@@ -0,0 +1,64 @@
+/**
+ * Subscribable iCalendar feeds. Each row backs one signed feed URL for a team, league,
+ * facility or a user's own combined schedule; revoking the row disables the URL.
+ */
+
+import { relations, sql } from "drizzle-orm";
+import { index, pgEnum, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+import { organization } from "./organization";
+import { user } from "./user";
+
+export const calendarFeedScopeEnum = pgEnum("calendar_feed_scope", [
+  "team",
+  "league",
+  "facility",
+  "user",
+]);
+
+export type CalendarFeedScope =
+  (typeof calendarFeedScopeEnum.enumValues)[number];
+
+export const calendarFeed = pgTable(
+  "calendar_feed",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: text()
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    scope: calendarFeedScopeEnum().notNull(),
+    /** Team, league or facility id; the subscribing user's id for "user" feeds. */
+    targetId: text().notNull(),
+    createdByUserId: text()
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    revokedAt: timestamp({ withTimezone: true, mode: "date" }),
+    lastAccessedAt: timestamp({ withTimezone: true, mode: "date" }),
+    createdAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("calendar_feed_organization_id_idx").on(table.organizationId),
+    index("calendar_feed_created_by_user_id_idx").on(table.createdByUserId),
+  ],
+);
+
+export type CalendarFeed = typeof calendarFeed.$inferSelect;
+export type NewCalendarFeed = typeof calendarFeed.$inferInsert;
+
+export const calendarFeedRelations = relations(calendarFeed, ({ one }) => ({
+  organization: one(organization, {
+    fields: [calendarFeed.organizationId],
+    references: [organization.id],
+  }),
+  createdBy: one(user, {
+    fields: [calendarFeed.createdByUserId],
+    references: [user.id],
+  }),
+}));
@@ -0,0 +1,223 @@
+/**
+ * Discipline: cards and ejections recorded against players in league games, the organization's
+ * rules that turn them into suspensions (e.g. two yellows = one game), and the suspensions.
+ * While a player has an unserved suspension their organization_player status is "suspended".
+ */
+
+import { relations, sql } from "drizzle-orm";
+import {
+  check,
+  index,
+  integer,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  unique,
+} from "drizzle-orm/pg-core";
+import { game } from "./game";
+import { leagueTeam } from "./league_team";
+import { organization } from "./organization";
+import { user } from "./user";
+
+export const disciplineIncidentTypeEnum = pgEnum("discipline_incident_type", [
+  "yellow_card",
+  "red_card",
+  "ejection",
+]);
+
+export type DisciplineIncidentType =
+  (typeof disciplineIncidentTypeEnum.enumValues)[number];
+
+/**
+ * Suspension rule: every `threshold`-th incident of a type a player collects in one season
+ * suspends them for `suspensionGames` of their team's games.
+ */
+export const disciplineRule = pgTable(
+  "discipline_rule",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: text()
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    incidentType: disciplineIncidentTypeEnum().notNull(),
+    threshold: integer().notNull(),
+    suspensionGames: integer().notNull(),
+    createdAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    unique("discipline_rule_org_type_threshold_unique").on(
+      table.organizationId,
+      table.incidentType,
+      table.threshold,
+    ),
+    check("discipline_rule_threshold_positive", sql`${table.threshold} >= 1`),
+    check(
+      "discipline_rule_suspension_games_positive",
+      sql`${table.suspensionGames} >= 1`,
+    ),
+    index("discipline_rule_organization_id_idx").on(table.organizationId),
+  ],
+);
+
+export type DisciplineRule = typeof disciplineRule.$inferSelect;
+export type NewDisciplineRule = typeof disciplineRule.$inferInsert;
+
+/** A card or ejection shown to a player in a game. */
+export const gameDisciplineIncident = pgTable(
+  "game_discipline_incident",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    gameId: text()
+      .notNull()
+      .references(() => game.id, { onDelete: "cascade" }),
+    /** Side the player played for in this game. */
+    leagueTeamId: text()
+      .notNull()
+      .references(() => leagueTeam.id, { onDelete: "cascade" }),
+    userId: text()
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    type: disciplineIncidentTypeEnum().notNull(),
+    /** Game minute, when the referee noted it. */
+    minute: integer(),
+    note: text(),
+    recordedByUserId: text().references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("game_discipline_incident_game_id_idx").on(table.gameId),
+    index("game_discipline_incident_user_id_idx").on(table.userId),
+  ],
+);
+
+export type GameDisciplineIncident = typeof gameDisciplineIncident.$inferSelect;
+export type NewGameDisciplineIncident =
+  typeof gameDisciplineIncident.$inferInsert;
+
+/**
+ * Games a player must sit out, triggered by a rule on an incident. Served once their team has
+ * played `games` decided games after the game of the incident.
+ */
+export const playerSuspension = pgTable(
+  "player_suspension",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: text()
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    userId: text()
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    /** Team whose games the player sits out. */
+    leagueTeamId: text()
+      .notNull()
+      .references(() => leagueTeam.id, { onDelete: "cascade" }),
+    /** Null once the rule is deleted; served suspensions stay on the player's record. */
+    ruleId: text().references(() => disciplineRule.id, {
+      onDelete: "set null",
+    }),
+    incidentId: text()
+      .notNull()
+      .references(() => gameDisciplineIncident.id, { onDelete: "cascade" }),
+    games: integer().notNull(),
+    servedAt: timestamp({ withTimezone: true, mode: "date" }),
+    createdAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    unique("player_suspension_incident_rule_unique").on(
+      table.incidentId,
+      table.ruleId,
+    ),
+    index("player_suspension_organization_user_idx").on(
+      table.organizationId,
+      table.userId,
+    ),
+    index("player_suspension_league_team_id_idx").on(table.leagueTeamId),
+  ],
+);
+
+export type PlayerSuspension = typeof playerSuspension.$inferSelect;
+export type NewPlayerSuspension = typeof playerSuspension.$inferInsert;
+
+// —————————————————————————————————————————————————————————————————————————————
+// Relations
+// —————————————————————————————————————————————————————————————————————————————
+
+export const disciplineRuleRelations = relations(
+  disciplineRule,
+  ({ one, many }) => ({
+    organization: one(organization, {
+      fields: [disciplineRule.organizationId],
+      references: [organization.id],
+    }),
+    suspensions: many(playerSuspension),
+  }),
+);
+
+export const gameDisciplineIncidentRelations = relations(
+  gameDisciplineIncident,
+  ({ one, many }) => ({
+    game: one(game, {
+      fields: [gameDisciplineIncident.gameId],
+      references: [game.id],
+    }),
+    leagueTeam: one(leagueTeam, {
+      fields: [gameDisciplineIncident.leagueTeamId],
+      references: [leagueTeam.id],
+    }),
+    user: one(user, {
+      fields: [gameDisciplineIncident.userId],
+      references: [user.id],
+    }),
+    suspensions: many(playerSuspension),
+  }),
+);
+
+export const playerSuspensionRelations = relations(
+  playerSuspension,
+  ({ one }) => ({
+    user: one(user, {
+      fields: [playerSuspension.userId],
+      references: [user.id],
+    }),
+    leagueTeam: one(leagueTeam, {
+      fields: [playerSuspension.leagueTeamId],
+      references: [leagueTeam.id],
+    }),
+    rule: one(disciplineRule, {
+      fields: [playerSuspension.ruleId],
+      references: [disciplineRule.id],
+    }),
+    incident: one(gameDisciplineIncident, {
+      fields: [playerSuspension.incidentId],
+      references: [gameDisciplineIncident.id],
+    }),
+  }),
+);
@@ -0,0 +1,65 @@
+/**
+ * Divisions (tiers) of a league, e.g. Premier/Championship or A/B/C. rank 1 is the top tier.
+ * Teams are placed in a division per season through league_team.division_id and only play
+ * within it. When a new season starts, the top promotion_count teams of a division move up a
+ * tier and the bottom relegation_count move down.
+ */
+
+import { relations, sql } from "drizzle-orm";
+import {
+  check,
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  unique,
+} from "drizzle-orm/pg-core";
+import { league } from "./league";
+import { leagueTeam } from "./league_team";
+
+export const division = pgTable(
+  "division",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    leagueId: text()
+      .notNull()
+      .references(() => league.id, { onDelete: "cascade" }),
+    name: text().notNull(),
+    /** Tier, 1 = top. */
+    rank: integer().notNull(),
+    /** Teams promoted to the division above at season rollover (ignored for the top division). */
+    promotionCount: integer().default(0).notNull(),
+    /** Teams relegated to the division below at season rollover (ignored for the bottom division). */
+    relegationCount: integer().default(0).notNull(),
+    createdAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    unique("division_league_name_unique").on(table.leagueId, table.name),
+    check("division_rank_positive", sql`${table.rank} >= 1`),
+    check(
+      "division_movement_counts_non_negative",
+      sql`${table.promotionCount} >= 0 and ${table.relegationCount} >= 0`,
+    ),
+    index("division_league_id_idx").on(table.leagueId),
+  ],
+);
+
+export type Division = typeof division.$inferSelect;
+export type NewDivision = typeof division.$inferInsert;
+
+export const divisionRelations = relations(division, ({ one, many }) => ({
+  league: one(league, {
+    fields: [division.leagueId],
+    references: [league.id],
+  }),
+  leagueTeams: many(leagueTeam),
+}));
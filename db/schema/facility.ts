@@ -48,6 +48,19 @@ export type FacilityOperatingSchedule = Partial<
   Record<FacilityDayKey, FacilityDayHours | null>
 >;
 
+/**
+ * Dated override of the weekly schedule for an inclusive date range (YYYY-MM-DD).
+ * `hours` replaces the weekly hours on every day in the range; null = closed (blackout).
+ * A single-day override has startDate === endDate.
+ */
+export type ScheduleException = {
+  startDate: string;
+  endDate: string;
+  hours: FacilityDayHours | null;
+  /** Optional reason, e.g. "Independence Day" or "Spring break". */
+  label?: string | null;
+};
+
 /**
  * Facility: a venue (e.g. "Riverside Park", "Community Center") owned or used by the org.
  */
@@ -67,6 +80,12 @@ export const facility = pgTable(
     operatingSchedule: jsonb("operating_schedule")
       .$type<FacilityOperatingSchedule | null>()
       .default(null),
+    /** Dated overrides and blackout ranges that take precedence over operatingSchedule. */
+    scheduleExceptions: jsonb("schedule_exceptions")
+      .$type<ScheduleException[] | null>()
+      .default(null),
+    /** IANA time zone the facility is in (e.g. "America/Chicago"). Operating hours are wall-clock times in this zone. */
+    timeZone: text().default("UTC").notNull(),
     createdAt: timestamp({ withTimezone: true, mode: "date" })
       .defaultNow()
       .notNull(),
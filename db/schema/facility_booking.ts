@@ -0,0 +1,79 @@
+/**
+ * Ad-hoc bookings of a facility surface (rentals, maintenance, private events).
+ * Games live in game; both are checked together for double-booking.
+ * Published practice slots book each occurrence here, linked by practiceSlotId.
+ * Playoff matches hold their planned slot here (playoffMatchId) until their teams are known.
+ * Tournament games book their surface here too (tournamentGameId).
+ */
+
+import { relations, sql } from "drizzle-orm";
+import { check, index, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+import { facilitySurface } from "./facility";
+import { playoffMatch } from "./playoff";
+import { practiceSlot } from "./practice";
+import { tournamentGame } from "./tournament";
+
+export const facilityBooking = pgTable(
+  "facility_booking",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    facilitySurfaceId: text()
+      .notNull()
+      .references(() => facilitySurface.id, { onDelete: "cascade" }),
+    title: text().notNull(),
+    startsAt: timestamp({ withTimezone: true, mode: "date" }).notNull(),
+    endsAt: timestamp({ withTimezone: true, mode: "date" }).notNull(),
+    notes: text(),
+    /** Set for practice sessions; deleting the practice slot removes its bookings. */
+    practiceSlotId: text().references(() => practiceSlot.id, {
+      onDelete: "cascade",
+    }),
+    /** Set while a playoff match holds its slot; replaced by the game once both teams are known. */
+    playoffMatchId: text().references(() => playoffMatch.id, {
+      onDelete: "cascade",
+    }),
+    /** Set for tournament games; deleting the tournament removes their bookings. */
+    tournamentGameId: text().references(() => tournamentGame.id, {
+      onDelete: "cascade",
+    }),
+    createdAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    check(
+      "facility_booking_ends_after_starts",
+      sql`${table.endsAt} > ${table.startsAt}`,
+    ),
+    index("facility_booking_surface_id_starts_at_idx").on(
+      table.facilitySurfaceId,
+      table.startsAt,
+    ),
+    index("facility_booking_practice_slot_id_idx").on(table.practiceSlotId),
+    index("facility_booking_playoff_match_id_idx").on(table.playoffMatchId),
+    index("facility_booking_tournament_game_id_idx").on(table.tournamentGameId),
+  ],
+);
+
+export type FacilityBooking = typeof facilityBooking.$inferSelect;
+export type NewFacilityBooking = typeof facilityBooking.$inferInsert;
+
+export const facilityBookingRelations = relations(
+  facilityBooking,
+  ({ one }) => ({
+    surface: one(facilitySurface, {
+      fields: [facilityBooking.facilitySurfaceId],
+      references: [facilitySurface.id],
+    }),
+    practiceSlot: one(practiceSlot, {
+      fields: [facilityBooking.practiceSlotId],
+      references: [practiceSlot.id],
+    }),
+  }),
+);
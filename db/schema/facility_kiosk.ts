@@ -0,0 +1,62 @@
+/**
+ * Kiosk displays: a TV at a facility showing the day's games on its surfaces. Each row backs
+ * one signed, read-only kiosk URL, so no staff login has to stay open on the screen; revoking
+ * the row disables the URL.
+ */
+
+import { relations, sql } from "drizzle-orm";
+import { index, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+import { facility } from "./facility";
+import { organization } from "./organization";
+import { user } from "./user";
+
+export const facilityKiosk = pgTable(
+  "facility_kiosk",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: text()
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    facilityId: text()
+      .notNull()
+      .references(() => facility.id, { onDelete: "cascade" }),
+    /** Where the screen is, e.g. "Clubhouse TV". */
+    name: text().notNull(),
+    createdByUserId: text()
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    revokedAt: timestamp({ withTimezone: true, mode: "date" }),
+    lastAccessedAt: timestamp({ withTimezone: true, mode: "date" }),
+    createdAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("facility_kiosk_organization_id_idx").on(table.organizationId),
+    index("facility_kiosk_facility_id_idx").on(table.facilityId),
+  ],
+);
+
+export type FacilityKiosk = typeof facilityKiosk.$inferSelect;
+export type NewFacilityKiosk = typeof facilityKiosk.$inferInsert;
+
+export const facilityKioskRelations = relations(facilityKiosk, ({ one }) => ({
+  organization: one(organization, {
+    fields: [facilityKiosk.organizationId],
+    references: [organization.id],
+  }),
+  facility: one(facility, {
+    fields: [facilityKiosk.facilityId],
+    references: [facility.id],
+  }),
+  createdBy: one(user, {
+    fields: [facilityKiosk.createdByUserId],
+    references: [user.id],
+  }),
+}));
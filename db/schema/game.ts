@@ -0,0 +1,165 @@
+/**
+ * Games (fixtures) between two teams of a league season, played on a facility surface.
+ * Home/away sides reference league_team so a game can only involve teams enrolled in its season.
+ */
+
+import { relations, sql } from "drizzle-orm";
+import {
+  boolean,
+  check,
+  index,
+  integer,
+  jsonb,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { facilitySurface } from "./facility";
+import { league } from "./league";
+import { leagueTeam } from "./league_team";
+import { season } from "./season";
+import { user } from "./user";
+
+export const gameStatusEnum = pgEnum("game_status", [
+  "scheduled",
+  "in_progress",
+  "final",
+  "postponed",
+  "cancelled",
+  "forfeit",
+  "abandoned",
+]);
+
+export type GameStatus = (typeof gameStatusEnum.enumValues)[number];
+
+/**
+ * State of a result reported by a team admin: pending until the other side's admin confirms or
+ * disputes it; disputed results wait for league staff. Results entered by staff have none.
+ */
+export const gameScoreConfirmationEnum = pgEnum("game_score_confirmation", [
+  "pending",
+  "confirmed",
+  "disputed",
+]);
+
+export type GameScoreConfirmation =
+  (typeof gameScoreConfirmationEnum.enumValues)[number];
+
+/** Score of one period (half, quarter, inning, set…). Periods are stored in play order. */
+export type GamePeriodScore = {
+  home: number;
+  away: number;
+};
+
+export const game = pgTable(
+  "game",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    leagueId: text()
+      .notNull()
+      .references(() => league.id, { onDelete: "cascade" }),
+    seasonId: text()
+      .notNull()
+      .references(() => season.id, { onDelete: "cascade" }),
+    homeLeagueTeamId: text()
+      .notNull()
+      .references(() => leagueTeam.id, { onDelete: "cascade" }),
+    awayLeagueTeamId: text()
+      .notNull()
+      .references(() => leagueTeam.id, { onDelete: "cascade" }),
+    /** Surface the game is played on. Null = venue not assigned yet (or surface removed). */
+    facilitySurfaceId: text().references(() => facilitySurface.id, {
+      onDelete: "set null",
+    }),
+    startsAt: timestamp({ withTimezone: true, mode: "date" }).notNull(),
+    endsAt: timestamp({ withTimezone: true, mode: "date" }).notNull(),
+    status: gameStatusEnum().default("scheduled").notNull(),
+    /** Why the game was postponed, cancelled or forfeited. Cleared when it is rescheduled. */
+    statusReason: text(),
+    /** Side that forfeited, when status is "forfeit". */
+    forfeitedByLeagueTeamId: text().references(() => leagueTeam.id, {
+      onDelete: "set null",
+    }),
+    /** Running score while in progress, final score once the result is recorded. Null until scoring starts. */
+    homeScore: integer(),
+    awayScore: integer(),
+    /** Per-period breakdown; when present it adds up to homeScore/awayScore. */
+    periodScores: jsonb("period_scores")
+      .$type<GamePeriodScore[] | null>()
+      .default(null),
+    /** When the result (final or abandoned) was last recorded or corrected. */
+    resultRecordedAt: timestamp({ withTimezone: true, mode: "date" }),
+    /** Null for results entered by staff. Standings only count results that are null or confirmed. */
+    scoreConfirmation: gameScoreConfirmationEnum(),
+    /** Side whose team admin reported the current result. */
+    scoreReportedByLeagueTeamId: text().references(() => leagueTeam.id, {
+      onDelete: "set null",
+    }),
+    /** User who reported the current result. Neither they nor other admins of their side can confirm it. */
+    scoreReportedByUserId: text().references(() => user.id, {
+      onDelete: "set null",
+    }),
+    /** Why the other side disputed the reported result. */
+    scoreDisputeReason: text(),
+    /** Playoff games are left out of standings and the schedule fairness report. */
+    playoff: boolean().default(false).notNull(),
+    notes: text(),
+    /** Set when the game is deleted. Rows are kept so calendar feeds can publish the cancellation. */
+    deletedAt: timestamp({ withTimezone: true, mode: "date" }),
+    createdAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    check(
+      "game_home_away_distinct",
+      sql`${table.homeLeagueTeamId} <> ${table.awayLeagueTeamId}`,
+    ),
+    check("game_ends_after_starts", sql`${table.endsAt} > ${table.startsAt}`),
+    check(
+      "game_scores_not_negative",
+      sql`${table.homeScore} >= 0 and ${table.awayScore} >= 0`,
+    ),
+    index("game_league_id_idx").on(table.leagueId),
+    index("game_season_id_idx").on(table.seasonId),
+    index("game_home_league_team_id_idx").on(table.homeLeagueTeamId),
+    index("game_away_league_team_id_idx").on(table.awayLeagueTeamId),
+    index("game_facility_surface_id_starts_at_idx").on(
+      table.facilitySurfaceId,
+      table.startsAt,
+    ),
+  ],
+);
+
+export type Game = typeof game.$inferSelect;
+export type NewGame = typeof game.$inferInsert;
+
+export const gameRelations = relations(game, ({ one }) => ({
+  league: one(league, {
+    fields: [game.leagueId],
+    references: [league.id],
+  }),
+  season: one(season, {
+    fields: [game.seasonId],
+    references: [season.id],
+  }),
+  homeTeam: one(leagueTeam, {
+    fields: [game.homeLeagueTeamId],
+    references: [leagueTeam.id],
+  }),
+  awayTeam: one(leagueTeam, {
+    fields: [game.awayLeagueTeamId],
+    references: [leagueTeam.id],
+  }),
+  surface: one(facilitySurface, {
+    fields: [game.facilitySurfaceId],
+    references: [facilitySurface.id],
+  }),
+}));
@@ -0,0 +1,90 @@
+/**
+ * Audit trail of game changes. Every status transition (postpone, reschedule, cancel, forfeit),
+ * every edit of a game's slot and every recorded or corrected result appends one row, as do
+ * team admins reporting, confirming or disputing a result, so a game's history survives
+ * rescheduling and score corrections.
+ */
+
+import { relations, sql } from "drizzle-orm";
+import {
+  index,
+  integer,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { game, gameStatusEnum } from "./game";
+import { user } from "./user";
+
+export const gameChangeActionEnum = pgEnum("game_change_action", [
+  "created",
+  "updated",
+  "postponed",
+  "rescheduled",
+  "cancelled",
+  "forfeited",
+  "deleted",
+  "result_recorded",
+  "result_corrected",
+  "result_reported",
+  "result_confirmed",
+  "result_disputed",
+  "dispute_resolved",
+]);
+
+export type GameChangeAction = (typeof gameChangeActionEnum.enumValues)[number];
+
+export const gameChange = pgTable(
+  "game_change",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    gameId: text()
+      .notNull()
+      .references(() => game.id, { onDelete: "cascade" }),
+    action: gameChangeActionEnum().notNull(),
+    fromStatus: gameStatusEnum(),
+    toStatus: gameStatusEnum(),
+    reason: text(),
+    /** Slot before the change. Surface ids are kept as plain text so history survives surface removal. */
+    previousStartsAt: timestamp({ withTimezone: true, mode: "date" }),
+    previousEndsAt: timestamp({ withTimezone: true, mode: "date" }),
+    previousFacilitySurfaceId: text(),
+    /** Slot after the change. */
+    startsAt: timestamp({ withTimezone: true, mode: "date" }),
+    endsAt: timestamp({ withTimezone: true, mode: "date" }),
+    facilitySurfaceId: text(),
+    /** Score before and after a result is recorded or corrected. */
+    previousHomeScore: integer(),
+    previousAwayScore: integer(),
+    homeScore: integer(),
+    awayScore: integer(),
+    /** Null when the user was deleted. */
+    changedByUserId: text().references(() => user.id, { onDelete: "set null" }),
+    createdAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("game_change_game_id_created_at_idx").on(
+      table.gameId,
+      table.createdAt,
+    ),
+  ],
+);
+
+export type GameChange = typeof gameChange.$inferSelect;
+export type NewGameChange = typeof gameChange.$inferInsert;
+
+export const gameChangeRelations = relations(gameChange, ({ one }) => ({
+  game: one(game, {
+    fields: [gameChange.gameId],
+    references: [game.id],
+  }),
+  changedBy: one(user, {
+    fields: [gameChange.changedByUserId],
+    references: [user.id],
+  }),
+}));
@@ -0,0 +1,75 @@
+/**
+ * Per-player statistics for a game, one row per player and stat (e.g. goals, assists).
+ * Stat keys come from the league's sport; leaderboards and player history sum these rows.
+ */
+
+import { relations, sql } from "drizzle-orm";
+import {
+  check,
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  unique,
+} from "drizzle-orm/pg-core";
+import { game } from "./game";
+import { leagueTeam } from "./league_team";
+import { user } from "./user";
+
+export const gamePlayerStat = pgTable(
+  "game_player_stat",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    gameId: text()
+      .notNull()
+      .references(() => game.id, { onDelete: "cascade" }),
+    /** Side the player played for in this game. */
+    leagueTeamId: text()
+      .notNull()
+      .references(() => leagueTeam.id, { onDelete: "cascade" }),
+    userId: text()
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    /** Stat key from the league sport's definitions, e.g. "goals". */
+    stat: text().notNull(),
+    value: integer().notNull(),
+    createdAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    unique("game_player_stat_game_user_stat_unique").on(
+      table.gameId,
+      table.userId,
+      table.stat,
+    ),
+    check("game_player_stat_value_not_negative", sql`${table.value} >= 0`),
+    index("game_player_stat_game_id_idx").on(table.gameId),
+    index("game_player_stat_user_id_idx").on(table.userId),
+  ],
+);
+
+export type GamePlayerStat = typeof gamePlayerStat.$inferSelect;
+export type NewGamePlayerStat = typeof gamePlayerStat.$inferInsert;
+
+export const gamePlayerStatRelations = relations(gamePlayerStat, ({ one }) => ({
+  game: one(game, {
+    fields: [gamePlayerStat.gameId],
+    references: [game.id],
+  }),
+  leagueTeam: one(leagueTeam, {
+    fields: [gamePlayerStat.leagueTeamId],
+    references: [leagueTeam.id],
+  }),
+  user: one(user, {
+    fields: [gamePlayerStat.userId],
+    references: [user.id],
+  }),
+}));
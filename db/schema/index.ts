@@ -1,11 +1,24 @@
+export * from "./calendar_feed";
+export * from "./discipline";
+export * from "./division";
+export * from "./game";
+export * from "./game_change";
+export * from "./game_player_stat";
 export * from "./invitation";
 export * from "./league_age_group";
 export * from "./league";
+export * from "./league_sport";
 export * from "./league_team";
 export * from "./organization";
 export * from "./passkey";
 export * from "./player_status";
+export * from "./playoff";
+export * from "./practice";
+export * from "./season";
 export * from "./facility";
+export * from "./facility_booking";
+export * from "./facility_kiosk";
 export * from "./team_member_role";
 export * from "./team";
+export * from "./tournament";
 export * from "./user";
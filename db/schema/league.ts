@@ -1,21 +1,34 @@
 /**
- * Leagues belong to organizations. Teams participate via league_team.
+ * Leagues belong to organizations and run in seasons. Teams participate in a season via league_team.
+ * Sport and rules (periods, roster limits, standings points) are set on the league and apply to every season.
  */
 
 import { relations, sql } from "drizzle-orm";
 import {
-  date,
+  check,
   index,
+  integer,
   jsonb,
   pgTable,
   text,
   timestamp,
   unique,
 } from "drizzle-orm/pg-core";
-import type { FacilityOperatingSchedule } from "./facility";
+import type { FacilityOperatingSchedule, ScheduleException } from "./facility";
 import { leagueAgeGroupEnum } from "./league_age_group";
+import { leagueSportEnum } from "./league_sport";
 import { organization } from "./organization";
 
+/** Ways to separate teams level on points, applied in the league's configured order. */
+export const STANDINGS_TIEBREAKERS = [
+  "head_to_head",
+  "differential",
+  "goals_for",
+  "coin_flip",
+] as const;
+
+export type StandingsTiebreaker = (typeof STANDINGS_TIEBREAKERS)[number];
+
 export const league = pgTable(
   "league",
   {
@@ -31,17 +44,36 @@ export const league = pgTable(
       ),
     image: text(),
     ageGroup: leagueAgeGroupEnum(),
+    /** Sport played; decides which per-player stats are recorded. */
+    sport: leagueSportEnum().default("other").notNull(),
+    /** Periods per game (halves, quarters, innings…). Null = the sport's usual count. */
+    periodCount: integer(),
+    /** Minutes per period. Null = the sport's usual length (untimed for some sports). */
+    periodLengthMinutes: integer(),
+    /** Fewest players a team needs to enter a season. Null = no minimum. */
+    minRosterSize: integer(),
+    /** Most players a team in a current season may have. Null = no maximum. */
+    maxRosterSize: integer(),
     /** Operating schedule by day (same format as facility): per-day start/end in HH:mm, null = not scheduled. */
     operatingSchedule: jsonb("operating_schedule")
       .$type<FacilityOperatingSchedule | null>()
       .default(null),
-    /** Optional start date of the league. */
-    startDate: date("start_date", { mode: "string" }),
-    /** Optional end date of the league. */
-    endDate: date("end_date", { mode: "string" }),
+    /** Dated overrides and blackout ranges (e.g. no play over spring break); take precedence over operatingSchedule. */
+    scheduleExceptions: jsonb("schedule_exceptions")
+      .$type<ScheduleException[] | null>()
+      .default(null),
+    /** Standings points for each result. A forfeit counts as a win and a loss. */
+    pointsForWin: integer().default(2).notNull(),
+    pointsForTie: integer().default(1).notNull(),
+    pointsForLoss: integer().default(0).notNull(),
+    /** Tiebreakers for teams level on points, first applied first. */
+    standingsTiebreakers: jsonb("standings_tiebreakers")
+      .$type<StandingsTiebreaker[]>()
+      .default([...STANDINGS_TIEBREAKERS])
+      .notNull(),
+    /** An organization runs any number of leagues; names and slugs are unique within it. */
     organizationId: text()
       .notNull()
-      .unique()
       .references(() => organization.id, { onDelete: "cascade" }),
     createdAt: timestamp({ withTimezone: true, mode: "date" })
       .defaultNow()
@@ -55,6 +87,17 @@ export const league = pgTable(
     unique("league_id_org_unique").on(table.id, table.organizationId),
     unique("league_org_name_unique").on(table.organizationId, table.name),
     unique("league_org_slug_unique").on(table.organizationId, table.slug),
+    check(
+      "league_period_settings_positive",
+      sql`${table.periodCount} >= 1 and ${table.periodLengthMinutes} >= 1`,
+    ),
+    // One check per column: a comparison with a null column is null, which a check accepts.
+    check("league_min_roster_size_positive", sql`${table.minRosterSize} >= 1`),
+    check("league_max_roster_size_positive", sql`${table.maxRosterSize} >= 1`),
+    check(
+      "league_roster_size_range",
+      sql`${table.maxRosterSize} >= ${table.minRosterSize}`,
+    ),
     index("league_organization_id_idx").on(table.organizationId),
   ],
 );
@@ -0,0 +1,15 @@
+/**
+ * Sport played in a league. Decides which per-player statistics are recorded for its games.
+ */
+import { pgEnum } from "drizzle-orm/pg-core";
+
+export const leagueSportEnum = pgEnum("league_sport", [
+  "soccer",
+  "basketball",
+  "hockey",
+  "baseball",
+  "volleyball",
+  "other",
+]);
+
+export type LeagueSport = (typeof leagueSportEnum.enumValues)[number];
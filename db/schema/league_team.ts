@@ -1,6 +1,8 @@
 /**
- * Junction table linking leagues to teams. Many-to-many: a league has many teams, a team can be in many leagues.
- * Composite unique (league_id, team_id) prevents the same team being added to the same league twice.
+ * Junction table linking leagues to teams, one row per season a team plays. A league has many teams,
+ * a team can be in many leagues. Composite unique (season_id, team_id) prevents the same team being
+ * added to the same season twice; last season's row stays with its games when the team re-enters.
+ * division_id places the team in a division for that season.
  */
 
 import { relations, sql } from "drizzle-orm";
@@ -11,8 +13,11 @@ import {
   timestamp,
   unique,
 } from "drizzle-orm/pg-core";
+import { division } from "./division";
 import { league } from "./league";
+import { season } from "./season";
 import { team } from "./team";
+import { user } from "./user";
 
 export const leagueTeam = pgTable(
   "league_team",
@@ -23,9 +28,16 @@ export const leagueTeam = pgTable(
     leagueId: text()
       .notNull()
       .references(() => league.id, { onDelete: "cascade" }),
+    seasonId: text()
+      .notNull()
+      .references(() => season.id, { onDelete: "cascade" }),
     teamId: text()
       .notNull()
       .references(() => team.id, { onDelete: "cascade" }),
+    /** Null when the league has no divisions, or the team is not placed in one yet. */
+    divisionId: text().references(() => division.id, {
+      onDelete: "set null",
+    }),
     createdAt: timestamp({ withTimezone: true, mode: "date" })
       .defaultNow()
       .notNull(),
@@ -35,22 +47,85 @@ export const leagueTeam = pgTable(
       .notNull(),
   },
   (table) => [
-    unique("league_team_league_team_unique").on(table.leagueId, table.teamId),
+    unique("league_team_season_team_unique").on(table.seasonId, table.teamId),
     index("league_team_league_id_idx").on(table.leagueId),
+    index("league_team_season_id_idx").on(table.seasonId),
     index("league_team_team_id_idx").on(table.teamId),
+    index("league_team_division_id_idx").on(table.divisionId),
   ],
 );
 
 export type LeagueTeam = typeof leagueTeam.$inferSelect;
 export type NewLeagueTeam = typeof leagueTeam.$inferInsert;
 
-export const leagueTeamRelations = relations(leagueTeam, ({ one }) => ({
+/**
+ * A team's roster for one season. Follows team_member while the season is current and is left
+ * as it was once the season completes, so old game sheets and stats keep their players.
+ */
+export const leagueTeamPlayer = pgTable(
+  "league_team_player",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    leagueTeamId: text()
+      .notNull()
+      .references(() => leagueTeam.id, { onDelete: "cascade" }),
+    userId: text()
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    /** Shirt number the player wore that season. */
+    jerseyNumber: text(),
+    createdAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    unique("league_team_player_league_team_user_unique").on(
+      table.leagueTeamId,
+      table.userId,
+    ),
+    index("league_team_player_user_id_idx").on(table.userId),
+  ],
+);
+
+export type LeagueTeamPlayer = typeof leagueTeamPlayer.$inferSelect;
+export type NewLeagueTeamPlayer = typeof leagueTeamPlayer.$inferInsert;
+
+export const leagueTeamRelations = relations(leagueTeam, ({ one, many }) => ({
   league: one(league, {
     fields: [leagueTeam.leagueId],
     references: [league.id],
   }),
+  season: one(season, {
+    fields: [leagueTeam.seasonId],
+    references: [season.id],
+  }),
   team: one(team, {
     fields: [leagueTeam.teamId],
     references: [team.id],
   }),
+  division: one(division, {
+    fields: [leagueTeam.divisionId],
+    references: [division.id],
+  }),
+  players: many(leagueTeamPlayer),
 }));
+
+export const leagueTeamPlayerRelations = relations(
+  leagueTeamPlayer,
+  ({ one }) => ({
+    leagueTeam: one(leagueTeam, {
+      fields: [leagueTeamPlayer.leagueTeamId],
+      references: [leagueTeam.id],
+    }),
+    user: one(user, {
+      fields: [leagueTeamPlayer.userId],
+      references: [user.id],
+    }),
+  }),
+);
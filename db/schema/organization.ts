@@ -27,6 +27,8 @@ export const organization = pgTable("organization", {
     .default(sql`gen_random_string(7, 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789')`),
   logo: text(),
   metadata: text(), // Better Auth expects string (JSON serialized)
+  /** IANA zone for wall-clock times that have no venue, and the default display zone. */
+  timeZone: text().default("UTC").notNull(),
   createdAt: timestamp({ withTimezone: true, mode: "date" })
     .defaultNow()
     .notNull(),
@@ -0,0 +1,165 @@
+/**
+ * Playoff brackets seeded from a season's standings. Each playoff_match is one slot of the bracket;
+ * its teams come from seeds (first round) or from the winner/loser of an earlier match. A match
+ * gets a game once both teams are known; until then its planned slot is held by a facility_booking.
+ */
+
+import { relations, sql } from "drizzle-orm";
+import {
+  boolean,
+  index,
+  integer,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  unique,
+} from "drizzle-orm/pg-core";
+import { facilitySurface } from "./facility";
+import { game } from "./game";
+import { league } from "./league";
+import { leagueTeam } from "./league_team";
+import { season } from "./season";
+
+export const playoffFormatEnum = pgEnum("playoff_format", [
+  "single_elimination",
+  "double_elimination",
+]);
+
+export type PlayoffFormat = (typeof playoffFormatEnum.enumValues)[number];
+
+/** Winners bracket, losers bracket (double elimination) or the grand final. */
+export const playoffBracketSideEnum = pgEnum("playoff_bracket_side", [
+  "winners",
+  "losers",
+  "final",
+]);
+
+export type PlayoffBracketSide =
+  (typeof playoffBracketSideEnum.enumValues)[number];
+
+export const playoffSlotOutcomeEnum = pgEnum("playoff_slot_outcome", [
+  "winner",
+  "loser",
+]);
+
+export type PlayoffSlotOutcome =
+  (typeof playoffSlotOutcomeEnum.enumValues)[number];
+
+/** One bracket per league season. */
+export const playoffBracket = pgTable("playoff_bracket", {
+  id: text()
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  leagueId: text()
+    .notNull()
+    .references(() => league.id, { onDelete: "cascade" }),
+  seasonId: text()
+    .notNull()
+    .unique()
+    .references(() => season.id, { onDelete: "cascade" }),
+  format: playoffFormatEnum().notNull(),
+  /** Teams seeded from the standings. */
+  teamCount: integer().notNull(),
+  /** Whether the field was padded to a power of two with byes for the top seeds. */
+  byes: boolean().default(false).notNull(),
+  gameDurationMinutes: integer().notNull(),
+  createdAt: timestamp({ withTimezone: true, mode: "date" })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp({ withTimezone: true, mode: "date" })
+    .defaultNow()
+    .$onUpdate(() => new Date())
+    .notNull(),
+});
+
+export type PlayoffBracket = typeof playoffBracket.$inferSelect;
+export type NewPlayoffBracket = typeof playoffBracket.$inferInsert;
+
+export const playoffMatch = pgTable(
+  "playoff_match",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    bracketId: text()
+      .notNull()
+      .references(() => playoffBracket.id, { onDelete: "cascade" }),
+    /** Position in the bracket, unique per bracket: "W2-0" = winners round 2, first match. */
+    key: text().notNull(),
+    side: playoffBracketSideEnum().notNull(),
+    /** Round within its side, 1-based. */
+    round: integer().notNull(),
+    /** Order within the round, 0-based, top to bottom. */
+    position: integer().notNull(),
+    /** Matches of a stage are played on the same day(s), after the previous stage. */
+    stage: integer().notNull(),
+    /** Seeds of a first-round match; null on a seeded side means a bye. */
+    homeSeed: integer(),
+    awaySeed: integer(),
+    /** Earlier match whose winner or loser fills this side (null for first-round sides). */
+    homeSourceKey: text(),
+    homeSourceOutcome: playoffSlotOutcomeEnum(),
+    awaySourceKey: text(),
+    awaySourceOutcome: playoffSlotOutcomeEnum(),
+    /** Teams once known. */
+    homeLeagueTeamId: text().references(() => leagueTeam.id, {
+      onDelete: "set null",
+    }),
+    awayLeagueTeamId: text().references(() => leagueTeam.id, {
+      onDelete: "set null",
+    }),
+    winnerLeagueTeamId: text().references(() => leagueTeam.id, {
+      onDelete: "set null",
+    }),
+    /** Planned slot. Null for matches decided by a bye. */
+    facilitySurfaceId: text().references(() => facilitySurface.id, {
+      onDelete: "set null",
+    }),
+    startsAt: timestamp({ withTimezone: true, mode: "date" }),
+    endsAt: timestamp({ withTimezone: true, mode: "date" }),
+    /** Created once both teams are known. */
+    gameId: text().references(() => game.id, { onDelete: "set null" }),
+    createdAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    unique("playoff_match_bracket_key_unique").on(table.bracketId, table.key),
+    index("playoff_match_bracket_id_idx").on(table.bracketId),
+    index("playoff_match_game_id_idx").on(table.gameId),
+  ],
+);
+
+export type PlayoffMatch = typeof playoffMatch.$inferSelect;
+export type NewPlayoffMatch = typeof playoffMatch.$inferInsert;
+
+export const playoffBracketRelations = relations(
+  playoffBracket,
+  ({ one, many }) => ({
+    league: one(league, {
+      fields: [playoffBracket.leagueId],
+      references: [league.id],
+    }),
+    season: one(season, {
+      fields: [playoffBracket.seasonId],
+      references: [season.id],
+    }),
+    matches: many(playoffMatch),
+  }),
+);
+
+export const playoffMatchRelations = relations(playoffMatch, ({ one }) => ({
+  bracket: one(playoffBracket, {
+    fields: [playoffMatch.bracketId],
+    references: [playoffBracket.id],
+  }),
+  game: one(game, {
+    fields: [playoffMatch.gameId],
+    references: [game.id],
+  }),
+}));
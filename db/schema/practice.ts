@@ -0,0 +1,165 @@
+/**
+ * Weekly practice time for teams. Coaches submit ranked practice_request preferences; an
+ * allocation run turns them into practice_slot rows (draft), and publishing a slot books every
+ * occurrence in its date range as a facility_booking so games and other bookings see it.
+ */
+
+import { relations, sql } from "drizzle-orm";
+import {
+  check,
+  date,
+  index,
+  integer,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  unique,
+} from "drizzle-orm/pg-core";
+import { facilitySurface, type FacilityDayKey } from "./facility";
+import { organization } from "./organization";
+import { team } from "./team";
+import { user } from "./user";
+
+export const practiceSlotStatusEnum = pgEnum("practice_slot_status", [
+  "draft",
+  "published",
+]);
+
+export type PracticeSlotStatus =
+  (typeof practiceSlotStatusEnum.enumValues)[number];
+
+/** A team's ranked weekly practice preference. rank 1 = first choice. */
+export const practiceRequest = pgTable(
+  "practice_request",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    teamId: text()
+      .notNull()
+      .references(() => team.id, { onDelete: "cascade" }),
+    rank: integer().notNull(),
+    day: text().$type<FacilityDayKey>().notNull(),
+    /** Wall-clock times (HH:mm) in the facility's time zone. */
+    startTime: text().notNull(),
+    endTime: text().notNull(),
+    /** Preferred surface; null = any surface in the organization. */
+    facilitySurfaceId: text().references(() => facilitySurface.id, {
+      onDelete: "set null",
+    }),
+    notes: text(),
+    createdByUserId: text().references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    unique("practice_request_team_rank_unique").on(table.teamId, table.rank),
+    check(
+      "practice_request_ends_after_starts",
+      sql`${table.endTime} > ${table.startTime}`,
+    ),
+    index("practice_request_team_id_idx").on(table.teamId),
+  ],
+);
+
+export type PracticeRequest = typeof practiceRequest.$inferSelect;
+export type NewPracticeRequest = typeof practiceRequest.$inferInsert;
+
+/** A weekly practice assigned to a team on a surface for an inclusive date range. */
+export const practiceSlot = pgTable(
+  "practice_slot",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: text()
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    teamId: text()
+      .notNull()
+      .references(() => team.id, { onDelete: "cascade" }),
+    /** The preference this slot satisfies; null once that request is replaced. */
+    practiceRequestId: text().references(() => practiceRequest.id, {
+      onDelete: "set null",
+    }),
+    /** Rank of the satisfied preference at allocation time. */
+    rank: integer(),
+    facilitySurfaceId: text()
+      .notNull()
+      .references(() => facilitySurface.id, { onDelete: "cascade" }),
+    day: text().$type<FacilityDayKey>().notNull(),
+    startTime: text().notNull(),
+    endTime: text().notNull(),
+    startDate: date({ mode: "string" }).notNull(),
+    endDate: date({ mode: "string" }).notNull(),
+    status: practiceSlotStatusEnum().default("draft").notNull(),
+    publishedAt: timestamp({ withTimezone: true, mode: "date" }),
+    createdAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    check(
+      "practice_slot_ends_after_starts",
+      sql`${table.endTime} > ${table.startTime}`,
+    ),
+    index("practice_slot_organization_id_idx").on(table.organizationId),
+    index("practice_slot_team_id_idx").on(table.teamId),
+  ],
+);
+
+export type PracticeSlot = typeof practiceSlot.$inferSelect;
+export type NewPracticeSlot = typeof practiceSlot.$inferInsert;
+
+// —————————————————————————————————————————————————————————————————————————————
+// Relations
+// —————————————————————————————————————————————————————————————————————————————
+
+export const practiceRequestRelations = relations(
+  practiceRequest,
+  ({ one }) => ({
+    team: one(team, {
+      fields: [practiceRequest.teamId],
+      references: [team.id],
+    }),
+    surface: one(facilitySurface, {
+      fields: [practiceRequest.facilitySurfaceId],
+      references: [facilitySurface.id],
+    }),
+    createdBy: one(user, {
+      fields: [practiceRequest.createdByUserId],
+      references: [user.id],
+    }),
+  }),
+);
+
+export const practiceSlotRelations = relations(practiceSlot, ({ one }) => ({
+  organization: one(organization, {
+    fields: [practiceSlot.organizationId],
+    references: [organization.id],
+  }),
+  team: one(team, {
+    fields: [practiceSlot.teamId],
+    references: [team.id],
+  }),
+  request: one(practiceRequest, {
+    fields: [practiceSlot.practiceRequestId],
+    references: [practiceRequest.id],
+  }),
+  surface: one(facilitySurface, {
+    fields: [practiceSlot.facilitySurfaceId],
+    references: [facilitySurface.id],
+  }),
+}));
@@ -0,0 +1,60 @@
+/**
+ * Seasons of a league (e.g. Spring 2026, Fall 2026). Teams enter a season through league_team,
+ * so games, standings, playoffs and rosters all belong to one season. Starting a new season
+ * completes the current one and leaves its teams, games and rosters as they were.
+ */
+
+import { relations, sql } from "drizzle-orm";
+import {
+  date,
+  index,
+  pgTable,
+  text,
+  timestamp,
+  unique,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { league } from "./league";
+
+export const season = pgTable(
+  "season",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    leagueId: text()
+      .notNull()
+      .references(() => league.id, { onDelete: "cascade" }),
+    name: text().notNull(),
+    /** Optional first day of play; the schedule generator starts here by default. */
+    startDate: date("start_date", { mode: "string" }),
+    /** Optional last day of play. */
+    endDate: date("end_date", { mode: "string" }),
+    /** Set when the next season starts. A league has one season without it: the current one. */
+    completedAt: timestamp({ withTimezone: true, mode: "date" }),
+    createdAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    unique("season_league_name_unique").on(table.leagueId, table.name),
+    uniqueIndex("season_league_current_unique")
+      .on(table.leagueId)
+      .where(sql`${table.completedAt} is null`),
+    index("season_league_id_idx").on(table.leagueId),
+  ],
+);
+
+export type Season = typeof season.$inferSelect;
+export type NewSeason = typeof season.$inferInsert;
+
+export const seasonRelations = relations(season, ({ one }) => ({
+  league: one(league, {
+    fields: [season.leagueId],
+    references: [league.id],
+  }),
+}));
@@ -77,6 +77,8 @@ export const teamMember = pgTable(
       .references(() => user.id, { onDelete: "cascade" }),
     /** Role: one 'admin' per team (team admin), rest 'member'. */
     role: teamMemberRoleEnum().default("member").notNull(),
+    /** Shirt number printed on game sheets. Text so "00" and "07" survive. */
+    jerseyNumber: text(),
     createdAt: timestamp({ withTimezone: true, mode: "date" })
       .defaultNow()
       .notNull(),
@@ -0,0 +1,226 @@
+/**
+ * One- and two-day tournaments: teams play a round robin within pools, then the top teams of
+ * each pool cross over into a single-elimination knockout stage. Separate from leagues, whose
+ * games span a season. Every tournament game is scheduled up front and holds its surface with
+ * a facility_booking; knockout games get their teams once the pools (or earlier rounds) finish.
+ */
+
+import { relations, sql } from "drizzle-orm";
+import {
+  check,
+  index,
+  integer,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  unique,
+} from "drizzle-orm/pg-core";
+import { facilitySurface } from "./facility";
+import { organization } from "./organization";
+import { team } from "./team";
+
+export const tournamentStageEnum = pgEnum("tournament_stage", [
+  "pool",
+  "knockout",
+]);
+
+export type TournamentStage = (typeof tournamentStageEnum.enumValues)[number];
+
+export const tournamentGameStatusEnum = pgEnum("tournament_game_status", [
+  "scheduled",
+  "in_progress",
+  "final",
+]);
+
+export type TournamentGameStatus =
+  (typeof tournamentGameStatusEnum.enumValues)[number];
+
+export const tournament = pgTable(
+  "tournament",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    organizationId: text()
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    name: text().notNull(),
+    /** Playing days (YYYY-MM-DD), inclusive. */
+    startDate: text().notNull(),
+    endDate: text().notNull(),
+    /** Daily playing window (HH:mm), intersected with each facility's hours. */
+    dayStartTime: text().notNull(),
+    dayEndTime: text().notNull(),
+    gameDurationMinutes: integer().notNull(),
+    /** Minimum time between the end of a team's game and the start of its next one. */
+    minRestMinutes: integer().notNull(),
+    /** Top teams of each pool that advance to the knockout stage. */
+    advancePerPool: integer().notNull(),
+    createdAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [index("tournament_organization_id_idx").on(table.organizationId)],
+);
+
+export type Tournament = typeof tournament.$inferSelect;
+export type NewTournament = typeof tournament.$inferInsert;
+
+export const tournamentPool = pgTable(
+  "tournament_pool",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    tournamentId: text()
+      .notNull()
+      .references(() => tournament.id, { onDelete: "cascade" }),
+    /** "Pool A", "Pool B"… */
+    name: text().notNull(),
+    position: integer().notNull(),
+  },
+  (table) => [
+    index("tournament_pool_tournament_id_idx").on(table.tournamentId),
+  ],
+);
+
+export type TournamentPool = typeof tournamentPool.$inferSelect;
+
+export const tournamentTeam = pgTable(
+  "tournament_team",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    tournamentId: text()
+      .notNull()
+      .references(() => tournament.id, { onDelete: "cascade" }),
+    teamId: text()
+      .notNull()
+      .references(() => team.id, { onDelete: "cascade" }),
+    poolId: text()
+      .notNull()
+      .references(() => tournamentPool.id, { onDelete: "cascade" }),
+    /** Overall seed (1 = strongest), used to spread teams across pools. */
+    seed: integer().notNull(),
+  },
+  (table) => [
+    unique("tournament_team_tournament_team_unique").on(
+      table.tournamentId,
+      table.teamId,
+    ),
+    index("tournament_team_pool_id_idx").on(table.poolId),
+  ],
+);
+
+export type TournamentTeam = typeof tournamentTeam.$inferSelect;
+
+export const tournamentGame = pgTable(
+  "tournament_game",
+  {
+    id: text()
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    tournamentId: text()
+      .notNull()
+      .references(() => tournament.id, { onDelete: "cascade" }),
+    /** Unique per tournament: "A-1-0" for pool A round 1, "K2-0" for knockout round 2. */
+    key: text().notNull(),
+    stage: tournamentStageEnum().notNull(),
+    /** Pool of a pool game. */
+    poolId: text().references(() => tournamentPool.id, { onDelete: "cascade" }),
+    round: integer().notNull(),
+    position: integer().notNull(),
+    /** Null on knockout sides until the teams are decided. */
+    homeTournamentTeamId: text().references(() => tournamentTeam.id, {
+      onDelete: "set null",
+    }),
+    awayTournamentTeamId: text().references(() => tournamentTeam.id, {
+      onDelete: "set null",
+    }),
+    /** Where a knockout side comes from, e.g. "A1" (winner of pool A) or "K1-0" (winner of that game). */
+    homeSource: text(),
+    awaySource: text(),
+    facilitySurfaceId: text().references(() => facilitySurface.id, {
+      onDelete: "set null",
+    }),
+    startsAt: timestamp({ withTimezone: true, mode: "date" }).notNull(),
+    endsAt: timestamp({ withTimezone: true, mode: "date" }).notNull(),
+    status: tournamentGameStatusEnum().default("scheduled").notNull(),
+    homeScore: integer(),
+    awayScore: integer(),
+    createdAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp({ withTimezone: true, mode: "date" })
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    unique("tournament_game_tournament_key_unique").on(
+      table.tournamentId,
+      table.key,
+    ),
+    check(
+      "tournament_game_scores_not_negative",
+      sql`${table.homeScore} >= 0 and ${table.awayScore} >= 0`,
+    ),
+    index("tournament_game_tournament_id_idx").on(table.tournamentId),
+  ],
+);
+
+export type TournamentGame = typeof tournamentGame.$inferSelect;
+export type NewTournamentGame = typeof tournamentGame.$inferInsert;
+
+export const tournamentRelations = relations(tournament, ({ one, many }) => ({
+  organization: one(organization, {
+    fields: [tournament.organizationId],
+    references: [organization.id],
+  }),
+  pools: many(tournamentPool),
+  teams: many(tournamentTeam),
+  games: many(tournamentGame),
+}));
+
+export const tournamentPoolRelations = relations(
+  tournamentPool,
+  ({ one, many }) => ({
+    tournament: one(tournament, {
+      fields: [tournamentPool.tournamentId],
+      references: [tournament.id],
+    }),
+    teams: many(tournamentTeam),
+  }),
+);
+
+export const tournamentTeamRelations = relations(tournamentTeam, ({ one }) => ({
+  tournament: one(tournament, {
+    fields: [tournamentTeam.tournamentId],
+    references: [tournament.id],
+  }),
+  team: one(team, {
+    fields: [tournamentTeam.teamId],
+    references: [team.id],
+  }),
+  pool: one(tournamentPool, {
+    fields: [tournamentTeam.poolId],
+    references: [tournamentPool.id],
+  }),
+}));
+
+export const tournamentGameRelations = relations(tournamentGame, ({ one }) => ({
+  tournament: one(tournament, {
+    fields: [tournamentGame.tournamentId],
+    references: [tournament.id],
+  }),
+  pool: one(tournamentPool, {
+    fields: [tournamentGame.poolId],
+    references: [tournamentPool.id],
+  }),
+}));
@@ -1,21 +1,14 @@
 /**
- * Minimal WebSocket server example using WS-Kit.
+ * Minimal live WebSocket server example using WS-Kit.
  *
  * Run with: bun run example.ts
  */
 
-import { createBunHandler } from "@ws-kit/bun";
-import { memoryPubSub } from "@ws-kit/memory";
-import { withPubSub } from "@ws-kit/pubsub";
-import { createAppRouter, Notification } from "./index";
+import { GameScoreChanged, liveTopic } from "./index";
+import { createLiveServer } from "./server";
 
-// Create the router with pub/sub support
-const router = createAppRouter().plugin(
-  withPubSub({ adapter: memoryPubSub() }),
-);
-
-// Create Bun WebSocket handlers
-const { fetch: handleWebSocket, websocket } = createBunHandler(router, {
+// Every connection is accepted and may follow any topic
+const live = createLiveServer({
   authenticate() {
     return { connectedAt: Date.now() };
   },
@@ -28,16 +21,22 @@ const server = Bun.serve({
     const url = new URL(req.url);
 
     if (url.pathname === "/ws") {
-      return handleWebSocket(req, server);
+      return live.fetch(req, server);
     }
 
-    // Broadcast endpoint for testing pub/sub
-    if (url.pathname === "/broadcast" && req.method === "POST") {
-      router.publish("notifications", Notification, {
-        level: "info",
-        message: "Hello to all connected clients!",
+    // Publish a made-up score to followers of league "demo"
+    if (url.pathname === "/score" && req.method === "POST") {
+      live.publish([liveTopic("league", "demo")], GameScoreChanged, {
+        gameId: "game-1",
+        leagueId: "demo",
+        facilityId: null,
+        status: "in_progress",
+        homeScore: Math.floor(Math.random() * 5),
+        awayScore: Math.floor(Math.random() * 5),
+        periodScores: null,
+        updatedAt: new Date().toISOString(),
       });
-      return new Response("Broadcast sent");
+      return new Response("Score published");
     }
 
     return new Response(
@@ -48,11 +47,10 @@ Connect to ws://localhost:3000/ws
 
 Try sending:
 - {"type": "PING", "meta": {}, "payload": {}}
-- {"type": "ECHO", "meta": {}, "payload": {"text": "Hello"}}
-- {"type": "GET_USER", "meta": {"correlationId": "1"}, "payload": {"id": "123"}}
+- {"type": "SUBSCRIBE", "meta": {}, "payload": {"topics": ["league:demo"]}}
 
-Broadcast to all clients:
-- curl -X POST http://localhost:3000/broadcast
+Publish a score to league:demo followers:
+- curl -X POST http://localhost:3000/score
     `,
       {
         headers: { "content-type": "text/plain" },
@@ -60,7 +58,7 @@ Broadcast to all clients:
     );
   },
 
-  websocket,
+  websocket: live.websocket,
 });
 
 console.log(`
@@ -71,47 +69,3 @@ WebSocket server running at:
 Test with:
    wscat -c ws://localhost:${server.port}/ws
 `);
-
-// ============================================================================
-// Example Client Code (for reference)
-// ============================================================================
-/*
-import { wsClient, message, z } from "@ws-kit/client/zod";
-import { Ping, Pong, Echo, GetUser } from "@repo/ws-protocol/messages";
-
-// Create typed client
-const client = wsClient({
-  url: "ws://localhost:3000/ws",
-  reconnect: { enabled: true },
-});
-
-// Handle incoming messages
-client.on(Pong, (msg) => {
-  console.log("Received Pong");
-});
-
-client.on(Echo, (msg) => {
-  console.log("Echo response:", msg.payload.text);
-});
-
-// Connect and send messages
-await client.connect();
-
-// Send ping
-client.send(Ping);
-
-// Send echo
-client.send(Echo, { text: "Hello server!" });
-
-// RPC request with typed response
-const user = await client.request(
-  GetUser,
-  { id: "123" },
-  GetUser.response,
-  { timeoutMs: 5000 }
-);
-console.log("User:", user.payload.name);
-
-// Cleanup
-await client.close();
-*/
@@ -3,11 +3,13 @@
  *
  * @example
  * ```ts
- * import { createAppRouter, Ping, Pong, Echo } from "@repo/ws-protocol";
+ * import { createAppRouter, GameScoreChanged, liveTopic } from "@repo/ws-protocol";
  *
  * const router = createAppRouter();
+ * router.publish(liveTopic("league", leagueId), GameScoreChanged, game);
  * ```
  */
 
 export * from "./messages";
 export * from "./router";
+export * from "./topics";
@@ -6,17 +6,17 @@
  *
  * @example
  * ```ts
- * import { Ping, Pong, Echo } from "@repo/ws-protocol";
+ * import { GameScoreChanged, Ping } from "@repo/ws-protocol";
  *
  * // Send a ping
  * ctx.send(Ping);
  *
- * // Send an echo with payload
- * ctx.send(Echo, { text: "Hello" });
+ * // Publish a live score to a league's followers
+ * router.publish("league:123", GameScoreChanged, game);
  * ```
  */
 
-import { message, rpc, z } from "@ws-kit/zod";
+import { message, z, type InferPayload } from "@ws-kit/zod";
 
 // ============================================================================
 // Connection Health
@@ -28,13 +28,6 @@ export const Ping = message("PING", { timestamp: z.number().optional() });
 /** Pong message sent in response to Ping. */
 export const Pong = message("PONG", { timestamp: z.number().optional() });
 
-// ============================================================================
-// Echo (Simple Request/Response)
-// ============================================================================
-
-/** Echo message - server echoes back the same text. */
-export const Echo = message("ECHO", { text: z.string() });
-
 // ============================================================================
 // Notifications
 // ============================================================================
@@ -51,24 +44,72 @@ export const Notification = message("NOTIFICATION", {
 
 /** Error message for communicating protocol-level errors. */
 export const ErrorMessage = message("ERROR", {
-  code: z.enum(["INVALID_MESSAGE", "UNAUTHORIZED", "SERVER_ERROR"]),
+  code: z.enum([
+    "INVALID_MESSAGE",
+    "UNAUTHORIZED",
+    "FORBIDDEN",
+    "SERVER_ERROR",
+  ]),
   message: z.string(),
 });
 
 // ============================================================================
-// RPC Examples
+// Live Topics
+// ============================================================================
+
+const topicsShape = {
+  topics: z.array(z.string().min(1)).min(1).max(50),
+};
+
+/** Follow topics (see topics.ts), e.g. `league:<id>`. Server replies with Subscribed or ERROR. */
+export const Subscribe = message("SUBSCRIBE", topicsShape);
+
+/** Stop following topics. */
+export const Unsubscribe = message("UNSUBSCRIBE", topicsShape);
+
+/** Acknowledges a Subscribe: the connection now follows these topics. */
+export const Subscribed = message("SUBSCRIBED", {
+  topics: z.array(z.string()),
+});
+
+// ============================================================================
+// Live Game Events
 // ============================================================================
 
 /**
- * Get user by ID - example RPC with request/response pattern.
- * Request: GET_USER with { id }
- * Response: USER with { id, name, email }
+ * A game as it is after the change. Published to the game's `game:`, `league:` and (when it has
+ * a venue) `facility:` topics, so clients following more than one may receive it more than once.
  */
-export const GetUser = rpc("GET_USER", { id: z.string() }, "USER", {
-  id: z.string(),
-  name: z.string(),
-  email: z.string().optional(),
-});
+const liveGameShape = {
+  gameId: z.string(),
+  leagueId: z.string(),
+  facilityId: z.string().nullable(),
+  status: z.string(),
+  homeScore: z.number().int().nullable(),
+  awayScore: z.number().int().nullable(),
+  /** Scores per period in play order; the last entry is the period being played. */
+  periodScores: z
+    .array(z.object({ home: z.number().int(), away: z.number().int() }))
+    .nullable(),
+  updatedAt: z.string(),
+};
+
+/** The score of a game in progress changed. */
+export const GameScoreChanged = message("GAME_SCORE_CHANGED", liveGameShape);
+
+/** A game in progress moved on to a new period. */
+export const GamePeriodChanged = message("GAME_PERIOD_CHANGED", liveGameShape);
+
+/** A game finished (final, forfeit or abandoned), or its result was corrected. */
+export const GameFinal = message("GAME_FINAL", liveGameShape);
+
+/** Payload of every live game event. */
+export type LiveGame = InferPayload<typeof GameScoreChanged>;
+
+export type LiveGameMessage =
+  | typeof GameScoreChanged
+  | typeof GamePeriodChanged
+  | typeof GameFinal;
 
 // ============================================================================
 // Type Exports
@@ -25,8 +25,24 @@
  * ```
  */
 
-import { createRouter, withZod, type Router } from "@ws-kit/zod";
-import { Ping, Pong, Echo, GetUser } from "./messages";
+import {
+  createRouter,
+  withZod,
+  type InferPayload,
+  type MessageSchema,
+  type Router,
+} from "@ws-kit/zod";
+import {
+  ErrorMessage,
+  Notification,
+  Ping,
+  Pong,
+  Subscribe,
+  Subscribed,
+  Unsubscribe,
+  type LiveGameMessage,
+} from "./messages";
+import { parseLiveTopic, type LiveTopic } from "./topics";
 
 /**
  * Connection data stored per WebSocket connection.
@@ -34,28 +50,60 @@ import { Ping, Pong, Echo, GetUser } from "./messages";
 export interface AppData extends Record<string, unknown> {
   connectedAt?: number;
   userId?: string;
+  /** Set instead of userId for a kiosk display, which may only follow its facility. */
+  kioskFacilityId?: string;
 }
 
+export interface AppRouterOptions {
+  /**
+   * Whether a connection may follow a topic, e.g. whether its user belongs to the league's
+   * organization. Without it every well-formed topic is allowed.
+   */
+  authorizeTopic?: (
+    data: AppData,
+    topic: LiveTopic,
+  ) => Promise<boolean> | boolean;
+}
+
+type Send = (schema: MessageSchema, payload: unknown) => void;
+
+/** The application router, plus publishing to the connections following a topic. */
+export type AppRouter = Router<AppData> & {
+  /** Send a message to every connection following `topic`. Returns how many it reached. */
+  publish<S extends LiveGameMessage | typeof Notification>(
+    topic: string,
+    schema: S,
+    payload: InferPayload<S>,
+  ): number;
+};
+
 /**
  * Creates the application WebSocket router with message handlers.
  *
  * The router is configured with:
  * - Zod validation plugin for type-safe payload validation
+ * - Followers per live topic, for publish()
  * - Ping/Pong handlers for connection health checks
- * - Echo handler for testing
- * - GetUser RPC handler as an example
+ * - Subscribe/Unsubscribe handlers for live topics
  *
  * @example
  * ```ts
- * const router = createAppRouter();
- *
- * // Add custom handlers
- * router.on(CustomMessage, (ctx) => {
- *   // Handle custom message
+ * const router = createAppRouter({
+ *   authorizeTopic: (data, topic) => canFollow(data.userId, topic),
  * });
+ *
+ * // Publish to everyone following a league
+ * router.publish("league:123", GameScoreChanged, game);
  * ```
  */
-export function createAppRouter(): Router<AppData> {
+export function createAppRouter(options: AppRouterOptions = {}): AppRouter {
+  // Topic → client id → that connection's send, registered on Subscribe.
+  const followers = new Map<string, Map<string, Send>>();
+  const unfollow = (topic: string, clientId: string) => {
+    followers.get(topic)?.delete(clientId);
+    if (followers.get(topic)?.size === 0) followers.delete(topic);
+  };
+
   const router = createRouter<AppData>()
     .plugin(withZod())
 
@@ -69,6 +117,7 @@ export function createAppRouter(): Router<AppData> {
     })
 
     .onClose((ctx) => {
+      for (const topic of [...followers.keys()]) unfollow(topic, ctx.clientId);
       const connectedAt = ctx.data.connectedAt ?? Date.now();
       const duration = Math.round((Date.now() - connectedAt) / 1000);
       console.log(
@@ -88,29 +137,47 @@ export function createAppRouter(): Router<AppData> {
       ctx.send(Pong, { timestamp: Date.now() });
     })
 
-    .on(Echo, (ctx) => {
-      ctx.send(Echo, { text: ctx.payload.text });
-    })
-
     // =========================================================================
-    // RPC Handlers
+    // Live Topics
     // =========================================================================
 
-    .rpc(GetUser, async (ctx) => {
-      // Example: fetch user from database
-      // const user = await db.query.users.findFirst({
-      //   where: eq(users.id, ctx.payload.id),
-      // });
-
-      // Mock response for demonstration
-      ctx.reply({
-        id: ctx.payload.id,
-        name: `User ${ctx.payload.id}`,
-        email: `user-${ctx.payload.id}@example.com`,
-      });
+    .on(Subscribe, async (ctx) => {
+      const topics = [...new Set(ctx.payload.topics)];
+      for (const topic of topics) {
+        const parsed = parseLiveTopic(topic);
+        const allowed =
+          parsed != null &&
+          (options.authorizeTopic
+            ? await options.authorizeTopic(ctx.data, parsed)
+            : true);
+        if (!allowed) {
+          // Nothing is subscribed when any topic is refused.
+          ctx.send(ErrorMessage, {
+            code: parsed ? "FORBIDDEN" : "INVALID_MESSAGE",
+            message: `Cannot follow ${topic}`,
+          });
+          return;
+        }
+      }
+      for (const topic of topics) {
+        const clients = followers.get(topic) ?? new Map<string, Send>();
+        clients.set(ctx.clientId, ctx.send);
+        followers.set(topic, clients);
+      }
+      ctx.send(Subscribed, { topics });
+    })
+
+    .on(Unsubscribe, (ctx) => {
+      for (const topic of ctx.payload.topics) unfollow(topic, ctx.clientId);
     });
 
-  return router;
+  return Object.assign(router, {
+    publish(topic: string, schema: MessageSchema, payload: unknown) {
+      const clients = followers.get(topic);
+      for (const send of clients?.values() ?? []) send(schema, payload);
+      return clients?.size ?? 0;
+    },
+  }) as AppRouter;
 }
 
 // Re-export for convenience
@@ -0,0 +1,62 @@
+/**
+ * Bun WebSocket server for live topics.
+ *
+ * Wraps the application router in Bun handlers and exposes `publish`, so the HTTP server that
+ * records a change can push it to every connection following the affected topics.
+ *
+ * @example
+ * ```ts
+ * import { createLiveServer } from "@repo/ws-protocol/server";
+ *
+ * const live = createLiveServer({
+ *   authenticate: async (req) => ({ userId: await getUserId(req) }),
+ * });
+ *
+ * Bun.serve({
+ *   fetch(req, server) {
+ *     if (new URL(req.url).pathname === "/api/live") {
+ *       return live.fetch(req, server);
+ *     }
+ *     return app.fetch(req, server);
+ *   },
+ *   websocket: live.websocket,
+ * });
+ *
+ * live.publish(["league:123"], GameScoreChanged, game);
+ * ```
+ */
+
+import { createBunHandler } from "@ws-kit/bun";
+import type { InferPayload } from "@ws-kit/zod";
+import type { LiveGameMessage } from "./messages";
+import { createAppRouter, type AppData, type AppRouterOptions } from "./router";
+
+export interface LiveServerOptions extends AppRouterOptions {
+  /** Connection data for an upgrade request, or undefined to reject it with 401. */
+  authenticate: (
+    req: Request,
+  ) => Promise<AppData | undefined> | AppData | undefined;
+}
+
+/** Publishes live game events; implemented by the live server. */
+export interface LivePublisher {
+  publish<S extends LiveGameMessage>(
+    topics: string[],
+    schema: S,
+    payload: InferPayload<S>,
+  ): void;
+}
+
+export function createLiveServer(options: LiveServerOptions) {
+  const router = createAppRouter(options);
+  const { fetch, websocket } = createBunHandler(router, {
+    authenticate: options.authenticate,
+  });
+
+  const publisher: LivePublisher = {
+    publish(topics, schema, payload) {
+      for (const topic of topics) router.publish(topic, schema, payload);
+    },
+  };
+  return { fetch, websocket, ...publisher };
+}
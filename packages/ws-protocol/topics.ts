@@ -0,0 +1,36 @@
+/**
+ * Live topic names. A connection follows topics with Subscribe and receives the game events
+ * published to them: `league:<leagueId>`, `game:<gameId>` or `facility:<facilityId>`.
+ *
+ * @example
+ * ```ts
+ * import { liveTopic, parseLiveTopic } from "@repo/ws-protocol";
+ *
+ * liveTopic("league", league.id); // "league:…"
+ * parseLiveTopic("game:123"); // { kind: "game", id: "123" }
+ * ```
+ */
+
+export const LIVE_TOPIC_KINDS = ["league", "game", "facility"] as const;
+
+export type LiveTopicKind = (typeof LIVE_TOPIC_KINDS)[number];
+
+export interface LiveTopic {
+  kind: LiveTopicKind;
+  id: string;
+}
+
+/** Topic name for a league, game or facility. */
+export function liveTopic(kind: LiveTopicKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+/** Parse a topic name; null when it is not a known kind followed by an id. */
+export function parseLiveTopic(topic: string): LiveTopic | null {
+  const separator = topic.indexOf(":");
+  const kind = topic.slice(0, separator);
+  const id = topic.slice(separator + 1);
+  if (separator === -1 || !id) return null;
+  if (!(LIVE_TOPIC_KINDS as readonly string[]).includes(kind)) return null;
+  return { kind: kind as LiveTopicKind, id };
+}